@@ -34,6 +34,7 @@ const Dashboard = lazyWithPrefetch(() => import("./pages/Dashboard"));
 const Contacts = lazyWithPrefetch(() => import("./pages/Contacts"));
 const ContactDetail = lazyWithPrefetch(() => import("./pages/ContactDetail"));
 const Properties = lazyWithPrefetch(() => import("./pages/Properties"));
+const Mandates = lazyWithPrefetch(() => import("./pages/Mandates"));
 const Deals = lazyWithPrefetch(() => import("./pages/Deals"));
 const DealDetail = lazyWithPrefetch(() => import("./pages/DealDetail"));
 const Activities = lazyWithPrefetch(() => import("./pages/Activities"));
@@ -137,6 +138,9 @@ function AppRoutes() {
       <Route path="/properties" element={
         <GatedRoute><Properties /></GatedRoute>
       } />
+      <Route path="/mandates" element={
+        <GatedRoute><Mandates /></GatedRoute>
+      } />
       <Route path="/deals" element={
         <GatedRoute><Deals /></GatedRoute>
       } />
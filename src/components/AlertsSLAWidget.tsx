@@ -11,18 +11,24 @@ import {
   TrendingDown,
   ArrowRight,
   CheckCircle,
-  Zap
+  Zap,
+  Key,
+  FileSignature
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useUpcomingLeaseEnds } from '@/hooks/useLeases';
 import { differenceInDays, isBefore, startOfDay } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { formatCurrency } from '@/lib/formatters';
+import { getExpiringExclusiveMandates } from '@/lib/mandate-register';
+import { getUpcomingLeaseEnds } from '@/lib/rental';
 import type { Tables } from '@/integrations/supabase/types';
 
 type Contact = Tables<'contacts'>;
 type Deal = Tables<'deals'>;
 type Activity = Tables<'activities'>;
+type Mandate = Tables<'mandates'>;
 
 type Severity = 'critical' | 'warning' | 'info';
 
@@ -160,7 +166,16 @@ export function AlertsSLAWidget({ className }: { className?: string }) {
     select: '*'
   });
   
-  const isLoading = contactsLoading || dealsLoading || activitiesLoading;
+  // Fetch active exclusive mandates for expiry analysis
+  const { data: mandates, isLoading: mandatesLoading } = useOrgQuery<Mandate[]>('mandates', {
+    select: '*',
+    filters: { status: 'actif', mandate_type: 'exclusif' }
+  });
+  
+  // Fetch active leases nearing their end date
+  const { leases, isLoading: leasesLoading } = useUpcomingLeaseEnds();
+  
+  const isLoading = contactsLoading || dealsLoading || activitiesLoading || mandatesLoading || leasesLoading;
   
   // Calculate alerts
   const alerts = useMemo(() => {
@@ -198,19 +213,37 @@ export function AlertsSLAWidget({ className }: { className?: string }) {
       priority: a.priority
     })) || [];
     
+    // 4. Exclusive mandates nearing expiry (or already past their end date)
+    const expiringMandates = getExpiringExclusiveMandates(mandates ?? [], today).map(({ mandate, daysLeft }) => ({
+      id: mandate.id,
+      label: `N°${mandate.number} — ${mandate.property_label}`,
+      sublabel: daysLeft < 0 ? `échu depuis ${-daysLeft}j` : `expire dans ${daysLeft}j`,
+      overdue: daysLeft < 0
+    }));
+    
+    // 5. Leases nearing their end (or already past their end date)
+    const leaseEnds = getUpcomingLeaseEnds(leases, today).map(({ lease, daysLeft }) => ({
+      id: lease.id,
+      label: `${lease.property?.title ?? 'Bien'}${lease.tenant ? ` — ${lease.tenant.full_name}` : ''}`,
+      sublabel: daysLeft < 0 ? `échu depuis ${-daysLeft}j` : `fin dans ${daysLeft}j`,
+      overdue: daysLeft < 0
+    }));
+    
     return {
       blockedDeals,
       overdueContacts,
-      slaBreaches
+      slaBreaches,
+      expiringMandates,
+      leaseEnds
     };
-  }, [contacts, deals, activities, today]);
+  }, [contacts, deals, activities, mandates, leases, today]);
   
-  const totalAlerts = alerts.blockedDeals.length + alerts.overdueContacts.length + alerts.slaBreaches.length;
+  const totalAlerts = alerts.blockedDeals.length + alerts.overdueContacts.length + alerts.slaBreaches.length + alerts.expiringMandates.length + alerts.leaseEnds.length;
   
   // Determine overall severity
   const overallSeverity: Severity = useMemo(() => {
-    if (alerts.blockedDeals.length >= 3 || alerts.slaBreaches.length >= 5) return 'critical';
-    if (alerts.overdueContacts.length >= 5 || alerts.blockedDeals.length >= 1) return 'warning';
+    if (alerts.blockedDeals.length >= 3 || alerts.slaBreaches.length >= 5 || alerts.expiringMandates.some(m => m.overdue) || alerts.leaseEnds.some(l => l.overdue)) return 'critical';
+    if (alerts.overdueContacts.length >= 5 || alerts.blockedDeals.length >= 1 || alerts.expiringMandates.length >= 1 || alerts.leaseEnds.length >= 1) return 'warning';
     return 'info';
   }, [alerts]);
   
@@ -345,6 +378,48 @@ export function AlertsSLAWidget({ className }: { className?: string }) {
             delay={0.2}
           />
         )}
+        
+        {/* Expiring exclusive mandates */}
+        {alerts.expiringMandates.length > 0 && (
+          <AlertCard
+            severity={alerts.expiringMandates.some(m => m.overdue) ? 'critical' : 'warning'}
+            icon={<Key className={cn(
+              'w-4 h-4',
+              alerts.expiringMandates.some(m => m.overdue) ? 'text-accent' : 'text-primary'
+            )} />}
+            title="Mandats Exclusifs à Échéance"
+            count={alerts.expiringMandates.length}
+            items={alerts.expiringMandates.map(m => ({
+              id: m.id,
+              label: m.label,
+              sublabel: m.sublabel
+            }))}
+            actionLabel="Voir le registre"
+            onClick={() => navigate('/mandates?filter=expiring')}
+            delay={0.3}
+          />
+        )}
+        
+        {/* Upcoming lease ends */}
+        {alerts.leaseEnds.length > 0 && (
+          <AlertCard
+            severity={alerts.leaseEnds.some(l => l.overdue) ? 'critical' : 'warning'}
+            icon={<FileSignature className={cn(
+              'w-4 h-4',
+              alerts.leaseEnds.some(l => l.overdue) ? 'text-accent' : 'text-primary'
+            )} />}
+            title="Fins de Bail à Venir"
+            count={alerts.leaseEnds.length}
+            items={alerts.leaseEnds.map(l => ({
+              id: l.id,
+              label: l.label,
+              sublabel: l.sublabel
+            }))}
+            actionLabel="Voir les biens"
+            onClick={() => navigate('/properties?filter=lease_ending')}
+            delay={0.4}
+          />
+        )}
       </CardContent>
     </Card>
   );
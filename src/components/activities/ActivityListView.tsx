@@ -21,8 +21,11 @@ import {
   Trash2,
   CalendarClock,
   ListFilter,
+  FileSignature,
 } from 'lucide-react';
 import { GuidedEmptyState } from '@/components/GuidedEmptyState';
+import { VisitVoucherDialog } from '@/components/activities/VisitVoucherDialog';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
 import { useAuth } from '@/contexts/AuthContext';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
@@ -178,13 +181,18 @@ function groupByDate(activities: Activity[]): DateGroup[] {
 
 function ActivityRow({
   activity,
+  voucherSigned,
   onComplete,
   onDelete,
+  onOpenVoucher,
   index,
 }: {
   activity: Activity;
+  /** undefined when no bon de visite was drawn up */
+  voucherSigned?: boolean;
   onComplete: () => void;
   onDelete: () => void;
+  onOpenVoucher: () => void;
   index: number;
 }) {
   const Icon = getActivityIcon(activity.type);
@@ -273,6 +281,17 @@ function ActivityRow({
         >
           {ACTIVITY_TYPE_LABELS[activity.type as keyof typeof ACTIVITY_TYPE_LABELS] || activity.type}
         </Badge>
+        {voucherSigned !== undefined && (
+          <Badge
+            variant="outline"
+            className={cn(
+              'text-[10px] hidden sm:inline-flex',
+              voucherSigned ? 'border-emerald-500/30 text-emerald-400' : 'border-amber-500/30 text-amber-400'
+            )}
+          >
+            {voucherSigned ? 'Bon signé' : 'Bon à signer'}
+          </Badge>
+        )}
         {activity.priority && activity.priority !== 'normale' && (
           <Badge className={cn('text-[10px]', getPriorityColor(activity.priority))}>
             {ACTIVITY_PRIORITY_LABELS[activity.priority as keyof typeof ACTIVITY_PRIORITY_LABELS]}
@@ -280,8 +299,22 @@ function ActivityRow({
         )}
 
         {/* Hover actions */}
-        {!isCompleted && (
-          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          {activity.type === 'visite' && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7 hover:bg-blue-500/10 hover:text-blue-400"
+              title="Bon de visite"
+              onClick={(e) => {
+                e.stopPropagation();
+                onOpenVoucher();
+              }}
+            >
+              <FileSignature className="w-3.5 h-3.5" />
+            </Button>
+          )}
+          {!isCompleted && (
             <Button
               size="icon"
               variant="ghost"
@@ -293,8 +326,8 @@ function ActivityRow({
             >
               <Trash2 className="w-3.5 h-3.5" />
             </Button>
-          </div>
-        )}
+          )}
+        </div>
       </div>
     </motion.div>
   );
@@ -310,6 +343,7 @@ interface ActivityListViewProps {
 
 export function ActivityListView({ activities, isLoading, onOpenCreate }: ActivityListViewProps) {
   const [typeFilter, setTypeFilter] = useState<TypeFilter>('tout');
+  const [voucherActivity, setVoucherActivity] = useState<Activity | null>(null);
   const queryClient = useQueryClient();
   const { organizationId } = useAuth();
 
@@ -349,6 +383,12 @@ export function ActivityListView({ activities, isLoading, onOpenCreate }: Activi
     },
   });
 
+  // Signature status of the bons de visite, shown on visit rows
+  const { data: vouchers } = useOrgQuery<{ activity_id: string | null; signed_at: string | null }[]>('visit_vouchers', {
+    select: 'activity_id, signed_at',
+  });
+  const voucherStatus = new Map((vouchers ?? []).map((v) => [v.activity_id, !!v.signed_at]));
+
   // Apply type filter
   const filtered = activities?.filter((a) => {
     if (typeFilter === 'tout') return true;
@@ -439,8 +479,10 @@ export function ActivityListView({ activities, isLoading, onOpenCreate }: Activi
                           key={activity.id}
                           activity={activity}
                           index={idx}
+                          voucherSigned={voucherStatus.get(activity.id)}
                           onComplete={() => completeMutation.mutate(activity.id)}
                           onDelete={() => deleteMutation.mutate(activity.id)}
+                          onOpenVoucher={() => setVoucherActivity(activity)}
                         />
                       ))}
                     </div>
@@ -451,6 +493,14 @@ export function ActivityListView({ activities, isLoading, onOpenCreate }: Activi
           )}
         </CardContent>
       </Card>
+
+      {voucherActivity && (
+        <VisitVoucherDialog
+          activity={voucherActivity}
+          open={!!voucherActivity}
+          onOpenChange={(open) => !open && setVoucherActivity(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react';
+import { Eraser } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { SIGNATURE_ASPECT_RATIO } from '@/lib/visit-voucher';
+
+interface SignaturePadProps {
+  /** PNG data URL after each stroke, null once cleared */
+  onChange: (signature: string | null) => void;
+  className?: string;
+}
+
+/**
+ * On-screen signature (mouse, pen or finger), exported as a transparent PNG
+ */
+export function SignaturePad({ onChange, className }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  // Match the backing store to the displayed size for crisp strokes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#1e293b';
+  }, []);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = getPoint(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    // A single tap still leaves a dot
+    ctx.lineTo(x + 0.1, y + 0.1);
+    ctx.stroke();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = getPoint(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing.current || !canvasRef.current) return;
+    drawing.current = false;
+    setIsEmpty(false);
+    onChange(canvasRef.current.toDataURL('image/png'));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    setIsEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="relative rounded-xl border border-white/20 bg-white overflow-hidden">
+        <canvas
+          ref={canvasRef}
+          className="block w-full touch-none cursor-crosshair"
+          style={{ aspectRatio: String(SIGNATURE_ASPECT_RATIO) }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        />
+        {isEmpty && (
+          <span className="pointer-events-none absolute inset-0 flex items-center justify-center text-sm text-slate-400">
+            Signez ici
+          </span>
+        )}
+      </div>
+      <div className="flex justify-end">
+        <Button type="button" variant="ghost" size="sm" className="gap-1.5" onClick={clear} disabled={isEmpty}>
+          <Eraser className="w-3.5 h-3.5" />
+          Effacer
+        </Button>
+      </div>
+    </div>
+  );
+}
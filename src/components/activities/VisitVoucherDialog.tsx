@@ -0,0 +1,181 @@
+import { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertTriangle, CheckCircle2, Download, FileSignature, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { SignaturePad } from '@/components/activities/SignaturePad';
+import { useOrganization } from '@/hooks/useOrganization';
+import { useVisitVoucher } from '@/hooks/useVisitVouchers';
+import { formatCurrency, formatShortDate } from '@/lib/formatters';
+import { generateVisitVoucherPdf, getVisitVoucherFileName, getVisitVoucherIssue } from '@/lib/visit-voucher';
+import type { Tables } from '@/integrations/supabase/types';
+
+interface VisitVoucherDialogProps {
+  activity: Tables<'activities'>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Draw up the voucher as soon as the dialog opens (right after planning the visit) */
+  autoCreate?: boolean;
+}
+
+export function VisitVoucherDialog({ activity, open, onOpenChange, autoCreate = false }: VisitVoucherDialogProps) {
+  const { data: organization } = useOrganization();
+  const { voucher, isLoading, create, sign, discard, isCreating, isSigning, isDiscarding } = useVisitVoucher(open ? activity : null);
+  const [signature, setSignature] = useState<string | null>(null);
+  const [signerName, setSignerName] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const issue = getVisitVoucherIssue(activity);
+  const autoCreated = useRef(false);
+
+  useEffect(() => {
+    if (!autoCreate || !open || issue || isLoading || voucher || autoCreated.current) return;
+    autoCreated.current = true;
+    create();
+  }, [autoCreate, open, issue, isLoading, voucher, create]);
+
+  useEffect(() => {
+    if (!open) return;
+    setSignature(null);
+    setSignerName(voucher?.visitor_name ?? '');
+  }, [open, voucher?.id, voucher?.visitor_name]);
+
+  // Re-take the snapshot after the contact or listing was corrected
+  const handleRefresh = async () => {
+    await discard();
+    await create();
+  };
+
+  const handleSign = async () => {
+    if (!signature || !signerName.trim()) return;
+    await sign({ signature, signedByName: signerName.trim() });
+    setSignature(null);
+  };
+
+  const handleDownload = async () => {
+    if (!voucher) return;
+    setIsGenerating(true);
+    try {
+      const doc = await generateVisitVoucherPdf(voucher, organization ?? null);
+      doc.save(getVisitVoucherFileName(voucher));
+    } catch (error) {
+      toast.error('Erreur lors de la génération du PDF', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSignature className="w-5 h-5 text-blue-400" />
+            Bon de visite
+          </DialogTitle>
+          <DialogDescription>{activity.name}</DialogDescription>
+        </DialogHeader>
+
+        {issue ? (
+          <div className="flex items-start gap-2 rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-sm text-amber-300">
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+            {issue}
+          </div>
+        ) : isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : !voucher ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Le bon reprend l'identité du visiteur, le bien, la date de visite et les honoraires du mandat en cours.
+              Il est ensuite signé à l'écran par le visiteur.
+            </p>
+            <Button
+              onClick={() => create()}
+              disabled={isCreating}
+              className="w-full gap-2 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
+            >
+              {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileSignature className="w-4 h-4" />}
+              Établir le bon de visite
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="rounded-xl border border-white/10 bg-white/5 p-4 space-y-2 text-sm">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-white font-semibold">{voucher.visitor_name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {[voucher.visitor_email, voucher.visitor_phone].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                {voucher.signed_at ? (
+                  <Badge className="shrink-0 gap-1 bg-emerald-500/20 text-emerald-400 border border-emerald-500/30">
+                    <CheckCircle2 className="w-3 h-3" />
+                    Signé le {formatShortDate(voucher.signed_at)}
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" className="shrink-0">À signer</Badge>
+                )}
+              </div>
+              <div>
+                <p className="text-white">{voucher.property_label}</p>
+                {voucher.property_address && <p className="text-xs text-muted-foreground">{voucher.property_address}</p>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Visite du {formatShortDate(voucher.visit_date)}
+                {voucher.property_price ? ` · ${formatCurrency(voucher.property_price)}` : ''}
+                {voucher.mandate_number ? ` · Mandat n°${voucher.mandate_number}` : ''}
+              </p>
+              <p className="text-xs text-white/80 border-t border-white/10 pt-2">{voucher.fee_mention}</p>
+            </div>
+
+            {voucher.signed_at ? (
+              voucher.signature && (
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">Signature de {voucher.signed_by_name}</p>
+                  <img src={voucher.signature} alt="Signature du visiteur" className="w-full rounded-xl bg-white" />
+                </div>
+              )
+            ) : (
+              <div className="space-y-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="voucher-signer">Nom du signataire</Label>
+                  <Input id="voucher-signer" value={signerName} onChange={(e) => setSignerName(e.target.value)} />
+                </div>
+                <SignaturePad key={voucher.id} onChange={setSignature} />
+                <p className="text-xs text-muted-foreground">
+                  En signant, le visiteur reconnaît avoir visité le bien par l'intermédiaire de l'agence.
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" className="gap-2" onClick={handleRefresh} disabled={isDiscarding || isCreating}>
+                    <RefreshCw className={`w-4 h-4 ${isDiscarding || isCreating ? 'animate-spin' : ''}`} />
+                    Actualiser
+                  </Button>
+                  <Button
+                    className="flex-1 gap-2 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
+                    onClick={handleSign}
+                    disabled={!signature || !signerName.trim() || isSigning}
+                  >
+                    {isSigning ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+                    Valider la signature
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <Button variant="outline" className="w-full gap-2" onClick={handleDownload} disabled={isGenerating}>
+              {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              Télécharger le PDF
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,15 @@
+import type { ElementType } from 'react';
+import { Bell, Calendar, Handshake, HelpCircle, ListTodo, Mail, MapPin, PenLine, Phone } from 'lucide-react';
+
+/** Icon, plural label and colour of each activity type */
+export const ACTIVITY_TYPE_CONFIG: Record<string, { icon: ElementType; label: string; color: string }> = {
+  appel: { icon: Phone, label: 'Appels', color: 'text-blue-400' },
+  email: { icon: Mail, label: 'Emails', color: 'text-purple-400' },
+  visite: { icon: MapPin, label: 'Visites', color: 'text-emerald-400' },
+  rdv: { icon: Calendar, label: 'Rendez-vous', color: 'text-amber-400' },
+  relance: { icon: Bell, label: 'Relances', color: 'text-orange-400' },
+  signature: { icon: Handshake, label: 'Signatures', color: 'text-green-400' },
+  note: { icon: PenLine, label: 'Notes', color: 'text-slate-400' },
+  tache: { icon: ListTodo, label: 'Tâches', color: 'text-indigo-400' },
+  autre: { icon: HelpCircle, label: 'Autres', color: 'text-gray-400' },
+};
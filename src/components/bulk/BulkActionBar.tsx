@@ -0,0 +1,354 @@
+import { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import {
+  AlertTriangle, CheckCircle2, Download, GitBranch, Loader2, Mail, Tags, Trash2, UserCheck, X,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useRole } from '@/hooks/useRole';
+import { useBulkActions, type BulkRun, type BulkTable } from '@/hooks/useBulkActions';
+import { parseTagList } from '@/lib/bulk-actions';
+import type { SequenceStep } from '@/lib/email-templates';
+import type { DealStage, PipelineStage } from '@/lib/constants';
+
+const UNASSIGNED = 'none';
+
+type BulkAction = 'assign' | 'tags' | 'stage' | 'enroll';
+
+interface BulkActionBarProps {
+  table: BulkTable;
+  /** Plural label of the rows, e.g. "contacts" */
+  entityLabel: string;
+  selectedIds: string[];
+  /** Every row matching the current filters, for "select all matching" */
+  matchingIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+  stageOptions: { value: PipelineStage | DealStage; label: string }[];
+  onExport: (ids: string[]) => void;
+}
+
+function BulkRunDialog({ run, onClose }: { run: BulkRun | null; onClose: () => void }) {
+  const result = run?.result;
+  const percent = run && run.progress.total > 0 ? Math.round((run.progress.done / run.progress.total) * 100) : 0;
+
+  return (
+    <Dialog open={!!run} onOpenChange={(open) => !open && result && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {!result ? (
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            ) : result.failed > 0 ? (
+              <AlertTriangle className="w-5 h-5 text-warning" />
+            ) : (
+              <CheckCircle2 className="w-5 h-5 text-emerald-400" />
+            )}
+            {run?.label}
+          </DialogTitle>
+          <DialogDescription>
+            {result ? 'Traitement terminé' : `${run?.progress.done ?? 0} / ${run?.progress.total ?? 0} traités…`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Progress value={percent} className="h-2" />
+
+        {result && (
+          <div className="space-y-2 text-sm">
+            <p>
+              <span className="font-medium text-emerald-400">{result.succeeded}</span> réussi(s)
+              {result.failed > 0 && (
+                <> · <span className="font-medium text-destructive">{result.failed}</span> en échec</>
+              )}
+            </p>
+            {result.notes.map((note) => (
+              <p key={note} className="text-muted-foreground">{note}</p>
+            ))}
+            {result.errors.map((error) => (
+              <p key={error} className="text-xs text-destructive">{error}</p>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={onClose} disabled={!result}>
+            Fermer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Floating bar of the bulk actions on the selected rows: assign, tags, stage,
+ * sequence enrollment, export, and delete for managers.
+ */
+export function BulkActionBar({
+  table,
+  entityLabel,
+  selectedIds,
+  matchingIds,
+  onSelectionChange,
+  stageOptions,
+  onExport,
+}: BulkActionBarProps) {
+  const { canManageTeam } = useRole();
+  const { run, dismiss, assign, updateTags, setStage, enroll, remove } = useBulkActions(table);
+
+  const [action, setAction] = useState<BulkAction | null>(null);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [assignee, setAssignee] = useState(UNASSIGNED);
+  const [tagsToAdd, setTagsToAdd] = useState('');
+  const [tagsToRemove, setTagsToRemove] = useState('');
+  const [stage, setStageValue] = useState('');
+  const [sequenceId, setSequenceId] = useState('');
+
+  const { data: profiles } = useOrgQuery<{ id: string; full_name: string | null }[]>('profiles', {
+    select: 'id, full_name',
+    orderBy: { column: 'full_name', ascending: true },
+  }, { enabled: action === 'assign' });
+  const { data: sequences } = useOrgQuery<{ id: string; name: string; steps: SequenceStep[] }[]>('email_sequences', {
+    select: 'id, name, steps',
+    filters: { is_active: true },
+    orderBy: { column: 'name', ascending: true },
+  }, { enabled: action === 'enroll' });
+
+  const count = selectedIds.length;
+  const remaining = matchingIds.length - matchingIds.filter((id) => selectedIds.includes(id)).length;
+
+  const closeAction = () => {
+    setAction(null);
+    setAssignee(UNASSIGNED);
+    setTagsToAdd('');
+    setTagsToRemove('');
+    setStageValue('');
+    setSequenceId('');
+  };
+
+  const handleConfirm = () => {
+    const ids = selectedIds;
+    const sequence = sequences?.find((s) => s.id === sequenceId);
+    closeAction();
+
+    switch (action) {
+      case 'assign':
+        assign(ids, assignee === UNASSIGNED ? null : assignee);
+        break;
+      case 'tags':
+        updateTags(ids, parseTagList(tagsToAdd), parseTagList(tagsToRemove));
+        break;
+      case 'stage':
+        setStage(ids, stage as PipelineStage | DealStage);
+        break;
+      case 'enroll':
+        if (sequence) enroll(ids, sequence);
+        break;
+    }
+  };
+
+  const handleCloseRun = () => {
+    // Failed rows stay selected so the action can be retried on them
+    if (run?.result && run.result.failed === 0) onSelectionChange([]);
+    dismiss();
+  };
+
+  const canConfirm =
+    action === 'assign' ||
+    (action === 'tags' && (parseTagList(tagsToAdd).length > 0 || parseTagList(tagsToRemove).length > 0)) ||
+    (action === 'stage' && !!stage) ||
+    (action === 'enroll' && !!sequenceId);
+
+  const actionTitles: Record<BulkAction, string> = {
+    assign: 'Attribuer à un agent',
+    tags: 'Modifier les tags',
+    stage: 'Changer d\'étape',
+    enroll: 'Inscrire à une séquence',
+  };
+
+  return (
+    <>
+      <AnimatePresence>
+        {count > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex flex-wrap items-center gap-2 rounded-xl border border-white/20 bg-background/95 backdrop-blur-xl px-4 py-3 shadow-lg"
+          >
+            <span className="text-sm font-medium">
+              {count} {entityLabel} sélectionné(s)
+            </span>
+            {remaining > 0 && (
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto px-1"
+                onClick={() => onSelectionChange([...new Set([...selectedIds, ...matchingIds])])}
+              >
+                Sélectionner les {matchingIds.length} correspondants
+              </Button>
+            )}
+            <div className="h-5 w-px bg-white/20 mx-1" />
+            <Button variant="ghost" size="sm" onClick={() => setAction('assign')}>
+              <UserCheck className="w-4 h-4 mr-1" />Attribuer
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setAction('tags')}>
+              <Tags className="w-4 h-4 mr-1" />Tags
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setAction('stage')}>
+              <GitBranch className="w-4 h-4 mr-1" />Étape
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setAction('enroll')}>
+              <Mail className="w-4 h-4 mr-1" />Séquence
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onExport(selectedIds)}>
+              <Download className="w-4 h-4 mr-1" />Exporter
+            </Button>
+            {/* Same roles as the contacts and deals DELETE policies */}
+            {canManageTeam && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                onClick={() => setIsDeleteOpen(true)}
+              >
+                <Trash2 className="w-4 h-4 mr-1" />Supprimer
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onSelectionChange([])}>
+              <X className="w-4 h-4" />
+            </Button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <Dialog open={!!action} onOpenChange={(open) => !open && closeAction()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{action && actionTitles[action]}</DialogTitle>
+            <DialogDescription>
+              {count} {entityLabel} sélectionné(s)
+            </DialogDescription>
+          </DialogHeader>
+
+          {action === 'assign' && (
+            <Select value={assignee} onValueChange={setAssignee}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Non attribué</SelectItem>
+                {(profiles ?? []).map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.full_name ?? 'Agent'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {action === 'tags' && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="bulk-tags-add">Ajouter</Label>
+                <Input
+                  id="bulk-tags-add"
+                  placeholder="vip, investisseur"
+                  value={tagsToAdd}
+                  onChange={(e) => setTagsToAdd(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bulk-tags-remove">Retirer</Label>
+                <Input
+                  id="bulk-tags-remove"
+                  placeholder="à rappeler"
+                  value={tagsToRemove}
+                  onChange={(e) => setTagsToRemove(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          {action === 'stage' && (
+            <Select value={stage} onValueChange={setStageValue}>
+              <SelectTrigger>
+                <SelectValue placeholder="Nouvelle étape" />
+              </SelectTrigger>
+              <SelectContent>
+                {stageOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {action === 'enroll' && (
+            <div className="space-y-2">
+              <Select value={sequenceId} onValueChange={setSequenceId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={sequences?.length ? 'Sélectionner une séquence' : 'Aucune séquence active'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {(sequences ?? []).map((sequence) => (
+                    <SelectItem key={sequence.id} value={sequence.id}>
+                      {sequence.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {table === 'deals'
+                  ? 'Le contact principal de chaque opportunité est inscrit. '
+                  : ''}
+                Les contacts sans email ou déjà inscrits sont ignorés.
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeAction}>
+              Annuler
+            </Button>
+            <Button onClick={handleConfirm} disabled={!canConfirm}>
+              Appliquer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Supprimer {count} {entityLabel} ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Cette action est définitive.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => remove(selectedIds)}
+            >
+              Supprimer
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <BulkRunDialog run={run} onClose={handleCloseRun} />
+    </>
+  );
+}
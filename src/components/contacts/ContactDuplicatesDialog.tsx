@@ -0,0 +1,259 @@
+import { useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ArrowLeft, ArrowLeftRight, Copy, Loader2, Merge, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useContactDuplicates } from '@/hooks/useContactDuplicates';
+import { useRole } from '@/hooks/useRole';
+import { formatDate } from '@/lib/formatters';
+import {
+  CONTACT_ROLE_LABELS,
+  PIPELINE_STAGE_LABELS,
+  type ContactRole,
+  type PipelineStage,
+} from '@/lib/constants';
+import {
+  DUPLICATE_REASON_LABELS,
+  MERGE_FIELDS,
+  MERGE_FIELD_LABELS,
+  buildMergedValues,
+  findDuplicatePairs,
+  getDefaultMergeChoices,
+  type DuplicatePair,
+  type MergeChoices,
+  type MergeField,
+} from '@/lib/contact-duplicates';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Contact = Tables<'contacts'>;
+
+interface ContactDuplicatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contacts: Contact[] | undefined;
+}
+
+function MergeReview({
+  pair,
+  profileNames,
+  isMerging,
+  onBack,
+  onMerge,
+}: {
+  pair: DuplicatePair;
+  profileNames: Map<string, string>;
+  isMerging: boolean;
+  onBack: () => void;
+  onMerge: (keep: Contact, merge: Contact, choices: MergeChoices) => Promise<void>;
+}) {
+  // The oldest record survives by default: it usually holds the history
+  const [keep, setKeep] = useState(() => ((pair.a.created_at ?? '') <= (pair.b.created_at ?? '') ? pair.a : pair.b));
+  const merge = keep.id === pair.a.id ? pair.b : pair.a;
+  const [choices, setChoices] = useState<MergeChoices>(() => getDefaultMergeChoices(keep, merge));
+
+  const swap = () => {
+    setKeep(merge);
+    setChoices(getDefaultMergeChoices(merge, keep));
+  };
+
+  const display = (field: MergeField, contact: Contact): string => {
+    const value = contact[field];
+    if (value == null || value === '') return '—';
+    if (field === 'role') return CONTACT_ROLE_LABELS[value as ContactRole] ?? String(value);
+    if (field === 'pipeline_stage') return PIPELINE_STAGE_LABELS[value as PipelineStage] ?? String(value);
+    if (field === 'assigned_to') return profileNames.get(String(value)) ?? 'Agent';
+    if (field === 'next_followup_date') return formatDate(String(value));
+    return String(value);
+  };
+
+  const tags = [...new Set([...(keep.tags ?? []), ...(merge.tags ?? [])])];
+
+  return (
+    <div className="flex flex-col gap-4 min-h-0">
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="ghost" size="sm" className="gap-1.5" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4" />
+          Retour
+        </Button>
+        <Button variant="outline" size="sm" className="gap-1.5" onClick={swap}>
+          <ArrowLeftRight className="w-4 h-4" />
+          Inverser
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0 max-h-[50vh] pr-3">
+        <div className="grid grid-cols-[110px_1fr_1fr] gap-2 text-sm">
+          <span />
+          <p className="text-xs font-semibold text-emerald-400 uppercase tracking-wider">Conservé</p>
+          <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Fusionné puis supprimé</p>
+
+          {MERGE_FIELDS.map((field) => (
+            <div key={field} className="contents">
+              <span className="text-xs text-muted-foreground self-center">{MERGE_FIELD_LABELS[field]}</span>
+              {(['keep', 'merge'] as const).map((side) => {
+                const contact = side === 'keep' ? keep : merge;
+                const selected = choices[field] === side;
+                return (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() => setChoices({ ...choices, [field]: side })}
+                    className={cn(
+                      'text-left rounded-md border px-2 py-1.5 truncate transition-colors',
+                      selected
+                        ? 'border-blue-500/50 bg-blue-500/10 text-white'
+                        : 'border-white/10 bg-white/[0.03] text-muted-foreground hover:bg-white/10'
+                    )}
+                  >
+                    {display(field, contact)}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 space-y-1 text-xs text-muted-foreground">
+          {tags.length > 0 && <p>Tags combinés : {tags.join(', ')}</p>}
+          {merge.notes && <p>Les notes des deux fiches sont conservées.</p>}
+          <p>
+            Activités, opportunités, recherches, séquences, propositions, mandats, baux et offres
+            de « {merge.full_name} » seront rattachés à « {keep.full_name} ».
+          </p>
+        </div>
+      </ScrollArea>
+
+      <Button
+        onClick={() => onMerge(keep, merge, choices)}
+        disabled={isMerging}
+        className="w-full gap-2 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
+      >
+        {isMerging ? <Loader2 className="w-4 h-4 animate-spin" /> : <Merge className="w-4 h-4" />}
+        Fusionner
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Likely duplicate contacts (same email / phone / name, or close names),
+ * and a field-by-field merge of a pair.
+ */
+export function ContactDuplicatesDialog({ open, onOpenChange, contacts }: ContactDuplicatesDialogProps) {
+  const { dismissed, merge, dismiss, isMerging } = useContactDuplicates({ enabled: open });
+  // Merging deletes the merged contact, restricted like a contact deletion
+  const { canManageTeam: canMerge } = useRole();
+  const [reviewing, setReviewing] = useState<DuplicatePair | null>(null);
+
+  const { data: profiles } = useOrgQuery<{ id: string; full_name: string | null }[]>('profiles', {
+    select: 'id, full_name',
+  }, { enabled: open });
+  const profileNames = useMemo(
+    () => new Map((profiles ?? []).map((p) => [p.id, p.full_name ?? 'Agent'])),
+    [profiles]
+  );
+
+  const pairs = useMemo(
+    () => (open ? findDuplicatePairs(contacts ?? [], dismissed) : []),
+    [open, contacts, dismissed]
+  );
+
+  const handleMerge = async (keep: Contact, mergeContact: Contact, choices: MergeChoices) => {
+    await merge({
+      keepId: keep.id,
+      mergeId: mergeContact.id,
+      values: buildMergedValues(keep, mergeContact, choices),
+    });
+    setReviewing(null);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        if (!value) setReviewing(null);
+        onOpenChange(value);
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy className="w-5 h-5 text-blue-400" />
+            {reviewing ? 'Fusionner deux contacts' : 'Doublons potentiels'}
+          </DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            {reviewing
+              ? 'Choisissez la valeur à garder pour chaque champ.'
+              : `${pairs.length} paire(s) détectée(s) par email, téléphone ou nom.${
+                canMerge ? '' : ' Seuls les administrateurs et managers peuvent fusionner.'
+              }`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {reviewing ? (
+          <MergeReview
+            key={`${reviewing.a.id}|${reviewing.b.id}`}
+            pair={reviewing}
+            profileNames={profileNames}
+            isMerging={isMerging}
+            onBack={() => setReviewing(null)}
+            onMerge={handleMerge}
+          />
+        ) : (
+          <ScrollArea className="flex-1 min-h-0 max-h-[60vh] pr-3">
+            {pairs.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Aucun doublon détecté.</p>
+            ) : (
+              <div className="space-y-2">
+                {pairs.map((pair) => (
+                  <div
+                    key={`${pair.a.id}|${pair.b.id}`}
+                    className="flex items-center gap-3 p-3 rounded-lg bg-white/5 border border-white/10"
+                  >
+                    <div className="flex-1 min-w-0 grid grid-cols-2 gap-3">
+                      {[pair.a, pair.b].map((contact) => (
+                        <div key={contact.id} className="min-w-0">
+                          <p className="text-sm font-medium truncate">{contact.full_name}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {[contact.email, contact.phone].filter(Boolean).join(' · ') || '—'}
+                          </p>
+                        </div>
+                      ))}
+                      <div className="col-span-2 flex flex-wrap gap-1">
+                        {pair.reasons.map((reason) => (
+                          <Badge key={reason} variant="outline" className="text-[10px]">
+                            {DUPLICATE_REASON_LABELS[reason]}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex flex-col gap-1 shrink-0">
+                      {canMerge && (
+                        <Button size="sm" variant="outline" className="gap-1.5" onClick={() => setReviewing(pair)}>
+                          <Merge className="w-3.5 h-3.5" />
+                          Comparer
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="gap-1.5 text-muted-foreground"
+                        onClick={() => dismiss({ a: pair.a.id, b: pair.b.id })}
+                      >
+                        <X className="w-3.5 h-3.5" />
+                        Ignorer
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
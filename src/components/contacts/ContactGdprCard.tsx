@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { FileJson, FileText, Loader2, ShieldCheck, UserX } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useContactGdpr } from '@/hooks/useContactGdpr';
+import { useOrganization } from '@/hooks/useOrganization';
+import { useRole } from '@/hooks/useRole';
+import { cn } from '@/lib/utils';
+import { formatDate } from '@/lib/formatters';
+import {
+  CONSENT_CHANNELS,
+  CONSENT_CHANNEL_LABELS,
+  CONSENT_SOURCES,
+  CONSENT_SOURCE_LABELS,
+  type ConsentChannel,
+  type ConsentSource,
+} from '@/lib/constants';
+import {
+  downloadContactExportJson,
+  downloadContactExportPdf,
+  getConsentState,
+  getConsentsByChannel,
+  type ConsentState,
+  type ContactConsent,
+} from '@/lib/contact-gdpr';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Contact = Tables<'contacts'>;
+
+const CONSENT_BADGES: Record<ConsentState, { label: string; className: string }> = {
+  granted: { label: 'Accordé', className: 'bg-blue-500/10 text-blue-300 border-blue-500/20' },
+  refused: { label: 'Refusé', className: 'bg-purple-500/10 text-purple-300 border-purple-500/20' },
+  unknown: { label: 'Non renseigné', className: 'bg-white/5 text-white/40 border-white/10' },
+};
+
+function ConsentRow({
+  channel,
+  consent,
+  isSaving,
+  onSave,
+}: {
+  channel: ConsentChannel;
+  consent: ContactConsent | undefined;
+  isSaving: boolean;
+  onSave: (values: { channel: ConsentChannel; granted: boolean; source: ConsentSource; consentedAt: string }) => Promise<void>;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [granted, setGranted] = useState(consent ? String(consent.granted) : 'true');
+  const [source, setSource] = useState<ConsentSource>((consent?.source as ConsentSource) ?? 'formulaire');
+  const [date, setDate] = useState(format(consent ? new Date(consent.consented_at) : new Date(), 'yyyy-MM-dd'));
+  const badge = CONSENT_BADGES[getConsentState(consent)];
+
+  const handleSave = async () => {
+    await onSave({ channel, granted: granted === 'true', source, consentedAt: new Date(date).toISOString() })
+      .then(() => setEditing(false))
+      .catch(() => undefined);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="text-muted-foreground">{CONSENT_CHANNEL_LABELS[channel]}</span>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className={cn('text-[10px]', badge.className)}>
+            {badge.label}
+          </Badge>
+          <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => setEditing(!editing)}>
+            {editing ? 'Fermer' : 'Modifier'}
+          </Button>
+        </div>
+      </div>
+      {consent && !editing && (
+        <p className="text-xs text-muted-foreground text-right">
+          {CONSENT_SOURCE_LABELS[consent.source as ConsentSource] ?? consent.source} · {formatDate(consent.consented_at)}
+        </p>
+      )}
+      {editing && (
+        <div className="grid grid-cols-3 gap-2">
+          <Select value={granted} onValueChange={setGranted}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="true">Accordé</SelectItem>
+              <SelectItem value="false">Refusé</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={source} onValueChange={(v) => setSource(v as ConsentSource)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONSENT_SOURCES.map((s) => (
+                <SelectItem key={s} value={s}>
+                  {CONSENT_SOURCE_LABELS[s]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            value={date}
+            max={format(new Date(), 'yyyy-MM-dd')}
+            onChange={(e) => setDate(e.target.value)}
+            className="h-8 text-xs"
+          />
+          <Button size="sm" className="col-span-3 h-7" onClick={handleSave} disabled={isSaving || !date}>
+            {isSaving && <Loader2 className="w-3 h-3 animate-spin mr-1.5" />}
+            Enregistrer
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * GDPR card of the contact page: consent per channel, export of the
+ * contact's data (right of access) and anonymization (right to erasure).
+ */
+export function ContactGdprCard({ contact }: { contact: Contact }) {
+  const { canManageTeam } = useRole();
+  const { data: organization } = useOrganization();
+  const {
+    consents,
+    setConsent,
+    exportData,
+    anonymize,
+    isSavingConsent,
+    isExporting,
+    isAnonymizing,
+  } = useContactGdpr(contact.id);
+  const isAnonymized = !!contact.anonymized_at;
+  const byChannel = getConsentsByChannel(consents);
+
+  const handleExport = async (kind: 'json' | 'pdf') => {
+    const data = await exportData().catch(() => null);
+    if (!data) return;
+    if (kind === 'json') downloadContactExportJson(data);
+    else downloadContactExportPdf(data, organization ?? null);
+  };
+
+  return (
+    <Card className="border-border bg-card/50">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4 text-primary" />
+          RGPD
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isAnonymized ? (
+          <p className="text-sm text-muted-foreground">
+            Contact anonymisé le {formatDate(contact.anonymized_at)}. Les opportunités sont conservées
+            pour la comptabilité, sans données personnelles.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {CONSENT_CHANNELS.map((channel) => (
+              <ConsentRow
+                key={`${channel}-${byChannel[channel]?.updated_at ?? 'none'}`}
+                channel={channel}
+                consent={byChannel[channel]}
+                isSaving={isSavingConsent}
+                onSave={setConsent}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="pt-4 border-t border-border space-y-2">
+          <span className="text-sm text-muted-foreground">Droit d'accès</span>
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="outline" size="sm" className="gap-2" disabled={isExporting} onClick={() => handleExport('json')}>
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileJson className="w-4 h-4" />}
+              JSON
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" disabled={isExporting} onClick={() => handleExport('pdf')}>
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+              PDF
+            </Button>
+          </div>
+        </div>
+
+        {canManageTeam && !isAnonymized && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" className="w-full gap-2 text-destructive hover:text-destructive">
+                <UserX className="w-4 h-4" />
+                Anonymiser
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Anonymiser {contact.full_name} ?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Cette action est irréversible. L'identité, les coordonnées, les notes, les activités,
+                  les recherches, les consentements et les liens du contact (relations, parties aux
+                  opportunités) seront effacés. Les opportunités
+                  (montants et commissions) et les mandats sont conservés sans données personnelles. Les
+                  bons de visite signés gardent le nom et la signature du visiteur, preuve de la visite.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Annuler</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => anonymize().catch(() => undefined)}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  {isAnonymizing && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                  Anonymiser
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
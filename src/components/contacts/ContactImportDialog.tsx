@@ -5,7 +5,7 @@ import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 import {
   Upload, Lock, ShieldCheck, RefreshCw, CheckCircle, AlertCircle,
-  Check, Loader2, AlertTriangle, FileText, ChevronRight, ChevronLeft,
+  Check, Loader2, AlertTriangle, FileText, ChevronRight, ChevronLeft, Undo2,
 } from 'lucide-react';
 import {
   Dialog, DialogContent, DialogHeader, DialogTitle,
@@ -21,18 +21,30 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useRole } from '@/hooks/useRole';
+import { useContactImportBatches } from '@/hooks/useContactImportBatches';
+import { ContactImportHistory } from '@/components/contacts/ContactImportHistory';
+import { buildContactMatcher, normalizeEmail, normalizePhone } from '@/lib/contact-duplicates';
 import {
-  parseCSVWithSheetJS,
+  parseContactFile,
   autoMapColumns,
+  hasNameMapping,
+  getImportPatch,
   validateAndTransformRows,
+  IMPORT_FIELD_LABELS,
+  IMPORT_FILE_FORMAT_LABELS,
+  type ImportFileFormat,
   type TransformedContact,
 } from '@/lib/contact-import-utils';
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
 const SYNAPILOT_FIELDS = [
   { value: '__ignore__', label: 'Ne pas importer', required: false },
   { value: 'full_name', label: 'Nom complet', required: true },
+  { value: 'first_name', label: 'Prénom', required: false },
+  { value: 'last_name', label: 'Nom de famille', required: false },
   { value: 'email', label: 'Email', required: false },
   { value: 'phone', label: 'Téléphone', required: false },
   { value: 'role', label: 'Rôle', required: false },
@@ -43,17 +55,8 @@ const SYNAPILOT_FIELDS = [
   { value: 'tags', label: 'Tags (séparés par virgule)', required: false },
 ];
 
-const FIELD_LABELS: Record<string, string> = {
-  full_name: 'Nom complet',
-  email: 'Email',
-  phone: 'Téléphone',
-  role: 'Rôle',
-  source: 'Source',
-  city: 'Ville',
-  postal_code: 'Code postal',
-  notes: 'Notes',
-  tags: 'Tags',
-};
+// Supabase returns at most 1 000 rows per request
+const EXISTING_CONTACTS_PAGE_SIZE = 1000;
 
 const stepVariants = {
   enter: (dir: number) => ({ x: dir > 0 ? 40 : -40, opacity: 0 }),
@@ -67,10 +70,15 @@ type ImportStep = 1 | 2 | 3 | 4;
 type DuplicateStrategy = 'ignore' | 'update';
 
 interface ImportResults {
+  batchId: string;
   imported: number;
   updated: number;
+  unchanged: number;
+  duplicates: number;
   errors: number;
   skipped: number;
+  /** Imported but missing from the batch, a revert leaves them as they are */
+  untracked: number;
 }
 
 interface ContactImportDialogProps {
@@ -130,7 +138,9 @@ function StepIndicator({ currentStep }: { currentStep: ImportStep }) {
 // ─── Main Component ───────────────────────────────────────────────────────────
 
 export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogProps) {
-  const { organizationId } = useAuth();
+  const { organizationId, profileId } = useAuth();
+  const { revert, isReverting } = useContactImportBatches({ enabled: open });
+  const { canManageTeam } = useRole();
   const queryClient = useQueryClient();
   const navigate = useNavigate();
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -140,6 +150,8 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
   const [isDragOver, setIsDragOver] = useState(false);
   const [isParsing, setIsParsing] = useState(false);
   const [parsedData, setParsedData] = useState<{ headers: string[]; rows: string[][] } | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [fileFormat, setFileFormat] = useState<ImportFileFormat>('csv');
   const [mapping, setMapping] = useState<Record<string, string>>({});
   const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>('update');
   const [isImporting, setIsImporting] = useState(false);
@@ -157,6 +169,8 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
         setIsDragOver(false);
         setIsParsing(false);
         setParsedData(null);
+        setFileName('');
+        setFileFormat('csv');
         setMapping({});
         setDuplicateStrategy('update');
         setIsImporting(false);
@@ -191,22 +205,25 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
 
   const processFile = useCallback(
     async (file: File) => {
-      if (!file.name.toLowerCase().endsWith('.csv')) {
+      const name = file.name.toLowerCase();
+      if (!name.endsWith('.csv') && !name.endsWith('.vcf')) {
         toast.error('Format non supporté', {
-          description: 'Veuillez sélectionner un fichier CSV (.csv)',
+          description: 'Veuillez sélectionner un fichier CSV (.csv) ou vCard (.vcf)',
         });
         return;
       }
 
       setIsParsing(true);
-      const result = await parseCSVWithSheetJS(file, (msg) => {
+      const result = await parseContactFile(file, (msg) => {
         toast.error(msg);
       });
       setIsParsing(false);
 
       if (!result) return;
 
-      setParsedData(result);
+      setParsedData({ headers: result.headers, rows: result.rows });
+      setFileName(file.name);
+      setFileFormat(result.format);
       setMapping(autoMapColumns(result.headers));
       goNext();
     },
@@ -241,8 +258,10 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
 
   // ── Derived state for step 2 / 3 ──────────────────────────────────────────
 
-  const isFullNameMapped = Object.values(mapping).includes('full_name');
+  const isFullNameMapped = hasNameMapping(mapping);
   const isEmailMapped = Object.values(mapping).includes('email');
+  const isPhoneMapped = Object.values(mapping).includes('phone');
+  const canMatchExisting = isEmailMapped || isPhoneMapped;
 
   const mappedFields = parsedData
     ? parsedData.headers
@@ -252,26 +271,40 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
 
   const previewRows = parsedData?.rows.slice(0, 8) ?? [];
 
-  const fullNameHeaderIndex = parsedData
-    ? parsedData.headers.findIndex((h) => mapping[h] === 'full_name')
-    : -1;
+  // Columns a contact name can be built from (full name, or first / last name)
+  const nameHeaderIndexes = parsedData
+    ? parsedData.headers
+        .map((h, i) => (['full_name', 'first_name', 'last_name'].includes(mapping[h]) ? i : -1))
+        .filter((i) => i >= 0)
+    : [];
 
-  const invalidRowCount = parsedData
-    ? parsedData.rows.filter((row) => !String(row[fullNameHeaderIndex] ?? '').trim()).length
-    : 0;
+  const isRowMissingName = (row: string[]) =>
+    nameHeaderIndexes.every((i) => !String(row[i] ?? '').trim());
+
+  const invalidRowCount = parsedData ? parsedData.rows.filter(isRowMissingName).length : 0;
 
   const validRowCount = (parsedData?.rows.length ?? 0) - invalidRowCount;
 
   // ── Import logic ───────────────────────────────────────────────────────────
 
+  const fetchExistingContacts = async (): Promise<Tables<'contacts'>[]> => {
+    const contacts: Tables<'contacts'>[] = [];
+    for (let from = 0; ; from += EXISTING_CONTACTS_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('contacts')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: true })
+        .range(from, from + EXISTING_CONTACTS_PAGE_SIZE - 1);
+      if (error) throw error;
+      contacts.push(...data);
+      if (data.length < EXISTING_CONTACTS_PAGE_SIZE) return contacts;
+    }
+  };
+
   const handleImport = async () => {
     if (!parsedData || !organizationId) return;
 
-    // TODO: add UNIQUE(email, organization_id) constraint to enable upsert duplicate detection
-    toast.warning('Détection des doublons désactivée — contrainte DB manquante', {
-      duration: 5000,
-    });
-
     const { valid, invalid: skipped } = validateAndTransformRows(
       parsedData.rows,
       parsedData.headers,
@@ -279,51 +312,184 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
       organizationId,
     );
 
-    const BATCH_SIZE = 50;
-    const batches: TransformedContact[][] = [];
-    for (let i = 0; i < valid.length; i += BATCH_SIZE) {
-      batches.push(valid.slice(i, i + BATCH_SIZE));
-    }
-
     setIsImporting(true);
     setImportProgress(0);
     setProcessedCount(0);
-    setTotalToImport(valid.length);
+
+    // ── Split rows into new contacts and updates of existing ones (same email, else same phone)
+    const toCreate: TransformedContact[] = [];
+    const toUpdate: { id: string; patch: Partial<Tables<'contacts'>>; previous: Partial<Tables<'contacts'>> }[] = [];
+    let duplicates = 0;
+    let unchanged = 0;
+
+    try {
+      const findExisting = canMatchExisting
+        ? buildContactMatcher(await fetchExistingContacts())
+        : () => undefined;
+      const seenKeys = new Set<string>();
+
+      for (const contact of valid) {
+        const keys = [normalizeEmail(contact.email), normalizePhone(contact.phone)].filter(Boolean) as string[];
+        // A person listed twice in the file is imported once
+        if (keys.some((key) => seenKeys.has(key))) {
+          duplicates++;
+          continue;
+        }
+        keys.forEach((key) => seenKeys.add(key));
+
+        const existing = findExisting(contact);
+        if (!existing) {
+          toCreate.push(contact);
+        } else if (duplicateStrategy === 'ignore') {
+          duplicates++;
+        } else {
+          const change = getImportPatch(existing, contact);
+          if (change) toUpdate.push({ id: existing.id, ...change });
+          else unchanged++;
+        }
+      }
+    } catch (error) {
+      setIsImporting(false);
+      toast.error('Impossible de vérifier les contacts existants', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return;
+    }
+
+    // ── Batch record, so the import can be reviewed and reverted
+    const { data: batch, error: batchError } = await supabase
+      .from('contact_import_batches')
+      .insert({
+        organization_id: organizationId,
+        file_name: fileName || 'import.csv',
+        file_format: fileFormat,
+        mode: canMatchExisting && duplicateStrategy === 'update' ? 'update' : 'create',
+        created_by: profileId ?? null,
+      })
+      .select()
+      .single();
+
+    if (batchError || !batch) {
+      setIsImporting(false);
+      toast.error("Erreur lors de la création de l'import", { description: batchError?.message });
+      return;
+    }
+
+    const BATCH_SIZE = 50;
+    const total = toCreate.length + toUpdate.length;
+    setTotalToImport(total);
 
     let importedCount = 0;
+    let updatedCount = 0;
     let errorCount = 0;
+    let untrackedCount = 0;
+
+    const reportProgress = () => {
+      const done = importedCount + updatedCount + errorCount;
+      setProcessedCount(done);
+      setImportProgress(total ? Math.round((done / total) * 100) : 100);
+    };
 
-    for (let i = 0; i < batches.length; i++) {
-      const batch = batches[i];
-      const rowsToInsert = batch.map((contact) => ({
+    const recordItems = async (items: TablesInsert<'contact_import_batch_items'>[]) => {
+      if (items.length === 0) return;
+      const { error } = await supabase.from('contact_import_batch_items').insert(items);
+      if (error) {
+        console.error('Import batch items not recorded:', error);
+        untrackedCount += items.length;
+      }
+    };
+
+    for (let i = 0; i < toCreate.length; i += BATCH_SIZE) {
+      const chunk = toCreate.slice(i, i + BATCH_SIZE);
+      const rowsToInsert = chunk.map((contact) => ({
         ...contact,
         pipeline_stage: 'nouveau' as const,
       }));
 
-      // TODO: add UNIQUE(email, organization_id) constraint to use:
-      // supabase.from('contacts').upsert(rowsToInsert, { onConflict: 'email,organization_id' })
-      const { error } = await supabase.from('contacts').insert(rowsToInsert);
+      const { data, error } = await supabase.from('contacts').insert(rowsToInsert).select('id');
 
-      if (error) {
-        errorCount += batch.length;
+      if (error || !data) {
+        errorCount += chunk.length;
       } else {
-        importedCount += batch.length;
+        importedCount += data.length;
+        await recordItems(
+          data.map((row) => ({
+            organization_id: organizationId,
+            batch_id: batch.id,
+            contact_id: row.id,
+            action: 'created',
+          })),
+        );
       }
+      reportProgress();
+    }
 
-      const done = (i + 1) * BATCH_SIZE;
-      setProcessedCount(Math.min(done, valid.length));
-      setImportProgress(Math.round(((i + 1) / batches.length) * 100));
+    for (let i = 0; i < toUpdate.length; i += BATCH_SIZE) {
+      const chunk = toUpdate.slice(i, i + BATCH_SIZE);
+      const items: TablesInsert<'contact_import_batch_items'>[] = [];
+
+      for (const { id, patch, previous } of chunk) {
+        const { error } = await supabase.from('contacts').update(patch).eq('id', id);
+        if (error) {
+          errorCount++;
+        } else {
+          updatedCount++;
+          items.push({
+            organization_id: organizationId,
+            batch_id: batch.id,
+            contact_id: id,
+            action: 'updated',
+            previous_values: previous as Json,
+          });
+        }
+      }
+
+      await recordItems(items);
+      reportProgress();
+    }
+
+    await supabase
+      .from('contact_import_batches')
+      .update({
+        status: untrackedCount > 0 ? 'partial' : 'completed',
+        created_count: importedCount,
+        updated_count: updatedCount,
+        skipped_count: skipped + duplicates + unchanged,
+        error_count: errorCount,
+      })
+      .eq('id', batch.id);
+
+    queryClient.invalidateQueries({ queryKey: ['contact_import_batches', organizationId] });
+
+    if (untrackedCount > 0) {
+      toast.error(`${untrackedCount} contact(s) absent(s) de l'historique de l'import`, {
+        description: "Ils ne seront ni supprimés ni restaurés si vous annulez cet import.",
+      });
     }
 
     setIsImporting(false);
     setImportResults({
+      batchId: batch.id,
       imported: importedCount,
-      updated: 0, // No upsert without unique constraint
+      updated: updatedCount,
+      unchanged,
+      duplicates,
       errors: errorCount,
       skipped,
+      untracked: untrackedCount,
     });
   };
 
+  const handleRevert = async () => {
+    if (!importResults) return;
+    try {
+      await revert(importResults.batchId);
+      onOpenChange(false);
+    } catch {
+      // Error toast shown by the mutation
+    }
+  };
+
   const handleClose = () => {
     if (importResults !== null && organizationId) {
       queryClient.invalidateQueries({ queryKey: ['contacts', organizationId] });
@@ -346,7 +512,7 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
       <input
         ref={fileInputRef}
         type="file"
-        accept=".csv"
+        accept=".csv,.vcf"
         onChange={handleFileChange}
         className="hidden"
       />
@@ -374,7 +540,7 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
         </div>
         <div className="text-center">
           <p className="text-base font-semibold text-white">
-            {isParsing ? 'Analyse en cours...' : isDragOver ? 'Déposez votre fichier CSV' : 'Glissez votre fichier CSV ici'}
+            {isParsing ? 'Analyse en cours...' : isDragOver ? 'Déposez votre fichier' : 'Glissez votre fichier CSV ou vCard ici'}
           </p>
           {!isParsing && (
             <p className="text-sm text-white/50 mt-1">ou cliquez pour parcourir</p>
@@ -385,17 +551,27 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
       {/* Supported formats */}
       <div className="space-y-2">
         <p className="text-xs text-white/40 font-medium uppercase tracking-wide">Fichiers supportés</p>
-        <div className="flex items-center gap-2">
+        <div className="flex flex-wrap items-center gap-2">
           <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-blue-500/20 text-blue-300 border border-blue-500/20">
             <FileText className="w-3 h-3" />
             CSV (.csv)
           </span>
+          <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-blue-500/20 text-blue-300 border border-blue-500/20">
+            <FileText className="w-3 h-3" />
+            Export Google / Outlook (.csv)
+          </span>
+          <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-blue-500/20 text-blue-300 border border-blue-500/20">
+            <FileText className="w-3 h-3" />
+            vCard (.vcf)
+          </span>
           <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-white/10 text-white/40 border border-white/10">
             <Lock className="w-3 h-3" />
             Excel (.xlsx) — bientôt
           </span>
         </div>
       </div>
+
+      <ContactImportHistory />
     </div>
   );
 
@@ -403,15 +579,22 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
     if (!parsedData) return null;
     return (
       <div className="space-y-4">
-        <p className="text-sm text-white/60">
-          Associez chaque colonne de votre fichier à un champ SynaPilot.
-        </p>
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-white/60">
+            Associez chaque colonne de votre fichier à un champ SynaPilot.
+          </p>
+          {fileFormat !== 'csv' && (
+            <Badge className="shrink-0 bg-blue-500/10 text-blue-300 border-blue-500/20">
+              {IMPORT_FILE_FORMAT_LABELS[fileFormat]}
+            </Badge>
+          )}
+        </div>
 
-        {/* Email warning */}
-        {!isEmailMapped && (
+        {/* Matching warning */}
+        {!canMatchExisting && (
           <div className="flex items-center gap-2 text-sm bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 text-yellow-300">
             <AlertTriangle className="w-4 h-4 shrink-0" />
-            <span>Sans email, les doublons ne pourront pas être détectés</span>
+            <span>Sans email ni téléphone, les doublons ne pourront pas être détectés</span>
           </div>
         )}
 
@@ -449,7 +632,7 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
         </ScrollArea>
 
         <p className="text-xs text-white/30">
-          <span className="text-red-400">*</span> Champ obligatoire
+          <span className="text-red-400">*</span> Nom complet, ou prénom / nom de famille
         </p>
       </div>
     );
@@ -486,16 +669,14 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
                       key={field}
                       className="text-left text-xs font-medium text-white/50 px-3 py-2 whitespace-nowrap"
                     >
-                      {FIELD_LABELS[field] ?? field}
+                      {IMPORT_FIELD_LABELS[field] ?? field}
                     </th>
                   ))}
                 </tr>
               </thead>
               <tbody>
                 {previewRows.map((row, rowIndex) => {
-                  const isInvalid =
-                    fullNameHeaderIndex >= 0 &&
-                    !String(row[fullNameHeaderIndex] ?? '').trim();
+                  const isInvalid = nameHeaderIndexes.length > 0 && isRowMissingName(row);
                   return (
                     <tr
                       key={rowIndex}
@@ -510,7 +691,7 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
                         const truncated = value.length > 30 ? value.slice(0, 30) + '…' : value;
                         return (
                           <td key={field} className="px-3 py-2 text-white/70">
-                            {isInvalid && field === 'full_name' ? (
+                            {isInvalid && (field === 'full_name' || field === 'first_name') ? (
                               <TooltipProvider>
                                 <Tooltip>
                                   <TooltipTrigger>
@@ -539,11 +720,11 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
           </ScrollArea>
         </div>
 
-        {/* Duplicate strategy — only when email is mapped */}
-        {isEmailMapped && (
+        {/* Duplicate strategy — only when email or phone is mapped */}
+        {canMatchExisting && (
           <div className="space-y-3">
             <p className="text-sm font-medium text-white/80">
-              Que faire si un email existe déjà ?
+              Que faire si le contact existe déjà (même email ou téléphone) ?
             </p>
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
               {/* Ignore */}
@@ -591,7 +772,7 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
                 <div>
                   <p className="text-sm font-medium text-white">Mettre à jour le contact</p>
                   <p className="text-xs text-white/50 mt-0.5">
-                    Les champs non-vides du fichier écrasent les données existantes
+                    Les champs non-vides du fichier écrasent les données existantes, les tags sont ajoutés
                   </p>
                 </div>
               </button>
@@ -645,6 +826,22 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
                   </span>
                 </div>
               )}
+              {importResults.unchanged > 0 && (
+                <div className="flex items-center justify-between px-4 py-3">
+                  <span className="text-sm text-white/70">Déjà à jour</span>
+                  <span className="text-sm font-semibold text-white/50">
+                    ⏭️ {importResults.unchanged}
+                  </span>
+                </div>
+              )}
+              {importResults.duplicates > 0 && (
+                <div className="flex items-center justify-between px-4 py-3">
+                  <span className="text-sm text-white/70">Doublons ignorés</span>
+                  <span className="text-sm font-semibold text-white/50">
+                    ⏭️ {importResults.duplicates}
+                  </span>
+                </div>
+              )}
               {importResults.errors > 0 && (
                 <div className="flex items-center justify-between px-4 py-3">
                   <span className="text-sm text-white/70">Erreurs</span>
@@ -653,6 +850,14 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
                   </span>
                 </div>
               )}
+              {importResults.untracked > 0 && (
+                <div className="flex items-center justify-between px-4 py-3">
+                  <span className="text-sm text-white/70">Non annulables (historique incomplet)</span>
+                  <span className="text-sm font-semibold text-yellow-300">
+                    ⚠️ {importResults.untracked}
+                  </span>
+                </div>
+              )}
               {importResults.skipped > 0 && (
                 <div className="flex items-center justify-between px-4 py-3">
                   <span className="text-sm text-white/70">Ignorés (nom manquant)</span>
@@ -664,6 +869,21 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
             </div>
 
             <div className="flex gap-3">
+              {canManageTeam && importResults.imported + importResults.updated > 0 && (
+                <Button
+                  variant="ghost"
+                  className="hover:bg-white/10"
+                  onClick={handleRevert}
+                  disabled={isReverting}
+                >
+                  {isReverting ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Undo2 className="w-4 h-4 mr-2" />
+                  )}
+                  Annuler l'import
+                </Button>
+              )}
               <Button
                 variant="outline"
                 className="flex-1 border-white/20 hover:bg-white/10"
@@ -718,8 +938,18 @@ export function ContactImportDialog({ open, onOpenChange }: ContactImportDialogP
           <div className="space-y-2 text-sm text-white/70">
             <div className="flex justify-between">
               <span>Fichier</span>
-              <span className="text-white">{parsedData?.rows.length ?? 0} lignes</span>
+              <span className="text-white">
+                {IMPORT_FILE_FORMAT_LABELS[fileFormat]} · {parsedData?.rows.length ?? 0} lignes
+              </span>
             </div>
+            {canMatchExisting && (
+              <div className="flex justify-between">
+                <span>Contacts existants</span>
+                <span className="text-white">
+                  {duplicateStrategy === 'update' ? 'mis à jour' : 'ignorés'}
+                </span>
+              </div>
+            )}
             <div className="flex justify-between">
               <span>À importer</span>
               <span className="text-blue-400 font-semibold">{validRowCount} contacts</span>
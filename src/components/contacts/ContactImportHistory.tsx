@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, History, Loader2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { useRole } from '@/hooks/useRole';
+import { formatRelativeTime } from '@/lib/formatters';
+import {
+  useContactImportBatches,
+  useContactImportBatchItems,
+  type ContactImportBatch,
+} from '@/hooks/useContactImportBatches';
+import {
+  IMPORT_FIELD_LABELS,
+  IMPORT_FILE_FORMAT_LABELS,
+  type ImportFileFormat,
+} from '@/lib/contact-import-utils';
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  running: { label: 'Interrompu', className: 'bg-yellow-500/10 text-yellow-300 border-yellow-500/20' },
+  completed: { label: 'Terminé', className: 'bg-blue-500/10 text-blue-300 border-blue-500/20' },
+  partial: { label: 'Historique incomplet', className: 'bg-yellow-500/10 text-yellow-300 border-yellow-500/20' },
+  reverted: { label: 'Annulé', className: 'bg-white/10 text-white/50 border-white/10' },
+};
+
+function BatchItems({ batchId }: { batchId: string }) {
+  const { items, isLoading } = useContactImportBatchItems(batchId);
+
+  if (isLoading) {
+    return <Loader2 className="w-4 h-4 animate-spin text-white/40 mx-auto my-2" />;
+  }
+
+  if (items.length === 0) {
+    return <p className="text-xs text-white/40 py-2">Aucun contact créé ou modifié.</p>;
+  }
+
+  return (
+    <ScrollArea className="max-h-[180px] pr-2">
+      <ul className="space-y-1 py-1">
+        {items.map((item) => {
+          const previous = item.previous_values && typeof item.previous_values === 'object' && !Array.isArray(item.previous_values)
+            ? Object.keys(item.previous_values)
+            : [];
+          return (
+            <li key={item.id} className="flex items-center gap-2 text-xs">
+              <span
+                className={cn(
+                  'shrink-0 w-16 font-medium',
+                  item.action === 'created' ? 'text-blue-300' : 'text-purple-300',
+                )}
+              >
+                {item.action === 'created' ? 'Créé' : 'Mis à jour'}
+              </span>
+              <span className="truncate text-white/70">
+                {item.contacts?.full_name ?? <span className="italic text-white/30">contact supprimé</span>}
+              </span>
+              {previous.length > 0 && (
+                <span className="truncate text-white/40">
+                  · {previous.map((field) => IMPORT_FIELD_LABELS[field] ?? field).join(', ')}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </ScrollArea>
+  );
+}
+
+function BatchRow({
+  batch,
+  isReverting,
+  onRevert,
+}: {
+  batch: ContactImportBatch;
+  isReverting: boolean;
+  onRevert: (batchId: string) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  // Reverting deletes the created contacts, restricted like a contact deletion
+  const { canManageTeam } = useRole();
+  const status = STATUS_BADGES[batch.status] ?? STATUS_BADGES.completed;
+  const canRevert = canManageTeam && batch.status !== 'reverted' && batch.created_count + batch.updated_count > 0;
+
+  return (
+    <div className="rounded-lg bg-white/5 border border-white/10">
+      <div className="flex items-center gap-3 px-3 py-2">
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="flex-1 min-w-0 flex items-center gap-2 text-left"
+        >
+          {expanded ? (
+            <ChevronDown className="w-4 h-4 shrink-0 text-white/40" />
+          ) : (
+            <ChevronRight className="w-4 h-4 shrink-0 text-white/40" />
+          )}
+          <div className="min-w-0">
+            <p className="text-sm text-white truncate">{batch.file_name}</p>
+            <p className="text-xs text-white/40">
+              {IMPORT_FILE_FORMAT_LABELS[batch.file_format as ImportFileFormat] ?? batch.file_format}
+              {' · '}
+              {formatRelativeTime(batch.created_at)}
+              {' · '}
+              {batch.created_count} créé(s), {batch.updated_count} mis à jour
+            </p>
+          </div>
+        </button>
+        <Badge variant="outline" className={cn('shrink-0 text-[10px]', status.className)}>
+          {status.label}
+        </Badge>
+        {canRevert && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button size="sm" variant="ghost" className="gap-1.5 h-7 shrink-0" disabled={isReverting}>
+                <Undo2 className="w-3.5 h-3.5" />
+                Annuler
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Annuler l'import « {batch.file_name} » ?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Les {batch.created_count} contact(s) créé(s) seront supprimés, avec les activités
+                  ajoutées depuis. Les {batch.updated_count} contact(s) mis à jour retrouveront leurs
+                  valeurs d'avant l'import.
+                  {batch.status === 'partial' && " Certains contacts n'ont pas été enregistrés dans l'historique et resteront inchangés."}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Retour</AlertDialogCancel>
+                <AlertDialogAction onClick={() => onRevert(batch.id)}>Annuler l'import</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+      {expanded && (
+        <div className="px-3 pb-2 border-t border-white/5">
+          <BatchItems batchId={batch.id} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Latest contact imports with the contacts each one created or updated,
+ * and a one-click revert.
+ */
+export function ContactImportHistory() {
+  const { batches, isLoading, revert, isReverting } = useContactImportBatches();
+
+  if (isLoading || batches.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="flex items-center gap-1.5 text-xs text-white/40 font-medium uppercase tracking-wide">
+        <History className="w-3 h-3" />
+        Imports récents
+      </p>
+      <div className="space-y-2">
+        {batches.map((batch) => (
+          <BatchRow
+            key={batch.id}
+            batch={batch}
+            isReverting={isReverting}
+            onRevert={(batchId) => revert(batchId).catch(() => undefined)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Loader2, Network, Plus, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useContactRelationships } from '@/hooks/useContactRelationships';
+import {
+  RELATED_CONTACT_ROLES,
+  RELATED_CONTACT_ROLE_CONFIG,
+  getOtherContact,
+  getRelatedContactRole,
+  type RelatedContactRole,
+} from '@/lib/contact-relationships';
+import type { Tables } from '@/integrations/supabase/types';
+
+type ContactOption = Pick<Tables<'contacts'>, 'id' | 'full_name' | 'role'>;
+
+// Contact role that usually plays a relationship role, listed first in the picker
+const PREFERRED_CONTACT_ROLE: Partial<Record<RelatedContactRole, string>> = {
+  notary: 'notaire',
+  banker: 'banquier',
+};
+
+/**
+ * Relationships of a contact with other contacts: household, co-buyers,
+ * notaire, banker and referrals.
+ */
+export function ContactRelationshipsCard({ contactId }: { contactId: string }) {
+  const { relationships, isLoading, add, remove, isAdding, isRemoving } = useContactRelationships(contactId);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [role, setRole] = useState<RelatedContactRole>('spouse');
+  const [otherId, setOtherId] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const { data: contacts } = useOrgQuery<ContactOption[]>('contacts', {
+    select: 'id, full_name, role',
+    orderBy: { column: 'full_name', ascending: true },
+  }, { enabled: isFormOpen });
+
+  const preferred = PREFERRED_CONTACT_ROLE[role];
+  const options = (contacts ?? [])
+    .filter((c) => c.id !== contactId)
+    .sort((a, b) => (preferred ? Number(b.role === preferred) - Number(a.role === preferred) : 0));
+
+  const handleAdd = async () => {
+    if (!otherId) return;
+    await add({ otherContactId: otherId, role, notes })
+      .then(() => {
+        setOtherId('');
+        setNotes('');
+        setIsFormOpen(false);
+      })
+      .catch(() => undefined);
+  };
+
+  return (
+    <Card className="border-border bg-card/50">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Network className="w-4 h-4 text-primary" />
+            Relations
+          </CardTitle>
+          <Button size="sm" variant="ghost" className="h-7 gap-1.5" onClick={() => setIsFormOpen(!isFormOpen)}>
+            {isFormOpen ? <X className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+            {isFormOpen ? 'Fermer' : 'Ajouter'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isFormOpen && (
+          <div className="space-y-2 p-3 rounded-lg bg-white/5 border border-white/10">
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={role} onValueChange={(v) => setRole(v as RelatedContactRole)}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RELATED_CONTACT_ROLES.map((r) => (
+                    <SelectItem key={r} value={r}>
+                      {RELATED_CONTACT_ROLE_CONFIG[r].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={otherId} onValueChange={setOtherId}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="Contact…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.full_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Input
+              placeholder="Note (optionnel)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="h-8 text-xs"
+            />
+            <Button size="sm" className="w-full h-7" onClick={handleAdd} disabled={!otherId || isAdding}>
+              {isAdding && <Loader2 className="w-3 h-3 animate-spin mr-1.5" />}
+              Ajouter la relation
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground mx-auto" />
+        ) : relationships.length === 0 ? (
+          !isFormOpen && <p className="text-sm text-muted-foreground">Aucune relation.</p>
+        ) : (
+          <ul className="space-y-2">
+            {relationships.map((relationship) => {
+              const other = getOtherContact(relationship, contactId);
+              const relatedRole = getRelatedContactRole(relationship, contactId);
+              return (
+                <li key={relationship.id} className="flex items-center gap-2 text-sm">
+                  <Badge variant="outline" className="shrink-0 text-[10px]">
+                    {RELATED_CONTACT_ROLE_CONFIG[relatedRole].label}
+                  </Badge>
+                  <div className="flex-1 min-w-0">
+                    {other ? (
+                      <Link to={`/contacts/${other.id}`} className="font-medium truncate block hover:text-primary transition-colors">
+                        {other.full_name}
+                      </Link>
+                    ) : (
+                      <span className="italic text-muted-foreground">contact supprimé</span>
+                    )}
+                    {relationship.notes && (
+                      <p className="text-xs text-muted-foreground truncate">{relationship.notes}</p>
+                    )}
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6 shrink-0 text-muted-foreground"
+                    disabled={isRemoving}
+                    onClick={() => remove(relationship.id).catch(() => undefined)}
+                    aria-label="Supprimer la relation"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
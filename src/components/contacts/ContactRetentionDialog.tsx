@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Loader2, ShieldCheck, UserX } from 'lucide-react';
+import { useInactiveContacts } from '@/hooks/useContactGdpr';
+import { useOrganization } from '@/hooks/useOrganization';
+import { useRole } from '@/hooks/useRole';
+import { formatRelativeTime } from '@/lib/formatters';
+import { getRetentionPolicy } from '@/lib/contact-gdpr';
+
+interface ContactRetentionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Contacts past the organization's retention period (Réglages → RGPD),
+ * with their anonymization in bulk.
+ */
+export function ContactRetentionDialog({ open, onOpenChange }: ContactRetentionDialogProps) {
+  const { canManageTeam } = useRole();
+  const { data: organization } = useOrganization();
+  const policy = getRetentionPolicy(organization?.settings);
+  const { contacts, isLoading, anonymize, isAnonymizing } = useInactiveContacts(policy.years, { enabled: open });
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const allSelected = contacts.length > 0 && contacts.every((c) => selected.has(c.id));
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleAnonymize = async () => {
+    await anonymize([...selected]).catch(() => undefined);
+    setSelected(new Set());
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        if (!value) setSelected(new Set());
+        onOpenChange(value);
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-blue-400" />
+            Conservation des données
+          </DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            {contacts.length} contact(s) sans échange, activité ni opportunité depuis plus de {policy.years} an(s),
+            et sans dossier en cours.
+            {policy.action === 'purge' && ' Ils seront anonymisés automatiquement cette nuit.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground mx-auto my-8" />
+        ) : contacts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Aucun contact au-delà de la durée de conservation.
+          </p>
+        ) : (
+          <>
+            {canManageTeam && (
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) =>
+                      setSelected(checked ? new Set(contacts.map((c) => c.id)) : new Set())
+                    }
+                  />
+                  Tout sélectionner
+                </label>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="gap-1.5 text-destructive hover:text-destructive"
+                      disabled={selected.size === 0 || isAnonymizing}
+                    >
+                      {isAnonymizing ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <UserX className="w-3.5 h-3.5" />}
+                      Anonymiser ({selected.size})
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Anonymiser {selected.size} contact(s) ?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Cette action est irréversible. Identité, coordonnées, notes, activités et recherches
+                        seront effacées. Les opportunités et mandats sont conservés sans données personnelles.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Annuler</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={handleAnonymize}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Anonymiser
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            )}
+            <ScrollArea className="flex-1 min-h-0 max-h-[60vh] pr-3">
+              <div className="space-y-2">
+                {contacts.map((contact) => (
+                  <div
+                    key={contact.id}
+                    className="flex items-center gap-3 p-3 rounded-lg bg-white/5 border border-white/10"
+                  >
+                    {canManageTeam && (
+                      <Checkbox checked={selected.has(contact.id)} onCheckedChange={() => toggle(contact.id)} />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <Link
+                        to={`/contacts/${contact.id}`}
+                        className="text-sm font-medium truncate hover:text-primary transition-colors"
+                      >
+                        {contact.full_name}
+                      </Link>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {[contact.email, contact.phone].filter(Boolean).join(' · ') || '—'}
+                      </p>
+                    </div>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      Dernier contact {formatRelativeTime(contact.last_contact_date ?? contact.created_at)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { MapPin, Pencil, Plus, Search, Trash2 } from 'lucide-react';
+import { ContactSearchDialog } from '@/components/contacts/ContactSearchDialog';
+import { useContactSearches, type ContactSearch } from '@/hooks/useContactSearches';
+import { formatCurrency } from '@/lib/formatters';
+import { getSearchArea } from '@/lib/geo';
+import { getAmenityLabel } from '@/lib/amenities';
+import { PROPERTY_TYPE_LABELS, TRANSACTION_TYPE_LABELS, type PropertyType, type TransactionType } from '@/lib/constants';
+
+interface ContactSearchCardProps {
+  contactId: string;
+}
+
+function describeArea(search: ContactSearch): string | null {
+  const area = getSearchArea(search);
+  if (!area) return null;
+  if (area.kind === 'polygon') return `Zone dessinée (${area.points.length} points)`;
+  return `${area.radiusKm} km autour de ${area.label ?? 'un point de la carte'}`;
+}
+
+export function ContactSearchCard({ contactId }: ContactSearchCardProps) {
+  const { searches, isLoading, delete: deleteSearch, isDeleting } = useContactSearches({ filters: { contact_id: contactId } });
+  const [editing, setEditing] = useState<ContactSearch | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const openDialog = (search: ContactSearch | null) => {
+    setEditing(search);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <Card className="border-border bg-card/50">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Search className="w-4 h-4 text-primary" />
+          Critères de recherche
+        </CardTitle>
+        <Button variant="ghost" size="sm" className="gap-1" onClick={() => openDialog(null)}>
+          <Plus className="w-4 h-4" />
+          Ajouter
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : searches.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <Search className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            <p className="text-sm">Aucun critère défini</p>
+            <p className="text-xs mt-1">Budget, surface et zone servent au matching des biens</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {searches.map((search) => {
+              const area = describeArea(search);
+              return (
+                <div key={search.id} className="p-3 rounded-lg border border-border bg-background/50 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex flex-wrap gap-1">
+                      {search.transaction_type && (
+                        <Badge variant="secondary" className="text-xs">
+                          {TRANSACTION_TYPE_LABELS[search.transaction_type as TransactionType] ?? search.transaction_type}
+                        </Badge>
+                      )}
+                      {search.property_types?.map((type) => (
+                        <Badge key={type} variant="outline" className="text-xs">
+                          {PROPERTY_TYPE_LABELS[type as PropertyType] ?? type}
+                        </Badge>
+                      ))}
+                    </div>
+                    <div className="flex shrink-0">
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openDialog(search)}>
+                        <Pencil className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                        disabled={isDeleting}
+                        onClick={() => deleteSearch(search.id)}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-sm">
+                    {[
+                      search.budget_max ? `≤ ${formatCurrency(search.budget_max)}` : null,
+                      search.min_surface ? `≥ ${search.min_surface} m²` : null,
+                      search.min_rooms ? `${search.min_rooms} pièces min` : null,
+                    ].filter(Boolean).join(' · ') || 'Sans critère chiffré'}
+                  </p>
+                  {(search.must_have_amenities.length > 0 || search.nice_to_have_amenities.length > 0) && (
+                    <div className="flex flex-wrap gap-1">
+                      {search.must_have_amenities.map((criterion) => (
+                        <Badge key={criterion} variant="outline" className="text-xs border-primary/40" title="Indispensable">
+                          {getAmenityLabel(criterion)}
+                        </Badge>
+                      ))}
+                      {search.nice_to_have_amenities.map((criterion) => (
+                        <Badge key={criterion} variant="outline" className="text-xs text-muted-foreground border-dashed" title="Souhaité">
+                          {getAmenityLabel(criterion)}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {(area || !!search.cities?.length) && (
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <MapPin className="w-3 h-3 shrink-0" />
+                      {[search.cities?.join(', '), area].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <ContactSearchDialog
+        contactId={contactId}
+        search={editing}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+      />
+    </Card>
+  );
+}
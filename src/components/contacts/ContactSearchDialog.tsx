@@ -0,0 +1,381 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2, Search, Wallet, MapPin, Sparkles } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { SearchAreaEditor } from '@/components/contacts/SearchAreaEditor';
+import { useContactSearches, type ContactSearch, type ContactSearchInsert } from '@/hooks/useContactSearches';
+import {
+  PROPERTY_TYPES,
+  PROPERTY_TYPE_LABELS,
+  TRANSACTION_TYPES,
+  TRANSACTION_TYPE_LABELS,
+  VIAGER_OCCUPANCIES,
+  VIAGER_OCCUPANCY_LABELS,
+} from '@/lib/constants';
+import { EMPTY_SEARCH_AREA, parsePolygon, type LatLng, type SearchAreaValue } from '@/lib/geo';
+import { AMENITY_CRITERIA, getAmenityLabel } from '@/lib/amenities';
+
+const optionalNumber = z.coerce.number().positive().optional().nullable().or(z.literal('').transform(() => null));
+
+const searchSchema = z.object({
+  transaction_type: z.enum(TRANSACTION_TYPES).optional().nullable(),
+  budget_max: optionalNumber,
+  min_surface: optionalNumber,
+  min_rooms: optionalNumber,
+  property_types: z.array(z.string()),
+  cities: z.string().optional(),
+  max_rente: optionalNumber,
+  viager_occupancy: z.enum(VIAGER_OCCUPANCIES).optional().nullable(),
+  area: z.custom<SearchAreaValue>(),
+  must_have_amenities: z.array(z.string()),
+  nice_to_have_amenities: z.array(z.string()),
+  notes: z.string().optional(),
+});
+
+type SearchFormValues = z.infer<typeof searchSchema>;
+
+interface ContactSearchDialogProps {
+  contactId: string;
+  search: ContactSearch | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function toFormValues(search: ContactSearch | null): SearchFormValues {
+  return {
+    transaction_type: (search?.transaction_type as SearchFormValues['transaction_type']) ?? null,
+    budget_max: search?.budget_max ?? null,
+    min_surface: search?.min_surface ?? null,
+    min_rooms: search?.min_rooms ?? null,
+    property_types: search?.property_types ?? [],
+    cities: search?.cities?.join(', ') ?? '',
+    max_rente: search?.max_rente ?? null,
+    viager_occupancy: (search?.viager_occupancy as SearchFormValues['viager_occupancy']) ?? null,
+    area: search
+      ? {
+          center_lat: search.center_lat,
+          center_lng: search.center_lng,
+          center_label: search.center_label,
+          radius_km: search.radius_km,
+          search_polygon: parsePolygon(search.search_polygon),
+        }
+      : EMPTY_SEARCH_AREA,
+    must_have_amenities: search?.must_have_amenities ?? [],
+    nice_to_have_amenities: search?.nice_to_have_amenities ?? [],
+    notes: search?.notes ?? '',
+  };
+}
+
+export function ContactSearchDialog({ contactId, search, open, onOpenChange }: ContactSearchDialogProps) {
+  const { create, update, isCreating, isUpdating } = useContactSearches({ onlyActive: false });
+
+  const form = useForm<SearchFormValues>({
+    resolver: zodResolver(searchSchema),
+    defaultValues: toFormValues(search),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(search));
+  }, [open, search, form]);
+
+  const transactionType = form.watch('transaction_type');
+  const [mustHaves, niceToHaves] = form.watch(['must_have_amenities', 'nice_to_have_amenities']);
+
+  const setAmenityLevel = (criterion: string, level: string) => {
+    const without = (list: string[]) => list.filter((c) => c !== criterion);
+    form.setValue('must_have_amenities', level === 'must' ? [...without(mustHaves), criterion] : without(mustHaves));
+    form.setValue('nice_to_have_amenities', level === 'nice' ? [...without(niceToHaves), criterion] : without(niceToHaves));
+  };
+
+  const onSubmit = async (values: SearchFormValues) => {
+    // A polygon with fewer than 3 points is not an area yet
+    const polygon: LatLng[] | null = values.area.search_polygon && values.area.search_polygon.length >= 3
+      ? values.area.search_polygon
+      : null;
+
+    const payload: ContactSearchInsert = {
+      contact_id: contactId,
+      transaction_type: values.transaction_type || null,
+      budget_max: values.budget_max ?? null,
+      min_surface: values.min_surface ?? null,
+      min_rooms: values.min_rooms ?? null,
+      property_types: values.property_types.length > 0 ? values.property_types : null,
+      cities: values.cities?.split(',').map((c) => c.trim()).filter(Boolean) || null,
+      max_rente: values.transaction_type === 'viager' ? values.max_rente ?? null : null,
+      viager_occupancy: values.transaction_type === 'viager' ? values.viager_occupancy || null : null,
+      center_lat: polygon ? null : values.area.center_lat,
+      center_lng: polygon ? null : values.area.center_lng,
+      center_label: polygon ? null : values.area.center_label,
+      radius_km: polygon ? null : values.area.radius_km,
+      search_polygon: polygon,
+      must_have_amenities: values.must_have_amenities,
+      nice_to_have_amenities: values.nice_to_have_amenities,
+      notes: values.notes || null,
+      is_active: true,
+    };
+
+    if (search) {
+      await update({ id: search.id, ...payload });
+    } else {
+      await create(payload);
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Search className="w-5 h-5 text-primary" />
+            Critères de recherche
+          </DialogTitle>
+          <DialogDescription>
+            Ces critères alimentent le matching des biens et les alertes de baisse de prix.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            {/* Section Projet */}
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                <Wallet className="w-4 h-4" />
+                Projet
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="transaction_type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Transaction</FormLabel>
+                      <Select value={field.value || ''} onValueChange={(val) => field.onChange(val || null)}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Toutes" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {TRANSACTION_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {TRANSACTION_TYPE_LABELS[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="budget_max"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {transactionType === 'viager' ? 'Bouquet max (€)' : transactionType === 'location' ? 'Loyer max (€/mois)' : 'Budget max (€)'}
+                      </FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="min_surface"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Surface min (m²)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="min_rooms"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pièces min</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {transactionType === 'viager' && (
+                  <>
+                    <FormField
+                      control={form.control}
+                      name="max_rente"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Rente max (€/mois)</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={0} {...field} value={field.value ?? ''} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="viager_occupancy"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Occupation</FormLabel>
+                          <Select value={field.value || ''} onValueChange={(val) => field.onChange(val || null)}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Indifférent" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {VIAGER_OCCUPANCIES.map((occupancy) => (
+                                <SelectItem key={occupancy} value={occupancy}>
+                                  {VIAGER_OCCUPANCY_LABELS[occupancy]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </>
+                )}
+              </div>
+              <FormField
+                control={form.control}
+                name="property_types"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Types de bien</FormLabel>
+                    <div className="flex flex-wrap gap-2">
+                      {PROPERTY_TYPES.map((type) => {
+                        const selected = field.value.includes(type);
+                        return (
+                          <Badge
+                            key={type}
+                            variant={selected ? 'default' : 'outline'}
+                            className="cursor-pointer"
+                            onClick={() => field.onChange(selected ? field.value.filter((t) => t !== type) : [...field.value, type])}
+                          >
+                            {PROPERTY_TYPE_LABELS[type]}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Section Localisation */}
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                <MapPin className="w-4 h-4" />
+                Localisation
+              </div>
+              <FormField
+                control={form.control}
+                name="cities"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Villes</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Lyon, Villeurbanne" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="area"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Zone de recherche</FormLabel>
+                    <SearchAreaEditor value={field.value} onChange={field.onChange} />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Section Prestations */}
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                <Sparkles className="w-4 h-4" />
+                Prestations
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+                {AMENITY_CRITERIA.map((criterion) => (
+                  <div key={criterion} className="flex items-center justify-between gap-2">
+                    <span className="text-sm">{getAmenityLabel(criterion)}</span>
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      value={mustHaves.includes(criterion) ? 'must' : niceToHaves.includes(criterion) ? 'nice' : 'any'}
+                      onValueChange={(level) => level && setAmenityLevel(criterion, level)}
+                    >
+                      <ToggleGroupItem value="any" className="h-7 px-2 text-xs">Indifférent</ToggleGroupItem>
+                      <ToggleGroupItem value="nice" className="h-7 px-2 text-xs">Souhaité</ToggleGroupItem>
+                      <ToggleGroupItem value="must" className="h-7 px-2 text-xs">Indispensable</ToggleGroupItem>
+                    </ToggleGroup>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder="Exposition, étage, proximité écoles…" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={isCreating || isUpdating}>
+                {(isCreating || isUpdating) && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Enregistrer
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
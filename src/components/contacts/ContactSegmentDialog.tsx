@@ -0,0 +1,335 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Filter, Loader2, Users } from 'lucide-react';
+import { useContactSegments, useSegmentMembers } from '@/hooks/useContactSegments';
+import {
+  CONTACT_ROLES,
+  CONTACT_ROLE_LABELS,
+  PIPELINE_STAGES,
+  PIPELINE_STAGE_LABELS,
+  PROPERTY_TYPES,
+  PROPERTY_TYPE_LABELS,
+  TRANSACTION_TYPES,
+  TRANSACTION_TYPE_LABELS,
+  type TransactionType,
+} from '@/lib/constants';
+import { getTemperatureLabel } from '@/lib/scoring-engine';
+import {
+  LEAD_TEMPERATURES,
+  describeSegmentRules,
+  getSegmentRules,
+  hasSegmentRules,
+  type ContactSegment,
+  type SegmentRules,
+} from '@/lib/contact-segments';
+
+const ANY = 'any';
+
+interface ContactSegmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Segment to edit, a new one is created when null */
+  segment?: ContactSegment | null;
+  onSaved?: (segmentId: string) => void;
+}
+
+function splitList(value: string): string[] | undefined {
+  const items = value.split(',').map((v) => v.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function parseAmount(value: string): number | undefined {
+  const amount = Number(value.replace(/\s/g, ''));
+  return value.trim() && Number.isFinite(amount) ? amount : undefined;
+}
+
+function ToggleChips<T extends string>({
+  options,
+  labels,
+  value,
+  onChange,
+}: {
+  options: readonly T[];
+  labels: (option: T) => string;
+  value: T[];
+  onChange: (value: T[]) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => {
+        const selected = value.includes(option);
+        return (
+          <Badge
+            key={option}
+            variant={selected ? 'default' : 'outline'}
+            className="cursor-pointer"
+            onClick={() => onChange(selected ? value.filter((v) => v !== option) : [...value, option])}
+          >
+            {labels(option)}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Rule editor of a saved segment. Members are never stored: the preview
+ * count is the live evaluation of the rules being edited.
+ */
+export function ContactSegmentDialog({ open, onOpenChange, segment, onSaved }: ContactSegmentDialogProps) {
+  const { create, update, isSaving } = useContactSegments();
+
+  const [name, setName] = useState('');
+  const [rules, setRules] = useState<SegmentRules>({});
+  const [tags, setTags] = useState('');
+  const [sources, setSources] = useState('');
+  const [cities, setCities] = useState('');
+  const [searchCities, setSearchCities] = useState('');
+  const [budgetMin, setBudgetMin] = useState('');
+  const [budgetMax, setBudgetMax] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    const initial = getSegmentRules(segment);
+    setName(segment?.name ?? '');
+    setRules(initial);
+    setTags(initial.tags?.join(', ') ?? '');
+    setSources(initial.sources?.join(', ') ?? '');
+    setCities(initial.cities?.join(', ') ?? '');
+    setSearchCities(initial.search?.cities?.join(', ') ?? '');
+    setBudgetMin(initial.search?.budgetMin?.toString() ?? '');
+    setBudgetMax(initial.search?.budgetMax?.toString() ?? '');
+  }, [open, segment]);
+
+  const draft = useMemo<SegmentRules>(() => {
+    const search: SegmentRules['search'] = {
+      transactionType: rules.search?.transactionType,
+      propertyTypes: rules.search?.propertyTypes?.length ? rules.search.propertyTypes : undefined,
+      cities: splitList(searchCities),
+      budgetMin: parseAmount(budgetMin),
+      budgetMax: parseAmount(budgetMax),
+    };
+    return {
+      roles: rules.roles?.length ? rules.roles : undefined,
+      stages: rules.stages?.length ? rules.stages : undefined,
+      temperatures: rules.temperatures?.length ? rules.temperatures : undefined,
+      tags: splitList(tags),
+      sources: splitList(sources),
+      cities: splitList(cities),
+      lastContact: rules.lastContact,
+      search: hasSegmentRules({ search }) ? search : undefined,
+    };
+  }, [rules, tags, sources, cities, searchCities, budgetMin, budgetMax]);
+
+  const { members, isLoading: isCounting } = useSegmentMembers(draft, { enabled: open });
+  const summary = describeSegmentRules(draft);
+
+  const setSearch = (patch: Partial<NonNullable<SegmentRules['search']>>) =>
+    setRules((r) => ({ ...r, search: { ...r.search, ...patch } }));
+
+  const handleSave = () => {
+    const values = { name, rules: JSON.parse(JSON.stringify(draft)) as SegmentRules };
+    const save = segment
+      ? update({ id: segment.id, ...values }).then(() => segment.id)
+      : create(values).then((created) => created.id);
+    save
+      .then((id) => {
+        onSaved?.(id);
+        onOpenChange(false);
+      })
+      .catch(() => undefined);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Filter className="w-5 h-5 text-primary" />
+            {segment ? 'Modifier le segment' : 'Nouveau segment'}
+          </DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Les contacts du segment sont recalculés à chaque utilisation, selon ces critères.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="segment-name">Nom</Label>
+            <Input
+              id="segment-name"
+              placeholder="Acheteurs chauds Lyon"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Rôle</Label>
+            <ToggleChips
+              options={CONTACT_ROLES}
+              labels={(role) => CONTACT_ROLE_LABELS[role]}
+              value={rules.roles ?? []}
+              onChange={(roles) => setRules((r) => ({ ...r, roles }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Étape du pipeline</Label>
+            <ToggleChips
+              options={PIPELINE_STAGES}
+              labels={(stage) => PIPELINE_STAGE_LABELS[stage]}
+              value={rules.stages ?? []}
+              onChange={(stages) => setRules((r) => ({ ...r, stages }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Score</Label>
+            <ToggleChips
+              options={LEAD_TEMPERATURES}
+              labels={getTemperatureLabel}
+              value={rules.temperatures ?? []}
+              onChange={(temperatures) => setRules((r) => ({ ...r, temperatures }))}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="segment-tags">Tags</Label>
+              <Input id="segment-tags" placeholder="vip, investisseur" value={tags} onChange={(e) => setTags(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="segment-sources">Sources</Label>
+              <Input id="segment-sources" placeholder="SeLoger, Site web" value={sources} onChange={(e) => setSources(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="segment-cities">Villes</Label>
+              <Input id="segment-cities" placeholder="Lyon, Villeurbanne" value={cities} onChange={(e) => setCities(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Dernier contact</Label>
+            <div className="flex gap-2">
+              <Select
+                value={rules.lastContact?.op ?? ANY}
+                onValueChange={(op) =>
+                  setRules((r) => ({
+                    ...r,
+                    lastContact: op === ANY ? undefined : { op: op as 'within' | 'older', days: r.lastContact?.days ?? 30 },
+                  }))
+                }
+              >
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Indifférent</SelectItem>
+                  <SelectItem value="within">Contacté depuis moins de</SelectItem>
+                  <SelectItem value="older">Sans contact depuis plus de</SelectItem>
+                </SelectContent>
+              </Select>
+              {rules.lastContact && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-24"
+                    value={rules.lastContact.days}
+                    onChange={(e) =>
+                      setRules((r) => ({
+                        ...r,
+                        lastContact: { op: r.lastContact!.op, days: Math.max(1, Number(e.target.value) || 1) },
+                      }))
+                    }
+                  />
+                  <span className="text-sm text-muted-foreground">jours</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-3 rounded-lg border border-border/50 p-3">
+            <p className="text-sm font-medium">Recherche active</p>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Transaction</Label>
+                <Select
+                  value={rules.search?.transactionType ?? ANY}
+                  onValueChange={(value) => setSearch({ transactionType: value === ANY ? undefined : value as TransactionType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Indifférent</SelectItem>
+                    {TRANSACTION_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {TRANSACTION_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="segment-budget-min">Budget min (€)</Label>
+                <Input id="segment-budget-min" inputMode="numeric" value={budgetMin} onChange={(e) => setBudgetMin(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="segment-budget-max">Budget max (€)</Label>
+                <Input id="segment-budget-max" inputMode="numeric" value={budgetMax} onChange={(e) => setBudgetMax(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Types de bien</Label>
+              <ToggleChips
+                options={PROPERTY_TYPES}
+                labels={(type) => PROPERTY_TYPE_LABELS[type]}
+                value={rules.search?.propertyTypes ?? []}
+                onChange={(propertyTypes) => setSearch({ propertyTypes })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="segment-search-cities">Villes recherchées</Label>
+              <Input
+                id="segment-search-cities"
+                placeholder="Lyon, Caluire-et-Cuire"
+                value={searchCities}
+                onChange={(e) => setSearchCities(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Users className="w-4 h-4" />
+            {isCounting ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <span>
+                <span className="font-medium text-foreground">{members.length}</span> contact(s) correspondent actuellement
+                {summary.length === 0 && ' — aucun critère, tous les contacts'}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Annuler
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim() || summary.length === 0 || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Enregistrer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
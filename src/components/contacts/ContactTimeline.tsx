@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Banknote, Briefcase, Clock, TrendingUp } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ACTIVITY_TYPE_CONFIG } from '@/components/activities/activity-type-config';
+import { useContactTimeline } from '@/hooks/useContactTimeline';
+import {
+  TIMELINE_EVENT_KINDS,
+  TIMELINE_EVENT_KIND_LABELS,
+  type TimelineEvent,
+  type TimelineEventKind,
+} from '@/lib/contact-timeline';
+import { formatDate, formatRelativeTime } from '@/lib/formatters';
+import { cn } from '@/lib/utils';
+
+// Events that are not activities get their own icon
+const KIND_ICON: Partial<Record<TimelineEventKind, { icon: React.ElementType; color: string }>> = {
+  stage: { icon: TrendingUp, color: 'text-cyan-400' },
+  deal: { icon: Briefcase, color: 'text-primary' },
+  offer: { icon: Banknote, color: 'text-amber-400' },
+};
+
+function getEventIcon(event: TimelineEvent) {
+  if (event.activityType) {
+    return ACTIVITY_TYPE_CONFIG[event.activityType] ?? ACTIVITY_TYPE_CONFIG.autre;
+  }
+  return KIND_ICON[event.kind] ?? ACTIVITY_TYPE_CONFIG.autre;
+}
+
+/**
+ * Chronological history of a contact merging activities, sequence emails,
+ * proposals, stage changes, deals and offers, filterable by event kind.
+ */
+export function ContactTimeline({ contactId }: { contactId: string }) {
+  const { events, isLoading } = useContactTimeline(contactId);
+  const [kind, setKind] = useState<TimelineEventKind | 'all'>('all');
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="flex gap-4">
+            <Skeleton className="w-8 h-8 rounded-full" />
+            <div className="flex-1 space-y-2">
+              <Skeleton className="h-4 w-24" />
+              <Skeleton className="h-3 w-full" />
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <Clock className="w-10 h-10 mx-auto mb-3 opacity-50" />
+        <p className="text-sm">Aucune activité enregistrée</p>
+        <p className="text-xs mt-1">Ajoutez une activité pour commencer le suivi</p>
+      </div>
+    );
+  }
+
+  const counts = new Map<TimelineEventKind, number>();
+  events.forEach((e) => counts.set(e.kind, (counts.get(e.kind) ?? 0) + 1));
+  const visible = kind === 'all' ? events : events.filter((e) => e.kind === kind);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-1.5">
+        <Badge
+          variant={kind === 'all' ? 'default' : 'outline'}
+          className="cursor-pointer"
+          onClick={() => setKind('all')}
+        >
+          Tout ({events.length})
+        </Badge>
+        {TIMELINE_EVENT_KINDS.filter((k) => counts.has(k)).map((k) => (
+          <Badge
+            key={k}
+            variant={kind === k ? 'default' : 'outline'}
+            className="cursor-pointer"
+            onClick={() => setKind(k)}
+          >
+            {TIMELINE_EVENT_KIND_LABELS[k]} ({counts.get(k)})
+          </Badge>
+        ))}
+      </div>
+
+      <div className="relative">
+        {/* Timeline line */}
+        <div className="absolute left-4 top-0 bottom-0 w-px bg-border" />
+
+        <div className="space-y-6">
+          {visible.map((event, index) => {
+            const { icon: Icon, color } = getEventIcon(event);
+            return (
+              <motion.div
+                key={event.id}
+                initial={{ opacity: 0, x: -10 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: Math.min(index, 10) * 0.05 }}
+                className="relative flex gap-4 pl-2"
+              >
+                <div className="w-8 h-8 rounded-full flex items-center justify-center border border-border bg-card z-10">
+                  <Icon className={cn('w-4 h-4', color)} />
+                </div>
+                <div className="flex-1 min-w-0 pb-2">
+                  <div className="flex items-center gap-2 mb-1">
+                    {event.link ? (
+                      <Link to={event.link} className="font-medium text-sm truncate hover:text-primary transition-colors">
+                        {event.title}
+                      </Link>
+                    ) : (
+                      <span className="font-medium text-sm truncate">{event.title}</span>
+                    )}
+                    <span className="text-xs text-muted-foreground font-mono shrink-0" title={formatDate(event.date)}>
+                      {formatRelativeTime(event.date)}
+                    </span>
+                  </div>
+                  {event.detail && <p className="text-sm text-muted-foreground">{event.detail}</p>}
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -146,6 +146,7 @@ export function EditContactDialog({ contact, open, onOpenChange }: EditContactDi
       // Invalidate all related queries
       queryClient.invalidateQueries({ queryKey: ['contact', contact.id] });
       queryClient.invalidateQueries({ queryKey: ['contacts', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['pipeline_stage_history', organizationId] });
       toast.success('Contact mis à jour ✅');
       onOpenChange(false);
     },
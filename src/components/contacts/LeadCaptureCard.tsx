@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Check, Copy, Globe, KeyRound, Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/hooks/useOrganization';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useRole } from '@/hooks/useRole';
+import { DEFAULT_LEAD_SOURCE, buildLeadFormSnippet, generateLeadFormToken, parseAllowedOrigins } from '@/lib/lead-capture';
+import type { Json } from '@/integrations/supabase/types';
+import type { OrgSettings } from '@/types/settings';
+
+const UNASSIGNED = 'none';
+
+/**
+ * Embeddable website contact form: token, source and agent of the captured
+ * leads, and the HTML snippet to paste on the agency website.
+ */
+export function LeadCaptureCard() {
+  const { user, organizationId } = useAuth();
+  const { isAdmin } = useRole();
+  const { data: organization, isLoading } = useOrganization();
+  const queryClient = useQueryClient();
+
+  const settings = organization?.settings as unknown as OrgSettings | null;
+  const leadCapture = settings?.lead_capture;
+  const formToken = leadCapture?.form_token;
+
+  const [source, setSource] = useState('');
+  const [assignedTo, setAssignedTo] = useState(UNASSIGNED);
+  const [allowedOrigins, setAllowedOrigins] = useState('');
+  const [redirectUrl, setRedirectUrl] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setSource(leadCapture?.source ?? DEFAULT_LEAD_SOURCE);
+    setAssignedTo(leadCapture?.assigned_to ?? UNASSIGNED);
+    setAllowedOrigins((leadCapture?.allowed_origins ?? []).join(', '));
+  }, [leadCapture?.source, leadCapture?.assigned_to, leadCapture?.allowed_origins]);
+
+  const { data: profiles } = useOrgQuery<{ id: string; full_name: string | null }[]>('profiles', {
+    select: 'id, full_name',
+  }, { enabled: isAdmin });
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: NonNullable<OrgSettings['lead_capture']>) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+      const newSettings: OrgSettings = {
+        ...settings,
+        lead_capture: { ...leadCapture, ...values },
+      };
+      // RLS lets only admins update the organization: a refused update returns no row, not an error
+      const { data, error } = await supabase
+        .from('organizations')
+        .update({ settings: newSettings as unknown as Json })
+        .eq('id', organizationId)
+        .select('id');
+      if (error) throw error;
+      if (!data?.length) throw new Error('Seul un administrateur peut modifier le formulaire du site');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['organization', user?.id] });
+    },
+    onError: (error) => {
+      toast.error('Erreur', { description: error.message });
+    },
+  });
+
+  const handleGenerateToken = () => {
+    saveMutation
+      .mutateAsync({ form_token: generateLeadFormToken() })
+      .then(() => toast.success(formToken ? 'Nouveau formulaire généré — remplacez le code sur votre site' : 'Formulaire activé'))
+      .catch(() => undefined);
+  };
+
+  const handleDisable = () => {
+    saveMutation
+      .mutateAsync({ form_token: undefined })
+      .then(() => toast.success('Formulaire désactivé'))
+      .catch(() => undefined);
+  };
+
+  const handleSave = () => {
+    saveMutation
+      .mutateAsync({
+        source: source.trim() || DEFAULT_LEAD_SOURCE,
+        assigned_to: assignedTo === UNASSIGNED ? undefined : assignedTo,
+        allowed_origins: parseAllowedOrigins(allowedOrigins),
+      })
+      .then(() => toast.success('Sauvegardé ✅'))
+      .catch(() => undefined);
+  };
+
+  const snippet = formToken && organizationId
+    ? buildLeadFormSnippet(organizationId, formToken, redirectUrl.trim() || undefined)
+    : null;
+
+  const handleCopy = () => {
+    if (!snippet) return;
+    navigator.clipboard.writeText(snippet);
+    setCopied(true);
+    toast.success('Code du formulaire copié');
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Globe className="w-4 h-4 text-primary" />
+          Formulaire de contact du site web
+        </CardTitle>
+        <CardDescription>
+          Les demandes envoyées depuis votre site créent directement un contact et sa recherche
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="lead-source">Source des contacts</Label>
+                <Input
+                  id="lead-source"
+                  value={source}
+                  onChange={(e) => setSource(e.target.value)}
+                  disabled={!isAdmin}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Agent attribué</Label>
+                <Select value={assignedTo} onValueChange={setAssignedTo} disabled={!isAdmin}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Non attribué</SelectItem>
+                    {(profiles ?? []).map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.full_name ?? 'Agent'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="lead-origins">Site de l'agence</Label>
+              <Input
+                id="lead-origins"
+                placeholder="https://www.votre-agence.fr"
+                value={allowedOrigins}
+                onChange={(e) => setAllowedOrigins(e.target.value)}
+                disabled={!isAdmin}
+              />
+              <p className="text-xs text-muted-foreground">
+                La page de remerciement doit se trouver sur ce site (plusieurs adresses séparées par des virgules).
+                Sans adresse, seul le site qui envoie le formulaire est accepté.
+              </p>
+            </div>
+
+            {snippet ? (
+              <div className="space-y-2">
+                <Label htmlFor="lead-redirect">Page de remerciement (optionnel)</Label>
+                <Input
+                  id="lead-redirect"
+                  placeholder="https://www.votre-agence.fr/merci"
+                  value={redirectUrl}
+                  onChange={(e) => setRedirectUrl(e.target.value)}
+                />
+                <div className="flex items-center justify-between">
+                  <Label>Code à coller sur votre site</Label>
+                  <Button variant="ghost" size="sm" onClick={handleCopy} className="gap-2">
+                    {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+                    Copier
+                  </Button>
+                </div>
+                <Textarea readOnly value={snippet} className="h-40 text-xs font-mono" />
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Aucun formulaire actif. Activez-le pour obtenir le code à intégrer à votre site.
+              </p>
+            )}
+
+            {isAdmin && (
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={handleSave} disabled={saveMutation.isPending} className="gap-2">
+                  {saveMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  Enregistrer
+                </Button>
+                <Button variant="outline" onClick={handleGenerateToken} disabled={saveMutation.isPending} className="gap-2">
+                  <KeyRound className="w-4 h-4" />
+                  {formToken ? 'Régénérer le code' : 'Activer le formulaire'}
+                </Button>
+                {formToken && (
+                  <Button variant="ghost" onClick={handleDisable} disabled={saveMutation.isPending}>
+                    Désactiver
+                  </Button>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,6 +11,8 @@ import {
   type LeadScoreResult,
   type ScoringCriterion,
 } from '@/lib/scoring-engine';
+import { SCORING_CATEGORY_LABELS, getCategoryMaxPoints, type ScoringCategory } from '@/lib/scoring-model';
+import { useScoringModel } from '@/hooks/useScoringModel';
 import { motion } from 'framer-motion';
 import {
   Flame,
@@ -114,11 +116,12 @@ function ScoreGauge({ score, temperature }: { score: number; temperature: 'cold'
   );
 }
 
-function CriteriaChecklist({ criteria }: { criteria: ScoringCriterion[] }) {
+function CriteriaChecklist({ criteria, applyPenalties }: { criteria: ScoringCriterion[]; applyPenalties: boolean }) {
   return (
     <div className="space-y-1.5">
       {criteria.map((c, i) => {
         const isPositive = c.points > 0;
+        const isCounted = isPositive || applyPenalties;
         return (
           <div
             key={i}
@@ -142,6 +145,7 @@ function CriteriaChecklist({ criteria }: { criteria: ScoringCriterion[] }) {
               )}
             >
               {isPositive ? '+' : ''}{c.points}pts
+              {!isCounted && <span className="font-normal text-muted-foreground"> (non décompté)</span>}
             </span>
           </div>
         );
@@ -208,9 +212,11 @@ export function LeadScoreCard({
   compact = false,
   className,
 }: LeadScoreCardProps) {
+  const { model, isCustom } = useScoringModel();
   const scoreResult = useMemo(() => {
-    return calculateLeadScore(contact, activities, searchCriteria);
-  }, [contact, activities, searchCriteria]);
+    return calculateLeadScore(contact, activities, searchCriteria, model);
+  }, [contact, activities, searchCriteria, model]);
+  const categoryMax = useMemo(() => getCategoryMaxPoints(model), [model]);
 
   const { score, temperature, reasons, criteria, breakdown } = scoreResult;
   const tempLabel = getTemperatureLabel(temperature);
@@ -293,30 +299,21 @@ export function LeadScoreCard({
             <ScoreGauge score={score} temperature={temperature} />
             
             <div className="flex-1 space-y-2">
-              {/* Breakdown bars */}
-              <div className="space-y-1.5">
-                <div className="flex items-center justify-between text-xs">
-                  <span className="text-muted-foreground">Profil</span>
-                  <span className="font-medium tabular-nums">{breakdown.profile}/30</span>
-                </div>
-                <Progress value={(breakdown.profile / 30) * 100} className="h-1.5" />
-              </div>
-              
-              <div className="space-y-1.5">
-                <div className="flex items-center justify-between text-xs">
-                  <span className="text-muted-foreground">Engagement</span>
-                  <span className="font-medium tabular-nums">{breakdown.engagement}/40</span>
-                </div>
-                <Progress value={(breakdown.engagement / 40) * 100} className="h-1.5" />
-              </div>
-              
-              <div className="space-y-1.5">
-                <div className="flex items-center justify-between text-xs">
-                  <span className="text-muted-foreground">Pipeline</span>
-                  <span className="font-medium tabular-nums">{breakdown.pipeline}/30</span>
-                </div>
-                <Progress value={(breakdown.pipeline / 30) * 100} className="h-1.5" />
-              </div>
+              {/* Breakdown bars, out of the best score reachable in each category */}
+              {(Object.keys(SCORING_CATEGORY_LABELS) as ScoringCategory[])
+                .filter((category) => categoryMax[category] > 0)
+                .map((category) => (
+                  <div key={category} className="space-y-1.5">
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="text-muted-foreground">{SCORING_CATEGORY_LABELS[category]}</span>
+                      <span className="font-medium tabular-nums">{breakdown[category]}/{categoryMax[category]}</span>
+                    </div>
+                    <Progress
+                      value={Math.max(0, Math.min(100, (breakdown[category] / categoryMax[category]) * 100))}
+                      className="h-1.5"
+                    />
+                  </div>
+                ))}
             </div>
           </div>
           
@@ -327,7 +324,10 @@ export function LeadScoreCard({
                 <Sparkles className="w-3 h-3" />
                 <span>Détail du scoring</span>
               </div>
-              <CriteriaChecklist criteria={criteria} />
+              <CriteriaChecklist criteria={criteria} applyPenalties={model.apply_penalties} />
+              <p className="text-[10px] text-muted-foreground">
+                Modèle {isCustom ? 'de l\'agence' : 'par défaut'} · Chaud ≥ {model.hot_threshold} · Tiède ≥ {model.warm_threshold}
+              </p>
             </div>
           )}
 
@@ -335,7 +335,7 @@ export function LeadScoreCard({
           <ActionRecommendation score={score} temperature={temperature} />
 
           {/* Action buttons for hot leads */}
-          {score >= 70 && (onCallNow || onPrioritize) && (
+          {temperature === 'hot' && (onCallNow || onPrioritize) && (
             <div className="flex gap-2 pt-2 border-t border-border/50">
               {onCallNow && contact.phone && (
                 <Button 
@@ -380,9 +380,10 @@ export function LeadScoreIndicator({
   searchCriteria?: { id: string; budget_min?: number | null; budget_max?: number | null; property_types?: string[] | null; cities?: string[] | null } | null;
   className?: string;
 }) {
+  const { model } = useScoringModel();
   const scoreResult = useMemo(() => {
-    return calculateLeadScore(contact, activities, searchCriteria);
-  }, [contact, activities, searchCriteria]);
+    return calculateLeadScore(contact, activities, searchCriteria, model);
+  }, [contact, activities, searchCriteria, model]);
 
   const { score, temperature } = scoreResult;
 
@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowRight, Gauge, Loader2, Plus, RotateCcw, Save } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScoringRuleEditor } from '@/components/contacts/ScoringRuleEditor';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useRole } from '@/hooks/useRole';
+import { useScoringModel } from '@/hooks/useScoringModel';
+import { useSegmentContext } from '@/hooks/useContactSegments';
+import { calculateLeadScore, getTemperatureBadgeClasses, getTemperatureLabel } from '@/lib/scoring-engine';
+import { createScoringRule, validateScoringModel, type ScoringModel } from '@/lib/scoring-model';
+import { cn } from '@/lib/utils';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Contact = Tables<'contacts'>;
+type Temperature = 'cold' | 'warm' | 'hot';
+
+const PREVIEW_SAMPLE_SIZE = 20;
+const TEMPERATURES: Temperature[] = ['hot', 'warm', 'cold'];
+
+/**
+ * Lead scoring model of the agency: thresholds, penalties and rules, with a
+ * preview re-scoring the latest contacts before the draft is saved.
+ */
+export function LeadScoringCard() {
+  const { isAdmin } = useRole();
+  const { model, isCustom, save, isSaving } = useScoringModel();
+  const [draft, setDraft] = useState<ScoringModel>(model);
+
+  useEffect(() => {
+    setDraft(model);
+  }, [model]);
+
+  const { data: contacts, isLoading: isLoadingContacts } = useOrgQuery<Contact[]>('contacts', {
+    select: '*',
+    orderBy: { column: 'created_at', ascending: false },
+  }, { enabled: isAdmin });
+  const { context, isLoading: isLoadingContext } = useSegmentContext({ enabled: isAdmin });
+
+  const isDirty = useMemo(() => JSON.stringify(draft) !== JSON.stringify(model), [draft, model]);
+  const validationError = useMemo(() => validateScoringModel(draft), [draft]);
+
+  const preview = useMemo(() => {
+    if (validationError) return null;
+    const rows = (contacts ?? []).slice(0, PREVIEW_SAMPLE_SIZE).map((contact) => {
+      const activities = context.activitiesByContact.get(contact.id) ?? [];
+      const search = context.searchesByContact.get(contact.id)?.[0];
+      return {
+        contact,
+        before: calculateLeadScore(contact, activities, search, model),
+        after: calculateLeadScore(contact, activities, search, draft),
+      };
+    });
+    const count = (key: 'before' | 'after', temperature: Temperature) =>
+      rows.filter((row) => row[key].temperature === temperature).length;
+    return {
+      rows,
+      counts: TEMPERATURES.map((temperature) => ({
+        temperature,
+        before: count('before', temperature),
+        after: count('after', temperature),
+      })),
+    };
+  }, [contacts, context, model, draft, validationError]);
+
+  const updateRule = (index: number, rule: ScoringModel['rules'][number]) =>
+    setDraft((current) => ({ ...current, rules: current.rules.map((r, i) => (i === index ? rule : r)) }));
+
+  const handleSave = () => {
+    save(draft).catch(() => undefined);
+  };
+
+  const handleReset = () => {
+    save(null).catch(() => undefined);
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Gauge className="w-4 h-4 text-primary" />
+          Scoring des leads
+        </CardTitle>
+        <CardDescription>
+          {isCustom ? 'Modèle personnalisé de l\'agence' : 'Modèle par défaut'} — les points de chaque règle remplie
+          s'additionnent en un score de 0 à 100
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Seuil « Chaud »</Label>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={draft.hot_threshold}
+              onChange={(e) => setDraft({ ...draft, hot_threshold: Number(e.target.value) || 0 })}
+              disabled={!isAdmin}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Seuil « Tiède »</Label>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={draft.warm_threshold}
+              onChange={(e) => setDraft({ ...draft, warm_threshold: Number(e.target.value) || 0 })}
+              disabled={!isAdmin}
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch
+              id="scoring-penalties"
+              checked={draft.apply_penalties}
+              onCheckedChange={(checked) => setDraft({ ...draft, apply_penalties: checked })}
+              disabled={!isAdmin}
+            />
+            <Label htmlFor="scoring-penalties" className="text-sm">
+              Décompter les points négatifs
+            </Label>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {draft.rules.map((rule, index) => (
+            <ScoringRuleEditor
+              key={rule.id}
+              rule={rule}
+              onChange={(r) => updateRule(index, r)}
+              onRemove={() => setDraft({ ...draft, rules: draft.rules.filter((_, i) => i !== index) })}
+              disabled={!isAdmin}
+            />
+          ))}
+          {isAdmin && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft({ ...draft, rules: [...draft.rules, createScoringRule()] })}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Ajouter une règle
+            </Button>
+          )}
+        </div>
+
+        {isAdmin && (
+          <div className="space-y-3 rounded-lg bg-secondary/30 p-3">
+            <p className="text-sm font-medium">Aperçu sur les {PREVIEW_SAMPLE_SIZE} derniers contacts</p>
+            {validationError ? (
+              <p className="text-sm text-destructive">{validationError}</p>
+            ) : isLoadingContacts || isLoadingContext ? (
+              <Skeleton className="h-24 w-full" />
+            ) : !preview || preview.rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Aucun contact à évaluer</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  {preview.counts.map(({ temperature, before, after }) => (
+                    <Badge key={temperature} variant="outline" className={getTemperatureBadgeClasses(temperature)}>
+                      {getTemperatureLabel(temperature)} : {before}
+                      {before !== after && ` → ${after}`}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="max-h-64 overflow-y-auto divide-y divide-border/50">
+                  {preview.rows.map(({ contact, before, after }) => {
+                    const delta = after.score - before.score;
+                    return (
+                      <div key={contact.id} className="flex items-center gap-2 py-1.5 text-sm">
+                        <span className="flex-1 truncate">{contact.full_name}</span>
+                        <span className="w-8 text-right text-muted-foreground">{before.score}</span>
+                        <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                        <span className="w-8 text-right font-medium">{after.score}</span>
+                        <span
+                          className={cn(
+                            'w-10 text-right text-xs',
+                            delta > 0 && 'text-success',
+                            delta < 0 && 'text-destructive',
+                            delta === 0 && 'text-muted-foreground'
+                          )}
+                        >
+                          {delta > 0 ? `+${delta}` : delta === 0 ? '=' : delta}
+                        </span>
+                        <Badge variant="outline" className={cn('w-16 justify-center', getTemperatureBadgeClasses(after.temperature))}>
+                          {getTemperatureLabel(after.temperature)}
+                        </Badge>
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {isAdmin && (
+          <div className="flex flex-wrap justify-end gap-2">
+            {isCustom && (
+              <Button variant="ghost" onClick={handleReset} disabled={isSaving}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Rétablir le modèle par défaut
+              </Button>
+            )}
+            {isDirty && (
+              <Button variant="outline" onClick={() => setDraft(model)} disabled={isSaving}>
+                Annuler
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={!isDirty || !!validationError || isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              Enregistrer
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
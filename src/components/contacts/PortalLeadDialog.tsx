@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Check, CheckCircle2, Copy, Inbox, KeyRound, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/hooks/useOrganization';
+import { useRole } from '@/hooks/useRole';
+import type { Json } from '@/integrations/supabase/types';
+import type { OrgSettings } from '@/types/settings';
+
+interface PortalLeadResult {
+  portal: string;
+  contact_id: string;
+  contact_name: string;
+  created: boolean;
+  property: { id: string; title: string } | null;
+}
+
+interface PortalLeadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Lead notification emails from SeLoger, Leboncoin or Bien'ici, pasted here
+ * or forwarded automatically, become contacts with a note on the listing.
+ */
+export function PortalLeadDialog({ open, onOpenChange }: PortalLeadDialogProps) {
+  const { user, organizationId } = useAuth();
+  const { canManageTeam } = useRole();
+  const { data: organization } = useOrganization();
+  const queryClient = useQueryClient();
+  const [raw, setRaw] = useState('');
+  const [result, setResult] = useState<PortalLeadResult | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const settings = organization?.settings as unknown as OrgSettings | null;
+  const leadToken = settings?.portals?.lead_email_token;
+  const forwardUrl = leadToken
+    ? `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ingest-portal-lead?org=${organizationId}&token=${leadToken}`
+    : null;
+
+  const ingestMutation = useMutation({
+    mutationFn: async (email: string) => {
+      const { data, error } = await supabase.functions.invoke('ingest-portal-lead', {
+        body: { raw: email },
+      });
+      if (error) {
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error || error.message);
+      }
+      return data as PortalLeadResult;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['contacts', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['activities', organizationId] });
+      setResult(data);
+      setRaw('');
+      toast.success(data.created ? 'Contact créé' : 'Contact mis à jour', {
+        description: `Demande ${data.portal} de ${data.contact_name}`,
+      });
+    },
+    onError: (error) => {
+      toast.error("Impossible de lire l'email", { description: error.message });
+    },
+  });
+
+  const tokenMutation = useMutation({
+    mutationFn: async () => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+      const newSettings: OrgSettings = {
+        ...settings,
+        portals: { ...settings?.portals, lead_email_token: crypto.randomUUID().replace(/-/g, '') },
+      };
+      const { error } = await supabase
+        .from('organizations')
+        .update({ settings: newSettings as unknown as Json })
+        .eq('id', organizationId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['organization', user?.id] });
+      toast.success(leadToken ? 'Nouvelle adresse de transfert générée' : 'Transfert automatique activé');
+    },
+    onError: (error) => {
+      toast.error('Erreur', { description: error.message });
+    },
+  });
+
+  const handleCopy = () => {
+    if (!forwardUrl) return;
+    navigator.clipboard.writeText(forwardUrl);
+    setCopied(true);
+    toast.success('URL copiée');
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        if (!value) setResult(null);
+        onOpenChange(value);
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Inbox className="w-5 h-5 text-blue-400" />
+            Demandes des portails
+          </DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Collez un email de demande SeLoger, Leboncoin ou Bien'ici (texte ou source complète).
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={raw}
+          onChange={(e) => setRaw(e.target.value)}
+          placeholder="Nom : …&#10;Email : …&#10;Téléphone : …&#10;Message : …"
+          className="h-48 text-xs font-mono"
+        />
+        <div className="flex justify-end">
+          <Button
+            onClick={() => ingestMutation.mutate(raw)}
+            disabled={!raw.trim() || ingestMutation.isPending}
+            className="gap-2"
+          >
+            {ingestMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            Créer le contact
+          </Button>
+        </div>
+
+        {result && (
+          <div className="flex items-start gap-3 p-3 rounded-lg bg-emerald-500/10 border border-emerald-500/20 text-sm">
+            <CheckCircle2 className="w-4 h-4 text-emerald-400 mt-0.5 shrink-0" />
+            <div>
+              <p>
+                {result.created ? 'Nouveau contact' : 'Contact existant mis à jour'} :{' '}
+                <Link
+                  to={`/contacts/${result.contact_id}`}
+                  className="font-medium hover:text-primary transition-colors"
+                  onClick={() => onOpenChange(false)}
+                >
+                  {result.contact_name}
+                </Link>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {result.property ? `Bien : ${result.property.title}` : 'Aucun bien correspondant à la référence'}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Automatic forwarding */}
+        <div className="space-y-2 border-t border-white/10 pt-4">
+          <p className="text-sm font-medium">Transfert automatique</p>
+          {forwardUrl ? (
+            <>
+              <p className="text-xs text-muted-foreground">
+                Configurez votre messagerie pour transmettre les emails des portails (source brute) à cette URL.
+              </p>
+              <div className="flex gap-2">
+                <Input readOnly value={forwardUrl} className="text-xs font-mono" />
+                <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copier l'URL">
+                  {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Aucun transfert actif. Générez une URL secrète pour recevoir les demandes sans copier-coller.
+            </p>
+          )}
+          {canManageTeam && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => tokenMutation.mutate()}
+              disabled={tokenMutation.isPending}
+              className="gap-2"
+            >
+              <KeyRound className="w-4 h-4" />
+              {leadToken ? "Régénérer l'URL" : 'Activer le transfert'}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
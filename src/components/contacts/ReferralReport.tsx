@@ -0,0 +1,80 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Download, Gift } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useReferrals } from '@/hooks/useContactRelationships';
+import { formatCurrency, formatShortDate } from '@/lib/formatters';
+import { buildReferralReport, exportReferralReportCsv } from '@/lib/contact-relationships';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Deal = Pick<Tables<'deals'>, 'contact_id' | 'stage' | 'amount' | 'commission_amount'>;
+
+/**
+ * Referrers ("recommandé par" relationships) with the contacts they brought
+ * and the business those contacts generated, to reward them.
+ */
+export function ReferralReport({ deals, isLoadingDeals }: { deals: Deal[]; isLoadingDeals: boolean }) {
+  const { referrals, isLoading } = useReferrals();
+  const rows = useMemo(() => buildReferralReport(referrals, deals), [referrals, deals]);
+
+  if (isLoading || isLoadingDeals) {
+    return <Skeleton className="h-48 w-full rounded-xl" />;
+  }
+
+  if (rows.length === 0) {
+    return (
+      <div className="py-10 text-center text-sm text-muted-foreground">
+        <Gift className="w-8 h-8 mx-auto mb-3 opacity-50" />
+        Aucune recommandation enregistrée. Ajoutez une relation « Recommandé par » sur la fiche d'un contact.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => exportReferralReportCsv(rows)}>
+          <Download className="w-4 h-4" />
+          Exporter CSV
+        </Button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground border-b border-white/[0.06]">
+              <th className="py-2 pr-3 font-medium">Apporteur</th>
+              <th className="py-2 pr-3 font-medium">Contacts recommandés</th>
+              <th className="py-2 pr-3 font-medium text-right">Opportunités</th>
+              <th className="py-2 pr-3 font-medium text-right">Ventes</th>
+              <th className="py-2 pr-3 font-medium text-right">CA</th>
+              <th className="py-2 font-medium text-right">Commissions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.referrer.id} className="border-b border-white/[0.04] align-top">
+                <td className="py-2.5 pr-3">
+                  <Link to={`/contacts/${row.referrer.id}`} className="font-medium hover:text-primary transition-colors">
+                    {row.referrer.full_name}
+                  </Link>
+                  <p className="text-xs text-muted-foreground">Dernière le {formatShortDate(row.lastReferralAt)}</p>
+                </td>
+                <td className="py-2.5 pr-3">
+                  <span className="font-mono mr-1.5">{row.referrals.length}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {row.referrals.map((c) => c.full_name).join(', ')}
+                  </span>
+                </td>
+                <td className="py-2.5 pr-3 text-right font-mono">{row.deals}</td>
+                <td className="py-2.5 pr-3 text-right font-mono">{row.wonDeals}</td>
+                <td className="py-2.5 pr-3 text-right font-mono">{formatCurrency(row.wonAmount)}</td>
+                <td className="py-2.5 text-right font-mono text-emerald-400">{formatCurrency(row.wonCommission)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
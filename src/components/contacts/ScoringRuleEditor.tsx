@@ -0,0 +1,348 @@
+import { Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ACTIVITY_FILTER_FIELDS,
+  OPERATORS_BY_KIND,
+  SCORING_CATEGORY_LABELS,
+  SCORING_FIELDS,
+  SCORING_OPERATOR_LABELS,
+  SCORING_SOURCE_LABELS,
+  getScoringField,
+  operatorNeedsValue,
+  type ScoringCategory,
+  type ScoringCondition,
+  type ScoringOperator,
+  type ScoringRule,
+  type ScoringSource,
+} from '@/lib/scoring-model';
+
+const ALL_ACTIVITIES = 'all';
+const ACTIVITY_OPERATORS: ScoringOperator[] = ['gte', 'lte', 'eq'];
+
+interface ScoringRuleEditorProps {
+  rule: ScoringRule;
+  onChange: (rule: ScoringRule) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+function operatorsFor(condition: ScoringCondition): ScoringOperator[] {
+  if (condition.source === 'activities') return ACTIVITY_OPERATORS;
+  const field = getScoringField(condition.source, condition.field);
+  return field ? OPERATORS_BY_KIND[field.kind] : ['filled', 'empty'];
+}
+
+function ConditionValue({
+  condition,
+  onChange,
+  disabled,
+}: {
+  condition: ScoringCondition;
+  onChange: (value: ScoringCondition['value']) => void;
+  disabled?: boolean;
+}) {
+  if (!operatorNeedsValue(condition.operator)) return null;
+
+  const field = condition.source === 'activities' ? undefined : getScoringField(condition.source, condition.field);
+  const isNumeric =
+    condition.source === 'activities' ||
+    field?.kind === 'number' ||
+    condition.operator === 'within_days' ||
+    condition.operator === 'older_than_days';
+
+  if (isNumeric) {
+    return (
+      <Input
+        type="number"
+        className="w-24"
+        value={condition.value === undefined ? '' : String(condition.value)}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        disabled={disabled}
+      />
+    );
+  }
+
+  if (field?.options && condition.operator === 'in') {
+    const selected = Array.isArray(condition.value) ? condition.value : [];
+    return (
+      <div className="flex flex-wrap gap-1.5 basis-full">
+        {field.options.map((option) => {
+          const isSelected = selected.includes(option.value);
+          return (
+            <Badge
+              key={option.value}
+              variant={isSelected ? 'default' : 'outline'}
+              className={disabled ? 'pointer-events-none' : 'cursor-pointer'}
+              onClick={() =>
+                onChange(isSelected ? selected.filter((v) => v !== option.value) : [...selected, option.value])
+              }
+            >
+              {option.label}
+            </Badge>
+          );
+        })}
+      </div>
+    );
+  }
+
+  if (field?.options) {
+    return (
+      <Select value={typeof condition.value === 'string' ? condition.value : ''} onValueChange={onChange} disabled={disabled}>
+        <SelectTrigger className="w-44">
+          <SelectValue placeholder="Valeur" />
+        </SelectTrigger>
+        <SelectContent>
+          {field.options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      className="w-44"
+      placeholder="Valeur"
+      value={typeof condition.value === 'string' ? condition.value : ''}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+    />
+  );
+}
+
+function ConditionRow({
+  condition,
+  onChange,
+  onRemove,
+  disabled,
+}: {
+  condition: ScoringCondition;
+  onChange: (condition: ScoringCondition) => void;
+  onRemove?: () => void;
+  disabled?: boolean;
+}) {
+  const setSource = (source: ScoringSource) => {
+    const next: ScoringCondition = { source, field: SCORING_FIELDS[source][0].key, operator: 'filled' };
+    onChange({ ...next, operator: operatorsFor(next)[0] });
+  };
+
+  const setField = (key: string) => {
+    const next: ScoringCondition = { ...condition, field: key, value: undefined };
+    const operators = operatorsFor(next);
+    onChange({ ...next, operator: operators.includes(condition.operator) ? condition.operator : operators[0] });
+  };
+
+  const filter = condition.activity_filter;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={condition.source} onValueChange={(value) => setSource(value as ScoringSource)} disabled={disabled}>
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(SCORING_SOURCE_LABELS) as ScoringSource[]).map((source) => (
+            <SelectItem key={source} value={source}>
+              {SCORING_SOURCE_LABELS[source]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={condition.field} onValueChange={setField} disabled={disabled}>
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SCORING_FIELDS[condition.source].map((field) => (
+            <SelectItem key={field.key} value={field.key}>
+              {field.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {condition.source === 'activities' && (
+        <Select
+          value={filter ? `${filter.field}:${filter.value}` : ALL_ACTIVITIES}
+          onValueChange={(value) => {
+            if (value === ALL_ACTIVITIES) {
+              onChange({ ...condition, activity_filter: undefined });
+              return;
+            }
+            const [field, ...rest] = value.split(':');
+            onChange({ ...condition, activity_filter: { field, value: rest.join(':') } });
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_ACTIVITIES}>Toutes les activités</SelectItem>
+            {ACTIVITY_FILTER_FIELDS.flatMap((field) =>
+              (field.options ?? []).map((option) => (
+                <SelectItem key={`${field.key}:${option.value}`} value={`${field.key}:${option.value}`}>
+                  {field.label} : {option.label}
+                </SelectItem>
+              ))
+            )}
+          </SelectContent>
+        </Select>
+      )}
+
+      <Select
+        value={condition.operator}
+        onValueChange={(value) => onChange({ ...condition, operator: value as ScoringOperator, value: undefined })}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-52">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operatorsFor(condition).map((operator) => (
+            <SelectItem key={operator} value={operator}>
+              {SCORING_OPERATOR_LABELS[operator]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <ConditionValue condition={condition} onChange={(value) => onChange({ ...condition, value })} disabled={disabled} />
+
+      {onRemove && !disabled && (
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onRemove}>
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * One rule of the scoring model: its label, category, points, conditions,
+ * exclusive tier group and the signal shown when it does not match.
+ */
+export function ScoringRuleEditor({ rule, onChange, onRemove, disabled }: ScoringRuleEditorProps) {
+  const update = (patch: Partial<ScoringRule>) => onChange({ ...rule, ...patch });
+
+  const updateCondition = (index: number, condition: ScoringCondition) =>
+    update({ conditions: rule.conditions.map((c, i) => (i === index ? condition : c)) });
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          className="flex-1 min-w-48"
+          placeholder="Libellé affiché (ex. Visite réalisée)"
+          value={rule.label}
+          onChange={(e) => update({ label: e.target.value })}
+          disabled={disabled}
+        />
+        <Select value={rule.category} onValueChange={(value) => update({ category: value as ScoringCategory })} disabled={disabled}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SCORING_CATEGORY_LABELS) as ScoringCategory[]).map((category) => (
+              <SelectItem key={category} value={category}>
+                {SCORING_CATEGORY_LABELS[category]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            className="w-20"
+            value={rule.points}
+            onChange={(e) => update({ points: Number(e.target.value) || 0 })}
+            disabled={disabled}
+          />
+          <span className="text-xs text-muted-foreground">pts</span>
+        </div>
+        <Input
+          className="w-28"
+          placeholder="Palier"
+          title="Les règles d'un même palier s'excluent : seule la première qui correspond compte"
+          value={rule.group ?? ''}
+          onChange={(e) => update({ group: e.target.value.trim() || undefined, otherwise: e.target.value.trim() ? undefined : rule.otherwise })}
+          disabled={disabled}
+        />
+        {!disabled && (
+          <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={onRemove}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2 pl-3 border-l-2 border-border/50">
+        {rule.conditions.map((condition, index) => (
+          <ConditionRow
+            key={index}
+            condition={condition}
+            onChange={(c) => updateCondition(index, c)}
+            onRemove={rule.conditions.length > 1 ? () => update({ conditions: rule.conditions.filter((_, i) => i !== index) }) : undefined}
+            disabled={disabled}
+          />
+        ))}
+        <div className="flex flex-wrap items-center gap-2">
+          {!disabled && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => update({ conditions: [...rule.conditions, { source: 'contact', field: 'email', operator: 'filled' }] })}
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Condition
+            </Button>
+          )}
+          {rule.conditions.length > 1 && (
+            <Select value={rule.match ?? 'all'} onValueChange={(value) => update({ match: value as 'all' | 'any' })} disabled={disabled}>
+              <SelectTrigger className="w-56 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Toutes les conditions</SelectItem>
+                <SelectItem value="any">Au moins une condition</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </div>
+
+      {!rule.group && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground">Sinon</span>
+          <Input
+            className="flex-1 min-w-48"
+            placeholder="Signal affiché si la règle ne correspond pas (optionnel)"
+            value={rule.otherwise?.label ?? ''}
+            onChange={(e) =>
+              update({ otherwise: e.target.value ? { label: e.target.value, points: rule.otherwise?.points ?? 0 } : undefined })
+            }
+            disabled={disabled}
+          />
+          {rule.otherwise && (
+            <div className="flex items-center gap-1">
+              <Input
+                type="number"
+                className="w-20"
+                value={rule.otherwise.points}
+                onChange={(e) => update({ otherwise: { label: rule.otherwise!.label, points: Number(e.target.value) || 0 } })}
+                disabled={disabled}
+              />
+              <span className="text-xs text-muted-foreground">pts</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
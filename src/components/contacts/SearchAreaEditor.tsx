@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { MapContainer, TileLayer, Circle, Polygon, Polyline, CircleMarker, useMap, useMapEvents } from 'react-leaflet';
+import { latLngBounds } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Loader2, MapPin, Undo2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { getGeocoder } from '@/lib/geocoding';
+import { EMPTY_SEARCH_AREA, getSearchArea, type LatLng, type SearchAreaValue } from '@/lib/geo';
+
+interface SearchAreaEditorProps {
+  value: SearchAreaValue;
+  onChange: (value: SearchAreaValue) => void;
+}
+
+type AreaMode = 'none' | 'radius' | 'polygon';
+
+const DEFAULT_CENTER: LatLng = [46.6, 2.5];
+const DEFAULT_RADIUS_KM = 10;
+
+function MapClicks({ onClick }: { onClick: (point: LatLng) => void }) {
+  useMapEvents({
+    click: (e) => onClick([e.latlng.lat, e.latlng.lng]),
+  });
+  return null;
+}
+
+// Frame the area when it is loaded or its center moves
+function FitArea({ points, signature }: { points: LatLng[]; signature: string }) {
+  const map = useMap();
+  useEffect(() => {
+    if (points.length === 1) map.setView(points[0], 11);
+    if (points.length > 1) map.fitBounds(latLngBounds(points), { padding: [24, 24] });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [map, signature]);
+  return null;
+}
+
+export function SearchAreaEditor({ value, onChange }: SearchAreaEditorProps) {
+  const area = getSearchArea(value);
+  const [mode, setMode] = useState<AreaMode>(area?.kind ?? 'none');
+  const [query, setQuery] = useState(value.center_label ?? '');
+  const [isLocating, setIsLocating] = useState(false);
+
+  const polygon = value.search_polygon ?? [];
+  const center: LatLng | null = value.center_lat != null && value.center_lng != null ? [value.center_lat, value.center_lng] : null;
+
+  const handleModeChange = (next: AreaMode) => {
+    if (!next) return;
+    setMode(next);
+    if (next === 'none') onChange(EMPTY_SEARCH_AREA);
+    if (next === 'radius') onChange({ ...value, search_polygon: null, radius_km: value.radius_km ?? DEFAULT_RADIUS_KM });
+    if (next === 'polygon') onChange({ ...EMPTY_SEARCH_AREA, search_polygon: polygon });
+  };
+
+  const handleLocate = async () => {
+    if (!query.trim()) return;
+    setIsLocating(true);
+    try {
+      const result = await getGeocoder().geocode({ address: query });
+      if (!result) {
+        toast.error('Adresse introuvable');
+        return;
+      }
+      onChange({
+        ...value,
+        center_lat: result.position[0],
+        center_lng: result.position[1],
+        center_label: result.label,
+        radius_km: value.radius_km ?? DEFAULT_RADIUS_KM,
+      });
+      setQuery(result.label);
+    } catch (error) {
+      toast.error('Erreur lors du géocodage', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleMapClick = (point: LatLng) => {
+    if (mode === 'radius') {
+      onChange({ ...value, center_lat: point[0], center_lng: point[1], center_label: null });
+      setQuery('');
+    }
+    if (mode === 'polygon') {
+      onChange({ ...value, search_polygon: [...polygon, point] });
+    }
+  };
+
+  const framed = mode === 'radius' ? (center ? [center] : []) : polygon.length >= 3 ? polygon : [];
+  const signature = mode === 'radius' ? `${value.center_lat},${value.center_lng}` : polygon.length >= 3 ? 'polygon' : '';
+
+  return (
+    <div className="space-y-3">
+      <ToggleGroup
+        type="single"
+        value={mode}
+        onValueChange={(v) => handleModeChange(v as AreaMode)}
+        className="justify-start"
+      >
+        <ToggleGroupItem value="none" size="sm">Aucune</ToggleGroupItem>
+        <ToggleGroupItem value="radius" size="sm">Rayon autour d'une adresse</ToggleGroupItem>
+        <ToggleGroupItem value="polygon" size="sm">Zone dessinée</ToggleGroupItem>
+      </ToggleGroup>
+
+      {mode === 'radius' && (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleLocate();
+                }
+              }}
+              placeholder="Adresse, ville ou code postal"
+            />
+            <Button type="button" variant="outline" className="gap-2 shrink-0" onClick={handleLocate} disabled={isLocating}>
+              {isLocating ? <Loader2 className="w-4 h-4 animate-spin" /> : <MapPin className="w-4 h-4" />}
+              Localiser
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <Label>Dans un rayon de {value.radius_km ?? DEFAULT_RADIUS_KM} km</Label>
+            <Slider
+              min={1}
+              max={100}
+              step={1}
+              value={[value.radius_km ?? DEFAULT_RADIUS_KM]}
+              onValueChange={([radius]) => onChange({ ...value, radius_km: radius })}
+            />
+          </div>
+        </div>
+      )}
+
+      {mode === 'polygon' && (
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>
+            {polygon.length < 3
+              ? `Cliquez sur la carte pour placer les sommets (${polygon.length}/3 minimum)`
+              : `Zone de ${polygon.length} points`}
+          </span>
+          <div className="flex gap-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1"
+              disabled={polygon.length === 0}
+              onClick={() => onChange({ ...value, search_polygon: polygon.slice(0, -1) })}
+            >
+              <Undo2 className="w-3.5 h-3.5" />
+              Annuler
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1"
+              disabled={polygon.length === 0}
+              onClick={() => onChange({ ...value, search_polygon: [] })}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+              Effacer
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {mode !== 'none' && (
+        <div className="isolate h-72 overflow-hidden rounded-lg border border-white/10">
+          <MapContainer center={center ?? DEFAULT_CENTER} zoom={center ? 11 : 5} className="h-full w-full">
+            <TileLayer
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
+              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            />
+            <MapClicks onClick={handleMapClick} />
+            <FitArea points={framed} signature={signature} />
+            {mode === 'radius' && center && (
+              <Circle
+                center={center}
+                radius={(value.radius_km ?? DEFAULT_RADIUS_KM) * 1000}
+                pathOptions={{ color: '#60a5fa', fillOpacity: 0.15 }}
+              />
+            )}
+            {mode === 'polygon' && polygon.length >= 3 && (
+              <Polygon positions={polygon} pathOptions={{ color: '#c084fc', fillOpacity: 0.15 }} />
+            )}
+            {mode === 'polygon' && polygon.length > 0 && polygon.length < 3 && (
+              <Polyline positions={polygon} pathOptions={{ color: '#c084fc', dashArray: '4 4' }} />
+            )}
+            {mode === 'polygon' && polygon.map((point, i) => (
+              <CircleMarker key={i} center={point} radius={4} pathOptions={{ color: '#c084fc', fillOpacity: 1 }} />
+            ))}
+          </MapContainer>
+        </div>
+      )}
+    </div>
+  );
+}
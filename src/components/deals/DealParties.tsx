@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Loader2, Plus, Sparkles, Users, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useDealParties } from '@/hooks/useDealParties';
+import { useContactRelationships } from '@/hooks/useContactRelationships';
+import { DEAL_PARTY_ROLES, DEAL_PARTY_ROLE_LABELS, type DealPartyRole } from '@/lib/constants';
+import { getDealPartySuggestions } from '@/lib/contact-relationships';
+
+interface DealPartiesProps {
+  dealId: string;
+  mainContactId: string | null;
+}
+
+/**
+ * Contacts taking part in a deal besides its main contact, with their role.
+ * Relatives, notaire and banker of the main contact are suggested.
+ */
+export function DealParties({ dealId, mainContactId }: DealPartiesProps) {
+  const { parties, isLoading, add, remove, isAdding, isRemoving } = useDealParties(dealId);
+  const { relationships } = useContactRelationships(mainContactId);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [contactId, setContactId] = useState('');
+  const [role, setRole] = useState<DealPartyRole>('co_acquereur');
+
+  const { data: contacts } = useOrgQuery<{ id: string; full_name: string }[]>('contacts', {
+    select: 'id, full_name',
+    orderBy: { column: 'full_name', ascending: true },
+  }, { enabled: isFormOpen });
+
+  const suggestions = mainContactId ? getDealPartySuggestions(relationships, mainContactId, parties) : [];
+
+  const handleAdd = async () => {
+    if (!contactId) return;
+    await add([{ contact_id: contactId, role }])
+      .then(() => {
+        setContactId('');
+        setIsFormOpen(false);
+      })
+      .catch(() => undefined);
+  };
+
+  return (
+    <Card className="border-white/10 bg-white/5 rounded-xl">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Users className="w-4 h-4 text-primary" />
+            Autres parties
+          </CardTitle>
+          <Button size="sm" variant="ghost" className="h-7 gap-1.5" onClick={() => setIsFormOpen(!isFormOpen)}>
+            {isFormOpen ? <X className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+            {isFormOpen ? 'Fermer' : 'Ajouter'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isFormOpen && (
+          <div className="grid grid-cols-[1fr_auto_auto] gap-2">
+            <Select value={contactId} onValueChange={setContactId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Contact…" />
+              </SelectTrigger>
+              <SelectContent>
+                {(contacts ?? [])
+                  .filter((c) => c.id !== mainContactId)
+                  .map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.full_name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Select value={role} onValueChange={(v) => setRole(v as DealPartyRole)}>
+              <SelectTrigger className="h-8 text-xs w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEAL_PARTY_ROLES.map((r) => (
+                  <SelectItem key={r} value={r}>
+                    {DEAL_PARTY_ROLE_LABELS[r]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" className="h-8" onClick={handleAdd} disabled={!contactId || isAdding}>
+              {isAdding ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : 'Ajouter'}
+            </Button>
+          </div>
+        )}
+
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {suggestions.map((s) => (
+              <Button
+                key={`${s.contact.id}-${s.role}`}
+                size="sm"
+                variant="outline"
+                className="h-7 gap-1.5 text-xs bg-white/5 border-white/10"
+                disabled={isAdding}
+                onClick={() => add([{ contact_id: s.contact.id, role: s.role }]).catch(() => undefined)}
+              >
+                <Sparkles className="w-3 h-3 text-purple-400" />
+                {s.contact.full_name} ({s.relationLabel.toLowerCase()}) → {DEAL_PARTY_ROLE_LABELS[s.role]}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground mx-auto" />
+        ) : parties.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Aucune autre partie.</p>
+        ) : (
+          <ul className="space-y-2">
+            {parties.map((party) => (
+              <li key={party.id} className="flex items-center gap-3 p-2 rounded-lg bg-white/5 border border-white/10">
+                <Badge variant="outline" className="shrink-0 text-[10px]">
+                  {DEAL_PARTY_ROLE_LABELS[party.role as DealPartyRole] ?? party.role}
+                </Badge>
+                <div className="flex-1 min-w-0">
+                  {party.contacts ? (
+                    <Link
+                      to={`/contacts/${party.contacts.id}`}
+                      className="text-sm font-medium truncate block hover:text-primary transition-colors"
+                    >
+                      {party.contacts.full_name}
+                    </Link>
+                  ) : (
+                    <span className="text-sm italic text-muted-foreground">contact supprimé</span>
+                  )}
+                  {party.contacts && (party.contacts.email || party.contacts.phone) && (
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[party.contacts.email, party.contacts.phone].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6 shrink-0 text-muted-foreground"
+                  disabled={isRemoving}
+                  onClick={() => remove(party.id).catch(() => undefined)}
+                  aria-label="Retirer la partie"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
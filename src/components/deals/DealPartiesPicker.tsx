@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Plus, Sparkles, Users, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useContactRelationships } from '@/hooks/useContactRelationships';
+import type { DealPartyDraft } from '@/hooks/useDealParties';
+import { DEAL_PARTY_ROLES, DEAL_PARTY_ROLE_LABELS, type DealPartyRole } from '@/lib/constants';
+import { getDealPartySuggestions } from '@/lib/contact-relationships';
+
+interface DealPartiesPickerProps {
+  mainContactId: string | undefined;
+  contacts: { id: string; full_name: string }[];
+  value: DealPartyDraft[];
+  onChange: (parties: DealPartyDraft[]) => void;
+}
+
+/**
+ * Extra parties of a deal being created. Relatives, notaire and banker of
+ * the selected main contact are offered in one click.
+ */
+export function DealPartiesPicker({ mainContactId, contacts, value, onChange }: DealPartiesPickerProps) {
+  const { relationships } = useContactRelationships(mainContactId);
+  const [contactId, setContactId] = useState('');
+  const [role, setRole] = useState<DealPartyRole>('co_acquereur');
+
+  const names = new Map(contacts.map((c) => [c.id, c.full_name]));
+  const suggestions = mainContactId ? getDealPartySuggestions(relationships, mainContactId, value) : [];
+
+  const addParty = (party: DealPartyDraft) => {
+    if (value.some((p) => p.contact_id === party.contact_id && p.role === party.role)) return;
+    onChange([...value, party]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-semibold text-white flex items-center gap-2">
+        <Users className="w-4 h-4 text-purple-400" />
+        Autres parties
+        <Badge variant="outline" className="text-xs ml-1 font-normal border-white/20 text-white/50">Optionnel</Badge>
+      </p>
+
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {suggestions.map((s) => (
+            <Button
+              key={`${s.contact.id}-${s.role}`}
+              type="button"
+              size="sm"
+              variant="outline"
+              className="h-7 gap-1.5 text-xs bg-white/5 border-white/20 text-white/80"
+              onClick={() => addParty({ contact_id: s.contact.id, role: s.role })}
+            >
+              <Sparkles className="w-3 h-3 text-purple-400" />
+              {s.contact.full_name} → {DEAL_PARTY_ROLE_LABELS[s.role]}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {value.length > 0 && (
+        <ul className="space-y-1.5">
+          {value.map((party) => (
+            <li
+              key={`${party.contact_id}-${party.role}`}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-sm text-white"
+            >
+              <Badge variant="outline" className="text-[10px] border-white/20 text-white/70">
+                {DEAL_PARTY_ROLE_LABELS[party.role]}
+              </Badge>
+              <span className="flex-1 truncate">{names.get(party.contact_id) ?? '—'}</span>
+              <button
+                type="button"
+                className="text-white/40 hover:text-white"
+                onClick={() => onChange(value.filter((p) => p !== party))}
+                aria-label="Retirer la partie"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-[1fr_auto_auto] gap-2">
+        <Select value={contactId} onValueChange={setContactId}>
+          <SelectTrigger className="h-9 bg-white/10 border-white/20 rounded-xl text-white text-xs">
+            <SelectValue placeholder="Contact…" />
+          </SelectTrigger>
+          <SelectContent>
+            {contacts
+              .filter((c) => c.id !== mainContactId)
+              .map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.full_name}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+        <Select value={role} onValueChange={(v) => setRole(v as DealPartyRole)}>
+          <SelectTrigger className="h-9 w-[140px] bg-white/10 border-white/20 rounded-xl text-white text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DEAL_PARTY_ROLES.map((r) => (
+              <SelectItem key={r} value={r}>
+                {DEAL_PARTY_ROLE_LABELS[r]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          className="h-9 w-9 bg-white/10 border-white/20"
+          disabled={!contactId}
+          onClick={() => {
+            addParty({ contact_id: contactId, role });
+            setContactId('');
+          }}
+          aria-label="Ajouter la partie"
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
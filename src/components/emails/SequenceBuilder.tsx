@@ -35,7 +35,8 @@ import {
   ArrowRight,
   Users,
   Loader2,
-  Save
+  Save,
+  Filter
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
@@ -43,6 +44,9 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useOrgQuery } from '@/hooks/useOrgQuery';
 import { useQueryClient } from '@tanstack/react-query';
+import { useContactSegments, useSegmentMembers } from '@/hooks/useContactSegments';
+import { getSegmentRules } from '@/lib/contact-segments';
+import { buildSequenceActivities, buildSequenceEnrollments } from '@/lib/sequence-enrollment';
 import {
   SEQUENCE_TEMPLATES,
   EMAIL_TEMPLATE_CATEGORY_LABELS,
@@ -79,6 +83,8 @@ export function SequenceBuilder({ onEnrollContact }: SequenceBuilderProps) {
   const [isCreating, setIsCreating] = useState(false);
   const [isEnrolling, setIsEnrolling] = useState(false);
   const [selectedContactId, setSelectedContactId] = useState<string>('');
+  const [enrollMode, setEnrollMode] = useState<'contact' | 'segment'>('contact');
+  const [selectedSegmentId, setSelectedSegmentId] = useState<string>('');
   
   // Form state
   const [sequenceName, setSequenceName] = useState('');
@@ -104,6 +110,15 @@ export function SequenceBuilder({ onEnrollContact }: SequenceBuilderProps) {
     orderBy: { column: 'full_name', ascending: true },
   });
 
+  // Segments for bulk enrollment, members evaluated when the dialog asks for them
+  const { segments } = useContactSegments();
+  const selectedSegment = segments.find((s) => s.id === selectedSegmentId) ?? null;
+  const { members: segmentMembers, isLoading: segmentMembersLoading } = useSegmentMembers(
+    selectedSegment ? getSegmentRules(selectedSegment) : null,
+    { enabled: showEnrollDialog && enrollMode === 'segment' }
+  );
+  const segmentRecipients = segmentMembers.filter((c) => !!c.email);
+
   // Apply template preset
   const handleApplyTemplate = (template: SequenceTemplate) => {
     setSequenceName(template.name);
@@ -265,6 +280,61 @@ export function SequenceBuilder({ onEnrollContact }: SequenceBuilderProps) {
     }
   };
 
+  // Enroll every segment member with an email, skipping those already enrolled
+  const handleEnrollSegment = async () => {
+    if (!selectedSequence || !selectedSegment) {
+      toast.error('Sélectionnez un segment');
+      return;
+    }
+    if (segmentRecipients.length === 0) {
+      toast.error('Aucun contact avec email dans ce segment');
+      return;
+    }
+
+    setIsEnrolling(true);
+    try {
+      const recipientIds = segmentRecipients.map((contact) => contact.id);
+
+      // Only the rows actually inserted come back, existing enrollments are left untouched
+      const { data: inserted, error } = await supabase
+        .from('sequence_enrollments')
+        .upsert(buildSequenceEnrollments(selectedSequence, recipientIds, organizationId!), {
+          onConflict: 'sequence_id,contact_id',
+          ignoreDuplicates: true,
+        })
+        .select('contact_id');
+      if (error) throw error;
+
+      const enrolledIds = (inserted ?? []).map((row) => row.contact_id);
+      if (enrolledIds.length > 0) {
+        const { error: activitiesError } = await supabase
+          .from('activities')
+          .insert(buildSequenceActivities(selectedSequence, enrolledIds, organizationId!));
+        if (activitiesError) console.error('Error creating sequence activities:', activitiesError);
+      }
+
+      const alreadyEnrolled = segmentRecipients.length - enrolledIds.length;
+      const withoutEmail = segmentMembers.length - segmentRecipients.length;
+      toast.success(`${enrolledIds.length} contact(s) inscrit(s) à la séquence`, {
+        description: [
+          alreadyEnrolled > 0 && `${alreadyEnrolled} déjà inscrit(s)`,
+          withoutEmail > 0 && `${withoutEmail} sans email`,
+        ].filter(Boolean).join(' · ') || undefined,
+      });
+      setShowEnrollDialog(false);
+      setSelectedSegmentId('');
+
+      if (onEnrollContact) {
+        enrolledIds.forEach((contactId) => onEnrollContact(selectedSequence.id, contactId));
+      }
+    } catch (err) {
+      console.error('Error enrolling segment:', err);
+      toast.error('Erreur lors de l\'inscription');
+    } finally {
+      setIsEnrolling(false);
+    }
+  };
+
   // Toggle sequence active status
   const toggleSequenceActive = async (sequence: EmailSequence) => {
     try {
@@ -679,27 +749,70 @@ export function SequenceBuilder({ onEnrollContact }: SequenceBuilderProps) {
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Users className="w-5 h-5 text-purple-400" />
-              Inscrire un contact
+              Inscrire des contacts
             </DialogTitle>
             <DialogDescription>
-              Sélectionnez un contact à inscrire dans la séquence "{selectedSequence?.name}"
+              Sélectionnez un contact ou un segment à inscrire dans la séquence "{selectedSequence?.name}"
             </DialogDescription>
           </DialogHeader>
 
           <div className="space-y-4 mt-4">
-            <Select value={selectedContactId} onValueChange={setSelectedContactId}>
-              <SelectTrigger>
-                <SelectValue placeholder="Sélectionner un contact" />
-              </SelectTrigger>
-              <SelectContent>
-                {contacts?.map((contact) => (
-                  <SelectItem key={contact.id} value={contact.id}>
-                    {contact.full_name}
-                    {contact.email && ` (${contact.email})`}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant={enrollMode === 'contact' ? 'default' : 'outline'}
+                onClick={() => setEnrollMode('contact')}
+              >
+                <Users className="w-4 h-4 mr-2" />
+                Un contact
+              </Button>
+              <Button
+                size="sm"
+                variant={enrollMode === 'segment' ? 'default' : 'outline'}
+                onClick={() => setEnrollMode('segment')}
+              >
+                <Filter className="w-4 h-4 mr-2" />
+                Un segment
+              </Button>
+            </div>
+
+            {enrollMode === 'contact' ? (
+              <Select value={selectedContactId} onValueChange={setSelectedContactId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Sélectionner un contact" />
+                </SelectTrigger>
+                <SelectContent>
+                  {contacts?.map((contact) => (
+                    <SelectItem key={contact.id} value={contact.id}>
+                      {contact.full_name}
+                      {contact.email && ` (${contact.email})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <div className="space-y-2">
+                <Select value={selectedSegmentId} onValueChange={setSelectedSegmentId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={segments.length ? 'Sélectionner un segment' : 'Aucun segment enregistré'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {segments.map((segment) => (
+                      <SelectItem key={segment.id} value={segment.id}>
+                        {segment.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedSegment && (
+                  <p className="text-sm text-muted-foreground">
+                    {segmentMembersLoading
+                      ? 'Calcul des contacts…'
+                      : `${segmentRecipients.length} contact(s) avec email sur ${segmentMembers.length} dans le segment`}
+                  </p>
+                )}
+              </div>
+            )}
 
             {selectedSequence && (
               <div className="p-3 bg-muted/30 rounded-lg text-sm">
@@ -723,12 +836,18 @@ export function SequenceBuilder({ onEnrollContact }: SequenceBuilderProps) {
             <Button variant="ghost" onClick={() => {
               setShowEnrollDialog(false);
               setSelectedContactId('');
+              setSelectedSegmentId('');
             }}>
               Annuler
             </Button>
             <Button
-              onClick={handleEnrollContact}
-              disabled={!selectedContactId || isEnrolling}
+              onClick={enrollMode === 'segment' ? handleEnrollSegment : handleEnrollContact}
+              disabled={
+                isEnrolling ||
+                (enrollMode === 'segment'
+                  ? !selectedSegment || segmentMembersLoading || segmentRecipients.length === 0
+                  : !selectedContactId)
+              }
               className="bg-gradient-to-r from-purple-500 to-blue-500"
             >
               {isEnrolling ? (
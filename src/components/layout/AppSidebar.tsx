@@ -10,6 +10,7 @@ import {
   Settings,
   LogOut,
   Building2,
+  Key,
 } from 'lucide-react';
 import {
   Sidebar,
@@ -30,6 +31,7 @@ const navigation = [
   { name: 'Tableau de bord', href: '/dashboard', icon: LayoutDashboard, className: 'sidebar-dashboard' },
   { name: 'Contacts', href: '/leads', icon: Users, className: 'sidebar-contacts' },
   { name: 'Biens', href: '/properties', icon: Home, className: 'sidebar-properties' },
+  { name: 'Mandats', href: '/mandates', icon: Key, className: 'sidebar-mandates' },
   { name: 'Pipeline', href: '/deals', icon: TrendingUp, className: 'sidebar-deals' },
   { name: 'Activités', href: '/activities', icon: CheckSquare, className: 'sidebar-activities' },
   { name: 'Emails IA', href: '/emails-ia', icon: Mail, className: 'sidebar-emails' },
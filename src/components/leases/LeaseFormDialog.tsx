@@ -0,0 +1,353 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { FileSignature, Loader2 } from 'lucide-react';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useLeases, type LeaseWithParties } from '@/hooks/useLeases';
+import { formatCurrency } from '@/lib/formatters';
+import { getDefaultIndexationDate, getDefaultLeaseEndDate, getMaxDeposit } from '@/lib/rental';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Property = Tables<'properties'>;
+type Contact = Pick<Tables<'contacts'>, 'id' | 'full_name' | 'role'>;
+
+const leaseSchema = z
+  .object({
+    tenant_id: z.string().uuid('Sélectionnez le locataire'),
+    owner_id: z.string().uuid().nullable(),
+    is_furnished: z.boolean(),
+    start_date: z.string().min(1, 'Date de début requise'),
+    end_date: z.string().min(1, 'Date de fin requise'),
+    rent_amount: z.coerce.number().min(0, 'Loyer invalide'),
+    charges_amount: z.coerce.number().min(0).optional().nullable(),
+    deposit_amount: z.coerce.number().min(0).optional().nullable(),
+    indexation_date: z.string().optional(),
+    irl_reference: z.string().max(20).optional(),
+    notes: z.string().max(500).optional(),
+  })
+  .refine((v) => v.end_date > v.start_date, {
+    message: 'La date de fin doit suivre la date de début',
+    path: ['end_date'],
+  });
+
+type LeaseFormValues = z.infer<typeof leaseSchema>;
+
+interface LeaseFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  property: Property;
+  lease?: LeaseWithParties | null;
+}
+
+export function LeaseFormDialog({ open, onOpenChange, property, lease }: LeaseFormDialogProps) {
+  const { create, update, isCreating, isUpdating } = useLeases(property.id);
+  const isEdit = !!lease;
+
+  const { data: contacts } = useOrgQuery<Contact[]>('contacts', {
+    select: 'id, full_name, role',
+    orderBy: { column: 'full_name', ascending: true },
+  }, { enabled: open });
+
+  // Tenants first in the tenant picker
+  const tenantOptions = [...(contacts ?? [])].sort(
+    (a, b) => Number(b.role === 'locataire') - Number(a.role === 'locataire')
+  );
+
+  const form = useForm<LeaseFormValues>({
+    resolver: zodResolver(leaseSchema),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    if (lease) {
+      form.reset({
+        tenant_id: lease.tenant_id ?? '',
+        owner_id: lease.owner_id,
+        is_furnished: lease.is_furnished,
+        start_date: lease.start_date,
+        end_date: lease.end_date,
+        rent_amount: lease.rent_amount,
+        charges_amount: lease.charges_amount,
+        deposit_amount: lease.deposit_amount,
+        indexation_date: lease.indexation_date ?? '',
+        irl_reference: lease.irl_reference ?? '',
+        notes: lease.notes ?? '',
+      });
+      return;
+    }
+    // New lease: start from the listing terms
+    const start = format(new Date(), 'yyyy-MM-dd');
+    form.reset({
+      tenant_id: '',
+      owner_id: property.contact_id,
+      is_furnished: property.is_furnished,
+      start_date: start,
+      end_date: getDefaultLeaseEndDate(start, property.is_furnished),
+      rent_amount: property.price ?? 0,
+      charges_amount: property.rent_charges,
+      deposit_amount: property.security_deposit,
+      indexation_date: getDefaultIndexationDate(start),
+      irl_reference: '',
+      notes: '',
+    });
+  }, [open, lease, property, form]);
+
+  // Keep the legal duration in sync while the lease is being drafted
+  const syncDates = (start: string, furnished: boolean) => {
+    if (isEdit || !start) return;
+    form.setValue('end_date', getDefaultLeaseEndDate(start, furnished));
+    form.setValue('indexation_date', getDefaultIndexationDate(start));
+  };
+
+  const rent = form.watch('rent_amount');
+  const furnished = form.watch('is_furnished');
+  const deposit = form.watch('deposit_amount');
+  const maxDeposit = rent ? getMaxDeposit(Number(rent), furnished) : null;
+
+  const onSubmit = async (values: LeaseFormValues) => {
+    const payload = {
+      tenant_id: values.tenant_id,
+      owner_id: values.owner_id,
+      is_furnished: values.is_furnished,
+      start_date: values.start_date,
+      end_date: values.end_date,
+      rent_amount: values.rent_amount,
+      charges_amount: values.charges_amount ?? null,
+      deposit_amount: values.deposit_amount ?? null,
+      indexation_date: values.indexation_date || null,
+      irl_reference: values.irl_reference || null,
+      notes: values.notes || null,
+    };
+    if (lease) {
+      await update({ id: lease.id, ...payload });
+    } else {
+      await create({ property_id: property.id, ...payload });
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSignature className="w-5 h-5 text-blue-400" />
+            {isEdit ? 'Modifier le bail' : 'Nouveau bail'}
+          </DialogTitle>
+          <DialogDescription>{property.title}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="tenant_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Locataire *</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value || undefined}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Sélectionner un contact" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {tenantOptions.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>
+                          {c.full_name}{c.role === 'locataire' ? ' (locataire)' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="owner_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Bailleur</FormLabel>
+                  <Select onValueChange={(v) => field.onChange(v === 'none' ? null : v)} value={field.value ?? 'none'}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Non renseigné</SelectItem>
+                      {contacts?.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>{c.full_name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="is_furnished"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border border-white/10 px-3 py-2">
+                  <FormLabel className="!mt-0">Location meublée</FormLabel>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={(checked) => {
+                        field.onChange(checked);
+                        syncDates(form.getValues('start_date'), checked);
+                      }}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="start_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date d'effet *</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        {...field}
+                        onChange={(e) => {
+                          field.onChange(e.target.value);
+                          syncDates(e.target.value, form.getValues('is_furnished'));
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="end_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date de fin *</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="rent_amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Loyer HC (€) *</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="charges_amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Charges (€)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="deposit_amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Dépôt (€)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+            {maxDeposit !== null && deposit != null && Number(deposit) > maxDeposit && (
+              <p className="text-xs text-amber-400 -mt-2">
+                Dépôt de garantie supérieur au maximum légal ({formatCurrency(maxDeposit)}, {furnished ? '2 mois' : '1 mois'} de loyer HC).
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="indexation_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Prochaine révision</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="irl_reference"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Trimestre IRL</FormLabel>
+                    <FormControl>
+                      <Input placeholder="T2 2025" {...field} />
+                    </FormControl>
+                    <FormDescription className="text-xs">Indice de référence des loyers</FormDescription>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Observations</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <Button
+              type="submit"
+              disabled={isCreating || isUpdating}
+              className="w-full bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
+            >
+              {(isCreating || isUpdating) && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {isEdit ? 'Enregistrer' : 'Créer le bail'}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,322 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { addMonths, format } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Key, Loader2 } from 'lucide-react';
+import { useMandates } from '@/hooks/useMandates';
+import { MANDATE_TYPES, MANDATE_TYPE_LABELS } from '@/lib/constants';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Property = Pick<Tables<'properties'>, 'id' | 'title' | 'address' | 'city' | 'price' | 'contact_id' | 'mandate_number'>;
+type Contact = Pick<Tables<'contacts'>, 'id' | 'full_name'>;
+
+const mandateSchema = z
+  .object({
+    property_id: z.string().uuid('Sélectionnez un bien'),
+    contact_id: z.string().uuid().nullable(),
+    mandate_type: z.enum(MANDATE_TYPES),
+    start_date: z.string().min(1, 'Date de début requise'),
+    end_date: z.string().optional(),
+    tacit_renewal: z.boolean(),
+    notice_period_days: z.coerce.number().int().min(0).optional().nullable(),
+    renewal_terms: z.string().max(300).optional(),
+    price: z.coerce.number().min(0).optional().nullable(),
+    fees: z.coerce.number().min(0).optional().nullable(),
+    notes: z.string().max(500).optional(),
+  })
+  .refine((v) => !v.end_date || v.end_date >= v.start_date, {
+    message: 'La date de fin doit suivre la date de début',
+    path: ['end_date'],
+  });
+
+type MandateFormValues = z.infer<typeof mandateSchema>;
+
+// Exclusive mandates are usually signed for 3 months, others for 12
+const DEFAULT_DURATION_MONTHS: Record<string, number> = {
+  exclusif: 3,
+  semi_exclusif: 3,
+  simple: 12,
+  recherche: 12,
+};
+
+interface MandateFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  properties: Property[] | undefined;
+  contacts: Contact[] | undefined;
+  defaultPropertyId?: string | null;
+}
+
+export function MandateFormDialog({ open, onOpenChange, properties, contacts, defaultPropertyId }: MandateFormDialogProps) {
+  const { register, isRegistering } = useMandates();
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const form = useForm<MandateFormValues>({
+    resolver: zodResolver(mandateSchema),
+    defaultValues: {
+      property_id: defaultPropertyId ?? '',
+      contact_id: null,
+      mandate_type: 'exclusif',
+      start_date: today,
+      end_date: format(addMonths(new Date(), DEFAULT_DURATION_MONTHS.exclusif), 'yyyy-MM-dd'),
+      tacit_renewal: true,
+      notice_period_days: 15,
+      renewal_terms: '',
+      price: null,
+      fees: null,
+      notes: '',
+    },
+  });
+
+  // Prefill the mandator and price from the selected property
+  const propertyId = form.watch('property_id');
+  useEffect(() => {
+    const property = properties?.find((p) => p.id === propertyId);
+    if (!property) return;
+    if (property.contact_id && !form.getValues('contact_id')) form.setValue('contact_id', property.contact_id);
+    if (property.price && !form.getValues('price')) form.setValue('price', property.price);
+  }, [propertyId, properties, form]);
+
+  const handleTypeChange = (type: MandateFormValues['mandate_type']) => {
+    form.setValue('mandate_type', type);
+    const start = form.getValues('start_date');
+    if (start) {
+      form.setValue('end_date', format(addMonths(new Date(start), DEFAULT_DURATION_MONTHS[type]), 'yyyy-MM-dd'));
+    }
+  };
+
+  const onSubmit = async (values: MandateFormValues) => {
+    await register({
+      property_id: values.property_id,
+      contact_id: values.contact_id,
+      mandate_type: values.mandate_type,
+      start_date: values.start_date,
+      end_date: values.end_date || null,
+      tacit_renewal: values.tacit_renewal,
+      notice_period_days: values.notice_period_days ?? null,
+      renewal_terms: values.renewal_terms || null,
+      price: values.price ?? null,
+      fees: values.fees ?? null,
+      notes: values.notes || null,
+    });
+    form.reset();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Key className="w-5 h-5 text-blue-400" />
+            Enregistrer un mandat
+          </DialogTitle>
+          <DialogDescription>
+            Le numéro est attribué automatiquement à la suite du registre et ne pourra plus être modifié.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="property_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Bien *</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Sélectionner un bien" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {properties?.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>
+                          {p.title || p.address}{p.city ? ` — ${p.city}` : ''}
+                          {p.mandate_number ? ` (mandat n°${p.mandate_number})` : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="contact_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mandant</FormLabel>
+                  <Select onValueChange={(v) => field.onChange(v === 'none' ? null : v)} value={field.value ?? 'none'}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Non renseigné</SelectItem>
+                      {contacts?.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>{c.full_name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="mandate_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type de mandat *</FormLabel>
+                  <Select onValueChange={(v) => handleTypeChange(v as MandateFormValues['mandate_type'])} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {MANDATE_TYPES.map((t) => (
+                        <SelectItem key={t} value={t}>{MANDATE_TYPE_LABELS[t]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="start_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date de début *</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="end_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date de fin</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <FormField
+                control={form.control}
+                name="tacit_renewal"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border border-white/10 px-3 py-2">
+                    <FormLabel className="!mt-0">Tacite reconduction</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="notice_period_days"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Préavis (jours)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="renewal_terms"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Conditions de reconduction</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex : reconduction par période de 3 mois, 12 mois maximum" {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Prix (€)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="fees"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Honoraires (€ TTC)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Observations</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <Button
+              type="submit"
+              disabled={isRegistering}
+              className="w-full bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
+            >
+              {isRegistering && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Enregistrer au registre
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
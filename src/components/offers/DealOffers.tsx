@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ArrowDownRight, ArrowUpRight, Check, HandCoins, Plus, Repeat, Trash2, X } from 'lucide-react';
+import { OfferFormDialog } from '@/components/offers/OfferFormDialog';
+import { useOffers, type OfferWithBuyer } from '@/hooks/useOffers';
+import { formatCurrency, formatShortDate } from '@/lib/formatters';
+import { buildOfferChains, getOfferGap, isOfferExpired } from '@/lib/offers';
+import { OFFER_STATUS_LABELS, type OfferStatus } from '@/lib/constants';
+
+interface DealOffersProps {
+  dealId: string;
+  propertyId: string | null;
+  askingPrice: number | null;
+}
+
+const STATUS_BADGE: Record<OfferStatus, string> = {
+  pending: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  accepted: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+  refused: 'bg-red-500/20 text-red-400 border-red-500/30',
+  countered: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+};
+
+function OfferConditions({ offer }: { offer: OfferWithBuyer }) {
+  const items = [
+    offer.loan_condition
+      ? `Prêt${offer.loan_amount ? ` de ${formatCurrency(offer.loan_amount)}` : ''}${offer.loan_deadline ? ` avant le ${formatShortDate(offer.loan_deadline)}` : ''}`
+      : 'Sans condition de prêt',
+    offer.signing_deadline ? `Compromis avant le ${formatShortDate(offer.signing_deadline)}` : null,
+    offer.valid_until ? `Valable jusqu'au ${formatShortDate(offer.valid_until)}` : null,
+  ].filter(Boolean);
+
+  return (
+    <div className="text-xs text-muted-foreground space-y-0.5">
+      <p>{items.join(' · ')}</p>
+      {offer.conditions && <p className="italic">{offer.conditions}</p>}
+    </div>
+  );
+}
+
+/**
+ * "Offres" tab of a deal: each negotiation chain (offer, counter-offers)
+ * with accept / counter / refuse on its latest pending offer.
+ */
+export function DealOffers({ dealId, propertyId, askingPrice }: DealOffersProps) {
+  const { offers, isLoading, accept, refuse, delete: deleteOffer, isResponding } = useOffers(dealId);
+  const [formOpen, setFormOpen] = useState(false);
+  const [counterTo, setCounterTo] = useState<OfferWithBuyer | null>(null);
+
+  const chains = buildOfferChains(offers);
+  const hasAccepted = offers.some((offer) => offer.status === 'accepted');
+
+  const openForm = (offer: OfferWithBuyer | null) => {
+    setCounterTo(offer);
+    setFormOpen(true);
+  };
+
+  return (
+    <Card className="border-white/10 bg-white/5 rounded-xl">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base flex items-center gap-2">
+          <HandCoins className="w-4 h-4 text-blue-400" />
+          Offres
+        </CardTitle>
+        <Button variant="ghost" size="sm" className="gap-1" onClick={() => openForm(null)} disabled={hasAccepted}>
+          <Plus className="w-4 h-4" />
+          Nouvelle offre
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : chains.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <HandCoins className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            <p className="text-sm">Aucune offre enregistrée</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {chains.map((chain) => (
+              <div key={chain.root.id} className="rounded-lg border border-white/10 bg-white/[0.03] p-3 space-y-3">
+                <p className="text-sm font-medium">{chain.root.contacts?.full_name ?? 'Acquéreur'}</p>
+
+                {chain.offers.map((offer) => {
+                  const status = offer.status as OfferStatus;
+                  const expired = isOfferExpired(offer);
+                  const gap = getOfferGap(offer.amount, askingPrice);
+                  const isLatest = offer.id === chain.latest.id;
+                  const fromBuyer = offer.direction === 'buyer';
+
+                  return (
+                    <div key={offer.id} className="flex gap-3 border-l-2 border-white/10 pl-3">
+                      {fromBuyer
+                        ? <ArrowUpRight className="w-4 h-4 text-blue-400 shrink-0 mt-0.5" />
+                        : <ArrowDownRight className="w-4 h-4 text-purple-400 shrink-0 mt-0.5" />}
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-mono font-semibold">{formatCurrency(offer.amount)}</span>
+                          {gap !== null && gap !== 0 && (
+                            <span className={`text-xs ${gap < 0 ? 'text-amber-400' : 'text-emerald-400'}`}>
+                              {gap > 0 ? '+' : ''}{gap} %
+                            </span>
+                          )}
+                          <Badge className={`text-xs border ${STATUS_BADGE[status]}`}>
+                            {expired ? 'Expirée' : OFFER_STATUS_LABELS[status]}
+                          </Badge>
+                          <span className="text-xs text-muted-foreground">
+                            {fromBuyer ? 'Acquéreur' : 'Vendeur'} · {formatShortDate(offer.offered_at)}
+                          </span>
+                        </div>
+                        <OfferConditions offer={offer} />
+
+                        {isLatest && status === 'pending' && (
+                          <div className="flex flex-wrap gap-2 pt-1">
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  className="gap-1.5 h-7"
+                                  disabled={isResponding || expired}
+                                  title={expired ? 'Offre expirée : elle ne peut plus être acceptée' : undefined}
+                                >
+                                  <Check className="w-3.5 h-3.5" />
+                                  Accepter
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Accepter l'offre de {formatCurrency(offer.amount)} ?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Le montant de l'opportunité sera mis à jour et elle passera au stade Compromis.
+                                    Les autres offres en attente seront refusées.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Annuler</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => accept(offer.id)}>Accepter</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                            <Button size="sm" variant="ghost" className="gap-1.5 h-7" onClick={() => openForm(offer)}>
+                              <Repeat className="w-3.5 h-3.5" />
+                              Contre-offre
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="gap-1.5 h-7 text-muted-foreground hover:text-destructive"
+                              disabled={isResponding}
+                              onClick={() => refuse(offer.id)}
+                            >
+                              <X className="w-3.5 h-3.5" />
+                              Refuser
+                            </Button>
+                            {offer.id === chain.root.id && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                                aria-label="Supprimer l'offre"
+                                onClick={() => deleteOffer(offer.id)}
+                              >
+                                <Trash2 className="w-3.5 h-3.5" />
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <OfferFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        dealId={dealId}
+        propertyId={propertyId}
+        askingPrice={askingPrice}
+        counterTo={counterTo}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,289 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { HandCoins, Loader2 } from 'lucide-react';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useOffers } from '@/hooks/useOffers';
+import { formatCurrency } from '@/lib/formatters';
+import { getOfferGap, type Offer } from '@/lib/offers';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Contact = Pick<Tables<'contacts'>, 'id' | 'full_name' | 'role'>;
+
+const offerSchema = z
+  .object({
+    contact_id: z.string().uuid('Sélectionnez l\'acquéreur'),
+    amount: z.coerce.number().positive('Montant invalide'),
+    offered_at: z.string().min(1, 'Date requise'),
+    valid_until: z.string().optional(),
+    loan_condition: z.boolean(),
+    loan_amount: z.coerce.number().min(0).optional().nullable(),
+    loan_deadline: z.string().optional(),
+    signing_deadline: z.string().optional(),
+    conditions: z.string().max(1000).optional(),
+  })
+  .refine((v) => !v.valid_until || v.valid_until >= v.offered_at, {
+    message: "La validité doit suivre la date de l'offre",
+    path: ['valid_until'],
+  });
+
+type OfferFormValues = z.infer<typeof offerSchema>;
+
+interface OfferFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  dealId: string;
+  propertyId: string | null;
+  askingPrice: number | null;
+  /** Offer being answered: the dialog then records a counter-offer */
+  counterTo?: Offer | null;
+}
+
+export function OfferFormDialog({
+  open,
+  onOpenChange,
+  dealId,
+  propertyId,
+  askingPrice,
+  counterTo,
+}: OfferFormDialogProps) {
+  const { create, counter, isCreating } = useOffers(dealId);
+  const isCounter = !!counterTo;
+
+  const { data: contacts } = useOrgQuery<Contact[]>('contacts', {
+    select: 'id, full_name, role',
+    orderBy: { column: 'full_name', ascending: true },
+  }, { enabled: open });
+
+  // Buyers first in the picker
+  const buyerOptions = [...(contacts ?? [])].sort(
+    (a, b) => Number(b.role === 'acheteur') - Number(a.role === 'acheteur')
+  );
+
+  const form = useForm<OfferFormValues>({
+    resolver: zodResolver(offerSchema),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    // A counter-offer starts from the terms it answers
+    form.reset({
+      contact_id: counterTo?.contact_id ?? '',
+      amount: counterTo?.amount ?? askingPrice ?? 0,
+      offered_at: format(new Date(), 'yyyy-MM-dd'),
+      valid_until: '',
+      loan_condition: counterTo?.loan_condition ?? false,
+      loan_amount: counterTo?.loan_amount ?? null,
+      loan_deadline: counterTo?.loan_deadline ?? '',
+      signing_deadline: counterTo?.signing_deadline ?? '',
+      conditions: counterTo?.conditions ?? '',
+    });
+  }, [open, counterTo, askingPrice, form]);
+
+  const amount = form.watch('amount');
+  const loanCondition = form.watch('loan_condition');
+  const gap = amount ? getOfferGap(Number(amount), askingPrice) : null;
+
+  const onSubmit = async (values: OfferFormValues) => {
+    const payload = {
+      contact_id: values.contact_id,
+      property_id: propertyId,
+      amount: values.amount,
+      offered_at: values.offered_at,
+      valid_until: values.valid_until || null,
+      loan_condition: values.loan_condition,
+      loan_amount: values.loan_condition ? values.loan_amount ?? null : null,
+      loan_deadline: values.loan_condition ? values.loan_deadline || null : null,
+      signing_deadline: values.signing_deadline || null,
+      conditions: values.conditions || null,
+    };
+    if (counterTo) {
+      await counter({ offer: counterTo, values: payload });
+    } else {
+      await create({ ...payload, direction: 'buyer' });
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HandCoins className="w-5 h-5 text-blue-400" />
+            {isCounter ? 'Contre-offre' : 'Nouvelle offre'}
+          </DialogTitle>
+          <DialogDescription>
+            {isCounter
+              ? `En réponse à l'offre de ${formatCurrency(counterTo.amount)} (${counterTo.direction === 'buyer' ? 'acquéreur' : 'vendeur'})`
+              : "Offre d'achat de l'acquéreur"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="contact_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Acquéreur *</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value || undefined} disabled={isCounter}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Sélectionner un contact" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {buyerOptions.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>
+                          {c.full_name}{c.role === 'acheteur' ? ' (acheteur)' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Montant (€) *</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="offered_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date *</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {gap !== null && (
+              <p className="text-xs text-muted-foreground -mt-2">
+                {gap === 0 ? 'Au prix affiché' : `${gap > 0 ? '+' : ''}${gap} % par rapport au prix affiché (${formatCurrency(askingPrice ?? 0)})`}
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="valid_until"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valable jusqu'au</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="signing_deadline"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Signature du compromis avant le</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="loan_condition"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border border-white/10 px-3 py-2">
+                  <FormLabel className="!mt-0">Condition suspensive de prêt</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {loanCondition && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="loan_amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Montant du prêt (€)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} value={field.value ?? ''} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="loan_deadline"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Obtention du prêt avant le</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="conditions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Autres conditions</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder="Vente du bien actuel, travaux, date de jouissance..." {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <Button
+              type="submit"
+              disabled={isCreating}
+              className="w-full bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
+            >
+              {isCreating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {isCounter ? 'Enregistrer la contre-offre' : "Enregistrer l'offre"}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
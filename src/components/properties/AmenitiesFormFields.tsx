@@ -0,0 +1,98 @@
+import { useFormContext } from 'react-hook-form';
+import { FormField, FormItem, FormLabel } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import {
+  AMENITIES,
+  AMENITY_LABELS,
+  EXPOSURES,
+  EXPOSURE_LABELS,
+  PROPERTY_VIEWS,
+  PROPERTY_VIEW_LABELS,
+} from '@/lib/constants';
+import type { PropertyFeatures } from '@/lib/amenities';
+
+const premiumSelectTriggerClass = "bg-white/10 hover:bg-white/15 border border-white/20 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/50 text-white transition-all duration-200 rounded-xl";
+
+// Amenity fields shared by the property create and edit forms
+interface AmenitiesFormValues {
+  features: PropertyFeatures;
+}
+
+const NONE = 'none';
+
+/**
+ * Prestations section of the property forms (properties.features).
+ * Must be rendered inside the form's <Form> provider.
+ */
+export function AmenitiesFormFields() {
+  const form = useFormContext<AmenitiesFormValues>();
+
+  return (
+    <FormField
+      control={form.control}
+      name="features"
+      render={({ field }) => {
+        const features = field.value ?? {};
+        const set = (patch: PropertyFeatures) => field.onChange({ ...features, ...patch });
+
+        return (
+          <FormItem className="space-y-3">
+            <FormLabel className="text-white font-semibold">Prestations</FormLabel>
+            <div className="flex flex-wrap gap-2">
+              {AMENITIES.map((amenity) => (
+                <button
+                  key={amenity}
+                  type="button"
+                  onClick={() => set({ [amenity]: !features[amenity] })}
+                  className={cn(
+                    'px-3 py-1.5 rounded-full border text-xs transition-colors',
+                    features[amenity]
+                      ? 'bg-blue-500/20 border-blue-500/50 text-blue-300'
+                      : 'bg-white/5 border-white/10 text-muted-foreground hover:bg-white/10'
+                  )}
+                >
+                  {AMENITY_LABELS[amenity]}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <Select
+                value={features.exposure ?? NONE}
+                onValueChange={(val) => set({ exposure: val === NONE ? null : (val as PropertyFeatures['exposure']) })}
+              >
+                <SelectTrigger className={premiumSelectTriggerClass}>
+                  <SelectValue placeholder="Exposition" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Exposition non renseignée</SelectItem>
+                  {EXPOSURES.map((exposure) => (
+                    <SelectItem key={exposure} value={exposure}>
+                      Exposition {EXPOSURE_LABELS[exposure]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={features.view ?? NONE}
+                onValueChange={(val) => set({ view: val === NONE ? null : (val as PropertyFeatures['view']) })}
+              >
+                <SelectTrigger className={premiumSelectTriggerClass}>
+                  <SelectValue placeholder="Vue" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Pas de vue particulière</SelectItem>
+                  {PROPERTY_VIEWS.map((view) => (
+                    <SelectItem key={view} value={view}>
+                      {PROPERTY_VIEW_LABELS[view]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </FormItem>
+        );
+      }}
+    />
+  );
+}
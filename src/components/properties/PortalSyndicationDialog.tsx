@@ -0,0 +1,315 @@
+import { useState, useMemo, useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Share2, Download, FileCode, Copy, Check, AlertTriangle, CheckCircle2, KeyRound, Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/hooks/useOrganization';
+import { useRole } from '@/hooks/useRole';
+import { buildPortalReport } from '@/lib/portal-syndication';
+import { formatCurrency } from '@/lib/formatters';
+import { downloadBlob } from '@/lib/export-utils';
+import type { Tables, Json } from '@/integrations/supabase/types';
+import type { OrgSettings } from '@/types/settings';
+
+type Property = Tables<'properties'>;
+
+interface PortalSyndicationDialogProps {
+  properties: Property[] | undefined;
+}
+
+export function PortalSyndicationDialog({ properties }: PortalSyndicationDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const { user, organizationId } = useAuth();
+  const { canManageTeam } = useRole();
+  const { data: organization } = useOrganization();
+  const queryClient = useQueryClient();
+
+  const report = useMemo(() => buildPortalReport(properties ?? []), [properties]);
+  const settings = organization?.settings as unknown as OrgSettings | null;
+  const feedToken = settings?.portals?.feed_token;
+  const agencyCode = settings?.portals?.agency_code;
+  const [agencyCodeDraft, setAgencyCodeDraft] = useState('');
+
+  useEffect(() => {
+    setAgencyCodeDraft(agencyCode ?? '');
+  }, [agencyCode]);
+  const feedUrl = feedToken
+    ? `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/export-portal-feed?org=${organizationId}&token=${feedToken}`
+    : null;
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, publish }: { id: string; publish: boolean }) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+      const { error } = await supabase
+        .from('properties')
+        .update({ publish_to_portals: publish })
+        .eq('id', id)
+        .eq('organization_id', organizationId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['properties', organizationId] });
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de la mise à jour', { description: error.message });
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: 'zip' | 'xml') => {
+      const { data, error } = await supabase.functions.invoke('export-portal-feed', {
+        body: { format },
+      });
+      if (error) throw error;
+      if (!(data instanceof Blob)) throw new Error(data?.error || 'Export impossible');
+      return { blob: data, format };
+    },
+    onSuccess: ({ blob, format }) => {
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(blob, format === 'zip' ? `poliris-${date}.zip` : `annonces-${date}.xml`);
+      toast.success(`${report.ready} annonce(s) exportée(s)`);
+    },
+    onError: (error) => {
+      toast.error("Erreur lors de l'export", { description: error.message });
+    },
+  });
+
+  const tokenMutation = useMutation({
+    mutationFn: async () => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+      const newSettings: OrgSettings = {
+        ...settings,
+        portals: { ...settings?.portals, feed_token: crypto.randomUUID().replace(/-/g, '') },
+      };
+      const { error } = await supabase
+        .from('organizations')
+        .update({ settings: newSettings as unknown as Json })
+        .eq('id', organizationId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['organization', user?.id] });
+      toast.success(feedToken ? 'Nouvelle URL de flux générée' : 'Flux XML activé');
+    },
+    onError: (error) => {
+      toast.error('Erreur', { description: error.message });
+    },
+  });
+
+  const agencyCodeMutation = useMutation({
+    mutationFn: async (code: string) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+      const newSettings: OrgSettings = {
+        ...settings,
+        portals: { ...settings?.portals, agency_code: code || undefined },
+      };
+      const { error } = await supabase
+        .from('organizations')
+        .update({ settings: newSettings as unknown as Json })
+        .eq('id', organizationId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['organization', user?.id] });
+      toast.success('Code agence enregistré');
+    },
+    onError: (error) => {
+      toast.error('Erreur', { description: error.message });
+    },
+  });
+
+  const handleCopyFeed = () => {
+    if (!feedUrl) return;
+    navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    toast.success('URL du flux copiée');
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Share2 className="w-4 h-4" />
+          Diffusion portails
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="w-5 h-5 text-blue-400" />
+            Diffusion SeLoger / portails
+          </DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Seuls les biens disponibles, cochés et complets sont exportés.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Summary */}
+        <div className="grid grid-cols-3 gap-3">
+          <Card className="glass border-white/10">
+            <CardContent className="p-4 text-center">
+              <p className="text-2xl font-bold text-blue-400">{report.published}</p>
+              <p className="text-xs text-muted-foreground">Biens cochés</p>
+            </CardContent>
+          </Card>
+          <Card className="glass border-white/10">
+            <CardContent className="p-4 text-center">
+              <p className="text-2xl font-bold text-emerald-400">{report.ready}</p>
+              <p className="text-xs text-muted-foreground">Prêts à diffuser</p>
+            </CardContent>
+          </Card>
+          <Card className="glass border-white/10">
+            <CardContent className="p-4 text-center">
+              <p className="text-2xl font-bold text-amber-400">{report.blocked}</p>
+              <p className="text-xs text-muted-foreground">Incomplets</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Validation report */}
+        <ScrollArea className="flex-1 min-h-0 max-h-[40vh] pr-3">
+          {report.results.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              Aucun bien disponible à diffuser.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {report.results.map(({ property, valid, issues }) => (
+                <div
+                  key={property.id}
+                  className="flex items-start gap-3 p-3 rounded-lg bg-white/5 border border-white/10"
+                >
+                  <Switch
+                    checked={property.publish_to_portals}
+                    onCheckedChange={(checked) => toggleMutation.mutate({ id: property.id, publish: checked })}
+                    aria-label="Diffuser sur les portails"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium truncate">{property.title || property.address}</p>
+                      {valid ? (
+                        <Badge className="bg-emerald-500/20 text-emerald-400 border border-emerald-500/30 gap-1">
+                          <CheckCircle2 className="w-3 h-3" />
+                          Complet
+                        </Badge>
+                      ) : (
+                        <Badge className="bg-amber-500/20 text-amber-400 border border-amber-500/30 gap-1">
+                          <AlertTriangle className="w-3 h-3" />
+                          {issues.length} manquant(s)
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {property.mandate_number || 'Sans mandat'} · {property.city || '—'} · {formatCurrency(property.price ?? 0)}
+                    </p>
+                    {!valid && (
+                      <p className="text-xs text-amber-400/80 mt-1">
+                        {issues.map((i) => i.label).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        {/* Agency code, required by the portals to identify the agency */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Code agence portail</p>
+          <div className="flex gap-2">
+            <Input
+              value={agencyCodeDraft}
+              onChange={(e) => setAgencyCodeDraft(e.target.value)}
+              placeholder="Identifiant communiqué par SeLoger"
+              disabled={!canManageTeam}
+            />
+            {canManageTeam && (
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => agencyCodeMutation.mutate(agencyCodeDraft.trim())}
+                disabled={agencyCodeDraft.trim() === (agencyCode ?? '') || agencyCodeMutation.isPending}
+                aria-label="Enregistrer le code agence"
+              >
+                {agencyCodeMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              </Button>
+            )}
+          </div>
+          {!agencyCode && (
+            <p className="text-xs text-amber-400 flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3" />
+              {canManageTeam
+                ? "Renseignez le code agence fourni par vos portails pour activer l'export."
+                : "Le code agence n'est pas renseigné, demandez à un administrateur de le saisir."}
+            </p>
+          )}
+        </div>
+
+        {/* Exports */}
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={() => exportMutation.mutate('zip')}
+            disabled={!agencyCode || report.ready === 0 || exportMutation.isPending}
+            className="gap-2 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
+          >
+            {exportMutation.isPending && exportMutation.variables === 'zip'
+              ? <Loader2 className="w-4 h-4 animate-spin" />
+              : <Download className="w-4 h-4" />}
+            Export Poliris (.zip)
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => exportMutation.mutate('xml')}
+            disabled={!agencyCode || report.ready === 0 || exportMutation.isPending}
+            className="gap-2"
+          >
+            {exportMutation.isPending && exportMutation.variables === 'xml'
+              ? <Loader2 className="w-4 h-4 animate-spin" />
+              : <FileCode className="w-4 h-4" />}
+            Flux XML
+          </Button>
+        </div>
+
+        {/* Public feed URL */}
+        <div className="space-y-2 border-t border-white/10 pt-4">
+          <p className="text-sm font-medium">URL du flux pour les portails</p>
+          {feedUrl ? (
+            <div className="flex gap-2">
+              <Input readOnly value={feedUrl} className="text-xs font-mono" />
+              <Button variant="outline" size="icon" onClick={handleCopyFeed} aria-label="Copier l'URL">
+                {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+              </Button>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Aucun flux actif. Générez une URL secrète à transmettre à vos portails.
+            </p>
+          )}
+          {canManageTeam && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => tokenMutation.mutate()}
+              disabled={tokenMutation.isPending}
+              className="gap-2"
+            >
+              <KeyRound className="w-4 h-4" />
+              {feedToken ? "Régénérer l'URL" : 'Activer le flux XML'}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,24 @@
+import { TrendingDown } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { formatCurrency, formatPercentage, formatShortDate } from '@/lib/formatters';
+import { cn } from '@/lib/utils';
+import type { PriceDrop } from '@/lib/price-history';
+
+interface PriceDropBadgeProps {
+  drop: PriceDrop | undefined;
+  className?: string;
+}
+
+export function PriceDropBadge({ drop, className }: PriceDropBadgeProps) {
+  if (!drop) return null;
+
+  return (
+    <Badge
+      className={cn('text-xs gap-1 bg-emerald-500/20 text-emerald-400 border border-emerald-500/30', className)}
+      title={`Ancien prix : ${formatCurrency(drop.previousPrice)} — baissé le ${formatShortDate(drop.changedAt)}`}
+    >
+      <TrendingDown className="w-3 h-3" />
+      Baisse de prix {formatPercentage(drop.percent)}
+    </Badge>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { TrendingDown, Send, Loader2, MailX } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useContactSearchesWithContacts } from '@/hooks/useContactSearches';
+import { findNewlyInBudgetBuyers } from '@/lib/property-matching';
+import { getPriceChangePercent } from '@/lib/price-history';
+import { formatCurrency, formatPercentage } from '@/lib/formatters';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Same limit as the send-property-proposal Edge Function
+const MAX_RECIPIENTS_PER_CALL = 10;
+
+interface PriceDropNotifyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  property: Tables<'properties'>;
+  previousPrice: number;
+}
+
+export function PriceDropNotifyDialog({ open, onOpenChange, property, previousPrice }: PriceDropNotifyDialogProps) {
+  const { organizationId } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: searches, isLoading } = useContactSearchesWithContacts();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isSending, setIsSending] = useState(false);
+
+  // One entry per contact, keeping their best-scoring search
+  const buyers = useMemo(() => {
+    const matches = findNewlyInBudgetBuyers(property, previousPrice, searches ?? []);
+    const seen = new Set<string>();
+    return matches.filter(({ search }) => {
+      if (!search.contact || seen.has(search.contact.id)) return false;
+      seen.add(search.contact.id);
+      return true;
+    });
+  }, [property, previousPrice, searches]);
+
+  // Preselect every buyer reachable by email
+  const defaultSelection = buyers
+    .filter(({ search }) => search.contact.email)
+    .map(({ search }) => search.contact.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!open) return;
+    setSelected(new Set(defaultSelection ? defaultSelection.split(',') : []));
+  }, [open, defaultSelection]);
+
+  const toggle = (contactId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(contactId)) next.delete(contactId);
+      else next.add(contactId);
+      return next;
+    });
+  };
+
+  const handleSend = async () => {
+    const contactIds = [...selected];
+    if (contactIds.length === 0) return;
+
+    setIsSending(true);
+    let success = 0;
+    let failed = 0;
+    try {
+      for (let i = 0; i < contactIds.length; i += MAX_RECIPIENTS_PER_CALL) {
+        const { data, error } = await supabase.functions.invoke('send-property-proposal', {
+          body: {
+            propertyId: property.id,
+            contactIds: contactIds.slice(i, i + MAX_RECIPIENTS_PER_CALL),
+            logActivity: true,
+            priceDrop: { previousPrice },
+          },
+        });
+        if (error) throw error;
+        const { summary } = data as { summary: { success: number; failed: number } };
+        success += summary.success;
+        failed += summary.failed;
+      }
+
+      if (failed === 0) {
+        toast.success(`${success} acquéreur${success > 1 ? 's' : ''} prévenu${success > 1 ? 's' : ''} de la baisse de prix`);
+      } else {
+        toast.warning(`${success} envoyé${success > 1 ? 's' : ''}, ${failed} échoué${failed > 1 ? 's' : ''}`);
+      }
+      onOpenChange(false);
+    } catch (err) {
+      toast.error("Erreur lors de l'envoi", {
+        description: err instanceof Error ? err.message : 'Erreur inconnue',
+      });
+    } finally {
+      setIsSending(false);
+      queryClient.invalidateQueries({ queryKey: ['property_proposals', property.id, organizationId] });
+    }
+  };
+
+  const percent = property.price ? getPriceChangePercent(previousPrice, property.price) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <TrendingDown className="w-5 h-5 text-emerald-400" />
+            Baisse de prix
+          </DialogTitle>
+          <DialogDescription>
+            {formatCurrency(previousPrice)} → {formatCurrency(property.price ?? 0)} ({formatPercentage(percent)}).
+            Ces acquéreurs entrent désormais dans leur budget.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-14 w-full" />
+            <Skeleton className="h-14 w-full" />
+          </div>
+        ) : buyers.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Aucun nouvel acquéreur dans le budget avec ce prix.
+          </p>
+        ) : (
+          <ScrollArea className="flex-1 min-h-0 max-h-[50vh] pr-3">
+            <div className="space-y-2">
+              {buyers.map(({ search, before, after }) => {
+                const { contact } = search;
+                return (
+                  <label
+                    key={contact.id}
+                    className="flex items-center gap-3 p-3 rounded-lg bg-white/5 border border-white/10 cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={selected.has(contact.id)}
+                      onCheckedChange={() => toggle(contact.id)}
+                      disabled={!contact.email}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{contact.full_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Budget : {formatCurrency(search.budget_max ?? 0)}
+                      </p>
+                    </div>
+                    {contact.email ? (
+                      <Badge variant="secondary" className="text-xs shrink-0">
+                        {before.score}% → {after.score}%
+                      </Badge>
+                    ) : (
+                      <span className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
+                        <MailX className="w-3 h-3" />
+                        Sans email
+                      </span>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSending}>
+            Plus tard
+          </Button>
+          <Button onClick={handleSend} disabled={isSending || selected.size === 0}>
+            {isSending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4 mr-2" />
+            )}
+            Prévenir {selected.size} acquéreur{selected.size > 1 ? 's' : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
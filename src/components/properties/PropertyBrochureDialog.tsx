@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileImage, Loader2, Download, Store, FileText, RectangleHorizontal } from 'lucide-react';
+import { toast } from 'sonner';
+import { useOrganization } from '@/hooks/useOrganization';
+import {
+  BROCHURE_TEMPLATES,
+  BROCHURE_TEMPLATE_LABELS,
+  generatePropertyBrochure,
+  getBrochureFileName,
+  getFeeMention,
+  type BrochureTemplate,
+  type FeePayer,
+} from '@/lib/property-brochure';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Property = Tables<'properties'>;
+
+interface PropertyBrochureDialogProps {
+  property: Property;
+}
+
+const TEMPLATE_ICONS: Record<BrochureTemplate, React.ElementType> = {
+  vitrine: Store,
+  portrait: FileText,
+  paysage: RectangleHorizontal,
+};
+
+export function PropertyBrochureDialog({ property }: PropertyBrochureDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [template, setTemplate] = useState<BrochureTemplate>('portrait');
+  const [feePayer, setFeePayer] = useState<FeePayer>('vendeur');
+  const [feePercent, setFeePercent] = useState<string>('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const { data: organization } = useOrganization();
+
+  const isRental = property.transaction_type === 'location';
+  const options = { template, feePayer, feePercent: feePercent ? Number(feePercent) : null };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const doc = await generatePropertyBrochure(property, organization ?? null, options);
+      doc.save(getBrochureFileName(property, template));
+      toast.success('Fiche vitrine générée');
+      setOpen(false);
+    } catch (error) {
+      toast.error('Erreur lors de la génération du PDF', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <FileImage className="w-4 h-4" />
+          Fiche vitrine
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileImage className="w-5 h-5 text-blue-400" />
+            Fiche vitrine
+          </DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            {property.title || property.address}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {/* Template picker */}
+          <div className="grid grid-cols-3 gap-2">
+            {BROCHURE_TEMPLATES.map((t) => {
+              const Icon = TEMPLATE_ICONS[t];
+              const isSelected = t === template;
+              return (
+                <button
+                  key={t}
+                  type="button"
+                  onClick={() => setTemplate(t)}
+                  className={`p-3 rounded-lg border text-left transition-colors ${
+                    isSelected
+                      ? 'border-blue-500 bg-blue-500/10'
+                      : 'border-white/10 bg-white/5 hover:bg-white/10'
+                  }`}
+                >
+                  <Icon className={`w-5 h-5 mb-2 ${isSelected ? 'text-blue-400' : 'text-muted-foreground'}`} />
+                  <p className="text-sm font-medium">{BROCHURE_TEMPLATE_LABELS[t].label}</p>
+                  <p className="text-xs text-muted-foreground">{BROCHURE_TEMPLATE_LABELS[t].description}</p>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Fee mention */}
+          {!isRental && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Honoraires à la charge de</Label>
+                <Select value={feePayer} onValueChange={(v) => setFeePayer(v as FeePayer)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="vendeur">Vendeur</SelectItem>
+                    <SelectItem value="acquereur">Acquéreur</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {feePayer === 'acquereur' && (
+                <div className="space-y-2">
+                  <Label>Honoraires (% TTC)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={feePercent}
+                    onChange={(e) => setFeePercent(e.target.value)}
+                    placeholder="5"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground bg-white/5 border border-white/10 rounded-lg p-3">
+            {getFeeMention(property, options)}
+          </p>
+
+          <Button
+            onClick={handleGenerate}
+            disabled={isGenerating || (feePayer === 'acquereur' && !isRental && !feePercent)}
+            className="w-full gap-2 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
+          >
+            {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Télécharger le PDF
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
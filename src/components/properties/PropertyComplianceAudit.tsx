@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { toast } from 'sonner';
+import { getRentalBanMilestone, isRentalBanned } from '@/lib/rental-ban';
 import {
   Zap,
   ShieldCheck,
@@ -57,9 +58,10 @@ function normalizeDpeLabel(raw: string | null): DpeClass | null {
   return null;
 }
 
-function getComplianceStatus(dpe: DpeClass | null): 'critical' | 'warning' | 'ok' {
+function getComplianceStatus(dpe: DpeClass | null): 'critical' | 'upcoming' | 'warning' | 'ok' {
   if (!dpe) return 'warning';
-  if (dpe === 'F' || dpe === 'G') return 'critical';
+  if (isRentalBanned(dpe)) return 'critical';
+  if (getRentalBanMilestone(dpe)) return 'upcoming';
   return 'ok';
 }
 
@@ -436,6 +438,7 @@ export function PropertyComplianceAudit({ property }: PropertyComplianceAuditPro
   const dpeLabel = overrideDpe ?? normalizeDpeLabel(property.dpe_label);
   const gesLabel = overrideGes ?? normalizeDpeLabel(property.ges_label);
   const status = getComplianceStatus(dpeLabel);
+  const banMilestone = getRentalBanMilestone(dpeLabel);
 
   const handleAnalysisComplete = useCallback((result: AnalysisResult) => {
     setOverrideDpe(result.dpe);
@@ -508,8 +511,21 @@ export function PropertyComplianceAudit({ property }: PropertyComplianceAuditPro
               Interdit à la location
             </AlertTitle>
             <AlertDescription className="text-red-300/80">
-              Les logements classés F ou G sont interdits à la location depuis 2025
-              (loi Climat et Résilience). Une rénovation énergétique est requise.
+              Les logements classés {dpeLabel} sont interdits à la location depuis le{' '}
+              {banMilestone?.label} (loi Climat et Résilience). Une rénovation énergétique est requise.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {status === 'upcoming' && (
+          <Alert className="border-orange-500/50 bg-orange-500/10">
+            <AlertTriangle className="h-4 w-4 text-orange-400" />
+            <AlertTitle className="text-orange-400 font-semibold">
+              Interdit à la location au {banMilestone?.label}
+            </AlertTitle>
+            <AlertDescription className="text-orange-300/80">
+              Les logements classés {dpeLabel} ne pourront plus être loués à partir de cette
+              date (loi Climat et Résilience). Anticipez la rénovation ou la vente.
             </AlertDescription>
           </Alert>
         )}
@@ -27,10 +27,28 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
 import { EmptyState } from '@/components/EmptyState';
 import { PropertyMatchingWidget } from '@/components/properties/PropertyMatchingWidget';
 import { PropertyOwnerReport } from '@/components/properties/PropertyOwnerReport';
+import { PropertyBrochureDialog } from '@/components/properties/PropertyBrochureDialog';
+import { PropertyValuationDialog } from '@/components/properties/PropertyValuationDialog';
 import { PropertyImageUpload } from '@/components/properties/PropertyImageUpload';
+import { PropertyPriceHistory } from '@/components/properties/PropertyPriceHistory';
+import { PriceDropNotifyDialog } from '@/components/properties/PriceDropNotifyDialog';
+import { PriceDropBadge } from '@/components/properties/PriceDropBadge';
+import { ViagerBreakdown } from '@/components/properties/ViagerBreakdown';
+import { ViagerFormFields } from '@/components/properties/ViagerFormFields';
+import { RentalFormFields } from '@/components/properties/RentalFormFields';
+import { PropertyLeases } from '@/components/properties/PropertyLeases';
+import { calculatePropertyViager, getViagerFormValues, getViagerSellers, toViagerColumns } from '@/lib/viager';
+import { checkRentControl, toRentalColumns } from '@/lib/rental';
+import { geocodePropertyColumns, hasAddressChanged } from '@/lib/geocoding';
+import { listAmenities, parseFeatures, toFeaturesJson, type PropertyFeatures } from '@/lib/amenities';
+import { AmenitiesFormFields } from '@/components/properties/AmenitiesFormFields';
+import { getImageVariant } from '@/lib/property-images';
+import { useRecentPriceDrops } from '@/hooks/usePriceHistory';
+import { validatePropertyForPortals } from '@/lib/portal-syndication';
 import {
   Pencil,
   Copy,
@@ -66,6 +84,7 @@ import {
   Users,
   Activity,
   Briefcase,
+  Share2,
 } from 'lucide-react';
 import type { Tables } from '@/integrations/supabase/types';
 
@@ -76,6 +95,7 @@ interface ProposalWithContact {
   contact_id: string | null;
   sent_at: string | null;
   opened_at: string | null;
+  clicked_at: string | null;
   template_id: string | null;
   contact: { full_name: string } | null;
 }
@@ -172,6 +192,18 @@ const editPropertySchema = z.object({
   co_ownership_charges: z.number().min(0).optional().nullable(),
   tax_property: z.number().min(0).optional().nullable(),
   cadastral_ref: z.string().max(50).optional().nullable(),
+  rent_charges: z.number().min(0).optional().nullable(),
+  security_deposit: z.number().min(0).optional().nullable(),
+  is_furnished: z.boolean().optional(),
+  reference_rent_m2: z.number().min(0).optional().nullable(),
+  viager_occupancy: z.enum(['occupe', 'libre']).optional().nullable(),
+  viager_bouquet: z.number().min(0).optional().nullable(),
+  viager_rente: z.number().min(0).optional().nullable(),
+  viager_seller1_age: z.number().min(18).max(120).optional().nullable(),
+  viager_seller1_sex: z.enum(['F', 'M']).optional().nullable(),
+  viager_seller2_age: z.number().min(18).max(120).optional().nullable(),
+  viager_seller2_sex: z.enum(['F', 'M']).optional().nullable(),
+  features: z.custom<PropertyFeatures>(),
 });
 
 type EditPropertyFormValues = z.infer<typeof editPropertySchema>;
@@ -187,6 +219,7 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
   const [lightboxOpen, setLightboxOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [headerVisible, setHeaderVisible] = useState(true);
+  const [priceDrop, setPriceDrop] = useState<{ previousPrice: number; newPrice: number } | null>(null);
   const lastScrollY = useRef(0);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
@@ -268,7 +301,7 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
       if (!propertyId || !organizationId) return [];
       const { data, error } = await supabase
         .from('property_proposals')
-        .select('id, contact_id, sent_at, opened_at, template_id, contact:contacts!property_proposals_contact_id_fkey(full_name)')
+        .select('id, contact_id, sent_at, opened_at, clicked_at, template_id, contact:contacts!property_proposals_contact_id_fkey(full_name)')
         .eq('property_id', propertyId)
         .eq('organization_id', organizationId)
         .order('sent_at', { ascending: false });
@@ -293,6 +326,7 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
       contact_id: null,
       assigned_to: null,
       description: null,
+      features: {},
     },
   });
 
@@ -323,11 +357,19 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
         co_ownership_charges: property.co_ownership_charges,
         tax_property: property.tax_property,
         cadastral_ref: property.cadastral_ref,
+        rent_charges: property.rent_charges,
+        security_deposit: property.security_deposit,
+        is_furnished: property.is_furnished,
+        reference_rent_m2: property.reference_rent_m2,
+        ...getViagerFormValues(property),
+        features: parseFeatures(property.features),
       });
     }
   }, [property, form]);
 
   const descriptionValue = form.watch('description') || '';
+  const editTransactionType = form.watch('transaction_type');
+  const recentPriceDrops = useRecentPriceDrops();
 
   // Scroll-based header auto-hide
   useEffect(() => {
@@ -357,10 +399,21 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
   const updateMutation = useMutation({
     mutationFn: async (values: EditPropertyFormValues) => {
       if (!propertyId || !organizationId) throw new Error('Missing IDs');
+
+      // Re-geocode only when the address moved or was never located
+      const address = values.address || null;
+      const needsGeocoding = !!property && (
+        hasAddressChanged(property, { address, postal_code: property.postal_code, city: property.city })
+        || (!!address && property.latitude == null)
+      );
+      const coordinates = needsGeocoding
+        ? await geocodePropertyColumns({ address, postal_code: property.postal_code, city: property.city })
+        : {};
       
       const { error } = await supabase
         .from('properties')
         .update({
+          ...coordinates,
           title: values.title,
           address: values.address || null,
           type: values.type,
@@ -384,6 +437,9 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
           co_ownership_charges: values.co_ownership_charges ?? null,
           tax_property: values.tax_property ?? null,
           cadastral_ref: values.cadastral_ref || null,
+          ...toRentalColumns(values.transaction_type, values),
+          ...toViagerColumns(values.transaction_type, values),
+          features: toFeaturesJson(property?.features, values.features ?? {}),
           updated_at: new Date().toISOString(),
         })
         .eq('id', propertyId)
@@ -391,10 +447,15 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
       
       if (error) throw error;
     },
-    onSuccess: () => {
+    onSuccess: (_, values) => {
       queryClient.invalidateQueries({ queryKey: ['property', propertyId, organizationId] });
       queryClient.invalidateQueries({ queryKey: ['properties', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['property_price_history', organizationId] });
       setEditDialogOpen(false);
+      // A lower price may bring new buyers within budget: offer to notify them
+      if (property?.price && values.price && values.price < property.price) {
+        setPriceDrop({ previousPrice: property.price, newPrice: values.price });
+      }
       toast.success('Bien mis à jour avec succès', {
         style: {
           background: 'linear-gradient(135deg, rgba(75, 139, 255, 0.9), rgba(124, 58, 237, 0.9))',
@@ -435,6 +496,30 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
     },
   });
 
+  // Portal syndication toggle (saved immediately, like images)
+  const publishMutation = useMutation({
+    mutationFn: async (publish: boolean) => {
+      if (!propertyId || !organizationId) throw new Error('Missing IDs');
+      const { error } = await supabase
+        .from('properties')
+        .update({ publish_to_portals: publish })
+        .eq('id', propertyId)
+        .eq('organization_id', organizationId);
+      if (error) throw error;
+      return publish;
+    },
+    onSuccess: (publish) => {
+      queryClient.invalidateQueries({ queryKey: ['property', propertyId, organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['properties', organizationId] });
+      toast.success(publish ? 'Bien ajouté à la diffusion portails' : 'Bien retiré de la diffusion portails');
+    },
+    onError: (error) => {
+      toast.error('Erreur de mise à jour de la diffusion', { description: error.message });
+    },
+  });
+
+  const portalIssues = useMemo(() => (property ? validatePropertyForPortals(property) : []), [property]);
+
   // Photo carousel
   const photos = useMemo(() => property?.images || [], [property]);
   const hasPhotos = photos.length > 0;
@@ -561,6 +646,8 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
                     </div>
                     <div className="flex items-start gap-2 shrink-0">
                       <PropertyOwnerReport property={property} />
+                      <PropertyValuationDialog property={property} preparedFor={property.owner?.full_name} />
+                      <PropertyBrochureDialog property={property} />
                       <Button 
                         onClick={() => setEditDialogOpen(true)}
                         className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 shadow-lg shadow-blue-500/30 transition-all hover:scale-[1.02]"
@@ -593,7 +680,7 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
                         onClick={() => setLightboxOpen(true)}
                       >
                         <img 
-                          src={photos[currentPhotoIndex]} 
+                          src={getImageVariant(photos[currentPhotoIndex], 'large')} 
                           alt={`Photo ${currentPhotoIndex + 1}`}
                           className="w-full h-full object-cover"
                         />
@@ -631,7 +718,7 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
                               onClick={() => setCurrentPhotoIndex(idx)}
                               className={`flex-shrink-0 w-16 h-12 rounded-lg overflow-hidden border-2 transition-colors ${idx === currentPhotoIndex ? 'border-blue-500' : 'border-transparent'}`}
                             >
-                              <img src={photo} alt={`Thumb ${idx + 1}`} className="w-full h-full object-cover" />
+                              <img src={getImageVariant(photo, 'thumb')} alt={`Thumb ${idx + 1}`} className="w-full h-full object-cover" />
                             </button>
                           ))}
                         </div>
@@ -673,11 +760,12 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
                     <CardContent className="p-4">
                       <div className="flex items-center gap-2 text-muted-foreground text-xs mb-1">
                         <Euro className="w-3 h-3 text-blue-400" />
-                        Prix
+                        {property.transaction_type === 'viager' ? 'Valeur vénale' : property.transaction_type === 'location' ? 'Loyer HC' : 'Prix'}
                       </div>
                       <p className="text-xl font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
                         {property.price ? formatCurrency(property.price) : 'N/A'}
                       </p>
+                      <PriceDropBadge drop={recentPriceDrops.get(property.id)} className="mt-1" />
                     </CardContent>
                   </Card>
 
@@ -776,11 +864,46 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
                           </div>
                         </div>
                       )}
+                      {property.transaction_type === 'location' && (() => {
+                        const rentControl = checkRentControl(property);
+                        return (
+                          <div className="rounded-xl bg-blue-500/5 border border-blue-500/20 p-4 space-y-2 text-sm">
+                            <div className="flex items-center justify-between">
+                              <span className="text-muted-foreground">Type de location</span>
+                              <span className="text-white">{property.is_furnished ? 'Meublée' : 'Vide'}</span>
+                            </div>
+                            <div className="flex items-center justify-between">
+                              <span className="text-muted-foreground">Charges</span>
+                              <span className="text-white">{property.rent_charges != null ? `${formatCurrency(property.rent_charges)} / mois` : 'N/A'}</span>
+                            </div>
+                            <div className="flex items-center justify-between">
+                              <span className="text-muted-foreground">Dépôt de garantie</span>
+                              <span className="text-white">{property.security_deposit != null ? formatCurrency(property.security_deposit) : 'N/A'}</span>
+                            </div>
+                            {rentControl && (
+                              <div className="flex items-center justify-between">
+                                <span className="text-muted-foreground">Encadrement</span>
+                                <span className={rentControl.exceeds ? 'text-red-400' : 'text-emerald-400'}>
+                                  {rentControl.rentPerM2} €/m² (plafond {rentControl.referenceRentM2} €/m²)
+                                </span>
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })()}
+                      {property.transaction_type === 'viager' && (
+                        <ViagerBreakdown
+                          calculation={calculatePropertyViager(property)}
+                          occupancy={property.viager_occupancy}
+                          sellers={getViagerSellers(property)}
+                          className="rounded-xl bg-purple-500/5 border border-purple-500/20 p-4"
+                        />
+                      )}
                       <div className="grid grid-cols-2 gap-4 pt-2">
                         <div className="flex items-start gap-3">
                           <Euro className="w-4 h-4 text-blue-400 mt-1" />
                           <div>
-                            <p className="text-sm text-muted-foreground">Prix</p>
+                            <p className="text-sm text-muted-foreground">{property.transaction_type === 'viager' ? 'Valeur vénale' : property.transaction_type === 'location' ? 'Loyer HC' : 'Prix'}</p>
                             <p className="text-white font-semibold">{property.price ? formatCurrency(property.price) : 'N/A'}</p>
                           </div>
                         </div>
@@ -861,6 +984,23 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
                         )}
                       </div>
 
+                      {/* Prestations */}
+                      {(() => {
+                        const amenities = listAmenities(parseFeatures(property.features));
+                        return amenities.length > 0 && (
+                          <div className="pt-4 border-t border-white/10 space-y-3">
+                            <h4 className="text-sm font-semibold text-purple-400 uppercase tracking-wider">Prestations</h4>
+                            <div className="flex flex-wrap gap-2">
+                              {amenities.map((label) => (
+                                <Badge key={label} className="bg-white/10 text-white/80 border border-white/20">
+                                  {label}
+                                </Badge>
+                              ))}
+                            </div>
+                          </div>
+                        );
+                      })()}
+
                       {/* Performance Énergétique */}
                       {property.dpe_label && (
                         <div className="pt-4 border-t border-white/10 space-y-3">
@@ -891,8 +1031,31 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
                               Mandat {property.mandate_type || '—'} n°{property.mandate_number || '—'}
                             </span>
                           </div>
+                          <Button variant="link" size="sm" className="px-0 text-blue-400" onClick={() => navigate('/mandates')}>
+                            Voir le registre des mandats
+                          </Button>
                         </div>
                       )}
+
+                      {/* Diffusion portails */}
+                      <div className="pt-4 border-t border-white/10 space-y-3">
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="flex items-center gap-2">
+                            <Share2 className="w-4 h-4 text-purple-400" />
+                            <span className="text-sm text-white">Diffuser sur SeLoger / portails</span>
+                          </div>
+                          <Switch
+                            checked={property.publish_to_portals}
+                            onCheckedChange={(checked) => publishMutation.mutate(checked)}
+                            disabled={publishMutation.isPending}
+                          />
+                        </div>
+                        {property.publish_to_portals && portalIssues.length > 0 && (
+                          <p className="text-xs text-amber-400">
+                            Annonce non exportée, champs manquants : {portalIssues.map((i) => i.label).join(', ')}
+                          </p>
+                        )}
+                      </div>
                     </div>
                   </TabsContent>
 
@@ -999,14 +1162,21 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
                                       Ouvert le {new Intl.DateTimeFormat('fr-FR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' }).format(new Date(proposal.opened_at))}
                                     </p>
                                   )}
+                                  {proposal.clicked_at && (
+                                    <p className="text-xs text-emerald-400">
+                                      Lien cliqué le {new Intl.DateTimeFormat('fr-FR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' }).format(new Date(proposal.clicked_at))}
+                                    </p>
+                                  )}
                                 </div>
                               </div>
                               <Badge className={`shrink-0 ${
-                                proposal.opened_at
-                                  ? 'bg-blue-500/20 text-blue-300 border border-blue-500/30'
-                                  : 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
+                                proposal.clicked_at
+                                  ? 'bg-emerald-500/20 text-emerald-300 border border-emerald-500/30'
+                                  : proposal.opened_at
+                                    ? 'bg-blue-500/20 text-blue-300 border border-blue-500/30'
+                                    : 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
                               }`}>
-                                {proposal.opened_at ? 'Vue ✓' : 'Envoyée'}
+                                {proposal.clicked_at ? 'Cliquée ✓' : proposal.opened_at ? 'Vue ✓' : 'Envoyée'}
                               </Badge>
                             </div>
                           ))}
@@ -1016,6 +1186,19 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
                   </TabsContent>
                 </Tabs>
 
+                {/* Lease */}
+                {(property.transaction_type === 'location' || property.status === 'loue') && (
+                  <PropertyLeases property={property} />
+                )}
+
+                {/* Price history */}
+                <PropertyPriceHistory
+                  propertyId={property.id}
+                  onNotifyBuyers={(previousPrice) => {
+                    if (property.price) setPriceDrop({ previousPrice, newPrice: property.price });
+                  }}
+                />
+
                 {/* Market Stats */}
                 {(() => {
                   const pricePerM2 = property.price && property.surface
@@ -1136,13 +1319,23 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
         </DialogContent>
       </Dialog>
 
+      {/* Price drop: buyers newly within budget */}
+      {property && priceDrop && (
+        <PriceDropNotifyDialog
+          open={!!priceDrop}
+          onOpenChange={(isOpen) => !isOpen && setPriceDrop(null)}
+          property={{ ...property, price: priceDrop.newPrice }}
+          previousPrice={priceDrop.previousPrice}
+        />
+      )}
+
       {/* Lightbox */}
       <Dialog open={lightboxOpen} onOpenChange={setLightboxOpen}>
         <DialogContent className="max-w-5xl h-[90vh] bg-black/95 border-white/10 p-0">
           {hasPhotos && (
             <div className="relative w-full h-full flex items-center justify-center">
               <img 
-                src={photos[currentPhotoIndex]} 
+                src={getImageVariant(photos[currentPhotoIndex], 'large')} 
                 alt={`Photo ${currentPhotoIndex + 1}`}
                 className="max-w-full max-h-full object-contain"
               />
@@ -1302,6 +1495,9 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
                 />
               </div>
 
+              {editTransactionType === 'location' && <RentalFormFields />}
+              {editTransactionType === 'viager' && <ViagerFormFields />}
+
               {/* Section 2: Caractéristiques */}
               <div className="border-l-2 border-purple-500/50 pl-4 bg-purple-500/5 rounded-r-xl py-4 pr-4 space-y-6">
                 <h3 className="text-sm font-semibold text-purple-400 uppercase tracking-wider mb-4">Caractéristiques</h3>
@@ -1311,7 +1507,7 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
                   name="price"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel className="text-white font-semibold">Prix (€)</FormLabel>
+                      <FormLabel className="text-white font-semibold">{editTransactionType === 'viager' ? 'Valeur vénale (€)' : editTransactionType === 'location' ? 'Loyer HC (€/mois)' : 'Prix (€)'}</FormLabel>
                       <FormControl>
                         <div className="relative">
                           <Euro className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-blue-400" />
@@ -1384,6 +1580,8 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
                     )}
                   />
                 </div>
+
+                <AmenitiesFormFields />
               </div>
 
               {/* Section 2.5: Détails techniques */}
@@ -1410,7 +1608,8 @@ export default function PropertyDetailsSheet({ propertyId, open, onOpenChange }:
                       <FormItem>
                         <FormLabel className="text-white font-semibold">N° de mandat</FormLabel>
                         <FormControl>
-                          <Input {...field} value={field.value || ''} className={premiumInputClass} />
+                          {/* Allocated by the mandate register, never typed by hand */}
+                          <Input {...field} value={field.value || ''} readOnly placeholder="Attribué par le registre" className={`${premiumInputClass} opacity-70 cursor-not-allowed`} />
                         </FormControl>
                       </FormItem>
                     )}
@@ -0,0 +1,215 @@
+import { useMemo, useState } from 'react';
+import type { Tables } from '@/integrations/supabase/types';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardCheck, FileText, Loader2, Pencil, ShieldAlert, X } from 'lucide-react';
+import { usePropertyDiagnostics } from '@/hooks/usePropertyDiagnostics';
+import { formatDate } from '@/lib/formatters';
+import { DIAGNOSTIC_LABELS, type DiagnosticKind } from '@/lib/constants';
+import {
+  RESULT_DIAGNOSTICS,
+  getBlockingDiagnostics,
+  getDiagnosticsChecklist,
+  type DiagnosticItem,
+  type DiagnosticStatus,
+} from '@/lib/diagnostics';
+
+type Property = Tables<'properties'>;
+
+interface PropertyDiagnosticsChecklistProps {
+  property: Property;
+}
+
+const STATUS_CONFIG: Record<DiagnosticStatus, { label: string; className: string }> = {
+  valid: { label: 'Valide', className: 'border-green-500/50 text-green-400' },
+  expiring: { label: 'Expire bientôt', className: 'border-yellow-500/50 text-yellow-400' },
+  expired: { label: 'Expiré', className: 'border-red-500/50 text-red-400' },
+  missing: { label: 'Manquant', className: 'border-red-500/50 text-red-400' },
+  to_check: { label: 'À vérifier', className: 'border-yellow-500/50 text-yellow-400' },
+  not_required: { label: 'Non requis', className: 'border-white/10 text-muted-foreground' },
+  not_applicable: { label: 'Non concerné', className: 'border-white/10 text-muted-foreground' },
+};
+
+const ACCEPTED_FILES = '.pdf,.jpg,.jpeg,.png';
+
+function DiagnosticEditor({
+  item,
+  isSaving,
+  onSave,
+  onCancel,
+}: {
+  item: DiagnosticItem;
+  isSaving: boolean;
+  onSave: (values: { performedAt: string; result: 'negatif' | 'positif' | null; file: File | null }) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [performedAt, setPerformedAt] = useState(item.diagnostic?.performed_at ?? '');
+  const [result, setResult] = useState<'negatif' | 'positif'>(
+    item.diagnostic?.result === 'positif' ? 'positif' : 'negatif'
+  );
+  const [file, setFile] = useState<File | null>(null);
+  const hasResult = RESULT_DIAGNOSTICS.includes(item.kind);
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          type="date"
+          value={performedAt}
+          onChange={(e) => setPerformedAt(e.target.value)}
+          className="h-8 bg-white/5 border-white/10"
+        />
+        {hasResult && (
+          <Select value={result} onValueChange={(val) => setResult(val as 'negatif' | 'positif')}>
+            <SelectTrigger className="h-8 bg-white/5 border-white/10">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="negatif">Absence constatée</SelectItem>
+              <SelectItem value="positif">Présence constatée</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <Input
+        type="file"
+        accept={ACCEPTED_FILES}
+        onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+        className="h-8 text-xs bg-white/5 border-white/10"
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Annuler
+        </Button>
+        <Button
+          size="sm"
+          disabled={!performedAt || isSaving}
+          onClick={() => onSave({ performedAt, result: hasResult ? result : null, file })}
+        >
+          {isSaving && <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />}
+          Enregistrer
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Dossier de Diagnostic Technique of a property: which reports the sale
+ * needs, their validity, and the uploaded files.
+ */
+export function PropertyDiagnosticsChecklist({ property }: PropertyDiagnosticsChecklistProps) {
+  const { diagnostics, isLoading, save, setNotApplicable, openFile, isSaving } = usePropertyDiagnostics(property.id);
+  const [editingKind, setEditingKind] = useState<DiagnosticKind | null>(null);
+
+  const items = useMemo(() => getDiagnosticsChecklist(property, diagnostics), [property, diagnostics]);
+  const blocking = getBlockingDiagnostics(items);
+
+  return (
+    <Card className="border-white/10 bg-white/5">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-white">
+          <ClipboardCheck className="w-5 h-5 text-blue-400" />
+          Dossier de Diagnostic Technique
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <>
+            {blocking.length > 0 && (
+              <Alert variant="destructive" className="border-red-500/50 bg-red-500/10">
+                <ShieldAlert className="h-4 w-4" />
+                <AlertTitle className="text-red-400 font-semibold">
+                  DDT incomplet
+                </AlertTitle>
+                <AlertDescription className="text-red-300/80">
+                  À fournir avant le compromis : {blocking.map((item) => DIAGNOSTIC_LABELS[item.kind]).join(', ')}.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="divide-y divide-white/5">
+              {items.map((item) => {
+                const status = STATUS_CONFIG[item.status];
+                const canSkip = item.requirement !== 'required' || item.status === 'not_applicable';
+
+                return (
+                  <div key={item.kind} className="py-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium text-white">{DIAGNOSTIC_LABELS[item.kind]}</span>
+                          <Badge variant="outline" className={`text-xs bg-transparent ${status.className}`}>
+                            {status.label}
+                          </Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-0.5">{item.reason}</p>
+                        {item.diagnostic?.performed_at && !item.diagnostic.not_applicable && (
+                          <p className="text-xs text-muted-foreground mt-0.5">
+                            Réalisé le {formatDate(item.diagnostic.performed_at)}
+                            {item.diagnostic.result === 'positif' && ' · présence constatée'}
+                            {' · '}
+                            {item.expiresAt ? `valable jusqu'au ${formatDate(item.expiresAt)}` : 'validité illimitée'}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex shrink-0 items-center gap-1">
+                        {item.diagnostic?.file_path && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            title={item.diagnostic.file_name ?? 'Document'}
+                            onClick={() => openFile(item.diagnostic!)}
+                          >
+                            <FileText className="w-3.5 h-3.5" />
+                          </Button>
+                        )}
+                        {canSkip && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-xs"
+                            onClick={() => setNotApplicable({ kind: item.kind, notApplicable: item.status !== 'not_applicable' })}
+                          >
+                            {item.status === 'not_applicable' ? <X className="w-3.5 h-3.5" /> : 'Non concerné'}
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => setEditingKind(editingKind === item.kind ? null : item.kind)}
+                        >
+                          <Pencil className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    </div>
+                    {editingKind === item.kind && (
+                      <DiagnosticEditor
+                        item={item}
+                        isSaving={isSaving}
+                        onCancel={() => setEditingKind(null)}
+                        onSave={async (values) => {
+                          await save({ kind: item.kind, ...values });
+                          setEditingKind(null);
+                        }}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
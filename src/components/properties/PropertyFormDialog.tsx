@@ -82,6 +82,13 @@ import {
   HEATING_TYPES,
   HEATING_TYPE_LABELS,
 } from '@/lib/constants';
+import { toViagerColumns } from '@/lib/viager';
+import { ViagerFormFields } from '@/components/properties/ViagerFormFields';
+import { toRentalColumns } from '@/lib/rental';
+import { geocodePropertyColumns } from '@/lib/geocoding';
+import { toFeaturesJson, type PropertyFeatures } from '@/lib/amenities';
+import { AmenitiesFormFields } from '@/components/properties/AmenitiesFormFields';
+import { RentalFormFields } from '@/components/properties/RentalFormFields';
 import type { Tables } from '@/integrations/supabase/types';
 
 type Property = Tables<'properties'>;
@@ -120,6 +127,8 @@ const propertySchema = z.object({
   // Essential fields
   title: z.string().min(3, 'Titre requis (min 3 caractères)').max(255),
   address: z.string().max(255).optional().nullable(),
+  postal_code: z.string().trim().regex(/^\d{5}$/, 'Code postal à 5 chiffres').optional().nullable(),
+  city: z.string().max(100).optional().nullable(),
   type: z.enum(['appartement', 'maison', 'terrain', 'commerce', 'bureau', 'immeuble', 'parking', 'autre']),
   status: z.enum(['disponible', 'sous_compromis', 'vendu', 'loue', 'retire']),
   transaction_type: z.enum(['vente', 'location', 'viager']),
@@ -138,6 +147,23 @@ const propertySchema = z.object({
   tax_property: z.number().min(0).optional().nullable(),
   co_ownership_charges: z.number().min(0).optional().nullable(),
   heating_type: z.enum(['gaz', 'electrique', 'fioul', 'bois', 'pompe_chaleur', 'geothermie', 'solaire', 'collectif', 'autre']).optional().nullable(),
+
+  // Rental fields (transaction_type = 'location', price = loyer HC)
+  rent_charges: z.number().min(0).optional().nullable(),
+  security_deposit: z.number().min(0).optional().nullable(),
+  is_furnished: z.boolean().optional(),
+  reference_rent_m2: z.number().min(0).optional().nullable(),
+  // Viager fields (transaction_type = 'viager')
+  viager_occupancy: z.enum(['occupe', 'libre']).optional().nullable(),
+  viager_bouquet: z.number().min(0).optional().nullable(),
+  viager_rente: z.number().min(0).optional().nullable(),
+  viager_seller1_age: z.number().min(18).max(120).optional().nullable(),
+  viager_seller1_sex: z.enum(['F', 'M']).optional().nullable(),
+  viager_seller2_age: z.number().min(18).max(120).optional().nullable(),
+  viager_seller2_sex: z.enum(['F', 'M']).optional().nullable(),
+
+  // Amenities (properties.features)
+  features: z.custom<PropertyFeatures>(),
   
   // Description
   description: z.string().max(2000, 'Description trop longue (max 2000 caractères)').optional().nullable(),
@@ -183,6 +209,8 @@ export function PropertyFormDialog({ open, onOpenChange, contacts }: PropertyFor
     defaultValues: {
       title: '',
       address: null,
+      postal_code: null,
+      city: null,
       type: 'appartement',
       status: 'disponible',
       transaction_type: 'vente',
@@ -199,6 +227,18 @@ export function PropertyFormDialog({ open, onOpenChange, contacts }: PropertyFor
       tax_property: null,
       co_ownership_charges: null,
       heating_type: null,
+      rent_charges: null,
+      security_deposit: null,
+      is_furnished: false,
+      reference_rent_m2: null,
+      viager_occupancy: null,
+      viager_bouquet: null,
+      viager_rente: null,
+      viager_seller1_age: null,
+      viager_seller1_sex: null,
+      viager_seller2_age: null,
+      viager_seller2_sex: null,
+      features: {},
       description: null,
     },
   });
@@ -215,6 +255,8 @@ export function PropertyFormDialog({ open, onOpenChange, contacts }: PropertyFor
         organization_id: organizationId,
         title: values.title,
         address: values.address || null,
+        postal_code: values.postal_code || null,
+        city: values.city || null,
         type: values.type ?? null,
         status: values.status ?? 'disponible',
         transaction_type: values.transaction_type ?? 'vente',
@@ -233,7 +275,13 @@ export function PropertyFormDialog({ open, onOpenChange, contacts }: PropertyFor
         tax_property: values.tax_property || null,
         co_ownership_charges: values.co_ownership_charges || null,
         heating_type: values.heating_type || null,
+        ...toRentalColumns(values.transaction_type, values),
+        ...toViagerColumns(values.transaction_type, values),
+        features: toFeaturesJson(null, values.features),
         description: values.description ?? null,
+        ...(values.address || values.postal_code || values.city
+          ? await geocodePropertyColumns({ address: values.address, postal_code: values.postal_code, city: values.city })
+          : {}),
       };
 
       const { error } = await supabase
@@ -441,7 +489,7 @@ export function PropertyFormDialog({ open, onOpenChange, contacts }: PropertyFor
                             render={({ field }) => (
                               <FormItem>
                                 <FormLabel className="text-white font-semibold">
-                                  {transactionType === 'location' ? 'Loyer (€/mois)' : 'Prix (€)'}
+                                  {transactionType === 'location' ? 'Loyer HC (€/mois)' : transactionType === 'viager' ? 'Valeur vénale (€)' : 'Prix (€)'}
                                 </FormLabel>
                                 <FormControl>
                                   <div className="relative">
@@ -462,6 +510,9 @@ export function PropertyFormDialog({ open, onOpenChange, contacts }: PropertyFor
                           />
                         </div>
 
+                        {transactionType === 'location' && <RentalFormFields />}
+                        {transactionType === 'viager' && <ViagerFormFields />}
+
                         {/* Address */}
                         <FormField
                           control={form.control}
@@ -474,7 +525,7 @@ export function PropertyFormDialog({ open, onOpenChange, contacts }: PropertyFor
                               </FormLabel>
                               <FormControl>
                                 <Input 
-                                  placeholder="123 Rue de la Paix, 75001 Paris" 
+                                  placeholder="123 Rue de la Paix" 
                                   {...field}
                                   value={field.value || ''}
                                   onChange={(e) => field.onChange(e.target.value || null)}
@@ -486,6 +537,50 @@ export function PropertyFormDialog({ open, onOpenChange, contacts }: PropertyFor
                           )}
                         />
 
+                        {/* Postal code, City */}
+                        <div className="grid grid-cols-3 gap-4">
+                          <FormField
+                            control={form.control}
+                            name="postal_code"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="text-white font-semibold">Code postal</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    placeholder="75001"
+                                    inputMode="numeric"
+                                    maxLength={5}
+                                    {...field}
+                                    value={field.value || ''}
+                                    onChange={(e) => field.onChange(e.target.value || null)}
+                                    className={premiumInputClass}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name="city"
+                            render={({ field }) => (
+                              <FormItem className="col-span-2">
+                                <FormLabel className="text-white font-semibold">Ville</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    placeholder="Paris"
+                                    {...field}
+                                    value={field.value || ''}
+                                    onChange={(e) => field.onChange(e.target.value || null)}
+                                    className={premiumInputClass}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+
                         {/* Surface, Rooms, Bedrooms */}
                         <div className="grid grid-cols-3 gap-4">
                           <FormField
@@ -563,6 +658,8 @@ export function PropertyFormDialog({ open, onOpenChange, contacts }: PropertyFor
                           />
                         </div>
 
+                        <AmenitiesFormFields />
+
                         {/* Contact lié */}
                         <div className="flex flex-col gap-2">
                           <label className="text-white font-semibold flex items-center gap-2 text-sm">
@@ -651,12 +748,13 @@ export function PropertyFormDialog({ open, onOpenChange, contacts }: PropertyFor
                                 <FormItem>
                                   <FormLabel className="text-white/80">N° de mandat</FormLabel>
                                   <FormControl>
+                                    {/* Allocated by the mandate register once the mandate is recorded */}
                                     <Input 
-                                      placeholder="M24-055"
+                                      placeholder="Attribué par le registre"
                                       {...field}
                                       value={field.value || ''}
-                                      onChange={(e) => field.onChange(e.target.value || null)}
-                                      className={premiumInputClass}
+                                      readOnly
+                                      className={`${premiumInputClass} opacity-70 cursor-not-allowed`}
                                     />
                                   </FormControl>
                                 </FormItem>
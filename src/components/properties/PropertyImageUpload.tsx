@@ -1,9 +1,30 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import imageCompression from 'browser-image-compression';
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import { SortableContext, arrayMove, rectSortingStrategy, sortableKeyboardCoordinates, useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { useOrganization } from '@/hooks/useOrganization';
+import {
+  IMAGE_VARIANTS,
+  PROPERTY_IMAGES_BUCKET,
+  getImageStoragePaths,
+  getImageVariant,
+  setCoverImage,
+} from '@/lib/property-images';
 import {
   Upload,
   X,
@@ -12,6 +33,8 @@ import {
   Trash2,
   CheckCircle,
   AlertCircle,
+  Star,
+  GripVertical,
 } from 'lucide-react';
 
 const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
@@ -22,10 +45,98 @@ interface UploadingFile {
   id: string;
   file: File;
   preview: string;
-  status: 'compressing' | 'uploading' | 'done' | 'error';
+  status: 'compressing' | 'uploading' | 'processing' | 'done' | 'error';
   error?: string;
 }
 
+interface ProcessedImage {
+  id: string;
+  urls: Record<'thumb' | 'medium' | 'large', string>;
+  watermarked: boolean;
+}
+
+interface SortablePhotoProps {
+  url: string;
+  index: number;
+  total: number;
+  isDeleting: boolean;
+  disabled: boolean;
+  onDelete: () => void;
+  onSetCover: () => void;
+}
+
+function SortablePhoto({ url, index, total, isDeleting, disabled, onDelete, onSetCover }: SortablePhotoProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: url, disabled });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={cn(
+        'relative group aspect-[4/3] rounded-lg overflow-hidden border',
+        index === 0 ? 'border-blue-400/60' : 'border-white/10',
+        isDragging && 'z-10 opacity-80 ring-2 ring-blue-400',
+      )}
+    >
+      <img
+        src={getImageVariant(url, 'thumb')}
+        alt={`Photo ${index + 1}`}
+        className="w-full h-full object-cover"
+        loading="lazy"
+      />
+      <div className="absolute inset-0 bg-black/0 group-hover:bg-black/40 transition-colors" />
+      <button
+        type="button"
+        {...attributes}
+        {...listeners}
+        disabled={disabled}
+        className="absolute top-1 left-1 opacity-0 group-hover:opacity-100 transition-opacity p-1.5 rounded-full bg-black/60 text-white cursor-grab active:cursor-grabbing"
+        aria-label="Déplacer la photo"
+      >
+        <GripVertical className="w-3.5 h-3.5" />
+      </button>
+      <button
+        type="button"
+        onClick={onDelete}
+        disabled={isDeleting || disabled}
+        className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity p-1.5 rounded-full bg-black/60 hover:bg-red-500/80 text-white"
+      >
+        {isDeleting ? (
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+        ) : (
+          <Trash2 className="w-3.5 h-3.5" />
+        )}
+      </button>
+      {index === 0 ? (
+        <span className="absolute bottom-1 left-1 flex items-center gap-1 text-[10px] text-white bg-blue-500/80 px-1.5 py-0.5 rounded">
+          <Star className="w-2.5 h-2.5 fill-current" />
+          Couverture
+        </span>
+      ) : (
+        <>
+          <span className="absolute bottom-1 left-1 text-[10px] text-white/70 bg-black/50 px-1.5 py-0.5 rounded">
+            {index + 1}/{total}
+          </span>
+          <button
+            type="button"
+            onClick={onSetCover}
+            disabled={disabled}
+            className="absolute bottom-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-1 text-[10px] text-white bg-black/60 hover:bg-blue-500/80 px-1.5 py-0.5 rounded"
+          >
+            <Star className="w-2.5 h-2.5" />
+            Couverture
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
 interface PropertyImageUploadProps {
   propertyId: string;
   organizationId: string;
@@ -44,6 +155,9 @@ export function PropertyImageUpload({
   const [uploadingFiles, setUploadingFiles] = useState<UploadingFile[]>([]);
   const [isDragOver, setIsDragOver] = useState(false);
   const [deletingUrl, setDeletingUrl] = useState<string | null>(null);
+  const [watermark, setWatermark] = useState(false);
+  const { data: organization } = useOrganization();
+  const hasLogo = !!organization?.logo_url;
   const inputRef = useRef<HTMLInputElement>(null);
   const mountedRef = useRef(true);
 
@@ -95,12 +209,15 @@ export function PropertyImageUpload({
     [totalCount],
   );
 
+  // Bake the orientation and bring the photo down to the largest variant before
+  // upload; the WebP variants themselves are generated by process-property-image
   const compressImage = useCallback(async (file: File): Promise<File> => {
     return imageCompression(file, {
-      maxWidthOrHeight: 1920,
-      maxSizeMB: 1,
-      fileType: 'image/webp',
-      initialQuality: 0.85,
+      maxWidthOrHeight: IMAGE_VARIANTS.large,
+      maxSizeMB: 3,
+      fileType: 'image/jpeg',
+      initialQuality: 0.92,
+      preserveExif: false,
       useWebWorker: true,
     });
   }, []);
@@ -141,24 +258,34 @@ export function PropertyImageUpload({
 
           // Upload
           updateEntry(entry.id, { status: 'uploading' });
-          const timestamp = Date.now();
-          const safeName = entry.file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
-          const filePath = `${organizationId}/${propertyId}/${timestamp}-${safeName.replace(/\.\w+$/, '.webp')}`;
+          const filePath = `${organizationId}/${propertyId}/uploads/${entry.id}.jpg`;
 
           const { error: uploadError } = await supabase.storage
-            .from('property-images')
+            .from(PROPERTY_IMAGES_BUCKET)
             .upload(filePath, compressed, {
-              contentType: 'image/webp',
+              contentType: 'image/jpeg',
               upsert: false,
             });
 
           if (uploadError) throw uploadError;
 
-          const { data: urlData } = supabase.storage
-            .from('property-images')
-            .getPublicUrl(filePath);
+          // Variants, watermark and metadata stripping
+          updateEntry(entry.id, { status: 'processing' });
+          const { data, error: processError } = await supabase.functions.invoke<ProcessedImage>(
+            'process-property-image',
+            {
+              body: {
+                organization_id: organizationId,
+                property_id: propertyId,
+                path: filePath,
+                watermark: watermark && hasLogo,
+              },
+            },
+          );
 
-          uploadedUrls.push(urlData.publicUrl);
+          if (processError || !data) throw processError ?? new Error('Traitement de la photo impossible');
+
+          uploadedUrls.push(data.urls.large);
           updateEntry(entry.id, { status: 'done' });
         } catch (err) {
           const message = err instanceof Error ? err.message : 'Erreur inconnue';
@@ -184,31 +311,24 @@ export function PropertyImageUpload({
         setUploadingFiles((prev) => prev.filter((f) => f.status === 'error'));
       }, 2000);
     },
-    [validateFiles, compressImage, updateEntry, organizationId, propertyId, existingImages, onImagesChange],
+    [validateFiles, compressImage, updateEntry, organizationId, propertyId, existingImages, onImagesChange, watermark, hasLogo],
   );
 
   const deleteImage = useCallback(
     async (imageUrl: string) => {
       setDeletingUrl(imageUrl);
       try {
-        // Extract storage path from public URL
-        const bucketPrefix = '/storage/v1/object/public/property-images/';
-        const pathIndex = imageUrl.indexOf(bucketPrefix);
-
-        if (pathIndex !== -1) {
-          const storagePath = decodeURIComponent(
-            imageUrl.slice(pathIndex + bucketPrefix.length),
-          );
+        // Every variant of the photo, only within the organization's folder
+        const storagePaths = getImageStoragePaths(imageUrl).filter((path) => path.startsWith(organizationId));
 
-          if (storagePath.startsWith(organizationId)) {
-            const { error } = await supabase.storage
-              .from('property-images')
-              .remove([storagePath]);
+        if (storagePaths.length > 0) {
+          const { error } = await supabase.storage
+            .from(PROPERTY_IMAGES_BUCKET)
+            .remove(storagePaths);
 
-            if (error) {
-              toast.error('Erreur de suppression', { description: error.message });
-              return;
-            }
+          if (error) {
+            toast.error('Erreur de suppression', { description: error.message });
+            return;
           }
         }
 
@@ -224,6 +344,24 @@ export function PropertyImageUpload({
     [organizationId, existingImages, onImagesChange],
   );
 
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: { distance: 5 },
+    }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates }),
+  );
+
+  const handleSortEnd = useCallback(
+    ({ active, over }: DragEndEvent) => {
+      if (!over || active.id === over.id) return;
+      const from = existingImages.indexOf(String(active.id));
+      const to = existingImages.indexOf(String(over.id));
+      if (from === -1 || to === -1) return;
+      onImagesChange(arrayMove(existingImages, from, to));
+    },
+    [existingImages, onImagesChange],
+  );
+
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
@@ -256,43 +394,36 @@ export function PropertyImageUpload({
   );
 
   const isUploading = uploadingFiles.some(
-    (f) => f.status === 'compressing' || f.status === 'uploading',
+    (f) => f.status === 'compressing' || f.status === 'uploading' || f.status === 'processing',
   );
 
   return (
     <div className="space-y-4">
       {/* Existing Images Grid */}
       {existingImages.length > 0 && (
-        <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2">
-          {existingImages.map((url, index) => (
-            <div
-              key={url}
-              className="relative group aspect-[4/3] rounded-lg overflow-hidden border border-white/10"
-            >
-              <img
-                src={url}
-                alt={`Photo ${index + 1}`}
-                className="w-full h-full object-cover"
-              />
-              <div className="absolute inset-0 bg-black/0 group-hover:bg-black/40 transition-colors" />
-              <button
-                type="button"
-                onClick={() => deleteImage(url)}
-                disabled={deletingUrl === url || disabled}
-                className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity p-1.5 rounded-full bg-black/60 hover:bg-red-500/80 text-white"
-              >
-                {deletingUrl === url ? (
-                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
-                ) : (
-                  <Trash2 className="w-3.5 h-3.5" />
-                )}
-              </button>
-              <span className="absolute bottom-1 left-1 text-[10px] text-white/70 bg-black/50 px-1.5 py-0.5 rounded">
-                {index + 1}/{existingImages.length}
-              </span>
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleSortEnd}>
+          <SortableContext items={existingImages} strategy={rectSortingStrategy}>
+            <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2">
+              {existingImages.map((url, index) => (
+                <SortablePhoto
+                  key={url}
+                  url={url}
+                  index={index}
+                  total={existingImages.length}
+                  isDeleting={deletingUrl === url}
+                  disabled={disabled}
+                  onDelete={() => deleteImage(url)}
+                  onSetCover={() => onImagesChange(setCoverImage(existingImages, url))}
+                />
+              ))}
             </div>
-          ))}
-        </div>
+          </SortableContext>
+        </DndContext>
+      )}
+      {existingImages.length > 1 && (
+        <p className="text-[10px] text-muted-foreground">
+          Faites glisser les photos pour les réordonner. La première est la photo de couverture.
+        </p>
       )}
 
       {/* Uploading Files */}
@@ -321,6 +452,12 @@ export function PropertyImageUpload({
                     <span className="text-[10px] text-white/80">Envoi...</span>
                   </div>
                 )}
+                {entry.status === 'processing' && (
+                  <div className="flex flex-col items-center gap-1">
+                    <Loader2 className="w-5 h-5 text-blue-300 animate-spin" />
+                    <span className="text-[10px] text-white/80">Optimisation...</span>
+                  </div>
+                )}
                 {entry.status === 'done' && (
                   <CheckCircle className="w-6 h-6 text-green-400" />
                 )}
@@ -338,6 +475,24 @@ export function PropertyImageUpload({
         </div>
       )}
 
+      {/* Watermark */}
+      {canUpload && (
+        <div className="flex items-center justify-between rounded-xl border border-white/10 px-3 py-2">
+          <div>
+            <Label htmlFor="photo-watermark" className="text-sm text-white">Filigrane de l'agence</Label>
+            <p className="text-[10px] text-muted-foreground">
+              {hasLogo ? 'Logo apposé sur les nouvelles photos' : 'Ajoutez le logo de l\'agence dans les paramètres'}
+            </p>
+          </div>
+          <Switch
+            id="photo-watermark"
+            checked={watermark && hasLogo}
+            onCheckedChange={setWatermark}
+            disabled={!hasLogo || isUploading}
+          />
+        </div>
+      )}
+
       {/* Drop Zone */}
       {canUpload && (
         <div
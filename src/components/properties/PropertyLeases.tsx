@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { FileSignature, Pencil, Plus, User, CalendarClock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { LeaseFormDialog } from '@/components/leases/LeaseFormDialog';
+import { useLeases, type LeaseWithParties } from '@/hooks/useLeases';
+import { formatCurrency, formatShortDate } from '@/lib/formatters';
+import { LEASE_END_WARNING_DAYS, LEASE_STATUS_LABELS, type LeaseStatus } from '@/lib/constants';
+import { getCurrentLease, getLeaseDaysLeft } from '@/lib/rental';
+import type { Tables } from '@/integrations/supabase/types';
+
+interface PropertyLeasesProps {
+  property: Tables<'properties'>;
+}
+
+export function PropertyLeases({ property }: PropertyLeasesProps) {
+  const { leases, isLoading, update } = useLeases(property.id);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<LeaseWithParties | null>(null);
+
+  const current = getCurrentLease(leases);
+  const past = leases.filter((l) => l.id !== current?.id);
+  const daysLeft = current ? getLeaseDaysLeft(current) : null;
+  // Once past its end date the lease is closed ('termine'); before that, ending it is a résiliation
+  const isOver = daysLeft !== null && daysLeft <= 0;
+
+  const openForm = (lease: LeaseWithParties | null) => {
+    setEditing(lease);
+    setFormOpen(true);
+  };
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-xl p-6">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <h4 className="text-sm font-semibold text-blue-400 uppercase tracking-wider flex items-center gap-2">
+          <FileSignature className="w-4 h-4" />
+          Bail
+        </h4>
+        {!current && (
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => openForm(null)}>
+            <Plus className="w-4 h-4" />
+            Nouveau bail
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-24 w-full" />
+      ) : !current && past.length === 0 ? (
+        <p className="text-muted-foreground italic text-sm">Aucun bail enregistré</p>
+      ) : (
+        <div className="space-y-4">
+          {current && (
+            <div className="rounded-lg border border-blue-500/20 bg-blue-500/5 p-4 space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-white font-semibold flex items-center gap-2">
+                    <User className="w-4 h-4 text-blue-400 shrink-0" />
+                    {current.tenant?.full_name ?? 'Locataire non renseigné'}
+                  </p>
+                  {current.owner && (
+                    <p className="text-xs text-muted-foreground mt-0.5">Bailleur : {current.owner.full_name}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1.5 shrink-0">
+                  <Badge variant="outline" className="text-xs">{current.is_furnished ? 'Meublé' : 'Vide'}</Badge>
+                  {daysLeft !== null && daysLeft <= LEASE_END_WARNING_DAYS && (
+                    <Badge className="text-xs bg-amber-500/20 text-amber-400 border border-amber-500/30">
+                      {daysLeft < 0 ? `Échu depuis ${-daysLeft}j` : `Fin dans ${daysLeft}j`}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <p className="text-xs text-muted-foreground">Période</p>
+                  <p className="text-white">{formatShortDate(current.start_date)} → {formatShortDate(current.end_date)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Loyer</p>
+                  <p className="text-white">
+                    {formatCurrency(current.rent_amount)} HC
+                    {current.charges_amount ? ` + ${formatCurrency(current.charges_amount)}` : ''}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Dépôt de garantie</p>
+                  <p className="text-white">{current.deposit_amount != null ? formatCurrency(current.deposit_amount) : '—'}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <CalendarClock className="w-3 h-3" />
+                    Prochaine révision
+                  </p>
+                  <p className="text-white">
+                    {current.indexation_date ? formatShortDate(current.indexation_date) : '—'}
+                    {current.irl_reference && <span className="text-xs text-muted-foreground"> · IRL {current.irl_reference}</span>}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" className="gap-1.5" onClick={() => openForm(current)}>
+                  <Pencil className="w-3.5 h-3.5" />
+                  Modifier
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm">
+                      {isOver ? 'Clôturer le bail' : 'Résilier'}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>{isOver ? 'Clôturer ce bail ?' : 'Résilier ce bail ?'}</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Le bail de {current.tenant?.full_name ?? 'ce locataire'} passera dans l'historique du bien.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Annuler</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => update({ id: current.id, status: isOver ? 'termine' : 'resilie' })}>
+                        Confirmer
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+          )}
+
+          {past.length > 0 && (
+            <div className="space-y-1.5">
+              <p className="text-xs text-muted-foreground uppercase tracking-wider">Baux précédents</p>
+              {past.map((lease) => (
+                <div key={lease.id} className="flex items-center justify-between text-xs rounded-md bg-white/[0.03] px-3 py-2">
+                  <span className="truncate">
+                    {lease.tenant?.full_name ?? 'Locataire'} · {formatShortDate(lease.start_date)} → {formatShortDate(lease.end_date)}
+                  </span>
+                  <Badge variant="outline" className="text-[10px] shrink-0 ml-2">
+                    {LEASE_STATUS_LABELS[lease.status as LeaseStatus] ?? lease.status}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <LeaseFormDialog open={formOpen} onOpenChange={setFormOpen} property={property} lease={editing} />
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useMemo } from 'react';
+import { MapContainer, TileLayer, CircleMarker, Popup, useMap } from 'react-leaflet';
+import { latLngBounds } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Loader2, MapPin } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { geocodePropertyColumns } from '@/lib/geocoding';
+import { getCoordinates, type LatLng } from '@/lib/geo';
+import { formatCurrency } from '@/lib/formatters';
+import { PROPERTY_STATUS_LABELS } from '@/lib/constants';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Property = Tables<'properties'>;
+
+interface PropertyMapViewProps {
+  properties: Property[];
+  onSelect: (property: Property) => void;
+}
+
+// Marker colors by status, matching the badges of the grid
+const MARKER_COLORS: Record<string, string> = {
+  disponible: '#60a5fa',
+  sous_compromis: '#c084fc',
+  vendu: '#2563eb',
+  loue: '#9333ea',
+  retire: '#6b7280',
+};
+
+// Center of metropolitan France, used until a property is located
+const DEFAULT_CENTER: LatLng = [46.6, 2.5];
+
+// Re-fit only when the set of markers changes, not on every parent render
+function FitBounds({ points }: { points: LatLng[] }) {
+  const map = useMap();
+  const signature = points.map((p) => p.join(',')).join(';');
+  useEffect(() => {
+    if (points.length === 0) return;
+    map.fitBounds(latLngBounds(points), { padding: [40, 40], maxZoom: 15 });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [map, signature]);
+  return null;
+}
+
+export function PropertyMapView({ properties, onSelect }: PropertyMapViewProps) {
+  const { organizationId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const located = useMemo(
+    () => properties.flatMap((p) => {
+      const position = getCoordinates(p);
+      return position ? [{ property: p, position }] : [];
+    }),
+    [properties]
+  );
+  const points = useMemo(() => located.map((l) => l.position), [located]);
+  const missing = properties.filter((p) => !getCoordinates(p) && (p.address || p.postal_code || p.city));
+
+  // Locate properties saved before geocoding existed, one at a time
+  const geocodeMutation = useMutation({
+    mutationFn: async (toGeocode: Property[]) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+      let found = 0;
+      for (const property of toGeocode) {
+        const coordinates = await geocodePropertyColumns(property);
+        if (coordinates.latitude == null) continue;
+        const { error } = await supabase
+          .from('properties')
+          .update(coordinates)
+          .eq('id', property.id)
+          .eq('organization_id', organizationId);
+        if (error) throw error;
+        found++;
+      }
+      return { found, total: toGeocode.length };
+    },
+    onSuccess: ({ found, total }) => {
+      queryClient.invalidateQueries({ queryKey: ['properties', organizationId] });
+      if (found === total) {
+        toast.success(`${found} bien(s) localisé(s)`);
+      } else {
+        toast.warning(`${found} bien(s) localisé(s) sur ${total}`, {
+          description: 'Vérifiez les adresses des biens restants.',
+        });
+      }
+    },
+    onError: (error) => {
+      toast.error('Erreur lors du géocodage', { description: error.message });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      {missing.length > 0 && (
+        <div className="flex items-center justify-between gap-3 rounded-lg border border-white/10 bg-white/5 px-4 py-2.5 text-sm">
+          <span className="flex items-center gap-2 text-muted-foreground">
+            <MapPin className="w-4 h-4" />
+            {missing.length} bien(s) sans coordonnées
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-2"
+            disabled={geocodeMutation.isPending}
+            onClick={() => geocodeMutation.mutate(missing)}
+          >
+            {geocodeMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            Géocoder
+          </Button>
+        </div>
+      )}
+
+      {/* isolate keeps Leaflet panes (z-index 400+) below sheets and dialogs */}
+      <div className="isolate h-[600px] overflow-hidden rounded-xl border border-white/10">
+        <MapContainer center={DEFAULT_CENTER} zoom={6} className="h-full w-full" scrollWheelZoom>
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          <FitBounds points={points} />
+          {located.map(({ property, position }) => (
+            <CircleMarker
+              key={property.id}
+              center={position}
+              radius={8}
+              pathOptions={{
+                color: '#ffffff',
+                weight: 1.5,
+                fillColor: MARKER_COLORS[property.status ?? ''] ?? MARKER_COLORS.retire,
+                fillOpacity: 0.9,
+              }}
+            >
+              <Popup>
+                <div className="space-y-1">
+                  <p className="font-semibold">{property.title}</p>
+                  {property.address && <p className="text-xs">{property.address}</p>}
+                  <p className="text-xs">
+                    {property.price ? formatCurrency(property.price) : 'Prix non défini'}
+                    {property.status ? ` · ${PROPERTY_STATUS_LABELS[property.status] ?? property.status}` : ''}
+                  </p>
+                  <button className="text-xs font-medium text-blue-600 underline" onClick={() => onSelect(property)}>
+                    Voir la fiche
+                  </button>
+                </div>
+              </Popup>
+            </CircleMarker>
+          ))}
+        </MapContainer>
+      </div>
+    </div>
+  );
+}
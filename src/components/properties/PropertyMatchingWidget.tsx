@@ -32,9 +32,15 @@ import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { injectVariables } from '@/components/emails/VariableInjector';
 import { formatCurrency } from '@/lib/formatters';
+import { formatDistance } from '@/lib/geo';
+import { getAmenityLabel } from '@/lib/amenities';
+import { BUYER_ROLES, calculateMatchScore, type MatchDetails } from '@/lib/property-matching';
 import type { Property } from '@/hooks/useProperties';
 import type { Tables } from '@/integrations/supabase/types';
 
+// Same limit as the send-property-proposal Edge Function
+const MAX_RECIPIENTS_PER_CALL = 10;
+
 interface PropertyMatchingWidgetProps {
   property: Property;
   onContactBuyer?: (contactId: string) => void;
@@ -51,99 +57,10 @@ interface MatchResult {
     }
   };
   score: number;
-  details: {
-    budgetMatch: 'perfect' | 'tight' | 'over' | null;
-    surfaceMatch: boolean;
-    roomsMatch: boolean;
-    typeMatch: boolean;
-    cityMatch: boolean;
-  };
+  details: MatchDetails;
   warnings: string[];
 }
 
-function calculateMatchScore(
-  property: Property,
-  search: ContactSearch
-): { score: number; details: MatchResult['details']; warnings: string[] } {
-  let score = 0;
-  let maxScore = 0;
-  const warnings: string[] = [];
-
-  const details: MatchResult['details'] = {
-    budgetMatch: null,
-    surfaceMatch: false,
-    roomsMatch: false,
-    typeMatch: false,
-    cityMatch: false,
-  };
-
-  // Budget matching (40% weight)
-  if (search.budget_max && property.price) {
-    maxScore += 40;
-    const budgetDiff = (search.budget_max - property.price) / property.price;
-
-    if (budgetDiff >= 0) {
-      score += 40;
-      details.budgetMatch = 'perfect';
-    } else if (budgetDiff >= -0.1) {
-      score += 25;
-      details.budgetMatch = 'tight';
-      warnings.push(`Budget serré (+${Math.abs(Math.round(budgetDiff * 100))}%)`);
-    } else {
-      details.budgetMatch = 'over';
-      warnings.push(`Hors budget (+${Math.abs(Math.round(budgetDiff * 100))}%)`);
-    }
-  }
-
-  // Surface matching (20% weight)
-  if (search.min_surface && property.surface) {
-    maxScore += 20;
-    if (property.surface >= search.min_surface) {
-      score += 20;
-      details.surfaceMatch = true;
-    } else {
-      warnings.push(`Surface insuffisante (${property.surface}m² vs ${search.min_surface}m² min)`);
-    }
-  }
-
-  // Rooms matching (15% weight)
-  if (search.min_rooms && property.rooms) {
-    maxScore += 15;
-    if (property.rooms >= search.min_rooms) {
-      score += 15;
-      details.roomsMatch = true;
-    } else {
-      warnings.push(`Pièces insuffisantes (${property.rooms} vs ${search.min_rooms} min)`);
-    }
-  }
-
-  // Property type matching (15% weight)
-  if (search.property_types && search.property_types.length > 0 && property.type) {
-    maxScore += 15;
-    if (search.property_types.includes(property.type)) {
-      score += 15;
-      details.typeMatch = true;
-    } else {
-      warnings.push(`Type non recherché`);
-    }
-  }
-
-  // City matching (10% weight)
-  if (search.cities && search.cities.length > 0 && property.city) {
-    maxScore += 10;
-    if (search.cities.some(city =>
-      city.toLowerCase() === property.city?.toLowerCase()
-    )) {
-      score += 10;
-      details.cityMatch = true;
-    }
-  }
-
-  const finalScore = maxScore > 0 ? Math.round((score / maxScore) * 100) : 0;
-
-  return { score: finalScore, details, warnings };
-}
-
 function MatchScoreBadge({ score }: { score: number }) {
   if (score >= 80) {
     return (
@@ -275,6 +192,30 @@ function BuyerCard({
                   Ville ✓
                 </Badge>
               )}
+              {match.details.viagerMatch && (
+                <Badge variant="outline" className="text-xs py-0 h-5">
+                  Viager ✓
+                </Badge>
+              )}
+              {match.details.mustHaveMatch && (match.search.must_have_amenities?.length ?? 0) > 0 && (
+                <Badge variant="outline" className="text-xs py-0 h-5">
+                  Prestations ✓
+                </Badge>
+              )}
+              {match.details.niceToHaveMatched.length > 0 && (
+                <Badge
+                  variant="outline"
+                  className="text-xs py-0 h-5"
+                  title={match.details.niceToHaveMatched.map(getAmenityLabel).join(', ')}
+                >
+                  +{match.details.niceToHaveMatched.length} souhait{match.details.niceToHaveMatched.length > 1 ? 's' : ''}
+                </Badge>
+              )}
+              {match.details.areaMatch && match.details.distanceKm != null && (
+                <Badge variant="outline" className="text-xs py-0 h-5">
+                  Zone ✓ · {formatDistance(match.details.distanceKm)}
+                </Badge>
+              )}
             </div>
 
             {/* Warnings */}
@@ -444,21 +385,31 @@ function BulkProposalDialog({
 
     setIsSending(true);
     try {
-      const { data, error } = await supabase.functions.invoke('send-property-proposal', {
-        body: {
-          propertyId: property.id,
-          contactIds: selectedBuyers,
-          templateId: selectedTemplateId,
-          logActivity,
-        },
-      });
+      const summary = { total: 0, success: 0, failed: 0 };
+      const results: Array<{ contactId: string; contactName: string; success: boolean; error?: string }> = [];
+
+      // One call per batch, the Edge Function caps the recipients per call
+      for (let i = 0; i < selectedBuyers.length; i += MAX_RECIPIENTS_PER_CALL) {
+        const { data, error } = await supabase.functions.invoke('send-property-proposal', {
+          body: {
+            propertyId: property.id,
+            contactIds: selectedBuyers.slice(i, i + MAX_RECIPIENTS_PER_CALL),
+            templateId: selectedTemplateId,
+            logActivity,
+          },
+        });
 
-      if (error) throw error;
+        if (error) throw error;
 
-      const { summary, results } = data as {
-        summary: { total: number; success: number; failed: number };
-        results: Array<{ contactId: string; contactName: string; success: boolean; error?: string }>;
-      };
+        const batch = data as {
+          summary: { total: number; success: number; failed: number };
+          results: Array<{ contactId: string; contactName: string; success: boolean; error?: string }>;
+        };
+        summary.total += batch.summary.total;
+        summary.success += batch.summary.success;
+        summary.failed += batch.summary.failed;
+        results.push(...batch.results);
+      }
 
       if (summary.failed === 0) {
         toast.success(`${summary.success} email${summary.success > 1 ? 's' : ''} envoyé${summary.success > 1 ? 's' : ''} avec succès`);
@@ -650,18 +601,18 @@ export function PropertyMatchingWidget({ property, onContactBuyer }: PropertyMat
 
   const handleSendSingleProposal = useCallback(async (contactId: string, contactName: string) => {
     if (!organizationId) return;
-    const { error: fnError } = await supabase.functions.invoke('send-property-proposal', {
-      body: { property_id: property.id, contact_id: contactId, organization_id: organizationId },
+    // The Edge Function records the property_proposals row itself (needed for open/click tracking)
+    const { data, error: fnError } = await supabase.functions.invoke('send-property-proposal', {
+      body: { propertyId: property.id, contactIds: [contactId], logActivity: true },
     });
     if (fnError) throw fnError;
-    const { error: insertError } = await supabase.from('property_proposals').insert({
-      property_id: property.id,
-      contact_id: contactId,
-      organization_id: organizationId,
-      sent_at: new Date().toISOString(),
-      template_id: null,
-    });
-    if (insertError) throw insertError;
+    const { results } = data as { results: Array<{ success: boolean; error?: string }> };
+    if (!results[0]?.success) {
+      toast.error(`Proposition non envoyée à ${contactName}`, {
+        description: results[0]?.error || 'Erreur inconnue',
+      });
+      return;
+    }
     toast.success(`Proposition envoyée à ${contactName} ✅`);
     setContactedIds(prev => new Set([...prev, contactId]));
   }, [organizationId, property.id]);
@@ -689,7 +640,7 @@ export function PropertyMatchingWidget({ property, onContactBuyer }: PropertyMat
     const results: MatchResult[] = [];
 
     for (const search of searches) {
-      if (search.contact?.role && !['acheteur', 'vendeur_acheteur', 'prospect'].includes(search.contact.role)) {
+      if (search.contact?.role && !BUYER_ROLES.includes(search.contact.role)) {
         continue;
       }
 
@@ -8,21 +8,14 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   BarChart3, 
-  Phone, 
-  Mail, 
-  MapPin, 
   Calendar, 
   Clock, 
   Copy, 
   Check,
   FileText,
-  Users,
-  Handshake,
-  Bell,
-  PenLine,
-  ListTodo,
-  HelpCircle
+  Users
 } from 'lucide-react';
+import { ACTIVITY_TYPE_CONFIG } from '@/components/activities/activity-type-config';
 import { useActivities, type Activity } from '@/hooks/useActivities';
 import { format, subDays, isAfter } from 'date-fns';
 import { fr } from 'date-fns/locale';
@@ -44,18 +37,6 @@ interface PropertyOwnerReportProps {
   property: Property;
 }
 
-const ACTIVITY_TYPE_CONFIG: Record<string, { icon: React.ElementType; label: string; color: string }> = {
-  appel: { icon: Phone, label: 'Appels', color: 'text-blue-400' },
-  email: { icon: Mail, label: 'Emails', color: 'text-purple-400' },
-  visite: { icon: MapPin, label: 'Visites', color: 'text-emerald-400' },
-  rdv: { icon: Calendar, label: 'Rendez-vous', color: 'text-amber-400' },
-  relance: { icon: Bell, label: 'Relances', color: 'text-orange-400' },
-  signature: { icon: Handshake, label: 'Signatures', color: 'text-green-400' },
-  note: { icon: PenLine, label: 'Notes', color: 'text-slate-400' },
-  tache: { icon: ListTodo, label: 'Tâches', color: 'text-indigo-400' },
-  autre: { icon: HelpCircle, label: 'Autres', color: 'text-gray-400' },
-};
-
 function ActivityCard({ activity }: { activity: Activity }) {
   const config = ACTIVITY_TYPE_CONFIG[activity.type || 'autre'] || ACTIVITY_TYPE_CONFIG.autre;
   const Icon = config.icon;
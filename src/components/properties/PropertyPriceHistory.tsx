@@ -0,0 +1,91 @@
+import { History, TrendingDown, TrendingUp, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { usePropertyPriceHistory } from '@/hooks/usePriceHistory';
+import { formatCurrency, formatPercentage, formatShortDate } from '@/lib/formatters';
+import { getPriceChangePercent, isPriceDrop } from '@/lib/price-history';
+
+interface PropertyPriceHistoryProps {
+  propertyId: string;
+  onNotifyBuyers?: (previousPrice: number) => void;
+}
+
+export function PropertyPriceHistory({ propertyId, onNotifyBuyers }: PropertyPriceHistoryProps) {
+  const { history, isLoading } = usePropertyPriceHistory(propertyId);
+  const latest = history[0];
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-xl p-6">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <h4 className="text-sm font-semibold text-blue-400 uppercase tracking-wider flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Historique des prix
+        </h4>
+        {latest && isPriceDrop(latest) && onNotifyBuyers && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2 border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/10"
+            onClick={() => onNotifyBuyers(latest.old_price!)}
+          >
+            <Users className="w-4 h-4" />
+            Prévenir les acquéreurs
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : history.length === 0 ? (
+        <p className="text-muted-foreground italic text-sm">Aucun changement de prix enregistré</p>
+      ) : (
+        <ol className="relative border-l border-white/10 ml-2 space-y-4">
+          {history.map((change) => {
+            const isDrop = isPriceDrop(change);
+            const percent = change.old_price != null && change.new_price != null
+              ? getPriceChangePercent(change.old_price, change.new_price)
+              : null;
+
+            return (
+              <li key={change.id} className="ml-4">
+                <span
+                  className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-background ${
+                    change.old_price == null ? 'bg-blue-400' : isDrop ? 'bg-emerald-400' : 'bg-purple-400'
+                  }`}
+                />
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className="text-white font-semibold">
+                    {change.new_price != null ? formatCurrency(change.new_price) : 'Prix retiré'}
+                  </p>
+                  {change.old_price == null ? (
+                    <Badge variant="outline" className="text-xs">Prix initial</Badge>
+                  ) : percent !== null && (
+                    <Badge
+                      className={`text-xs gap-1 ${
+                        isDrop
+                          ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500/30'
+                          : 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
+                      }`}
+                    >
+                      {isDrop ? <TrendingDown className="w-3 h-3" /> : <TrendingUp className="w-3 h-3" />}
+                      {percent > 0 ? '+' : ''}{formatPercentage(percent)}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatShortDate(change.changed_at)}
+                  {change.old_price != null && ` · avant ${formatCurrency(change.old_price)}`}
+                  {change.author?.full_name && ` · par ${change.author.full_name}`}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
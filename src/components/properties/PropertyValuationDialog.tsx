@@ -0,0 +1,223 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Calculator, Download, Loader2, AlertTriangle, MapPin } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/hooks/useOrganization';
+import { formatCurrency, formatNumber, formatShortDate } from '@/lib/formatters';
+import {
+  CONFIDENCE_LABELS,
+  estimatePropertyValue,
+  generateValuationReport,
+  getValuationFileName,
+  getValuationIssue,
+  MIN_COMPARABLES,
+  type DvfTransaction,
+} from '@/lib/property-valuation';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Property = Tables<'properties'>;
+
+interface PropertyValuationDialogProps {
+  property: Property;
+  preparedFor?: string | null;
+  triggerClassName?: string;
+}
+
+export function PropertyValuationDialog({ property, preparedFor, triggerClassName }: PropertyValuationDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [recipient, setRecipient] = useState(preparedFor ?? '');
+  const [agentName, setAgentName] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const { user } = useAuth();
+  const { data: organization } = useOrganization();
+
+  const issue = getValuationIssue(property);
+
+  useEffect(() => {
+    if (!open) return;
+    setRecipient(preparedFor ?? '');
+    setAgentName((user as { user_metadata?: { full_name?: string } } | null)?.user_metadata?.full_name ?? '');
+  }, [open, preparedFor, user]);
+
+  // Same cache entry as the dashboard MarketPulse widget
+  const { data: marketData, isLoading, isError } = useQuery<{ recent_transactions: DvfTransaction[] }>({
+    queryKey: ['market-data', property.postal_code],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('fetch-market-data', {
+        body: { postalCode: property.postal_code },
+      });
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !issue,
+    staleTime: 1000 * 60 * 60,
+  });
+
+  const valuation = useMemo(
+    () => (marketData ? estimatePropertyValue(property, marketData.recent_transactions ?? []) : null),
+    [property, marketData]
+  );
+
+  const handleDownload = async () => {
+    if (!valuation) return;
+    setIsGenerating(true);
+    try {
+      const doc = await generateValuationReport(property, organization ?? null, valuation, {
+        preparedFor: recipient || null,
+        agentName: agentName || null,
+      });
+      doc.save(getValuationFileName(property));
+      toast.success('Avis de valeur généré');
+    } catch (error) {
+      toast.error('Erreur lors de la génération du PDF', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className={triggerClassName ?? 'gap-2'}>
+          <Calculator className="w-4 h-4" />
+          Avis de valeur
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Calculator className="w-5 h-5 text-blue-400" />
+            Avis de valeur
+          </DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Estimation à partir des ventes DVF comparables{property.postal_code ? ` (${property.postal_code})` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {issue ? (
+          <div className="flex items-center gap-2 p-4 rounded-lg bg-amber-500/10 border border-amber-500/20 text-sm text-amber-400">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            {issue}
+          </div>
+        ) : isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-24 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        ) : isError ? (
+          <div className="flex items-center gap-2 p-4 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-400">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            Données DVF indisponibles pour ce secteur
+          </div>
+        ) : !valuation ? (
+          <div className="flex items-center gap-2 p-4 rounded-lg bg-amber-500/10 border border-amber-500/20 text-sm text-amber-400">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            Moins de {MIN_COMPARABLES} ventes comparables dans ce code postal : estimation impossible.
+          </div>
+        ) : (
+          <div className="flex flex-col gap-4 min-h-0">
+            {/* Estimate */}
+            <div className="grid grid-cols-3 gap-3">
+              {([
+                ['low', 'Basse'],
+                ['likely', 'Probable'],
+                ['high', 'Haute'],
+              ] as const).map(([key, label]) => (
+                <div
+                  key={key}
+                  className={`rounded-xl p-4 text-center border ${
+                    key === 'likely' ? 'bg-gradient-to-br from-blue-500/10 to-purple-500/10 border-blue-500/30' : 'bg-white/5 border-white/10'
+                  }`}
+                >
+                  <p className="text-xs text-muted-foreground">{label}</p>
+                  <p className={`font-bold ${key === 'likely' ? 'text-xl text-purple-400' : 'text-lg'}`}>
+                    {formatCurrency(valuation.estimate[key])}
+                  </p>
+                  <p className="text-xs text-muted-foreground font-mono">
+                    {formatNumber(Math.round(valuation.pricePerM2[key] * (1 + valuation.totalAdjustment / 100)))} €/m²
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {/* Adjustments */}
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <Badge variant="outline">{valuation.comparables.length} comparables</Badge>
+              <Badge variant="outline">Surface ±{Math.round(valuation.surfaceBand * 100)}%</Badge>
+              {valuation.adjustments.map((a) => (
+                <Badge
+                  key={a.label}
+                  className={a.percent > 0
+                    ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500/30'
+                    : 'bg-amber-500/20 text-amber-400 border border-amber-500/30'}
+                >
+                  {a.label} {a.percent > 0 ? '+' : ''}{a.percent}%
+                </Badge>
+              ))}
+              <span className="text-muted-foreground ml-auto">Fiabilité : {CONFIDENCE_LABELS[valuation.confidence]}</span>
+            </div>
+
+            {/* Comparables */}
+            <ScrollArea className="flex-1 min-h-0 max-h-[30vh] pr-3">
+              <div className="space-y-1.5">
+                {valuation.comparables.map((tx, i) => (
+                  <div
+                    key={`${tx.date}-${i}`}
+                    className="flex items-center justify-between rounded-lg border border-white/5 bg-white/[0.02] px-3 py-2 text-sm"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium text-xs truncate">
+                        {tx.type} — {formatNumber(tx.surface)} m²{tx.rooms != null ? ` · ${tx.rooms}p` : ''}
+                      </p>
+                      <p className="text-[10px] text-muted-foreground flex items-center gap-1 truncate">
+                        <MapPin className="w-2.5 h-2.5 shrink-0" />
+                        {tx.address}
+                      </p>
+                    </div>
+                    <div className="text-right shrink-0 ml-3">
+                      <p className="text-xs font-semibold tabular-nums text-blue-400">{formatCurrency(tx.price)}</p>
+                      <p className="text-[10px] text-muted-foreground">
+                        {formatNumber(tx.price_m2)} €/m² · {tx.date ? formatShortDate(tx.date) : '—'}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {/* PDF */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="valuation-recipient">À l'attention de</Label>
+                <Input id="valuation-recipient" value={recipient} onChange={(e) => setRecipient(e.target.value)} placeholder="Nom du vendeur" />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="valuation-agent">Conseiller</Label>
+                <Input id="valuation-agent" value={agentName} onChange={(e) => setAgentName(e.target.value)} />
+              </div>
+            </div>
+            <Button
+              onClick={handleDownload}
+              disabled={isGenerating}
+              className="gap-2 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
+            >
+              {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              Télécharger l'avis de valeur (PDF)
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState, useMemo } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CalendarClock, Loader2, PhoneCall, User } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { buildRentalBanForecast, getSaleProspectingActivity, type RentalBanGroup } from '@/lib/rental-ban';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Property = Tables<'properties'>;
+
+interface RentalBanForecastDialogProps {
+  properties: Property[] | undefined;
+  contacts: { id: string; full_name: string }[] | undefined;
+}
+
+const MILESTONE_COLORS: Record<string, string> = {
+  G: 'text-red-400 border-red-500/30 bg-red-500/10',
+  F: 'text-orange-400 border-orange-500/30 bg-orange-500/10',
+  E: 'text-amber-400 border-amber-500/30 bg-amber-500/10',
+};
+
+/**
+ * Loi Climat et Résilience forecast across the rental portfolio:
+ * which properties become unrentable at each milestone, and their owners.
+ */
+export function RentalBanForecastDialog({ properties, contacts }: RentalBanForecastDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { user, organizationId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: leases } = useOrgQuery<Pick<Tables<'leases'>, 'property_id' | 'owner_id'>[]>(
+    'leases',
+    { select: 'property_id, owner_id' },
+    { enabled: open }
+  );
+
+  const forecast = useMemo(
+    () => buildRentalBanForecast(properties ?? [], leases ?? []),
+    [properties, leases]
+  );
+  const ownerNames = useMemo(() => new Map((contacts ?? []).map((c) => [c.id, c.full_name])), [contacts]);
+
+  const prospectMutation = useMutation({
+    mutationFn: async (group: RentalBanGroup<Property>) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+      const entries = group.entries.filter((entry) => entry.ownerId);
+      const activities = entries.map(({ property, ownerId }) => ({
+        ...getSaleProspectingActivity(property, group.milestone),
+        property,
+        ownerId,
+      }));
+
+      // Skip owners who already have this call planned
+      const { data: planned, error: plannedError } = await supabase
+        .from('activities')
+        .select('property_id, name')
+        .eq('organization_id', organizationId)
+        .eq('status', 'planifie')
+        .in('property_id', activities.map((a) => a.property.id));
+      if (plannedError) throw plannedError;
+      const plannedKeys = new Set((planned ?? []).map((a) => `${a.property_id}|${a.name}`));
+      const rows = activities
+        .filter((a) => !plannedKeys.has(`${a.property.id}|${a.name}`))
+        .map((a) => ({
+          organization_id: organizationId,
+          name: a.name,
+          description: a.description,
+          type: 'appel' as const,
+          status: 'planifie' as const,
+          priority: group.isPast ? ('haute' as const) : ('normale' as const),
+          date: new Date().toISOString(),
+          contact_id: a.ownerId,
+          property_id: a.property.id,
+          assigned_to: user?.id ?? null,
+        }));
+
+      if (rows.length > 0) {
+        const { error } = await supabase.from('activities').insert(rows);
+        if (error) throw error;
+      }
+      return { created: rows.length, skipped: activities.length - rows.length };
+    },
+    onSuccess: ({ created, skipped }) => {
+      queryClient.invalidateQueries({ queryKey: ['activities', organizationId] });
+      if (created === 0) {
+        toast.info('Relances déjà planifiées pour ces propriétaires');
+      } else {
+        toast.success(`${created} relance(s) de prospection créée(s)`, {
+          description: skipped > 0 ? `${skipped} déjà planifiée(s)` : undefined,
+        });
+      }
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de la création des relances', { description: error.message });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <CalendarClock className="w-4 h-4" />
+          Interdictions de location
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-blue-400" />
+            Calendrier loi Climat et Résilience
+          </DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            {forecast.rentalCount} bien(s) en location · logements classés G, F puis E interdits à la location.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Summary */}
+        <div className="grid grid-cols-3 gap-3">
+          {forecast.groups.map((group) => (
+            <Card key={group.milestone.dpe} className="glass border-white/10">
+              <CardContent className="p-4 text-center">
+                <p className="text-2xl font-bold">{group.entries.length}</p>
+                <p className="text-xs text-muted-foreground">
+                  Classe {group.milestone.dpe} · {group.milestone.date.slice(0, 4)}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <ScrollArea className="flex-1 min-h-0 max-h-[50vh] pr-3">
+          <div className="space-y-4">
+            {forecast.groups.map((group) => {
+              const reachable = group.entries.filter((entry) => entry.ownerId).length;
+              return (
+                <div key={group.milestone.dpe} className="space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge className={`border ${MILESTONE_COLORS[group.milestone.dpe]}`}>
+                        DPE {group.milestone.dpe}
+                      </Badge>
+                      <span className="text-sm font-medium">
+                        {group.isPast ? 'Interdit depuis le' : 'Interdit à partir du'} {group.milestone.label}
+                      </span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-2"
+                      disabled={reachable === 0 || prospectMutation.isPending}
+                      onClick={() => prospectMutation.mutate(group)}
+                    >
+                      {prospectMutation.isPending && prospectMutation.variables === group
+                        ? <Loader2 className="w-4 h-4 animate-spin" />
+                        : <PhoneCall className="w-4 h-4" />}
+                      Proposer la vente ({group.ownerIds.length})
+                    </Button>
+                  </div>
+
+                  {group.entries.length === 0 ? (
+                    <p className="text-xs text-muted-foreground pl-1">Aucun bien concerné.</p>
+                  ) : (
+                    group.entries.map(({ property, ownerId }) => (
+                      <div
+                        key={property.id}
+                        className="flex items-center justify-between gap-3 p-3 rounded-lg bg-white/5 border border-white/10"
+                      >
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">{property.title || property.address}</p>
+                          <p className="text-xs text-muted-foreground">{property.city || '—'}</p>
+                        </div>
+                        <span className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
+                          <User className="w-3 h-3" />
+                          {ownerId ? ownerNames.get(ownerId) ?? 'Propriétaire' : 'Propriétaire non renseigné'}
+                        </span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              );
+            })}
+
+            {forecast.unknownDpe.length > 0 && (
+              <p className="text-xs text-amber-400/80">
+                {forecast.unknownDpe.length} bien(s) en location sans DPE renseigné :{' '}
+                {forecast.unknownDpe.map(({ property }) => property.title || property.address).join(', ')}
+              </p>
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
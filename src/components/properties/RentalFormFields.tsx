@@ -0,0 +1,96 @@
+import { useFormContext } from 'react-hook-form';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { formatCurrency } from '@/lib/formatters';
+import { checkRentControl, getMaxDeposit } from '@/lib/rental';
+
+const premiumInputClass = "bg-white/10 hover:bg-white/15 border border-white/20 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/50 text-white placeholder:text-white/40 transition-all duration-200 rounded-xl";
+
+// Rental fields shared by the property create and edit forms
+interface RentalFormValues {
+  price?: number | null;
+  surface?: number | null;
+  rent_charges?: number | null;
+  security_deposit?: number | null;
+  is_furnished?: boolean;
+  reference_rent_m2?: number | null;
+}
+
+const parseNumber = (value: string) => (value ? parseFloat(value) : null);
+
+/**
+ * Location section of the property forms (the rent excluding charges is the price field).
+ * Must be rendered inside the form's <Form> provider.
+ */
+export function RentalFormFields() {
+  const form = useFormContext<RentalFormValues>();
+  const [price, surface, deposit, furnished, referenceRent] = form.watch([
+    'price', 'surface', 'security_deposit', 'is_furnished', 'reference_rent_m2',
+  ]);
+  const rentControl = checkRentControl({ price: price ?? null, surface: surface ?? null, reference_rent_m2: referenceRent ?? null });
+  const maxDeposit = price ? getMaxDeposit(price, !!furnished) : null;
+
+  const numberField = (name: 'rent_charges' | 'security_deposit' | 'reference_rent_m2', label: string, placeholder: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className="text-white font-semibold">{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              placeholder={placeholder}
+              {...field}
+              value={field.value ?? ''}
+              onChange={(e) => field.onChange(parseNumber(e.target.value))}
+              className={premiumInputClass}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="border-l-2 border-blue-500/50 pl-4 bg-blue-500/5 rounded-r-xl py-4 pr-4 space-y-4">
+      <h3 className="text-sm font-semibold text-blue-400 uppercase tracking-wider">Location</h3>
+
+      <FormField
+        control={form.control}
+        name="is_furnished"
+        render={({ field }) => (
+          <FormItem className="flex items-center justify-between rounded-xl border border-white/10 px-3 py-2">
+            <FormLabel className="!mt-0 text-white font-semibold">Meublé</FormLabel>
+            <FormControl>
+              <Switch checked={!!field.value} onCheckedChange={field.onChange} />
+            </FormControl>
+          </FormItem>
+        )}
+      />
+
+      <div className="grid grid-cols-3 gap-4">
+        {numberField('rent_charges', 'Charges (€/mois)', '80')}
+        {numberField('security_deposit', 'Dépôt de garantie (€)', '950')}
+        {numberField('reference_rent_m2', 'Loyer de réf. (€/m²)', '28.5')}
+      </div>
+
+      {maxDeposit !== null && deposit != null && deposit > maxDeposit && (
+        <p className="text-xs text-amber-400 flex items-center gap-1.5">
+          <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+          Dépôt supérieur au maximum légal ({formatCurrency(maxDeposit)}).
+        </p>
+      )}
+      {rentControl && (
+        <p className={`text-xs flex items-center gap-1.5 ${rentControl.exceeds ? 'text-red-400' : 'text-emerald-400'}`}>
+          {rentControl.exceeds ? <AlertTriangle className="w-3.5 h-3.5 shrink-0" /> : <CheckCircle className="w-3.5 h-3.5 shrink-0" />}
+          Encadrement : {rentControl.rentPerM2} €/m² pour un plafond de {rentControl.referenceRentM2} €/m²
+          (loyer HC max {formatCurrency(rentControl.maxRent)})
+        </p>
+      )}
+    </div>
+  );
+}
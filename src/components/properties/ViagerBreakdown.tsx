@@ -0,0 +1,83 @@
+import { Heart, Info } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/lib/formatters';
+import { VIAGER_OCCUPANCY_LABELS, type ViagerOccupancy } from '@/lib/constants';
+import { SELLER_SEX_LABELS, type ViagerCalculation, type ViagerSeller } from '@/lib/viager';
+
+interface ViagerBreakdownProps {
+  calculation: ViagerCalculation | null;
+  occupancy?: string | null;
+  sellers?: ViagerSeller[];
+  compact?: boolean;
+  className?: string;
+}
+
+function Row({ label, value, hint, strong }: { label: string; value: string; hint?: string; strong?: boolean }) {
+  return (
+    <div className="flex justify-between items-baseline gap-3">
+      <div className="min-w-0">
+        <p className={cn('text-xs', strong ? 'font-medium' : 'text-muted-foreground')}>{label}</p>
+        {hint && <p className="text-[10px] text-muted-foreground">{hint}</p>}
+      </div>
+      <span className={cn('font-mono shrink-0', strong ? 'text-sm font-semibold text-purple-400' : 'text-sm')}>{value}</span>
+    </div>
+  );
+}
+
+/**
+ * Bouquet / rente split of a viager with the calculator output
+ */
+export function ViagerBreakdown({ calculation, occupancy, sellers = [], compact, className }: ViagerBreakdownProps) {
+  const heads = sellers
+    .map((s) => `${SELLER_SEX_LABELS[s.sex].toLowerCase()} ${s.age} ans`)
+    .join(' · ');
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-semibold text-purple-400 uppercase tracking-wider flex items-center gap-1.5">
+          <Heart className="w-3.5 h-3.5" />
+          {occupancy ? VIAGER_OCCUPANCY_LABELS[occupancy as ViagerOccupancy] ?? 'Viager' : 'Viager'}
+        </p>
+        {heads && <span className="text-[11px] text-muted-foreground truncate">{heads}</span>}
+      </div>
+
+      {!calculation ? (
+        <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+          <Info className="w-3.5 h-3.5 shrink-0" />
+          Renseignez la valeur vénale et l'âge du ou des crédirentiers pour le calcul.
+        </p>
+      ) : (
+        <>
+          <Row label="Bouquet" value={formatCurrency(calculation.bouquet)} />
+          <Row
+            label="Rente mensuelle"
+            value={calculation.rente != null ? formatCurrency(calculation.rente) : '—'}
+            hint={`Rente théorique : ${formatCurrency(calculation.suggestedRente)}/mois`}
+          />
+          {!compact && (
+            <>
+              <Row label="Espérance de vie" value={`${calculation.lifeExpectancy.toFixed(1)} ans`} />
+              {calculation.occupancyDiscount > 0 && (
+                <Row
+                  label="Décote d'occupation"
+                  value={`− ${formatCurrency(calculation.occupancyDiscount)}`}
+                  hint={`${calculation.occupancyDiscountPercent} % de la valeur vénale`}
+                />
+              )}
+              <Row label="Valeur occupée" value={formatCurrency(calculation.occupiedValue)} />
+            </>
+          )}
+          {calculation.totalCost != null && (
+            <Row
+              label="Coût actualisé"
+              value={formatCurrency(calculation.totalCost)}
+              hint={calculation.projectedCost != null ? `${formatCurrency(calculation.projectedCost)} versés sur l'espérance de vie` : undefined}
+              strong
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useFormContext } from 'react-hook-form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Euro } from 'lucide-react';
+import { VIAGER_OCCUPANCIES, VIAGER_OCCUPANCY_LABELS } from '@/lib/constants';
+import { SELLER_SEX_LABELS, calculateViager, getSellersFromForm, type ViagerFormValues } from '@/lib/viager';
+import { ViagerBreakdown } from '@/components/properties/ViagerBreakdown';
+
+const premiumInputClass = "bg-white/10 hover:bg-white/15 border border-white/20 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/50 text-white placeholder:text-white/40 transition-all duration-200 rounded-xl";
+const premiumSelectTriggerClass = "bg-white/10 hover:bg-white/15 border border-white/20 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/50 text-white transition-all duration-200 rounded-xl";
+
+type FormValues = ViagerFormValues & { price?: number | null };
+
+const parseNumber = (value: string) => (value ? parseFloat(value) : null);
+
+/**
+ * Viager section of the property forms, with a live calculator preview.
+ * Must be rendered inside the form's <Form> provider.
+ */
+export function ViagerFormFields() {
+  const form = useFormContext<FormValues>();
+  const values = form.watch();
+  const sellers = getSellersFromForm(values);
+  const calculation = calculateViager({
+    marketValue: values.price ?? null,
+    occupancy: values.viager_occupancy ?? null,
+    sellers,
+    bouquet: values.viager_bouquet ?? null,
+    rente: values.viager_rente ?? null,
+  });
+
+  const sellerFields = (index: 1 | 2) => (
+    <div className="grid grid-cols-2 gap-4">
+      <FormField
+        control={form.control}
+        name={`viager_seller${index}_age`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className="text-white font-semibold">
+              Âge crédirentier {index}{index === 2 && <span className="text-xs text-muted-foreground font-normal"> (optionnel)</span>}
+            </FormLabel>
+            <FormControl>
+              <Input
+                type="number"
+                placeholder={index === 1 ? '78' : ''}
+                {...field}
+                value={field.value ?? ''}
+                onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : null)}
+                className={premiumInputClass}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name={`viager_seller${index}_sex`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className="text-white font-semibold">Sexe</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value ?? ''}>
+              <FormControl>
+                <SelectTrigger className={premiumSelectTriggerClass}>
+                  <SelectValue placeholder="Choisir" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent className="bg-[#1a1a1a] border-white/20">
+                {(['F', 'M'] as const).map((sex) => (
+                  <SelectItem key={sex} value={sex} className="hover:bg-blue-500/10 text-white">
+                    {SELLER_SEX_LABELS[sex]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+
+  return (
+    <div className="border-l-2 border-purple-500/50 pl-4 bg-purple-500/5 rounded-r-xl py-4 pr-4 space-y-4">
+      <h3 className="text-sm font-semibold text-purple-400 uppercase tracking-wider">Viager</h3>
+      <p className="text-xs text-muted-foreground -mt-2">Le prix saisi correspond à la valeur vénale du bien libre.</p>
+
+      <FormField
+        control={form.control}
+        name="viager_occupancy"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className="text-white font-semibold">Occupation</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value ?? ''}>
+              <FormControl>
+                <SelectTrigger className={premiumSelectTriggerClass}>
+                  <SelectValue placeholder="Occupé ou libre" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent className="bg-[#1a1a1a] border-white/20">
+                {VIAGER_OCCUPANCIES.map((occupancy) => (
+                  <SelectItem key={occupancy} value={occupancy} className="hover:bg-blue-500/10 text-white">
+                    {VIAGER_OCCUPANCY_LABELS[occupancy]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FormItem>
+        )}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="viager_bouquet"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-white font-semibold">Bouquet (€)</FormLabel>
+              <FormControl>
+                <div className="relative">
+                  <Euro className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-blue-400" />
+                  <Input
+                    type="number"
+                    placeholder="60000"
+                    {...field}
+                    value={field.value ?? ''}
+                    onChange={(e) => field.onChange(parseNumber(e.target.value))}
+                    className={`${premiumInputClass} pl-10`}
+                  />
+                </div>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="viager_rente"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-white font-semibold">Rente (€/mois)</FormLabel>
+              <FormControl>
+                <div className="relative">
+                  <Euro className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-blue-400" />
+                  <Input
+                    type="number"
+                    placeholder="900"
+                    {...field}
+                    value={field.value ?? ''}
+                    onChange={(e) => field.onChange(parseNumber(e.target.value))}
+                    className={`${premiumInputClass} pl-10`}
+                  />
+                </div>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      {sellerFields(1)}
+      {sellerFields(2)}
+
+      <ViagerBreakdown
+        calculation={calculation}
+        occupancy={values.viager_occupancy}
+        className="rounded-xl bg-white/5 border border-white/10 p-4"
+      />
+    </div>
+  );
+}
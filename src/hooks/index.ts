@@ -4,6 +4,20 @@ export { useProperties, useProperty, type Property, type PropertyInsert, type Pr
 export { useActivities, useActivity, type Activity, type ActivityInsert, type ActivityUpdate } from './useActivities';
 export { useDeals, useDeal, type Deal, type DealInsert, type DealUpdate } from './useDeals';
 export { useContactSearches, useContactSearchesWithContacts, type ContactSearch, type ContactSearchInsert, type ContactSearchUpdate } from './useContactSearches';
+export { useMandates, type Mandate, type MandateUpdate, type MandateRegistration } from './useMandates';
+export { useLeases, useUpcomingLeaseEnds, type Lease, type LeaseInsert, type LeaseUpdate, type LeaseWithParties, type LeaseWithProperty } from './useLeases';
+export { useVisitVoucher, type VisitVoucher, type VisitVoucherSignature } from './useVisitVouchers';
+export { usePropertyDiagnostics, type DiagnosticReport } from './usePropertyDiagnostics';
+export { useOffers, type OfferInput, type OfferWithBuyer } from './useOffers';
+export { useContactDuplicates } from './useContactDuplicates';
+export { useContactImportBatches, useContactImportBatchItems, type ContactImportBatch, type ContactImportBatchItem } from './useContactImportBatches';
+export { useContactGdpr, useInactiveContacts } from './useContactGdpr';
+export { useContactRelationships, useReferrals } from './useContactRelationships';
+export { useContactTimeline } from './useContactTimeline';
+export { useContactSegments, useSegmentContext, useSegmentMembers } from './useContactSegments';
+export { useScoringModel } from './useScoringModel';
+export { useDealParties, type DealParty, type DealPartyDraft } from './useDealParties';
+export { usePropertyPriceHistory, useRecentPriceDrops, type PriceChangeWithAuthor } from './usePriceHistory';
 
 // Query hooks
 export { useOrgQuery, useOrganizationId } from './useOrgQuery';
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { applyTagChanges, runInBatches, type BulkProgress, type BulkResult } from '@/lib/bulk-actions';
+import {
+  buildSequenceActivities,
+  buildSequenceEnrollments,
+  type EnrollableSequence,
+} from '@/lib/sequence-enrollment';
+import { DEAL_STAGE_PROBABILITY, type DealStage, type PipelineStage } from '@/lib/constants';
+
+export type BulkTable = 'contacts' | 'deals';
+
+export interface BulkRun {
+  label: string;
+  progress: BulkProgress;
+  /** Set once every batch has been processed */
+  result: BulkResult | null;
+}
+
+/**
+ * Bulk edits on contacts or deals, processed in batches with progress.
+ * The current run (progress, then summary) is exposed for the progress dialog.
+ */
+export function useBulkActions(table: BulkTable) {
+  const { organizationId } = useAuth();
+  const queryClient = useQueryClient();
+  const [run, setRun] = useState<BulkRun | null>(null);
+
+  const execute = async (
+    label: string,
+    ids: string[],
+    action: (batch: string[], organizationId: string) => Promise<number | void>,
+    relatedKeys: string[] = []
+  ): Promise<BulkResult | null> => {
+    if (!organizationId) {
+      toast.error('Organisation non trouvée');
+      return null;
+    }
+    if (ids.length === 0) return null;
+
+    setRun({ label, progress: { done: 0, total: ids.length }, result: null });
+    const result = await runInBatches(
+      ids,
+      (batch) => action(batch, organizationId),
+      (progress) => setRun((current) => current && { ...current, progress })
+    );
+    setRun((current) => current && { ...current, result });
+
+    [table, ...relatedKeys].forEach((key) => queryClient.invalidateQueries({ queryKey: [key, organizationId] }));
+    return result;
+  };
+
+  const assign = (ids: string[], profileId: string | null) =>
+    execute(profileId ? 'Attribution' : 'Retrait de l\'attribution', ids, async (batch, orgId) => {
+      const { error } = await supabase
+        .from(table)
+        .update({ assigned_to: profileId })
+        .in('id', batch)
+        .eq('organization_id', orgId);
+      if (error) throw error;
+    });
+
+  const updateTags = (ids: string[], add: string[], remove: string[]) =>
+    execute('Modification des tags', ids, async (batch, orgId) => {
+      const { data, error } = await supabase
+        .from(table)
+        .select('id, tags')
+        .in('id', batch)
+        .eq('organization_id', orgId);
+      if (error) throw error;
+
+      // Tags differ per row, each changed row gets its own update
+      const changes = (data ?? [])
+        .map((row) => ({ id: row.id, before: row.tags ?? [], after: applyTagChanges(row.tags, add, remove) }))
+        .filter(({ before, after }) => before.join('\u0000') !== after.join('\u0000'));
+
+      const results = await Promise.all(
+        changes.map(({ id, after }) =>
+          supabase.from(table).update({ tags: after }).eq('id', id).eq('organization_id', orgId)
+        )
+      );
+      const failed = results.find((r) => r.error);
+      if (failed?.error) throw failed.error;
+      return data?.length ?? 0;
+    });
+
+  const setStage = (ids: string[], stage: PipelineStage | DealStage) =>
+    execute('Changement d\'étape', ids, async (batch, orgId) => {
+      const query = table === 'contacts'
+        ? supabase
+          .from('contacts')
+          .update({ pipeline_stage: stage as PipelineStage })
+        : supabase
+          .from('deals')
+          // Same probability as a drag and drop on the pipeline
+          .update({ stage: stage as DealStage, probability: DEAL_STAGE_PROBABILITY[stage as DealStage] });
+      const { error } = await query.in('id', batch).eq('organization_id', orgId);
+      if (error) throw error;
+    }, ['pipeline_stage_history']);
+
+  const enroll = async (ids: string[], sequence: EnrollableSequence) => {
+    const counts = { enrolled: 0, alreadyEnrolled: 0, withoutEmail: 0, withoutContact: 0 };
+
+    const result = await execute(`Inscription à « ${sequence.name} »`, ids, async (batch, orgId) => {
+      let contactIds = batch;
+      if (table === 'deals') {
+        const { data: deals, error } = await supabase
+          .from('deals')
+          .select('contact_id')
+          .in('id', batch)
+          .eq('organization_id', orgId);
+        if (error) throw error;
+        counts.withoutContact += (deals ?? []).filter((d) => !d.contact_id).length;
+        contactIds = [...new Set((deals ?? []).map((d) => d.contact_id).filter((id): id is string => !!id))];
+        if (contactIds.length === 0) return;
+      }
+
+      const { data: contacts, error: contactsError } = await supabase
+        .from('contacts')
+        .select('id, email')
+        .in('id', contactIds)
+        .eq('organization_id', orgId);
+      if (contactsError) throw contactsError;
+
+      const recipientIds = (contacts ?? []).filter((c) => !!c.email).map((c) => c.id);
+      counts.withoutEmail += (contacts ?? []).length - recipientIds.length;
+      if (recipientIds.length === 0) return;
+
+      const { data: inserted, error } = await supabase
+        .from('sequence_enrollments')
+        .upsert(buildSequenceEnrollments(sequence, recipientIds, orgId), {
+          onConflict: 'sequence_id,contact_id',
+          ignoreDuplicates: true,
+        })
+        .select('contact_id');
+      if (error) throw error;
+
+      const enrolledIds = (inserted ?? []).map((row) => row.contact_id);
+      counts.enrolled += enrolledIds.length;
+      counts.alreadyEnrolled += recipientIds.length - enrolledIds.length;
+      if (enrolledIds.length === 0) return;
+
+      const { error: activitiesError } = await supabase
+        .from('activities')
+        .insert(buildSequenceActivities(sequence, enrolledIds, orgId));
+      if (activitiesError) console.error('Error creating sequence activities:', activitiesError);
+    }, ['sequence_enrollments', 'activities']);
+
+    if (result) {
+      const notes = [
+        `${counts.enrolled} contact(s) inscrit(s)`,
+        counts.alreadyEnrolled > 0 && `${counts.alreadyEnrolled} déjà inscrit(s)`,
+        counts.withoutEmail > 0 && `${counts.withoutEmail} sans email`,
+        counts.withoutContact > 0 && `${counts.withoutContact} opportunité(s) sans contact`,
+      ].filter((note): note is string => !!note);
+      setRun((current) => current?.result && { ...current, result: { ...current.result, notes } });
+    }
+    return result;
+  };
+
+  const remove = async (ids: string[]) => {
+    let blocked = 0;
+
+    const result = await execute('Suppression', ids, async (batch, orgId) => {
+      // Rows refused by the DELETE policy are skipped without an error
+      const { data, error } = await supabase
+        .from(table)
+        .delete()
+        .in('id', batch)
+        .eq('organization_id', orgId)
+        .select('id');
+      if (error) throw error;
+      blocked += batch.length - (data?.length ?? 0);
+      return data?.length ?? 0;
+    });
+
+    if (!result || blocked === 0) return result;
+
+    const reported = {
+      ...result,
+      failed: result.failed + blocked,
+      errors: [...result.errors, 'Suppression refusée : droits insuffisants ou élément déjà supprimé'],
+    };
+    setRun((current) => current && { ...current, result: reported });
+    return reported;
+  };
+
+  return {
+    run,
+    isRunning: !!run && !run.result,
+    dismiss: () => setRun(null),
+    assign,
+    updateTags,
+    setStage,
+    enroll,
+    remove,
+  };
+}
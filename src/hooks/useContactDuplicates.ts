@@ -0,0 +1,101 @@
+import { useMemo } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { pairKey } from '@/lib/contact-duplicates';
+
+type Contact = Tables<'contacts'>;
+
+// Tables whose rows are re-pointed by merge_contacts
+const MERGED_TABLES = [
+  'contacts',
+  'activities',
+  'deals',
+  'contact_searches',
+  'sequence_enrollments',
+  'property_proposals',
+  'properties',
+  'mandates',
+  'leases',
+  'offers',
+  'visit_vouchers',
+  'pipeline_stage_history',
+  'contact_consents',
+  'contact_relationships',
+  'deal_parties',
+];
+
+/**
+ * Pairs dismissed as "not a duplicate", and the merge / dismiss actions.
+ * Detection itself runs client-side (findDuplicatePairs).
+ */
+export function useContactDuplicates(options?: { enabled?: boolean }) {
+  const { organizationId, profileId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useOrgQuery<Pick<Tables<'contact_duplicate_dismissals'>, 'contact_a' | 'contact_b'>[]>(
+    'contact_duplicate_dismissals',
+    { select: 'contact_a, contact_b' },
+    { enabled: options?.enabled !== false }
+  );
+
+  const dismissed = useMemo(
+    () => new Set((query.data ?? []).map((d) => pairKey(d.contact_a, d.contact_b))),
+    [query.data]
+  );
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ keepId, mergeId, values }: { keepId: string; mergeId: string; values: Partial<Contact> }) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      const { data, error } = await supabase.rpc('merge_contacts', {
+        p_keep_id: keepId,
+        p_merge_id: mergeId,
+        p_values: values as Json,
+      });
+
+      if (error) throw error;
+      return data as Contact;
+    },
+    onSuccess: (contact) => {
+      for (const table of MERGED_TABLES) {
+        queryClient.invalidateQueries({ queryKey: [table, organizationId] });
+      }
+      toast.success('Contacts fusionnés', { description: contact.full_name });
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de la fusion', { description: error.message });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async ({ a, b }: { a: string; b: string }) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+      const [contact_a, contact_b] = a < b ? [a, b] : [b, a];
+
+      const { error } = await supabase
+        .from('contact_duplicate_dismissals')
+        .insert({ organization_id: organizationId, contact_a, contact_b, created_by: profileId ?? null });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contact_duplicate_dismissals', organizationId] });
+      toast.success('Paire ignorée');
+    },
+    onError: (error) => {
+      toast.error('Erreur', { description: error.message });
+    },
+  });
+
+  return {
+    dismissed,
+    isLoading: query.isLoading,
+    merge: mergeMutation.mutateAsync,
+    dismiss: dismissMutation.mutateAsync,
+    isMerging: mergeMutation.isPending,
+  };
+}
@@ -0,0 +1,209 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ConsentChannel, ConsentSource } from '@/lib/constants';
+import {
+  CONTACT_EXPORT_SECTIONS,
+  type ContactConsent,
+  type ContactDataExport,
+  type ContactExportSectionKey,
+} from '@/lib/contact-gdpr';
+
+type Contact = Tables<'contacts'>;
+
+// Tables touched by anonymize_contact
+const ANONYMIZED_TABLES = [
+  'contacts',
+  'activities',
+  'deals',
+  'contact_searches',
+  'sequence_enrollments',
+  'property_proposals',
+  'visit_vouchers',
+  'contact_consents',
+];
+
+/**
+ * GDPR actions on one contact: consent per channel, subject access export
+ * and erasure (anonymize_contact RPC, Admin / Manager only).
+ */
+export function useContactGdpr(contactId: string | undefined) {
+  const { organizationId, profileId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const consentsQuery = useOrgQuery<ContactConsent[]>('contact_consents', {
+    filters: contactId ? { contact_id: contactId } : undefined,
+  }, {
+    enabled: !!contactId,
+  });
+
+  const setConsentMutation = useMutation({
+    mutationFn: async ({
+      channel,
+      granted,
+      source,
+      consentedAt,
+    }: {
+      channel: ConsentChannel;
+      granted: boolean;
+      source: ConsentSource;
+      consentedAt: string;
+    }) => {
+      if (!organizationId || !contactId) throw new Error('Organisation non trouvée');
+
+      const { error } = await supabase
+        .from('contact_consents')
+        .upsert({
+          organization_id: organizationId,
+          contact_id: contactId,
+          channel,
+          granted,
+          source,
+          consented_at: consentedAt,
+          recorded_by: profileId ?? null,
+        }, { onConflict: 'contact_id,channel' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contact_consents', organizationId] });
+      toast.success('Consentement enregistré');
+    },
+    onError: (error) => {
+      toast.error("Erreur lors de l'enregistrement du consentement", { description: error.message });
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async (): Promise<ContactDataExport> => {
+      if (!organizationId || !contactId) throw new Error('Organisation non trouvée');
+
+      const { data: contact, error } = await supabase
+        .from('contacts')
+        .select('*')
+        .eq('id', contactId)
+        .eq('organization_id', organizationId)
+        .single();
+      if (error) throw error;
+
+      const { data: organization } = await supabase
+        .from('organizations')
+        .select('name')
+        .eq('id', organizationId)
+        .single();
+
+      const { data: consents, error: consentsError } = await supabase
+        .from('contact_consents')
+        .select('*')
+        .eq('contact_id', contactId);
+      if (consentsError) throw consentsError;
+
+      const related = {} as ContactDataExport['related'];
+      for (const section of CONTACT_EXPORT_SECTIONS) {
+        const { data, error: sectionError } = await supabase
+          .from(section.table)
+          .select('*')
+          .eq('organization_id', organizationId)
+          .or(section.columns.map((column) => `${column}.eq.${contactId}`).join(','));
+        if (sectionError) throw sectionError;
+        related[section.key as ContactExportSectionKey] = (data ?? []) as Record<string, unknown>[];
+      }
+
+      return {
+        exported_at: new Date().toISOString(),
+        organization: organization?.name ?? null,
+        contact,
+        consents: consents ?? [],
+        related,
+      };
+    },
+    onError: (error) => {
+      toast.error("Erreur lors de l'export des données", { description: error.message });
+    },
+  });
+
+  const anonymizeMutation = useMutation({
+    mutationFn: async () => {
+      if (!organizationId || !contactId) throw new Error('Organisation non trouvée');
+
+      const { data, error } = await supabase.rpc('anonymize_contact', { p_contact_id: contactId });
+
+      if (error) throw error;
+      return data as Contact;
+    },
+    onSuccess: () => {
+      for (const table of ANONYMIZED_TABLES) {
+        queryClient.invalidateQueries({ queryKey: [table, organizationId] });
+      }
+      toast.success('Contact anonymisé');
+    },
+    onError: (error) => {
+      toast.error("Erreur lors de l'anonymisation", { description: error.message });
+    },
+  });
+
+  return {
+    consents: consentsQuery.data ?? [],
+    isLoading: consentsQuery.isLoading,
+    setConsent: setConsentMutation.mutateAsync,
+    exportData: exportMutation.mutateAsync,
+    anonymize: anonymizeMutation.mutateAsync,
+    isSavingConsent: setConsentMutation.isPending,
+    isExporting: exportMutation.isPending,
+    isAnonymizing: anonymizeMutation.isPending,
+  };
+}
+
+/**
+ * Contacts past the retention period (get_inactive_contacts RPC), and their
+ * anonymization in bulk.
+ */
+export function useInactiveContacts(years: number, options?: { enabled?: boolean }) {
+  const { organizationId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['inactive_contacts', organizationId, years],
+    queryFn: async (): Promise<Contact[]> => {
+      const { data, error } = await supabase.rpc('get_inactive_contacts', { p_years: years });
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!organizationId && options?.enabled !== false,
+  });
+
+  const anonymizeMutation = useMutation({
+    mutationFn: async (contactIds: string[]) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      let anonymized = 0;
+      for (const id of contactIds) {
+        const { error } = await supabase.rpc('anonymize_contact', { p_contact_id: id });
+        if (error) throw new Error(`${anonymized} contact(s) anonymisé(s) avant l'erreur : ${error.message}`);
+        anonymized++;
+      }
+      return anonymized;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['inactive_contacts', organizationId] });
+      for (const table of ANONYMIZED_TABLES) {
+        queryClient.invalidateQueries({ queryKey: [table, organizationId] });
+      }
+      toast.success(`${count} contact(s) anonymisé(s)`);
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['inactive_contacts', organizationId] });
+      toast.error("Erreur lors de l'anonymisation", { description: error.message });
+    },
+  });
+
+  return {
+    contacts: query.data ?? [],
+    isLoading: query.isLoading,
+    anonymize: anonymizeMutation.mutateAsync,
+    isAnonymizing: anonymizeMutation.isPending,
+  };
+}
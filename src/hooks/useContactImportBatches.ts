@@ -0,0 +1,77 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ContactImportBatch = Tables<'contact_import_batches'>;
+
+export type ContactImportBatchItem = Pick<
+  Tables<'contact_import_batch_items'>,
+  'id' | 'action' | 'contact_id' | 'previous_values'
+> & {
+  contacts: { full_name: string } | null;
+};
+
+/**
+ * Contact import history. Each import records a batch and the contacts it
+ * created or updated; revert_contact_import deletes the created contacts
+ * and restores the previous values of the updated ones.
+ */
+export function useContactImportBatches(options?: { enabled?: boolean }) {
+  const { organizationId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useOrgQuery<ContactImportBatch[]>('contact_import_batches', {
+    orderBy: { column: 'created_at', ascending: false },
+    limit: 20,
+  }, {
+    enabled: options?.enabled !== false,
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (batchId: string) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      const { data, error } = await supabase.rpc('revert_contact_import', { p_batch_id: batchId });
+
+      if (error) throw error;
+      return data as ContactImportBatch;
+    },
+    onSuccess: (batch) => {
+      queryClient.invalidateQueries({ queryKey: ['contact_import_batches', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['contact_import_batch_items', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['contacts', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['activities', organizationId] });
+      toast.success('Import annulé', { description: batch.file_name });
+    },
+    onError: (error) => {
+      toast.error("Erreur lors de l'annulation de l'import", { description: error.message });
+    },
+  });
+
+  return {
+    batches: query.data ?? [],
+    isLoading: query.isLoading,
+    revert: revertMutation.mutateAsync,
+    isReverting: revertMutation.isPending,
+  };
+}
+
+/** Contacts created or updated by one import */
+export function useContactImportBatchItems(batchId: string | null) {
+  const query = useOrgQuery<ContactImportBatchItem[]>('contact_import_batch_items', {
+    select: 'id, action, contact_id, previous_values, contacts:contact_id(full_name)',
+    filters: batchId ? { batch_id: batchId } : undefined,
+    orderBy: { column: 'created_at', ascending: true },
+  }, {
+    enabled: !!batchId,
+  });
+
+  return {
+    items: query.data ?? [],
+    isLoading: query.isLoading,
+  };
+}
+
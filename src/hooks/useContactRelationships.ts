@@ -0,0 +1,125 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import {
+  buildRelationship,
+  type ContactRelationshipWithContacts,
+  type RelatedContactRole,
+} from '@/lib/contact-relationships';
+
+const RELATIONSHIP_SELECT =
+  '*, contact:contact_id(id, full_name), related:related_contact_id(id, full_name)';
+
+/**
+ * Relationships of a contact, in both directions (households, co-buyers,
+ * notaire, banker, referrer).
+ */
+export function useContactRelationships(contactId: string | null | undefined) {
+  const { organizationId, profileId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['contact_relationships', organizationId, contactId],
+    queryFn: async (): Promise<ContactRelationshipWithContacts[]> => {
+      if (!organizationId || !contactId) throw new Error('Organisation non trouvée');
+
+      const { data, error } = await supabase
+        .from('contact_relationships')
+        .select(RELATIONSHIP_SELECT)
+        .eq('organization_id', organizationId)
+        .or(`contact_id.eq.${contactId},related_contact_id.eq.${contactId}`)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data ?? []) as unknown as ContactRelationshipWithContacts[];
+    },
+    enabled: !!organizationId && !!contactId,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async ({
+      otherContactId,
+      role,
+      notes,
+    }: {
+      otherContactId: string;
+      role: RelatedContactRole;
+      notes?: string;
+    }) => {
+      if (!organizationId || !contactId) throw new Error('Organisation non trouvée');
+
+      const { error } = await supabase
+        .from('contact_relationships')
+        .insert({
+          ...buildRelationship(contactId, otherContactId, role),
+          organization_id: organizationId,
+          notes: notes?.trim() || null,
+          created_by: profileId ?? null,
+        });
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error(
+            role === 'referrer'
+              ? 'Ce contact a déjà été recommandé par quelqu\'un'
+              : 'Cette relation existe déjà'
+          );
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contact_relationships', organizationId] });
+      toast.success('Relation ajoutée');
+    },
+    onError: (error) => {
+      toast.error("Erreur lors de l'ajout de la relation", { description: error.message });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      const { error } = await supabase
+        .from('contact_relationships')
+        .delete()
+        .eq('id', id)
+        .eq('organization_id', organizationId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contact_relationships', organizationId] });
+      toast.success('Relation supprimée');
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de la suppression', { description: error.message });
+    },
+  });
+
+  return {
+    relationships: query.data ?? [],
+    isLoading: query.isLoading,
+    add: addMutation.mutateAsync,
+    remove: removeMutation.mutateAsync,
+    isAdding: addMutation.isPending,
+    isRemoving: removeMutation.isPending,
+  };
+}
+
+/** Every "referred by" relationship of the organization, for the referral report */
+export function useReferrals() {
+  const query = useOrgQuery<ContactRelationshipWithContacts[]>('contact_relationships', {
+    select: RELATIONSHIP_SELECT,
+    filters: { type: 'referred_by' },
+    orderBy: { column: 'created_at', ascending: false },
+  });
+
+  return {
+    referrals: query.data ?? [],
+    isLoading: query.isLoading,
+  };
+}
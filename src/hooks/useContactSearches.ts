@@ -20,6 +20,17 @@ export interface ContactSearch {
   cities: string[] | null;
   postal_codes: string[] | null;
   transaction_type: string | null;
+  max_rente: number | null; // viager: highest monthly rente, budget_max then applies to the bouquet
+  viager_occupancy: string | null;
+  // Search area: circle around the center, or a drawn polygon of [lat, lng] points
+  center_lat: number | null;
+  center_lng: number | null;
+  center_label: string | null;
+  radius_km: number | null;
+  search_polygon: [number, number][] | null;
+  // Amenity criteria keys, see src/lib/amenities.ts
+  must_have_amenities: string[];
+  nice_to_have_amenities: string[];
   notes: string | null;
   is_active: boolean;
   created_at: string;
@@ -40,6 +51,15 @@ export interface ContactSearchInsert {
   cities?: string[] | null;
   postal_codes?: string[] | null;
   transaction_type?: string | null;
+  max_rente?: number | null;
+  viager_occupancy?: string | null;
+  center_lat?: number | null;
+  center_lng?: number | null;
+  center_label?: string | null;
+  radius_km?: number | null;
+  search_polygon?: [number, number][] | null;
+  must_have_amenities?: string[];
+  nice_to_have_amenities?: string[];
   notes?: string | null;
   is_active?: boolean;
 }
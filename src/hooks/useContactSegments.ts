@@ -0,0 +1,162 @@
+import { useMemo } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useScoringModel } from '@/hooks/useScoringModel';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import {
+  filterContactsBySegment,
+  groupByContact,
+  type ContactSegment,
+  type SegmentContext,
+  type SegmentRules,
+} from '@/lib/contact-segments';
+import type { ContactSearch } from '@/hooks/useContactSearches';
+
+type Contact = Tables<'contacts'>;
+type Activity = Tables<'activities'>;
+
+interface SegmentValues {
+  name: string;
+  rules: SegmentRules;
+}
+
+/** Saved segments of the organization, with their CRUD mutations */
+export function useContactSegments() {
+  const { organizationId, profileId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useOrgQuery<ContactSegment[]>('contact_segments', {
+    select: '*',
+    orderBy: { column: 'name', ascending: true },
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['contact_segments', organizationId] });
+
+  const createMutation = useMutation({
+    mutationFn: async ({ name, rules }: SegmentValues) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      const { data, error } = await supabase
+        .from('contact_segments')
+        .insert({
+          organization_id: organizationId,
+          name: name.trim(),
+          rules: rules as unknown as Json,
+          created_by: profileId ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ContactSegment;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Segment créé');
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de la création du segment', { description: error.message });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, name, rules }: SegmentValues & { id: string }) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      const { error } = await supabase
+        .from('contact_segments')
+        .update({ name: name.trim(), rules: rules as unknown as Json })
+        .eq('id', id)
+        .eq('organization_id', organizationId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Segment mis à jour');
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de la mise à jour du segment', { description: error.message });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      const { error } = await supabase
+        .from('contact_segments')
+        .delete()
+        .eq('id', id)
+        .eq('organization_id', organizationId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Segment supprimé');
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de la suppression', { description: error.message });
+    },
+  });
+
+  return {
+    segments: query.data ?? [],
+    isLoading: query.isLoading,
+    create: createMutation.mutateAsync,
+    update: updateMutation.mutateAsync,
+    remove: removeMutation.mutateAsync,
+    isSaving: createMutation.isPending || updateMutation.isPending,
+    isRemoving: removeMutation.isPending,
+  };
+}
+
+/**
+ * Data a segment is evaluated against: activities and scoring model (lead
+ * score) and active searches grouped by contact. Shares its cache with the
+ * contacts list.
+ */
+export function useSegmentContext(options?: { enabled?: boolean }) {
+  const enabled = options?.enabled ?? true;
+
+  const { data: activities, isLoading: isLoadingActivities } = useOrgQuery<Activity[]>('activities', {
+    select: '*',
+  }, { enabled });
+  // Same query as useContactSearches(), active searches only
+  const { data: searches, isLoading: isLoadingSearches } = useOrgQuery<ContactSearch[]>('contact_searches', {
+    select: '*',
+    filters: { is_active: true },
+    orderBy: { column: 'created_at', ascending: false },
+  }, { enabled });
+  const { model: scoringModel } = useScoringModel();
+
+  const context = useMemo<SegmentContext>(() => ({
+    activitiesByContact: groupByContact(activities ?? []),
+    searchesByContact: groupByContact(searches ?? []),
+    scoringModel,
+  }), [activities, searches, scoringModel]);
+
+  return { context, isLoading: enabled && (isLoadingActivities || isLoadingSearches) };
+}
+
+/** Contacts currently matching a segment's rules, evaluated live */
+export function useSegmentMembers(rules: SegmentRules | null, options?: { enabled?: boolean }) {
+  const enabled = (options?.enabled ?? true) && !!rules;
+
+  const { data: contacts, isLoading: isLoadingContacts } = useOrgQuery<Contact[]>('contacts', {
+    select: '*',
+    orderBy: { column: 'created_at', ascending: false },
+  }, { enabled });
+  const { context, isLoading: isLoadingContext } = useSegmentContext({ enabled });
+
+  const members = useMemo(
+    () => (rules && contacts ? filterContactsBySegment(contacts, rules, context) : []),
+    [contacts, rules, context]
+  );
+
+  return { members, isLoading: enabled && (isLoadingContacts || isLoadingContext) };
+}
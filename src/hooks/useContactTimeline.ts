@@ -0,0 +1,95 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  buildContactTimeline,
+  type ContactTimelineSources,
+  type TimelineEnrollment,
+  type TimelineProposal,
+  type TimelineStageChange,
+} from '@/lib/contact-timeline';
+
+/**
+ * Every event of a contact, newest first: activities, sequence emails,
+ * property proposals (sent, opened, clicked), pipeline stage changes of the
+ * contact and its deals, deals and offers.
+ */
+export function useContactTimeline(contactId: string | undefined) {
+  const { organizationId } = useAuth();
+  const enabled = !!contactId;
+
+  // Same query as the contact page, so the cache is shared
+  const activities = useOrgQuery<ContactTimelineSources['activities']>('activities', {
+    select: '*, profiles:assigned_to(full_name)',
+    filters: { contact_id: contactId },
+    orderBy: { column: 'date', ascending: false },
+  }, { enabled });
+
+  const enrollments = useOrgQuery<TimelineEnrollment[]>('sequence_enrollments', {
+    select: '*, email_sequences(name)',
+    filters: { contact_id: contactId },
+  }, { enabled });
+
+  const proposals = useOrgQuery<TimelineProposal[]>('property_proposals', {
+    select: '*, properties(title)',
+    filters: { contact_id: contactId },
+  }, { enabled });
+
+  const stageChanges = useOrgQuery<TimelineStageChange[]>('pipeline_stage_history', {
+    select: '*, deals(name)',
+    filters: { contact_id: contactId },
+  }, { enabled });
+
+  const deals = useOrgQuery<ContactTimelineSources['deals']>('deals', {
+    select: 'id, name, stage, amount, created_at, actual_close_date',
+    filters: { contact_id: contactId },
+  }, { enabled });
+
+  // Offers made by the contact or on one of their deals
+  const dealIds = (deals.data ?? []).map((d) => d.id);
+  const offers = useQuery({
+    queryKey: ['offers', organizationId, 'contact', contactId, dealIds],
+    queryFn: async (): Promise<ContactTimelineSources['offers']> => {
+      if (!organizationId || !contactId) throw new Error('Organisation non trouvée');
+
+      const filter = dealIds.length > 0
+        ? `contact_id.eq.${contactId},deal_id.in.(${dealIds.join(',')})`
+        : `contact_id.eq.${contactId}`;
+      const { data, error } = await supabase
+        .from('offers')
+        .select('id, deal_id, amount, direction, status, offered_at, responded_at')
+        .eq('organization_id', organizationId)
+        .or(filter);
+
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!organizationId && enabled && deals.isSuccess,
+  });
+
+  const events = useMemo(
+    () =>
+      buildContactTimeline({
+        activities: activities.data ?? [],
+        enrollments: enrollments.data ?? [],
+        proposals: proposals.data ?? [],
+        stageChanges: stageChanges.data ?? [],
+        deals: deals.data ?? [],
+        offers: offers.data ?? [],
+      }),
+    [activities.data, enrollments.data, proposals.data, stageChanges.data, deals.data, offers.data]
+  );
+
+  return {
+    events,
+    isLoading:
+      activities.isLoading ||
+      enrollments.isLoading ||
+      proposals.isLoading ||
+      stageChanges.isLoading ||
+      deals.isLoading ||
+      offers.isLoading,
+  };
+}
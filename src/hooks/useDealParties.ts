@@ -0,0 +1,86 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Tables } from '@/integrations/supabase/types';
+import type { DealPartyRole } from '@/lib/constants';
+
+export type DealParty = Tables<'deal_parties'> & {
+  contacts: { id: string; full_name: string; email: string | null; phone: string | null } | null;
+};
+
+export interface DealPartyDraft {
+  contact_id: string;
+  role: DealPartyRole;
+}
+
+/**
+ * Contacts attached to a deal besides its main contact (deals.contact_id),
+ * each with its role: co-buyer, seller, notaire, banker, referrer…
+ */
+export function useDealParties(dealId: string | null | undefined) {
+  const { organizationId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useOrgQuery<DealParty[]>('deal_parties', {
+    select: '*, contacts:contact_id(id, full_name, email, phone)',
+    filters: dealId ? { deal_id: dealId } : undefined,
+    orderBy: { column: 'created_at', ascending: true },
+  }, {
+    enabled: !!dealId && !!organizationId,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (parties: DealPartyDraft[]) => {
+      if (!organizationId || !dealId) throw new Error('Organisation non trouvée');
+      if (parties.length === 0) return;
+
+      const { error } = await supabase
+        .from('deal_parties')
+        .upsert(
+          parties.map((p) => ({ ...p, deal_id: dealId, organization_id: organizationId })),
+          { onConflict: 'deal_id,contact_id,role', ignoreDuplicates: true }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['deal_parties', organizationId] });
+      toast.success('Partie ajoutée');
+    },
+    onError: (error) => {
+      toast.error("Erreur lors de l'ajout de la partie", { description: error.message });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      const { error } = await supabase
+        .from('deal_parties')
+        .delete()
+        .eq('id', id)
+        .eq('organization_id', organizationId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['deal_parties', organizationId] });
+      toast.success('Partie retirée');
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de la suppression', { description: error.message });
+    },
+  });
+
+  return {
+    parties: query.data ?? [],
+    isLoading: query.isLoading,
+    add: addMutation.mutateAsync,
+    remove: removeMutation.mutateAsync,
+    isAdding: addMutation.isPending,
+    isRemoving: removeMutation.isPending,
+  };
+}
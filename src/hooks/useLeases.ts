@@ -0,0 +1,146 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { addDays, format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { LEASE_END_WARNING_DAYS } from '@/lib/constants';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+
+export type Lease = Tables<'leases'>;
+export type LeaseInsert = Omit<TablesInsert<'leases'>, 'organization_id'>;
+export type LeaseUpdate = TablesUpdate<'leases'>;
+
+type LeaseParty = { id: string; full_name: string; email: string | null; phone: string | null };
+
+export type LeaseWithParties = Lease & {
+  tenant: LeaseParty | null;
+  owner: LeaseParty | null;
+};
+
+export type LeaseWithProperty = Lease & {
+  property: { id: string; title: string; address: string | null } | null;
+  tenant: { full_name: string } | null;
+};
+
+const LEASE_PARTIES_SELECT =
+  '*, tenant:contacts!leases_tenant_id_fkey(id, full_name, email, phone), owner:contacts!leases_owner_id_fkey(id, full_name, email, phone)';
+
+/**
+ * Leases of a property, most recent first
+ */
+export function useLeases(propertyId: string | null | undefined) {
+  const { organizationId, profileId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useOrgQuery<LeaseWithParties[]>('leases', {
+    select: LEASE_PARTIES_SELECT,
+    filters: propertyId ? { property_id: propertyId } : undefined,
+    orderBy: { column: 'start_date', ascending: false },
+  }, {
+    enabled: !!propertyId && !!organizationId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['leases', organizationId] });
+    queryClient.invalidateQueries({ queryKey: ['properties', organizationId] });
+    queryClient.invalidateQueries({ queryKey: ['property', propertyId, organizationId] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (values: LeaseInsert) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      const { data, error } = await supabase
+        .from('leases')
+        .insert([{ ...values, organization_id: organizationId, created_by: profileId ?? null }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      // A listed property becomes rented once its lease is signed
+      const { error: statusError } = await supabase
+        .from('properties')
+        .update({ status: 'loue' })
+        .eq('id', values.property_id)
+        .eq('organization_id', organizationId)
+        .eq('status', 'disponible');
+
+      if (statusError) throw statusError;
+      return data;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Bail enregistré');
+    },
+    onError: (error) => {
+      toast.error("Erreur lors de l'enregistrement du bail", { description: error.message });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...values }: LeaseUpdate & { id: string }) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      const { data, error } = await supabase
+        .from('leases')
+        .update(values)
+        .eq('id', id)
+        .eq('organization_id', organizationId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Bail mis à jour');
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de la mise à jour', { description: error.message });
+    },
+  });
+
+  return {
+    leases: query.data ?? [],
+    isLoading: query.isLoading,
+    isError: query.isError,
+    create: createMutation.mutateAsync,
+    update: updateMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    isUpdating: updateMutation.isPending,
+  };
+}
+
+/**
+ * Active leases ending within LEASE_END_WARNING_DAYS (or already past their end date)
+ */
+export function useUpcomingLeaseEnds() {
+  const { organizationId } = useAuth();
+
+  const query = useQuery<LeaseWithProperty[]>({
+    queryKey: ['leases', organizationId, 'ending'],
+    queryFn: async () => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      const { data, error } = await supabase
+        .from('leases')
+        .select('*, property:properties!leases_property_id_fkey(id, title, address), tenant:contacts!leases_tenant_id_fkey(full_name)')
+        .eq('organization_id', organizationId)
+        .eq('status', 'actif')
+        .lte('end_date', format(addDays(new Date(), LEASE_END_WARNING_DAYS), 'yyyy-MM-dd'))
+        .order('end_date', { ascending: true });
+
+      if (error) throw error;
+      return (data ?? []) as LeaseWithProperty[];
+    },
+    enabled: !!organizationId,
+  });
+
+  return {
+    leases: query.data ?? [],
+    isLoading: query.isLoading,
+  };
+}
@@ -0,0 +1,111 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+
+export type Mandate = Tables<'mandates'>;
+export type MandateUpdate = TablesUpdate<'mandates'>;
+
+export interface MandateRegistration {
+  property_id: string;
+  mandate_type: string;
+  start_date: string;
+  end_date?: string | null;
+  contact_id?: string | null;
+  tacit_renewal?: boolean;
+  renewal_terms?: string | null;
+  notice_period_days?: number | null;
+  price?: number | null;
+  fees?: number | null;
+  notes?: string | null;
+}
+
+interface UseMandatesOptions {
+  filters?: Record<string, string | number | boolean | null>;
+}
+
+/**
+ * Mandate register entries, in register order (number ascending).
+ * New entries go through the register_mandate RPC, which allocates the
+ * next gap-free number for the organization.
+ */
+export function useMandates(options?: UseMandatesOptions) {
+  const { organizationId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useOrgQuery<Mandate[]>('mandates', {
+    select: '*',
+    filters: options?.filters,
+    orderBy: { column: 'number', ascending: true },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (values: MandateRegistration) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      const { data, error } = await supabase.rpc('register_mandate', {
+        p_property_id: values.property_id,
+        p_mandate_type: values.mandate_type,
+        p_start_date: values.start_date,
+        p_end_date: values.end_date ?? null,
+        p_contact_id: values.contact_id ?? null,
+        p_tacit_renewal: values.tacit_renewal ?? false,
+        p_renewal_terms: values.renewal_terms ?? null,
+        p_notice_period_days: values.notice_period_days ?? null,
+        p_price: values.price ?? null,
+        p_fees: values.fees ?? null,
+        p_notes: values.notes ?? null,
+      });
+
+      if (error) throw error;
+      return data as Mandate;
+    },
+    onSuccess: (mandate) => {
+      queryClient.invalidateQueries({ queryKey: ['mandates', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['properties', organizationId] });
+      queryClient.invalidateQueries({ queryKey: ['property', mandate.property_id] });
+      toast.success(`Mandat n°${mandate.number} enregistré au registre`);
+    },
+    onError: (error) => {
+      toast.error("Erreur lors de l'enregistrement du mandat", { description: error.message });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...values }: MandateUpdate & { id: string }) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      const { data, error } = await supabase
+        .from('mandates')
+        .update(values)
+        .eq('id', id)
+        .eq('organization_id', organizationId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['mandates', organizationId] });
+      toast.success('Mandat mis à jour');
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de la mise à jour', { description: error.message });
+    },
+  });
+
+  return {
+    mandates: query.data ?? [],
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+    refetch: query.refetch,
+    register: registerMutation.mutateAsync,
+    update: updateMutation.mutateAsync,
+    isRegistering: registerMutation.isPending,
+    isUpdating: updateMutation.isPending,
+  };
+}
@@ -0,0 +1,150 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Json, TablesInsert } from '@/integrations/supabase/types';
+import type { Offer } from '@/lib/offers';
+
+export type OfferWithBuyer = Offer & {
+  contacts: { full_name: string } | null;
+};
+
+export type OfferInput = Omit<
+  TablesInsert<'offers'>,
+  'organization_id' | 'deal_id' | 'parent_offer_id' | 'status' | 'created_by' | 'responded_at'
+>;
+
+/**
+ * Offers and counter-offers of a deal.
+ * Acceptance goes through the accept_offer RPC, which also refuses the
+ * other pending offers and moves the deal to compromis with the agreed amount.
+ * Counter-offers go through counter_offer, which marks the answered offer
+ * as countered in the same transaction.
+ */
+export function useOffers(dealId: string | null | undefined) {
+  const { organizationId, profileId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useOrgQuery<OfferWithBuyer[]>('offers', {
+    select: '*, contacts:contact_id(full_name)',
+    filters: dealId ? { deal_id: dealId } : undefined,
+    orderBy: { column: 'created_at', ascending: true },
+  }, {
+    enabled: !!dealId && !!organizationId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['offers', organizationId] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (values: OfferInput & { parent_offer_id?: string | null }) => {
+      if (!organizationId || !dealId) throw new Error('Organisation non trouvée');
+
+      const { data, error } = await supabase
+        .from('offers')
+        .insert({ ...values, deal_id: dealId, organization_id: organizationId, created_by: profileId ?? null })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Offer;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Offre enregistrée');
+    },
+    onError: (error) => {
+      toast.error("Erreur lors de l'enregistrement de l'offre", { description: error.message });
+    },
+  });
+
+  const counterMutation = useMutation({
+    mutationFn: async ({ offer, values }: { offer: Offer; values: OfferInput }) => {
+      const { data, error } = await supabase.rpc('counter_offer', {
+        p_offer_id: offer.id,
+        p_values: values as Json,
+      });
+      if (error) throw error;
+      return data as Offer;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Contre-offre enregistrée');
+    },
+    onError: (error) => {
+      toast.error("Erreur lors de l'enregistrement de la contre-offre", { description: error.message });
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (offerId: string) => {
+      const { data, error } = await supabase.rpc('accept_offer', { p_offer_id: offerId });
+      if (error) throw error;
+      return data as Offer;
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['deals', organizationId] });
+      toast.success('Offre acceptée', { description: "Montant de l'opportunité mis à jour, passage en compromis" });
+    },
+    onError: (error) => {
+      toast.error("Erreur lors de l'acceptation", { description: error.message });
+    },
+  });
+
+  const refuseMutation = useMutation({
+    mutationFn: async (offerId: string) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      const { error } = await supabase
+        .from('offers')
+        .update({ status: 'refused', responded_at: new Date().toISOString() })
+        .eq('id', offerId)
+        .eq('organization_id', organizationId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Offre refusée');
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de la mise à jour', { description: error.message });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (offerId: string) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      const { error } = await supabase
+        .from('offers')
+        .delete()
+        .eq('id', offerId)
+        .eq('organization_id', organizationId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Offre supprimée');
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de la suppression', { description: error.message });
+    },
+  });
+
+  return {
+    offers: query.data ?? [],
+    isLoading: query.isLoading,
+    create: createMutation.mutateAsync,
+    counter: counterMutation.mutateAsync,
+    accept: acceptMutation.mutateAsync,
+    refuse: refuseMutation.mutateAsync,
+    delete: deleteMutation.mutateAsync,
+    isCreating: createMutation.isPending || counterMutation.isPending,
+    isResponding: acceptMutation.isPending || refuseMutation.isPending,
+  };
+}
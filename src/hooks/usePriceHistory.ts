@@ -0,0 +1,57 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useAuth } from '@/contexts/AuthContext';
+import { PRICE_DROP_BADGE_DAYS } from '@/lib/constants';
+import { getRecentPriceDrops, type PriceChange } from '@/lib/price-history';
+
+export type PriceChangeWithAuthor = PriceChange & { author: { full_name: string | null } | null };
+
+/**
+ * Price timeline of a property, most recent change first
+ */
+export function usePropertyPriceHistory(propertyId: string | null | undefined) {
+  const { organizationId } = useAuth();
+
+  const query = useOrgQuery<PriceChangeWithAuthor[]>('property_price_history', {
+    select: '*, author:profiles!property_price_history_changed_by_fkey(full_name)',
+    filters: propertyId ? { property_id: propertyId } : undefined,
+    orderBy: { column: 'changed_at', ascending: false },
+  }, {
+    enabled: !!propertyId && !!organizationId,
+  });
+
+  return {
+    history: query.data ?? [],
+    isLoading: query.isLoading,
+  };
+}
+
+/**
+ * Properties whose latest price change is a drop within PRICE_DROP_BADGE_DAYS, keyed by property id
+ */
+export function useRecentPriceDrops() {
+  const { organizationId } = useAuth();
+
+  const query = useQuery<PriceChange[]>({
+    queryKey: ['property_price_history', organizationId, 'recent'],
+    queryFn: async () => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+
+      const { data, error } = await supabase
+        .from('property_price_history')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .gte('changed_at', subDays(new Date(), PRICE_DROP_BADGE_DAYS).toISOString())
+        .order('changed_at', { ascending: false });
+
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!organizationId,
+  });
+
+  return useMemo(() => getRecentPriceDrops(query.data ?? []), [query.data]);
+}
@@ -0,0 +1,113 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { DIAGNOSTICS_BUCKET, getDiagnosticFileName, type PropertyDiagnostic } from '@/lib/diagnostics';
+import type { DiagnosticKind } from '@/lib/constants';
+
+export interface DiagnosticReport {
+  kind: DiagnosticKind;
+  performedAt: string;
+  result?: 'negatif' | 'positif' | null;
+  file?: File | null;
+  notes?: string | null;
+}
+
+/**
+ * DDT reports of a property (one row per diagnostic kind)
+ */
+export function usePropertyDiagnostics(propertyId: string | null | undefined) {
+  const { organizationId, profileId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useOrgQuery<PropertyDiagnostic[]>('property_diagnostics', {
+    select: '*',
+    filters: propertyId ? { property_id: propertyId } : undefined,
+  }, {
+    enabled: !!propertyId && !!organizationId,
+  });
+
+  const diagnostics = query.data ?? [];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['property_diagnostics', organizationId] });
+  };
+
+  const upsert = async (kind: DiagnosticKind, values: Partial<PropertyDiagnostic>) => {
+    if (!organizationId || !propertyId) throw new Error('Organisation non trouvée');
+
+    const { error } = await supabase
+      .from('property_diagnostics')
+      .upsert(
+        { ...values, kind, property_id: propertyId, organization_id: organizationId, created_by: profileId ?? null },
+        { onConflict: 'property_id,kind' }
+      );
+
+    if (error) throw error;
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ kind, performedAt, result, file, notes }: DiagnosticReport) => {
+      if (!organizationId || !propertyId) throw new Error('Organisation non trouvée');
+      const previous = diagnostics.find((d) => d.kind === kind);
+
+      let fileColumns: Pick<PropertyDiagnostic, 'file_path' | 'file_name'> | null = null;
+      if (file) {
+        const path = `${organizationId}/${propertyId}/ddt/${getDiagnosticFileName(kind, file.name)}`;
+        const { error: uploadError } = await supabase.storage.from(DIAGNOSTICS_BUCKET).upload(path, file, { upsert: false });
+        if (uploadError) throw uploadError;
+        fileColumns = { file_path: path, file_name: file.name };
+      }
+
+      await upsert(kind, {
+        performed_at: performedAt,
+        result: result ?? null,
+        notes: notes ?? null,
+        not_applicable: false,
+        ...fileColumns,
+      });
+
+      // The new report replaces the previous file
+      if (fileColumns && previous?.file_path) {
+        await supabase.storage.from(DIAGNOSTICS_BUCKET).remove([previous.file_path]);
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Diagnostic enregistré');
+    },
+    onError: (error) => {
+      toast.error("Erreur lors de l'enregistrement du diagnostic", { description: error.message });
+    },
+  });
+
+  const notApplicableMutation = useMutation({
+    mutationFn: async ({ kind, notApplicable }: { kind: DiagnosticKind; notApplicable: boolean }) => {
+      await upsert(kind, { not_applicable: notApplicable });
+    },
+    onSuccess: () => invalidate(),
+    onError: (error) => {
+      toast.error('Erreur lors de la mise à jour', { description: error.message });
+    },
+  });
+
+  const openFile = async (diagnostic: PropertyDiagnostic) => {
+    if (!diagnostic.file_path) return;
+    const { data, error } = await supabase.storage.from(DIAGNOSTICS_BUCKET).createSignedUrl(diagnostic.file_path, 300);
+    if (error || !data?.signedUrl) {
+      toast.error("Impossible d'ouvrir le document");
+      return;
+    }
+    window.open(data.signedUrl, '_blank');
+  };
+
+  return {
+    diagnostics,
+    isLoading: query.isLoading,
+    save: saveMutation.mutateAsync,
+    setNotApplicable: notApplicableMutation.mutateAsync,
+    openFile,
+    isSaving: saveMutation.isPending,
+  };
+}
@@ -0,0 +1,52 @@
+import { useMemo } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/hooks/useOrganization';
+import { toast } from 'sonner';
+import { getScoringModel, type ScoringModel } from '@/lib/scoring-model';
+import type { Json } from '@/integrations/supabase/types';
+import type { OrgSettings } from '@/types/settings';
+
+/**
+ * Lead scoring model of the organization (the default one until an admin
+ * saves their own), with the mutations of the Settings editor.
+ */
+export function useScoringModel() {
+  const { user, organizationId } = useAuth();
+  const { data: organization } = useOrganization();
+  const queryClient = useQueryClient();
+
+  const settings = organization?.settings as unknown as OrgSettings | null;
+  const savedModel = settings?.lead_scoring;
+  const model = useMemo(() => getScoringModel({ lead_scoring: savedModel }), [savedModel]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (value: ScoringModel | null) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+      const newSettings: OrgSettings = { ...settings, lead_scoring: value ?? undefined };
+      // RLS lets only admins update the organization: a refused update returns no row, not an error
+      const { data, error } = await supabase
+        .from('organizations')
+        .update({ settings: newSettings as unknown as Json })
+        .eq('id', organizationId)
+        .select('id');
+      if (error) throw error;
+      if (!data?.length) throw new Error('Seul un administrateur peut modifier le modèle de scoring');
+    },
+    onSuccess: (_, value) => {
+      queryClient.invalidateQueries({ queryKey: ['organization', user?.id] });
+      toast.success(value ? 'Modèle de scoring enregistré' : 'Modèle par défaut rétabli');
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de l\'enregistrement du modèle', { description: error.message });
+    },
+  });
+
+  return {
+    model,
+    isCustom: !!savedModel,
+    save: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+  };
+}
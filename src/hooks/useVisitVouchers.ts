@@ -0,0 +1,155 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { buildVisitVoucher } from '@/lib/visit-voucher';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type VisitVoucher = Tables<'visit_vouchers'>;
+
+export interface VisitVoucherSignature {
+  signature: string;
+  signedByName: string;
+}
+
+/**
+ * Bon de visite of a 'visite' activity: draw it up from the current
+ * contact / property / mandate, then have the visitor sign it on screen
+ */
+export function useVisitVoucher(activity: Pick<Tables<'activities'>, 'id' | 'date' | 'contact_id' | 'property_id'> | null) {
+  const { user, organizationId, profileId } = useAuth();
+  const queryClient = useQueryClient();
+  const activityId = activity?.id;
+
+  const query = useQuery<VisitVoucher | null>({
+    queryKey: ['visit_vouchers', organizationId, activityId],
+    queryFn: async () => {
+      if (!organizationId || !activityId) return null;
+
+      const { data, error } = await supabase
+        .from('visit_vouchers')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .eq('activity_id', activityId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId && !!activityId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['visit_vouchers', organizationId] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+      if (!activity?.contact_id || !activity.property_id) throw new Error('Visiteur ou bien manquant');
+
+      const [contactRes, propertyRes, mandateRes] = await Promise.all([
+        supabase.from('contacts').select('full_name, email, phone').eq('id', activity.contact_id).single(),
+        supabase.from('properties').select('title, address, postal_code, city, price, transaction_type').eq('id', activity.property_id).single(),
+        supabase
+          .from('mandates')
+          .select('number, fees')
+          .eq('organization_id', organizationId)
+          .eq('property_id', activity.property_id)
+          .eq('status', 'actif')
+          .order('number', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      if (contactRes.error) throw contactRes.error;
+      if (propertyRes.error) throw propertyRes.error;
+      if (mandateRes.error) throw mandateRes.error;
+
+      const { data, error } = await supabase
+        .from('visit_vouchers')
+        .insert([{
+          ...buildVisitVoucher({
+            activity,
+            contact: contactRes.data,
+            property: propertyRes.data,
+            mandate: mandateRes.data,
+            agentName: user?.user_metadata?.full_name ?? user?.email ?? null,
+          }),
+          organization_id: organizationId,
+          created_by: profileId ?? null,
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Bon de visite établi');
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de la création du bon de visite', { description: error.message });
+    },
+  });
+
+  const signMutation = useMutation({
+    mutationFn: async ({ signature, signedByName }: VisitVoucherSignature) => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+      if (!query.data) throw new Error('Bon de visite non trouvé');
+
+      const { data, error } = await supabase
+        .from('visit_vouchers')
+        .update({ signature, signed_by_name: signedByName, signed_at: new Date().toISOString() })
+        .eq('id', query.data.id)
+        .eq('organization_id', organizationId)
+        .is('signed_at', null)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Bon de visite signé');
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de la signature', { description: error.message });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      if (!organizationId) throw new Error('Organisation non trouvée');
+      if (!query.data) return;
+
+      const { error } = await supabase
+        .from('visit_vouchers')
+        .delete()
+        .eq('id', query.data.id)
+        .eq('organization_id', organizationId)
+        .is('signed_at', null);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error('Erreur lors de la suppression', { description: error.message });
+    },
+  });
+
+  return {
+    voucher: query.data ?? null,
+    isLoading: query.isLoading,
+    create: createMutation.mutateAsync,
+    sign: signMutation.mutateAsync,
+    discard: deleteMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    isSigning: signMutation.isPending,
+    isDiscarding: deleteMutation.isPending,
+  };
+}
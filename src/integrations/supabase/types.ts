@@ -123,6 +123,7 @@ export type Database = {
           organization_id: string
           priority: Database["public"]["Enums"]["activity_priority"]
           property_id: string | null
+          sequence_enrollment_id: string | null
           status: Database["public"]["Enums"]["activity_status"] | null
           type: Database["public"]["Enums"]["activity_type"] | null
           updated_at: string | null
@@ -143,6 +144,7 @@ export type Database = {
           organization_id: string
           priority?: Database["public"]["Enums"]["activity_priority"]
           property_id?: string | null
+          sequence_enrollment_id?: string | null
           status?: Database["public"]["Enums"]["activity_status"] | null
           type?: Database["public"]["Enums"]["activity_type"] | null
           updated_at?: string | null
@@ -163,6 +165,7 @@ export type Database = {
           organization_id?: string
           priority?: Database["public"]["Enums"]["activity_priority"]
           property_id?: string | null
+          sequence_enrollment_id?: string | null
           status?: Database["public"]["Enums"]["activity_status"] | null
           type?: Database["public"]["Enums"]["activity_type"] | null
           updated_at?: string | null
@@ -210,6 +213,13 @@ export type Database = {
             referencedRelation: "properties"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "activities_sequence_enrollment_id_fkey"
+            columns: ["sequence_enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "sequence_enrollments"
+            referencedColumns: ["id"]
+          },
         ]
       }
       audit_logs: {
@@ -265,69 +275,403 @@ export type Database = {
           },
         ]
       }
+      contact_consents: {
+        Row: {
+          channel: string
+          consented_at: string
+          contact_id: string
+          created_at: string
+          granted: boolean
+          id: string
+          organization_id: string
+          recorded_by: string | null
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          channel: string
+          consented_at?: string
+          contact_id: string
+          created_at?: string
+          granted: boolean
+          id?: string
+          organization_id: string
+          recorded_by?: string | null
+          source: string
+          updated_at?: string
+        }
+        Update: {
+          channel?: string
+          consented_at?: string
+          contact_id?: string
+          created_at?: string
+          granted?: boolean
+          id?: string
+          organization_id?: string
+          recorded_by?: string | null
+          source?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_consents_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_consents_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_consents_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_duplicate_dismissals: {
+        Row: {
+          contact_a: string
+          contact_b: string
+          created_at: string
+          created_by: string | null
+          id: string
+          organization_id: string
+        }
+        Insert: {
+          contact_a: string
+          contact_b: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          organization_id: string
+        }
+        Update: {
+          contact_a?: string
+          contact_b?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_duplicate_dismissals_contact_a_fkey"
+            columns: ["contact_a"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_duplicate_dismissals_contact_b_fkey"
+            columns: ["contact_b"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_duplicate_dismissals_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_duplicate_dismissals_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_import_batch_items: {
+        Row: {
+          action: string
+          batch_id: string
+          contact_id: string | null
+          created_at: string
+          id: string
+          organization_id: string
+          previous_values: Json | null
+        }
+        Insert: {
+          action: string
+          batch_id: string
+          contact_id?: string | null
+          created_at?: string
+          id?: string
+          organization_id: string
+          previous_values?: Json | null
+        }
+        Update: {
+          action?: string
+          batch_id?: string
+          contact_id?: string | null
+          created_at?: string
+          id?: string
+          organization_id?: string
+          previous_values?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_import_batch_items_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "contact_import_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_import_batch_items_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_import_batch_items_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_import_batches: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          created_count: number
+          error_count: number
+          file_format: string
+          file_name: string
+          id: string
+          mode: string
+          organization_id: string
+          reverted_at: string | null
+          reverted_by: string | null
+          skipped_count: number
+          status: string
+          updated_count: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          created_count?: number
+          error_count?: number
+          file_format?: string
+          file_name: string
+          id?: string
+          mode?: string
+          organization_id: string
+          reverted_at?: string | null
+          reverted_by?: string | null
+          skipped_count?: number
+          status?: string
+          updated_count?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          created_count?: number
+          error_count?: number
+          file_format?: string
+          file_name?: string
+          id?: string
+          mode?: string
+          organization_id?: string
+          reverted_at?: string | null
+          reverted_by?: string | null
+          skipped_count?: number
+          status?: string
+          updated_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_import_batches_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_import_batches_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_import_batches_reverted_by_fkey"
+            columns: ["reverted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_relationships: {
+        Row: {
+          contact_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          notes: string | null
+          organization_id: string
+          related_contact_id: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          contact_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          organization_id: string
+          related_contact_id: string
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          contact_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          organization_id?: string
+          related_contact_id?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_relationships_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_relationships_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_relationships_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_relationships_related_contact_id_fkey"
+            columns: ["related_contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contact_searches: {
         Row: {
           budget_max: number | null
           budget_min: number | null
+          center_label: string | null
+          center_lat: number | null
+          center_lng: number | null
           cities: string[] | null
           contact_id: string
           created_at: string | null
           id: string
           is_active: boolean | null
           max_bedrooms: number | null
+          max_rente: number | null
           max_rooms: number | null
           max_surface: number | null
           min_bedrooms: number | null
           min_rooms: number | null
           min_surface: number | null
+          must_have_amenities: string[]
+          nice_to_have_amenities: string[]
           notes: string | null
           organization_id: string
           postal_codes: string[] | null
           property_types: string[] | null
+          radius_km: number | null
+          search_polygon: Json | null
           transaction_type: string | null
           updated_at: string | null
+          viager_occupancy: string | null
         }
         Insert: {
           budget_max?: number | null
           budget_min?: number | null
+          center_label?: string | null
+          center_lat?: number | null
+          center_lng?: number | null
           cities?: string[] | null
           contact_id: string
           created_at?: string | null
           id?: string
           is_active?: boolean | null
           max_bedrooms?: number | null
+          max_rente?: number | null
           max_rooms?: number | null
           max_surface?: number | null
           min_bedrooms?: number | null
           min_rooms?: number | null
           min_surface?: number | null
+          must_have_amenities?: string[]
+          nice_to_have_amenities?: string[]
           notes?: string | null
           organization_id: string
           postal_codes?: string[] | null
           property_types?: string[] | null
+          radius_km?: number | null
+          search_polygon?: Json | null
           transaction_type?: string | null
           updated_at?: string | null
+          viager_occupancy?: string | null
         }
         Update: {
           budget_max?: number | null
           budget_min?: number | null
+          center_label?: string | null
+          center_lat?: number | null
+          center_lng?: number | null
           cities?: string[] | null
           contact_id?: string
           created_at?: string | null
           id?: string
           is_active?: boolean | null
           max_bedrooms?: number | null
+          max_rente?: number | null
           max_rooms?: number | null
           max_surface?: number | null
           min_bedrooms?: number | null
           min_rooms?: number | null
           min_surface?: number | null
+          must_have_amenities?: string[]
+          nice_to_have_amenities?: string[]
           notes?: string | null
           organization_id?: string
           postal_codes?: string[] | null
           property_types?: string[] | null
+          radius_km?: number | null
+          search_polygon?: Json | null
           transaction_type?: string | null
           updated_at?: string | null
+          viager_occupancy?: string | null
         }
         Relationships: [
           {
@@ -346,9 +690,55 @@ export type Database = {
           },
         ]
       }
+      contact_segments: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          organization_id: string
+          rules: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          organization_id: string
+          rules?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          organization_id?: string
+          rules?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_segments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_segments_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contacts: {
         Row: {
           address: string | null
+          anonymized_at: string | null
           assigned_to: string | null
           city: string | null
           created_at: string | null
@@ -370,6 +760,7 @@ export type Database = {
         }
         Insert: {
           address?: string | null
+          anonymized_at?: string | null
           assigned_to?: string | null
           city?: string | null
           created_at?: string | null
@@ -391,6 +782,7 @@ export type Database = {
         }
         Update: {
           address?: string | null
+          anonymized_at?: string | null
           assigned_to?: string | null
           city?: string | null
           created_at?: string | null
@@ -427,6 +819,55 @@ export type Database = {
           },
         ]
       }
+      deal_parties: {
+        Row: {
+          contact_id: string
+          created_at: string
+          deal_id: string
+          id: string
+          organization_id: string
+          role: string
+        }
+        Insert: {
+          contact_id: string
+          created_at?: string
+          deal_id: string
+          id?: string
+          organization_id: string
+          role: string
+        }
+        Update: {
+          contact_id?: string
+          created_at?: string
+          deal_id?: string
+          id?: string
+          organization_id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_parties_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deal_parties_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deal_parties_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       deals: {
         Row: {
           actual_close_date: string | null
@@ -630,6 +1071,258 @@ export type Database = {
           },
         ]
       }
+      lead_capture_attempts: {
+        Row: {
+          created_at: string
+          id: string
+          ip_hash: string
+          organization_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          ip_hash: string
+          organization_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          ip_hash?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_capture_attempts_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leases: {
+        Row: {
+          charges_amount: number | null
+          created_at: string
+          created_by: string | null
+          deposit_amount: number | null
+          end_date: string
+          id: string
+          indexation_date: string | null
+          irl_reference: string | null
+          is_furnished: boolean
+          notes: string | null
+          organization_id: string
+          owner_id: string | null
+          property_id: string
+          rent_amount: number
+          start_date: string
+          status: string
+          tenant_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          charges_amount?: number | null
+          created_at?: string
+          created_by?: string | null
+          deposit_amount?: number | null
+          end_date: string
+          id?: string
+          indexation_date?: string | null
+          irl_reference?: string | null
+          is_furnished?: boolean
+          notes?: string | null
+          organization_id: string
+          owner_id?: string | null
+          property_id: string
+          rent_amount: number
+          start_date: string
+          status?: string
+          tenant_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          charges_amount?: number | null
+          created_at?: string
+          created_by?: string | null
+          deposit_amount?: number | null
+          end_date?: string
+          id?: string
+          indexation_date?: string | null
+          irl_reference?: string | null
+          is_furnished?: boolean
+          notes?: string | null
+          organization_id?: string
+          owner_id?: string | null
+          property_id?: string
+          rent_amount?: number
+          start_date?: string
+          status?: string
+          tenant_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leases_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leases_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leases_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leases_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leases_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mandate_counters: {
+        Row: {
+          last_number: number
+          organization_id: string
+          updated_at: string
+        }
+        Insert: {
+          last_number?: number
+          organization_id: string
+          updated_at?: string
+        }
+        Update: {
+          last_number?: number
+          organization_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mandate_counters_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mandates: {
+        Row: {
+          contact_id: string | null
+          created_at: string
+          created_by: string | null
+          end_date: string | null
+          fees: number | null
+          id: string
+          mandate_type: string
+          mandator_name: string | null
+          notes: string | null
+          notice_period_days: number | null
+          number: number
+          organization_id: string
+          price: number | null
+          property_id: string | null
+          property_label: string
+          renewal_terms: string | null
+          start_date: string
+          status: string
+          tacit_renewal: boolean
+          updated_at: string
+        }
+        Insert: {
+          contact_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          end_date?: string | null
+          fees?: number | null
+          id?: string
+          mandate_type: string
+          mandator_name?: string | null
+          notes?: string | null
+          notice_period_days?: number | null
+          number: number
+          organization_id: string
+          price?: number | null
+          property_id?: string | null
+          property_label: string
+          renewal_terms?: string | null
+          start_date: string
+          status?: string
+          tacit_renewal?: boolean
+          updated_at?: string
+        }
+        Update: {
+          contact_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          end_date?: string | null
+          fees?: number | null
+          id?: string
+          mandate_type?: string
+          mandator_name?: string | null
+          notes?: string | null
+          notice_period_days?: number | null
+          number?: number
+          organization_id?: string
+          price?: number | null
+          property_id?: string | null
+          property_label?: string
+          renewal_terms?: string | null
+          start_date?: string
+          status?: string
+          tacit_renewal?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mandates_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mandates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mandates_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mandates_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       market_stats_cache: {
         Row: {
           avg_price_m2: number
@@ -715,26 +1408,138 @@ export type Database = {
           deals_lost?: number | null
           deals_won?: number | null
           id?: string
-          month?: number
-          month_date?: string | null
-          nb_visites?: number | null
-          objectif_ca?: number | null
+          month?: number
+          month_date?: string | null
+          nb_visites?: number | null
+          objectif_ca?: number | null
+          organization_id?: string
+          properties_added?: number | null
+          revenue?: number | null
+          title?: string | null
+          total_commissions?: number | null
+          updated_at?: string | null
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mois_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      offers: {
+        Row: {
+          amount: number
+          conditions: string | null
+          contact_id: string | null
+          created_at: string
+          created_by: string | null
+          deal_id: string
+          direction: string
+          id: string
+          loan_amount: number | null
+          loan_condition: boolean
+          loan_deadline: string | null
+          offered_at: string
+          organization_id: string
+          parent_offer_id: string | null
+          property_id: string | null
+          responded_at: string | null
+          signing_deadline: string | null
+          status: string
+          updated_at: string
+          valid_until: string | null
+        }
+        Insert: {
+          amount: number
+          conditions?: string | null
+          contact_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          deal_id: string
+          direction?: string
+          id?: string
+          loan_amount?: number | null
+          loan_condition?: boolean
+          loan_deadline?: string | null
+          offered_at?: string
+          organization_id: string
+          parent_offer_id?: string | null
+          property_id?: string | null
+          responded_at?: string | null
+          signing_deadline?: string | null
+          status?: string
+          updated_at?: string
+          valid_until?: string | null
+        }
+        Update: {
+          amount?: number
+          conditions?: string | null
+          contact_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          deal_id?: string
+          direction?: string
+          id?: string
+          loan_amount?: number | null
+          loan_condition?: boolean
+          loan_deadline?: string | null
+          offered_at?: string
           organization_id?: string
-          properties_added?: number | null
-          revenue?: number | null
-          title?: string | null
-          total_commissions?: number | null
-          updated_at?: string | null
-          year?: number
+          parent_offer_id?: string | null
+          property_id?: string | null
+          responded_at?: string | null
+          signing_deadline?: string | null
+          status?: string
+          updated_at?: string
+          valid_until?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "mois_organization_id_fkey"
+            foreignKeyName: "offers_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offers_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offers_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offers_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "offers_parent_offer_id_fkey"
+            columns: ["parent_offer_id"]
+            isOneToOne: false
+            referencedRelation: "offers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offers_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
         ]
       }
       organizations: {
@@ -767,6 +1572,68 @@ export type Database = {
         }
         Relationships: []
       }
+      pipeline_stage_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          contact_id: string | null
+          deal_id: string | null
+          id: string
+          new_stage: string | null
+          old_stage: string | null
+          organization_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          contact_id?: string | null
+          deal_id?: string | null
+          id?: string
+          new_stage?: string | null
+          old_stage?: string | null
+          organization_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          contact_id?: string | null
+          deal_id?: string | null
+          id?: string
+          new_stage?: string | null
+          old_stage?: string | null
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pipeline_stage_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pipeline_stage_history_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pipeline_stage_history_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pipeline_stage_history_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -831,16 +1698,24 @@ export type Database = {
           energy_rating: string | null
           features: Json | null
           floor: number | null
+          geocoded_at: string | null
           ges_label: string | null
           heating_type: string | null
           id: string
           images: string[] | null
+          is_furnished: boolean
+          latitude: number | null
+          longitude: number | null
           mandate_number: string | null
           mandate_type: string | null
           organization_id: string
           postal_code: string | null
           price: number | null
+          publish_to_portals: boolean
+          reference_rent_m2: number | null
+          rent_charges: number | null
           rooms: number | null
+          security_deposit: number | null
           status: Database["public"]["Enums"]["property_status"] | null
           surface: number | null
           tax_property: number | null
@@ -849,6 +1724,10 @@ export type Database = {
           transaction_type: string | null
           type: Database["public"]["Enums"]["property_type"] | null
           updated_at: string | null
+          viager_bouquet: number | null
+          viager_occupancy: string | null
+          viager_rente: number | null
+          viager_sellers: Json | null
           year_built: number | null
         }
         Insert: {
@@ -867,16 +1746,24 @@ export type Database = {
           energy_rating?: string | null
           features?: Json | null
           floor?: number | null
+          geocoded_at?: string | null
           ges_label?: string | null
           heating_type?: string | null
           id?: string
           images?: string[] | null
+          is_furnished?: boolean
+          latitude?: number | null
+          longitude?: number | null
           mandate_number?: string | null
           mandate_type?: string | null
           organization_id: string
           postal_code?: string | null
           price?: number | null
+          publish_to_portals?: boolean
+          reference_rent_m2?: number | null
+          rent_charges?: number | null
           rooms?: number | null
+          security_deposit?: number | null
           status?: Database["public"]["Enums"]["property_status"] | null
           surface?: number | null
           tax_property?: number | null
@@ -885,6 +1772,10 @@ export type Database = {
           transaction_type?: string | null
           type?: Database["public"]["Enums"]["property_type"] | null
           updated_at?: string | null
+          viager_bouquet?: number | null
+          viager_occupancy?: string | null
+          viager_rente?: number | null
+          viager_sellers?: Json | null
           year_built?: number | null
         }
         Update: {
@@ -903,16 +1794,24 @@ export type Database = {
           energy_rating?: string | null
           features?: Json | null
           floor?: number | null
+          geocoded_at?: string | null
           ges_label?: string | null
           heating_type?: string | null
           id?: string
           images?: string[] | null
+          is_furnished?: boolean
+          latitude?: number | null
+          longitude?: number | null
           mandate_number?: string | null
           mandate_type?: string | null
           organization_id?: string
           postal_code?: string | null
           price?: number | null
+          publish_to_portals?: boolean
+          reference_rent_m2?: number | null
+          rent_charges?: number | null
           rooms?: number | null
+          security_deposit?: number | null
           status?: Database["public"]["Enums"]["property_status"] | null
           surface?: number | null
           tax_property?: number | null
@@ -921,6 +1820,10 @@ export type Database = {
           transaction_type?: string | null
           type?: Database["public"]["Enums"]["property_type"] | null
           updated_at?: string | null
+          viager_bouquet?: number | null
+          viager_occupancy?: string | null
+          viager_rente?: number | null
+          viager_sellers?: Json | null
           year_built?: number | null
         }
         Relationships: [
@@ -947,6 +1850,128 @@ export type Database = {
           },
         ]
       }
+      property_diagnostics: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          file_name: string | null
+          file_path: string | null
+          id: string
+          kind: string
+          not_applicable: boolean
+          notes: string | null
+          organization_id: string
+          performed_at: string | null
+          property_id: string
+          result: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          file_name?: string | null
+          file_path?: string | null
+          id?: string
+          kind: string
+          not_applicable?: boolean
+          notes?: string | null
+          organization_id: string
+          performed_at?: string | null
+          property_id: string
+          result?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          file_name?: string | null
+          file_path?: string | null
+          id?: string
+          kind?: string
+          not_applicable?: boolean
+          notes?: string | null
+          organization_id?: string
+          performed_at?: string | null
+          property_id?: string
+          result?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_diagnostics_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "property_diagnostics_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "property_diagnostics_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      property_price_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          id: string
+          new_price: number | null
+          old_price: number | null
+          organization_id: string
+          property_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          new_price?: number | null
+          old_price?: number | null
+          organization_id: string
+          property_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          new_price?: number | null
+          old_price?: number | null
+          organization_id?: string
+          property_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_price_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "property_price_history_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "property_price_history_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       property_proposals: {
         Row: {
           clicked_at: string | null
@@ -1108,12 +2133,151 @@ export type Database = {
           },
         ]
       }
+      visit_vouchers: {
+        Row: {
+          activity_id: string | null
+          agent_name: string | null
+          contact_id: string | null
+          created_at: string
+          created_by: string | null
+          fee_mention: string
+          id: string
+          mandate_number: number | null
+          organization_id: string
+          property_address: string | null
+          property_id: string | null
+          property_label: string
+          property_price: number | null
+          signature: string | null
+          signed_at: string | null
+          signed_by_name: string | null
+          updated_at: string
+          visit_date: string
+          visitor_email: string | null
+          visitor_name: string
+          visitor_phone: string | null
+        }
+        Insert: {
+          activity_id?: string | null
+          agent_name?: string | null
+          contact_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          fee_mention: string
+          id?: string
+          mandate_number?: number | null
+          organization_id: string
+          property_address?: string | null
+          property_id?: string | null
+          property_label: string
+          property_price?: number | null
+          signature?: string | null
+          signed_at?: string | null
+          signed_by_name?: string | null
+          updated_at?: string
+          visit_date: string
+          visitor_email?: string | null
+          visitor_name: string
+          visitor_phone?: string | null
+        }
+        Update: {
+          activity_id?: string | null
+          agent_name?: string | null
+          contact_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          fee_mention?: string
+          id?: string
+          mandate_number?: number | null
+          organization_id?: string
+          property_address?: string | null
+          property_id?: string | null
+          property_label?: string
+          property_price?: number | null
+          signature?: string | null
+          signed_at?: string | null
+          signed_by_name?: string | null
+          updated_at?: string
+          visit_date?: string
+          visitor_email?: string | null
+          visitor_name?: string
+          visitor_phone?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "visit_vouchers_activity_id_fkey"
+            columns: ["activity_id"]
+            isOneToOne: true
+            referencedRelation: "activities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visit_vouchers_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visit_vouchers_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visit_vouchers_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visit_vouchers_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      accept_offer: {
+        Args: {
+          p_offer_id: string
+        }
+        Returns: Database["public"]["Tables"]["offers"]["Row"]
+      }
+      anonymize_contact: {
+        Args: {
+          p_contact_id: string
+        }
+        Returns: Database["public"]["Tables"]["contacts"]["Row"]
+      }
+      anonymize_contact_data: {
+        Args: {
+          p_contact_id: string
+        }
+        Returns: Database["public"]["Tables"]["contacts"]["Row"]
+      }
       get_auth_user_org_id: { Args: never; Returns: string }
+      counter_offer: {
+        Args: {
+          p_offer_id: string
+          p_values: Json
+        }
+        Returns: Database["public"]["Tables"]["offers"]["Row"]
+      }
+      get_inactive_contacts: {
+        Args: {
+          p_years: number
+        }
+        Returns: Database["public"]["Tables"]["contacts"]["Row"][]
+      }
       get_user_org_id: { Args: never; Returns: string }
       has_role: {
         Args: {
@@ -1122,6 +2286,50 @@ export type Database = {
         }
         Returns: boolean
       }
+      inactive_contact_ids: {
+        Args: {
+          p_organization_id: string
+          p_years: number
+        }
+        Returns: string[]
+      }
+      merge_contacts: {
+        Args: {
+          p_keep_id: string
+          p_merge_id: string
+          p_values?: Json
+        }
+        Returns: Database["public"]["Tables"]["contacts"]["Row"]
+      }
+      purge_inactive_contacts: {
+        Args: {
+          p_organization_id: string
+          p_years: number
+        }
+        Returns: number
+      }
+      register_mandate: {
+        Args: {
+          p_contact_id?: string
+          p_end_date?: string
+          p_fees?: number
+          p_mandate_type: string
+          p_notes?: string
+          p_notice_period_days?: number
+          p_price?: number
+          p_property_id: string
+          p_renewal_terms?: string
+          p_start_date: string
+          p_tacit_renewal?: boolean
+        }
+        Returns: Database["public"]["Tables"]["mandates"]["Row"]
+      }
+      revert_contact_import: {
+        Args: {
+          p_batch_id: string
+        }
+        Returns: Database["public"]["Tables"]["contact_import_batches"]["Row"]
+      }
     }
     Enums: {
       activity_priority: "basse" | "normale" | "haute" | "urgente"
@@ -0,0 +1,109 @@
+/**
+ * Property Amenities
+ * Typed view of properties.features and the amenity criteria of buyer searches.
+ *
+ * properties.features holds { balcony: true, elevator: false, exposure: 'sud', view: 'mer', ... };
+ * unknown keys are kept untouched so older data is never lost on save.
+ * contact_searches.must_have_amenities / nice_to_have_amenities hold criterion keys:
+ * an amenity ('garden'), an exposure ('exposure:sud') or a view ('view:mer').
+ */
+
+import type { Json } from '@/integrations/supabase/types';
+import {
+  AMENITIES,
+  AMENITY_LABELS,
+  EXPOSURES,
+  EXPOSURE_LABELS,
+  PROPERTY_VIEWS,
+  PROPERTY_VIEW_LABELS,
+  type Amenity,
+  type Exposure,
+  type PropertyView,
+} from '@/lib/constants';
+
+export type PropertyFeatures = Partial<Record<Amenity, boolean>> & {
+  exposure?: Exposure | null;
+  view?: PropertyView | null;
+};
+
+export type AmenityCriterion = Amenity | `exposure:${Exposure}` | `view:${PropertyView}`;
+
+// Criteria offered in buyer searches and in the Properties filter
+export const AMENITY_CRITERIA: AmenityCriterion[] = [
+  ...AMENITIES,
+  'exposure:sud',
+  'view:degagee',
+  'view:mer',
+  'view:montagne',
+];
+
+// A "south" buyer is also happy with south-east and south-west
+const EXPOSURE_MATCHES: Partial<Record<Exposure, Exposure[]>> = {
+  sud: ['sud', 'sud_est', 'sud_ouest'],
+  nord: ['nord', 'nord_est', 'nord_ouest'],
+  est: ['est', 'nord_est', 'sud_est'],
+  ouest: ['ouest', 'nord_ouest', 'sud_ouest'],
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Read properties.features, ignoring malformed values */
+export function parseFeatures(value: Json | null | undefined): PropertyFeatures {
+  if (!isObject(value)) return {};
+  const features: PropertyFeatures = {};
+  for (const amenity of AMENITIES) {
+    if (typeof value[amenity] === 'boolean') features[amenity] = value[amenity] as boolean;
+  }
+  if (EXPOSURES.includes(value.exposure as Exposure)) features.exposure = value.exposure as Exposure;
+  if (PROPERTY_VIEWS.includes(value.view as PropertyView)) features.view = value.view as PropertyView;
+  return features;
+}
+
+/** Merge edited amenities into the stored features, keeping keys this catalog does not know */
+export function toFeaturesJson(previous: Json | null | undefined, features: PropertyFeatures): Json {
+  const merged: Record<string, Json> = isObject(previous) ? { ...(previous as Record<string, Json>) } : {};
+  for (const amenity of AMENITIES) {
+    if (features[amenity]) merged[amenity] = true;
+    else delete merged[amenity];
+  }
+  if (features.exposure) merged.exposure = features.exposure;
+  else delete merged.exposure;
+  if (features.view) merged.view = features.view;
+  else delete merged.view;
+  return merged;
+}
+
+export function hasAmenity(features: PropertyFeatures, criterion: string): boolean {
+  if (criterion.startsWith('exposure:')) {
+    const wanted = criterion.slice('exposure:'.length) as Exposure;
+    return !!features.exposure && (EXPOSURE_MATCHES[wanted] ?? [wanted]).includes(features.exposure);
+  }
+  if (criterion.startsWith('view:')) {
+    const wanted = criterion.slice('view:'.length) as PropertyView;
+    // Any listed view counts as an open view
+    return !!features.view && (wanted === 'degagee' || features.view === wanted);
+  }
+  return features[criterion as Amenity] === true;
+}
+
+export function getAmenityLabel(criterion: string): string {
+  if (criterion.startsWith('exposure:')) {
+    const exposure = criterion.slice('exposure:'.length) as Exposure;
+    return `Exposition ${EXPOSURE_LABELS[exposure] ?? exposure}`;
+  }
+  if (criterion.startsWith('view:')) {
+    const view = criterion.slice('view:'.length) as PropertyView;
+    return PROPERTY_VIEW_LABELS[view] ?? view;
+  }
+  return AMENITY_LABELS[criterion as Amenity] ?? criterion;
+}
+
+/** Labels of everything a property offers, for badges */
+export function listAmenities(features: PropertyFeatures): string[] {
+  return [
+    ...AMENITIES.filter((amenity) => features[amenity]).map((amenity) => AMENITY_LABELS[amenity]),
+    ...(features.exposure ? [`Exposition ${EXPOSURE_LABELS[features.exposure]}`] : []),
+    ...(features.view ? [PROPERTY_VIEW_LABELS[features.view]] : []),
+  ];
+}
@@ -0,0 +1,72 @@
+/**
+ * Bulk actions
+ * Selected rows are processed in batches so a large selection neither hits
+ * URL length limits on `.in('id', …)` filters nor fails as a whole: each
+ * failed batch is counted and reported, the others still go through.
+ */
+
+export const BULK_BATCH_SIZE = 50;
+
+export interface BulkProgress {
+  done: number;
+  total: number;
+}
+
+export interface BulkResult {
+  total: number;
+  succeeded: number;
+  failed: number;
+  /** Distinct error messages, for the summary */
+  errors: string[];
+  /** Free-form lines added by the action (skipped rows, created files…) */
+  notes: string[];
+}
+
+export function chunk<T>(items: T[], size = BULK_BATCH_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/**
+ * Runs `run` on each batch of ids in sequence. `run` may return the number of
+ * rows it actually processed when some of the batch was skipped.
+ */
+export async function runInBatches(
+  ids: string[],
+  run: (batch: string[]) => Promise<number | void>,
+  onProgress?: (progress: BulkProgress) => void
+): Promise<BulkResult> {
+  const result: BulkResult = { total: ids.length, succeeded: 0, failed: 0, errors: [], notes: [] };
+  let done = 0;
+  onProgress?.({ done, total: ids.length });
+
+  for (const batch of chunk(ids)) {
+    try {
+      const processed = await run(batch);
+      result.succeeded += typeof processed === 'number' ? processed : batch.length;
+    } catch (error) {
+      result.failed += batch.length;
+      const message = error instanceof Error ? error.message : String(error);
+      if (!result.errors.includes(message)) result.errors.push(message);
+    }
+    done += batch.length;
+    onProgress?.({ done, total: ids.length });
+  }
+
+  return result;
+}
+
+/** Tags after a bulk edit, keeping the existing order and casing */
+export function applyTagChanges(current: string[] | null, add: string[], remove: string[]): string[] {
+  const removed = new Set(remove.map((t) => t.toLowerCase()));
+  const tags = (current ?? []).filter((t) => !removed.has(t.toLowerCase()));
+  add.forEach((tag) => {
+    if (!tags.some((t) => t.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+  });
+  return tags;
+}
+
+export function parseTagList(value: string): string[] {
+  return [...new Set(value.split(',').map((t) => t.trim()).filter(Boolean))];
+}
@@ -19,6 +19,23 @@ export const PIPELINE_STAGE_LABELS: Record<PipelineStage, string> = {
   perdu: 'Perdu ❌',
 };
 
+// Default win probability (%) of a deal at each stage
+export const DEAL_STAGE_PROBABILITY: Record<DealStage, number> = {
+  nouveau: 10,
+  qualification: 20,
+  estimation: 30,
+  mandat: 50,
+  commercialisation: 60,
+  visite: 70,
+  offre: 80,
+  negociation: 85,
+  compromis: 90,
+  financement: 95,
+  acte: 98,
+  vendu: 100,
+  perdu: 0,
+};
+
 // Deal stages (must match database enum exactly)
 export const DEAL_STAGES = ['nouveau', 'qualification', 'estimation', 'mandat', 'commercialisation', 'visite', 'offre', 'negociation', 'compromis', 'financement', 'acte', 'vendu', 'perdu'] as const;
 export type DealStage = typeof DEAL_STAGES[number];
@@ -97,6 +114,15 @@ export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
   viager: 'Viager',
 };
 
+// Viager occupancy (custom - stored as text in DB)
+export const VIAGER_OCCUPANCIES = ['occupe', 'libre'] as const;
+export type ViagerOccupancy = typeof VIAGER_OCCUPANCIES[number];
+
+export const VIAGER_OCCUPANCY_LABELS: Record<ViagerOccupancy, string> = {
+  occupe: 'Viager occupé',
+  libre: 'Viager libre',
+};
+
 // Activity types (must match database enum exactly)
 export const ACTIVITY_TYPES = ['appel', 'email', 'visite', 'rdv', 'relance', 'signature', 'note', 'tache', 'autre'] as const;
 export type ActivityType = typeof ACTIVITY_TYPES[number];
@@ -162,6 +188,122 @@ export const MANDATE_TYPE_LABELS: Record<MandateType, string> = {
   recherche: 'Mandat de recherche',
 };
 
+// Mandate register statuses (must match mandates.status check constraint)
+export const MANDATE_STATUSES = ['actif', 'expire', 'resilie', 'realise'] as const;
+export type MandateStatus = typeof MANDATE_STATUSES[number];
+
+export const MANDATE_STATUS_LABELS: Record<MandateStatus, string> = {
+  actif: 'En cours',
+  expire: 'Expiré',
+  resilie: 'Résilié',
+  realise: 'Réalisé',
+};
+
+// Days before end_date from which an exclusive mandate is flagged as expiring
+export const MANDATE_EXPIRY_WARNING_DAYS = 30;
+
+// Days during which a lowered price is shown with a "Baisse de prix" badge
+export const PRICE_DROP_BADGE_DAYS = 60;
+
+// Lease statuses (must match leases.status check constraint)
+export const LEASE_STATUSES = ['actif', 'termine', 'resilie'] as const;
+export type LeaseStatus = typeof LEASE_STATUSES[number];
+
+export const LEASE_STATUS_LABELS: Record<LeaseStatus, string> = {
+  actif: 'En cours',
+  termine: 'Terminé',
+  resilie: 'Résilié',
+};
+
+// Days before end_date from which an active lease is flagged on the dashboard
+// (the landlord's notice period is 6 months for an unfurnished lease)
+export const LEASE_END_WARNING_DAYS = 180;
+
+// Offer statuses (must match offers.status check constraint)
+export const OFFER_STATUSES = ['pending', 'accepted', 'refused', 'countered'] as const;
+export type OfferStatus = typeof OFFER_STATUSES[number];
+
+export const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+  pending: 'En attente',
+  accepted: 'Acceptée',
+  refused: 'Refusée',
+  countered: 'Contre-offre',
+};
+
+// Contact relationship types (must match contact_relationships.type check constraint).
+// A row reads "contact_id is <type> related_contact_id"; lib/contact-relationships
+// labels it from either contact's side
+export const RELATIONSHIP_TYPES = ['spouse', 'co_buyer', 'notary_of', 'banker_of', 'referred_by'] as const;
+export type RelationshipType = typeof RELATIONSHIP_TYPES[number];
+
+export const RELATIONSHIP_TYPE_LABELS: Record<RelationshipType, string> = {
+  spouse: 'Conjoints',
+  co_buyer: 'Co-acquéreurs',
+  notary_of: 'Notaire',
+  banker_of: 'Banquier',
+  referred_by: 'Recommandation',
+};
+
+// Role of a contact in a deal besides its main contact (must match deal_parties.role check constraint)
+export const DEAL_PARTY_ROLES = ['acquereur', 'co_acquereur', 'vendeur', 'co_vendeur', 'notaire', 'banquier', 'apporteur', 'autre'] as const;
+export type DealPartyRole = typeof DEAL_PARTY_ROLES[number];
+
+export const DEAL_PARTY_ROLE_LABELS: Record<DealPartyRole, string> = {
+  acquereur: 'Acquéreur',
+  co_acquereur: 'Co-acquéreur',
+  vendeur: 'Vendeur',
+  co_vendeur: 'Co-vendeur',
+  notaire: 'Notaire',
+  banquier: 'Banquier',
+  apporteur: "Apporteur d'affaires",
+  autre: 'Autre',
+};
+
+// Prospecting consent channels (must match contact_consents.channel check constraint)
+export const CONSENT_CHANNELS = ['email', 'sms', 'phone'] as const;
+export type ConsentChannel = typeof CONSENT_CHANNELS[number];
+
+export const CONSENT_CHANNEL_LABELS: Record<ConsentChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+  phone: 'Téléphone',
+};
+
+// How a consent was collected (contact_consents.source)
+export const CONSENT_SOURCES = ['formulaire', 'email', 'oral', 'contrat', 'import', 'autre'] as const;
+export type ConsentSource = typeof CONSENT_SOURCES[number];
+
+export const CONSENT_SOURCE_LABELS: Record<ConsentSource, string> = {
+  formulaire: 'Formulaire web',
+  email: 'Email',
+  oral: 'Entretien / téléphone',
+  contrat: 'Mandat / contrat',
+  import: 'Import',
+  autre: 'Autre',
+};
+
+// CNIL guideline for prospects: 3 years after the last contact
+export const DEFAULT_RETENTION_YEARS = 3;
+
+// Technical diagnostics of the DDT (must match property_diagnostics.kind check constraint)
+export const DIAGNOSTIC_KINDS = ['dpe', 'amiante', 'plomb', 'electricite', 'gaz', 'termites', 'erp', 'carrez', 'assainissement'] as const;
+export type DiagnosticKind = typeof DIAGNOSTIC_KINDS[number];
+
+export const DIAGNOSTIC_LABELS: Record<DiagnosticKind, string> = {
+  dpe: 'DPE',
+  amiante: 'Amiante',
+  plomb: 'Plomb (CREP)',
+  electricite: 'Électricité',
+  gaz: 'Gaz',
+  termites: 'Termites',
+  erp: 'État des risques (ERP)',
+  carrez: 'Surface Carrez',
+  assainissement: 'Assainissement non collectif',
+};
+
+// Days before expiry from which a diagnostic report is flagged
+export const DIAGNOSTIC_EXPIRY_WARNING_DAYS = 30;
+
 // Heating types
 export const HEATING_TYPES = ['gaz', 'electrique', 'fioul', 'bois', 'pompe_chaleur', 'geothermie', 'solaire', 'collectif', 'autre'] as const;
 export type HeatingType = typeof HEATING_TYPES[number];
@@ -178,5 +320,48 @@ export const HEATING_TYPE_LABELS: Record<HeatingType, string> = {
   autre: 'Autre',
 };
 
+// Yes/no amenities stored in properties.features
+export const AMENITIES = ['balcony', 'terrace', 'garden', 'elevator', 'parking', 'cellar', 'pool', 'accessibility'] as const;
+export type Amenity = typeof AMENITIES[number];
+
+export const AMENITY_LABELS: Record<Amenity, string> = {
+  balcony: 'Balcon',
+  terrace: 'Terrasse',
+  garden: 'Jardin',
+  elevator: 'Ascenseur',
+  parking: 'Parking / garage',
+  cellar: 'Cave',
+  pool: 'Piscine',
+  accessibility: 'Accès PMR',
+};
+
+// Main exposure of the living room (properties.features.exposure)
+export const EXPOSURES = ['nord', 'nord_est', 'est', 'sud_est', 'sud', 'sud_ouest', 'ouest', 'nord_ouest'] as const;
+export type Exposure = typeof EXPOSURES[number];
+
+export const EXPOSURE_LABELS: Record<Exposure, string> = {
+  nord: 'Nord',
+  nord_est: 'Nord-Est',
+  est: 'Est',
+  sud_est: 'Sud-Est',
+  sud: 'Sud',
+  sud_ouest: 'Sud-Ouest',
+  ouest: 'Ouest',
+  nord_ouest: 'Nord-Ouest',
+};
+
+// View (properties.features.view)
+export const PROPERTY_VIEWS = ['degagee', 'mer', 'montagne', 'campagne', 'parc', 'monument'] as const;
+export type PropertyView = typeof PROPERTY_VIEWS[number];
+
+export const PROPERTY_VIEW_LABELS: Record<PropertyView, string> = {
+  degagee: 'Vue dégagée',
+  mer: 'Vue mer',
+  montagne: 'Vue montagne',
+  campagne: 'Vue campagne',
+  parc: 'Vue parc',
+  monument: 'Vue monument',
+};
+
 // Re-export formatters from dedicated module (DRY principle)
 export { formatCurrency, formatDate, formatRelativeTime as formatRelativeDate } from './formatters';
@@ -0,0 +1,219 @@
+/**
+ * Contact duplicate detection and merge
+ * Pairs contacts sharing a phone number or an email, or whose names match
+ * once accents, case, punctuation and word order are ignored (with a small
+ * typo tolerance). Merging keeps one record, takes the chosen value for
+ * each field and re-points every related row (merge_contacts RPC).
+ */
+
+import type { Tables } from '@/integrations/supabase/types';
+import { normalizeString } from '@/lib/contact-import-utils';
+
+type Contact = Tables<'contacts'>;
+
+export type DuplicateReason = 'email' | 'phone' | 'name' | 'similar_name';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  email: 'Même email',
+  phone: 'Même téléphone',
+  name: 'Même nom',
+  similar_name: 'Nom proche',
+};
+
+export interface DuplicatePair<C extends Contact = Contact> {
+  a: C;
+  b: C;
+  reasons: DuplicateReason[];
+  /** 0-100, higher is more likely the same person */
+  score: number;
+}
+
+const REASON_SCORES: Record<DuplicateReason, number> = {
+  email: 60,
+  phone: 50,
+  name: 35,
+  similar_name: 20,
+};
+
+// Names shorter than this are too common to be compared with a typo tolerance
+const MIN_FUZZY_NAME_LENGTH = 6;
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const value = email?.trim().toLowerCase();
+  return value && value.includes('@') ? value : null;
+}
+
+/** French numbers compared on their 9 national digits (+33 6…, 0033 6…, 06…) */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = phone?.replace(/\D/g, '') ?? '';
+  if (digits.length < 9) return null;
+  return digits.slice(-9);
+}
+
+/** Accent-insensitive name with sorted words, so "DUPONT Jean" matches "Jean Dupont" */
+export function normalizeName(name: string | null | undefined): string | null {
+  const words = normalizeString(name ?? '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  return words.length ? words.sort().join(' ') : null;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function isSimilarName(a: string, b: string): boolean {
+  if (Math.min(a.length, b.length) < MIN_FUZZY_NAME_LENGTH) return false;
+  return levenshtein(a, b) <= (Math.max(a.length, b.length) >= 12 ? 2 : 1);
+}
+
+export function pairKey(idA: string, idB: string): string {
+  return idA < idB ? `${idA}|${idB}` : `${idB}|${idA}`;
+}
+
+/**
+ * Likely duplicates among the given contacts, best matches first.
+ * Exact keys (email, phone, name) are grouped through maps; the typo-tolerant
+ * name comparison only runs between contacts sharing a name word.
+ */
+export function findDuplicatePairs<C extends Contact>(
+  contacts: C[],
+  dismissed: Set<string> = new Set()
+): DuplicatePair<C>[] {
+  const pairs = new Map<string, DuplicatePair<C>>();
+
+  const addPair = (a: C, b: C, reason: DuplicateReason) => {
+    if (a.id === b.id) return;
+    const key = pairKey(a.id, b.id);
+    if (dismissed.has(key)) return;
+    const pair = pairs.get(key) ?? { a: a.id < b.id ? a : b, b: a.id < b.id ? b : a, reasons: [], score: 0 };
+    if (!pair.reasons.includes(reason)) pair.reasons.push(reason);
+    pairs.set(key, pair);
+  };
+
+  const groupBy = (key: (contact: C) => string | null, reason: DuplicateReason) => {
+    const groups = new Map<string, C[]>();
+    for (const contact of contacts) {
+      const value = key(contact);
+      if (value) groups.set(value, [...(groups.get(value) ?? []), contact]);
+    }
+    for (const group of groups.values()) {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) addPair(group[i], group[j], reason);
+      }
+    }
+  };
+
+  groupBy((c) => normalizeEmail(c.email), 'email');
+  groupBy((c) => normalizePhone(c.phone), 'phone');
+  groupBy((c) => normalizeName(c.full_name), 'name');
+
+  // Typo-tolerant names, compared within blocks sharing a word
+  const names = new Map(contacts.map((c) => [c.id, normalizeName(c.full_name)]));
+  const blocks = new Map<string, C[]>();
+  for (const contact of contacts) {
+    for (const word of names.get(contact.id)?.split(' ') ?? []) {
+      if (word.length >= 3) blocks.set(word, [...(blocks.get(word) ?? []), contact]);
+    }
+  }
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const a = names.get(block[i].id);
+        const b = names.get(block[j].id);
+        if (a && b && a !== b && isSimilarName(a, b)) addPair(block[i], block[j], 'similar_name');
+      }
+    }
+  }
+
+  return [...pairs.values()]
+    .map((pair) => ({
+      ...pair,
+      score: Math.min(100, pair.reasons.reduce((sum, reason) => sum + REASON_SCORES[reason], 0)),
+    }))
+    .sort((x, y) => y.score - x.score);
+}
+
+/**
+ * Lookup of existing contacts by email, then by phone, used by the import in
+ * update mode to find the contact a file row refers to.
+ */
+export function buildContactMatcher<C extends Pick<Contact, 'email' | 'phone'>>(contacts: C[]) {
+  const byEmail = new Map<string, C>();
+  const byPhone = new Map<string, C>();
+  for (const contact of contacts) {
+    const email = normalizeEmail(contact.email);
+    const phone = normalizePhone(contact.phone);
+    if (email && !byEmail.has(email)) byEmail.set(email, contact);
+    if (phone && !byPhone.has(phone)) byPhone.set(phone, contact);
+  }
+
+  return (row: { email?: string | null; phone?: string | null }): C | undefined => {
+    const email = normalizeEmail(row.email);
+    const phone = normalizePhone(row.phone);
+    return (email ? byEmail.get(email) : undefined) ?? (phone ? byPhone.get(phone) : undefined);
+  };
+}
+
+// Fields picked one by one in the merge review (tags and notes are always combined)
+export const MERGE_FIELDS = [
+  'full_name',
+  'email',
+  'phone',
+  'role',
+  'pipeline_stage',
+  'address',
+  'postal_code',
+  'city',
+  'source',
+  'assigned_to',
+  'next_followup_date',
+] as const satisfies readonly (keyof Contact)[];
+
+export type MergeField = typeof MERGE_FIELDS[number];
+
+export const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+  full_name: 'Nom',
+  email: 'Email',
+  phone: 'Téléphone',
+  role: 'Rôle',
+  pipeline_stage: 'Étape',
+  address: 'Adresse',
+  postal_code: 'Code postal',
+  city: 'Ville',
+  source: 'Source',
+  assigned_to: 'Responsable',
+  next_followup_date: 'Prochaine relance',
+};
+
+export type MergeChoices = Record<MergeField, 'keep' | 'merge'>;
+
+/** Default choice per field: the surviving record's value, unless it is empty */
+export function getDefaultMergeChoices(keep: Contact, merge: Contact): MergeChoices {
+  return Object.fromEntries(
+    MERGE_FIELDS.map((field) => [field, keep[field] == null || keep[field] === '' ? (merge[field] != null ? 'merge' : 'keep') : 'keep'])
+  ) as MergeChoices;
+}
+
+/** Field values of the merged contact, as sent to merge_contacts */
+export function buildMergedValues(keep: Contact, merge: Contact, choices: MergeChoices): Partial<Contact> {
+  const values: Partial<Contact> = {};
+  for (const field of MERGE_FIELDS) {
+    const source = choices[field] === 'merge' ? merge : keep;
+    (values as Record<MergeField, unknown>)[field] = source[field];
+  }
+  return values;
+}
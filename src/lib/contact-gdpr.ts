@@ -0,0 +1,293 @@
+/**
+ * GDPR toolkit
+ * Consent per prospecting channel, subject access export (JSON / PDF) of
+ * everything stored about a contact, and the organization's retention policy.
+ * Erasure and the retention purge run in the database (anonymize_contact,
+ * purge_inactive_contacts).
+ */
+
+import { jsPDF } from 'jspdf';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { formatCurrency, formatShortDate } from '@/lib/formatters';
+import {
+  ACTIVITY_TYPE_LABELS,
+  CONSENT_CHANNELS,
+  CONSENT_CHANNEL_LABELS,
+  CONSENT_SOURCE_LABELS,
+  DEAL_PARTY_ROLE_LABELS,
+  DEAL_STAGE_LABELS,
+  DEFAULT_RETENTION_YEARS,
+  RELATIONSHIP_TYPE_LABELS,
+  type ActivityType,
+  type ConsentChannel,
+  type ConsentSource,
+  type DealPartyRole,
+  type DealStage,
+  type RelationshipType,
+} from '@/lib/constants';
+import { downloadBlob } from '@/lib/export-utils';
+import { BRAND_BLUE, TEXT_DARK, TEXT_MUTED, pdfText, slugifyFileName } from '@/lib/pdf-utils';
+import type { OrgSettings } from '@/types/settings';
+
+type Contact = Tables<'contacts'>;
+type Organization = Tables<'organizations'>;
+export type ContactConsent = Tables<'contact_consents'>;
+
+// ========== CONSENT ==========
+
+export type ConsentState = 'granted' | 'refused' | 'unknown';
+
+export function getConsentState(consent: Pick<ContactConsent, 'granted'> | undefined): ConsentState {
+  if (!consent) return 'unknown';
+  return consent.granted ? 'granted' : 'refused';
+}
+
+/** Current consent of a contact, by channel */
+export function getConsentsByChannel(consents: ContactConsent[]): Partial<Record<ConsentChannel, ContactConsent>> {
+  return Object.fromEntries(consents.map((c) => [c.channel, c]));
+}
+
+function describeConsent(consent: ContactConsent | undefined): string {
+  if (!consent) return 'Non renseigné';
+  const source = CONSENT_SOURCE_LABELS[consent.source as ConsentSource] ?? consent.source;
+  return `${consent.granted ? 'Accordé' : 'Refusé'} le ${formatShortDate(consent.consented_at)} (${source})`;
+}
+
+// ========== RETENTION ==========
+
+export interface RetentionPolicy {
+  years: number;
+  action: 'flag' | 'purge';
+}
+
+export function getRetentionPolicy(settings: Json | null | undefined): RetentionPolicy {
+  const gdpr = (settings as unknown as OrgSettings | null)?.gdpr;
+  return {
+    years: gdpr?.retention_years && gdpr.retention_years > 0 ? gdpr.retention_years : DEFAULT_RETENTION_YEARS,
+    action: gdpr?.retention_action === 'purge' ? 'purge' : 'flag',
+  };
+}
+
+// ========== SUBJECT ACCESS EXPORT ==========
+
+type ExportRow = Record<string, unknown>;
+
+/**
+ * Tables holding data about a contact, with the column(s) pointing at it.
+ * summary() is the line printed for each row in the PDF.
+ */
+export const CONTACT_EXPORT_SECTIONS = [
+  {
+    key: 'activities',
+    table: 'activities',
+    columns: ['contact_id'],
+    label: 'Activités',
+    summary: (r: ExportRow) =>
+      `${r.date ? formatShortDate(String(r.date)) : '—'} · ${ACTIVITY_TYPE_LABELS[r.type as ActivityType] ?? r.type ?? ''} · ${r.name ?? ''}`,
+  },
+  {
+    key: 'deals',
+    table: 'deals',
+    columns: ['contact_id'],
+    label: 'Opportunités',
+    summary: (r: ExportRow) =>
+      `${r.name ?? ''} · ${DEAL_STAGE_LABELS[r.stage as DealStage] ?? r.stage ?? ''}${r.amount ? ` · ${formatCurrency(Number(r.amount))}` : ''}`,
+  },
+  {
+    key: 'deal_parties',
+    table: 'deal_parties',
+    columns: ['contact_id'],
+    label: 'Participations à des opportunités',
+    summary: (r: ExportRow) => `${DEAL_PARTY_ROLE_LABELS[r.role as DealPartyRole] ?? r.role ?? ''} · ajouté le ${r.created_at ? formatShortDate(String(r.created_at)) : '—'}`,
+  },
+  {
+    key: 'contact_relationships',
+    table: 'contact_relationships',
+    columns: ['contact_id', 'related_contact_id'],
+    label: 'Relations',
+    summary: (r: ExportRow) => [RELATIONSHIP_TYPE_LABELS[r.type as RelationshipType] ?? r.type, r.notes].filter(Boolean).join(' · '),
+  },
+  {
+    key: 'offers',
+    table: 'offers',
+    columns: ['contact_id'],
+    label: 'Offres',
+    summary: (r: ExportRow) => `${r.offered_at ? formatShortDate(String(r.offered_at)) : '—'} · ${formatCurrency(Number(r.amount ?? 0))}`,
+  },
+  {
+    key: 'contact_searches',
+    table: 'contact_searches',
+    columns: ['contact_id'],
+    label: 'Critères de recherche',
+    summary: (r: ExportRow) => [r.transaction_type, r.property_types, r.cities].flat().filter(Boolean).join(' · '),
+  },
+  {
+    key: 'sequence_enrollments',
+    table: 'sequence_enrollments',
+    columns: ['contact_id'],
+    label: 'Séquences email',
+    summary: (r: ExportRow) => `Inscrit le ${r.enrolled_at ? formatShortDate(String(r.enrolled_at)) : '—'} · ${r.status ?? ''}`,
+  },
+  {
+    key: 'property_proposals',
+    table: 'property_proposals',
+    columns: ['contact_id'],
+    label: 'Biens proposés',
+    summary: (r: ExportRow) => `Envoyé le ${r.sent_at ? formatShortDate(String(r.sent_at)) : '—'}`,
+  },
+  {
+    key: 'visit_vouchers',
+    table: 'visit_vouchers',
+    columns: ['contact_id'],
+    label: 'Bons de visite',
+    summary: (r: ExportRow) => `${r.visit_date ? formatShortDate(String(r.visit_date)) : '—'} · ${r.property_label ?? ''}`,
+  },
+  {
+    key: 'mandates',
+    table: 'mandates',
+    columns: ['contact_id'],
+    label: 'Mandats',
+    summary: (r: ExportRow) => `N°${r.number ?? ''} · ${r.property_label ?? ''}`,
+  },
+  {
+    key: 'leases',
+    table: 'leases',
+    columns: ['tenant_id', 'owner_id'],
+    label: 'Baux',
+    summary: (r: ExportRow) =>
+      `${r.start_date ? formatShortDate(String(r.start_date)) : '—'} → ${r.end_date ? formatShortDate(String(r.end_date)) : '—'} · ${formatCurrency(Number(r.rent_amount ?? 0))}/mois`,
+  },
+  {
+    key: 'properties',
+    table: 'properties',
+    columns: ['contact_id'],
+    label: 'Biens (propriétaire)',
+    summary: (r: ExportRow) => [r.title, r.address, r.city].filter(Boolean).join(' · '),
+  },
+] as const;
+
+export type ContactExportSectionKey = typeof CONTACT_EXPORT_SECTIONS[number]['key'];
+
+export interface ContactDataExport {
+  exported_at: string;
+  organization: string | null;
+  contact: Contact;
+  consents: ContactConsent[];
+  related: Record<ContactExportSectionKey, ExportRow[]>;
+}
+
+function exportFileName(data: ContactDataExport, extension: 'json' | 'pdf'): string {
+  return `donnees-${slugifyFileName(data.contact.full_name) || 'contact'}-${data.exported_at.slice(0, 10)}.${extension}`;
+}
+
+export function downloadContactExportJson(data: ContactDataExport) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, exportFileName(data, 'json'));
+}
+
+/**
+ * Readable summary of the export (A4 portrait): identity, consents and one
+ * line per related record. The JSON export holds every column.
+ */
+export function generateContactExportPdf(data: ContactDataExport, organization: Pick<Organization, 'name'> | null): jsPDF {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageW = 210;
+  const pageH = 297;
+  const margin = 16;
+  const lineH = 4.5;
+  let y = 0;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageH - 16) {
+      doc.addPage();
+      y = 20;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(12);
+    y += 4;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(...TEXT_DARK);
+    doc.text(pdfText(text), margin, y);
+    doc.setDrawColor(...BRAND_BLUE);
+    doc.setLineWidth(0.3);
+    doc.line(margin, y + 1.5, pageW - margin, y + 1.5);
+    y += 7;
+  };
+
+  const line = (label: string, value: string) => {
+    doc.setFontSize(9);
+    const lines = doc.splitTextToSize(pdfText(value || '—'), pageW - margin * 2 - 45) as string[];
+    ensureSpace(lines.length * lineH);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...TEXT_MUTED);
+    doc.text(pdfText(label), margin, y);
+    doc.setTextColor(...TEXT_DARK);
+    doc.text(lines, margin + 45, y);
+    y += lines.length * lineH;
+  };
+
+  // Header
+  doc.setFillColor(...BRAND_BLUE);
+  doc.rect(0, 0, pageW, 2, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(15);
+  doc.setTextColor(...TEXT_DARK);
+  doc.text('Données personnelles', margin, 16);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...TEXT_MUTED);
+  doc.text(
+    pdfText(`Droit d'accès (article 15 RGPD) — ${organization?.name ?? ''} — édité le ${formatShortDate(data.exported_at)}`),
+    margin,
+    22
+  );
+  y = 30;
+
+  const c = data.contact;
+  heading('Identité');
+  line('Nom', c.full_name);
+  line('Email', c.email ?? '');
+  line('Téléphone', c.phone ?? '');
+  line('Adresse', [c.address, c.postal_code, c.city].filter(Boolean).join(' '));
+  line('Source', c.source ?? '');
+  line('Créé le', c.created_at ? formatShortDate(c.created_at) : '');
+  line('Notes', c.notes ?? '');
+
+  heading('Consentements');
+  const consents = getConsentsByChannel(data.consents);
+  CONSENT_CHANNELS.forEach((channel) => line(CONSENT_CHANNEL_LABELS[channel], describeConsent(consents[channel])));
+
+  CONTACT_EXPORT_SECTIONS.forEach((section) => {
+    const rows = data.related[section.key];
+    if (rows.length === 0) return;
+    heading(`${section.label} (${rows.length})`);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...TEXT_DARK);
+    rows.forEach((row) => {
+      const lines = doc.splitTextToSize(pdfText(section.summary(row)), pageW - margin * 2) as string[];
+      ensureSpace(lines.length * lineH);
+      doc.text(lines, margin, y);
+      y += lines.length * lineH;
+    });
+  });
+
+  // Page numbers
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(...TEXT_MUTED);
+    doc.text(`Page ${i} / ${pageCount}`, pageW - margin, pageH - 8, { align: 'right' });
+  }
+
+  return doc;
+}
+
+export function downloadContactExportPdf(data: ContactDataExport, organization: Pick<Organization, 'name'> | null) {
+  generateContactExportPdf(data, organization).save(exportFileName(data, 'pdf'));
+}
@@ -1,7 +1,39 @@
 import * as XLSX from 'xlsx';
-import type { Database } from '@/integrations/supabase/types';
+import type { Database, Tables } from '@/integrations/supabase/types';
 
 type ContactRole = Database['public']['Enums']['contact_role'];
+type Contact = Tables<'contacts'>;
+
+export const MAX_IMPORT_ROWS = 3000;
+
+export type ImportFileFormat = 'csv' | 'google' | 'outlook' | 'vcard';
+
+export const IMPORT_FILE_FORMAT_LABELS: Record<ImportFileFormat, string> = {
+  csv: 'CSV',
+  google: 'Google Contacts',
+  outlook: 'Outlook',
+  vcard: 'vCard',
+};
+
+export const IMPORT_FIELD_LABELS: Record<string, string> = {
+  full_name: 'Nom complet',
+  first_name: 'Prénom',
+  last_name: 'Nom de famille',
+  email: 'Email',
+  phone: 'Téléphone',
+  role: 'Rôle',
+  source: 'Source',
+  city: 'Ville',
+  postal_code: 'Code postal',
+  notes: 'Notes',
+  tags: 'Tags',
+};
+
+export interface ParsedImportFile {
+  headers: string[];
+  rows: string[][];
+  format: ImportFileFormat;
+}
 
 export type TransformedContact = {
   full_name: string;
@@ -16,19 +48,39 @@ export type TransformedContact = {
   organization_id: string;
 };
 
+// Includes the column names of Google Contacts and Outlook CSV exports (EN / FR)
 const FIELD_ALIASES: Record<string, string[]> = {
-  full_name: ['nom', 'prenom', 'nom complet', 'name', 'contact', 'nom_prenom', 'nomprenom'],
-  email: ['email', 'mail', 'e-mail', 'courriel', 'adresse mail'],
-  phone: ['telephone', 'tel', 'phone', 'portable', 'mobile', 'numero', 'tel portable'],
-  city: ['ville', 'city', 'commune', 'localite'],
-  postal_code: ['code postal', 'cp', 'codepostal', 'postal_code', 'zip', 'code_postal'],
+  full_name: ['nom', 'nom complet', 'name', 'contact', 'nom_prenom', 'nomprenom', 'display name', "nom d'affichage"],
+  first_name: ['prenom', 'first name', 'given name'],
+  last_name: ['nom de famille', 'last name', 'family name'],
+  email: [
+    'email', 'mail', 'e-mail', 'courriel', 'adresse mail',
+    'e-mail 1 - value', 'e-mail address', 'adresse de messagerie',
+  ],
+  phone: [
+    'telephone', 'tel', 'phone', 'portable', 'mobile', 'numero', 'tel portable',
+    'phone 1 - value', 'mobile phone', 'primary phone', 'home phone', 'business phone',
+    'telephone mobile', 'telephone (domicile)', 'telephone (bureau)',
+  ],
+  city: [
+    'ville', 'city', 'commune', 'localite',
+    'address 1 - city', 'home city', 'business city', 'ville (domicile)', 'ville (bureau)',
+  ],
+  postal_code: [
+    'code postal', 'cp', 'codepostal', 'postal_code', 'zip', 'code_postal',
+    'address 1 - postal code', 'home postal code', 'business postal code',
+    'code postal (domicile)', 'code postal (bureau)',
+  ],
   notes: ['notes', 'commentaire', 'remarque', 'observation'],
   source: ['source', 'origine', 'provenance'],
   role: ['role', 'type', 'categorie', 'profil', 'statut contact'],
-  tags: ['tags', 'etiquettes', 'labels'],
+  tags: ['tags', 'etiquettes', 'labels', 'group membership', 'categories'],
 };
 
-function normalizeString(str: string): string {
+// Multi-valued cells of Google exports ("+33 6… ::: +33 1…")
+const GOOGLE_VALUE_SEPARATOR = ':::';
+
+export function normalizeString(str: string): string {
   return str
     .toLowerCase()
     .normalize('NFD')
@@ -76,7 +128,7 @@ function processText(
     const headers = (data[0]).map(String);
     const rawRows = data.slice(1);
 
-    if (rawRows.length > 3000) {
+    if (rawRows.length > MAX_IMPORT_ROWS) {
       onError('Fichier trop volumineux (max 3 000 lignes)');
       return null;
     }
@@ -92,6 +144,18 @@ function processText(
   }
 }
 
+/** Google and Outlook exports are recognised from their column names */
+export function detectImportFileFormat(headers: string[]): ImportFileFormat {
+  const normalized = headers.map(normalizeString);
+  if (normalized.some((h) => h.endsWith(' 1 - value') || h === 'given name' || h === 'group membership')) {
+    return 'google';
+  }
+  if (normalized.includes('e-mail address') || normalized.includes('adresse de messagerie')) {
+    return 'outlook';
+  }
+  return 'csv';
+}
+
 export async function parseCSVWithSheetJS(
   file: File,
   onError: (msg: string) => void,
@@ -131,22 +195,205 @@ export async function parseCSVWithSheetJS(
   });
 }
 
+// ─── vCard ────────────────────────────────────────────────────────────────────
+
+// Columns produced from .vcf files, named so that autoMapColumns maps them
+const VCARD_HEADERS = ['Nom complet', 'Prénom', 'Nom de famille', 'Email', 'Téléphone', 'Ville', 'Code postal', 'Notes', 'Tags'];
+
+function unescapeVCardValue(value: string): string {
+  return value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+function decodeQuotedPrintable(value: string): string {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const hex = value.slice(i + 1, i + 3);
+    if (value[i] === '=' && /^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+/** Splits a vCard value on unescaped separators (N and ADR components, CATEGORIES) */
+function splitVCardValue(value: string, separator: ',' | ';'): string[] {
+  return value.split(new RegExp(`(?<!\\\\)${separator}`)).map(unescapeVCardValue);
+}
+
+/**
+ * Contacts of a .vcf file (vCard 2.1 / 3.0 / 4.0, as exported by Google,
+ * Outlook, iOS and Android) as rows of VCARD_HEADERS.
+ * Only the first email, phone and address of each card are kept.
+ */
+export function parseVCardText(
+  text: string,
+  onError: (msg: string) => void,
+): { headers: string[]; rows: string[][] } | null {
+  // Unfold continuation lines (RFC 6350 §3.2)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  const rows: string[][] = [];
+  let card: Record<string, string> | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VCARD') {
+      card = {};
+      continue;
+    }
+    if (upper === 'END:VCARD') {
+      if (card) {
+        const fullName = card.FN || [card.given, card.family].filter(Boolean).join(' ');
+        rows.push([
+          fullName ?? '',
+          card.given ?? '',
+          card.family ?? '',
+          card.EMAIL ?? '',
+          card.TEL ?? '',
+          card.city ?? '',
+          card.postal_code ?? '',
+          card.NOTE ?? '',
+          card.CATEGORIES ?? '',
+        ]);
+      }
+      card = null;
+      continue;
+    }
+    if (!card) continue;
+
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    const [rawName, ...params] = line.slice(0, colon).split(';');
+    // "item1.EMAIL" → "EMAIL"
+    const name = rawName.replace(/^.*\./, '').toUpperCase();
+    let value = line.slice(colon + 1);
+    if (params.some((p) => p.toUpperCase().includes('QUOTED-PRINTABLE'))) {
+      // vCard 2.1 soft line breaks: a trailing "=" continues on the next line
+      while (value.endsWith('=') && i + 1 < lines.length) value = value.slice(0, -1) + lines[++i];
+      value = decodeQuotedPrintable(value);
+    }
+
+    if (name === 'FN' && !card.FN) {
+      card.FN = unescapeVCardValue(value);
+    } else if (name === 'N' && card.family === undefined) {
+      const [family = '', given = ''] = splitVCardValue(value, ';');
+      card.family = family;
+      card.given = given;
+    } else if ((name === 'EMAIL' || name === 'TEL' || name === 'NOTE') && !card[name]) {
+      card[name] = unescapeVCardValue(value.replace(/^tel:/i, ''));
+    } else if (name === 'ADR' && card.city === undefined) {
+      // PO box; extended; street; locality; region; postal code; country
+      const parts = splitVCardValue(value, ';');
+      card.city = parts[3] ?? '';
+      card.postal_code = parts[5] ?? '';
+    } else if (name === 'CATEGORIES') {
+      card.CATEGORIES = [card.CATEGORIES, ...splitVCardValue(value, ',')].filter(Boolean).join(', ');
+    }
+  }
+
+  if (rows.length === 0) {
+    onError('Aucun contact trouvé dans le fichier vCard');
+    return null;
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    onError('Fichier trop volumineux (max 3 000 lignes)');
+    return null;
+  }
+
+  return { headers: VCARD_HEADERS, rows };
+}
+
+/** Reads a .csv (plain, Google or Outlook export) or .vcf file */
+export async function parseContactFile(
+  file: File,
+  onError: (msg: string) => void,
+): Promise<ParsedImportFile | null> {
+  if (file.name.toLowerCase().endsWith('.vcf')) {
+    const text = await file.text().catch(() => null);
+    if (text === null) {
+      onError('Impossible de lire le fichier');
+      return null;
+    }
+    const result = parseVCardText(text, onError);
+    return result ? { ...result, format: 'vcard' } : null;
+  }
+
+  const result = await parseCSVWithSheetJS(file, onError);
+  return result ? { ...result, format: detectImportFileFormat(result.headers) } : null;
+}
+
 export function autoMapColumns(headers: string[]): Record<string, string> {
   const mapping: Record<string, string> = {};
+  const taken = new Set<string>();
   for (const header of headers) {
     const normalized = normalizeString(header);
     let matched = '__ignore__';
     for (const [field, aliases] of Object.entries(FIELD_ALIASES)) {
-      if (aliases.includes(normalized)) {
+      // Exports list several emails / phones: the first column wins
+      if (aliases.includes(normalized) && !taken.has(field)) {
         matched = field;
         break;
       }
     }
+    if (matched !== '__ignore__') taken.add(matched);
     mapping[header] = matched;
   }
+
+  // "Nom" next to "Prénom" is the family name, not the full name
+  const nameHeader = headers.find((h) => mapping[h] === 'full_name' && normalizeString(h) === 'nom');
+  if (nameHeader && taken.has('first_name') && !taken.has('last_name')) {
+    mapping[nameHeader] = 'last_name';
+  }
+
   return mapping;
 }
 
+/** A contact name can come from a full name column or from first / last name columns */
+export function hasNameMapping(mapping: Record<string, string>): boolean {
+  const fields = Object.values(mapping);
+  return fields.includes('full_name') || fields.includes('first_name') || fields.includes('last_name');
+}
+
+// Fields an import in update mode may overwrite (tags are combined instead)
+const IMPORT_UPDATE_FIELDS = ['full_name', 'email', 'phone', 'role', 'source', 'city', 'postal_code', 'notes'] as const;
+
+/**
+ * Changes an imported row makes to an existing contact: non-empty values of
+ * the file overwrite the stored ones, tags are added to the existing ones.
+ * previous holds the overwritten values so the import can be reverted.
+ * Returns null when the row changes nothing.
+ */
+export function getImportPatch(
+  existing: Contact,
+  incoming: TransformedContact,
+): { patch: Partial<Contact>; previous: Partial<Contact> } | null {
+  const patch: Record<string, unknown> = {};
+  const previous: Record<string, unknown> = {};
+
+  for (const field of IMPORT_UPDATE_FIELDS) {
+    const value = incoming[field];
+    if (value == null || value === '' || value === existing[field]) continue;
+    patch[field] = value;
+    previous[field] = existing[field];
+  }
+
+  const newTags = (incoming.tags ?? []).filter((tag) => !(existing.tags ?? []).includes(tag));
+  if (newTags.length > 0) {
+    patch.tags = [...(existing.tags ?? []), ...newTags];
+    previous.tags = existing.tags;
+  }
+
+  return Object.keys(patch).length > 0 ? { patch, previous } : null;
+}
+
 export function validateAndTransformRows(
   rows: string[][],
   headers: string[],
@@ -167,11 +414,17 @@ export function validateAndTransformRows(
     return String(row[idx] ?? '').trim();
   };
 
+  // Only the first of several values is kept (Google exports)
+  const getFirstValue = (row: string[], field: string): string =>
+    getValue(row, field).split(GOOGLE_VALUE_SEPARATOR)[0].trim();
+
   const valid: TransformedContact[] = [];
   let invalid = 0;
 
   for (const row of rows) {
-    const full_name = getValue(row, 'full_name');
+    const full_name =
+      getValue(row, 'full_name') ||
+      [getValue(row, 'first_name'), getValue(row, 'last_name')].filter(Boolean).join(' ');
     if (!full_name) {
       invalid++;
       continue;
@@ -179,18 +432,24 @@ export function validateAndTransformRows(
 
     const rawRole = getValue(row, 'role');
     const rawTags = getValue(row, 'tags');
-    const rawPhone = getValue(row, 'phone');
+    const rawPhone = getFirstValue(row, 'phone');
 
     const contact: TransformedContact = {
       full_name,
-      email: fieldToIndex['email'] !== undefined ? getValue(row, 'email') || null : null,
+      email: fieldToIndex['email'] !== undefined ? getFirstValue(row, 'email') || null : null,
       phone: rawPhone ? normalizePhone(rawPhone) || null : null,
       role: rawRole ? normalizeRole(rawRole) : null,
       source: fieldToIndex['source'] !== undefined ? getValue(row, 'source') || null : null,
       city: fieldToIndex['city'] !== undefined ? getValue(row, 'city') || null : null,
       postal_code: fieldToIndex['postal_code'] !== undefined ? getValue(row, 'postal_code') || null : null,
       notes: fieldToIndex['notes'] !== undefined ? getValue(row, 'notes') || null : null,
-      tags: rawTags ? rawTags.split(/[,;]/).map((t) => t.trim()).filter(Boolean) : null,
+      tags: rawTags
+        ? rawTags
+            .split(/[,;]|:::/)
+            // Google system groups ("* myContacts", "* starred")
+            .map((t) => t.trim().replace(/^\*\s*/, ''))
+            .filter((t) => t && t !== 'myContacts' && t !== 'starred')
+        : null,
       organization_id: organizationId,
     };
 
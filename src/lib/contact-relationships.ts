@@ -0,0 +1,192 @@
+/**
+ * Contact relationships
+ * A contact_relationships row reads "contact_id is <type> related_contact_id".
+ * Screens show it from one contact's side, as the role the other contact
+ * plays for them (their spouse, their notaire, the person who referred them…).
+ */
+
+import type { Tables } from '@/integrations/supabase/types';
+import type { DealPartyRole, RelationshipType } from '@/lib/constants';
+import { downloadCsv, type CsvCell } from '@/lib/export-utils';
+import { formatShortDate } from '@/lib/formatters';
+
+type Deal = Tables<'deals'>;
+export type ContactRelationship = Tables<'contact_relationships'>;
+
+type ContactRef = { id: string; full_name: string };
+
+export type ContactRelationshipWithContacts = ContactRelationship & {
+  contact: ContactRef | null;
+  related: ContactRef | null;
+};
+
+// ========== ONE CONTACT'S SIDE ==========
+
+/** Role the other contact of a relationship plays for the contact being viewed */
+export const RELATED_CONTACT_ROLES = [
+  'spouse',
+  'co_buyer',
+  'notary',
+  'notary_client',
+  'banker',
+  'banker_client',
+  'referrer',
+  'referral',
+] as const;
+export type RelatedContactRole = typeof RELATED_CONTACT_ROLES[number];
+
+interface RelatedContactRoleConfig {
+  label: string;
+  type: RelationshipType;
+  /** true when the other contact is the row's contact_id */
+  otherIsSubject: boolean;
+  /** Role suggested when attaching the other contact to a deal of this one */
+  dealPartyRole?: DealPartyRole;
+}
+
+export const RELATED_CONTACT_ROLE_CONFIG: Record<RelatedContactRole, RelatedContactRoleConfig> = {
+  spouse: { label: 'Conjoint(e)', type: 'spouse', otherIsSubject: true, dealPartyRole: 'co_acquereur' },
+  co_buyer: { label: 'Co-acquéreur', type: 'co_buyer', otherIsSubject: true, dealPartyRole: 'co_acquereur' },
+  notary: { label: 'Notaire', type: 'notary_of', otherIsSubject: true, dealPartyRole: 'notaire' },
+  notary_client: { label: 'Client (notaire)', type: 'notary_of', otherIsSubject: false },
+  banker: { label: 'Banquier', type: 'banker_of', otherIsSubject: true, dealPartyRole: 'banquier' },
+  banker_client: { label: 'Client (banque)', type: 'banker_of', otherIsSubject: false },
+  referrer: { label: 'Recommandé par', type: 'referred_by', otherIsSubject: false, dealPartyRole: 'apporteur' },
+  referral: { label: 'A recommandé', type: 'referred_by', otherIsSubject: true },
+};
+
+const SYMMETRIC_TYPES: RelationshipType[] = ['spouse', 'co_buyer'];
+
+export function getOtherContact(
+  relationship: ContactRelationshipWithContacts,
+  contactId: string
+): ContactRef | null {
+  return relationship.contact_id === contactId ? relationship.related : relationship.contact;
+}
+
+export function getRelatedContactRole(relationship: ContactRelationship, contactId: string): RelatedContactRole {
+  const type = relationship.type as RelationshipType;
+  if (SYMMETRIC_TYPES.includes(type)) return type as RelatedContactRole;
+
+  const otherIsSubject = relationship.contact_id !== contactId;
+  const role = RELATED_CONTACT_ROLES.find(
+    (r) => RELATED_CONTACT_ROLE_CONFIG[r].type === type && RELATED_CONTACT_ROLE_CONFIG[r].otherIsSubject === otherIsSubject
+  );
+  return role ?? 'spouse';
+}
+
+/** Row to insert so that otherContactId plays `role` for contactId */
+export function buildRelationship(
+  contactId: string,
+  otherContactId: string,
+  role: RelatedContactRole
+): Pick<ContactRelationship, 'contact_id' | 'related_contact_id' | 'type'> {
+  const config = RELATED_CONTACT_ROLE_CONFIG[role];
+  return config.otherIsSubject
+    ? { contact_id: otherContactId, related_contact_id: contactId, type: config.type }
+    : { contact_id: contactId, related_contact_id: otherContactId, type: config.type };
+}
+
+// ========== REFERRAL REPORT ==========
+
+export interface ReferralReportRow {
+  referrer: ContactRef;
+  referrals: ContactRef[];
+  lastReferralAt: string;
+  deals: number;
+  wonDeals: number;
+  wonAmount: number;
+  wonCommission: number;
+}
+
+/**
+ * Referrers with the contacts they brought and the deals of those contacts
+ * (as main contact). Sorted by commission earned, then number of referrals.
+ */
+export function buildReferralReport(
+  referrals: ContactRelationshipWithContacts[],
+  deals: Pick<Deal, 'contact_id' | 'stage' | 'amount' | 'commission_amount'>[]
+): ReferralReportRow[] {
+  const dealsByContact = new Map<string, typeof deals>();
+  deals.forEach((deal) => {
+    if (!deal.contact_id) return;
+    const list = dealsByContact.get(deal.contact_id) ?? [];
+    list.push(deal);
+    dealsByContact.set(deal.contact_id, list);
+  });
+
+  const rows = new Map<string, ReferralReportRow>();
+  referrals
+    .filter((r) => r.type === 'referred_by' && r.contact && r.related)
+    .forEach((r) => {
+      const row = rows.get(r.related_contact_id) ?? {
+        referrer: r.related!,
+        referrals: [],
+        lastReferralAt: r.created_at,
+        deals: 0,
+        wonDeals: 0,
+        wonAmount: 0,
+        wonCommission: 0,
+      };
+      row.referrals.push(r.contact!);
+      if (r.created_at > row.lastReferralAt) row.lastReferralAt = r.created_at;
+
+      (dealsByContact.get(r.contact_id) ?? []).forEach((deal) => {
+        row.deals++;
+        if (deal.stage === 'vendu') {
+          row.wonDeals++;
+          row.wonAmount += deal.amount ?? 0;
+          row.wonCommission += deal.commission_amount ?? 0;
+        }
+      });
+      rows.set(r.related_contact_id, row);
+    });
+
+  return [...rows.values()].sort(
+    (a, b) => b.wonCommission - a.wonCommission || b.referrals.length - a.referrals.length
+  );
+}
+
+export function exportReferralReportCsv(rows: ReferralReportRow[]) {
+  const csv: CsvCell[][] = [
+    ['Apporteur', 'Contacts recommandés', 'Dernière recommandation', 'Opportunités', 'Ventes', 'CA des ventes', 'Commissions'],
+    ...rows.map((row) => [
+      row.referrer.full_name,
+      row.referrals.map((c) => c.full_name).join(', '),
+      formatShortDate(row.lastReferralAt),
+      row.deals,
+      row.wonDeals,
+      row.wonAmount,
+      row.wonCommission,
+    ]),
+  ];
+  downloadCsv(`parrainages-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+}
+
+// ========== DEAL PARTIES ==========
+
+export interface DealPartySuggestion {
+  contact: ContactRef;
+  role: DealPartyRole;
+  relationLabel: string;
+}
+
+/**
+ * Contacts related to a deal's main contact that usually take part in the
+ * deal (spouse, co-buyer, notaire, banker, referrer), minus those already
+ * attached with that role.
+ */
+export function getDealPartySuggestions(
+  relationships: ContactRelationshipWithContacts[],
+  mainContactId: string,
+  attached: { contact_id: string; role: string }[]
+): DealPartySuggestion[] {
+  return relationships.flatMap((relationship) => {
+    const contact = getOtherContact(relationship, mainContactId);
+    const relatedRole = getRelatedContactRole(relationship, mainContactId);
+    const { dealPartyRole, label } = RELATED_CONTACT_ROLE_CONFIG[relatedRole];
+    if (!contact || !dealPartyRole) return [];
+    if (attached.some((p) => p.contact_id === contact.id && p.role === dealPartyRole)) return [];
+    return [{ contact, role: dealPartyRole, relationLabel: label }];
+  });
+}
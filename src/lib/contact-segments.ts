@@ -0,0 +1,202 @@
+/**
+ * Contact segments
+ * A segment stores rules, never members: membership is evaluated live
+ * against the current contacts, their activities (lead score) and their
+ * active buyer searches. Every rule set on a segment must match (AND); a
+ * rule listing several values matches any of them (OR).
+ */
+
+import type { Tables } from '@/integrations/supabase/types';
+import type { ContactSearch } from '@/hooks/useContactSearches';
+import {
+  CONTACT_ROLE_LABELS,
+  PIPELINE_STAGE_LABELS,
+  PROPERTY_TYPE_LABELS,
+  TRANSACTION_TYPE_LABELS,
+  type ContactRole,
+  type PipelineStage,
+  type PropertyType,
+  type TransactionType,
+} from '@/lib/constants';
+import { calculateLeadScore, getTemperatureLabel, type LeadScoreResult } from '@/lib/scoring-engine';
+import type { ScoringModel } from '@/lib/scoring-model';
+import { downloadCsv, type CsvCell } from '@/lib/export-utils';
+import { formatCurrency, formatShortDate } from '@/lib/formatters';
+
+type Contact = Tables<'contacts'>;
+type Activity = Tables<'activities'>;
+export type ContactSegment = Tables<'contact_segments'>;
+
+export type LeadTemperature = LeadScoreResult['temperature'];
+export const LEAD_TEMPERATURES: LeadTemperature[] = ['hot', 'warm', 'cold'];
+
+export interface SegmentRules {
+  roles?: ContactRole[];
+  stages?: PipelineStage[];
+  /** Contacts carrying at least one of these tags */
+  tags?: string[];
+  sources?: string[];
+  cities?: string[];
+  temperatures?: LeadTemperature[];
+  /** Last contact within the last N days, or older than N days (never contacted included) */
+  lastContact?: { op: 'within' | 'older'; days: number };
+  /** Criteria of the contact's active buyer searches, one search must match them all */
+  search?: {
+    transactionType?: TransactionType;
+    propertyTypes?: PropertyType[];
+    cities?: string[];
+    /** Budget overlapping this range */
+    budgetMin?: number;
+    budgetMax?: number;
+  };
+}
+
+export interface SegmentContext {
+  activitiesByContact: Map<string, Activity[]>;
+  searchesByContact: Map<string, ContactSearch[]>;
+  /** Organization scoring model for the temperature rule, the default one when omitted */
+  scoringModel?: ScoringModel;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getSegmentRules(segment: Pick<ContactSegment, 'rules'> | null | undefined): SegmentRules {
+  return (segment?.rules as SegmentRules | null) ?? {};
+}
+
+function normalize(value: string | null | undefined): string {
+  return (value ?? '').trim().toLowerCase();
+}
+
+function includesNormalized(list: string[], value: string | null | undefined): boolean {
+  return list.some((item) => normalize(item) === normalize(value));
+}
+
+function searchMatches(search: ContactSearch, rule: NonNullable<SegmentRules['search']>): boolean {
+  if (rule.transactionType && (search.transaction_type ?? 'vente') !== rule.transactionType) return false;
+  if (rule.propertyTypes?.length && !(search.property_types ?? []).some((t) => rule.propertyTypes!.includes(t as PropertyType))) {
+    return false;
+  }
+  if (rule.cities?.length && !(search.cities ?? []).some((c) => includesNormalized(rule.cities!, c))) return false;
+  if (rule.budgetMin != null && search.budget_max != null && search.budget_max < rule.budgetMin) return false;
+  if (rule.budgetMax != null && search.budget_min != null && search.budget_min > rule.budgetMax) return false;
+  return true;
+}
+
+export function hasSegmentRules(rules: SegmentRules): boolean {
+  return describeSegmentRules(rules).length > 0;
+}
+
+export function contactMatchesSegment(
+  contact: Contact,
+  rules: SegmentRules,
+  context: SegmentContext,
+  now = Date.now()
+): boolean {
+  if (rules.roles?.length && !rules.roles.includes(contact.role as ContactRole)) return false;
+  if (rules.stages?.length && !rules.stages.includes(contact.pipeline_stage as PipelineStage)) return false;
+  if (rules.tags?.length && !(contact.tags ?? []).some((t) => includesNormalized(rules.tags!, t))) return false;
+  if (rules.sources?.length && !includesNormalized(rules.sources, contact.source)) return false;
+  if (rules.cities?.length && !includesNormalized(rules.cities, contact.city)) return false;
+
+  if (rules.lastContact) {
+    const last = contact.last_contact_date ? new Date(contact.last_contact_date).getTime() : null;
+    const limit = now - rules.lastContact.days * DAY_MS;
+    const isRecent = last !== null && last >= limit;
+    if (rules.lastContact.op === 'within' ? !isRecent : isRecent) return false;
+  }
+
+  const searches = context.searchesByContact.get(contact.id) ?? [];
+  if (rules.search && hasSegmentRules({ search: rules.search })) {
+    if (!searches.some((s) => searchMatches(s, rules.search!))) return false;
+  }
+
+  if (rules.temperatures?.length) {
+    const { temperature } = calculateLeadScore(
+      contact,
+      context.activitiesByContact.get(contact.id) ?? [],
+      searches[0],
+      context.scoringModel
+    );
+    if (!rules.temperatures.includes(temperature)) return false;
+  }
+
+  return true;
+}
+
+export function filterContactsBySegment<T extends Contact>(
+  contacts: T[],
+  rules: SegmentRules,
+  context: SegmentContext
+): T[] {
+  const now = Date.now();
+  return contacts.filter((c) => contactMatchesSegment(c, rules, context, now));
+}
+
+export function groupByContact<T extends { contact_id: string | null }>(rows: T[]): Map<string, T[]> {
+  const map = new Map<string, T[]>();
+  rows.forEach((row) => {
+    if (!row.contact_id) return;
+    const list = map.get(row.contact_id) ?? [];
+    list.push(row);
+    map.set(row.contact_id, list);
+  });
+  return map;
+}
+
+/** One short French label per rule, for chips and summaries */
+export function describeSegmentRules(rules: SegmentRules): string[] {
+  const labels: string[] = [];
+  const list = (values: string[]) => values.join(', ');
+
+  if (rules.roles?.length) labels.push(`Rôle : ${list(rules.roles.map((r) => CONTACT_ROLE_LABELS[r] ?? r))}`);
+  if (rules.stages?.length) labels.push(`Étape : ${list(rules.stages.map((s) => PIPELINE_STAGE_LABELS[s] ?? s))}`);
+  if (rules.tags?.length) labels.push(`Tags : ${list(rules.tags)}`);
+  if (rules.sources?.length) labels.push(`Source : ${list(rules.sources)}`);
+  if (rules.cities?.length) labels.push(`Ville : ${list(rules.cities)}`);
+  if (rules.temperatures?.length) labels.push(`Score : ${list(rules.temperatures.map(getTemperatureLabel))}`);
+  if (rules.lastContact) {
+    labels.push(
+      rules.lastContact.op === 'within'
+        ? `Contacté depuis moins de ${rules.lastContact.days} j`
+        : `Sans contact depuis ${rules.lastContact.days} j`
+    );
+  }
+
+  const search = rules.search;
+  if (search) {
+    if (search.transactionType) labels.push(`Recherche : ${TRANSACTION_TYPE_LABELS[search.transactionType]}`);
+    if (search.propertyTypes?.length) labels.push(`Type recherché : ${list(search.propertyTypes.map((t) => PROPERTY_TYPE_LABELS[t] ?? t))}`);
+    if (search.cities?.length) labels.push(`Ville recherchée : ${list(search.cities)}`);
+    if (search.budgetMin != null || search.budgetMax != null) {
+      const min = search.budgetMin != null ? formatCurrency(search.budgetMin) : '0 €';
+      const max = search.budgetMax != null ? formatCurrency(search.budgetMax) : '∞';
+      labels.push(`Budget : ${min} – ${max}`);
+    }
+  }
+
+  return labels;
+}
+
+// ========== EXPORT ==========
+
+export function exportContactsCsv(contacts: Contact[], name = 'contacts') {
+  const slug = normalize(name).normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const rows: CsvCell[][] = [
+    ['Nom', 'Email', 'Téléphone', 'Rôle', 'Étape', 'Source', 'Ville', 'Tags', 'Dernier contact', 'Prochaine relance', 'Créé le'],
+    ...contacts.map((c) => [
+      c.full_name,
+      c.email,
+      c.phone,
+      c.role ? CONTACT_ROLE_LABELS[c.role as ContactRole] ?? c.role : '',
+      c.pipeline_stage ? PIPELINE_STAGE_LABELS[c.pipeline_stage as PipelineStage] ?? c.pipeline_stage : '',
+      c.source,
+      c.city,
+      (c.tags ?? []).join(', '),
+      c.last_contact_date ? formatShortDate(c.last_contact_date) : '',
+      c.next_followup_date ? formatShortDate(c.next_followup_date) : '',
+      c.created_at ? formatShortDate(c.created_at) : '',
+    ]),
+  ];
+  downloadCsv(`${slug || 'contacts'}-${new Date().toISOString().slice(0, 10)}.csv`, rows);
+}
@@ -0,0 +1,179 @@
+/**
+ * Contact timeline
+ * Merges every event source of a contact (activities, sequence emails,
+ * property proposals, pipeline stage changes, deals and offers) into one
+ * chronological list, newest first.
+ */
+
+import type { Tables } from '@/integrations/supabase/types';
+import { DEAL_STAGE_LABELS, OFFER_STATUS_LABELS, type DealStage, type OfferStatus } from '@/lib/constants';
+import { formatCurrency } from '@/lib/formatters';
+
+export const TIMELINE_EVENT_KINDS = ['activity', 'sequence', 'proposal', 'stage', 'deal', 'offer'] as const;
+export type TimelineEventKind = typeof TIMELINE_EVENT_KINDS[number];
+
+export const TIMELINE_EVENT_KIND_LABELS: Record<TimelineEventKind, string> = {
+  activity: 'Activités',
+  sequence: 'Séquences',
+  proposal: 'Propositions',
+  stage: 'Étapes',
+  deal: 'Opportunités',
+  offer: 'Offres',
+};
+
+export interface TimelineEvent {
+  id: string;
+  kind: TimelineEventKind;
+  date: string;
+  title: string;
+  detail?: string | null;
+  /** Activity type (ACTIVITY_TYPE_CONFIG key) for activity-like events */
+  activityType?: string;
+  link?: string;
+}
+
+export type TimelineEnrollment = Tables<'sequence_enrollments'> & {
+  email_sequences: { name: string } | null;
+};
+
+export type TimelineProposal = Tables<'property_proposals'> & {
+  properties: { title: string } | null;
+};
+
+export type TimelineStageChange = Tables<'pipeline_stage_history'> & {
+  deals: { name: string } | null;
+};
+
+export interface ContactTimelineSources {
+  activities: Tables<'activities'>[];
+  enrollments: TimelineEnrollment[];
+  proposals: TimelineProposal[];
+  stageChanges: TimelineStageChange[];
+  deals: Pick<Tables<'deals'>, 'id' | 'name' | 'stage' | 'amount' | 'created_at' | 'actual_close_date'>[];
+  offers: Pick<Tables<'offers'>, 'id' | 'deal_id' | 'amount' | 'direction' | 'status' | 'offered_at' | 'responded_at'>[];
+}
+
+function stageLabel(stage: string | null): string {
+  return stage ? DEAL_STAGE_LABELS[stage as DealStage] ?? stage : '—';
+}
+
+export function buildContactTimeline(sources: ContactTimelineSources): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+  const dealNames = new Map(sources.deals.map((d) => [d.id, d.name]));
+
+  sources.activities.forEach((activity) => {
+    const date = activity.date ?? activity.created_at;
+    if (!date) return;
+    events.push({
+      id: `activity-${activity.id}`,
+      kind: activity.sequence_enrollment_id ? 'sequence' : 'activity',
+      date,
+      title: activity.name,
+      detail: activity.description,
+      activityType: activity.type ?? 'autre',
+      link: activity.deal_id ? `/deals/${activity.deal_id}` : undefined,
+    });
+  });
+
+  sources.enrollments.forEach((enrollment) => {
+    const name = enrollment.email_sequences?.name ?? 'séquence supprimée';
+    events.push({
+      id: `enrollment-${enrollment.id}`,
+      kind: 'sequence',
+      date: enrollment.enrolled_at,
+      title: `Inscrit à la séquence « ${name} »`,
+      activityType: 'email',
+    });
+    if (enrollment.status === 'completed' && enrollment.completed_at) {
+      events.push({
+        id: `enrollment-${enrollment.id}-completed`,
+        kind: 'sequence',
+        date: enrollment.completed_at,
+        title: `Séquence « ${name} » terminée`,
+        activityType: 'email',
+      });
+    } else if (enrollment.status === 'cancelled') {
+      events.push({
+        id: `enrollment-${enrollment.id}-cancelled`,
+        kind: 'sequence',
+        date: enrollment.updated_at,
+        title: `Séquence « ${name} » arrêtée`,
+        activityType: 'email',
+      });
+    }
+  });
+
+  sources.proposals.forEach((proposal) => {
+    const title = proposal.properties?.title ?? 'bien supprimé';
+    const link = proposal.property_id ? `/properties?property=${proposal.property_id}` : undefined;
+    const steps: [string | null, string, string][] = [
+      [proposal.sent_at ?? proposal.created_at, 'sent', `Bien proposé : ${title}`],
+      [proposal.opened_at, 'opened', `Proposition ouverte : ${title}`],
+      [proposal.clicked_at, 'clicked', `Lien cliqué : ${title}`],
+    ];
+    steps.forEach(([date, step, stepTitle]) => {
+      if (!date) return;
+      events.push({ id: `proposal-${proposal.id}-${step}`, kind: 'proposal', date, title: stepTitle, activityType: 'email', link });
+    });
+  });
+
+  sources.stageChanges.forEach((change) => {
+    const move = `${change.old_stage ? `${stageLabel(change.old_stage)} → ` : ''}${stageLabel(change.new_stage)}`;
+    const dealName = change.deal_id ? change.deals?.name ?? dealNames.get(change.deal_id) : null;
+    events.push({
+      id: `stage-${change.id}`,
+      kind: 'stage',
+      date: change.changed_at,
+      title: change.deal_id ? `Opportunité « ${dealName ?? '—'} » : ${move}` : `Étape du contact : ${move}`,
+      link: change.deal_id ? `/deals/${change.deal_id}` : undefined,
+    });
+  });
+
+  sources.deals.forEach((deal) => {
+    const link = `/deals/${deal.id}`;
+    if (deal.created_at) {
+      events.push({
+        id: `deal-${deal.id}-created`,
+        kind: 'deal',
+        date: deal.created_at,
+        title: `Opportunité créée : ${deal.name}`,
+        detail: deal.amount ? formatCurrency(deal.amount) : null,
+        link,
+      });
+    }
+    if (deal.actual_close_date && (deal.stage === 'vendu' || deal.stage === 'perdu')) {
+      events.push({
+        id: `deal-${deal.id}-closed`,
+        kind: 'deal',
+        date: deal.actual_close_date,
+        title: `Opportunité ${deal.stage === 'vendu' ? 'gagnée' : 'perdue'} : ${deal.name}`,
+        activityType: deal.stage === 'vendu' ? 'signature' : undefined,
+        link,
+      });
+    }
+  });
+
+  sources.offers.forEach((offer) => {
+    const dealName = dealNames.get(offer.deal_id) ?? '—';
+    const who = offer.direction === 'seller' ? 'Contre-offre vendeur' : 'Offre';
+    events.push({
+      id: `offer-${offer.id}`,
+      kind: 'offer',
+      date: offer.offered_at,
+      title: `${who} de ${formatCurrency(offer.amount)} — ${dealName}`,
+      link: `/deals/${offer.deal_id}`,
+    });
+    if (offer.responded_at && offer.status !== 'pending') {
+      events.push({
+        id: `offer-${offer.id}-response`,
+        kind: 'offer',
+        date: offer.responded_at,
+        title: `${who} de ${formatCurrency(offer.amount)} : ${(OFFER_STATUS_LABELS[offer.status as OfferStatus] ?? offer.status).toLowerCase()}`,
+        activityType: offer.status === 'accepted' ? 'signature' : undefined,
+        link: `/deals/${offer.deal_id}`,
+      });
+    }
+  });
+
+  return events.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
@@ -0,0 +1,174 @@
+/**
+ * Dossier de Diagnostic Technique (DDT)
+ * Which diagnostics a sale requires and how long each report stays valid
+ * (Code de la construction et de l'habitation, art. L271-4).
+ *
+ * Rules the property record cannot decide (termite zone, individual
+ * sanitation, gas cooking...) are returned as 'to_check'; the agent then
+ * uploads the report or marks the item as not applicable.
+ */
+
+import { addMonths, addYears, differenceInDays, isBefore, startOfDay } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { DIAGNOSTIC_EXPIRY_WARNING_DAYS, DIAGNOSTIC_KINDS, type DiagnosticKind } from '@/lib/constants';
+
+type Property = Pick<Tables<'properties'>, 'type' | 'year_built' | 'heating_type' | 'co_ownership_charges'>;
+export type PropertyDiagnostic = Tables<'property_diagnostics'>;
+
+// Diagnostics whose validity depends on the report's finding
+export const RESULT_DIAGNOSTICS: DiagnosticKind[] = ['amiante', 'plomb'];
+
+// Private bucket shared with the DPE analysis uploads
+export const DIAGNOSTICS_BUCKET = 'dpe-documents';
+
+export type Requirement = 'required' | 'to_check' | 'not_required';
+
+export type DiagnosticStatus =
+  | 'valid'
+  | 'expiring'
+  | 'expired'
+  | 'missing'
+  | 'to_check'
+  | 'not_required'
+  | 'not_applicable';
+
+export interface DiagnosticItem {
+  kind: DiagnosticKind;
+  requirement: Requirement;
+  reason: string;
+  status: DiagnosticStatus;
+  diagnostic: PropertyDiagnostic | null;
+  /** null when the report never expires (or is missing) */
+  expiresAt: Date | null;
+}
+
+const HOUSING_TYPES = ['appartement', 'maison', 'immeuble'];
+const BUILDING_TYPES = ['appartement', 'maison', 'immeuble', 'commerce', 'bureau'];
+// Electricity and gas installations are checked once older than 15 years
+const INSTALLATION_AGE_YEARS = 15;
+
+/** Whether a sale of this property needs the given diagnostic, and why */
+export function getRequirement(property: Property, kind: DiagnosticKind, today = new Date()): { requirement: Requirement; reason: string } {
+  const type = property.type ?? 'autre';
+  const year = property.year_built;
+  const isBuilding = BUILDING_TYPES.includes(type);
+  const isHousing = HOUSING_TYPES.includes(type);
+  const installationIsOld = year != null ? year <= today.getFullYear() - INSTALLATION_AGE_YEARS : null;
+
+  switch (kind) {
+    case 'dpe':
+      return isBuilding
+        ? { requirement: 'required', reason: 'Tout bâtiment vendu' }
+        : { requirement: 'not_required', reason: 'Bien non chauffé' };
+    case 'amiante':
+      if (!isBuilding) return { requirement: 'not_required', reason: 'Pas de bâti' };
+      if (year == null || year === 1997) return { requirement: 'to_check', reason: 'Permis de construire antérieur au 01/07/1997 ?' };
+      return year < 1997
+        ? { requirement: 'required', reason: 'Permis de construire antérieur au 01/07/1997' }
+        : { requirement: 'not_required', reason: 'Construit après 1997' };
+    case 'plomb':
+      if (!isHousing) return { requirement: 'not_required', reason: "Local non destiné à l'habitation" };
+      if (year == null || year === 1949) return { requirement: 'to_check', reason: 'Construit avant le 01/01/1949 ?' };
+      return year < 1949
+        ? { requirement: 'required', reason: 'Logement construit avant 1949' }
+        : { requirement: 'not_required', reason: 'Construit après 1949' };
+    case 'electricite':
+      if (!isHousing) return { requirement: 'not_required', reason: "Local non destiné à l'habitation" };
+      if (installationIsOld == null) return { requirement: 'to_check', reason: 'Installation de plus de 15 ans ?' };
+      return installationIsOld
+        ? { requirement: 'required', reason: 'Installation de plus de 15 ans' }
+        : { requirement: 'not_required', reason: 'Installation de moins de 15 ans' };
+    case 'gaz':
+      if (!isHousing) return { requirement: 'not_required', reason: "Local non destiné à l'habitation" };
+      if (property.heating_type !== 'gaz') return { requirement: 'to_check', reason: 'Installation gaz (cuisson, eau chaude) ?' };
+      if (installationIsOld == null) return { requirement: 'to_check', reason: 'Installation gaz de plus de 15 ans ?' };
+      return installationIsOld
+        ? { requirement: 'required', reason: 'Chauffage gaz, installation de plus de 15 ans' }
+        : { requirement: 'not_required', reason: 'Installation gaz de moins de 15 ans' };
+    case 'termites':
+      return isBuilding
+        ? { requirement: 'to_check', reason: 'Zone délimitée par arrêté préfectoral ?' }
+        : { requirement: 'not_required', reason: 'Pas de bâti' };
+    case 'erp':
+      return { requirement: 'required', reason: 'Toute vente' };
+    case 'carrez':
+      if (type === 'appartement') return { requirement: 'required', reason: 'Lot de copropriété' };
+      if ((type === 'commerce' || type === 'bureau') && (property.co_ownership_charges ?? 0) > 0) {
+        return { requirement: 'required', reason: 'Lot de copropriété' };
+      }
+      return { requirement: 'not_required', reason: 'Hors copropriété' };
+    case 'assainissement':
+      return type === 'maison'
+        ? { requirement: 'to_check', reason: "Non raccordé au tout-à-l'égout ?" }
+        : { requirement: 'not_required', reason: 'Assainissement collectif' };
+  }
+}
+
+/**
+ * Expiry date of a report, or null when it stays valid for the sale.
+ * Validity for a sale: DPE 10 years (older DPE cut-offs apply), amiante and
+ * plomb unlimited when negative, electricity / gas / sanitation 3 years,
+ * termites and ERP 6 months, Carrez until works change the surface.
+ */
+export function getExpiryDate(kind: DiagnosticKind, performedAt: string, result: string | null): Date | null {
+  const date = new Date(performedAt);
+  switch (kind) {
+    case 'dpe':
+      // Reform of 1 July 2021: older DPE expire early
+      if (isBefore(date, new Date('2018-01-01'))) return new Date('2022-12-31');
+      if (isBefore(date, new Date('2021-07-01'))) return new Date('2024-12-31');
+      return addYears(date, 10);
+    case 'amiante':
+      return result === 'positif' ? addYears(date, 3) : null;
+    case 'plomb':
+      return result === 'positif' ? addYears(date, 1) : null;
+    case 'electricite':
+    case 'gaz':
+    case 'assainissement':
+      return addYears(date, 3);
+    case 'termites':
+    case 'erp':
+      return addMonths(date, 6);
+    case 'carrez':
+      return null;
+  }
+}
+
+/** The DDT checklist of a property, checked at `at` (today, or the planned compromis date) */
+export function getDiagnosticsChecklist(
+  property: Property,
+  diagnostics: PropertyDiagnostic[],
+  at = new Date()
+): DiagnosticItem[] {
+  const day = startOfDay(at);
+
+  return DIAGNOSTIC_KINDS.map((kind) => {
+    const { requirement, reason } = getRequirement(property, kind, day);
+    const diagnostic = diagnostics.find((d) => d.kind === kind) ?? null;
+    const expiresAt = diagnostic?.performed_at ? getExpiryDate(kind, diagnostic.performed_at, diagnostic.result) : null;
+
+    let status: DiagnosticStatus;
+    if (diagnostic?.not_applicable) {
+      status = 'not_applicable';
+    } else if (diagnostic?.performed_at) {
+      if (expiresAt && isBefore(expiresAt, day)) status = 'expired';
+      else if (expiresAt && differenceInDays(expiresAt, day) <= DIAGNOSTIC_EXPIRY_WARNING_DAYS) status = 'expiring';
+      else status = 'valid';
+    } else if (requirement === 'required') {
+      status = 'missing';
+    } else {
+      status = requirement;
+    }
+
+    return { kind, requirement, reason, status, diagnostic, expiresAt };
+  });
+}
+
+/** Items blocking a compromis: required and missing, or expired */
+export function getBlockingDiagnostics(items: DiagnosticItem[]): DiagnosticItem[] {
+  return items.filter((item) => item.status === 'missing' || (item.status === 'expired' && item.requirement !== 'not_required'));
+}
+
+export function getDiagnosticFileName(kind: DiagnosticKind, fileName: string): string {
+  return `${kind}_${Date.now()}_${fileName.replace(/[^\w.-]+/g, '_')}`;
+}
@@ -0,0 +1,33 @@
+/**
+ * File export helpers (CSV, downloads).
+ * CSV files use ";" and a UTF-8 BOM so they open correctly in French Excel.
+ */
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function buildCsv(rows: CsvCell[][], separator = ';'): string {
+  return rows
+    .map((row) =>
+      row
+        .map((cell) => {
+          const text = cell === null || cell === undefined ? '' : String(cell);
+          return `"${text.replace(/"/g, '""')}"`;
+        })
+        .join(separator)
+    )
+    .join('\r\n');
+}
+
+export function downloadCsv(fileName: string, rows: CsvCell[][]) {
+  const blob = new Blob(['\uFEFF' + buildCsv(rows)], { type: 'text/csv;charset=utf-8;' });
+  downloadBlob(blob, fileName);
+}
@@ -0,0 +1,116 @@
+/**
+ * Geo helpers
+ * Distances and search areas (radius or drawn polygon) for buyer searches
+ */
+
+import type { Json } from '@/integrations/supabase/types';
+
+/** [latitude, longitude], the order Leaflet uses */
+export type LatLng = [number, number];
+
+export type SearchArea =
+  | { kind: 'radius'; center: LatLng; radiusKm: number; label: string | null }
+  | { kind: 'polygon'; points: LatLng[] };
+
+interface SearchAreaColumns {
+  center_lat: number | null;
+  center_lng: number | null;
+  center_label?: string | null;
+  radius_km: number | null;
+  search_polygon: Json | LatLng[] | null;
+}
+
+/** Search area columns as edited in the criteria form */
+export interface SearchAreaValue extends SearchAreaColumns {
+  center_label: string | null;
+  search_polygon: LatLng[] | null;
+}
+
+export const EMPTY_SEARCH_AREA: SearchAreaValue = {
+  center_lat: null,
+  center_lng: null,
+  center_label: null,
+  radius_km: null,
+  search_polygon: null,
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+/** Great-circle distance (haversine), in km */
+export function distanceKm([lat1, lng1]: LatLng, [lat2, lng2]: LatLng): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/** Ray casting; fine at the scale of a city or a département */
+export function isPointInPolygon([lat, lng]: LatLng, polygon: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    if (lngI > lng !== lngJ > lng && lat < ((latJ - latI) * (lng - lngI)) / (lngJ - lngI) + latI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Mean of the vertices, used to measure how far a property is from a drawn area */
+export function getPolygonCenter(polygon: LatLng[]): LatLng {
+  const lat = polygon.reduce((sum, [pLat]) => sum + pLat, 0) / polygon.length;
+  const lng = polygon.reduce((sum, [, pLng]) => sum + pLng, 0) / polygon.length;
+  return [lat, lng];
+}
+
+/** Polygon stored as JSONB, or null when missing or malformed */
+export function parsePolygon(value: Json | LatLng[] | null | undefined): LatLng[] | null {
+  if (!Array.isArray(value)) return null;
+  const points = (value as unknown[]).filter(
+    (p): p is LatLng => Array.isArray(p) && p.length === 2 && typeof p[0] === 'number' && typeof p[1] === 'number'
+  );
+  return points.length >= 3 ? points : null;
+}
+
+/** The search area of a buyer search; a drawn polygon takes precedence over the radius */
+export function getSearchArea(search: SearchAreaColumns): SearchArea | null {
+  const polygon = parsePolygon(search.search_polygon);
+  if (polygon) return { kind: 'polygon', points: polygon };
+  if (search.center_lat != null && search.center_lng != null && search.radius_km) {
+    return {
+      kind: 'radius',
+      center: [search.center_lat, search.center_lng],
+      radiusKm: search.radius_km,
+      label: search.center_label ?? null,
+    };
+  }
+  return null;
+}
+
+/**
+ * Whether a point lies in the area, its distance to the area's center and
+ * the area's reach (radius, or farthest vertex of a drawn polygon)
+ */
+export function locateInArea(point: LatLng, area: SearchArea): { inside: boolean; distanceKm: number; reachKm: number } {
+  if (area.kind === 'radius') {
+    const distance = distanceKm(point, area.center);
+    return { inside: distance <= area.radiusKm, distanceKm: distance, reachKm: area.radiusKm };
+  }
+  const center = getPolygonCenter(area.points);
+  return {
+    inside: isPointInPolygon(point, area.points),
+    distanceKm: distanceKm(point, center),
+    reachKm: Math.max(...area.points.map((p) => distanceKm(p, center))),
+  };
+}
+
+export function getCoordinates(item: { latitude: number | null; longitude: number | null }): LatLng | null {
+  return item.latitude != null && item.longitude != null ? [item.latitude, item.longitude] : null;
+}
+
+export function formatDistance(km: number): string {
+  return km < 1 ? `${Math.round(km * 1000)} m` : `${km < 10 ? km.toFixed(1).replace('.', ',') : Math.round(km)} km`;
+}
@@ -0,0 +1,267 @@
+/**
+ * Geocoding
+ * Address → coordinates through a pluggable geocoder.
+ *
+ * - 'ban-api' (default): the Base Adresse Nationale search API
+ * - 'ban-extract': offline stand-in reading a BAN CSV extract
+ *   (adresses-XX.csv from adresse.data.gouv.fr) served by the app
+ *
+ * Select one with VITE_GEOCODER; VITE_BAN_EXTRACT_URL points to the extract.
+ * Other providers can be added with registerGeocoder().
+ */
+
+import { normalizeString } from '@/lib/contact-import-utils';
+import type { LatLng } from '@/lib/geo';
+
+export interface GeocodeQuery {
+  address?: string | null;
+  postalCode?: string | null;
+  city?: string | null;
+}
+
+export interface GeocodeResult {
+  position: LatLng;
+  label: string;
+  /** 0–1 confidence; below 0.5 the result is a town centroid rather than the address */
+  score: number;
+}
+
+export interface Geocoder {
+  name: string;
+  geocode(query: GeocodeQuery): Promise<GeocodeResult | null>;
+}
+
+type GeocoderFactory = () => Geocoder;
+
+const BAN_API_URL = 'https://api-adresse.data.gouv.fr/search/';
+const DEFAULT_BAN_EXTRACT_URL = '/geo/ban-extract.csv';
+
+// Street type abbreviations found in listings, expanded to BAN spelling
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  av: 'avenue',
+  ave: 'avenue',
+  bd: 'boulevard',
+  bld: 'boulevard',
+  ch: 'chemin',
+  imp: 'impasse',
+  pl: 'place',
+  r: 'rue',
+  rte: 'route',
+  sq: 'square',
+  all: 'allee',
+  fbg: 'faubourg',
+};
+
+function hasQuery(query: GeocodeQuery): boolean {
+  return !!(query.address?.trim() || query.postalCode?.trim() || query.city?.trim());
+}
+
+function normalizeStreet(street: string): string {
+  return normalizeString(street)
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => STREET_ABBREVIATIONS[word] ?? word)
+    .join(' ');
+}
+
+/** "12 bis rue de la Paix" → { number: 12, suffix: 'bis', street: 'rue de la paix' } */
+export function parseStreetAddress(address: string): { number: number | null; suffix: string; street: string } {
+  const match = address.trim().match(/^(\d+)\s*(bis|ter|quater|[a-z])?\b[\s,]*(.*)$/i);
+  if (!match) return { number: null, suffix: '', street: normalizeStreet(address) };
+  return { number: Number(match[1]), suffix: (match[2] ?? '').toLowerCase(), street: normalizeStreet(match[3]) };
+}
+
+// ========== BAN API ==========
+
+export function createBanApiGeocoder(fetchFn: typeof fetch = (input, init) => fetch(input, init)): Geocoder {
+  return {
+    name: 'ban-api',
+    async geocode(query) {
+      if (!hasQuery(query)) return null;
+      const params = new URLSearchParams({
+        q: [query.address, query.postalCode, query.city].filter(Boolean).join(' '),
+        limit: '1',
+      });
+      if (query.postalCode) params.set('postcode', query.postalCode);
+
+      const response = await fetchFn(`${BAN_API_URL}?${params.toString()}`);
+      if (!response.ok) throw new Error(`Géocodage indisponible (${response.status})`);
+
+      const data: { features?: { geometry: { coordinates: [number, number] }; properties: { label: string; score: number } }[] } =
+        await response.json();
+      const feature = data.features?.[0];
+      if (!feature) return null;
+
+      const [lng, lat] = feature.geometry.coordinates;
+      return { position: [lat, lng], label: feature.properties.label, score: feature.properties.score };
+    },
+  };
+}
+
+// ========== BAN EXTRACT (offline) ==========
+
+interface BanAddress {
+  number: number;
+  suffix: string;
+  position: LatLng;
+  label: string;
+}
+
+interface BanIndex {
+  streets: Map<string, BanAddress[]>;
+  towns: Map<string, { position: LatLng; label: string }>;
+}
+
+/**
+ * Index a BAN CSV extract (semicolon separated, header row) by
+ * postal code + street, with a centroid per postal code and per town
+ */
+export function indexBanExtract(csv: string): BanIndex {
+  const lines = csv.split(/\r?\n/).filter(Boolean);
+  const header = lines[0]?.split(';') ?? [];
+  const col = (name: string) => header.indexOf(name);
+  const [iNumber, iSuffix, iStreet, iPostal, iTown, iLng, iLat] = [
+    col('numero'), col('rep'), col('nom_voie'), col('code_postal'), col('nom_commune'), col('lon'), col('lat'),
+  ];
+  if ([iNumber, iStreet, iPostal, iTown, iLng, iLat].includes(-1)) {
+    throw new Error('Extrait BAN invalide : colonnes numero, nom_voie, code_postal, nom_commune, lon, lat attendues');
+  }
+
+  const streets = new Map<string, BanAddress[]>();
+  const townSums = new Map<string, { lat: number; lng: number; count: number; label: string }>();
+
+  for (const line of lines.slice(1)) {
+    const cells = line.split(';');
+    const lat = Number(cells[iLat]);
+    const lng = Number(cells[iLng]);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+
+    const postal = cells[iPostal];
+    const town = cells[iTown];
+    const street = normalizeStreet(cells[iStreet]);
+    const suffix = iSuffix === -1 ? '' : (cells[iSuffix] ?? '').toLowerCase();
+    const label = `${cells[iNumber]}${suffix ? ` ${suffix}` : ''} ${cells[iStreet]} ${postal} ${town}`;
+
+    const key = `${postal}|${street}`;
+    const list = streets.get(key) ?? [];
+    list.push({ number: Number(cells[iNumber]), suffix, position: [lat, lng], label });
+    streets.set(key, list);
+
+    for (const townKey of [postal, normalizeString(town)]) {
+      const sum = townSums.get(townKey) ?? { lat: 0, lng: 0, count: 0, label: `${postal} ${town}` };
+      sum.lat += lat;
+      sum.lng += lng;
+      sum.count += 1;
+      townSums.set(townKey, sum);
+    }
+  }
+
+  const towns = new Map<string, { position: LatLng; label: string }>();
+  townSums.forEach((sum, key) => towns.set(key, { position: [sum.lat / sum.count, sum.lng / sum.count], label: sum.label }));
+
+  return { streets, towns };
+}
+
+/** Split "12 rue X, 69002 Lyon" into its street part and postal code */
+function splitPostalCode(query: GeocodeQuery): GeocodeQuery {
+  if (query.postalCode?.trim() || !query.address) return query;
+  const match = query.address.match(/^(.*?)[\s,]*\b(\d{5})\b/);
+  return match ? { ...query, address: match[1], postalCode: match[2] } : query;
+}
+
+export function geocodeWithBanIndex(index: BanIndex, rawQuery: GeocodeQuery): GeocodeResult | null {
+  const query = splitPostalCode(rawQuery);
+  const townKey = query.postalCode?.trim() || (query.city ? normalizeString(query.city) : '');
+  const town = townKey ? index.towns.get(townKey) : undefined;
+
+  if (query.address?.trim() && query.postalCode?.trim()) {
+    const { number, suffix, street } = parseStreetAddress(query.address);
+    const candidates = index.streets.get(`${query.postalCode.trim()}|${street}`);
+    if (candidates?.length) {
+      if (number === null) {
+        const mid = candidates[Math.floor(candidates.length / 2)];
+        return { position: mid.position, label: mid.label, score: 0.6 };
+      }
+      const exact = candidates.find((c) => c.number === number && c.suffix === suffix)
+        ?? candidates.find((c) => c.number === number);
+      if (exact) return { position: exact.position, label: exact.label, score: 1 };
+      // Number missing from the extract: nearest number on the same street
+      const nearest = [...candidates].sort((a, b) => Math.abs(a.number - number) - Math.abs(b.number - number))[0];
+      return { position: nearest.position, label: nearest.label, score: 0.8 };
+    }
+  }
+
+  return town ? { position: town.position, label: town.label, score: 0.4 } : null;
+}
+
+export function createBanExtractGeocoder(loadExtract: () => Promise<string>): Geocoder {
+  let index: Promise<BanIndex> | null = null;
+  return {
+    name: 'ban-extract',
+    async geocode(query) {
+      if (!hasQuery(query)) return null;
+      index ??= loadExtract().then(indexBanExtract);
+      return geocodeWithBanIndex(await index, query);
+    },
+  };
+}
+
+// ========== REGISTRY ==========
+
+const geocoders = new Map<string, GeocoderFactory>([
+  ['ban-api', () => createBanApiGeocoder()],
+  [
+    'ban-extract',
+    () =>
+      createBanExtractGeocoder(async () => {
+        const response = await fetch(import.meta.env.VITE_BAN_EXTRACT_URL || DEFAULT_BAN_EXTRACT_URL);
+        if (!response.ok) throw new Error('Extrait BAN introuvable');
+        return response.text();
+      }),
+  ],
+]);
+
+let activeGeocoder: Geocoder | null = null;
+
+export function registerGeocoder(name: string, factory: GeocoderFactory) {
+  geocoders.set(name, factory);
+  activeGeocoder = null;
+}
+
+export function getGeocoder(): Geocoder {
+  if (!activeGeocoder) {
+    const factory = geocoders.get(import.meta.env.VITE_GEOCODER || 'ban-api') ?? geocoders.get('ban-api')!;
+    activeGeocoder = factory();
+  }
+  return activeGeocoder;
+}
+
+/**
+ * Coordinates to save with a property. Returns the cleared columns when the
+ * address cannot be found, and never throws: saving a property must not
+ * depend on the geocoder being reachable.
+ */
+export async function geocodePropertyColumns(
+  values: { address?: string | null; postal_code?: string | null; city?: string | null }
+): Promise<{ latitude: number | null; longitude: number | null; geocoded_at: string | null }> {
+  try {
+    const result = await getGeocoder().geocode({ address: values.address, postalCode: values.postal_code, city: values.city });
+    if (result) {
+      return { latitude: result.position[0], longitude: result.position[1], geocoded_at: new Date().toISOString() };
+    }
+  } catch (error) {
+    console.error('Geocoding failed:', error);
+  }
+  return { latitude: null, longitude: null, geocoded_at: null };
+}
+
+/** Whether an edit changed the address, so the coordinates must be recomputed */
+export function hasAddressChanged(
+  previous: { address: string | null; postal_code: string | null; city: string | null },
+  next: { address?: string | null; postal_code?: string | null; city?: string | null }
+): boolean {
+  return (previous.address ?? '') !== (next.address ?? '')
+    || (previous.postal_code ?? '') !== (next.postal_code ?? '')
+    || (previous.city ?? '') !== (next.city ?? '');
+}
@@ -0,0 +1,79 @@
+/**
+ * Website lead capture
+ * HTML snippet of the embeddable contact form posting to the capture-lead
+ * Edge Function, which creates the contact and their buyer search.
+ */
+
+import { PROPERTY_TYPES, PROPERTY_TYPE_LABELS } from '@/lib/constants';
+
+export const DEFAULT_LEAD_SOURCE = 'Site web';
+
+export function getLeadCaptureEndpoint(): string {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/capture-lead`;
+}
+
+export function generateLeadFormToken(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+/** Origins of the agency websites listed by the user (comma or line separated), invalid entries dropped */
+export function parseAllowedOrigins(value: string): string[] {
+  const origins = value
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((entry) => {
+      try {
+        const url = new URL(/^https?:\/\//i.test(entry) ? entry : `https://${entry}`);
+        return url.origin;
+      } catch {
+        return null;
+      }
+    })
+    .filter((origin): origin is string => !!origin);
+  return [...new Set(origins)];
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Plain HTML form the agency pastes on its website. `website` is a honeypot
+ * hidden from humans; `redirect` is the optional thank-you page.
+ */
+export function buildLeadFormSnippet(organizationId: string, token: string, redirectUrl?: string): string {
+  const propertyTypes = PROPERTY_TYPES.filter((t) => t !== 'autre')
+    .map(
+      (t) =>
+        `    <label><input type="checkbox" name="property_types" value="${t}"> ${PROPERTY_TYPE_LABELS[t]}</label>`
+    )
+    .join('\n');
+
+  return `<form action="${getLeadCaptureEndpoint()}" method="POST">
+  <input type="hidden" name="org" value="${organizationId}">
+  <input type="hidden" name="token" value="${token}">
+${redirectUrl ? `  <input type="hidden" name="redirect" value="${escapeAttribute(redirectUrl)}">\n` : ''}  <div style="position:absolute;left:-10000px" aria-hidden="true">
+    <input type="text" name="website" tabindex="-1" autocomplete="off">
+  </div>
+  <p><input type="text" name="full_name" placeholder="Nom et prénom" required></p>
+  <p><input type="email" name="email" placeholder="Email"></p>
+  <p><input type="tel" name="phone" placeholder="Téléphone"></p>
+  <p>
+    <select name="transaction_type">
+      <option value="vente">Achat</option>
+      <option value="location">Location</option>
+    </select>
+  </p>
+  <p><input type="text" name="cities" placeholder="Villes recherchées (séparées par des virgules)"></p>
+  <p>
+    <input type="number" name="budget_min" placeholder="Budget min (€)">
+    <input type="number" name="budget_max" placeholder="Budget max (€)">
+  </p>
+  <p>
+${propertyTypes}
+  </p>
+  <p><textarea name="message" placeholder="Votre projet"></textarea></p>
+  <p><label><input type="checkbox" name="consent_email"> J'accepte de recevoir des biens par email</label></p>
+  <p><button type="submit">Envoyer</button></p>
+</form>`;
+}
@@ -0,0 +1,171 @@
+/**
+ * Mandate Register
+ * Expiry rules and inspection exports (CSV / PDF) for the registre des mandats.
+ */
+
+import { jsPDF } from 'jspdf';
+import { differenceInDays, startOfDay } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { formatCurrency, formatShortDate } from '@/lib/formatters';
+import { MANDATE_EXPIRY_WARNING_DAYS, MANDATE_STATUS_LABELS, MANDATE_TYPE_LABELS } from '@/lib/constants';
+import { downloadCsv, type CsvCell } from '@/lib/export-utils';
+import { BRAND_BLUE, TEXT_DARK, TEXT_MUTED, pdfText } from '@/lib/pdf-utils';
+
+type Mandate = Tables<'mandates'>;
+type Organization = Tables<'organizations'>;
+
+export interface ExpiringMandate {
+  mandate: Mandate;
+  daysLeft: number;
+}
+
+/**
+ * Days until the mandate ends (negative once past), or null for open-ended mandates
+ */
+export function getMandateDaysLeft(mandate: Mandate, today: Date = new Date()): number | null {
+  if (!mandate.end_date) return null;
+  return differenceInDays(startOfDay(new Date(mandate.end_date)), startOfDay(today));
+}
+
+/**
+ * Active exclusive mandates ending within the warning window (or already past their end date)
+ */
+export function getExpiringExclusiveMandates(
+  mandates: Mandate[],
+  today: Date = new Date(),
+  windowDays = MANDATE_EXPIRY_WARNING_DAYS
+): ExpiringMandate[] {
+  return mandates
+    .filter((m) => m.status === 'actif' && m.mandate_type === 'exclusif')
+    .map((mandate) => ({ mandate, daysLeft: getMandateDaysLeft(mandate, today) }))
+    .filter((m): m is ExpiringMandate => m.daysLeft !== null && m.daysLeft <= windowDays)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+}
+
+function typeLabel(mandate: Mandate): string {
+  return MANDATE_TYPE_LABELS[mandate.mandate_type as keyof typeof MANDATE_TYPE_LABELS] ?? mandate.mandate_type;
+}
+
+function statusLabel(mandate: Mandate): string {
+  return MANDATE_STATUS_LABELS[mandate.status as keyof typeof MANDATE_STATUS_LABELS] ?? mandate.status;
+}
+
+function renewalLabel(mandate: Mandate): string {
+  const parts = [mandate.tacit_renewal ? 'Tacite reconduction' : 'Sans reconduction'];
+  if (mandate.notice_period_days) parts.push(`préavis ${mandate.notice_period_days} j`);
+  if (mandate.renewal_terms) parts.push(mandate.renewal_terms);
+  return parts.join(', ');
+}
+
+// ========== CSV ==========
+
+export function exportMandateRegisterCsv(mandates: Mandate[], organization: Organization | null) {
+  const rows: CsvCell[][] = [
+    ['N°', 'Date de début', 'Date de fin', 'Type', 'Statut', 'Mandant', 'Bien', 'Prix', 'Honoraires', 'Reconduction', 'Observations'],
+    ...mandates.map((m) => [
+      m.number,
+      formatShortDate(m.start_date),
+      m.end_date ? formatShortDate(m.end_date) : '',
+      typeLabel(m),
+      statusLabel(m),
+      m.mandator_name ?? '',
+      m.property_label,
+      m.price ?? '',
+      m.fees ?? '',
+      renewalLabel(m),
+      m.notes ?? '',
+    ]),
+  ];
+  const slug = organization?.slug ?? 'agence';
+  downloadCsv(`registre-mandats-${slug}-${new Date().toISOString().slice(0, 10)}.csv`, rows);
+}
+
+// ========== PDF ==========
+
+const COLUMNS: { label: string; width: number; value: (m: Mandate) => string }[] = [
+  { label: 'N°', width: 12, value: (m) => String(m.number) },
+  { label: 'Début', width: 20, value: (m) => formatShortDate(m.start_date) },
+  { label: 'Fin', width: 20, value: (m) => (m.end_date ? formatShortDate(m.end_date) : '—') },
+  { label: 'Type', width: 24, value: typeLabel },
+  { label: 'Statut', width: 18, value: statusLabel },
+  { label: 'Mandant', width: 38, value: (m) => m.mandator_name ?? '—' },
+  { label: 'Bien', width: 70, value: (m) => m.property_label },
+  { label: 'Prix', width: 24, value: (m) => (m.price ? formatCurrency(m.price) : '—') },
+  { label: 'Reconduction', width: 47, value: renewalLabel },
+];
+
+/**
+ * Printable register (A4 landscape), one row per mandate in number order
+ */
+export function generateMandateRegisterPdf(mandates: Mandate[], organization: Organization | null): jsPDF {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  const pageW = 297;
+  const pageH = 210;
+  const margin = 12;
+  const lineH = 3.6;
+  let y = 0;
+
+  const drawPageHeader = () => {
+    doc.setFillColor(...BRAND_BLUE);
+    doc.rect(0, 0, pageW, 2, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.setTextColor(...TEXT_DARK);
+    doc.text('Registre des mandats', margin, 14);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...TEXT_MUTED);
+    doc.text(pdfText(`${organization?.name ?? ''} — édité le ${formatShortDate(new Date())}`), margin, 19);
+
+    y = 27;
+    doc.setFillColor(241, 245, 249);
+    doc.rect(margin, y - 4, pageW - margin * 2, 6, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(8);
+    doc.setTextColor(...TEXT_DARK);
+    let x = margin + 1;
+    COLUMNS.forEach((col) => {
+      doc.text(col.label, x, y);
+      x += col.width;
+    });
+    y += 5;
+  };
+
+  drawPageHeader();
+
+  doc.setFontSize(8);
+  mandates.forEach((mandate) => {
+    doc.setFont('helvetica', 'normal');
+    const cells = COLUMNS.map((col) => doc.splitTextToSize(pdfText(col.value(mandate)), col.width - 2) as string[]);
+    const rowH = Math.max(...cells.map((c) => c.length)) * lineH + 1.5;
+
+    if (y + rowH > pageH - 14) {
+      doc.addPage();
+      drawPageHeader();
+      doc.setFont('helvetica', 'normal');
+    }
+
+    doc.setTextColor(...TEXT_DARK);
+    let x = margin + 1;
+    cells.forEach((lines, i) => {
+      doc.text(lines, x, y);
+      x += COLUMNS[i].width;
+    });
+    doc.setDrawColor(226, 232, 240);
+    doc.setLineWidth(0.1);
+    doc.line(margin, y + rowH - lineH, pageW - margin, y + rowH - lineH);
+    y += rowH;
+  });
+
+  // Page numbers
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(...TEXT_MUTED);
+    doc.text(`Page ${i} / ${pageCount}`, pageW - margin, pageH - 6, { align: 'right' });
+  }
+
+  return doc;
+}
@@ -0,0 +1,53 @@
+/**
+ * Purchase offers of a deal
+ * A negotiation is a chain: the buyer's initial offer, then each
+ * counter-offer pointing at the offer it answers (parent_offer_id).
+ */
+
+import { isBefore, startOfDay } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Offer = Tables<'offers'>;
+
+export interface OfferChain<T extends Offer = Offer> {
+  root: T;
+  /** Initial offer first, latest counter-offer last */
+  offers: T[];
+  latest: T;
+}
+
+/** Group a deal's offers into negotiation chains, most recent chain first */
+export function buildOfferChains<T extends Offer>(offers: T[]): OfferChain<T>[] {
+  const ids = new Set(offers.map((offer) => offer.id));
+  const children = new Map<string, T[]>();
+  for (const offer of offers) {
+    if (offer.parent_offer_id && ids.has(offer.parent_offer_id)) {
+      children.set(offer.parent_offer_id, [...(children.get(offer.parent_offer_id) ?? []), offer]);
+    }
+  }
+
+  const chains = offers
+    .filter((offer) => !offer.parent_offer_id || !ids.has(offer.parent_offer_id))
+    .map((root) => {
+      const chain = [root];
+      let next = children.get(root.id)?.[0];
+      while (next) {
+        chain.push(next);
+        next = children.get(next.id)?.[0];
+      }
+      return { root, offers: chain, latest: chain[chain.length - 1] };
+    });
+
+  return chains.sort((a, b) => b.latest.created_at.localeCompare(a.latest.created_at));
+}
+
+/** A pending offer past its validity date lapses */
+export function isOfferExpired(offer: Offer, at = new Date()): boolean {
+  return offer.status === 'pending' && !!offer.valid_until && isBefore(new Date(offer.valid_until), startOfDay(at));
+}
+
+/** Difference with the asking price, as a signed percentage */
+export function getOfferGap(amount: number, askingPrice: number | null | undefined): number | null {
+  if (!askingPrice) return null;
+  return Math.round(((amount - askingPrice) / askingPrice) * 1000) / 10;
+}
@@ -0,0 +1,187 @@
+/**
+ * PDF helpers shared by the generated documents (brochures, registers, reports).
+ * Built on jsPDF with the standard Helvetica font (WinAnsi encoding).
+ */
+
+import type { jsPDF } from 'jspdf';
+
+export type Rgb = [number, number, number];
+
+export const DPE_CLASSES = ['A', 'B', 'C', 'D', 'E', 'F', 'G'] as const;
+export type DpeClass = (typeof DPE_CLASSES)[number];
+
+// Same bar widths and Tailwind colours as DPE_CONFIG / GES_CONFIG in PropertyComplianceAudit
+export const DPE_SCALE: Record<DpeClass, { width: number; color: Rgb }> = {
+  A: { width: 0.2, color: [34, 197, 94] },   // green-500
+  B: { width: 0.3, color: [74, 222, 128] },  // green-400
+  C: { width: 0.4, color: [163, 230, 53] },  // lime-400
+  D: { width: 0.55, color: [250, 204, 21] }, // yellow-400
+  E: { width: 0.7, color: [245, 158, 11] },  // amber-500
+  F: { width: 0.85, color: [249, 115, 22] }, // orange-500
+  G: { width: 1, color: [239, 68, 68] },     // red-500
+};
+
+export const GES_SCALE: Record<DpeClass, { width: number; color: Rgb }> = {
+  A: { width: 0.2, color: [196, 181, 253] },  // violet-300
+  B: { width: 0.3, color: [167, 139, 250] },  // violet-400
+  C: { width: 0.4, color: [192, 132, 252] },  // purple-400
+  D: { width: 0.55, color: [168, 85, 247] },  // purple-500
+  E: { width: 0.7, color: [217, 70, 239] },   // fuchsia-500
+  F: { width: 0.85, color: [236, 72, 153] },  // pink-500
+  G: { width: 1, color: [225, 29, 72] },      // rose-600
+};
+
+export const BRAND_BLUE: Rgb = [75, 139, 255];
+export const BRAND_VIOLET: Rgb = [124, 58, 237];
+export const TEXT_DARK: Rgb = [30, 41, 59];
+export const TEXT_MUTED: Rgb = [100, 116, 139];
+
+export function normalizeDpeLabel(raw: string | null | undefined): DpeClass | null {
+  if (!raw) return null;
+  const upper = raw.trim().toUpperCase();
+  return DPE_CLASSES.includes(upper as DpeClass) ? (upper as DpeClass) : null;
+}
+
+/**
+ * Make a string printable with the standard PDF fonts.
+ * Intl formatters emit narrow / non-breaking spaces that WinAnsi cannot encode.
+ */
+export function pdfText(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  return String(value)
+    .replace(/[\u202f\u00a0\u2009]/g, ' ')
+    .replace(/\u2026/g, '...');
+}
+
+export interface LoadedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Load a remote image into a JPEG data URL, optionally center-cropped to an aspect ratio.
+ * Goes through a canvas so WebP / PNG sources are normalised. Resolves null on failure.
+ */
+export function loadImage(url: string, aspectRatio?: number, format: 'JPEG' | 'PNG' = 'JPEG'): Promise<LoadedImage | null> {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      let sx = 0;
+      let sy = 0;
+      let sw = img.naturalWidth;
+      let sh = img.naturalHeight;
+      if (aspectRatio) {
+        if (sw / sh > aspectRatio) {
+          sw = sh * aspectRatio;
+          sx = (img.naturalWidth - sw) / 2;
+        } else {
+          sh = sw / aspectRatio;
+          sy = (img.naturalHeight - sh) / 2;
+        }
+      }
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(sw);
+      canvas.height = Math.round(sh);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(null);
+      if (format === 'JPEG') {
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+      ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+      try {
+        resolve({
+          dataUrl: canvas.toDataURL(format === 'JPEG' ? 'image/jpeg' : 'image/png', 0.85),
+          width: canvas.width,
+          height: canvas.height,
+        });
+      } catch {
+        // Tainted canvas (missing CORS headers)
+        resolve(null);
+      }
+    };
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+}
+
+/**
+ * Draw an image inside a box, preserving its ratio (contain).
+ */
+export function drawImageContain(doc: jsPDF, image: LoadedImage, x: number, y: number, maxW: number, maxH: number, format: 'JPEG' | 'PNG' = 'JPEG') {
+  const ratio = Math.min(maxW / image.width, maxH / image.height);
+  const w = image.width * ratio;
+  const h = image.height * ratio;
+  doc.addImage(image.dataUrl, format, x + (maxW - w) / 2, y + (maxH - h) / 2, w, h);
+}
+
+/**
+ * Draw an energy label scale (A→G bars of increasing width), highlighting the active class.
+ * @returns The height used, in document units
+ */
+export function drawEnergyScale(
+  doc: jsPDF,
+  kind: 'dpe' | 'ges',
+  active: DpeClass | null,
+  x: number,
+  y: number,
+  width: number,
+  barHeight = 5,
+): number {
+  const scale = kind === 'dpe' ? DPE_SCALE : GES_SCALE;
+  const gap = barHeight * 0.25;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.setTextColor(...TEXT_DARK);
+  doc.text(kind === 'dpe' ? 'Diagnostic de performance énergétique' : 'Émissions de gaz à effet de serre', x, y);
+
+  let cursor = y + 2;
+  DPE_CLASSES.forEach((letter) => {
+    const { width: ratio, color } = scale[letter];
+    const isActive = letter === active;
+    const barWidth = width * 0.8 * ratio;
+
+    // Inactive bars are washed out, like the opacity-30 bars on screen
+    const fill = isActive ? color : (color.map((c) => Math.round(c + (255 - c) * 0.7)) as Rgb);
+    doc.setFillColor(...fill);
+    doc.rect(x, cursor, barWidth, barHeight, 'F');
+
+    doc.setFontSize(barHeight * 1.6);
+    doc.setTextColor(255, 255, 255);
+    doc.text(letter, x + 1.5, cursor + barHeight * 0.75);
+
+    if (isActive) {
+      doc.setDrawColor(...TEXT_DARK);
+      doc.setLineWidth(0.4);
+      doc.rect(x, cursor, barWidth, barHeight, 'S');
+      doc.setFillColor(...TEXT_DARK);
+      doc.triangle(x + barWidth + 2, cursor + barHeight / 2, x + barWidth + 5, cursor, x + barWidth + 5, cursor + barHeight, 'F');
+      doc.setTextColor(...TEXT_DARK);
+      doc.text(letter, x + barWidth + 6.5, cursor + barHeight * 0.75);
+    }
+    cursor += barHeight + gap;
+  });
+
+  if (!active) {
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(8);
+    doc.setTextColor(...TEXT_MUTED);
+    doc.text('Diagnostic non communiqué', x, cursor + 3);
+    cursor += 5;
+  }
+
+  return cursor - y;
+}
+
+export function slugifyFileName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .toLowerCase()
+    .slice(0, 60);
+}
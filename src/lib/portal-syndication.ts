@@ -0,0 +1,91 @@
+/**
+ * Portal Syndication
+ * Validation rules for SeLoger / Poliris exports.
+ * Keep in sync with supabase/functions/export-portal-feed/index.ts
+ */
+
+import type { Tables } from '@/integrations/supabase/types';
+
+type Property = Tables<'properties'>;
+
+export interface PortalIssue {
+  field: string;
+  label: string;
+}
+
+export interface PortalValidationResult {
+  property: Property;
+  valid: boolean;
+  issues: PortalIssue[];
+}
+
+export interface PortalReport {
+  results: PortalValidationResult[];
+  published: number;
+  ready: number;
+  blocked: number;
+}
+
+// Property types for which the DPE / GES labels are mandatory in listings
+const DPE_REQUIRED_TYPES = ['appartement', 'maison', 'immeuble'];
+// Property types for which the room count is mandatory
+const ROOMS_REQUIRED_TYPES = ['appartement', 'maison'];
+
+export const MIN_DESCRIPTION_LENGTH = 50;
+export const MAX_PORTAL_PHOTOS = 9;
+
+/**
+ * Check that a property carries every field required by the portals
+ * @param property - The property to validate
+ * @returns The list of missing or invalid fields (empty when publishable)
+ */
+export function validatePropertyForPortals(property: Property): PortalIssue[] {
+  const issues: PortalIssue[] = [];
+  const add = (field: string, label: string) => issues.push({ field, label });
+
+  if (!property.mandate_number?.trim()) add('mandate_number', 'Numéro de mandat (référence annonce)');
+  if (!property.mandate_type) add('mandate_type', 'Type de mandat');
+  if (!property.type) add('type', 'Type de bien');
+  if (!property.transaction_type) add('transaction_type', 'Type de transaction');
+  if (!property.price || property.price <= 0) add('price', 'Prix');
+  if (property.type !== 'parking' && (!property.surface || property.surface <= 0)) {
+    add('surface', 'Surface');
+  }
+  if (ROOMS_REQUIRED_TYPES.includes(property.type ?? '') && !property.rooms) {
+    add('rooms', 'Nombre de pièces');
+  }
+  if (!/^\d{5}$/.test(property.postal_code?.trim() ?? '')) add('postal_code', 'Code postal (5 chiffres)');
+  if (!property.city?.trim()) add('city', 'Ville');
+  if ((property.description?.trim().length ?? 0) < MIN_DESCRIPTION_LENGTH) {
+    add('description', `Descriptif (${MIN_DESCRIPTION_LENGTH} caractères min.)`);
+  }
+  if (!property.images?.length) add('images', 'Au moins une photo');
+  if (DPE_REQUIRED_TYPES.includes(property.type ?? '')) {
+    if (!property.dpe_label) add('dpe_label', 'Étiquette DPE');
+    if (!property.ges_label) add('ges_label', 'Étiquette GES');
+  }
+
+  return issues;
+}
+
+/**
+ * Build the validation report shown before an export.
+ * Only available properties are eligible for syndication.
+ */
+export function buildPortalReport(properties: Property[]): PortalReport {
+  const results = properties
+    .filter((p) => p.status === 'disponible')
+    .map((property) => {
+      const issues = validatePropertyForPortals(property);
+      return { property, issues, valid: issues.length === 0 };
+    });
+
+  const selected = results.filter((r) => r.property.publish_to_portals);
+
+  return {
+    results,
+    published: selected.length,
+    ready: selected.filter((r) => r.valid).length,
+    blocked: selected.filter((r) => !r.valid).length,
+  };
+}
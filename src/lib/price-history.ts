@@ -0,0 +1,56 @@
+/**
+ * Property price history
+ * Helpers around property_price_history (rows are written by a database trigger)
+ */
+
+import { differenceInDays } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { PRICE_DROP_BADGE_DAYS } from '@/lib/constants';
+
+export type PriceChange = Tables<'property_price_history'>;
+
+export interface PriceDrop {
+  previousPrice: number;
+  newPrice: number;
+  percent: number; // negative, e.g. -5 for a 5% drop
+  changedAt: string;
+}
+
+export function isPriceDrop(change: Pick<PriceChange, 'old_price' | 'new_price'>): boolean {
+  return change.old_price != null && change.new_price != null && change.new_price < change.old_price;
+}
+
+export function getPriceChangePercent(oldPrice: number, newPrice: number): number {
+  if (!oldPrice) return 0;
+  return Math.round(((newPrice - oldPrice) / oldPrice) * 1000) / 10;
+}
+
+/**
+ * Latest price change per property, kept only when it is a drop made within the badge window.
+ * Expects history ordered by changed_at descending.
+ */
+export function getRecentPriceDrops(
+  history: PriceChange[],
+  today: Date = new Date(),
+  windowDays = PRICE_DROP_BADGE_DAYS
+): Map<string, PriceDrop> {
+  const drops = new Map<string, PriceDrop>();
+  const seen = new Set<string>();
+
+  for (const change of history) {
+    if (seen.has(change.property_id)) continue;
+    seen.add(change.property_id);
+
+    if (!isPriceDrop(change)) continue;
+    if (differenceInDays(today, new Date(change.changed_at)) > windowDays) continue;
+
+    drops.set(change.property_id, {
+      previousPrice: change.old_price!,
+      newPrice: change.new_price!,
+      percent: getPriceChangePercent(change.old_price!, change.new_price!),
+      changedAt: change.changed_at,
+    });
+  }
+
+  return drops;
+}
@@ -0,0 +1,379 @@
+/**
+ * Property Brochure ("fiche vitrine")
+ * Builds the printable A4 PDF handed to buyers or displayed in the agency window.
+ */
+
+import { jsPDF } from 'jspdf';
+import type { Tables } from '@/integrations/supabase/types';
+import { formatCurrency, formatNumber } from '@/lib/formatters';
+import { PROPERTY_TYPE_LABELS, TRANSACTION_TYPE_LABELS, HEATING_TYPE_LABELS, MANDATE_TYPE_LABELS } from '@/lib/constants';
+import {
+  BRAND_BLUE,
+  BRAND_VIOLET,
+  TEXT_DARK,
+  TEXT_MUTED,
+  drawEnergyScale,
+  drawImageContain,
+  loadImage,
+  normalizeDpeLabel,
+  pdfText,
+  slugifyFileName,
+  type LoadedImage,
+} from '@/lib/pdf-utils';
+
+type Property = Tables<'properties'>;
+type Organization = Tables<'organizations'>;
+
+export const BROCHURE_TEMPLATES = ['vitrine', 'portrait', 'paysage'] as const;
+export type BrochureTemplate = typeof BROCHURE_TEMPLATES[number];
+
+export const BROCHURE_TEMPLATE_LABELS: Record<BrochureTemplate, { label: string; description: string }> = {
+  vitrine: { label: 'Vitrine', description: 'Grande photo et prix lisibles de loin' },
+  portrait: { label: 'A4 portrait', description: 'Fiche complète à remettre en visite' },
+  paysage: { label: 'A4 paysage', description: 'Photo et informations côte à côte' },
+};
+
+export type FeePayer = 'vendeur' | 'acquereur';
+
+export interface BrochureOptions {
+  template: BrochureTemplate;
+  feePayer: FeePayer;
+  /** Fees charged to the buyer, in % TTC of the price excluding fees */
+  feePercent?: number | null;
+}
+
+interface BrochureContext {
+  doc: jsPDF;
+  property: Property;
+  organization: Organization | null;
+  options: BrochureOptions;
+  cover: LoadedImage | null;
+  logo: LoadedImage | null;
+}
+
+const PAGE_MARGIN = 12;
+
+// ========== LEGAL MENTIONS ==========
+
+/**
+ * Price and fee mention required by the arrêté du 10 janvier 2017
+ */
+export function getFeeMention(property: Property, options: BrochureOptions): string {
+  if (!property.price) return 'Prix sur demande';
+  if (property.transaction_type === 'location') {
+    return `Loyer ${formatCurrency(property.price)} par mois. Honoraires de location selon barème affiché en agence.`;
+  }
+  if (options.feePayer === 'acquereur' && options.feePercent) {
+    const priceExcludingFees = Math.round(property.price / (1 + options.feePercent / 100));
+    return `Prix ${formatCurrency(property.price)} honoraires inclus, à la charge de l'acquéreur : ${formatNumber(options.feePercent)} % TTC du prix hors honoraires, soit ${formatCurrency(priceExcludingFees)} hors honoraires.`;
+  }
+  return `Prix ${formatCurrency(property.price)}. Honoraires à la charge du vendeur.`;
+}
+
+/**
+ * Co-ownership mention (loi ALUR) — only for lots in a copropriété
+ */
+export function getCoOwnershipMention(property: Property): string | null {
+  const inCoOwnership = property.type === 'appartement' || (property.co_ownership_charges ?? 0) > 0;
+  if (!inCoOwnership) return null;
+  const charges = property.co_ownership_charges;
+  return charges
+    ? `Bien soumis au statut de la copropriété. Montant moyen des charges courantes : ${formatCurrency(charges)} par mois, soit ${formatCurrency(charges * 12)} par an.`
+    : 'Bien soumis au statut de la copropriété. Charges courantes communiquées sur demande.';
+}
+
+// ========== CONTENT HELPERS ==========
+
+function getKeyFacts(property: Property): { label: string; value: string }[] {
+  const facts: { label: string; value: string }[] = [];
+  if (property.type) facts.push({ label: 'Type', value: PROPERTY_TYPE_LABELS[property.type] });
+  if (property.surface) facts.push({ label: 'Surface', value: `${formatNumber(property.surface)} m²` });
+  if (property.rooms) facts.push({ label: 'Pièces', value: String(property.rooms) });
+  if (property.bedrooms) facts.push({ label: 'Chambres', value: String(property.bedrooms) });
+  if (property.bathrooms) facts.push({ label: 'Salles de bain', value: String(property.bathrooms) });
+  if (property.floor != null) {
+    const floor = property.floor === 0 ? 'RDC' : `${property.floor}e`;
+    facts.push({ label: 'Étage', value: property.total_floors ? `${floor} / ${property.total_floors}` : floor });
+  }
+  if (property.year_built) facts.push({ label: 'Construction', value: String(property.year_built) });
+  if (property.heating_type) {
+    facts.push({
+      label: 'Chauffage',
+      value: HEATING_TYPE_LABELS[property.heating_type as keyof typeof HEATING_TYPE_LABELS] ?? property.heating_type,
+    });
+  }
+  if (property.tax_property) facts.push({ label: 'Taxe foncière', value: `${formatCurrency(property.tax_property)}/an` });
+  return facts;
+}
+
+function getLocation(property: Property): string {
+  return [property.postal_code, property.city].filter(Boolean).join(' ') || property.address || '';
+}
+
+function getTransactionLabel(property: Property): string {
+  const type = property.transaction_type as keyof typeof TRANSACTION_TYPE_LABELS | null;
+  return type ? TRANSACTION_TYPE_LABELS[type] ?? 'Vente' : 'Vente';
+}
+
+// ========== DRAWING BLOCKS ==========
+
+function drawHeader({ doc, organization, logo }: BrochureContext, pageWidth: number) {
+  doc.setFillColor(...BRAND_BLUE);
+  doc.rect(0, 0, pageWidth, 2, 'F');
+  if (logo) {
+    drawImageContain(doc, logo, PAGE_MARGIN, 6, 40, 14, 'PNG');
+  } else {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.setTextColor(...BRAND_VIOLET);
+    doc.text(pdfText(organization?.name ?? ''), PAGE_MARGIN, 15);
+  }
+}
+
+function drawCover(ctx: BrochureContext, x: number, y: number, w: number, h: number) {
+  const { doc, cover } = ctx;
+  if (cover) {
+    doc.addImage(cover.dataUrl, 'JPEG', x, y, w, h);
+    return;
+  }
+  doc.setFillColor(241, 245, 249);
+  doc.rect(x, y, w, h, 'F');
+  doc.setFont('helvetica', 'italic');
+  doc.setFontSize(11);
+  doc.setTextColor(...TEXT_MUTED);
+  doc.text('Photo non disponible', x + w / 2, y + h / 2, { align: 'center' });
+}
+
+function drawFactsGrid(ctx: BrochureContext, x: number, y: number, w: number, columns: number): number {
+  const { doc, property } = ctx;
+  const facts = getKeyFacts(property);
+  const cellW = w / columns;
+  const cellH = 12;
+
+  facts.forEach((fact, i) => {
+    const cx = x + (i % columns) * cellW;
+    const cy = y + Math.floor(i / columns) * cellH;
+    doc.setFillColor(248, 250, 252);
+    doc.roundedRect(cx, cy, cellW - 2, cellH - 2, 1.5, 1.5, 'F');
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(...TEXT_MUTED);
+    doc.text(pdfText(fact.label).toUpperCase(), cx + 2.5, cy + 4);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.setTextColor(...TEXT_DARK);
+    doc.text(pdfText(fact.value), cx + 2.5, cy + 8.2);
+  });
+
+  return Math.ceil(facts.length / columns) * cellH;
+}
+
+function drawParagraph(doc: jsPDF, text: string, x: number, y: number, w: number, maxLines: number, fontSize = 9): number {
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(fontSize);
+  doc.setTextColor(...TEXT_DARK);
+  const lines: string[] = doc.splitTextToSize(pdfText(text), w);
+  const visible = lines.length > maxLines ? [...lines.slice(0, maxLines - 1), `${lines[maxLines - 1]}...`] : lines;
+  doc.text(visible, x, y);
+  return visible.length * fontSize * 0.3528 * 1.15;
+}
+
+function drawLegalMentions(ctx: BrochureContext, x: number, y: number, w: number): number {
+  const { doc, property, options } = ctx;
+  const mentions = [getFeeMention(property, options), getCoOwnershipMention(property)].filter(Boolean) as string[];
+  if (property.mandate_number) {
+    const mandate = property.mandate_type
+      ? MANDATE_TYPE_LABELS[property.mandate_type as keyof typeof MANDATE_TYPE_LABELS] ?? property.mandate_type
+      : null;
+    mentions.push(`Réf. ${property.mandate_number}${mandate ? ` — mandat ${mandate.toLowerCase()}` : ''}.`);
+  }
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  doc.setTextColor(...TEXT_MUTED);
+  let cursor = y;
+  mentions.forEach((mention) => {
+    const lines: string[] = doc.splitTextToSize(pdfText(mention), w);
+    doc.text(lines, x, cursor);
+    cursor += lines.length * 3;
+  });
+  return cursor - y;
+}
+
+function drawFooter({ doc, organization }: BrochureContext, pageWidth: number, pageHeight: number) {
+  doc.setDrawColor(226, 232, 240);
+  doc.setLineWidth(0.2);
+  doc.line(PAGE_MARGIN, pageHeight - 10, pageWidth - PAGE_MARGIN, pageHeight - 10);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  doc.setTextColor(...TEXT_MUTED);
+  doc.text(pdfText(organization?.name ?? ''), PAGE_MARGIN, pageHeight - 6);
+  doc.text('Document non contractuel', pageWidth - PAGE_MARGIN, pageHeight - 6, { align: 'right' });
+}
+
+function drawPrice(ctx: BrochureContext, x: number, y: number, fontSize: number, align: 'left' | 'center' | 'right' = 'left') {
+  const { doc, property } = ctx;
+  const suffix = property.transaction_type === 'location' ? ' /mois' : '';
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(fontSize);
+  doc.setTextColor(...BRAND_VIOLET);
+  doc.text(property.price ? pdfText(formatCurrency(property.price) + suffix) : 'Prix sur demande', x, y, { align });
+}
+
+// ========== TEMPLATES ==========
+
+function renderPortrait(ctx: BrochureContext) {
+  const { doc, property } = ctx;
+  const pageW = 210;
+  const pageH = 297;
+  const contentW = pageW - PAGE_MARGIN * 2;
+
+  drawHeader(ctx, pageW);
+  drawCover(ctx, PAGE_MARGIN, 24, contentW, 105);
+
+  let y = 140;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.setTextColor(...TEXT_DARK);
+  doc.text(doc.splitTextToSize(pdfText(property.title), contentW - 60)[0], PAGE_MARGIN, y);
+  drawPrice(ctx, pageW - PAGE_MARGIN, y, 16, 'right');
+  y += 6;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(...TEXT_MUTED);
+  doc.text(pdfText(`${getTransactionLabel(property)} · ${getLocation(property)}`), PAGE_MARGIN, y);
+
+  y += 6;
+  y += drawFactsGrid(ctx, PAGE_MARGIN, y, contentW, 4) + 4;
+
+  if (property.description) {
+    y += 3;
+    // Fill the space left above the energy scales
+    const maxLines = Math.max(2, Math.floor((214 - y) / (9 * 0.3528 * 1.15)));
+    drawParagraph(doc, property.description, PAGE_MARGIN, y, contentW, maxLines);
+  }
+
+  const scaleW = contentW / 2 - 4;
+  y = 220;
+  drawEnergyScale(doc, 'dpe', normalizeDpeLabel(property.dpe_label), PAGE_MARGIN, y, scaleW, 4);
+  drawEnergyScale(doc, 'ges', normalizeDpeLabel(property.ges_label), PAGE_MARGIN + contentW / 2 + 4, y, scaleW, 4);
+
+  drawLegalMentions(ctx, PAGE_MARGIN, pageH - 26, contentW);
+  drawFooter(ctx, pageW, pageH);
+}
+
+function renderLandscape(ctx: BrochureContext) {
+  const { doc, property } = ctx;
+  const pageW = 297;
+  const pageH = 210;
+  const colW = (pageW - PAGE_MARGIN * 3) / 2;
+  const rightX = PAGE_MARGIN * 2 + colW;
+
+  drawHeader(ctx, pageW);
+  drawCover(ctx, PAGE_MARGIN, 24, colW, 130);
+
+  let y = 30;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.setTextColor(...TEXT_DARK);
+  const titleLines: string[] = doc.splitTextToSize(pdfText(property.title), colW);
+  doc.text(titleLines.slice(0, 2), rightX, y);
+  y += titleLines.slice(0, 2).length * 6.5;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(...TEXT_MUTED);
+  doc.text(pdfText(`${getTransactionLabel(property)} · ${getLocation(property)}`), rightX, y);
+  y += 10;
+  drawPrice(ctx, rightX, y, 20);
+  y += 6;
+  y += drawFactsGrid(ctx, rightX, y, colW, 3) + 4;
+
+  if (property.description) {
+    y += 3;
+    drawParagraph(doc, property.description, rightX, y, colW, 6, 8.5);
+  }
+
+  const scaleW = colW / 2 - 4;
+  drawEnergyScale(doc, 'dpe', normalizeDpeLabel(property.dpe_label), rightX, 130, scaleW, 3.2);
+  drawEnergyScale(doc, 'ges', normalizeDpeLabel(property.ges_label), rightX + colW / 2 + 4, 130, scaleW, 3.2);
+
+  drawLegalMentions(ctx, PAGE_MARGIN, 164, colW);
+  drawFooter(ctx, pageW, pageH);
+}
+
+function renderWindowDisplay(ctx: BrochureContext) {
+  const { doc, property } = ctx;
+  const pageW = 210;
+  const pageH = 297;
+  const contentW = pageW - PAGE_MARGIN * 2;
+
+  drawHeader(ctx, pageW);
+
+  // Transaction banner
+  doc.setFillColor(...BRAND_VIOLET);
+  doc.rect(pageW - PAGE_MARGIN - 40, 8, 40, 10, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.setTextColor(255, 255, 255);
+  doc.text(pdfText(getTransactionLabel(property).toUpperCase()), pageW - PAGE_MARGIN - 20, 14.8, { align: 'center' });
+
+  drawCover(ctx, 0, 24, pageW, 140);
+
+  let y = 180;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(24);
+  doc.setTextColor(...TEXT_DARK);
+  const type = property.type ? PROPERTY_TYPE_LABELS[property.type] : 'Bien';
+  const headline = [type, property.rooms ? `${property.rooms} pièces` : null, property.surface ? `${formatNumber(property.surface)} m²` : null]
+    .filter(Boolean)
+    .join(' · ');
+  doc.text(pdfText(headline), pageW / 2, y, { align: 'center' });
+  y += 10;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(16);
+  doc.setTextColor(...TEXT_MUTED);
+  doc.text(pdfText(getLocation(property)), pageW / 2, y, { align: 'center' });
+  y += 18;
+  drawPrice(ctx, pageW / 2, y, 36, 'center');
+
+  const scaleW = contentW / 2 - 4;
+  drawEnergyScale(doc, 'dpe', normalizeDpeLabel(property.dpe_label), PAGE_MARGIN, 220, scaleW, 4.5);
+  drawEnergyScale(doc, 'ges', normalizeDpeLabel(property.ges_label), PAGE_MARGIN + contentW / 2 + 4, 220, scaleW, 4.5);
+
+  drawLegalMentions(ctx, PAGE_MARGIN, pageH - 24, contentW);
+  drawFooter(ctx, pageW, pageH);
+}
+
+const RENDERERS: Record<BrochureTemplate, { orientation: 'portrait' | 'landscape'; coverRatio: number; render: (ctx: BrochureContext) => void }> = {
+  vitrine: { orientation: 'portrait', coverRatio: 210 / 140, render: renderWindowDisplay },
+  portrait: { orientation: 'portrait', coverRatio: 186 / 105, render: renderPortrait },
+  paysage: { orientation: 'landscape', coverRatio: 130.5 / 130, render: renderLandscape },
+};
+
+/**
+ * Generate the brochure PDF for a property
+ * @param property - The property to present (first image is used as cover)
+ * @param organization - The agency, for its name and logo_url
+ * @param options - Layout template and fee mention settings
+ * @returns The jsPDF document, ready to be saved or opened
+ */
+export async function generatePropertyBrochure(
+  property: Property,
+  organization: Organization | null,
+  options: BrochureOptions,
+): Promise<jsPDF> {
+  const renderer = RENDERERS[options.template];
+  const [cover, logo] = await Promise.all([
+    property.images?.[0] ? loadImage(property.images[0], renderer.coverRatio) : Promise.resolve(null),
+    organization?.logo_url ? loadImage(organization.logo_url, undefined, 'PNG') : Promise.resolve(null),
+  ]);
+
+  const doc = new jsPDF({ orientation: renderer.orientation, unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: pdfText(property.title), creator: 'SynaPilot' });
+  renderer.render({ doc, property, organization, options, cover, logo });
+  return doc;
+}
+
+export function getBrochureFileName(property: Property, template: BrochureTemplate): string {
+  return `fiche-${template}-${slugifyFileName(property.mandate_number || property.title || property.id)}.pdf`;
+}
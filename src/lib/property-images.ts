@@ -0,0 +1,64 @@
+/**
+ * Property Images
+ * WebP variants generated by the process-property-image Edge Function.
+ *
+ * Each photo is stored as {org}/{property}/{imageId}/{variant}.webp and
+ * properties.images keeps the 'large' URLs in display order: the first
+ * one is the cover used by the grid, brochures, proposals and portal feeds.
+ * Photos uploaded before the pipeline existed are single files and are
+ * returned unchanged for every variant.
+ *
+ * The medium and large variants also exist as .jpg for proposal emails and
+ * portal exports; the app only displays the WebP files.
+ */
+
+export const PROPERTY_IMAGES_BUCKET = 'property-images';
+
+// Keep in sync with supabase/functions/process-property-image/index.ts
+export const IMAGE_VARIANTS = {
+  thumb: 400,
+  medium: 960,
+  large: 1920,
+} as const;
+
+export type ImageVariant = keyof typeof IMAGE_VARIANTS;
+
+// Variants with a JPEG rendition, see process-property-image
+const JPEG_VARIANTS: ImageVariant[] = ['medium', 'large'];
+
+const VARIANT_FILE_RE = /\/(thumb|medium|large)\.webp(\?.*)?$/;
+
+export function isProcessedImage(url: string): boolean {
+  return VARIANT_FILE_RE.test(url);
+}
+
+/** URL of the given size of a photo (the photo itself for legacy uploads) */
+export function getImageVariant(url: string, variant: ImageVariant): string {
+  return isProcessedImage(url) ? url.replace(VARIANT_FILE_RE, `/${variant}.webp$2`) : url;
+}
+
+/** Cover photo of a property at the given size */
+export function getCoverImage(images: string[] | null | undefined, variant: ImageVariant): string | null {
+  return images?.[0] ? getImageVariant(images[0], variant) : null;
+}
+
+/** Bucket paths to remove when deleting a photo (every variant, or the single legacy file) */
+export function getImageStoragePaths(url: string): string[] {
+  const bucketPrefix = `/storage/v1/object/public/${PROPERTY_IMAGES_BUCKET}/`;
+  const pathIndex = url.indexOf(bucketPrefix);
+  if (pathIndex === -1) return [];
+
+  const path = decodeURIComponent(url.slice(pathIndex + bucketPrefix.length).split('?')[0]);
+  if (!isProcessedImage(path)) return [path];
+
+  const folder = path.slice(0, path.lastIndexOf('/'));
+  return [
+    ...(Object.keys(IMAGE_VARIANTS) as ImageVariant[]).map((variant) => `${folder}/${variant}.webp`),
+    ...JPEG_VARIANTS.map((variant) => `${folder}/${variant}.jpg`),
+  ];
+}
+
+/** Move a photo to the front of the list, making it the cover */
+export function setCoverImage(images: string[], url: string): string[] {
+  return [url, ...images.filter((img) => img !== url)];
+}
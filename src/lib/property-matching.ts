@@ -0,0 +1,223 @@
+/**
+ * Property ↔ buyer matching
+ * Scores a property against a buyer's search criteria (contact_searches)
+ */
+
+import type { Tables } from '@/integrations/supabase/types';
+import type { ContactSearch } from '@/hooks/useContactSearches';
+import { formatDistance, getCoordinates, getSearchArea, locateInArea } from '@/lib/geo';
+import { getAmenityLabel, hasAmenity, parseFeatures } from '@/lib/amenities';
+
+type Property = Tables<'properties'>;
+
+// Contact roles that can be proposed a property
+export const BUYER_ROLES = ['acheteur', 'vendeur_acheteur', 'prospect'];
+
+export interface MatchDetails {
+  budgetMatch: 'perfect' | 'tight' | 'over' | null;
+  surfaceMatch: boolean;
+  roomsMatch: boolean;
+  typeMatch: boolean;
+  cityMatch: boolean;
+  transactionMatch: boolean;
+  viagerMatch: boolean;
+  areaMatch: boolean;
+  /** Distance to the center of the search area, when both are located */
+  distanceKm: number | null;
+  /** Every must-have amenity is present (true when the search has none) */
+  mustHaveMatch: boolean;
+  niceToHaveMatched: string[];
+}
+
+export interface MatchScore {
+  score: number;
+  details: MatchDetails;
+  warnings: string[];
+}
+
+export function calculateMatchScore(property: Property, search: ContactSearch): MatchScore {
+  let score = 0;
+  let maxScore = 0;
+  const warnings: string[] = [];
+
+  const details: MatchDetails = {
+    budgetMatch: null,
+    surfaceMatch: false,
+    roomsMatch: false,
+    typeMatch: false,
+    cityMatch: false,
+    transactionMatch: false,
+    viagerMatch: false,
+    areaMatch: false,
+    distanceKm: null,
+    mustHaveMatch: true,
+    niceToHaveMatched: [],
+  };
+
+  // For a viager the buyer's budget covers the bouquet; the rente has its own criterion
+  const isViager = property.transaction_type === 'viager';
+  const budgetPrice = isViager && property.viager_bouquet != null ? property.viager_bouquet : property.price;
+
+  // Budget matching (40% weight)
+  if (search.budget_max && budgetPrice) {
+    maxScore += 40;
+    const budgetDiff = (search.budget_max - budgetPrice) / budgetPrice;
+
+    if (budgetDiff >= 0) {
+      score += 40;
+      details.budgetMatch = 'perfect';
+    } else if (budgetDiff >= -0.1) {
+      score += 25;
+      details.budgetMatch = 'tight';
+      warnings.push(`Budget serré (+${Math.abs(Math.round(budgetDiff * 100))}%)`);
+    } else {
+      details.budgetMatch = 'over';
+      warnings.push(`Hors budget (+${Math.abs(Math.round(budgetDiff * 100))}%)`);
+    }
+  }
+
+  // Surface matching (20% weight)
+  if (search.min_surface && property.surface) {
+    maxScore += 20;
+    if (property.surface >= search.min_surface) {
+      score += 20;
+      details.surfaceMatch = true;
+    } else {
+      warnings.push(`Surface insuffisante (${property.surface}m² vs ${search.min_surface}m² min)`);
+    }
+  }
+
+  // Rooms matching (15% weight)
+  if (search.min_rooms && property.rooms) {
+    maxScore += 15;
+    if (property.rooms >= search.min_rooms) {
+      score += 15;
+      details.roomsMatch = true;
+    } else {
+      warnings.push(`Pièces insuffisantes (${property.rooms} vs ${search.min_rooms} min)`);
+    }
+  }
+
+  // Property type matching (15% weight)
+  if (search.property_types && search.property_types.length > 0 && property.type) {
+    maxScore += 15;
+    if (search.property_types.includes(property.type)) {
+      score += 15;
+      details.typeMatch = true;
+    } else {
+      warnings.push(`Type non recherché`);
+    }
+  }
+
+  // City matching (10% weight)
+  if (search.cities && search.cities.length > 0 && property.city) {
+    maxScore += 10;
+    if (search.cities.some(city =>
+      city.toLowerCase() === property.city?.toLowerCase()
+    )) {
+      score += 10;
+      details.cityMatch = true;
+    }
+  }
+
+  // Search area matching: radius or drawn polygon (10% weight)
+  const area = getSearchArea(search);
+  const position = getCoordinates(property);
+  if (area && position) {
+    maxScore += 10;
+    const { inside, distanceKm, reachKm } = locateInArea(position, area);
+    details.distanceKm = distanceKm;
+    if (inside) {
+      score += 10;
+      details.areaMatch = true;
+    } else {
+      // Just outside the area still counts for half
+      if (distanceKm <= reachKm * 1.5) score += 5;
+      warnings.push(`Hors zone (${formatDistance(distanceKm)} du centre)`);
+    }
+  }
+
+  // Amenities: must-haves (15% weight) and nice-to-haves (5% weight), prorated
+  const features = parseFeatures(property.features);
+  const mustHaves = search.must_have_amenities ?? [];
+  if (mustHaves.length > 0) {
+    maxScore += 15;
+    const missing = mustHaves.filter((criterion) => !hasAmenity(features, criterion));
+    score += 15 * ((mustHaves.length - missing.length) / mustHaves.length);
+    details.mustHaveMatch = missing.length === 0;
+    if (missing.length > 0) {
+      warnings.push(`Sans ${missing.map((c) => getAmenityLabel(c).toLowerCase()).join(', ')}`);
+    }
+  }
+
+  const niceToHaves = search.nice_to_have_amenities ?? [];
+  if (niceToHaves.length > 0) {
+    maxScore += 5;
+    details.niceToHaveMatched = niceToHaves.filter((criterion) => hasAmenity(features, criterion));
+    score += 5 * (details.niceToHaveMatched.length / niceToHaves.length);
+  }
+
+  // Transaction type matching (10% weight)
+  if (search.transaction_type && property.transaction_type) {
+    maxScore += 10;
+    if (search.transaction_type === property.transaction_type) {
+      score += 10;
+      details.transactionMatch = true;
+    } else {
+      warnings.push(`Transaction non recherchée`);
+    }
+  }
+
+  // Viager matching: monthly rente and occupancy (10% weight)
+  if (isViager && (search.max_rente != null || search.viager_occupancy)) {
+    maxScore += 10;
+    const renteOk = search.max_rente == null || property.viager_rente == null || property.viager_rente <= search.max_rente;
+    const occupancyOk = !search.viager_occupancy || !property.viager_occupancy || property.viager_occupancy === search.viager_occupancy;
+
+    if (!renteOk) {
+      warnings.push(`Rente trop élevée (${property.viager_rente}€ vs ${search.max_rente}€/mois max)`);
+    }
+    if (!occupancyOk) {
+      warnings.push(property.viager_occupancy === 'occupe' ? `Viager occupé (libre recherché)` : `Viager libre (occupé recherché)`);
+    }
+    if (renteOk && occupancyOk) {
+      score += 10;
+      details.viagerMatch = true;
+    } else if (renteOk || occupancyOk) {
+      score += 5;
+    }
+  }
+
+  const finalScore = maxScore > 0 ? Math.round((score / maxScore) * 100) : 0;
+
+  return { score: finalScore, details, warnings };
+}
+
+export interface PriceDropMatch<S extends ContactSearch = ContactSearch> {
+  search: S;
+  before: MatchScore;
+  after: MatchScore;
+}
+
+/**
+ * Buyers whose budget covers the new price but did not cover the previous one.
+ * Both prices are scored with calculateMatchScore so the result stays consistent
+ * with the Smart Matching widget.
+ */
+export function findNewlyInBudgetBuyers<S extends ContactSearch & { contact?: { role: string | null } | null }>(
+  property: Property,
+  previousPrice: number,
+  searches: S[]
+): PriceDropMatch<S>[] {
+  if (!property.price || property.price >= previousPrice) return [];
+
+  return searches
+    .filter((search) => !search.contact?.role || BUYER_ROLES.includes(search.contact.role))
+    .map((search) => ({
+      search,
+      before: calculateMatchScore({ ...property, price: previousPrice }, search),
+      after: calculateMatchScore(property, search),
+    }))
+    .filter(({ before, after }) => before.details.budgetMatch !== 'perfect' && after.details.budgetMatch === 'perfect')
+    .sort((a, b) => b.after.score - a.after.score);
+}
@@ -0,0 +1,447 @@
+/**
+ * Property Valuation (avis de valeur)
+ * Comparable-sales estimate built on the DVF transactions cached by fetch-market-data
+ */
+
+import { jsPDF } from 'jspdf';
+import type { Tables } from '@/integrations/supabase/types';
+import { formatCurrency, formatNumber, formatShortDate } from '@/lib/formatters';
+import { PROPERTY_TYPE_LABELS } from '@/lib/constants';
+import {
+  BRAND_BLUE,
+  BRAND_VIOLET,
+  TEXT_DARK,
+  TEXT_MUTED,
+  drawEnergyScale,
+  drawImageContain,
+  loadImage,
+  normalizeDpeLabel,
+  pdfText,
+  slugifyFileName,
+  type DpeClass,
+  type LoadedImage,
+} from '@/lib/pdf-utils';
+
+type Property = Tables<'properties'>;
+type Organization = Tables<'organizations'>;
+
+/** One row of market_stats_cache.recent_transactions */
+export interface DvfTransaction {
+  date: string;
+  price: number;
+  surface: number;
+  price_m2: number;
+  type: string;
+  rooms?: number | null; // absent from caches built before rooms were stored
+  address: string;
+}
+
+export interface ValuationAdjustment {
+  label: string;
+  percent: number;
+}
+
+export interface ValuationRange {
+  low: number;
+  likely: number;
+  high: number;
+}
+
+export interface ValuationResult {
+  comparables: DvfTransaction[];
+  surfaceBand: number; // ±ratio used to select comparables, e.g. 0.2
+  roomsFiltered: boolean;
+  pricePerM2: ValuationRange; // comparables, before adjustments
+  adjustments: ValuationAdjustment[];
+  totalAdjustment: number; // percent
+  estimate: ValuationRange;
+  confidence: 'faible' | 'moyenne' | 'bonne';
+}
+
+export const MIN_COMPARABLES = 3;
+
+// Surface bands tried in order until enough comparables are found
+const SURFACE_BANDS = [0.2, 0.35, 0.5];
+
+// DVF only covers these two local types (see fetch-market-data)
+const DVF_TYPES: Record<string, string> = {
+  appartement: 'Appartement',
+  maison: 'Maison',
+};
+
+// Indicative "valeur verte" premiums / discounts against a D-rated home
+export const DPE_VALUE_ADJUSTMENTS: Record<DpeClass, number> = {
+  A: 6,
+  B: 4,
+  C: 2,
+  D: 0,
+  E: -3,
+  F: -7,
+  G: -12,
+};
+
+export const CONFIDENCE_LABELS: Record<ValuationResult['confidence'], string> = {
+  faible: 'Indicative (peu de références)',
+  moyenne: 'Correcte',
+  bonne: 'Bonne',
+};
+
+/**
+ * Why a property cannot be valued from DVF comparables, or null when it can
+ */
+export function getValuationIssue(property: Property): string | null {
+  if (!property.type || !DVF_TYPES[property.type]) return 'Estimation disponible pour les appartements et maisons uniquement';
+  if (!property.surface || property.surface <= 0) return 'Surface du bien requise';
+  if (!property.postal_code) return 'Code postal du bien requis';
+  return null;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 1) return sorted[0];
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function roundTo(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+/**
+ * Adjustments applied to the comparables' price per m², which DVF cannot capture
+ */
+export function getValuationAdjustments(property: Property): ValuationAdjustment[] {
+  const adjustments: ValuationAdjustment[] = [];
+
+  const dpe = normalizeDpeLabel(property.dpe_label);
+  if (dpe && DPE_VALUE_ADJUSTMENTS[dpe] !== 0) {
+    adjustments.push({ label: `DPE ${dpe}`, percent: DPE_VALUE_ADJUSTMENTS[dpe] });
+  }
+
+  if (property.type === 'appartement' && property.floor != null) {
+    if (property.floor === 0) {
+      adjustments.push({ label: 'Rez-de-chaussée', percent: -5 });
+    } else if (property.total_floors && property.floor >= property.total_floors) {
+      adjustments.push({ label: 'Dernier étage', percent: 3 });
+    }
+  }
+
+  return adjustments;
+}
+
+function selectComparables(property: Property, transactions: DvfTransaction[], band: number, useRooms: boolean) {
+  const surface = property.surface!;
+  return transactions.filter((tx) => {
+    if (tx.type !== DVF_TYPES[property.type!]) return false;
+    if (!tx.surface || !tx.price_m2) return false;
+    if (Math.abs(tx.surface - surface) / surface > band) return false;
+    if (useRooms && tx.rooms != null && Math.abs(tx.rooms - property.rooms!) > 1) return false;
+    return true;
+  });
+}
+
+/**
+ * Estimate a low / likely / high price from comparable DVF sales.
+ * Comparables share the property type, fall within a surface band (widened until
+ * MIN_COMPARABLES are found) and, when known, within one room of the property.
+ * The interquartile range of their price per m² gives the low/high bounds.
+ * @returns null when fewer than MIN_COMPARABLES sales match
+ */
+export function estimatePropertyValue(property: Property, transactions: DvfTransaction[]): ValuationResult | null {
+  if (getValuationIssue(property)) return null;
+
+  const useRooms = !!property.rooms;
+  let comparables: DvfTransaction[] = [];
+  let surfaceBand = SURFACE_BANDS[0];
+
+  for (const band of SURFACE_BANDS) {
+    surfaceBand = band;
+    comparables = selectComparables(property, transactions, band, useRooms);
+    if (comparables.length >= MIN_COMPARABLES) break;
+  }
+
+  if (comparables.length < MIN_COMPARABLES) return null;
+
+  // Drop outliers (Tukey fences) once there are enough references
+  let pricesM2 = comparables.map((tx) => tx.price_m2).sort((a, b) => a - b);
+  if (pricesM2.length >= 5) {
+    const q1 = percentile(pricesM2, 0.25);
+    const q3 = percentile(pricesM2, 0.75);
+    const fence = (q3 - q1) * 1.5;
+    comparables = comparables.filter((tx) => tx.price_m2 >= q1 - fence && tx.price_m2 <= q3 + fence);
+    pricesM2 = comparables.map((tx) => tx.price_m2).sort((a, b) => a - b);
+  }
+
+  const pricePerM2: ValuationRange = {
+    low: Math.round(percentile(pricesM2, 0.25)),
+    likely: Math.round(percentile(pricesM2, 0.5)),
+    high: Math.round(percentile(pricesM2, 0.75)),
+  };
+
+  const adjustments = getValuationAdjustments(property);
+  const totalAdjustment = adjustments.reduce((sum, a) => sum + a.percent, 0);
+  const factor = property.surface! * (1 + totalAdjustment / 100);
+
+  return {
+    comparables: [...comparables].sort((a, b) => b.date.localeCompare(a.date)),
+    surfaceBand,
+    roomsFiltered: useRooms && comparables.some((tx) => tx.rooms != null),
+    pricePerM2,
+    adjustments,
+    totalAdjustment,
+    estimate: {
+      low: roundTo(pricePerM2.low * factor, 1000),
+      likely: roundTo(pricePerM2.likely * factor, 1000),
+      high: roundTo(pricePerM2.high * factor, 1000),
+    },
+    confidence: comparables.length >= 10 ? 'bonne' : comparables.length >= 5 ? 'moyenne' : 'faible',
+  };
+}
+
+// ========== PDF ==========
+
+export interface ValuationReportOptions {
+  preparedFor?: string | null;
+  agentName?: string | null;
+}
+
+const PAGE_W = 210;
+const PAGE_H = 297;
+const MARGIN = 15;
+
+const COMPARABLE_COLUMNS: { label: string; width: number; align?: 'right'; value: (tx: DvfTransaction) => string }[] = [
+  { label: 'Date', width: 22, value: (tx) => (tx.date ? formatShortDate(tx.date) : '—') },
+  { label: 'Type', width: 24, value: (tx) => tx.type },
+  { label: 'Surface', width: 18, align: 'right', value: (tx) => `${formatNumber(tx.surface)} m²` },
+  { label: 'Pièces', width: 14, align: 'right', value: (tx) => (tx.rooms != null ? String(tx.rooms) : '—') },
+  { label: 'Prix', width: 26, align: 'right', value: (tx) => formatCurrency(tx.price) },
+  { label: '€/m²', width: 20, align: 'right', value: (tx) => formatNumber(tx.price_m2) },
+  { label: 'Adresse', width: 56, value: (tx) => tx.address },
+];
+
+function drawReportHeader(doc: jsPDF, organization: Organization | null, logo: LoadedImage | null) {
+  doc.setFillColor(...BRAND_BLUE);
+  doc.rect(0, 0, PAGE_W, 2, 'F');
+  if (logo) {
+    drawImageContain(doc, logo, MARGIN, 6, 40, 14, 'PNG');
+  } else {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.setTextColor(...BRAND_VIOLET);
+    doc.text(pdfText(organization?.name ?? ''), MARGIN, 15);
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.setTextColor(...TEXT_DARK);
+  doc.text('Avis de valeur', PAGE_W - MARGIN, 13, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(...TEXT_MUTED);
+  doc.text(pdfText(`Établi le ${formatShortDate(new Date())}`), PAGE_W - MARGIN, 18, { align: 'right' });
+}
+
+function drawComparablesHeader(doc: jsPDF, y: number) {
+  doc.setFillColor(241, 245, 249);
+  doc.rect(MARGIN, y - 4, PAGE_W - MARGIN * 2, 6, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(7.5);
+  doc.setTextColor(...TEXT_DARK);
+  let x = MARGIN + 1;
+  COMPARABLE_COLUMNS.forEach((col) => {
+    doc.text(pdfText(col.label), col.align === 'right' ? x + col.width - 3 : x, y, { align: col.align ?? 'left' });
+    x += col.width;
+  });
+}
+
+function drawSectionTitle(doc: jsPDF, title: string, y: number) {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(...BRAND_VIOLET);
+  doc.text(pdfText(title).toUpperCase(), MARGIN, y);
+}
+
+/**
+ * Seller-facing avis de valeur (A4 portrait): estimate range, adjustments and DVF comparables
+ */
+export async function generateValuationReport(
+  property: Property,
+  organization: Organization | null,
+  valuation: ValuationResult,
+  options: ValuationReportOptions = {},
+): Promise<jsPDF> {
+  const logo = organization?.logo_url ? await loadImage(organization.logo_url, undefined, 'PNG') : null;
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: pdfText(`Avis de valeur — ${property.title}`), creator: 'SynaPilot' });
+
+  drawReportHeader(doc, organization, logo);
+
+  // Property
+  let y = 32;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.setTextColor(...TEXT_DARK);
+  doc.text(doc.splitTextToSize(pdfText(property.title), PAGE_W - MARGIN * 2)[0], MARGIN, y);
+  y += 5.5;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...TEXT_MUTED);
+  doc.text(pdfText([property.address, [property.postal_code, property.city].filter(Boolean).join(' ')].filter(Boolean).join(', ')), MARGIN, y);
+  if (options.preparedFor) {
+    y += 4.5;
+    doc.text(pdfText(`À l'attention de ${options.preparedFor}`), MARGIN, y);
+  }
+
+  y += 7;
+  const facts = [
+    { label: 'Type', value: PROPERTY_TYPE_LABELS[property.type as keyof typeof PROPERTY_TYPE_LABELS] ?? '—' },
+    { label: 'Surface', value: `${formatNumber(property.surface ?? 0)} m²` },
+    { label: 'Pièces', value: property.rooms ? String(property.rooms) : '—' },
+    { label: 'Étage', value: property.floor != null ? (property.floor === 0 ? 'RDC' : String(property.floor)) : '—' },
+    { label: 'Construction', value: property.year_built ? String(property.year_built) : '—' },
+  ];
+  const cellW = (PAGE_W - MARGIN * 2) / facts.length;
+  facts.forEach((fact, i) => {
+    const cx = MARGIN + i * cellW;
+    doc.setFillColor(248, 250, 252);
+    doc.roundedRect(cx, y, cellW - 2, 10, 1.5, 1.5, 'F');
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(6.5);
+    doc.setTextColor(...TEXT_MUTED);
+    doc.text(pdfText(fact.label).toUpperCase(), cx + 2.5, y + 3.8);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9.5);
+    doc.setTextColor(...TEXT_DARK);
+    doc.text(pdfText(fact.value), cx + 2.5, y + 8);
+  });
+  y += 16;
+
+  // Estimate
+  const boxH = 30;
+  doc.setFillColor(239, 246, 255);
+  doc.roundedRect(MARGIN, y, PAGE_W - MARGIN * 2, boxH, 2, 2, 'F');
+  const columns: { label: string; key: keyof ValuationRange }[] = [
+    { label: 'Fourchette basse', key: 'low' },
+    { label: 'Valeur probable', key: 'likely' },
+    { label: 'Fourchette haute', key: 'high' },
+  ];
+  const colW = (PAGE_W - MARGIN * 2) / 3;
+  columns.forEach(({ label, key }, i) => {
+    const cx = MARGIN + colW * i + colW / 2;
+    const isLikely = key === 'likely';
+    const priceM2 = valuation.pricePerM2[key] * (1 + valuation.totalAdjustment / 100);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...TEXT_MUTED);
+    doc.text(label.toUpperCase(), cx, y + 8, { align: 'center' });
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(isLikely ? 18 : 13);
+    doc.setTextColor(...(isLikely ? BRAND_VIOLET : TEXT_DARK));
+    doc.text(pdfText(formatCurrency(valuation.estimate[key])), cx, y + 18, { align: 'center' });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...TEXT_MUTED);
+    doc.text(pdfText(`${formatNumber(Math.round(priceM2))} €/m²`), cx, y + 24, { align: 'center' });
+  });
+  y += boxH + 10;
+
+  // Adjustments + DPE
+  const sectionTop = y;
+  drawSectionTitle(doc, 'Analyse', y);
+  y += 6;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...TEXT_DARK);
+  const lines = [
+    `${valuation.comparables.length} ventes comparables (DVF), surface à ±${Math.round(valuation.surfaceBand * 100)} %${valuation.roomsFiltered ? ', ±1 pièce' : ''}`,
+    `Prix médian des références : ${formatNumber(valuation.pricePerM2.likely)} €/m²`,
+    ...valuation.adjustments.map((a) => `${a.label} : ${a.percent > 0 ? '+' : ''}${a.percent} %`),
+    valuation.adjustments.length === 0 ? 'Aucun ajustement (DPE D ou non communiqué, étage neutre)' : `Ajustement total : ${valuation.totalAdjustment > 0 ? '+' : ''}${valuation.totalAdjustment} %`,
+    `Fiabilité : ${CONFIDENCE_LABELS[valuation.confidence]}`,
+  ];
+  lines.forEach((line) => {
+    doc.text(pdfText(`•  ${line}`), MARGIN, y);
+    y += 5;
+  });
+  const dpeHeight = drawEnergyScale(doc, 'dpe', normalizeDpeLabel(property.dpe_label), 125, sectionTop, 70, 4);
+  y = Math.max(y, sectionTop + dpeHeight) + 6;
+
+  // Comparables
+  drawSectionTitle(doc, 'Ventes comparables', y);
+  y += 8;
+  drawComparablesHeader(doc, y);
+  y += 5;
+  const lineH = 3.4;
+  valuation.comparables.forEach((tx) => {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7.5);
+    const cells = COMPARABLE_COLUMNS.map((col) => doc.splitTextToSize(pdfText(col.value(tx)), col.width - 2) as string[]);
+    const rowH = Math.max(...cells.map((c) => c.length)) * lineH + 1.5;
+    if (y + rowH > PAGE_H - 40) {
+      doc.addPage();
+      drawReportHeader(doc, organization, logo);
+      y = 32;
+      drawComparablesHeader(doc, y);
+      y += 5;
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(7.5);
+    }
+    doc.setTextColor(...TEXT_DARK);
+    let x = MARGIN + 1;
+    cells.forEach((cellLines, i) => {
+      const col = COMPARABLE_COLUMNS[i];
+      doc.text(cellLines, col.align === 'right' ? x + col.width - 3 : x, y, { align: col.align ?? 'left' });
+      x += col.width;
+    });
+    doc.setDrawColor(226, 232, 240);
+    doc.setLineWidth(0.1);
+    doc.line(MARGIN, y + rowH - lineH, PAGE_W - MARGIN, y + rowH - lineH);
+    y += rowH;
+  });
+
+  // Methodology and legal notice, kept on the last page
+  const notice = [
+    "Cet avis de valeur est établi à partir des ventes publiées par la DGFiP (Demandes de valeurs foncières) dans le même code postal, " +
+      'pour des biens de même type et de surface proche, corrigées de la performance énergétique et de l\'étage du bien.',
+    "Il ne constitue pas une expertise immobilière au sens de la Charte de l'expertise en évaluation immobilière et ne saurait engager " +
+      "l'agence sur le prix de vente effectivement obtenu.",
+  ];
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  const noticeLines = notice.flatMap((p) => doc.splitTextToSize(pdfText(p), PAGE_W - MARGIN * 2) as string[]);
+  if (y + 8 + noticeLines.length * 3 > PAGE_H - 14) {
+    doc.addPage();
+    drawReportHeader(doc, organization, logo);
+    y = 32;
+  }
+  y += 6;
+  doc.setTextColor(...TEXT_MUTED);
+  doc.text(noticeLines, MARGIN, y);
+  if (options.agentName) {
+    y += noticeLines.length * 3 + 5;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.setTextColor(...TEXT_DARK);
+    doc.text(pdfText(`Votre conseiller : ${options.agentName}`), MARGIN, y);
+  }
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setDrawColor(226, 232, 240);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, PAGE_H - 10, PAGE_W - MARGIN, PAGE_H - 10);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(...TEXT_MUTED);
+    doc.text(pdfText(organization?.name ?? ''), MARGIN, PAGE_H - 6);
+    doc.text(`Page ${i} / ${pageCount}`, PAGE_W - MARGIN, PAGE_H - 6, { align: 'right' });
+  }
+
+  return doc;
+}
+
+export function getValuationFileName(property: Property): string {
+  return `avis-de-valeur-${slugifyFileName(property.mandate_number || property.title || property.id)}.pdf`;
+}
@@ -0,0 +1,104 @@
+/**
+ * Loi Climat et Résilience — rental ban forecast
+ * Housing classed G, then F, then E can no longer be let (new leases,
+ * renewals and tacit renewals) from the following milestones.
+ */
+
+import type { Tables } from '@/integrations/supabase/types';
+import { normalizeDpeLabel, type DpeClass } from '@/lib/pdf-utils';
+
+type Property = Pick<
+  Tables<'properties'>,
+  'id' | 'title' | 'address' | 'city' | 'dpe_label' | 'transaction_type' | 'status' | 'contact_id'
+>;
+
+export interface RentalBanMilestone {
+  dpe: DpeClass;
+  date: string;
+  label: string;
+}
+
+export const RENTAL_BAN_MILESTONES: RentalBanMilestone[] = [
+  { dpe: 'G', date: '2025-01-01', label: '1er janvier 2025' },
+  { dpe: 'F', date: '2028-01-01', label: '1er janvier 2028' },
+  { dpe: 'E', date: '2034-01-01', label: '1er janvier 2034' },
+];
+
+export interface RentalBanEntry<P extends Property = Property> {
+  property: P;
+  /** Owner contact: the property's seller contact, else the landlord of its lease */
+  ownerId: string | null;
+}
+
+export interface RentalBanGroup<P extends Property = Property> {
+  milestone: RentalBanMilestone;
+  isPast: boolean;
+  entries: RentalBanEntry<P>[];
+  ownerIds: string[];
+}
+
+export interface RentalBanForecast<P extends Property = Property> {
+  rentalCount: number;
+  groups: RentalBanGroup<P>[];
+  /** Rental properties without a DPE class: their exposure is unknown */
+  unknownDpe: RentalBanEntry<P>[];
+}
+
+export function getRentalBanMilestone(dpeLabel: string | null | undefined): RentalBanMilestone | null {
+  const dpe = normalizeDpeLabel(dpeLabel);
+  return RENTAL_BAN_MILESTONES.find((milestone) => milestone.dpe === dpe) ?? null;
+}
+
+export function isRentalBanned(dpeLabel: string | null | undefined, at = new Date()): boolean {
+  const milestone = getRentalBanMilestone(dpeLabel);
+  return !!milestone && new Date(milestone.date) <= at;
+}
+
+/** Rental properties: let out, listed for rent, or with a lease on record */
+export function isRentalProperty(property: Property, leasedPropertyIds: Set<string>): boolean {
+  return property.transaction_type === 'location' || property.status === 'loue' || leasedPropertyIds.has(property.id);
+}
+
+export function buildRentalBanForecast<P extends Property>(
+  properties: P[],
+  leases: Pick<Tables<'leases'>, 'property_id' | 'owner_id'>[],
+  at = new Date()
+): RentalBanForecast<P> {
+  const leaseOwners = new Map<string, string | null>();
+  for (const lease of leases) {
+    if (lease.property_id && !leaseOwners.get(lease.property_id)) leaseOwners.set(lease.property_id, lease.owner_id);
+  }
+  const leasedIds = new Set(leaseOwners.keys());
+
+  const rentals = properties
+    .filter((property) => isRentalProperty(property, leasedIds))
+    .map((property) => ({ property, ownerId: property.contact_id ?? leaseOwners.get(property.id) ?? null }));
+
+  const groups = RENTAL_BAN_MILESTONES.map((milestone) => {
+    const entries = rentals.filter((entry) => normalizeDpeLabel(entry.property.dpe_label) === milestone.dpe);
+    return {
+      milestone,
+      isPast: new Date(milestone.date) <= at,
+      entries,
+      ownerIds: [...new Set(entries.map((entry) => entry.ownerId).filter((id): id is string => !!id))],
+    };
+  });
+
+  return {
+    rentalCount: rentals.length,
+    groups,
+    unknownDpe: rentals.filter((entry) => !normalizeDpeLabel(entry.property.dpe_label)),
+  };
+}
+
+/** Prospecting call suggesting the owner sells before (or since) the ban */
+export function getSaleProspectingActivity(property: Property, milestone: RentalBanMilestone, at = new Date()) {
+  const since = new Date(milestone.date) <= at;
+  const place = property.title || property.address || 'bien';
+  return {
+    name: `Proposer la vente – ${place}`,
+    description: since
+      ? `Bien classé ${milestone.dpe} : interdit à la location depuis le ${milestone.label}. Proposer une estimation en vue de la vente.`
+      : `Bien classé ${milestone.dpe} : interdit à la location à partir du ${milestone.label}. Proposer une estimation en vue de la vente avant l'échéance.`,
+  };
+}
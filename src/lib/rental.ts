@@ -0,0 +1,104 @@
+/**
+ * Rental Management
+ * Lease durations, rent revision dates, rent control check and lease-end alerts
+ */
+
+import { addMonths, addYears, differenceInDays, format, startOfDay } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { LEASE_END_WARNING_DAYS } from '@/lib/constants';
+
+type Property = Tables<'properties'>;
+type Lease = Tables<'leases'>;
+
+// Loi du 6 juillet 1989: 3 years for an unfurnished lease, 1 year when furnished
+export const LEASE_DURATION_MONTHS = { unfurnished: 36, furnished: 12 } as const;
+
+// Loi du 6 juillet 1989: deposit capped at 1 month (unfurnished) or 2 months (furnished) of rent excluding charges
+export const MAX_DEPOSIT_MONTHS = { unfurnished: 1, furnished: 2 } as const;
+
+export interface ExpiringLease<L extends Lease = Lease> {
+  lease: L;
+  daysLeft: number;
+}
+
+export interface RentControlCheck {
+  rentPerM2: number;
+  referenceRentM2: number;
+  maxRent: number;
+  exceeds: boolean;
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/** Legal end date of a lease starting on `startDate` (yyyy-MM-dd) */
+export function getDefaultLeaseEndDate(startDate: string, isFurnished: boolean): string {
+  const months = isFurnished ? LEASE_DURATION_MONTHS.furnished : LEASE_DURATION_MONTHS.unfurnished;
+  return toDateString(addMonths(new Date(startDate), months));
+}
+
+/** Rent is revised once a year, on the lease anniversary by default */
+export function getDefaultIndexationDate(startDate: string): string {
+  return toDateString(addYears(new Date(startDate), 1));
+}
+
+export function getMaxDeposit(rent: number, isFurnished: boolean): number {
+  return rent * (isFurnished ? MAX_DEPOSIT_MONTHS.furnished : MAX_DEPOSIT_MONTHS.unfurnished);
+}
+
+/**
+ * Compares the rent excluding charges with the rent control ceiling.
+ * Returns null when the property has no reference rent or surface.
+ */
+export function checkRentControl(property: Pick<Property, 'price' | 'surface' | 'reference_rent_m2'>): RentControlCheck | null {
+  if (!property.reference_rent_m2 || !property.surface || !property.price) return null;
+  const maxRent = Math.round(property.reference_rent_m2 * property.surface * 100) / 100;
+  return {
+    rentPerM2: Math.round((property.price / property.surface) * 100) / 100,
+    referenceRentM2: property.reference_rent_m2,
+    maxRent,
+    exceeds: property.price > maxRent,
+  };
+}
+
+/** Days until the lease ends (negative once past) */
+export function getLeaseDaysLeft(lease: Pick<Lease, 'end_date'>, today: Date = new Date()): number {
+  return differenceInDays(startOfDay(new Date(lease.end_date)), startOfDay(today));
+}
+
+/** The active lease of a property, if any (most recent start first) */
+export function getCurrentLease<L extends Lease>(leases: L[]): L | null {
+  return [...leases]
+    .filter((l) => l.status === 'actif')
+    .sort((a, b) => b.start_date.localeCompare(a.start_date))[0] ?? null;
+}
+
+/**
+ * Active leases ending within the warning window (or already past their end date)
+ */
+export function getUpcomingLeaseEnds<L extends Lease>(
+  leases: L[],
+  today: Date = new Date(),
+  windowDays = LEASE_END_WARNING_DAYS
+): ExpiringLease<L>[] {
+  return leases
+    .filter((l) => l.status === 'actif')
+    .map((lease) => ({ lease, daysLeft: getLeaseDaysLeft(lease, today) }))
+    .filter((l) => l.daysLeft <= windowDays)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+}
+
+/** Rental columns to save; cleared when the property is not for rent */
+export function toRentalColumns(
+  transactionType: string | null | undefined,
+  values: { rent_charges?: number | null; security_deposit?: number | null; is_furnished?: boolean; reference_rent_m2?: number | null }
+) {
+  if (transactionType !== 'location') {
+    return { rent_charges: null, security_deposit: null, is_furnished: false, reference_rent_m2: null };
+  }
+  return {
+    rent_charges: values.rent_charges ?? null,
+    security_deposit: values.security_deposit ?? null,
+    is_furnished: values.is_furnished ?? false,
+    reference_rent_m2: values.reference_rent_m2 ?? null,
+  };
+}
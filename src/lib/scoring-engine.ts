@@ -1,9 +1,11 @@
 /**
  * Lead Scoring Engine
- * Heuristic-based scoring system to prioritize contacts by business potential
+ * Rule-based scoring system to prioritize contacts by business potential,
+ * driven by the organization's scoring model (see scoring-model.ts)
  */
 
 import type { Tables } from '@/integrations/supabase/types';
+import { DEFAULT_SCORING_MODEL, type ScoringCondition, type ScoringModel } from '@/lib/scoring-model';
 
 type Contact = Tables<'contacts'>;
 type Activity = Tables<'activities'>;
@@ -35,158 +37,147 @@ interface ContactSearch {
   cities?: string[] | null;
 }
 
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+type FieldValue = string | number | boolean | string[] | null | undefined;
+
+function isFilled(value: FieldValue): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+function sameText(a: unknown, b: unknown): boolean {
+  return String(a).trim().toLowerCase() === String(b).trim().toLowerCase();
+}
+
+function daysSince(date: string, now: Date): number {
+  return Math.floor((now.getTime() - new Date(date).getTime()) / DAY_MS);
+}
+
+/** Value of an activity measure over the contact's activities, null when it cannot be measured */
+function measureActivities(condition: ScoringCondition, activities: Activity[], now: Date): number | null {
+  const filter = condition.activity_filter;
+  const measured = filter
+    ? activities.filter((a) => sameText((a as Record<string, unknown>)[filter.field] ?? '', filter.value))
+    : activities;
+
+  switch (condition.field) {
+    case 'count':
+      return measured.length;
+    case 'days_since_last': {
+      const dates = measured.filter((a) => a.date).map((a) => new Date(a.date!).getTime());
+      return dates.length > 0 ? daysSince(new Date(Math.max(...dates)).toISOString(), now) : null;
+    }
+    case 'upcoming':
+      return measured.filter((a) => a.date && new Date(a.date) > now && a.status !== 'termine' && a.status !== 'annule').length;
+    default:
+      return null;
+  }
+}
+
+function matchesCondition(condition: ScoringCondition, value: FieldValue, now: Date): boolean {
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'filled':
+      return isFilled(value);
+    case 'empty':
+      return !isFilled(value);
+    case 'eq':
+      if (value === null || value === undefined || expected === undefined) return false;
+      return typeof value === 'number' ? value === Number(expected) : sameText(value, expected);
+    case 'neq':
+      return !isFilled(value) || !sameText(value, expected);
+    case 'in': {
+      const options = Array.isArray(expected) ? expected : String(expected ?? '').split(',');
+      return isFilled(value) && options.some((option) => sameText(option, value));
+    }
+    case 'contains': {
+      const needle = String(expected ?? '').trim().toLowerCase();
+      if (!needle) return false;
+      if (Array.isArray(value)) return value.some((item) => item.toLowerCase() === needle);
+      return typeof value === 'string' && value.toLowerCase().includes(needle);
+    }
+    case 'gte':
+      return typeof value === 'number' && value >= Number(expected);
+    case 'lte':
+      return typeof value === 'number' && value <= Number(expected);
+    case 'within_days':
+      return typeof value === 'string' && isFilled(value) && daysSince(value, now) <= Number(expected);
+    case 'older_than_days':
+      return typeof value === 'string' && isFilled(value) && daysSince(value, now) > Number(expected);
+    default:
+      return false;
+  }
+}
+
 /**
- * Calculate lead score based on profile completeness, engagement, and pipeline status
+ * Calculate lead score from the organization's scoring model
  * @param contact - The contact to score
  * @param activities - Activities related to this contact
- * @param searchCriteria - Optional search criteria for the contact
+ * @param searchCriteria - Optional active search of the contact
+ * @param model - Scoring model, the organization's one from useScoringModel()
  * @returns LeadScoreResult with score, temperature, and reasons
  */
 export function calculateLeadScore(
   contact: Contact,
   activities: Activity[] = [],
-  searchCriteria?: ContactSearch | null
+  searchCriteria?: ContactSearch | null,
+  model: ScoringModel = DEFAULT_SCORING_MODEL
 ): LeadScoreResult {
   const reasons: string[] = [];
   const criteria: ScoringCriterion[] = [];
-  let profileScore = 0;
-  let engagementScore = 0;
-  let pipelineScore = 0;
-
-  function addCriterion(label: string, points: number, category: ScoringCriterion['category']) {
-    criteria.push({ label, points, category });
-    if (points > 0) reasons.push(label);
-  }
-
-  // ========== PROFILE COMPLETENESS (30 points max) ==========
-
-  // Phone (+10)
-  if (contact.phone && contact.phone.trim().length > 0) {
-    profileScore += 10;
-    addCriterion('Téléphone renseigné', 10, 'profile');
-  }
-
-  // Email (+10)
-  if (contact.email && contact.email.trim().length > 0) {
-    profileScore += 10;
-    addCriterion('Email renseigné', 10, 'profile');
-  }
-
-  // Budget defined via search criteria (+10)
-  if (searchCriteria?.budget_max || searchCriteria?.budget_min) {
-    profileScore += 10;
-    addCriterion('Budget défini', 10, 'profile');
-  } else {
-    addCriterion('Pas de budget renseigné', -5, 'profile');
-  }
-
-  // ========== ENGAGEMENT (40 points max) ==========
+  const breakdown = { profile: 0, engagement: 0, pipeline: 0 };
 
   const now = new Date();
   const contactActivities = activities.filter(a => a.contact_id === contact.id);
+  const firedGroups = new Set<string>();
 
-  // Find last activity date
-  const sortedActivities = [...contactActivities].sort(
-    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-  );
-  const lastActivity = sortedActivities[0];
-
-  if (lastActivity) {
-    const lastActivityDate = new Date(lastActivity.date);
-    const daysSinceActivity = Math.floor(
-      (now.getTime() - lastActivityDate.getTime()) / (1000 * 60 * 60 * 24)
-    );
-
-    // Last activity < 7 days (+15)
-    if (daysSinceActivity < 7) {
-      engagementScore += 15;
-      addCriterion('Actif récemment', 15, 'engagement');
-    }
-    // Last activity < 30 days (+5)
-    else if (daysSinceActivity < 30) {
-      engagementScore += 5;
-      addCriterion('Contacté ce mois', 5, 'engagement');
-    } else {
-      addCriterion('Inactif depuis 30j+', -10, 'engagement');
-    }
-  } else {
-    addCriterion('Aucune interaction', -10, 'engagement');
-  }
-
-  // Has > 3 total activities (+15)
-  if (contactActivities.length > 3) {
-    engagementScore += 15;
-    addCriterion(`${contactActivities.length} interactions`, 15, 'engagement');
-  } else if (contactActivities.length > 0) {
-    engagementScore += 5;
-    addCriterion(`${contactActivities.length} interaction(s)`, 5, 'engagement');
-  }
-
-  // Has a future task planned (+10)
-  const futureTasks = contactActivities.filter(a => {
-    const activityDate = new Date(a.date);
-    return activityDate > now && a.status !== 'termine' && a.status !== 'annule';
-  });
-
-  if (futureTasks.length > 0) {
-    engagementScore += 10;
-    addCriterion('Relance planifiée', 10, 'engagement');
-  } else {
-    addCriterion('Pas de relance prévue', -5, 'engagement');
-  }
-
-  // ========== PIPELINE STATUS (30 points max) ==========
-
-  const stage = contact.pipeline_stage;
-
-  // Stage = "Nouveau" (freshness) (+10)
-  if (stage === 'nouveau') {
-    pipelineScore += 10;
-    addCriterion('Lead récent', 10, 'pipeline');
-  }
-
-  // Stage = "Visite" (high intent) (+20)
-  if (stage === 'visite') {
-    pipelineScore += 20;
-    addCriterion('Visite réalisée', 20, 'pipeline');
-  }
-
-  // Advanced stages
-  if (stage === 'offre' || stage === 'negociation') {
-    pipelineScore += 25;
-    addCriterion('En négociation', 25, 'pipeline');
-  }
-
-  if (stage === 'compromis' || stage === 'financement') {
-    pipelineScore += 15;
-    addCriterion('Dossier avancé', 15, 'pipeline');
+  function addCriterion(label: string, points: number, category: ScoringCriterion['category']) {
+    criteria.push({ label, points, category });
+    if (points > 0) reasons.push(label);
+    if (points > 0 || model.apply_penalties) breakdown[category] += points;
   }
 
-  // Project defined (search criteria present) (+10)
-  if (searchCriteria) {
-    const hasSearchCriteria =
-      searchCriteria.budget_max ||
-      searchCriteria.property_types?.length ||
-      searchCriteria.cities?.length;
-
-    if (hasSearchCriteria) {
-      pipelineScore += 10;
-      addCriterion('Projet défini', 10, 'pipeline');
+  for (const rule of model.rules) {
+    if (rule.group && firedGroups.has(rule.group)) continue;
+
+    let measuredValue: number | null = null;
+    const results = rule.conditions.map((condition) => {
+      let value: FieldValue;
+      if (condition.source === 'activities') {
+        value = measureActivities(condition, contactActivities, now);
+        measuredValue ??= value;
+      } else {
+        const record = condition.source === 'contact' ? contact : searchCriteria;
+        value = record ? ((record as unknown as Record<string, FieldValue>)[condition.field]) : undefined;
+      }
+      return matchesCondition(condition, value, now);
+    });
+    const matched = results.length > 0 && (rule.match === 'any' ? results.some(Boolean) : results.every(Boolean));
+
+    if (matched) {
+      if (rule.group) firedGroups.add(rule.group);
+      addCriterion(rule.label.replace('{n}', String(measuredValue ?? '')), rule.points, rule.category);
+    } else if (!rule.group && rule.otherwise) {
+      addCriterion(rule.otherwise.label, rule.otherwise.points, rule.category);
     }
   }
 
   // ========== CALCULATE FINAL SCORE ==========
   
-  const totalScore = Math.min(100, profileScore + engagementScore + pipelineScore);
+  const totalScore = Math.max(0, Math.min(100, breakdown.profile + breakdown.engagement + breakdown.pipeline));
   
   // Determine temperature
   let temperature: 'cold' | 'warm' | 'hot';
   let color: string;
   
-  if (totalScore >= 70) {
+  if (totalScore >= model.hot_threshold) {
     temperature = 'hot';
     color = 'text-error';
-  } else if (totalScore >= 30) {
+  } else if (totalScore >= model.warm_threshold) {
     temperature = 'warm';
     color = 'text-warning';
   } else {
@@ -200,11 +191,7 @@ export function calculateLeadScore(
     color,
     reasons: reasons.slice(0, 5), // Max 5 reasons
     criteria,
-    breakdown: {
-      profile: profileScore,
-      engagement: engagementScore,
-      pipeline: pipelineScore,
-    },
+    breakdown,
   };
 }
 
@@ -235,9 +222,9 @@ export function getTemperatureBadgeClasses(temperature: 'cold' | 'warm' | 'hot')
 /**
  * Get score color classes for progress/gauge
  */
-export function getScoreColorClasses(score: number): string {
-  if (score >= 70) return 'from-error to-warning';
-  if (score >= 30) return 'from-warning to-primary';
+export function getScoreColorClasses(score: number, model: ScoringModel = DEFAULT_SCORING_MODEL): string {
+  if (score >= model.hot_threshold) return 'from-error to-warning';
+  if (score >= model.warm_threshold) return 'from-warning to-primary';
   return 'from-info to-primary';
 }
 
@@ -247,18 +234,21 @@ export function getScoreColorClasses(score: number): string {
 export function sortContactsByScore(
   contacts: Contact[],
   activitiesMap: Map<string, Activity[]>,
-  searchesMap?: Map<string, ContactSearch>
+  searchesMap?: Map<string, ContactSearch>,
+  model: ScoringModel = DEFAULT_SCORING_MODEL
 ): Contact[] {
   return [...contacts].sort((a, b) => {
     const scoreA = calculateLeadScore(
       a,
       activitiesMap.get(a.id) || [],
-      searchesMap?.get(a.id)
+      searchesMap?.get(a.id),
+      model
     ).score;
     const scoreB = calculateLeadScore(
       b,
       activitiesMap.get(b.id) || [],
-      searchesMap?.get(b.id)
+      searchesMap?.get(b.id),
+      model
     ).score;
     return scoreB - scoreA;
   });
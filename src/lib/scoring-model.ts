@@ -0,0 +1,309 @@
+/**
+ * Lead scoring model
+ * The weights used by calculateLeadScore, stored per organization in
+ * organizations.settings.lead_scoring. A model is a list of rules: each rule
+ * awards points when its conditions over the contact, its active search or its
+ * activities are met. DEFAULT_SCORING_MODEL reproduces the historical scoring.
+ */
+
+import {
+  ACTIVITY_PRIORITIES,
+  ACTIVITY_PRIORITY_LABELS,
+  ACTIVITY_STATUSES,
+  ACTIVITY_STATUS_LABELS,
+  ACTIVITY_TYPES,
+  ACTIVITY_TYPE_LABELS,
+  CONTACT_ROLES,
+  CONTACT_ROLE_LABELS,
+  PIPELINE_STAGES,
+  PIPELINE_STAGE_LABELS,
+  PROPERTY_TYPES,
+  PROPERTY_TYPE_LABELS,
+  TRANSACTION_TYPES,
+  TRANSACTION_TYPE_LABELS,
+} from '@/lib/constants';
+import type { OrgSettings } from '@/types/settings';
+
+export type ScoringCategory = 'profile' | 'engagement' | 'pipeline';
+export type ScoringSource = 'contact' | 'search' | 'activities';
+export type ScoringOperator =
+  | 'filled'
+  | 'empty'
+  | 'eq'
+  | 'neq'
+  | 'in'
+  | 'contains'
+  | 'gte'
+  | 'lte'
+  | 'within_days'
+  | 'older_than_days';
+
+export interface ScoringCondition {
+  source: ScoringSource;
+  /** contacts or contact_searches column, or an activity measure (see ACTIVITY_MEASURES) */
+  field: string;
+  operator: ScoringOperator;
+  value?: string | number | string[];
+  /** Activities only: measure only the activities having this value, e.g. type = visite */
+  activity_filter?: { field: string; value: string };
+}
+
+export interface ScoringRule {
+  id: string;
+  /** "{n}" is replaced by the measured activity value */
+  label: string;
+  category: ScoringCategory;
+  points: number;
+  conditions: ScoringCondition[];
+  /** How conditions combine, default 'all' */
+  match?: 'all' | 'any';
+  /** Rules sharing a group are exclusive tiers: only the first matching one counts */
+  group?: string;
+  /** Ungrouped rules only: signal shown (and scored with apply_penalties) when the rule does not match */
+  otherwise?: { label: string; points: number };
+}
+
+export interface ScoringModel {
+  rules: ScoringRule[];
+  hot_threshold: number;
+  warm_threshold: number;
+  /** Negative points lower the score; when false they are only shown as missing signals */
+  apply_penalties: boolean;
+}
+
+// ========== FIELD CATALOG ==========
+
+export type ScoringFieldKind = 'text' | 'number' | 'date' | 'list' | 'enum';
+
+export interface ScoringField {
+  key: string;
+  label: string;
+  kind: ScoringFieldKind;
+  options?: { value: string; label: string }[];
+}
+
+const toOptions = <T extends string>(values: readonly T[], labels: Record<T, string>) =>
+  values.map((value) => ({ value, label: labels[value] }));
+
+export const SCORING_SOURCE_LABELS: Record<ScoringSource, string> = {
+  contact: 'Contact',
+  search: 'Recherche active',
+  activities: 'Activités',
+};
+
+export const SCORING_CATEGORY_LABELS: Record<ScoringCategory, string> = {
+  profile: 'Profil',
+  engagement: 'Engagement',
+  pipeline: 'Pipeline',
+};
+
+export const SCORING_FIELDS: Record<ScoringSource, ScoringField[]> = {
+  contact: [
+    { key: 'phone', label: 'Téléphone', kind: 'text' },
+    { key: 'email', label: 'Email', kind: 'text' },
+    { key: 'address', label: 'Adresse', kind: 'text' },
+    { key: 'city', label: 'Ville', kind: 'text' },
+    { key: 'postal_code', label: 'Code postal', kind: 'text' },
+    { key: 'source', label: 'Source', kind: 'text' },
+    { key: 'notes', label: 'Notes', kind: 'text' },
+    { key: 'assigned_to', label: 'Agent attribué', kind: 'text' },
+    { key: 'role', label: 'Rôle', kind: 'enum', options: toOptions(CONTACT_ROLES, CONTACT_ROLE_LABELS) },
+    { key: 'pipeline_stage', label: 'Étape', kind: 'enum', options: toOptions(PIPELINE_STAGES, PIPELINE_STAGE_LABELS) },
+    { key: 'tags', label: 'Tags', kind: 'list' },
+    { key: 'urgency_score', label: 'Urgence', kind: 'number' },
+    { key: 'last_contact_date', label: 'Dernier contact', kind: 'date' },
+    { key: 'next_followup_date', label: 'Prochaine relance', kind: 'date' },
+    { key: 'created_at', label: 'Date de création', kind: 'date' },
+  ],
+  search: [
+    { key: 'transaction_type', label: 'Transaction', kind: 'enum', options: toOptions(TRANSACTION_TYPES, TRANSACTION_TYPE_LABELS) },
+    { key: 'budget_min', label: 'Budget min', kind: 'number' },
+    { key: 'budget_max', label: 'Budget max', kind: 'number' },
+    { key: 'property_types', label: 'Types de bien', kind: 'list', options: toOptions(PROPERTY_TYPES, PROPERTY_TYPE_LABELS) },
+    { key: 'cities', label: 'Villes', kind: 'list' },
+    { key: 'min_surface', label: 'Surface min', kind: 'number' },
+    { key: 'min_rooms', label: 'Pièces min', kind: 'number' },
+    { key: 'radius_km', label: 'Rayon (km)', kind: 'number' },
+    { key: 'must_have_amenities', label: 'Équipements requis', kind: 'list' },
+  ],
+  activities: [
+    { key: 'count', label: 'Nombre d\'activités', kind: 'number' },
+    { key: 'days_since_last', label: 'Jours depuis la dernière', kind: 'number' },
+    { key: 'upcoming', label: 'Activités à venir', kind: 'number' },
+  ],
+};
+
+/** Activity columns usable in ScoringCondition.activity_filter */
+export const ACTIVITY_FILTER_FIELDS: ScoringField[] = [
+  { key: 'type', label: 'Type', kind: 'enum', options: toOptions(ACTIVITY_TYPES, ACTIVITY_TYPE_LABELS) },
+  { key: 'status', label: 'Statut', kind: 'enum', options: toOptions(ACTIVITY_STATUSES, ACTIVITY_STATUS_LABELS) },
+  { key: 'priority', label: 'Priorité', kind: 'enum', options: toOptions(ACTIVITY_PRIORITIES, ACTIVITY_PRIORITY_LABELS) },
+];
+
+export const SCORING_OPERATOR_LABELS: Record<ScoringOperator, string> = {
+  filled: 'est renseigné',
+  empty: 'est vide',
+  eq: 'est égal à',
+  neq: 'est différent de',
+  in: 'est parmi',
+  contains: 'contient',
+  gte: '≥',
+  lte: '≤',
+  within_days: 'date de moins de (jours)',
+  older_than_days: 'date de plus de (jours)',
+};
+
+export const OPERATORS_BY_KIND: Record<ScoringFieldKind, ScoringOperator[]> = {
+  text: ['filled', 'empty', 'eq', 'neq', 'contains'],
+  number: ['gte', 'lte', 'eq', 'filled', 'empty'],
+  date: ['within_days', 'older_than_days', 'filled', 'empty'],
+  list: ['filled', 'empty', 'contains'],
+  enum: ['eq', 'neq', 'in', 'filled', 'empty'],
+};
+
+export function getScoringField(source: ScoringSource, key: string): ScoringField | undefined {
+  return SCORING_FIELDS[source].find((f) => f.key === key);
+}
+
+export function operatorNeedsValue(operator: ScoringOperator): boolean {
+  return operator !== 'filled' && operator !== 'empty';
+}
+
+// ========== DEFAULT MODEL ==========
+
+const activity = (field: string, operator: ScoringOperator, value: number): ScoringCondition => ({
+  source: 'activities',
+  field,
+  operator,
+  value,
+});
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  hot_threshold: 70,
+  warm_threshold: 30,
+  apply_penalties: false,
+  rules: [
+    // Profile completeness
+    {
+      id: 'phone',
+      label: 'Téléphone renseigné',
+      category: 'profile',
+      points: 10,
+      conditions: [{ source: 'contact', field: 'phone', operator: 'filled' }],
+    },
+    {
+      id: 'email',
+      label: 'Email renseigné',
+      category: 'profile',
+      points: 10,
+      conditions: [{ source: 'contact', field: 'email', operator: 'filled' }],
+    },
+    {
+      id: 'budget',
+      label: 'Budget défini',
+      category: 'profile',
+      points: 10,
+      match: 'any',
+      conditions: [
+        { source: 'search', field: 'budget_max', operator: 'filled' },
+        { source: 'search', field: 'budget_min', operator: 'filled' },
+      ],
+      otherwise: { label: 'Pas de budget renseigné', points: -5 },
+    },
+    // Engagement: recency tiers
+    { id: 'recent', label: 'Actif récemment', category: 'engagement', points: 15, group: 'recency', conditions: [activity('days_since_last', 'lte', 6)] },
+    { id: 'this_month', label: 'Contacté ce mois', category: 'engagement', points: 5, group: 'recency', conditions: [activity('days_since_last', 'lte', 29)] },
+    { id: 'inactive', label: 'Inactif depuis 30j+', category: 'engagement', points: -10, group: 'recency', conditions: [activity('days_since_last', 'gte', 30)] },
+    { id: 'no_activity', label: 'Aucune interaction', category: 'engagement', points: -10, group: 'recency', conditions: [activity('count', 'eq', 0)] },
+    // Engagement: volume tiers
+    { id: 'many_activities', label: '{n} interactions', category: 'engagement', points: 15, group: 'volume', conditions: [activity('count', 'gte', 4)] },
+    { id: 'some_activities', label: '{n} interaction(s)', category: 'engagement', points: 5, group: 'volume', conditions: [activity('count', 'gte', 1)] },
+    {
+      id: 'followup',
+      label: 'Relance planifiée',
+      category: 'engagement',
+      points: 10,
+      conditions: [activity('upcoming', 'gte', 1)],
+      otherwise: { label: 'Pas de relance prévue', points: -5 },
+    },
+    // Pipeline
+    { id: 'stage_new', label: 'Lead récent', category: 'pipeline', points: 10, group: 'stage', conditions: [{ source: 'contact', field: 'pipeline_stage', operator: 'eq', value: 'nouveau' }] },
+    { id: 'stage_visit', label: 'Visite réalisée', category: 'pipeline', points: 20, group: 'stage', conditions: [{ source: 'contact', field: 'pipeline_stage', operator: 'eq', value: 'visite' }] },
+    { id: 'stage_negotiation', label: 'En négociation', category: 'pipeline', points: 25, group: 'stage', conditions: [{ source: 'contact', field: 'pipeline_stage', operator: 'in', value: ['offre', 'negociation'] }] },
+    { id: 'stage_advanced', label: 'Dossier avancé', category: 'pipeline', points: 15, group: 'stage', conditions: [{ source: 'contact', field: 'pipeline_stage', operator: 'in', value: ['compromis', 'financement'] }] },
+    {
+      id: 'project',
+      label: 'Projet défini',
+      category: 'pipeline',
+      points: 10,
+      match: 'any',
+      conditions: [
+        { source: 'search', field: 'budget_max', operator: 'filled' },
+        { source: 'search', field: 'property_types', operator: 'filled' },
+        { source: 'search', field: 'cities', operator: 'filled' },
+      ],
+    },
+  ],
+};
+
+/** Active model of the organization, the default one until an admin saves their own */
+export function getScoringModel(settings: OrgSettings | null | undefined): ScoringModel {
+  const model = settings?.lead_scoring;
+  if (!model || !Array.isArray(model.rules)) return DEFAULT_SCORING_MODEL;
+  return {
+    rules: model.rules,
+    hot_threshold: model.hot_threshold ?? DEFAULT_SCORING_MODEL.hot_threshold,
+    warm_threshold: model.warm_threshold ?? DEFAULT_SCORING_MODEL.warm_threshold,
+    apply_penalties: model.apply_penalties ?? DEFAULT_SCORING_MODEL.apply_penalties,
+  };
+}
+
+/** Highest reachable points per category: the best tier of each group plus every other positive rule */
+export function getCategoryMaxPoints(model: ScoringModel): Record<ScoringCategory, number> {
+  const max: Record<ScoringCategory, number> = { profile: 0, engagement: 0, pipeline: 0 };
+  const bestByGroup = new Map<string, { category: ScoringCategory; points: number }>();
+
+  model.rules.forEach((rule) => {
+    if (rule.points <= 0) return;
+    if (!rule.group) {
+      max[rule.category] += rule.points;
+      return;
+    }
+    const best = bestByGroup.get(rule.group);
+    if (!best || rule.points > best.points) bestByGroup.set(rule.group, { category: rule.category, points: rule.points });
+  });
+  bestByGroup.forEach(({ category, points }) => {
+    max[category] += points;
+  });
+
+  return max;
+}
+
+export function createScoringRule(): ScoringRule {
+  return {
+    id: `rule_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    label: '',
+    category: 'profile',
+    points: 10,
+    conditions: [{ source: 'contact', field: 'phone', operator: 'filled' }],
+  };
+}
+
+/** First problem preventing the model from being saved, null when it is valid */
+export function validateScoringModel(model: ScoringModel): string | null {
+  if (model.warm_threshold < 0 || model.hot_threshold > 100 || model.warm_threshold >= model.hot_threshold) {
+    return 'Les seuils doivent vérifier 0 ≤ tiède < chaud ≤ 100';
+  }
+  for (const rule of model.rules) {
+    const name = rule.label.trim();
+    if (!name) return 'Chaque règle doit avoir un libellé';
+    if (rule.conditions.length === 0) return `« ${name} » n'a aucune condition`;
+    const missingValue = rule.conditions.some((c) => {
+      if (!operatorNeedsValue(c.operator)) return false;
+      if (Array.isArray(c.value)) return c.value.length === 0;
+      return c.value === undefined || c.value === '' || (typeof c.value === 'number' && Number.isNaN(c.value));
+    });
+    if (missingValue) return `« ${name} » : une condition n'a pas de valeur`;
+  }
+  return null;
+}
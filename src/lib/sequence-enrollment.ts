@@ -0,0 +1,56 @@
+/**
+ * Rows written when contacts join an email sequence: the enrollment itself,
+ * due at the first step, and one planned email activity per step so the
+ * sequence shows up in the agenda and the contact timeline.
+ */
+
+import type { TablesInsert } from '@/integrations/supabase/types';
+import type { SequenceStep } from '@/lib/email-templates';
+
+export interface EnrollableSequence {
+  id: string;
+  name: string;
+  steps: SequenceStep[];
+}
+
+function daysFromNow(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString();
+}
+
+export function buildSequenceEnrollments(
+  sequence: EnrollableSequence,
+  contactIds: string[],
+  organizationId: string
+): TablesInsert<'sequence_enrollments'>[] {
+  const nextSendAt = daysFromNow(sequence.steps[0]?.delay_days || 0);
+  return contactIds.map((contactId) => ({
+    sequence_id: sequence.id,
+    contact_id: contactId,
+    organization_id: organizationId,
+    current_step: 0,
+    status: 'active',
+    next_send_at: nextSendAt,
+  }));
+}
+
+export function buildSequenceActivities(
+  sequence: EnrollableSequence,
+  contactIds: string[],
+  organizationId: string
+): TablesInsert<'activities'>[] {
+  return contactIds.flatMap((contactId) =>
+    sequence.steps.map((step) => ({
+      organization_id: organizationId,
+      name: `📧 ${step.subject}`,
+      description: `Email automatique de la séquence "${sequence.name}"`,
+      type: 'email' as const,
+      status: 'planifie' as const,
+      priority: 'normale' as const,
+      date: daysFromNow(step.delay_days),
+      contact_id: contactId,
+      ai_generated: true,
+    }))
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * Viager calculator
+ * Occupancy discount (droit d'usage et d'habitation), bouquet / rente split and
+ * buyer cost, based on the residual life expectancy of the seller(s)
+ */
+
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { formatCurrency } from '@/lib/formatters';
+import type { ViagerOccupancy } from '@/lib/constants';
+
+type Property = Tables<'properties'>;
+
+export type SellerSex = 'F' | 'M';
+
+/** One entry of properties.viager_sellers */
+export interface ViagerSeller {
+  age: number;
+  sex: SellerSex;
+}
+
+export const SELLER_SEX_LABELS: Record<SellerSex, string> = {
+  F: 'Femme',
+  M: 'Homme',
+};
+
+// Residual life expectancy in years by age, INSEE mortality tables (rounded).
+// Ages in between are interpolated; ages outside the range are clamped.
+const LIFE_EXPECTANCY_TABLE: Record<SellerSex, [number, number][]> = {
+  F: [
+    [40, 45.6], [45, 40.8], [50, 36.1], [55, 31.5], [60, 27.0], [65, 22.8], [70, 18.7],
+    [75, 14.8], [80, 11.1], [85, 7.9], [90, 5.2], [95, 3.4], [100, 2.2],
+  ],
+  M: [
+    [40, 40.4], [45, 35.7], [50, 31.2], [55, 26.9], [60, 22.8], [65, 19.0], [70, 15.4],
+    [75, 12.0], [80, 8.9], [85, 6.3], [90, 4.3], [95, 2.9], [100, 2.0],
+  ],
+};
+
+// Annual technical rate used to discount the rente and the occupancy
+export const VIAGER_TECHNICAL_RATE = 0.025;
+// Gross annual rental yield used to value the seller's right to stay (viager occupé)
+export const VIAGER_RENTAL_YIELD = 0.035;
+
+export interface ViagerCalculation {
+  lifeExpectancy: number; // years, longest of the heads
+  occupancyDiscount: number; // value of the droit d'usage et d'habitation, 0 when libre
+  occupancyDiscountPercent: number;
+  occupiedValue: number; // market value minus the occupancy discount
+  bouquet: number;
+  suggestedRente: number; // monthly rente converting the rest of the occupied value
+  rente: number | null; // monthly rente asked by the seller, if any
+  renteCapital: number | null; // present value of the asked rente
+  totalCost: number | null; // bouquet + present value of the asked rente
+  projectedCost: number | null; // bouquet + rente paid over the whole life expectancy, undiscounted
+}
+
+export function getLifeExpectancy(age: number, sex: SellerSex): number {
+  const table = LIFE_EXPECTANCY_TABLE[sex];
+  if (age <= table[0][0]) return table[0][1];
+  for (let i = 1; i < table.length; i++) {
+    const [age1, years1] = table[i];
+    if (age <= age1) {
+      const [age0, years0] = table[i - 1];
+      return years0 + ((years1 - years0) * (age - age0)) / (age1 - age0);
+    }
+  }
+  return table[table.length - 1][1];
+}
+
+/**
+ * On two heads the rente is paid until the last death: the longest life
+ * expectancy is retained.
+ */
+export function getHeadsLifeExpectancy(sellers: ViagerSeller[]): number | null {
+  if (sellers.length === 0) return null;
+  return Math.max(...sellers.map((s) => getLifeExpectancy(s.age, s.sex)));
+}
+
+/** Present value of 1 € paid monthly over `years`, at VIAGER_TECHNICAL_RATE */
+function monthlyAnnuityFactor(years: number): number {
+  const monthlyRate = Math.pow(1 + VIAGER_TECHNICAL_RATE, 1 / 12) - 1;
+  const months = years * 12;
+  return (1 - Math.pow(1 + monthlyRate, -months)) / monthlyRate;
+}
+
+export function getViagerSellers(property: Pick<Property, 'viager_sellers'>): ViagerSeller[] {
+  if (!Array.isArray(property.viager_sellers)) return [];
+  return (property.viager_sellers as unknown[]).filter(
+    (s): s is ViagerSeller =>
+      !!s && typeof s === 'object' &&
+      typeof (s as ViagerSeller).age === 'number' &&
+      ((s as ViagerSeller).sex === 'F' || (s as ViagerSeller).sex === 'M')
+  );
+}
+
+interface ViagerInput {
+  marketValue: number | null;
+  occupancy: ViagerOccupancy | string | null;
+  sellers: ViagerSeller[];
+  bouquet: number | null;
+  rente: number | null;
+}
+
+/**
+ * Returns null until the market value and at least one seller age are known.
+ */
+export function calculateViager({ marketValue, occupancy, sellers, bouquet, rente }: ViagerInput): ViagerCalculation | null {
+  const lifeExpectancy = getHeadsLifeExpectancy(sellers);
+  if (!marketValue || marketValue <= 0 || lifeExpectancy === null) return null;
+
+  const factor = monthlyAnnuityFactor(lifeExpectancy);
+  const occupancyDiscount = occupancy === 'occupe'
+    ? Math.min(marketValue, ((marketValue * VIAGER_RENTAL_YIELD) / 12) * factor)
+    : 0;
+  const occupiedValue = marketValue - occupancyDiscount;
+  const paidBouquet = bouquet ?? 0;
+  const suggestedRente = Math.max(0, occupiedValue - paidBouquet) / factor;
+
+  const renteCapital = rente != null ? rente * factor : null;
+
+  return {
+    lifeExpectancy,
+    occupancyDiscount: Math.round(occupancyDiscount),
+    occupancyDiscountPercent: Math.round((occupancyDiscount / marketValue) * 1000) / 10,
+    occupiedValue: Math.round(occupiedValue),
+    bouquet: paidBouquet,
+    suggestedRente: Math.round(suggestedRente),
+    rente,
+    renteCapital: renteCapital != null ? Math.round(renteCapital) : null,
+    totalCost: renteCapital != null ? Math.round(paidBouquet + renteCapital) : null,
+    projectedCost: rente != null ? Math.round(paidBouquet + rente * 12 * lifeExpectancy) : null,
+  };
+}
+
+export function calculatePropertyViager(property: Property): ViagerCalculation | null {
+  if (property.transaction_type !== 'viager') return null;
+  return calculateViager({
+    marketValue: property.price,
+    occupancy: property.viager_occupancy,
+    sellers: getViagerSellers(property),
+    bouquet: property.viager_bouquet,
+    rente: property.viager_rente,
+  });
+}
+
+/** Short "bouquet + rente" line for cards, e.g. "Bouquet 60 000 € + 900 €/mois · occupé" */
+export function formatViagerTerms(property: Pick<Property, 'viager_bouquet' | 'viager_rente' | 'viager_occupancy'>): string {
+  const parts: string[] = [];
+  if (property.viager_bouquet != null) parts.push(`Bouquet ${formatCurrency(property.viager_bouquet)}`);
+  if (property.viager_rente != null) parts.push(`${formatCurrency(property.viager_rente)}/mois`);
+  const terms = parts.length > 0 ? parts.join(' + ') : 'Bouquet et rente à définir';
+  return property.viager_occupancy ? `${terms} · ${property.viager_occupancy === 'occupe' ? 'occupé' : 'libre'}` : terms;
+}
+
+// ========== Form mapping ==========
+
+/** Flat viager fields shared by the property create and edit forms */
+export interface ViagerFormValues {
+  viager_occupancy?: ViagerOccupancy | null;
+  viager_bouquet?: number | null;
+  viager_rente?: number | null;
+  viager_seller1_age?: number | null;
+  viager_seller1_sex?: SellerSex | null;
+  viager_seller2_age?: number | null;
+  viager_seller2_sex?: SellerSex | null;
+}
+
+export function getViagerFormValues(property: Property): ViagerFormValues {
+  const [first, second] = getViagerSellers(property);
+  return {
+    viager_occupancy: (property.viager_occupancy as ViagerOccupancy | null) ?? null,
+    viager_bouquet: property.viager_bouquet,
+    viager_rente: property.viager_rente,
+    viager_seller1_age: first?.age ?? null,
+    viager_seller1_sex: first?.sex ?? null,
+    viager_seller2_age: second?.age ?? null,
+    viager_seller2_sex: second?.sex ?? null,
+  };
+}
+
+export function getSellersFromForm(values: ViagerFormValues): ViagerSeller[] {
+  const heads: [number | null | undefined, SellerSex | null | undefined][] = [
+    [values.viager_seller1_age, values.viager_seller1_sex],
+    [values.viager_seller2_age, values.viager_seller2_sex],
+  ];
+  // Sex not given: the female table (longer life expectancy) is the prudent default
+  return heads
+    .filter(([age]) => age != null && age > 0)
+    .map(([age, sex]) => ({ age: age as number, sex: sex ?? 'F' }));
+}
+
+/** Viager columns to save; cleared when the property is not a viager */
+export function toViagerColumns(transactionType: string | null | undefined, values: ViagerFormValues) {
+  if (transactionType !== 'viager') {
+    return { viager_occupancy: null, viager_bouquet: null, viager_rente: null, viager_sellers: null };
+  }
+  const sellers = getSellersFromForm(values);
+  return {
+    viager_occupancy: values.viager_occupancy ?? null,
+    viager_bouquet: values.viager_bouquet ?? null,
+    viager_rente: values.viager_rente ?? null,
+    viager_sellers: sellers.length > 0 ? (sellers as unknown as Json) : null,
+  };
+}
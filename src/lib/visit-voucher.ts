@@ -0,0 +1,229 @@
+/**
+ * Visit Voucher (bon de visite)
+ * Snapshot of a planned visit and the signed PDF that protects the agency's fees
+ */
+
+import { jsPDF } from 'jspdf';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { formatCurrency, formatDate, formatShortDate } from '@/lib/formatters';
+import {
+  BRAND_BLUE,
+  BRAND_VIOLET,
+  TEXT_DARK,
+  TEXT_MUTED,
+  drawImageContain,
+  loadImage,
+  pdfText,
+  slugifyFileName,
+} from '@/lib/pdf-utils';
+
+type Activity = Tables<'activities'>;
+type Contact = Tables<'contacts'>;
+type Property = Tables<'properties'>;
+type Mandate = Tables<'mandates'>;
+type Organization = Tables<'organizations'>;
+type VisitVoucher = Tables<'visit_vouchers'>;
+
+export interface VisitVoucherSource {
+  activity: Pick<Activity, 'id' | 'date' | 'contact_id' | 'property_id'>;
+  contact: Pick<Contact, 'full_name' | 'email' | 'phone'>;
+  property: Pick<Property, 'title' | 'address' | 'postal_code' | 'city' | 'price' | 'transaction_type'>;
+  mandate: Pick<Mandate, 'number' | 'fees'> | null;
+  agentName: string | null;
+}
+
+/** Width / height of the signature pad, reused to place the signature in the PDF */
+export const SIGNATURE_ASPECT_RATIO = 3;
+
+/**
+ * Why a voucher cannot be drawn up for this activity, or null when it can
+ */
+export function getVisitVoucherIssue(activity: Pick<Activity, 'type' | 'contact_id' | 'property_id' | 'date'>): string | null {
+  if (activity.type !== 'visite') return 'Le bon de visite concerne uniquement les visites.';
+  if (!activity.contact_id) return 'Associez un contact (le visiteur) à la visite.';
+  if (!activity.property_id) return 'Associez le bien visité à la visite.';
+  if (!activity.date) return 'Renseignez la date de la visite.';
+  return null;
+}
+
+/**
+ * Fee mention printed on the voucher, taken from the property's mandate when known
+ */
+export function getVisitFeeMention(
+  property: Pick<Property, 'transaction_type'>,
+  mandate: Pick<Mandate, 'number' | 'fees'> | null
+): string {
+  if (property.transaction_type === 'location') {
+    return 'Honoraires de location selon barème affiché en agence, à la signature du bail.';
+  }
+  if (mandate?.fees) {
+    return `Honoraires de l'agence : ${formatCurrency(mandate.fees)} TTC, conformément au mandat n°${mandate.number}, dus à la signature de l'acte authentique.`;
+  }
+  return "Honoraires de l'agence selon barème affiché en agence, dus à la signature de l'acte authentique.";
+}
+
+/**
+ * Columns of a new voucher: everything printed on the document is copied
+ * so the signed voucher does not change when the contact or listing does
+ */
+export function buildVisitVoucher(source: VisitVoucherSource): Omit<TablesInsert<'visit_vouchers'>, 'organization_id'> {
+  const { activity, contact, property, mandate } = source;
+  return {
+    activity_id: activity.id,
+    contact_id: activity.contact_id,
+    property_id: activity.property_id,
+    visitor_name: contact.full_name,
+    visitor_email: contact.email,
+    visitor_phone: contact.phone,
+    property_label: property.title,
+    property_address: [property.address, [property.postal_code, property.city].filter(Boolean).join(' ')].filter(Boolean).join(', ') || null,
+    property_price: property.price,
+    mandate_number: mandate?.number ?? null,
+    visit_date: activity.date ?? new Date().toISOString(),
+    fee_mention: getVisitFeeMention(property, mandate),
+    agent_name: source.agentName,
+  };
+}
+
+function formatVisitDate(date: string): string {
+  const d = new Date(date);
+  const time = d.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' });
+  return `${formatDate(d)} à ${time}`;
+}
+
+// ========== PDF ==========
+
+const PAGE_W = 210;
+const PAGE_H = 297;
+const MARGIN = 18;
+
+function drawSectionTitle(doc: jsPDF, title: string, y: number) {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(...BRAND_VIOLET);
+  doc.text(pdfText(title).toUpperCase(), MARGIN, y);
+}
+
+function drawFacts(doc: jsPDF, facts: { label: string; value: string | null | undefined }[], y: number): number {
+  doc.setFontSize(9.5);
+  facts
+    .filter((f) => f.value)
+    .forEach((f) => {
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...TEXT_MUTED);
+      doc.text(pdfText(f.label), MARGIN, y);
+      doc.setTextColor(...TEXT_DARK);
+      const lines = doc.splitTextToSize(pdfText(f.value), PAGE_W - MARGIN * 2 - 40) as string[];
+      doc.text(lines, MARGIN + 40, y);
+      y += lines.length * 4.5 + 1;
+    });
+  return y;
+}
+
+/**
+ * Bon de visite (A4 portrait), with the visitor's signature once signed
+ */
+export async function generateVisitVoucherPdf(voucher: VisitVoucher, organization: Organization | null): Promise<jsPDF> {
+  const logo = organization?.logo_url ? await loadImage(organization.logo_url, undefined, 'PNG') : null;
+  const agency = organization?.name ?? "l'agence";
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: pdfText(`Bon de visite — ${voucher.visitor_name}`), creator: 'SynaPilot' });
+
+  // Header
+  doc.setFillColor(...BRAND_BLUE);
+  doc.rect(0, 0, PAGE_W, 2, 'F');
+  if (logo) {
+    drawImageContain(doc, logo, MARGIN, 8, 40, 14, 'PNG');
+  } else {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.setTextColor(...BRAND_VIOLET);
+    doc.text(pdfText(agency), MARGIN, 17);
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.setTextColor(...TEXT_DARK);
+  doc.text('Bon de visite', PAGE_W - MARGIN, 15, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(...TEXT_MUTED);
+  doc.text(pdfText(`Établi le ${formatShortDate(voucher.created_at)}`), PAGE_W - MARGIN, 20, { align: 'right' });
+
+  let y = 38;
+  drawSectionTitle(doc, 'Visiteur', y);
+  y = drawFacts(doc, [
+    { label: 'Nom', value: voucher.visitor_name },
+    { label: 'Email', value: voucher.visitor_email },
+    { label: 'Téléphone', value: voucher.visitor_phone },
+  ], y + 7);
+
+  y += 5;
+  drawSectionTitle(doc, 'Bien visité', y);
+  y = drawFacts(doc, [
+    { label: 'Bien', value: voucher.property_label },
+    { label: 'Adresse', value: voucher.property_address },
+    { label: 'Prix', value: voucher.property_price ? formatCurrency(voucher.property_price) : null },
+    { label: 'Mandat', value: voucher.mandate_number ? `N°${voucher.mandate_number}` : null },
+    { label: 'Date de la visite', value: formatVisitDate(voucher.visit_date) },
+    { label: 'Conseiller', value: voucher.agent_name },
+  ], y + 7);
+
+  y += 5;
+  drawSectionTitle(doc, 'Honoraires', y);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9.5);
+  doc.setTextColor(...TEXT_DARK);
+  const feeLines = doc.splitTextToSize(pdfText(voucher.fee_mention), PAGE_W - MARGIN * 2) as string[];
+  doc.text(feeLines, MARGIN, y + 7);
+  y += 7 + feeLines.length * 4.5 + 6;
+
+  // Visitor's undertaking
+  const undertaking =
+    `Je soussigné(e) ${voucher.visitor_name} reconnais avoir visité le bien désigné ci-dessus, qui m'a été présenté par ${agency}. ` +
+    "Je m'engage à ne traiter l'acquisition ou la location de ce bien que par l'intermédiaire de l'agence, et à ne pas entrer en relation " +
+    "directement ou par un autre intermédiaire avec le propriétaire pour ce bien, pendant la durée du mandat et les douze mois qui suivent " +
+    "son expiration. À défaut, je serai redevable envers l'agence d'une indemnité égale au montant des honoraires mentionnés ci-dessus.";
+  doc.setFillColor(248, 250, 252);
+  const undertakingLines = doc.splitTextToSize(pdfText(undertaking), PAGE_W - MARGIN * 2 - 8) as string[];
+  const boxH = undertakingLines.length * 4.5 + 6;
+  doc.rect(MARGIN, y, PAGE_W - MARGIN * 2, boxH, 'F');
+  doc.setFontSize(9);
+  doc.text(undertakingLines, MARGIN + 4, y + 6);
+  y += boxH + 10;
+
+  // Signature
+  const sigW = 70;
+  const sigH = sigW / SIGNATURE_ASPECT_RATIO;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.setTextColor(...TEXT_DARK);
+  doc.text('Signature du visiteur', PAGE_W - MARGIN - sigW, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(...TEXT_MUTED);
+  doc.text(
+    pdfText(voucher.signed_at ? `Signé le ${formatVisitDate(voucher.signed_at)}` : 'Précédée de la mention « lu et approuvé »'),
+    PAGE_W - MARGIN - sigW,
+    y + 4.5
+  );
+  doc.setDrawColor(203, 213, 225);
+  doc.setLineWidth(0.2);
+  doc.rect(PAGE_W - MARGIN - sigW, y + 7, sigW, sigH);
+  if (voucher.signature) {
+    doc.addImage(voucher.signature, 'PNG', PAGE_W - MARGIN - sigW, y + 7, sigW, sigH);
+  }
+
+  // Footer
+  doc.setDrawColor(226, 232, 240);
+  doc.line(MARGIN, PAGE_H - 12, PAGE_W - MARGIN, PAGE_H - 12);
+  doc.setFontSize(7);
+  doc.setTextColor(...TEXT_MUTED);
+  doc.text(pdfText(organization?.name ?? ''), MARGIN, PAGE_H - 7);
+  doc.text(pdfText(`Réf. ${voucher.id.slice(0, 8)}`), PAGE_W - MARGIN, PAGE_H - 7, { align: 'right' });
+
+  return doc;
+}
+
+export function getVisitVoucherFileName(voucher: Pick<VisitVoucher, 'visitor_name' | 'visit_date'>): string {
+  return `bon-de-visite-${slugifyFileName(voucher.visitor_name)}-${voucher.visit_date.slice(0, 10)}.pdf`;
+}
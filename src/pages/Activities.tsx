@@ -73,6 +73,8 @@ import type { Tables } from '@/integrations/supabase/types';
 import { AIMessageGenerator } from '@/components/activities/AIMessageGenerator';
 import { ActivityListView } from '@/components/activities/ActivityListView';
 import { ActivityCalendarView } from '@/components/activities/ActivityCalendarView';
+import { VisitVoucherDialog } from '@/components/activities/VisitVoucherDialog';
+import { getVisitVoucherIssue } from '@/lib/visit-voucher';
 
 type Activity = Tables<'activities'> & {
   contacts?: { full_name: string } | null;
@@ -152,6 +154,7 @@ export default function Activities() {
   const [prefillData, setPrefillData] = useState<Partial<ActivityFormValues> | null>(null);
   const [showAIGenerator, setShowAIGenerator] = useState(false);
   const [aiGenerated, setAiGenerated] = useState(false);
+  const [voucherActivity, setVoucherActivity] = useState<Tables<'activities'> | null>(null);
   const queryClient = useQueryClient();
   const { organizationId, user } = useAuth();
   const nameInputRef = useRef<HTMLInputElement>(null);
@@ -260,7 +263,7 @@ export default function Activities() {
       const dateTime = new Date(values.date);
       dateTime.setHours(hours, minutes, 0, 0);
 
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('activities')
         .insert([{
           organization_id: organizationId,
@@ -274,13 +277,18 @@ export default function Activities() {
           property_id: values.property_id || null,
           assigned_to: user?.id || null,
           ai_generated: aiGenerated,
-        }]);
+        }])
+        .select()
+        .single();
 
       if (error) throw error;
+      return data;
     },
-    onSuccess: () => {
+    onSuccess: (activity) => {
       queryClient.invalidateQueries({ queryKey: activitiesQueryKey });
       setIsDialogOpen(false);
+      // A visit planned with its visitor and property gets its bon de visite straight away
+      if (!getVisitVoucherIssue(activity)) setVoucherActivity(activity);
       toast.success(aiGenerated ? 'Activité IA créée avec succès' : 'Activité créée avec succès');
     },
     onError: (error) => {
@@ -871,6 +879,15 @@ export default function Activities() {
           />
         </TabsContent>
       </Tabs>
+
+      {voucherActivity && (
+        <VisitVoucherDialog
+          activity={voucherActivity}
+          open={!!voucherActivity}
+          onOpenChange={(open) => !open && setVoucherActivity(null)}
+          autoCreate
+        />
+      )}
     </motion.div>
   );
 }
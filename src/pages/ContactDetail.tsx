@@ -51,8 +51,6 @@ import {
   Plus,
   Clock,
   MessageSquare,
-  Eye,
-  PhoneCall,
   FileText,
   Building,
   TrendingUp,
@@ -78,7 +76,11 @@ import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { AIMessageGenerator } from '@/components/activities/AIMessageGenerator';
 import { EditContactDialog } from '@/components/contacts/EditContactDialog';
+import { ContactSearchCard } from '@/components/contacts/ContactSearchCard';
 import { ContactAIConversation } from '@/components/contacts/ContactAIConversation';
+import { ContactGdprCard } from '@/components/contacts/ContactGdprCard';
+import { ContactRelationshipsCard } from '@/components/contacts/ContactRelationshipsCard';
+import { ContactTimeline } from '@/components/contacts/ContactTimeline';
 import { cn } from '@/lib/utils';
 import type { Tables } from '@/integrations/supabase/types';
 
@@ -142,44 +144,6 @@ function getStatusColor(priority: string | null) {
   return colors[priority || ''] || 'bg-muted text-muted-foreground';
 }
 
-function getActivityIcon(type: string) {
-  switch (type) {
-    case 'Call':
-      return <PhoneCall className="w-4 h-4" />;
-    case 'Email':
-      return <Mail className="w-4 h-4" />;
-    case 'SMS':
-      return <MessageSquare className="w-4 h-4" />;
-    case 'Meeting':
-      return <User className="w-4 h-4" />;
-    case 'Visite':
-      return <Eye className="w-4 h-4" />;
-    case 'Relance':
-      return <Clock className="w-4 h-4" />;
-    default:
-      return <FileText className="w-4 h-4" />;
-  }
-}
-
-function getActivityColor(type: string) {
-  switch (type) {
-    case 'Call':
-      return 'bg-green-500/20 text-green-400 border-green-500/30';
-    case 'Email':
-      return 'bg-blue-500/20 text-blue-400 border-blue-500/30';
-    case 'SMS':
-      return 'bg-purple-500/20 text-purple-400 border-purple-500/30';
-    case 'Meeting':
-      return 'bg-orange-500/20 text-orange-400 border-orange-500/30';
-    case 'Visite':
-      return 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30';
-    case 'Relance':
-      return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
-    default:
-      return 'bg-muted text-muted-foreground';
-  }
-}
-
 export default function ContactDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -209,7 +173,7 @@ export default function ContactDetail() {
   );
 
   // Fetch related activities
-  const { data: activities, isLoading: isLoadingActivities } = useOrgQuery<Activity[]>(
+  const { data: activities } = useOrgQuery<Activity[]>(
     'activities',
     {
       select: '*, profiles:assigned_to(full_name)',
@@ -598,15 +562,19 @@ export default function ContactDetail() {
             </div>
           </CardContent>
         </Card>
+
+          <ContactRelationshipsCard contactId={contact.id} />
+
+          <ContactGdprCard contact={contact} />
         </div>
 
-        {/* Section 2: Activités */}
+        {/* Section 2: Historique */}
         <Card className="border-border bg-card/50 lg:col-span-2">
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle className="text-base flex items-center gap-2">
                 <Clock className="w-4 h-4 text-primary" />
-                Activité
+                Historique
               </CardTitle>
               <Dialog open={isActivityDialogOpen} onOpenChange={handleDialogChange}>
                 <DialogTrigger asChild>
@@ -912,60 +880,7 @@ export default function ContactDetail() {
             </div>
           </CardHeader>
           <CardContent>
-            {isLoadingActivities ? (
-              <div className="space-y-4">
-                {[...Array(3)].map((_, i) => (
-                  <div key={i} className="flex gap-4">
-                    <Skeleton className="w-8 h-8 rounded-full" />
-                    <div className="flex-1 space-y-2">
-                      <Skeleton className="h-4 w-24" />
-                      <Skeleton className="h-3 w-full" />
-                    </div>
-                  </div>
-                ))}
-              </div>
-            ) : activities && activities.length > 0 ? (
-              <div className="relative">
-                {/* Timeline line */}
-                <div className="absolute left-4 top-0 bottom-0 w-px bg-border" />
-
-                <div className="space-y-6">
-                  {activities.map((activity, index) => (
-                    <motion.div
-                      key={activity.id}
-                      initial={{ opacity: 0, x: -10 }}
-                      animate={{ opacity: 1, x: 0 }}
-                      transition={{ delay: index * 0.05 }}
-                      className="relative flex gap-4 pl-2"
-                    >
-                      <div
-                        className={cn(
-                          'w-8 h-8 rounded-full flex items-center justify-center border z-10',
-                          getActivityColor(activity.type)
-                        )}
-                      >
-                        {getActivityIcon(activity.type)}
-                      </div>
-                      <div className="flex-1 pb-6">
-                        <div className="flex items-center gap-2 mb-1">
-                          <span className="font-medium text-sm">{activity.type}</span>
-                          <span className="text-xs text-muted-foreground font-mono">
-                            {activity.date ? formatRelativeTime(activity.date) : ''}
-                          </span>
-                        </div>
-                        <p className="text-sm text-muted-foreground">{activity.description}</p>
-                      </div>
-                    </motion.div>
-                  ))}
-                </div>
-              </div>
-            ) : (
-              <div className="text-center py-8 text-muted-foreground">
-                <Clock className="w-10 h-10 mx-auto mb-3 opacity-50" />
-                <p className="text-sm">Aucune activité enregistrée</p>
-                <p className="text-xs mt-1">Ajoutez une activité pour commencer le suivi</p>
-              </div>
-            )}
+            <ContactTimeline contactId={contact.id} />
           </CardContent>
         </Card>
       </div>
@@ -1025,6 +940,9 @@ export default function ContactDetail() {
           </CardContent>
         </Card>
 
+        {/* Critères de recherche */}
+        <ContactSearchCard contactId={contact.id} />
+
         {/* Biens correspondants */}
         <Card className="border-border bg-card/50">
           <CardHeader>
@@ -14,10 +14,15 @@ import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
 } from '@/components/ui/select';
 import {
-  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger,
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { toast } from 'sonner';
 import { useForm } from 'react-hook-form';
@@ -27,7 +32,8 @@ import {
   Plus, Search, Phone, Mail, User, Loader2, TrendingUp, Users,
   UserPlus, Home, Globe, LayoutList, LayoutGrid,
   ArrowUpDown, Clock, Flame, UserX, CalendarClock, ChevronDown,
-  Calendar, ArrowUpRight, RefreshCw, Upload,
+  Calendar, ArrowUpRight, RefreshCw, Upload, Copy, ShieldCheck, Inbox,
+  Filter, Download, Pencil, Trash2, X,
 } from 'lucide-react';
 
 import { useNavigate, useSearchParams } from 'react-router-dom';
@@ -36,6 +42,7 @@ import { EmptyState } from '@/components/EmptyState';
 import { useOrgQuery } from '@/hooks/useOrgQuery';
 import { LeadScoreIndicator } from '@/components/contacts/LeadScoreCard';
 import { calculateLeadScore } from '@/lib/scoring-engine';
+import { useScoringModel } from '@/hooks/useScoringModel';
 import { useAuth } from '@/contexts/AuthContext';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
@@ -49,6 +56,13 @@ import { formatRelativeTime } from '@/lib/formatters';
 import { cn } from '@/lib/utils';
 import type { Tables } from '@/integrations/supabase/types';
 import { ContactImportDialog } from '@/components/contacts/ContactImportDialog';
+import { ContactDuplicatesDialog } from '@/components/contacts/ContactDuplicatesDialog';
+import { ContactRetentionDialog } from '@/components/contacts/ContactRetentionDialog';
+import { PortalLeadDialog } from '@/components/contacts/PortalLeadDialog';
+import { ContactSegmentDialog } from '@/components/contacts/ContactSegmentDialog';
+import { useContactSegments, useSegmentContext } from '@/hooks/useContactSegments';
+import { exportContactsCsv, filterContactsBySegment, getSegmentRules, type ContactSegment } from '@/lib/contact-segments';
+import { BulkActionBar } from '@/components/bulk/BulkActionBar';
 
 type Contact = Tables<'contacts'>;
 
@@ -300,7 +314,7 @@ function KanbanColumn({ stage, contacts, onNavigate }: { stage: PipelineStage; c
 
 // ==================== CONTACT ROW (LIST VIEW) ====================
 type Activity = Tables<'activities'>;
-function ContactRow({ contact, onNavigate, index, activities, onAddActivity }: { contact: Contact; onNavigate: (id: string) => void; index: number; activities: Activity[]; onAddActivity: (contactId: string) => void }) {
+function ContactRow({ contact, onNavigate, index, activities, onAddActivity, isSelected, onToggleSelect }: { contact: Contact; onNavigate: (id: string) => void; index: number; activities: Activity[]; onAddActivity: (contactId: string) => void; isSelected: boolean; onToggleSelect: (contactId: string) => void }) {
   const urgencyScore = contact.urgency_score || 0;
   const isHot = urgencyScore >= 80;
   const overdueStatus = isOverdue(contact.next_followup_date);
@@ -324,13 +338,22 @@ function ContactRow({ contact, onNavigate, index, activities, onAddActivity }: {
       className="group"
     >
       <Card 
-        className="bg-white/5 border-white/10 hover:bg-white/10 hover:border-primary/30 transition-all duration-200 cursor-pointer"
+        className={cn(
+          'bg-white/5 border-white/10 hover:bg-white/10 hover:border-primary/30 transition-all duration-200 cursor-pointer',
+          isSelected && 'border-primary/50 bg-primary/5'
+        )}
         onClick={() => onNavigate(contact.id)}
       >
         <CardContent className="p-4">
           <div className="grid grid-cols-12 gap-4 items-center">
             {/* Col 1: Identity (4 cols) */}
             <div className="col-span-12 md:col-span-4 flex items-center gap-3">
+              <Checkbox
+                checked={isSelected}
+                onCheckedChange={() => onToggleSelect(contact.id)}
+                onClick={(e) => e.stopPropagation()}
+                aria-label={`Sélectionner ${contact.full_name}`}
+              />
               {/* Lead Score Indicator */}
               <LeadScoreIndicator contact={contact} activities={activities} />
               
@@ -527,6 +550,12 @@ export default function Contacts() {
   const [searchQuery, setSearchQuery] = useState('');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isDuplicatesDialogOpen, setIsDuplicatesDialogOpen] = useState(false);
+  const [isRetentionDialogOpen, setIsRetentionDialogOpen] = useState(false);
+  const [isPortalLeadDialogOpen, setIsPortalLeadDialogOpen] = useState(false);
+  const [segmentDialog, setSegmentDialog] = useState<{ open: boolean; segment: ContactSegment | null }>({ open: false, segment: null });
+  const [segmentToDelete, setSegmentToDelete] = useState<ContactSegment | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [activeContact, setActiveContact] = useState<Contact | null>(null);
   const [activityContactId, setActivityContactId] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('list');
@@ -546,6 +575,31 @@ export default function Contacts() {
     }
   }, [searchParams, setSearchParams]);
 
+  // ==================== SEGMENTS ====================
+  // The active segment lives in the URL (?segment=<id>) so it survives reloads and can be shared
+  const { segments, remove: removeSegment } = useContactSegments();
+  const segmentId = searchParams.get('segment');
+  const activeSegment = segments.find((s) => s.id === segmentId) ?? null;
+  const { context: segmentContext } = useSegmentContext({ enabled: !!segmentId });
+  const { model: scoringModel } = useScoringModel();
+
+  const selectSegment = (id: string | null) => {
+    const params = new URLSearchParams(searchParams);
+    if (id) params.set('segment', id);
+    else params.delete('segment');
+    setSearchParams(params, { replace: true });
+  };
+
+  const handleDeleteSegment = () => {
+    if (!segmentToDelete) return;
+    removeSegment(segmentToDelete.id)
+      .then(() => {
+        if (segmentToDelete.id === segmentId) selectSegment(null);
+        setSegmentToDelete(null);
+      })
+      .catch(() => undefined);
+  };
+
   const handleNavigateToContact = (id: string) => {
     navigate(`/contacts/${id}`);
   };
@@ -619,6 +673,10 @@ export default function Contacts() {
       c.phone?.includes(searchQuery)
     ) || [];
 
+    if (activeSegment) {
+      result = filterContactsBySegment(result, getSegmentRules(activeSegment), segmentContext);
+    }
+
     // Apply filter
     switch (filterOption) {
       case 'overdue':
@@ -642,8 +700,8 @@ export default function Contacts() {
     switch (sortOption) {
       case 'score':
         result.sort((a, b) => {
-          const scoreA = calculateLeadScore(a, activitiesMap.get(a.id) || []).score;
-          const scoreB = calculateLeadScore(b, activitiesMap.get(b.id) || []).score;
+          const scoreA = calculateLeadScore(a, activitiesMap.get(a.id) || [], null, scoringModel).score;
+          const scoreB = calculateLeadScore(b, activitiesMap.get(b.id) || [], null, scoringModel).score;
           return scoreB - scoreA;
         });
         break;
@@ -679,7 +737,14 @@ export default function Contacts() {
     }
 
     return result;
-  }, [contacts, searchQuery, filterOption, sortOption, activitiesMap]);
+  }, [contacts, searchQuery, filterOption, sortOption, activitiesMap, activeSegment, segmentContext, scoringModel]);
+
+  const processedIds = useMemo(() => processedContacts.map((c) => c.id), [processedContacts]);
+  const allProcessedSelected = processedIds.length > 0 && processedIds.every((id) => selectedIds.includes(id));
+
+  const toggleSelect = (id: string) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+  };
 
   const contactsByStage = useMemo(() => {
     return PIPELINE_STAGES.reduce((acc, stage) => {
@@ -840,6 +905,35 @@ export default function Contacts() {
           >
             <Upload className="w-4 h-4 mr-2" />Importer
           </Button>
+          <Button
+            variant="outline"
+            className="border-white/20 hover:bg-white/10"
+            onClick={() => setIsPortalLeadDialogOpen(true)}
+          >
+            <Inbox className="w-4 h-4 mr-2" />Portails
+          </Button>
+          <Button
+            variant="outline"
+            className="border-white/20 hover:bg-white/10"
+            onClick={() => setIsDuplicatesDialogOpen(true)}
+          >
+            <Copy className="w-4 h-4 mr-2" />Doublons
+          </Button>
+          <Button
+            variant="outline"
+            className="border-white/20 hover:bg-white/10"
+            onClick={() => setIsRetentionDialogOpen(true)}
+          >
+            <ShieldCheck className="w-4 h-4 mr-2" />RGPD
+          </Button>
+          <Button
+            variant="outline"
+            className="border-white/20 hover:bg-white/10"
+            onClick={() => exportContactsCsv(processedContacts, activeSegment?.name)}
+            disabled={processedContacts.length === 0}
+          >
+            <Download className="w-4 h-4 mr-2" />Exporter
+          </Button>
 
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
           <DialogTrigger asChild>
@@ -1004,6 +1098,42 @@ export default function Contacts() {
       </div>
 
       <ContactImportDialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen} />
+      <ContactDuplicatesDialog
+        open={isDuplicatesDialogOpen}
+        onOpenChange={setIsDuplicatesDialogOpen}
+        contacts={contacts}
+      />
+      <ContactRetentionDialog open={isRetentionDialogOpen} onOpenChange={setIsRetentionDialogOpen} />
+      <PortalLeadDialog open={isPortalLeadDialogOpen} onOpenChange={setIsPortalLeadDialogOpen} />
+      <BulkActionBar
+        table="contacts"
+        entityLabel="contacts"
+        selectedIds={selectedIds}
+        matchingIds={processedIds}
+        onSelectionChange={setSelectedIds}
+        stageOptions={PIPELINE_STAGES.map((stage) => ({ value: stage, label: PIPELINE_STAGE_LABELS[stage] }))}
+        onExport={(ids) => exportContactsCsv((contacts ?? []).filter((c) => ids.includes(c.id)), activeSegment?.name)}
+      />
+      <ContactSegmentDialog
+        open={segmentDialog.open}
+        onOpenChange={(open) => setSegmentDialog((d) => ({ ...d, open }))}
+        segment={segmentDialog.segment}
+        onSaved={selectSegment}
+      />
+      <AlertDialog open={!!segmentToDelete} onOpenChange={(open) => !open && setSegmentToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Supprimer le segment « {segmentToDelete?.name} » ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Seuls les critères enregistrés sont supprimés, les contacts ne sont pas modifiés.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteSegment}>Supprimer</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
 
       {/* ==================== KPI CARDS ==================== */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -1045,6 +1175,67 @@ export default function Contacts() {
               {label}
             </Button>
           ))}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant={activeSegment ? 'default' : 'outline'}
+                size="sm"
+                className={cn(
+                  'text-xs',
+                  activeSegment
+                    ? 'bg-gradient-to-r from-blue-500 to-purple-500 border-0'
+                    : 'border-white/20 hover:bg-white/10'
+                )}
+              >
+                <Filter className="w-3 h-3 mr-1" />
+                {activeSegment?.name ?? 'Segments'}
+                <ChevronDown className="w-3 h-3 ml-1" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="bg-background/95 backdrop-blur-xl border-white/20 w-64">
+              {segments.length > 0 && <DropdownMenuLabel>Segments enregistrés</DropdownMenuLabel>}
+              {segments.map((segment) => (
+                <DropdownMenuItem
+                  key={segment.id}
+                  onClick={() => selectSegment(segment.id)}
+                  className={cn('group', segment.id === segmentId && 'bg-white/10')}
+                >
+                  <span className="flex-1 truncate">{segment.name}</span>
+                  <button
+                    type="button"
+                    className="opacity-0 group-hover:opacity-100 p-1 hover:text-primary"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setSegmentDialog({ open: true, segment });
+                    }}
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  <button
+                    type="button"
+                    className="opacity-0 group-hover:opacity-100 p-1 hover:text-destructive"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setSegmentToDelete(segment);
+                    }}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </DropdownMenuItem>
+              ))}
+              {segments.length > 0 && <DropdownMenuSeparator />}
+              {activeSegment && (
+                <DropdownMenuItem onClick={() => selectSegment(null)}>
+                  <X className="w-4 h-4 mr-2" />
+                  Retirer le segment
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={() => setSegmentDialog({ open: true, segment: null })}>
+                <Plus className="w-4 h-4 mr-2" />
+                Nouveau segment
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
         
         {/* Sort & View Toggle */}
@@ -1124,6 +1315,7 @@ export default function Contacts() {
                 onClick: () => {
                   setSearchQuery('');
                   setFilterOption('all');
+                  selectSegment(null);
                 },
                 icon: <RefreshCw className="w-5 h-5" />
               }}
@@ -1131,8 +1323,15 @@ export default function Contacts() {
             />
           ) : (
             <motion.div variants={staggerContainer} initial="initial" animate="animate" className="space-y-3">
+              <label className="flex items-center gap-3 px-4 text-xs text-muted-foreground cursor-pointer w-fit">
+                <Checkbox
+                  checked={allProcessedSelected}
+                  onCheckedChange={(checked) => setSelectedIds(checked ? processedIds : [])}
+                />
+                {selectedIds.length > 0 ? `${selectedIds.length} sélectionné(s)` : `Tout sélectionner (${processedIds.length})`}
+              </label>
               {processedContacts.map((contact, index) => (
-                <ContactRow key={contact.id} contact={contact} onNavigate={handleNavigateToContact} index={index} activities={activitiesMap.get(contact.id) || []} onAddActivity={setActivityContactId} />
+                <ContactRow key={contact.id} contact={contact} onNavigate={handleNavigateToContact} index={index} activities={activitiesMap.get(contact.id) || []} onAddActivity={setActivityContactId} isSelected={selectedIds.includes(contact.id)} onToggleSelect={toggleSelect} />
               ))}
             </motion.div>
           )}
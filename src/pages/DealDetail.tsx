@@ -74,8 +74,11 @@ import {
   ChevronRight,
   X,
   Frown,
+  ShieldAlert,
 } from 'lucide-react';
 import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { usePropertyDiagnostics } from '@/hooks/usePropertyDiagnostics';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useAuth } from '@/contexts/AuthContext';
 import { motion, AnimatePresence } from 'framer-motion';
 import { formatCurrency, formatDate, formatShortDate, formatRelativeTime } from '@/lib/formatters';
@@ -89,10 +92,19 @@ import {
   ACTIVITY_PRIORITY_LABELS,
   ACTIVITY_STATUSES,
   ACTIVITY_STATUS_LABELS,
+  DIAGNOSTIC_LABELS,
+  DEAL_STAGE_PROBABILITY,
   type DealStage,
   type PipelineStage,
 } from '@/lib/constants';
+import { getBlockingDiagnostics, getDiagnosticsChecklist } from '@/lib/diagnostics';
 import { DealHealthScore } from '@/components/DealHealthScore';
+import { DealOffers } from '@/components/offers/DealOffers';
+import { DealParties } from '@/components/deals/DealParties';
+import { PropertyValuationDialog } from '@/components/properties/PropertyValuationDialog';
+import { ViagerBreakdown } from '@/components/properties/ViagerBreakdown';
+import { calculateViager, getViagerSellers } from '@/lib/viager';
+import { getImageVariant } from '@/lib/property-images';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
@@ -107,7 +119,10 @@ type DealWithRelations = Tables<'deals'> & {
     pipeline_stage: string | null;
     urgency_score: number | null;
   } | null;
-  properties?: { title: string } | null;
+  properties?: Pick<
+    Tables<'properties'>,
+    'title' | 'transaction_type' | 'price' | 'viager_occupancy' | 'viager_bouquet' | 'viager_rente' | 'viager_sellers'
+  > | null;
   profiles?: { full_name: string | null } | null;
 };
 
@@ -117,28 +132,11 @@ type Activity = Tables<'activities'> & {
 
 // ─── Constants ───────────────────────────────────────────────────────────────
 
-const STAGE_PROBABILITY_MAP: Record<DealStage, number> = {
-  nouveau: 10,
-  qualification: 20,
-  estimation: 30,
-  mandat: 50,
-  commercialisation: 60,
-  visite: 70,
-  offre: 80,
-  negociation: 85,
-  compromis: 90,
-  financement: 95,
-  acte: 98,
-  vendu: 100,
-  perdu: 0,
-};
-
-
 // Stages shown in the progress bar (excluding 'perdu')
 const PROGRESS_STAGES = DEAL_STAGES.filter((s) => s !== 'perdu');
 
 // Select string for deal queries — used in both the query and optimistic update
-const DEAL_SELECT = '*, contacts:contact_id(id, full_name, pipeline_stage, urgency_score), properties:property_id(title), profiles:assigned_to(full_name)' as const;
+const DEAL_SELECT = '*, contacts:contact_id(id, full_name, pipeline_stage, urgency_score), properties:property_id(title, transaction_type, price, viager_occupancy, viager_bouquet, viager_rente, viager_sellers), profiles:assigned_to(full_name)' as const;
 
 // ─── Schemas ─────────────────────────────────────────────────────────────────
 
@@ -846,6 +844,9 @@ function LinkedEntitiesPanel({ deal, onNavigate }: LinkedEntitiesPanelProps) {
 
 const CLOSED_STAGES: DealStage[] = ['vendu', 'perdu'];
 
+// From the offer to the deed, the sale's DDT must be complete
+const DDT_STAGES: DealStage[] = ['offre', 'negociation', 'compromis', 'financement', 'acte'];
+
 interface FinancialBreakdownProps {
   deal: DealWithRelations;
 }
@@ -854,6 +855,7 @@ function FinancialBreakdown({ deal }: FinancialBreakdownProps) {
   const stage = deal.stage as DealStage;
   const now = Date.now();
   const weightedValue = deal.amount * ((deal.probability ?? 0) / 100);
+  const viagerProperty = deal.properties?.transaction_type === 'viager' ? deal.properties : null;
 
   let warningKey: string | null = null;
   let warningLabel = '';
@@ -905,6 +907,25 @@ function FinancialBreakdown({ deal }: FinancialBreakdownProps) {
           </span>
         </div>
 
+        {viagerProperty && (
+          <>
+            <Separator />
+            <ViagerBreakdown
+              calculation={calculateViager({
+                marketValue: viagerProperty.price,
+                occupancy: viagerProperty.viager_occupancy,
+                sellers: getViagerSellers(viagerProperty),
+                bouquet: viagerProperty.viager_bouquet,
+                rente: viagerProperty.viager_rente,
+              })}
+              occupancy={viagerProperty.viager_occupancy}
+              sellers={getViagerSellers(viagerProperty)}
+              compact
+            />
+            <Separator />
+          </>
+        )}
+
         <div className="flex justify-between items-center">
           <span className="text-xs text-muted-foreground">Taux commission</span>
           <span className="text-sm font-medium font-mono">{deal.commission_rate ?? 5} %</span>
@@ -935,11 +956,6 @@ function FinancialBreakdown({ deal }: FinancialBreakdownProps) {
 
 // ─────────────────────────────────────────────────────────────────────────────
 
-type PropertyPreviewData = Pick<
-  Tables<'properties'>,
-  'id' | 'title' | 'address' | 'price' | 'surface' | 'type' | 'dpe_label' | 'images' | 'description'
->;
-
 const DPE_BADGE_COLORS: Record<string, string> = {
   A: 'bg-blue-600/20 text-blue-200',
   B: 'bg-blue-500/20 text-blue-300',
@@ -953,21 +969,23 @@ const DPE_BADGE_COLORS: Record<string, string> = {
 interface PropertyPreviewProps {
   propertyId: string;
   organizationId: string;
+  sellerName?: string | null;
   onNavigate: (path: string) => void;
 }
 
-function PropertyPreview({ propertyId, organizationId, onNavigate }: PropertyPreviewProps) {
-  const { data: property, isLoading } = useQuery<PropertyPreviewData>({
+function PropertyPreview({ propertyId, organizationId, sellerName, onNavigate }: PropertyPreviewProps) {
+  // Full row: shares its cache entry with PropertyDetailsSheet and feeds the valuation
+  const { data: property, isLoading } = useQuery<Tables<'properties'>>({
     queryKey: ['property', propertyId, organizationId],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('properties')
-        .select('id, title, address, price, surface, type, dpe_label, images, description')
+        .select('*')
         .eq('id', propertyId)
         .eq('organization_id', organizationId)
         .single();
       if (error) throw error;
-      return data as PropertyPreviewData;
+      return data;
     },
     enabled: !!propertyId && !!organizationId,
   });
@@ -1007,7 +1025,7 @@ function PropertyPreview({ propertyId, organizationId, onNavigate }: PropertyPre
             Bien associé
           </CardTitle>
           <button
-            onClick={() => onNavigate(`/properties/${property.id}`)}
+            onClick={() => onNavigate(`/properties?property=${property.id}`)}
             className="text-xs text-primary hover:underline underline-offset-2 flex items-center gap-0.5 transition-colors"
           >
             Voir la fiche
@@ -1024,7 +1042,7 @@ function PropertyPreview({ propertyId, organizationId, onNavigate }: PropertyPre
                 {photos.map((src, i) => (
                   <div key={i} className="flex-[0_0_100%] min-w-0">
                     <img
-                      src={src}
+                      src={getImageVariant(src, 'medium')}
                       alt={`Photo ${i + 1}`}
                       className="w-full h-[200px] object-cover"
                     />
@@ -1099,6 +1117,12 @@ function PropertyPreview({ propertyId, organizationId, onNavigate }: PropertyPre
             </div>
           </div>
         </div>
+
+        <PropertyValuationDialog
+          property={property}
+          preparedFor={sellerName}
+          triggerClassName="w-full gap-2"
+        />
       </CardContent>
     </Card>
   );
@@ -1163,6 +1187,22 @@ export default function DealDetail() {
     orderBy: { column: 'full_name', ascending: true },
   });
 
+  // DDT of the sold property, checked before the compromis
+  const isSale = !!deal?.property_id && deal.properties?.transaction_type !== 'location';
+  const { data: diagnosticsProperty } = useOrgQuery<Pick<Tables<'properties'>, 'type' | 'year_built' | 'heating_type' | 'co_ownership_charges'>>(
+    'properties',
+    {
+      select: 'type, year_built, heating_type, co_ownership_charges',
+      filters: deal?.property_id ? { id: deal.property_id } : undefined,
+      single: true,
+    },
+    { enabled: isSale }
+  );
+  const { diagnostics, isLoading: isLoadingDiagnostics } = usePropertyDiagnostics(isSale ? deal?.property_id : null);
+  const blockingDiagnostics = diagnosticsProperty && !isLoadingDiagnostics
+    ? getBlockingDiagnostics(getDiagnosticsChecklist(diagnosticsProperty, diagnostics))
+    : [];
+
   // ── Forms ────────────────────────────────────────────────────────────────
 
   const editForm = useForm<DealFormValues>({
@@ -1212,7 +1252,7 @@ export default function DealDetail() {
   const watchedStage = editForm.watch('stage');
   useEffect(() => {
     if (!userEditedProbability.current) {
-      editForm.setValue('probability', STAGE_PROBABILITY_MAP[watchedStage as DealStage] ?? 10);
+      editForm.setValue('probability', DEAL_STAGE_PROBABILITY[watchedStage as DealStage] ?? 10);
     }
   }, [watchedStage, editForm]);
 
@@ -1326,7 +1366,7 @@ export default function DealDetail() {
       if (!organizationId || !id) throw new Error('Organisation non trouvée');
       const { error } = await supabase
         .from('deals')
-        .update({ stage: newStage, probability: STAGE_PROBABILITY_MAP[newStage] })
+        .update({ stage: newStage, probability: DEAL_STAGE_PROBABILITY[newStage] })
         .eq('id', id)
         .eq('organization_id', organizationId);
       if (error) throw error;
@@ -1341,7 +1381,7 @@ export default function DealDetail() {
       ]);
       queryClient.setQueryData<DealWithRelations>(
         ['deals', organizationId, { id }, DEAL_SELECT],
-        (old) => (old ? { ...old, stage: newStage, probability: STAGE_PROBABILITY_MAP[newStage] } : old)
+        (old) => (old ? { ...old, stage: newStage, probability: DEAL_STAGE_PROBABILITY[newStage] } : old)
       );
       return { previousDeal };
     },
@@ -1409,6 +1449,18 @@ export default function DealDetail() {
 
   const stage = deal.stage as DealStage;
   const currentStageIndex = PROGRESS_STAGES.indexOf(stage);
+  const showDiagnosticsAlert = blockingDiagnostics.length > 0 && DDT_STAGES.includes(stage);
+  const blockingDiagnosticsLabel = blockingDiagnostics.map((item) => DIAGNOSTIC_LABELS[item.kind]).join(', ');
+
+  const handleStageChange = (newStage: DealStage) => {
+    if (newStage === 'compromis' && blockingDiagnostics.length > 0) {
+      toast.warning('Dossier de diagnostics incomplet', {
+        description: `À fournir avant la signature : ${blockingDiagnosticsLabel}`,
+      });
+    }
+    stageUpdateMutation.mutate(newStage);
+  };
+
   const tagsArray = Array.isArray(deal.tags) ? (deal.tags as string[]) : [];
 
   // ── Render ───────────────────────────────────────────────────────────────
@@ -1427,7 +1479,7 @@ export default function DealDetail() {
           deal={deal}
           onEdit={() => setIsEditDialogOpen(true)}
           onNavigateBack={() => navigate('/deals')}
-          onStageChange={(newStage) => stageUpdateMutation.mutate(newStage)}
+          onStageChange={handleStageChange}
           isUpdatingStage={stageUpdateMutation.isPending}
         />
       </motion.div>
@@ -1437,11 +1489,23 @@ export default function DealDetail() {
         <HorizontalStageTracker
           deal={deal}
           currentStageIndex={currentStageIndex}
-          onStageChange={(newStage) => stageUpdateMutation.mutate(newStage)}
+          onStageChange={handleStageChange}
           isUpdatingStage={stageUpdateMutation.isPending}
         />
       </motion.div>
 
+      {showDiagnosticsAlert && (
+        <motion.div variants={sectionItemVariants}>
+          <Alert variant="destructive" className="border-red-500/50 bg-red-500/10">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertTitle className="text-red-400 font-semibold">Diagnostics manquants ou expirés</AlertTitle>
+            <AlertDescription className="text-red-300/80">
+              {blockingDiagnosticsLabel} — à compléter dans l'audit du bien avant le compromis.
+            </AlertDescription>
+          </Alert>
+        </motion.div>
+      )}
+
       {/* ③ KPI Strip — 5 metric chips */}
       <motion.div
         className="flex gap-3 overflow-x-auto pb-1"
@@ -1478,7 +1542,7 @@ export default function DealDetail() {
         </motion.div>
       </motion.div>
 
-      {/* ④ Tabs — 5 sections */}
+      {/* ④ Tabs — 6 sections */}
       <motion.div variants={sectionItemVariants}>
         <Tabs defaultValue="resume">
           <TabsList className="mb-4">
@@ -1489,8 +1553,9 @@ export default function DealDetail() {
                 <Badge variant="secondary" className="ml-1.5 text-xs h-5 px-1.5">{activities.length}</Badge>
               )}
             </TabsTrigger>
+            <TabsTrigger value="offres">Offres</TabsTrigger>
             <TabsTrigger value="bien">Bien</TabsTrigger>
-            <TabsTrigger value="contact">Contact</TabsTrigger>
+            <TabsTrigger value="contact">Contacts</TabsTrigger>
             <TabsTrigger value="notes">Notes</TabsTrigger>
           </TabsList>
 
@@ -1983,12 +2048,22 @@ export default function DealDetail() {
             </Card>
           </TabsContent>
 
+          {/* ── Offres tab ── */}
+          <TabsContent value="offres">
+            <DealOffers
+              dealId={deal.id}
+              propertyId={deal.property_id}
+              askingPrice={deal.properties?.price ?? null}
+            />
+          </TabsContent>
+
           {/* ── Bien tab ── */}
           <TabsContent value="bien">
             {deal.property_id && organizationId ? (
               <PropertyPreview
                 propertyId={deal.property_id}
                 organizationId={organizationId}
+                sellerName={deal.contacts?.full_name}
                 onNavigate={(path) => navigate(path)}
               />
             ) : (
@@ -2011,7 +2086,7 @@ export default function DealDetail() {
           </TabsContent>
 
           {/* ── Contact tab ── */}
-          <TabsContent value="contact">
+          <TabsContent value="contact" className="space-y-6">
             {deal.contacts ? (
               <Card className="border-white/10 bg-white/5 rounded-xl">
                 <CardContent className="p-6">
@@ -2104,6 +2179,8 @@ export default function DealDetail() {
                 </CardContent>
               </Card>
             )}
+
+            <DealParties dealId={deal.id} mainContactId={deal.contact_id} />
           </TabsContent>
 
           {/* ── Notes tab ── */}
@@ -31,6 +31,7 @@ import {
   CommandList,
 } from '@/components/ui/command';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from 'sonner';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -48,6 +49,7 @@ import {
   ChevronsUpDown,
   Home,
   User,
+  Search,
 } from 'lucide-react';
 import { GuidedEmptyState } from '@/components/GuidedEmptyState';
 import { PipelineAnalytics } from '@/components/pipeline/PipelineAnalytics';
@@ -70,28 +72,15 @@ import {
 import { SortableContext, verticalListSortingStrategy, useSortable } from '@dnd-kit/sortable';
 import { useDroppable } from '@dnd-kit/core';
 import { CSS } from '@dnd-kit/utilities';
-import { DEAL_STAGES, DEAL_STAGE_LABELS, type DealStage } from '@/lib/constants';
+import { DEAL_STAGES, DEAL_STAGE_LABELS, DEAL_STAGE_PROBABILITY, type DealStage } from '@/lib/constants';
 import { formatCurrency, formatShortDate } from '@/lib/formatters';
 import { cn } from '@/lib/utils';
 import { DealHealthScore } from '@/components/DealHealthScore';
+import { DealPartiesPicker } from '@/components/deals/DealPartiesPicker';
+import type { DealPartyDraft } from '@/hooks/useDealParties';
+import { BulkActionBar } from '@/components/bulk/BulkActionBar';
 import type { Tables } from '@/integrations/supabase/types';
 
-const STAGE_PROBABILITY_MAP: Record<DealStage, number> = {
-  nouveau: 10,
-  qualification: 20,
-  estimation: 30,
-  mandat: 50,
-  commercialisation: 60,
-  visite: 70,
-  offre: 80,
-  negociation: 85,
-  compromis: 90,
-  financement: 95,
-  acte: 98,
-  vendu: 100,
-  perdu: 0,
-};
-
 type Deal = Tables<'deals'> & {
   contacts?: { full_name: string } | null;
 };
@@ -173,6 +162,72 @@ function DealCard({ deal, isDragging }: { deal: Deal; isDragging?: boolean }) {
   );
 }
 
+function DealRow({
+  deal,
+  isSelected,
+  onToggleSelect,
+}: {
+  deal: Deal;
+  isSelected: boolean;
+  onToggleSelect: (dealId: string) => void;
+}) {
+  const navigate = useNavigate();
+
+  return (
+    <Card
+      className={cn(
+        'border-border hover:border-primary/30 transition-all duration-200 cursor-pointer',
+        isSelected && 'border-primary/50 bg-primary/5'
+      )}
+      onClick={() => navigate(`/deals/${deal.id}`)}
+    >
+      <CardContent className="p-4">
+        <div className="grid grid-cols-12 gap-4 items-center text-sm">
+          <div className="col-span-12 md:col-span-4 flex items-center gap-3 min-w-0">
+            <Checkbox
+              checked={isSelected}
+              onCheckedChange={() => onToggleSelect(deal.id)}
+              onClick={(e) => e.stopPropagation()}
+              aria-label={`Sélectionner ${deal.name}`}
+            />
+            <div className="min-w-0">
+              <p className="font-medium truncate">{deal.name}</p>
+              {deal.contacts?.full_name && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1 truncate">
+                  <User className="w-3 h-3 shrink-0" />
+                  {deal.contacts.full_name}
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="col-span-4 md:col-span-2">
+            <Badge variant="outline" className="text-xs">
+              {DEAL_STAGE_LABELS[deal.stage as DealStage] || deal.stage}
+            </Badge>
+          </div>
+          <div className="col-span-4 md:col-span-2 font-mono font-medium text-primary">
+            {formatCurrency(deal.amount)}
+          </div>
+          <div className="col-span-4 md:col-span-1 text-muted-foreground">
+            {deal.probability || 0} %
+          </div>
+          <div className="hidden md:flex md:col-span-3 items-center gap-1.5 text-xs text-muted-foreground font-mono">
+            {deal.expected_close_date && (
+              <>
+                <Calendar className="w-3 h-3" />
+                {formatShortDate(deal.expected_close_date)}
+              </>
+            )}
+            {deal.tags?.length ? (
+              <span className="ml-auto truncate font-sans">{deal.tags.join(', ')}</span>
+            ) : null}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function SortableDealCard({ deal }: { deal: Deal }) {
   const navigate = useNavigate();
   const {
@@ -296,6 +351,12 @@ export default function Deals() {
   const [contactOpen, setContactOpen] = useState(false);
   const [propertyOpen, setPropertyOpen] = useState(false);
   const [assigneeOpen, setAssigneeOpen] = useState(false);
+  const [dealParties, setDealParties] = useState<DealPartyDraft[]>([]);
+
+  // List view filters and bulk selection
+  const [listSearch, setListSearch] = useState('');
+  const [listStage, setListStage] = useState<DealStage | 'all'>('all');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   const queryClient = useQueryClient();
 
@@ -381,7 +442,7 @@ export default function Deals() {
   const watchedStage = form.watch('stage');
   useEffect(() => {
     if (!userEditedProbability.current) {
-      form.setValue('probability', STAGE_PROBABILITY_MAP[watchedStage as DealStage] ?? 10);
+      form.setValue('probability', DEAL_STAGE_PROBABILITY[watchedStage as DealStage] ?? 10);
     }
   }, [watchedStage, form]);
 
@@ -393,7 +454,7 @@ export default function Deals() {
         ? values.tags.split(',').map((t) => t.trim()).filter(Boolean)
         : [];
 
-      const { error } = await supabase
+      const { data: deal, error } = await supabase
         .from('deals')
         .insert({
           name: values.name,
@@ -409,13 +470,27 @@ export default function Deals() {
           notes: values.notes || null,
           tags: tagsArray.length > 0 ? tagsArray : null,
           organization_id: organizationId,
-        });
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
+
+      if (dealParties.length > 0) {
+        const { error: partiesError } = await supabase
+          .from('deal_parties')
+          .insert(dealParties.map((p) => ({ ...p, deal_id: deal.id, organization_id: organizationId })));
+        // The deal exists at this point: report the failure without blocking the dialog
+        if (partiesError) {
+          toast.error("Les autres parties n'ont pas pu être ajoutées", { description: partiesError.message });
+        }
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: dealsQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['deal_parties', organizationId] });
       setIsDialogOpen(false);
+      setDealParties([]);
       userEditedProbability.current = false;
       setContactSearch('');
       setPropertySearch('');
@@ -432,13 +507,9 @@ export default function Deals() {
     mutationFn: async ({ id, stage }: { id: string; stage: DealStage }) => {
       if (!organizationId) throw new Error('Organisation non trouvée');
 
-      const updates: { stage: DealStage; probability?: number } = { stage };
-      if (stage === 'vendu') updates.probability = 100;
-      else if (stage === 'perdu') updates.probability = 0;
-
       const { error } = await supabase
         .from('deals')
-        .update(updates)
+        .update({ stage, probability: DEAL_STAGE_PROBABILITY[stage] })
         .eq('id', id)
         .eq('organization_id', organizationId);
 
@@ -451,7 +522,7 @@ export default function Deals() {
       const previousDeals = queryClient.getQueryData<Deal[]>(dealsQueryKey);
 
       queryClient.setQueryData<Deal[]>(dealsQueryKey, (old) =>
-        old?.map((deal) => (deal.id === id ? { ...deal, stage } : deal))
+        old?.map((deal) => (deal.id === id ? { ...deal, stage, probability: DEAL_STAGE_PROBABILITY[stage] } : deal))
       );
 
       return { previousDeals };
@@ -472,6 +543,22 @@ export default function Deals() {
     }, {} as Record<DealStage, Deal[]>);
   }, [deals]);
 
+  const listDeals = useMemo(() => {
+    const search = listSearch.trim().toLowerCase();
+    return (deals ?? []).filter((deal) =>
+      (listStage === 'all' || deal.stage === listStage) &&
+      (!search ||
+        deal.name.toLowerCase().includes(search) ||
+        deal.contacts?.full_name?.toLowerCase().includes(search))
+    );
+  }, [deals, listSearch, listStage]);
+  const listIds = useMemo(() => listDeals.map((d) => d.id), [listDeals]);
+  const allListSelected = listIds.length > 0 && listIds.every((id) => selectedIds.includes(id));
+
+  const toggleSelect = (id: string) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+  };
+
   const totalAmountByStage = (stage: DealStage) => {
     return dealsByStage[stage].reduce((sum, deal) => sum + deal.amount, 0);
   };
@@ -524,8 +611,8 @@ export default function Deals() {
     }
   };
 
-  const exportToExcel = () => {
-    if (!deals || deals.length === 0) {
+  const exportToExcel = (rows: Deal[] = deals ?? []) => {
+    if (rows.length === 0) {
       toast.error('Aucune donnée', {
         description: 'Il n\'y a aucun deal à exporter'
       });
@@ -533,7 +620,7 @@ export default function Deals() {
     }
 
     // Transform deals data for Excel
-    const excelData = deals.map(deal => ({
+    const excelData = rows.map(deal => ({
       'Titre': deal.name,
       'Montant (€)': deal.amount,
       'Statut': DEAL_STAGE_LABELS[deal.stage as DealStage] || deal.stage,
@@ -553,7 +640,7 @@ export default function Deals() {
     XLSX.writeFile(workbook, fileName);
 
     toast.success('Export réussi', {
-      description: `${deals.length} deals exportés`
+      description: `${rows.length} deals exportés`
     });
   };
 
@@ -574,7 +661,7 @@ export default function Deals() {
             </p>
           </div>
           <div className="flex items-center gap-2">
-            <Button onClick={exportToExcel} variant="outline" className="gap-2">
+            <Button onClick={() => exportToExcel()} variant="outline" className="gap-2">
               <Download className="w-4 h-4" />
               Exporter Excel
             </Button>
@@ -835,6 +922,13 @@ export default function Deals() {
                       )}
                     />
 
+                    <DealPartiesPicker
+                      mainContactId={form.watch('contact_id')}
+                      contacts={contacts ?? []}
+                      value={dealParties}
+                      onChange={setDealParties}
+                    />
+
                     {/* Property combobox */}
                     <FormField
                       control={form.control}
@@ -1207,6 +1301,65 @@ export default function Deals() {
               updateStageMutation.mutate({ id: dealId, stage: newStage as DealStage });
             }}
           />
+        ) : viewMode === 'list' ? (
+          <div className="space-y-3">
+            <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+              <div className="relative w-full sm:w-80">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  placeholder="Rechercher une opportunité, un contact..."
+                  value={listSearch}
+                  onChange={(e) => setListSearch(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Select value={listStage} onValueChange={(value) => setListStage(value as DealStage | 'all')}>
+                <SelectTrigger className="w-full sm:w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Toutes les étapes</SelectItem>
+                  {DEAL_STAGES.map((stage) => (
+                    <SelectItem key={stage} value={stage}>
+                      {DEAL_STAGE_LABELS[stage]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer sm:ml-auto">
+                <Checkbox
+                  checked={allListSelected}
+                  onCheckedChange={(checked) => setSelectedIds(checked ? listIds : [])}
+                />
+                Tout sélectionner ({listIds.length})
+              </label>
+            </div>
+            {isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground mx-auto my-8" />
+            ) : listDeals.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Aucune opportunité ne correspond à ces filtres.
+              </p>
+            ) : (
+              listDeals.map((deal) => (
+                <DealRow
+                  key={deal.id}
+                  deal={deal}
+                  isSelected={selectedIds.includes(deal.id)}
+                  onToggleSelect={toggleSelect}
+                />
+              ))
+            )}
+            <BulkActionBar
+              table="deals"
+              entityLabel="opportunités"
+              selectedIds={selectedIds}
+              matchingIds={listIds}
+              onSelectionChange={setSelectedIds}
+              stageOptions={DEAL_STAGES.map((stage) => ({ value: stage, label: DEAL_STAGE_LABELS[stage] }))}
+              onExport={(ids) => exportToExcel((deals ?? []).filter((d) => ids.includes(d.id)))}
+            />
+          </div>
         ) : isLoading ? (
           <div className="flex gap-3 overflow-x-auto pb-4 -mx-6 px-6">
             {DEAL_STAGES.map((stage) => (
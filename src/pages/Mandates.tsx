@@ -0,0 +1,262 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useSearchParams } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Search, Key, FileDown, FileSpreadsheet, AlertTriangle, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { EmptyState } from '@/components/EmptyState';
+import { MandateFormDialog } from '@/components/mandates/MandateFormDialog';
+import { useMandates } from '@/hooks/useMandates';
+import { useOrgQuery } from '@/hooks/useOrgQuery';
+import { useOrganization } from '@/hooks/useOrganization';
+import { MANDATE_STATUSES, MANDATE_STATUS_LABELS, MANDATE_TYPES, MANDATE_TYPE_LABELS, MANDATE_EXPIRY_WARNING_DAYS } from '@/lib/constants';
+import { formatCurrency, formatShortDate } from '@/lib/formatters';
+import { exportMandateRegisterCsv, generateMandateRegisterPdf, getMandateDaysLeft } from '@/lib/mandate-register';
+import { cn } from '@/lib/utils';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Property = Tables<'properties'>;
+type Contact = Tables<'contacts'>;
+
+const pageVariants = {
+  initial: { opacity: 0, y: 10 },
+  animate: { opacity: 1, y: 0 },
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  actif: 'bg-blue-500/20 text-blue-400 border border-blue-500/30',
+  expire: 'bg-gray-600/20 text-gray-400 border border-gray-600/30',
+  resilie: 'bg-purple-600/20 text-purple-300 border border-purple-600/30',
+  realise: 'bg-emerald-500/20 text-emerald-400 border border-emerald-500/30',
+};
+
+export default function Mandates() {
+  const [searchParams] = useSearchParams();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<string>(searchParams.get('filter') === 'expiring' ? 'expiring' : 'all');
+  const [typeFilter, setTypeFilter] = useState<string>('all');
+
+  const { mandates, isLoading, update } = useMandates();
+  const { data: organization } = useOrganization();
+
+  const { data: properties } = useOrgQuery<Property[]>('properties', {
+    select: 'id, title, address, city, price, contact_id, mandate_number',
+    orderBy: { column: 'created_at', ascending: false },
+  });
+
+  const { data: contacts } = useOrgQuery<Contact[]>('contacts', {
+    select: 'id, full_name',
+    orderBy: { column: 'full_name', ascending: true },
+  });
+
+  const filteredMandates = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return mandates.filter((m) => {
+      const matchesSearch =
+        !query ||
+        String(m.number).includes(query) ||
+        m.property_label.toLowerCase().includes(query) ||
+        (m.mandator_name?.toLowerCase() || '').includes(query);
+      const daysLeft = getMandateDaysLeft(m);
+      const matchesStatus =
+        statusFilter === 'all' ||
+        (statusFilter === 'expiring'
+          ? m.status === 'actif' && m.mandate_type === 'exclusif' && daysLeft !== null && daysLeft <= MANDATE_EXPIRY_WARNING_DAYS
+          : m.status === statusFilter);
+      const matchesType = typeFilter === 'all' || m.mandate_type === typeFilter;
+      return matchesSearch && matchesStatus && matchesType;
+    });
+  }, [mandates, searchQuery, statusFilter, typeFilter]);
+
+  const activeCount = mandates.filter((m) => m.status === 'actif').length;
+
+  const handleExportPdf = () => {
+    if (mandates.length === 0) return;
+    const doc = generateMandateRegisterPdf(mandates, organization ?? null);
+    doc.save(`registre-mandats-${new Date().toISOString().slice(0, 10)}.pdf`);
+    toast.success('Registre exporté en PDF');
+  };
+
+  const handleExportCsv = () => {
+    if (mandates.length === 0) return;
+    exportMandateRegisterCsv(mandates, organization ?? null);
+    toast.success('Registre exporté en CSV');
+  };
+
+  return (
+    <motion.div
+      className="space-y-6"
+      initial="initial"
+      animate="animate"
+      variants={pageVariants}
+      transition={{ duration: 0.3 }}
+    >
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight">Registre des mandats</h1>
+          <p className="text-muted-foreground">
+            {mandates.length} mandat{mandates.length > 1 ? 's' : ''} enregistré{mandates.length > 1 ? 's' : ''} &bull; {activeCount} en cours
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button variant="outline" className="gap-2" onClick={handleExportCsv} disabled={mandates.length === 0}>
+            <FileSpreadsheet className="w-4 h-4" />
+            CSV
+          </Button>
+          <Button variant="outline" className="gap-2" onClick={handleExportPdf} disabled={mandates.length === 0}>
+            <FileDown className="w-4 h-4" />
+            PDF
+          </Button>
+          <Button
+            onClick={() => setIsDialogOpen(true)}
+            className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 shadow-lg shadow-blue-500/30 transition-all duration-200 hover:scale-[1.02]"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Nouveau mandat
+          </Button>
+        </div>
+      </div>
+
+      <MandateFormDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        properties={properties}
+        contacts={contacts}
+      />
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="N°, bien, mandant..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Statut" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Tous les statuts</SelectItem>
+            <SelectItem value="expiring">Exclusifs bientôt expirés</SelectItem>
+            {MANDATE_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>{MANDATE_STATUS_LABELS[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Tous les types</SelectItem>
+            {MANDATE_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>{MANDATE_TYPE_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Register */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {[...Array(5)].map((_, i) => (
+            <Skeleton key={i} className="h-16 w-full" />
+          ))}
+        </div>
+      ) : mandates.length === 0 ? (
+        <EmptyState
+          icon={Key}
+          iconGradient="from-blue-500/20 to-purple-500/20"
+          title="Registre vide"
+          description="Enregistrez votre premier mandat : son numéro sera attribué automatiquement."
+          action={{ label: 'Nouveau mandat', onClick: () => setIsDialogOpen(true) }}
+        />
+      ) : (
+        <Card className="glass border-white/10">
+          <CardContent className="p-0 divide-y divide-white/5">
+            <div className="hidden md:grid grid-cols-[60px_110px_1fr_160px_140px_150px] gap-4 px-4 py-3 text-xs uppercase tracking-wider text-muted-foreground">
+              <span>N°</span>
+              <span>Période</span>
+              <span>Bien / Mandant</span>
+              <span>Type</span>
+              <span>Prix</span>
+              <span>Statut</span>
+            </div>
+            {filteredMandates.map((mandate) => {
+              const daysLeft = getMandateDaysLeft(mandate);
+              const isExpiring =
+                mandate.status === 'actif' &&
+                mandate.mandate_type === 'exclusif' &&
+                daysLeft !== null &&
+                daysLeft <= MANDATE_EXPIRY_WARNING_DAYS;
+
+              return (
+                <div
+                  key={mandate.id}
+                  className="grid grid-cols-1 md:grid-cols-[60px_110px_1fr_160px_140px_150px] gap-2 md:gap-4 px-4 py-3 items-center hover:bg-white/5 transition-colors"
+                >
+                  <span className="font-mono font-semibold text-blue-400">{mandate.number}</span>
+                  <div className="text-xs">
+                    <p>{formatShortDate(mandate.start_date)}</p>
+                    <p className="text-muted-foreground">{mandate.end_date ? `→ ${formatShortDate(mandate.end_date)}` : 'Sans échéance'}</p>
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{mandate.property_label}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {mandate.mandator_name || 'Mandant non renseigné'}
+                      {mandate.tacit_renewal && (
+                        <span className="inline-flex items-center gap-1 ml-2">
+                          <RefreshCw className="w-3 h-3" />
+                          Tacite reconduction
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-start gap-1">
+                    <Badge variant="outline" className="text-xs">
+                      {MANDATE_TYPE_LABELS[mandate.mandate_type as keyof typeof MANDATE_TYPE_LABELS] ?? mandate.mandate_type}
+                    </Badge>
+                    {isExpiring && (
+                      <span className="flex items-center gap-1 text-xs text-amber-400">
+                        <AlertTriangle className="w-3 h-3" />
+                        {daysLeft! < 0 ? `Échu depuis ${-daysLeft!}j` : `Expire dans ${daysLeft}j`}
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-sm">{mandate.price ? formatCurrency(mandate.price) : '—'}</span>
+                  <Select
+                    value={mandate.status}
+                    onValueChange={(status) => update({ id: mandate.id, status })}
+                  >
+                    <SelectTrigger className={cn('h-8 text-xs', STATUS_COLORS[mandate.status])}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MANDATE_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>{MANDATE_STATUS_LABELS[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+            {filteredMandates.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">Aucun mandat ne correspond aux filtres.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </motion.div>
+  );
+}
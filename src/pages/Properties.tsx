@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -11,6 +12,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Sheet,
   SheetContent,
@@ -35,6 +38,8 @@ import {
   AlertTriangle,
   LayoutGrid,
   List,
+  Map as MapIcon,
+  SlidersHorizontal,
 } from 'lucide-react';
 import { GuidedEmptyState } from '@/components/GuidedEmptyState';
 import { EmptyState } from '@/components/EmptyState';
@@ -47,6 +52,17 @@ import type { Tables } from '@/integrations/supabase/types';
 import PropertyDetailsSheet from '@/components/properties/PropertyDetailsSheet';
 import { PropertyFormDialog } from '@/components/properties/PropertyFormDialog';
 import { PropertyComplianceAudit } from '@/components/properties/PropertyComplianceAudit';
+import { RentalBanForecastDialog } from '@/components/properties/RentalBanForecastDialog';
+import { PropertyDiagnosticsChecklist } from '@/components/properties/PropertyDiagnosticsChecklist';
+import { PortalSyndicationDialog } from '@/components/properties/PortalSyndicationDialog';
+import { PriceDropBadge } from '@/components/properties/PriceDropBadge';
+import { PropertyMapView } from '@/components/properties/PropertyMapView';
+import { useRecentPriceDrops } from '@/hooks/usePriceHistory';
+import { useUpcomingLeaseEnds } from '@/hooks/useLeases';
+import { getCoverImage } from '@/lib/property-images';
+import type { PriceDrop } from '@/lib/price-history';
+import { formatViagerTerms } from '@/lib/viager';
+import { AMENITY_CRITERIA, getAmenityLabel, hasAmenity, parseFeatures } from '@/lib/amenities';
 
 type Property = Tables<'properties'>;
 type Contact = Tables<'contacts'>;
@@ -132,7 +148,7 @@ function PropertyKpiBar({ properties }: { properties: Property[] | undefined })
 }
 
 function PropertyThumbnail({ images }: { images: string[] | null }) {
-  const firstImage = images?.[0] ?? null;
+  const firstImage = getCoverImage(images, 'medium');
 
   if (firstImage) {
     return (
@@ -170,7 +186,7 @@ function PropertyThumbnail({ images }: { images: string[] | null }) {
   );
 }
 
-function PropertyCard({ property, index, onClick, onAudit }: { property: Property; index: number; onClick: () => void; onAudit: () => void }) {
+function PropertyCard({ property, index, priceDrop, onClick, onAudit }: { property: Property; index: number; priceDrop?: PriceDrop; onClick: () => void; onAudit: () => void }) {
   const getStatusColor = (status: string | null) => {
     return PREMIUM_STATUS_COLORS[status || ''] || 'bg-muted text-muted-foreground';
   };
@@ -197,6 +213,7 @@ function PropertyCard({ property, index, onClick, onAudit }: { property: Propert
                 <Badge variant="outline" className="text-xs border-blue-500/20 text-blue-300">
                   {property.transaction_type === 'vente' ? 'Vente' :
                    property.transaction_type === 'location' ? 'Location' :
+                   property.transaction_type === 'viager' ? 'Viager' :
                    property.transaction_type}
                 </Badge>
               )}
@@ -209,9 +226,15 @@ function PropertyCard({ property, index, onClick, onAudit }: { property: Propert
               {property.city || property.address}
             </p>
           )}
-          <p className="text-lg font-semibold text-blue-400 mb-1">
-            {property.price ? formatCurrency(property.price) : 'Prix non défini'}
-          </p>
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            <p className="text-lg font-semibold text-blue-400">
+              {property.price ? formatCurrency(property.price) : 'Prix non défini'}
+            </p>
+            <PriceDropBadge drop={priceDrop} />
+          </div>
+          {property.transaction_type === 'viager' && (
+            <p className="text-xs text-purple-400 font-mono mb-1">{formatViagerTerms(property)}</p>
+          )}
           {property.price && property.surface && property.price > 0 && property.surface > 0 && (
             <p className="text-xs text-muted-foreground font-mono -mt-0 mb-3">
               {formatNumber(Math.round(property.price / property.surface))} €/m²
@@ -257,8 +280,8 @@ function PropertyCard({ property, index, onClick, onAudit }: { property: Propert
   );
 }
 
-function PropertyListRow({ property, index, onClick, onAudit }: { property: Property; index: number; onClick: () => void; onAudit: () => void }) {
-  const firstImage = property.images?.[0] ?? null;
+function PropertyListRow({ property, index, priceDrop, onClick, onAudit }: { property: Property; index: number; priceDrop?: PriceDrop; onClick: () => void; onAudit: () => void }) {
+  const firstImage = getCoverImage(property.images, 'thumb');
   const pricePerM2 =
     property.price && property.surface && property.price > 0 && property.surface > 0
       ? Math.round(property.price / property.surface)
@@ -325,6 +348,7 @@ function PropertyListRow({ property, index, onClick, onAudit }: { property: Prop
           <Badge variant="outline" className="text-xs border-blue-500/20 text-blue-300">
             {property.transaction_type === 'vente' ? 'Vente' :
              property.transaction_type === 'location' ? 'Location' :
+             property.transaction_type === 'viager' ? 'Viager' :
              property.transaction_type}
           </Badge>
         )}
@@ -340,6 +364,10 @@ function PropertyListRow({ property, index, onClick, onAudit }: { property: Prop
             {formatNumber(pricePerM2)} €/m²
           </p>
         )}
+        {property.transaction_type === 'viager' && (
+          <p className="text-xs text-purple-400 font-mono">{formatViagerTerms(property)}</p>
+        )}
+        <PriceDropBadge drop={priceDrop} className="mt-1" />
       </div>
 
       {/* Surface / Rooms */}
@@ -374,15 +402,21 @@ function PropertyListRow({ property, index, onClick, onAudit }: { property: Prop
 }
 
 export default function Properties() {
+  const [searchParams] = useSearchParams();
   const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [statusFilter, setStatusFilter] = useState<string>(searchParams.get('filter') === 'lease_ending' ? 'lease_ending' : 'all');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
-  const [isSheetOpen, setIsSheetOpen] = useState(false);
+  // ?property=<id> opens that property's sheet (links from timelines and deals)
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(searchParams.get('property'));
+  const [isSheetOpen, setIsSheetOpen] = useState(!!searchParams.get('property'));
   const [auditProperty, setAuditProperty] = useState<Property | null>(null);
   const [sortBy, setSortBy] = useState<'date' | 'price_asc' | 'price_desc' | 'surface'>('date');
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [viewMode, setViewMode] = useState<'grid' | 'list' | 'map'>('grid');
+  const [amenityFilter, setAmenityFilter] = useState<string[]>([]);
   const { organizationId } = useAuth();
+  const recentPriceDrops = useRecentPriceDrops();
+  const { leases: endingLeases } = useUpcomingLeaseEnds();
+  const leaseEndingIds = new Set(endingLeases.map((l) => l.property_id));
 
   const { data: properties, isLoading } = useOrgQuery<Property[]>('properties', {
     select: '*',
@@ -399,8 +433,11 @@ export default function Properties() {
     const matchesSearch = (p.address?.toLowerCase() || '').includes(searchQuery.toLowerCase()) || 
                           (p.description?.toLowerCase() || '').includes(searchQuery.toLowerCase()) ||
                           (p.title?.toLowerCase() || '').includes(searchQuery.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || p.status === statusFilter;
-    return matchesSearch && matchesStatus;
+    const matchesStatus = statusFilter === 'all'
+      || (statusFilter === 'lease_ending' ? leaseEndingIds.has(p.id) : p.status === statusFilter);
+    const features = parseFeatures(p.features);
+    const matchesAmenities = amenityFilter.every((criterion) => hasAmenity(features, criterion));
+    return matchesSearch && matchesStatus && matchesAmenities;
   });
 
   const sortedProperties = [...(filteredProperties ?? [])].sort((a, b) => {
@@ -441,7 +478,16 @@ export default function Properties() {
             >
               <List className="w-4 h-4" />
             </button>
+            <button
+              onClick={() => setViewMode('map')}
+              className={`p-1.5 rounded-md transition-colors ${viewMode === 'map' ? 'bg-primary/20 text-primary' : 'text-muted-foreground hover:text-foreground'}`}
+              aria-label="Vue carte"
+            >
+              <MapIcon className="w-4 h-4" />
+            </button>
           </div>
+          <RentalBanForecastDialog properties={properties} contacts={contacts} />
+          <PortalSyndicationDialog properties={properties} />
           <Button
             onClick={() => setIsDialogOpen(true)}
             className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 shadow-lg shadow-blue-500/30 transition-all duration-200 hover:scale-[1.02]"
@@ -479,6 +525,7 @@ export default function Properties() {
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">Tous les statuts</SelectItem>
+            <SelectItem value="lease_ending">Fin de bail proche</SelectItem>
             {PROPERTY_STATUSES.map((status) => (
               <SelectItem key={status} value={status}>
                 <div className="flex items-center gap-2">
@@ -489,6 +536,38 @@ export default function Properties() {
             ))}
           </SelectContent>
         </Select>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="gap-2">
+              <SlidersHorizontal className="w-4 h-4" />
+              Prestations
+              {amenityFilter.length > 0 && (
+                <Badge variant="secondary" className="h-5 px-1.5">{amenityFilter.length}</Badge>
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-56 p-2" align="start">
+            {AMENITY_CRITERIA.map((criterion) => (
+              <label
+                key={criterion}
+                className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-white/5"
+              >
+                <Checkbox
+                  checked={amenityFilter.includes(criterion)}
+                  onCheckedChange={(checked) =>
+                    setAmenityFilter((prev) => checked ? [...prev, criterion] : prev.filter((c) => c !== criterion))
+                  }
+                />
+                {getAmenityLabel(criterion)}
+              </label>
+            ))}
+            {amenityFilter.length > 0 && (
+              <Button variant="ghost" size="sm" className="w-full mt-1" onClick={() => setAmenityFilter([])}>
+                Effacer
+              </Button>
+            )}
+          </PopoverContent>
+        </Popover>
         <Select value={sortBy} onValueChange={(v) => setSortBy(v as typeof sortBy)}>
           <SelectTrigger className="w-[180px]">
             <SelectValue placeholder="Trier par" />
@@ -527,6 +606,7 @@ export default function Properties() {
             onClick: () => {
               setSearchQuery('');
               setStatusFilter('all');
+              setAmenityFilter([]);
             },
             icon: <RefreshCw className="w-5 h-5" />
           }}
@@ -540,6 +620,7 @@ export default function Properties() {
                   key={property.id}
                   property={property}
                   index={index}
+                  priceDrop={recentPriceDrops.get(property.id)}
                   onClick={() => {
                     setSelectedPropertyId(property.id);
                     setIsSheetOpen(true);
@@ -556,6 +637,7 @@ export default function Properties() {
                   key={property.id}
                   property={property}
                   index={index}
+                  priceDrop={recentPriceDrops.get(property.id)}
                   onClick={() => {
                     setSelectedPropertyId(property.id);
                     setIsSheetOpen(true);
@@ -565,6 +647,15 @@ export default function Properties() {
               ))}
             </div>
           )}
+          {viewMode === 'map' && (
+            <PropertyMapView
+              properties={sortedProperties}
+              onSelect={(property) => {
+                setSelectedPropertyId(property.id);
+                setIsSheetOpen(true);
+              }}
+            />
+          )}
         </>
       )}
 
@@ -587,11 +678,14 @@ export default function Properties() {
               Audit : {auditProperty?.title || 'Bien sans titre'}
             </SheetTitle>
             <SheetDescription>
-              Diagnostic de conformité énergétique (DPE / GES)
+              Conformité énergétique (DPE / GES) et diagnostics de vente
             </SheetDescription>
           </SheetHeader>
           {auditProperty && (
-            <PropertyComplianceAudit property={auditProperty} />
+            <div className="space-y-6">
+              <PropertyComplianceAudit property={auditProperty} />
+              <PropertyDiagnosticsChecklist property={auditProperty} />
+            </div>
           )}
         </SheetContent>
       </Sheet>
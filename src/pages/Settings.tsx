@@ -14,13 +14,16 @@ import { useRole } from '@/hooks/useRole';
 import { useOrganization, useProfile } from '@/hooks/useOrganization';
 import { supabase } from '@/integrations/supabase/client';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Building2, User, Bell, Zap, Users, UserPlus, KeyRound, Copy, Loader2, Send, Save, Camera } from 'lucide-react';
+import { Building2, User, Bell, Zap, Users, UserPlus, KeyRound, Copy, Loader2, Send, Save, Camera, ShieldCheck } from 'lucide-react';
 import { OnboardingProgress } from '@/components/OnboardingProgress';
 import { useOnboarding } from '@/components/OnboardingTour';
 import { motion } from 'framer-motion';
 import { toast } from 'sonner';
 import type { Database, Json } from '@/integrations/supabase/types';
 import type { OrgSettings, ProfileSettings, NotificationSettings } from '@/types/settings';
+import { getRetentionPolicy, type RetentionPolicy } from '@/lib/contact-gdpr';
+import { LeadCaptureCard } from '@/components/contacts/LeadCaptureCard';
+import { LeadScoringCard } from '@/components/contacts/LeadScoringCard';
 
 type AppRole = Database['public']['Enums']['app_role'];
 
@@ -472,6 +475,11 @@ export default function Settings() {
   const [automations, setAutomations] = useState(defaultAutomations);
   const [smsEnabled, setSmsEnabled] = useState(true);
 
+  // GDPR retention state
+  const [retentionYears, setRetentionYears] = useState('');
+  const [retentionAction, setRetentionAction] = useState<RetentionPolicy['action']>('flag');
+  const [isSavingRetention, setIsSavingRetention] = useState(false);
+
   // Notification settings state
   const defaultNotifs: NotificationSettings = {
     email_followup_reminder: true,
@@ -506,6 +514,9 @@ export default function Settings() {
     if (comm) {
       setSmsEnabled(comm.sms_enabled ?? true);
     }
+    const retention = getRetentionPolicy(organization.settings);
+    setRetentionYears(String(retention.years));
+    setRetentionAction(retention.action);
   }, [organization]);
 
   useEffect(() => {
@@ -528,6 +539,7 @@ export default function Settings() {
     setAutomations(updated);
     const current = organization?.settings as unknown as OrgSettings | null;
     const newSettings: OrgSettings = {
+      ...current,
       automations: updated,
       communications: current?.communications ?? { sms_enabled: true },
     };
@@ -549,6 +561,7 @@ export default function Settings() {
     setSmsEnabled(value);
     const current = organization?.settings as unknown as OrgSettings | null;
     const newSettings: OrgSettings = {
+      ...current,
       automations: current?.automations ?? defaultAutomations,
       communications: { sms_enabled: value },
     };
@@ -565,6 +578,36 @@ export default function Settings() {
     }
   };
 
+  const handleSaveRetention = async () => {
+    if (!organizationId) return;
+    const years = parseInt(retentionYears, 10);
+    if (!years || years < 1) {
+      toast.error('La durée de conservation doit être d\'au moins 1 an');
+      return;
+    }
+    setIsSavingRetention(true);
+    const current = organization?.settings as unknown as OrgSettings | null;
+    const newSettings: OrgSettings = {
+      ...current,
+      gdpr: { retention_years: years, retention_action: retentionAction },
+    };
+    // RLS lets only admins update the organization: a refused update returns no row, not an error
+    const { data, error } = await supabase
+      .from('organizations')
+      .update({ settings: newSettings as unknown as Json })
+      .eq('id', organizationId)
+      .select('id');
+    setIsSavingRetention(false);
+    if (error) {
+      toast.error(`Erreur : ${error.message}`);
+    } else if (!data?.length) {
+      toast.error('Seul un administrateur peut modifier la politique de conservation');
+    } else {
+      toast.success('Sauvegardé ✅');
+      queryClient.invalidateQueries({ queryKey: ['organization', user?.id] });
+    }
+  };
+
   const handleToggleNotification = async (key: keyof NotificationSettings, value: boolean) => {
     if (!profileId) return;
     const updated = { ...notifSettings, [key]: value };
@@ -966,6 +1009,71 @@ export default function Settings() {
               )}
             </CardContent>
           </Card>
+
+          {/* ====== GDPR RETENTION CARD ====== */}
+          <Card className="glass">
+            <CardHeader className="pb-4">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <ShieldCheck className="w-4 h-4 text-primary" />
+                RGPD — Conservation des données
+              </CardTitle>
+              <CardDescription>
+                Contacts sans échange, activité ni opportunité depuis cette durée, et sans dossier en cours
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {orgLoading ? (
+                <Skeleton className="h-12 w-full" />
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="retention-years">Durée de conservation (années)</Label>
+                      <Input
+                        id="retention-years"
+                        type="number"
+                        min={1}
+                        value={retentionYears}
+                        onChange={(e) => setRetentionYears(e.target.value)}
+                        disabled={!isAdmin}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>À l'échéance</Label>
+                      <Select
+                        value={retentionAction}
+                        onValueChange={(v) => setRetentionAction(v as RetentionPolicy['action'])}
+                        disabled={!isAdmin}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="flag">Signaler les contacts</SelectItem>
+                          <SelectItem value="purge">Anonymiser automatiquement</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {retentionAction === 'purge'
+                      ? 'Les contacts concernés sont anonymisés chaque nuit. Les opportunités et mandats sont conservés.'
+                      : 'Les contacts concernés sont listés dans Contacts → RGPD, pour anonymisation manuelle.'}
+                  </p>
+                  {isAdmin && (
+                    <Button onClick={handleSaveRetention} disabled={isSavingRetention} className="gap-2">
+                      {isSavingRetention ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                      Enregistrer
+                    </Button>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* ====== WEBSITE LEAD FORM CARD ====== */}
+          <LeadCaptureCard />
+          <LeadScoringCard />
         </TabsContent>
 
         {/* ====== TEAM TAB ====== */}
@@ -18,7 +18,8 @@ import {
   PieChart,
   Clock,
   Award,
-  MapPin
+  MapPin,
+  Gift
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { formatCurrency, formatCompactNumber } from '@/lib/formatters';
@@ -26,6 +27,7 @@ import { useOrgQuery } from '@/hooks/useOrgQuery';
 import { EnhancedKPICard } from '@/components/charts/EnhancedKPICard';
 import { ActivityHeatmap } from '@/components/charts/ActivityHeatmap';
 import { FunnelChart } from '@/components/charts/FunnelChart';
+import { ReferralReport } from '@/components/contacts/ReferralReport';
 import { format, subDays, eachDayOfInterval } from 'date-fns';
 import {
   BarChart,
@@ -544,6 +546,7 @@ export default function Stats() {
             <TabsTrigger value="overview" className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-500/20 data-[state=active]:to-purple-500/20 data-[state=active]:border-white/10">Vue Globale</TabsTrigger>
             <TabsTrigger value="finances" className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-500/20 data-[state=active]:to-purple-500/20 data-[state=active]:border-white/10">Finances</TabsTrigger>
             <TabsTrigger value="biens" className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-500/20 data-[state=active]:to-purple-500/20 data-[state=active]:border-white/10">Biens</TabsTrigger>
+            <TabsTrigger value="parrainages" className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-500/20 data-[state=active]:to-purple-500/20 data-[state=active]:border-white/10">Parrainages</TabsTrigger>
           </TabsList>
 
           {/* ======================== TAB 1: Vue Globale ======================== */}
@@ -1063,6 +1066,29 @@ export default function Stats() {
               </motion.div>
             </div>
           </TabsContent>
+
+          {/* ======================== TAB 4: Parrainages ======================== */}
+          <TabsContent value="parrainages" className="space-y-6 mt-0">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1, duration: 0.4 }}
+            >
+              <Card className={BENTO_CARD}>
+                <CardHeader className="pb-2">
+                  <SectionHeader
+                    icon={Gift}
+                    iconColor="text-purple-400"
+                    title="Parrainages"
+                    description="Apporteurs et affaires générées par leurs recommandations"
+                  />
+                </CardHeader>
+                <CardContent>
+                  <ReferralReport deals={deals ?? []} isLoadingDeals={dealsLoading} />
+                </CardContent>
+              </Card>
+            </motion.div>
+          </TabsContent>
         </Tabs>
       </motion.div>
     </motion.div>
@@ -1,3 +1,5 @@
+import type { ScoringModel } from '@/lib/scoring-model';
+
 export interface OrgSettings {
   automations?: {
     qualify_lead: boolean;       // default: true
@@ -8,6 +10,22 @@ export interface OrgSettings {
   communications?: {
     sms_enabled: boolean;        // default: true
   };
+  portals?: {
+    agency_code?: string;        // Poliris agency identifier given by the portal, required to export
+    feed_token?: string;         // secret for the public XML feed URL
+    lead_email_token?: string;   // secret of the URL receiving forwarded portal lead emails
+  };
+  gdpr?: {
+    retention_years?: number;             // default: 3 (DEFAULT_RETENTION_YEARS)
+    retention_action?: 'flag' | 'purge';  // default: 'flag' — 'purge' anonymizes daily
+  };
+  lead_capture?: {
+    form_token?: string;         // secret of the embeddable website form, no token = form disabled
+    source?: string;             // contacts.source of captured leads, default: 'Site web'
+    assigned_to?: string;        // profile id of the agent receiving the leads
+    allowed_origins?: string[];  // sites the thank-you redirect may point to, default: the posting page's origin
+  };
+  lead_scoring?: ScoringModel;   // default: DEFAULT_SCORING_MODEL
 }
 
 export interface NotificationSettings {
@@ -0,0 +1,74 @@
+/**
+ * apply-contact-retention — Nightly GDPR retention purge.
+ *
+ * For every organization with settings.gdpr.retention_action = 'purge', contacts
+ * inactive for longer than settings.gdpr.retention_years are anonymized through
+ * the purge_inactive_contacts RPC. Organizations in 'flag' mode only see them
+ * listed in the app (Contacts → RGPD).
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Mirrors DEFAULT_RETENTION_YEARS in src/lib/constants.ts
+const DEFAULT_RETENTION_YEARS = 3;
+
+interface GdprSettings {
+  retention_years?: number;
+  retention_action?: 'flag' | 'purge';
+}
+
+serve(async (_req) => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const { data: organizations, error: orgError } = await supabase
+      .from('organizations')
+      .select('id, settings')
+      .eq('settings->gdpr->>retention_action', 'purge');
+
+    if (orgError) {
+      console.error('Error fetching organizations:', orgError);
+      return new Response(JSON.stringify({ error: orgError.message }), { status: 500 });
+    }
+
+    let anonymized = 0;
+    let failed = 0;
+
+    for (const org of organizations ?? []) {
+      const gdpr = (org.settings as { gdpr?: GdprSettings } | null)?.gdpr;
+      const years = gdpr?.retention_years && gdpr.retention_years > 0 ? gdpr.retention_years : DEFAULT_RETENTION_YEARS;
+
+      const { data: count, error } = await supabase.rpc('purge_inactive_contacts', {
+        p_organization_id: org.id,
+        p_years: years,
+      });
+
+      if (error) {
+        console.error(`Error purging organization ${org.id}:`, error);
+        failed++;
+        continue;
+      }
+
+      anonymized += count ?? 0;
+      if (count) console.log(`Anonymized ${count} contact(s) in organization ${org.id} (${years} years)`);
+    }
+
+    const result = { organizations: organizations?.length ?? 0, anonymized, failed };
+    console.log('Run complete:', result);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Fatal error in apply-contact-retention:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erreur serveur', message: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
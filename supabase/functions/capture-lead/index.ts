@@ -0,0 +1,347 @@
+/**
+ * capture-lead — Public endpoint behind the embeddable contact form of an agency website.
+ *
+ * POST (verify_jwt = false, the form token identifies the organization):
+ *   application/x-www-form-urlencoded or multipart → plain HTML <form>, answered with a
+ *                                                    303 to `redirect` (agency website only)
+ *                                                    or a thank-you page
+ *   application/json                               → fetch() from a custom form, answered in JSON
+ *
+ * Fields: org, token, full_name, email, phone, message, transaction_type, budget_min,
+ * budget_max, cities (comma separated), property_types (repeated), consent_email,
+ * redirect, and the `website` honeypot that must stay empty.
+ *
+ * Creates a contacts row (source from settings, "Site web" by default) — the
+ * trigger_new_contact trigger then runs the new_contact automation like for any
+ * other contact — and a contact_searches row when budget, cities or property types
+ * are given. Submissions are rate-limited per visitor IP and per organization
+ * through lead_capture_attempts.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DEFAULT_SOURCE = "Site web";
+const IP_LIMIT = 5;               // submissions per visitor…
+const IP_WINDOW_MINUTES = 10;     // …within this window
+const ORG_LIMIT = 100;            // submissions per organization per hour
+const MAX_FIELD_LENGTH = 200;
+const MAX_MESSAGE_LENGTH = 2000;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PROPERTY_TYPES = ["appartement", "maison", "terrain", "commerce", "bureau", "immeuble", "parking", "autre"];
+const TRANSACTION_TYPES = ["vente", "location", "viager"];
+
+interface LeadCaptureSettings {
+  form_token?: string;
+  source?: string;
+  assigned_to?: string;
+  allowed_origins?: string[];
+}
+
+interface LeadForm {
+  org: string;
+  token: string;
+  website: string;
+  full_name: string;
+  email: string;
+  phone: string;
+  message: string;
+  transaction_type: string;
+  budget_min: string;
+  budget_max: string;
+  cities: string;
+  property_types: string[];
+  consent_email: boolean;
+  redirect: string;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function html(message: string, status = 200): Response {
+  const body = `<!doctype html><html lang="fr"><head><meta charset="utf-8"><title>Formulaire</title></head>` +
+    `<body style="font-family:sans-serif;text-align:center;padding:48px"><p>${message}</p></body></html>`;
+  return new Response(body, { status, headers: { "Content-Type": "text/html; charset=utf-8" } });
+}
+
+// ========== PARSING ==========
+
+async function parseForm(req: Request): Promise<{ form: LeadForm; isHtmlForm: boolean }> {
+  const contentType = req.headers.get("content-type") ?? "";
+  const text = (v: unknown, max = MAX_FIELD_LENGTH) => (typeof v === "string" ? v.trim().slice(0, max) : "");
+
+  if (contentType.includes("application/json")) {
+    const body = await req.json().catch(() => ({}));
+    return {
+      isHtmlForm: false,
+      form: {
+        org: text(body.org),
+        token: text(body.token),
+        website: text(body.website),
+        full_name: text(body.full_name),
+        email: text(body.email).toLowerCase(),
+        phone: text(body.phone),
+        message: text(body.message, MAX_MESSAGE_LENGTH),
+        transaction_type: text(body.transaction_type),
+        budget_min: String(body.budget_min ?? ""),
+        budget_max: String(body.budget_max ?? ""),
+        cities: Array.isArray(body.cities) ? body.cities.join(",") : text(body.cities, MAX_MESSAGE_LENGTH),
+        property_types: Array.isArray(body.property_types) ? body.property_types.map(String) : [],
+        consent_email: body.consent_email === true || body.consent_email === "on",
+        redirect: "",
+      },
+    };
+  }
+
+  const data = await req.formData();
+  const get = (key: string, max?: number) => text(data.get(key), max);
+  return {
+    isHtmlForm: true,
+    form: {
+      org: get("org"),
+      token: get("token"),
+      website: get("website"),
+      full_name: get("full_name"),
+      email: get("email").toLowerCase(),
+      phone: get("phone"),
+      message: get("message", MAX_MESSAGE_LENGTH),
+      transaction_type: get("transaction_type"),
+      budget_min: get("budget_min"),
+      budget_max: get("budget_max"),
+      cities: get("cities", MAX_MESSAGE_LENGTH),
+      property_types: data.getAll("property_types").map((v) => String(v)),
+      consent_email: data.get("consent_email") !== null,
+      redirect: get("redirect", 500),
+    },
+  };
+}
+
+function parseAmount(value: string): number | null {
+  const amount = parseInt(value.replace(/[^\d]/g, ""), 10);
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+function toOrigin(value: string): string | null {
+  try {
+    return new URL(value).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Thank-you page of an HTML form, kept on the agency website: one of the
+ * origins configured in lead_capture.allowed_origins or, when none is set,
+ * the origin of the page that posted the form. Anything else falls back to
+ * the built-in thank-you page.
+ */
+function safeRedirect(value: string, allowedOrigins: string[] | undefined, requestOrigin: string | null): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+    const configured = (allowedOrigins ?? []).map(toOrigin).filter((o): o is string => !!o);
+    const allowed = configured.length > 0 ? configured : requestOrigin ? [requestOrigin] : [];
+    return allowed.includes(url.origin) ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// ========== RATE LIMIT ==========
+
+/**
+ * Visitor address as seen by the platform proxy. The first x-forwarded-for
+ * entries come from the client and can be forged, the last one is appended
+ * by the proxy.
+ */
+function getClientIp(req: Request): string {
+  const direct = req.headers.get("cf-connecting-ip") ?? req.headers.get("x-real-ip");
+  if (direct?.trim()) return direct.trim();
+  const forwarded = (req.headers.get("x-forwarded-for") ?? "").split(",").map((part) => part.trim()).filter(Boolean);
+  return forwarded[forwarded.length - 1] ?? "unknown";
+}
+
+async function hashIp(ip: string, organizationId: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${organizationId}:${ip}`));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Logs the attempt and tells whether the visitor or the organization went over its limit */
+async function isRateLimited(supabase: SupabaseClient, organizationId: string, ipHash: string): Promise<boolean> {
+  const now = Date.now();
+  const ipSince = new Date(now - IP_WINDOW_MINUTES * 60 * 1000).toISOString();
+  const orgSince = new Date(now - 60 * 60 * 1000).toISOString();
+
+  const [{ count: ipCount }, { count: orgCount }] = await Promise.all([
+    supabase
+      .from("lead_capture_attempts")
+      .select("id", { count: "exact", head: true })
+      .eq("organization_id", organizationId)
+      .eq("ip_hash", ipHash)
+      .gte("created_at", ipSince),
+    supabase
+      .from("lead_capture_attempts")
+      .select("id", { count: "exact", head: true })
+      .eq("organization_id", organizationId)
+      .gte("created_at", orgSince),
+  ]);
+
+  await supabase.from("lead_capture_attempts").insert({ organization_id: organizationId, ip_hash: ipHash });
+  await supabase
+    .from("lead_capture_attempts")
+    .delete()
+    .lt("created_at", new Date(now - 24 * 60 * 60 * 1000).toISOString());
+
+  return (ipCount ?? 0) >= IP_LIMIT || (orgCount ?? 0) >= ORG_LIMIT;
+}
+
+// ========== HANDLER ==========
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Méthode non autorisée" }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  let isHtmlForm = false;
+  const respond = (status: number, body: { ok?: boolean; error?: string }, redirect?: string | null) => {
+    if (!isHtmlForm) return json(body, status);
+    if (body.ok && redirect) {
+      return new Response(null, { status: 303, headers: { Location: redirect } });
+    }
+    return html(body.ok ? "Merci, votre demande a bien été envoyée. Nous vous recontactons rapidement." : body.error ?? "Erreur", status);
+  };
+
+  try {
+    const parsed = await parseForm(req);
+    const form = parsed.form;
+    isHtmlForm = parsed.isHtmlForm;
+
+    // ========== TOKEN ==========
+    if (!form.org || !form.token) {
+      return respond(404, { error: "Formulaire introuvable" });
+    }
+
+    const { data: org } = await supabase
+      .from("organizations")
+      .select("id, settings")
+      .eq("id", form.org)
+      .maybeSingle();
+
+    const settings = (org?.settings as { lead_capture?: LeadCaptureSettings } | null)?.lead_capture;
+    if (!org || !settings?.form_token || settings.form_token !== form.token) {
+      return respond(404, { error: "Formulaire introuvable" });
+    }
+
+    const redirect = safeRedirect(form.redirect, settings.allowed_origins, toOrigin(req.headers.get("origin") ?? ""));
+
+    // ========== SPAM PROTECTION ==========
+    // Bots fill every field: pretend it worked so they do not retry
+    if (form.website) {
+      console.log(`Honeypot filled, submission ignored (org ${org.id})`);
+      return respond(200, { ok: true }, redirect);
+    }
+
+    if (await isRateLimited(supabase, org.id, await hashIp(getClientIp(req), org.id))) {
+      return respond(429, { error: "Trop de demandes, veuillez réessayer dans quelques minutes." });
+    }
+
+    // ========== VALIDATION ==========
+    if (!form.full_name) {
+      return respond(400, { error: "Le nom est requis." });
+    }
+    if (!form.email && !form.phone) {
+      return respond(400, { error: "Un email ou un téléphone est requis." });
+    }
+    if (form.email && !EMAIL_REGEX.test(form.email)) {
+      return respond(400, { error: "Adresse email invalide." });
+    }
+
+    // ========== CONTACT ==========
+    const propertyTypes = form.property_types.filter((t) => PROPERTY_TYPES.includes(t));
+    const cities = form.cities.split(",").map((c) => c.trim()).filter(Boolean).slice(0, 20);
+    const budgetMin = parseAmount(form.budget_min);
+    const budgetMax = parseAmount(form.budget_max);
+    const hasSearch = propertyTypes.length > 0 || cities.length > 0 || budgetMin !== null || budgetMax !== null;
+
+    let assignedTo: string | null = null;
+    if (settings.assigned_to) {
+      const { data: agent } = await supabase
+        .from("profiles")
+        .select("id")
+        .eq("id", settings.assigned_to)
+        .eq("organization_id", org.id)
+        .maybeSingle();
+      assignedTo = agent?.id ?? null;
+    }
+
+    const { data: contact, error: contactError } = await supabase
+      .from("contacts")
+      .insert({
+        organization_id: org.id,
+        full_name: form.full_name,
+        email: form.email || null,
+        phone: form.phone || null,
+        notes: form.message || null,
+        source: settings.source?.trim() || DEFAULT_SOURCE,
+        role: hasSearch ? "acheteur" : "prospect",
+        pipeline_stage: "nouveau",
+        assigned_to: assignedTo,
+        last_contact_date: new Date().toISOString(),
+      })
+      .select("id")
+      .single();
+
+    if (contactError || !contact) {
+      console.error("Contact insert failed:", contactError?.message);
+      return respond(500, { error: "Erreur serveur" });
+    }
+
+    // ========== SEARCH & CONSENT ==========
+    if (hasSearch) {
+      const { error } = await supabase.from("contact_searches").insert({
+        organization_id: org.id,
+        contact_id: contact.id,
+        transaction_type: TRANSACTION_TYPES.includes(form.transaction_type) ? form.transaction_type : "vente",
+        budget_min: budgetMin,
+        budget_max: budgetMax,
+        cities: cities.length > 0 ? cities : null,
+        property_types: propertyTypes.length > 0 ? propertyTypes : null,
+      });
+      if (error) console.error(`Search insert failed for contact ${contact.id}:`, error.message);
+    }
+
+    if (form.consent_email && form.email) {
+      const { error } = await supabase.from("contact_consents").insert({
+        organization_id: org.id,
+        contact_id: contact.id,
+        channel: "email",
+        granted: true,
+        source: "formulaire",
+      });
+      if (error) console.error(`Consent insert failed for contact ${contact.id}:`, error.message);
+    }
+
+    console.log(`Lead captured: contact ${contact.id} (org ${org.id}, search: ${hasSearch})`);
+    return respond(200, { ok: true }, redirect);
+  } catch (error) {
+    console.error("Fatal error in capture-lead:", error);
+    return respond(500, { error: "Erreur serveur" });
+  }
+});
@@ -0,0 +1,434 @@
+/**
+ * export-portal-feed — Syndicates published listings to SeLoger and other portals.
+ *
+ * Two entry points share this function (verify_jwt = false, auth is checked manually):
+ *   POST { format: "zip" | "xml" }   → Poliris zip (annonces.csv + photos) or XML feed (user JWT required)
+ *   GET ?org=<id>&token=<secret>     → public XML feed pulled by the portals
+ *
+ * Only properties with publish_to_portals = true and status = 'disponible' that pass
+ * validation are exported. Validation rules mirror src/lib/portal-syndication.ts.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import JSZip from "npm:jszip@3.10.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const POLIRIS_VERSION = "4.08";
+const POLIRIS_FIELD_COUNT = 328;
+const MAX_PHOTOS = 9;
+const MIN_DESCRIPTION_LENGTH = 50;
+const DPE_REQUIRED_TYPES = ["appartement", "maison", "immeuble"];
+const ROOMS_REQUIRED_TYPES = ["appartement", "maison"];
+
+// Poliris "type de bien" wording
+const POLIRIS_PROPERTY_TYPES: Record<string, string> = {
+  appartement: "Appartement",
+  maison: "Maison",
+  terrain: "Terrain",
+  commerce: "Local commercial",
+  bureau: "Bureaux",
+  immeuble: "Immeuble",
+  parking: "Parking/box",
+  autre: "Divers",
+};
+
+// Poliris "type d'annonce" wording
+const POLIRIS_TRANSACTION_TYPES: Record<string, string> = {
+  vente: "vente",
+  location: "location",
+  viager: "viager",
+};
+
+const POLIRIS_MANDATE_TYPES: Record<string, string> = {
+  simple: "Simple",
+  exclusif: "Exclusif",
+  semi_exclusif: "Semi-exclusif",
+  recherche: "Simple",
+};
+
+interface PropertyRow {
+  id: string;
+  title: string;
+  type: string | null;
+  transaction_type: string | null;
+  status: string | null;
+  mandate_number: string | null;
+  mandate_type: string | null;
+  address: string | null;
+  postal_code: string | null;
+  city: string | null;
+  price: number | null;
+  surface: number | null;
+  rooms: number | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  floor: number | null;
+  total_floors: number | null;
+  year_built: number | null;
+  co_ownership_charges: number | null;
+  tax_property: number | null;
+  heating_type: string | null;
+  dpe_label: string | null;
+  ges_label: string | null;
+  description: string | null;
+  images: string[] | null;
+  updated_at: string | null;
+}
+
+interface PortalSettings {
+  agency_code?: string;
+  feed_token?: string;
+}
+
+const PROPERTY_COLUMNS =
+  "id, title, type, transaction_type, status, mandate_number, mandate_type, address, postal_code, city, price, surface, rooms, bedrooms, bathrooms, floor, total_floors, year_built, co_ownership_charges, tax_property, heating_type, dpe_label, ges_label, description, images, updated_at";
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ========== VALIDATION ==========
+
+function validate(p: PropertyRow): string[] {
+  const issues: string[] = [];
+  if (!p.mandate_number?.trim()) issues.push("mandate_number");
+  if (!p.mandate_type) issues.push("mandate_type");
+  if (!p.type) issues.push("type");
+  if (!p.transaction_type) issues.push("transaction_type");
+  if (!p.price || p.price <= 0) issues.push("price");
+  if (p.type !== "parking" && (!p.surface || p.surface <= 0)) issues.push("surface");
+  if (ROOMS_REQUIRED_TYPES.includes(p.type ?? "") && !p.rooms) issues.push("rooms");
+  if (!/^\d{5}$/.test(p.postal_code?.trim() ?? "")) issues.push("postal_code");
+  if (!p.city?.trim()) issues.push("city");
+  if ((p.description?.trim().length ?? 0) < MIN_DESCRIPTION_LENGTH) issues.push("description");
+  if (!p.images?.length) issues.push("images");
+  if (DPE_REQUIRED_TYPES.includes(p.type ?? "")) {
+    if (!p.dpe_label) issues.push("dpe_label");
+    if (!p.ges_label) issues.push("ges_label");
+  }
+  return issues;
+}
+
+async function loadPublishable(supabase: SupabaseClient, organizationId: string) {
+  const { data, error } = await supabase
+    .from("properties")
+    .select(PROPERTY_COLUMNS)
+    .eq("organization_id", organizationId)
+    .eq("publish_to_portals", true)
+    .eq("status", "disponible")
+    .order("updated_at", { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  const valid: PropertyRow[] = [];
+  const skipped: { reference: string; issues: string[] }[] = [];
+  for (const p of (data ?? []) as PropertyRow[]) {
+    const issues = validate(p);
+    if (issues.length === 0) valid.push(p);
+    else skipped.push({ reference: p.mandate_number || p.id, issues });
+  }
+  return { valid, skipped };
+}
+
+// ========== XML FEED ==========
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function tag(name: string, value: string | number | null | undefined): string {
+  if (value === null || value === undefined || value === "") return "";
+  return `    <${name}>${escapeXml(String(value))}</${name}>\n`;
+}
+
+// Portals do not all accept WebP: processed photos have a JPEG rendition of
+// their large variant. Photos processed before it existed keep their WebP file.
+async function syndicationPhoto(url: string): Promise<string> {
+  const jpeg = url.replace(/\/large\.webp(\?.*)?$/, "/large.jpg");
+  if (jpeg === url) return url;
+  try {
+    const res = await fetch(jpeg, { method: "HEAD" });
+    return res.ok ? jpeg : url;
+  } catch {
+    return url;
+  }
+}
+
+async function syndicationPhotos(images: string[] | null): Promise<string[]> {
+  return await Promise.all((images ?? []).slice(0, MAX_PHOTOS).map(syndicationPhoto));
+}
+
+async function buildXml(properties: PropertyRow[], agencyCode: string): Promise<string> {
+  const listings = await Promise.all(properties.map(async (p) => {
+    const photos = (await syndicationPhotos(p.images))
+      .map((url, i) => `      <photo ordre="${i + 1}">${escapeXml(url)}</photo>\n`)
+      .join("");
+
+    return (
+      "  <annonce>\n" +
+      tag("reference", p.mandate_number) +
+      tag("type_annonce", POLIRIS_TRANSACTION_TYPES[p.transaction_type ?? ""] ?? p.transaction_type) +
+      tag("type_bien", POLIRIS_PROPERTY_TYPES[p.type ?? ""] ?? "Divers") +
+      tag("mandat", POLIRIS_MANDATE_TYPES[p.mandate_type ?? ""]) +
+      tag("titre", p.title) +
+      tag("descriptif", p.description) +
+      tag("prix", p.price) +
+      tag("charges", p.co_ownership_charges) +
+      tag("taxe_fonciere", p.tax_property) +
+      tag("surface", p.surface) +
+      tag("pieces", p.rooms) +
+      tag("chambres", p.bedrooms) +
+      tag("salles_de_bain", p.bathrooms) +
+      tag("etage", p.floor) +
+      tag("nb_etages", p.total_floors) +
+      tag("annee_construction", p.year_built) +
+      tag("chauffage", p.heating_type) +
+      tag("adresse", p.address) +
+      tag("code_postal", p.postal_code) +
+      tag("ville", p.city) +
+      tag("pays", "France") +
+      tag("dpe", p.dpe_label) +
+      tag("ges", p.ges_label) +
+      tag("date_maj", p.updated_at) +
+      `    <photos>\n${photos}    </photos>\n` +
+      "  </annonce>\n"
+    );
+  }));
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<annonces agence="${escapeXml(agencyCode)}" date="${new Date().toISOString()}">\n` +
+    listings.join("") +
+    "</annonces>\n"
+  );
+}
+
+// ========== POLIRIS ZIP ==========
+
+// 1-based positions in the Poliris annonces.csv layout
+const POLIRIS_FIELDS = {
+  agencyCode: 1,
+  reference: 2,
+  transactionType: 3,
+  propertyType: 4,
+  postalCode: 5,
+  city: 6,
+  country: 7,
+  address: 8,
+  price: 11,
+  surface: 16,
+  rooms: 18,
+  bedrooms: 19,
+  title: 20,
+  description: 21,
+  charges: 23,
+  floor: 24,
+  totalFloors: 25,
+  yearBuilt: 27,
+  bathrooms: 30,
+  heating: 45,
+  photo1: 85, // photos 1 to 9 occupy 85..93
+  mandateType: 113,
+  dpeLabel: 176,
+  gesLabel: 178,
+} as const;
+
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return `"${text.replace(/"/g, '""').replace(/\r?\n/g, "<br>")}"`;
+}
+
+function photoExtension(url: string, contentType: string | null): string {
+  if (contentType?.includes("png")) return "png";
+  if (contentType?.includes("webp")) return "webp";
+  const match = url.split("?")[0].match(/\.(jpe?g|png|webp)$/i);
+  return match ? match[1].toLowerCase() : "jpg";
+}
+
+async function buildZip(properties: PropertyRow[], agencyCode: string): Promise<Uint8Array> {
+  const zip = new JSZip();
+  const lines: string[] = [];
+
+  for (const p of properties) {
+    const fields: (string | number | null)[] = new Array(POLIRIS_FIELD_COUNT).fill("");
+    const set = (position: number, value: string | number | null | undefined) => {
+      fields[position - 1] = value ?? "";
+    };
+
+    set(POLIRIS_FIELDS.agencyCode, agencyCode);
+    set(POLIRIS_FIELDS.reference, p.mandate_number);
+    set(POLIRIS_FIELDS.transactionType, POLIRIS_TRANSACTION_TYPES[p.transaction_type ?? ""]);
+    set(POLIRIS_FIELDS.propertyType, POLIRIS_PROPERTY_TYPES[p.type ?? ""] ?? "Divers");
+    set(POLIRIS_FIELDS.postalCode, p.postal_code);
+    set(POLIRIS_FIELDS.city, p.city);
+    set(POLIRIS_FIELDS.country, "France");
+    set(POLIRIS_FIELDS.address, p.address);
+    set(POLIRIS_FIELDS.price, p.price);
+    set(POLIRIS_FIELDS.surface, p.surface);
+    set(POLIRIS_FIELDS.rooms, p.rooms);
+    set(POLIRIS_FIELDS.bedrooms, p.bedrooms);
+    set(POLIRIS_FIELDS.title, p.title);
+    set(POLIRIS_FIELDS.description, p.description);
+    set(POLIRIS_FIELDS.charges, p.co_ownership_charges);
+    set(POLIRIS_FIELDS.floor, p.floor);
+    set(POLIRIS_FIELDS.totalFloors, p.total_floors);
+    set(POLIRIS_FIELDS.yearBuilt, p.year_built);
+    set(POLIRIS_FIELDS.bathrooms, p.bathrooms);
+    set(POLIRIS_FIELDS.heating, p.heating_type);
+    set(POLIRIS_FIELDS.mandateType, POLIRIS_MANDATE_TYPES[p.mandate_type ?? ""]);
+    set(POLIRIS_FIELDS.dpeLabel, p.dpe_label);
+    set(POLIRIS_FIELDS.gesLabel, p.ges_label);
+
+    // Photos are stored next to annonces.csv and referenced by file name
+    const images = await syndicationPhotos(p.images);
+    for (let i = 0; i < images.length; i++) {
+      try {
+        const res = await fetch(images[i]);
+        if (!res.ok) continue;
+        const fileName = `${p.mandate_number}-${i + 1}.${photoExtension(images[i], res.headers.get("content-type"))}`;
+        zip.file(fileName, new Uint8Array(await res.arrayBuffer()));
+        set(POLIRIS_FIELDS.photo1 + i, fileName);
+      } catch (err) {
+        console.warn(`Photo ${images[i]} skipped:`, err instanceof Error ? err.message : err);
+      }
+    }
+
+    lines.push(fields.map(csvField).join("!#"));
+  }
+
+  zip.file("annonces.csv", lines.join("\r\n") + "\r\n");
+  zip.file("Config.txt", `Version=${POLIRIS_VERSION}\r\nApplication=SynaPilot\r\n`);
+  return await zip.generateAsync({ type: "uint8array" });
+}
+
+// ========== PUBLIC FEED (GET) ==========
+
+async function handlePublicFeed(url: URL, supabase: SupabaseClient): Promise<Response> {
+  const organizationId = url.searchParams.get("org");
+  const token = url.searchParams.get("token");
+  if (!organizationId || !token) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const { data: org } = await supabase
+    .from("organizations")
+    .select("id, settings")
+    .eq("id", organizationId)
+    .maybeSingle();
+
+  const portals = (org?.settings as { portals?: PortalSettings } | null)?.portals;
+  if (!org || !portals?.feed_token || portals.feed_token !== token) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  if (!portals.agency_code) {
+    return new Response("Agency code not configured", { status: 422 });
+  }
+
+  const { valid } = await loadPublishable(supabase, organizationId);
+  return new Response(await buildXml(valid, portals.agency_code), {
+    status: 200,
+    headers: { "Content-Type": "application/xml; charset=utf-8", "Cache-Control": "max-age=900" },
+  });
+}
+
+// ========== EXPORT (POST) ==========
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    if (req.method === "GET") {
+      return await handlePublicFeed(new URL(req.url), supabase);
+    }
+
+    // ========== JWT AUTHENTICATION ==========
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return json({ error: "Non autorisé - Token manquant" }, 401);
+    }
+
+    const userSupabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await userSupabase.auth.getUser(token);
+    if (userError || !userData?.user) {
+      return json({ error: "Non autorisé - Token invalide" }, 401);
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from("profiles")
+      .select("organization_id")
+      .eq("user_id", userData.user.id)
+      .single();
+
+    if (profileError || !profile) {
+      console.error("Profile fetch failed:", profileError?.message);
+      return json({ error: "Profil utilisateur non trouvé" }, 403);
+    }
+
+    const organizationId = profile.organization_id as string;
+
+    // ========== PARSE REQUEST ==========
+    const { format = "zip" }: { format?: "zip" | "xml" } = await req.json().catch(() => ({}));
+    if (format !== "zip" && format !== "xml") {
+      return json({ error: "Format invalide (zip ou xml)" }, 400);
+    }
+
+    const { data: org } = await supabase
+      .from("organizations")
+      .select("settings")
+      .eq("id", organizationId)
+      .single();
+    const agencyCode = (org?.settings as { portals?: PortalSettings } | null)?.portals?.agency_code;
+    if (!agencyCode) {
+      return json({ error: "Code agence portail non renseigné" }, 422);
+    }
+
+    const { valid, skipped } = await loadPublishable(supabase, organizationId);
+    if (valid.length === 0) {
+      return json({ error: "Aucun bien publiable", skipped }, 422);
+    }
+
+    // application/octet-stream so supabase.functions.invoke hands back a Blob
+    const body = format === "zip" ? await buildZip(valid, agencyCode) : new TextEncoder().encode(await buildXml(valid, agencyCode));
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/octet-stream",
+        "X-Exported-Count": String(valid.length),
+        "X-Skipped-Count": String(skipped.length),
+      },
+    });
+  } catch (error) {
+    console.error("Fatal error in export-portal-feed:", error);
+    return json(
+      { error: "Erreur serveur", message: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
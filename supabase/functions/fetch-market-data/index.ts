@@ -32,6 +32,7 @@ interface TransactionSummary {
   surface: number;
   price_m2: number;
   type: string;
+  rooms: number | null;
   address: string;
 }
 
@@ -51,6 +52,7 @@ const DVF_API_BASE = 'https://api.cquest.org/dvf';
 const MIN_PRICE_M2 = 500;
 const MAX_PRICE_M2 = 20000;
 const MAX_TRANSACTIONS = 200; // Fetch up to 200 to compute stats
+const MAX_RECENT_TRANSACTIONS = 50; // Kept in cache, also used as comparables for valuations
 
 function computeMedian(values: number[]): number {
   if (values.length === 0) return 0;
@@ -201,10 +203,10 @@ Deno.serve(async (req: Request) => {
     const avgPriceM2 = Math.round(pricesM2.reduce((a, b) => a + b, 0) / pricesM2.length);
     const medianPriceM2 = computeMedian(pricesM2);
 
-    // Build recent transactions (last 10 by date)
+    // Build recent transactions (most recent first)
     const sortedSales = [...validSales]
       .sort((a, b) => (b.date_mutation || '').localeCompare(a.date_mutation || ''))
-      .slice(0, 10);
+      .slice(0, MAX_RECENT_TRANSACTIONS);
 
     const recentTransactions: TransactionSummary[] = sortedSales.map((r) => {
       const surface = getSurface(r);
@@ -214,6 +216,7 @@ Deno.serve(async (req: Request) => {
         surface,
         price_m2: Math.round(r.valeur_fonciere! / surface),
         type: r.type_local || 'Inconnu',
+        rooms: r.nombre_pieces_principales ?? null,
         address: buildAddress(r),
       };
     });
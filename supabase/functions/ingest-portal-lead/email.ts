@@ -0,0 +1,142 @@
+/**
+ * Minimal raw email reader for portal lead notifications: headers, the
+ * text/plain part (or text/html stripped of its tags), quoted-printable and
+ * base64 decoding. A pasted body without headers is read as-is.
+ */
+
+export interface ParsedEmail {
+  from: string;
+  subject: string;
+  text: string;
+}
+
+type Headers = Record<string, string>;
+
+function splitHeaders(raw: string): { headers: Headers; body: string } | null {
+  const match = raw.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) return null;
+
+  const head = raw.slice(0, match.index);
+  // A header block starts with "Name: value" on its first line
+  if (!/^[A-Za-z][A-Za-z0-9-]*:/.test(head)) return null;
+
+  const headers: Headers = {};
+  head
+    .replace(/\r?\n[ \t]+/g, " ")
+    .split(/\r?\n/)
+    .forEach((line) => {
+      const idx = line.indexOf(":");
+      if (idx > 0) headers[line.slice(0, idx).trim().toLowerCase()] = line.slice(idx + 1).trim();
+    });
+  if (!headers["from"] && !headers["subject"] && !headers["content-type"]) return null;
+
+  return { headers, body: raw.slice(match.index + match[0].length) };
+}
+
+function decodeBytes(bytes: Uint8Array, charset: string): string {
+  try {
+    return new TextDecoder(charset || "utf-8").decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+function decodeQuotedPrintable(value: string, charset: string): string {
+  const soft = value.replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < soft.length; i++) {
+    if (soft[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(soft.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(soft.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(...new TextEncoder().encode(soft[i]));
+    }
+  }
+  return decodeBytes(new Uint8Array(bytes), charset);
+}
+
+function decodeBase64(value: string, charset: string): string {
+  try {
+    const binary = atob(value.replace(/\s/g, ""));
+    return decodeBytes(Uint8Array.from(binary, (c) => c.charCodeAt(0)), charset);
+  } catch {
+    return value;
+  }
+}
+
+/** RFC 2047 encoded words, e.g. =?UTF-8?Q?Nouveau_contact?= in the subject */
+function decodeHeader(value: string): string {
+  return value.replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) =>
+    encoding.toUpperCase() === "B"
+      ? decodeBase64(text, charset)
+      : decodeQuotedPrintable(text.replace(/_/g, " "), charset)
+  );
+}
+
+function headerParam(header: string, name: string): string {
+  const match = header.match(new RegExp(`${name}="?([^";]+)"?`, "i"));
+  return match ? match[1] : "";
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|tr|li|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&rsquo;/g, "'")
+    .replace(/&eacute;/g, "é")
+    .replace(/&egrave;/g, "è")
+    .replace(/&agrave;/g, "à")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n");
+}
+
+/** Text of a MIME entity, preferring text/plain over text/html in multiparts */
+function readEntity(headers: Headers, body: string): string {
+  const contentType = headers["content-type"] ?? "text/plain";
+  const boundary = headerParam(contentType, "boundary");
+
+  if (/^multipart\//i.test(contentType) && boundary) {
+    const parts = body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter((part) => !part.startsWith("--"))
+      .map((part) => splitHeaders(part.replace(/^\r?\n/, "")))
+      .filter((part): part is { headers: Headers; body: string } => part !== null);
+
+    const plain = parts.find((p) => /text\/plain/i.test(p.headers["content-type"] ?? ""));
+    const other = parts.find((p) => /multipart\/|text\/html/i.test(p.headers["content-type"] ?? ""));
+    const chosen = plain ?? other;
+    return chosen ? readEntity(chosen.headers, chosen.body) : "";
+  }
+
+  const charset = headerParam(contentType, "charset");
+  const encoding = (headers["content-transfer-encoding"] ?? "").toLowerCase();
+  const decoded = encoding === "quoted-printable"
+    ? decodeQuotedPrintable(body, charset)
+    : encoding === "base64"
+      ? decodeBase64(body, charset)
+      : body;
+
+  return /text\/html/i.test(contentType) ? htmlToText(decoded) : decoded;
+}
+
+export function parseEmail(raw: string): ParsedEmail {
+  const split = splitHeaders(raw.replace(/^\uFEFF/, ""));
+  if (!split) {
+    const text = /<(html|body|div|p|br|table)\b/i.test(raw) ? htmlToText(raw) : raw;
+    return { from: "", subject: "", text: text.replace(/\r\n/g, "\n").trim() };
+  }
+
+  return {
+    from: decodeHeader(split.headers["from"] ?? ""),
+    subject: decodeHeader(split.headers["subject"] ?? ""),
+    text: readEntity(split.headers, split.body).replace(/\r\n/g, "\n").trim(),
+  };
+}
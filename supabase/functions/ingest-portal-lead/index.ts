@@ -0,0 +1,281 @@
+/**
+ * ingest-portal-lead — Turns SeLoger / Leboncoin / Bien'ici lead notification emails into contacts.
+ *
+ * Two entry points share this function (verify_jwt = false, auth is checked manually):
+ *   POST { raw }                        → email pasted in the app (user JWT required)
+ *   POST ?org=<id>&token=<secret>       → raw email forwarded by the agency's mail provider
+ *                                         (body: the raw message, or JSON { raw })
+ *
+ * The portal is detected by the parsers in ./parsers (one module per portal format).
+ * The listing is matched to properties by mandate_number (the reference exported to the
+ * portals) or id, the contact is found by email or phone — or created, which fires the
+ * new_contact automation — and the request is logged as an activities note.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { parseEmail } from "./email.ts";
+import { parsePortalLead } from "./parsers/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_EMAIL_SIZE = 500_000;
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const REFERENCE_REGEX = /^[\w./-]+$/;
+
+interface PortalSettings {
+  lead_email_token?: string;
+}
+
+interface IngestResult {
+  portal: string;
+  contact_id: string;
+  contact_name: string;
+  created: boolean;
+  property: { id: string; title: string } | null;
+}
+
+class IngestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ========== MATCHING ==========
+
+async function findProperty(supabase: SupabaseClient, organizationId: string, references: string[]) {
+  const refs = references.filter((r) => REFERENCE_REGEX.test(r));
+  if (refs.length === 0) return null;
+
+  const ids = refs.filter((r) => UUID_REGEX.test(r));
+  const variants = [...new Set(refs.flatMap((r) => [r, r.toUpperCase(), r.toLowerCase()]))];
+
+  let query = supabase
+    .from("properties")
+    .select("id, title, mandate_number, assigned_to")
+    .eq("organization_id", organizationId);
+  query = ids.length > 0
+    ? query.or(`mandate_number.in.(${variants.join(",")}),id.in.(${ids.join(",")})`)
+    : query.in("mandate_number", variants);
+
+  const { data } = await query.limit(10);
+  if (!data?.length) return null;
+
+  // Most specific reference first (agency reference before portal id)
+  for (const ref of refs) {
+    const match = data.find((p) => p.id === ref || p.mandate_number?.toLowerCase() === ref.toLowerCase());
+    if (match) return match;
+  }
+  return data[0];
+}
+
+function phoneVariants(phone: string): string[] {
+  const digits = phone.replace(/\D/g, "");
+  return [phone, digits, `+33${digits.slice(1)}`, `+33 ${digits.slice(1).replace(/(\d)(?=(\d{2})+$)/g, "$1 ")}`];
+}
+
+async function findContact(supabase: SupabaseClient, organizationId: string, email: string | null, phone: string | null) {
+  const select = "id, full_name, email, phone, assigned_to";
+  if (email) {
+    const { data } = await supabase
+      .from("contacts")
+      .select(select)
+      .eq("organization_id", organizationId)
+      .is("anonymized_at", null)
+      .ilike("email", email.replace(/([%_\\])/g, "\\$1"))
+      .limit(1);
+    if (data?.length) return data[0];
+  }
+  if (phone) {
+    const { data } = await supabase
+      .from("contacts")
+      .select(select)
+      .eq("organization_id", organizationId)
+      .is("anonymized_at", null)
+      .in("phone", phoneVariants(phone))
+      .limit(1);
+    if (data?.length) return data[0];
+  }
+  return null;
+}
+
+// ========== INGESTION ==========
+
+async function ingest(
+  supabase: SupabaseClient,
+  organizationId: string,
+  raw: string,
+  recordedBy: string | null,
+): Promise<IngestResult> {
+  const parsed = parsePortalLead(parseEmail(raw));
+  if (!parsed) {
+    throw new IngestError("Format d'email non reconnu (SeLoger, Leboncoin ou Bien'ici attendu)", 422);
+  }
+
+  const { parser, lead } = parsed;
+  if (!lead.email && !lead.phone) {
+    throw new IngestError("Aucun email ni téléphone trouvé dans la demande", 422);
+  }
+
+  const property = await findProperty(supabase, organizationId, lead.references);
+  const existing = await findContact(supabase, organizationId, lead.email, lead.phone);
+  const now = new Date().toISOString();
+
+  let contact: { id: string; full_name: string; assigned_to: string | null };
+  if (existing) {
+    const { error } = await supabase
+      .from("contacts")
+      .update({
+        email: existing.email || lead.email,
+        phone: existing.phone || lead.phone,
+        last_contact_date: now,
+      })
+      .eq("id", existing.id);
+    if (error) throw error;
+    contact = existing;
+  } else {
+    const { data, error } = await supabase
+      .from("contacts")
+      .insert({
+        organization_id: organizationId,
+        full_name: lead.full_name || lead.email || lead.phone,
+        email: lead.email,
+        phone: lead.phone,
+        source: parser.label,
+        role: "acheteur",
+        pipeline_stage: "nouveau",
+        assigned_to: property?.assigned_to ?? null,
+        last_contact_date: now,
+      })
+      .select("id, full_name, assigned_to")
+      .single();
+    if (error || !data) throw error ?? new Error("Contact insert failed");
+    contact = data;
+  }
+
+  const listing = property?.title ?? lead.listing_title;
+  const details = [
+    lead.message,
+    listing || lead.references.length
+      ? `Annonce : ${listing ?? "—"}${lead.references.length ? ` (réf. ${lead.references.join(" / ")})` : ""}`
+      : null,
+  ].filter(Boolean).join("\n\n");
+
+  const { error: activityError } = await supabase.from("activities").insert({
+    organization_id: organizationId,
+    name: `\u{1F4E8} Demande ${parser.label}${listing ? ` : ${listing}` : ""}`,
+    description: details || null,
+    type: "note",
+    status: "termine",
+    priority: "normale",
+    date: now,
+    completed_at: now,
+    contact_id: contact.id,
+    property_id: property?.id ?? null,
+    assigned_to: contact.assigned_to,
+    created_by: recordedBy,
+  });
+  if (activityError) console.error(`Activity insert failed for contact ${contact.id}:`, activityError.message);
+
+  console.log(`Portal lead ingested: ${parser.portal} → contact ${contact.id} (${existing ? "updated" : "created"}, property ${property?.id ?? "none"})`);
+  return {
+    portal: parser.label,
+    contact_id: contact.id,
+    contact_name: contact.full_name,
+    created: !existing,
+    property: property ? { id: property.id, title: property.title } : null,
+  };
+}
+
+// ========== HANDLER ==========
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Méthode non autorisée" }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const url = new URL(req.url);
+    const isJson = (req.headers.get("content-type") ?? "").includes("application/json");
+    const readRaw = async () => {
+      const raw = isJson ? (await req.json().catch(() => ({}))).raw : await req.text();
+      return typeof raw === "string" ? raw.slice(0, MAX_EMAIL_SIZE) : "";
+    };
+
+    // ========== FORWARDED EMAIL (token) ==========
+    if (url.searchParams.has("token")) {
+      const organizationId = url.searchParams.get("org");
+      const token = url.searchParams.get("token");
+
+      const { data: org } = organizationId
+        ? await supabase.from("organizations").select("id, settings").eq("id", organizationId).maybeSingle()
+        : { data: null };
+      const portals = (org?.settings as { portals?: PortalSettings } | null)?.portals;
+      if (!org || !portals?.lead_email_token || portals.lead_email_token !== token) {
+        return json({ error: "Not found" }, 404);
+      }
+
+      const raw = await readRaw();
+      if (!raw.trim()) return json({ error: "Email vide" }, 400);
+      return json(await ingest(supabase, org.id, raw, null));
+    }
+
+    // ========== PASTED EMAIL (JWT) ==========
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return json({ error: "Non autorisé - Token manquant" }, 401);
+    }
+
+    const userSupabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await userSupabase.auth.getUser(token);
+    if (userError || !userData?.user) {
+      return json({ error: "Non autorisé - Token invalide" }, 401);
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from("profiles")
+      .select("id, organization_id")
+      .eq("user_id", userData.user.id)
+      .single();
+
+    if (profileError || !profile) {
+      console.error("Profile fetch failed:", profileError?.message);
+      return json({ error: "Profil utilisateur non trouvé" }, 403);
+    }
+
+    const raw = await readRaw();
+    if (!raw.trim()) return json({ error: "Email vide" }, 400);
+    return json(await ingest(supabase, profile.organization_id as string, raw, profile.id as string));
+  } catch (error) {
+    if (error instanceof IngestError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error("Fatal error in ingest-portal-lead:", error);
+    return json(
+      { error: "Erreur serveur", message: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
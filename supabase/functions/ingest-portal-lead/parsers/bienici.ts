@@ -0,0 +1,30 @@
+/**
+ * Bien'ici "Demande de contact" emails: the listing line ends with
+ * "(réf. reference)", first and last names come on separate lines and the
+ * message follows "Son message :".
+ */
+
+import type { ParsedEmail } from "../email.ts";
+import { block, cleanName, compact, field, findEmail, findPhone, senderMatches, type PortalLeadParser } from "./common.ts";
+
+export const bieniciParser: PortalLeadParser = {
+  portal: "bienici",
+  label: "Bien'ici",
+
+  matches: (email: ParsedEmail) => senderMatches(email, ["bienici.com"]),
+
+  parse: (email: ParsedEmail) => {
+    const { text, subject } = email;
+    const listing = `${text}\n${subject}`.match(/^(.*?)\s*\(réf\.?\s*:?\s*([^)]+)\)/im);
+
+    return {
+      portal: "bienici",
+      full_name: cleanName(compact([field(text, ["Prénom"]), field(text, ["Nom"])]).join(" ")),
+      email: findEmail(field(text, ["Adresse e-mail", "E-mail", "Email"])),
+      phone: findPhone(field(text, ["Numéro de téléphone", "Téléphone"])),
+      message: block(text, ["Son message", "Message"], ["Bien'ici", "--", "Répondre", "Ce message"]),
+      references: compact([listing?.[2], field(text, ["Référence"])]),
+      listing_title: listing?.[1].replace(/^.*:\s*/, "").trim() || null,
+    };
+  },
+};
@@ -0,0 +1,90 @@
+/**
+ * Contract of a portal parser and the field helpers they share.
+ * A parser recognizes one portal's notification email and pulls the buyer's
+ * details and the listing references out of its text.
+ */
+
+import type { ParsedEmail } from "../email.ts";
+
+export interface PortalLead {
+  /** Portal key, also used as contacts.source label through PortalLeadParser.label */
+  portal: string;
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  message: string | null;
+  /** Listing references found in the email, most specific first (agency reference, portal id) */
+  references: string[];
+  listing_title: string | null;
+}
+
+export interface PortalLeadParser {
+  portal: string;
+  /** contacts.source of the leads, as listed in the contact form */
+  label: string;
+  matches(email: ParsedEmail): boolean;
+  parse(email: ParsedEmail): PortalLead;
+}
+
+const EMAIL_REGEX = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+const PHONE_REGEX = /(?:\+33\s?|0)[1-9](?:[\s.-]?\d{2}){4}/;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function labelPattern(labels: string[]): string {
+  return labels.map(escapeRegex).join("|");
+}
+
+/** Value of the first "Label : value" line found for one of the labels */
+export function field(text: string, labels: string[]): string | null {
+  const match = text.match(new RegExp(`^[ \\t*-]*(?:${labelPattern(labels)})[ \\t]*:[ \\t]*(.+)$`, "im"));
+  const value = match?.[1].trim();
+  return value ? value : null;
+}
+
+/**
+ * Multi-line block starting after "Label :" (on the same line or below) and
+ * ending at the first line starting with one of the stop labels or markers.
+ */
+export function block(text: string, labels: string[], stops: string[]): string | null {
+  const start = text.match(new RegExp(`^[ \\t*-]*(?:${labelPattern(labels)})[ \\t]*:[ \\t]*`, "im"));
+  if (!start || start.index === undefined) return null;
+
+  const rest = text.slice(start.index + start[0].length);
+  const stop = rest.match(new RegExp(`^[ \\t*-]*(?:${labelPattern(stops)})`, "im"));
+  const value = (stop?.index !== undefined ? rest.slice(0, stop.index) : rest)
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return value ? value : null;
+}
+
+export function findEmail(value: string | null): string | null {
+  return value?.match(EMAIL_REGEX)?.[0].toLowerCase() ?? null;
+}
+
+/** French phone number, normalized to "06 12 34 56 78" */
+export function findPhone(value: string | null): string | null {
+  const raw = value?.match(PHONE_REGEX)?.[0];
+  if (!raw) return null;
+  const digits = raw.replace(/\D/g, "").replace(/^33/, "0");
+  return digits.length === 10 ? digits.replace(/(\d{2})(?=\d)/g, "$1 ") : null;
+}
+
+export function cleanName(value: string | null): string | null {
+  const name = value?.replace(/\s+/g, " ").replace(/[<>"]/g, "").trim();
+  return name ? name : null;
+}
+
+export function senderMatches(email: ParsedEmail, domains: string[]): boolean {
+  const haystack = `${email.from}\n${email.text}`.toLowerCase();
+  return domains.some((domain) => haystack.includes(domain));
+}
+
+export function compact(values: (string | null | undefined)[]): string[] {
+  return [...new Set(values.map((v) => v?.trim()).filter((v): v is string => !!v))];
+}
@@ -0,0 +1,20 @@
+/**
+ * Portal parser registry. To support a new portal, add a PortalLeadParser
+ * module and list it here; the first parser whose matches() accepts the
+ * email reads it.
+ */
+
+import type { ParsedEmail } from "../email.ts";
+import type { PortalLead, PortalLeadParser } from "./common.ts";
+import { bieniciParser } from "./bienici.ts";
+import { leboncoinParser } from "./leboncoin.ts";
+import { selogerParser } from "./seloger.ts";
+
+export type { PortalLead, PortalLeadParser } from "./common.ts";
+
+export const PORTAL_PARSERS: PortalLeadParser[] = [selogerParser, leboncoinParser, bieniciParser];
+
+export function parsePortalLead(email: ParsedEmail): { parser: PortalLeadParser; lead: PortalLead } | null {
+  const parser = PORTAL_PARSERS.find((p) => p.matches(email));
+  return parser ? { parser, lead: parser.parse(email) } : null;
+}
@@ -0,0 +1,33 @@
+/**
+ * Leboncoin messaging emails: the buyer's name opens the sentence
+ * "X vous a envoyé un message concernant votre annonce « title » (n° id)",
+ * the message is quoted and the contact details follow.
+ */
+
+import type { ParsedEmail } from "../email.ts";
+import { block, cleanName, compact, field, findEmail, findPhone, senderMatches, type PortalLeadParser } from "./common.ts";
+
+export const leboncoinParser: PortalLeadParser = {
+  portal: "leboncoin",
+  label: "Leboncoin",
+
+  matches: (email: ParsedEmail) => senderMatches(email, ["leboncoin.fr"]),
+
+  parse: (email: ParsedEmail) => {
+    const { text, subject } = email;
+    const intro = text.match(/^\s*(.+?)\s+vous a envoyé un message/im);
+    const title = `${text}\n${subject}`.match(/annonce\s+«\s*(.+?)\s*»/i);
+    const adId = text.match(/\(n°\s*(\d+)\)/i);
+    const quoted = text.match(/^\s*["“«]\s*([\s\S]+?)\s*["”»]\s*$/m);
+
+    return {
+      portal: "leboncoin",
+      full_name: cleanName(intro?.[1] ?? field(text, ["Nom", "Pseudo"])),
+      email: findEmail(field(text, ["E-mail", "Email"])),
+      phone: findPhone(field(text, ["Téléphone", "Tél"])),
+      message: quoted?.[1].trim() ?? block(text, ["Message"], ["Coordonnées", "E-mail", "Email", "Téléphone", "Pour répondre"]),
+      references: compact([field(text, ["Votre référence", "Référence"]), adId?.[1]]),
+      listing_title: title?.[1] ?? null,
+    };
+  },
+};
@@ -0,0 +1,77 @@
+/**
+ * Portal parsers against raw notification emails, one quoted-printable and
+ * one multipart sample per portal in ./fixtures.
+ *
+ *   deno test --allow-read supabase/functions/ingest-portal-lead
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { parseEmail } from "../email.ts";
+import { parsePortalLead, type PortalLead } from "./index.ts";
+
+function parseFixture(name: string) {
+  const raw = Deno.readTextFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+  const parsed = parsePortalLead(parseEmail(raw));
+  assert(parsed, `${name} is not recognized by any portal parser`);
+  return parsed;
+}
+
+const EXPECTED: Record<string, PortalLead> = {
+  seloger: {
+    portal: "seloger",
+    full_name: "Camille Durand",
+    email: "camille.durand@example.com",
+    phone: "06 12 34 56 78",
+    message:
+      "Bonjour, je suis intéressée par cet appartement et je souhaiterais savoir s'il est encore disponible.\n" +
+      "Est-il possible de le visiter samedi matin ?",
+    references: ["M-2024-017", "198765432"],
+    listing_title: "Appartement 3 pièces 68 m² - Lyon 6ème",
+  },
+  leboncoin: {
+    portal: "leboncoin",
+    full_name: "Jean-Pierre Martin",
+    email: "jp.martin@example.org",
+    phone: "06 98 76 54 32",
+    message: "Bonjour, la maison est-elle toujours disponible ? Je souhaiterais organiser une visite avec mon épouse.",
+    references: ["VM-0042", "2456789012"],
+    listing_title: "Maison 5 pièces avec jardin",
+  },
+  bienici: {
+    portal: "bienici",
+    full_name: "Sophie Lefèvre",
+    email: "sophie.lefevre@example.net",
+    phone: "07 11 22 33 44",
+    message:
+      "Bonjour,\n" +
+      "Je cherche un 2 pièces proche du métro, ce bien m'intéresse beaucoup.\n" +
+      "Merci de me rappeler en fin de journée.",
+    references: ["BI-7781"],
+    listing_title: "Appartement 2 pièces 45 m² Villeurbanne",
+  },
+};
+
+for (const [portal, expected] of Object.entries(EXPECTED)) {
+  for (const variant of ["qp", "multipart"]) {
+    Deno.test(`${portal} parser reads the ${variant} email`, () => {
+      const { parser, lead } = parseFixture(`${portal}-${variant}.eml`);
+      assertEquals(parser.portal, portal);
+      assertEquals(lead, expected);
+    });
+  }
+}
+
+Deno.test("encoded subject and sender headers are decoded", () => {
+  const raw = Deno.readTextFileSync(new URL("./fixtures/leboncoin-qp.eml", import.meta.url));
+  assertEquals(parseEmail(raw).subject, "Nouveau message concernant votre annonce « Maison 5 pièces avec jardin »");
+
+  const bienici = Deno.readTextFileSync(new URL("./fixtures/bienici-qp.eml", import.meta.url));
+  assertEquals(parseEmail(bienici).from, "Bien'ici <contact@bienici.com>");
+});
+
+Deno.test("a pasted body without headers is still recognized", () => {
+  const raw = Deno.readTextFileSync(new URL("./fixtures/seloger-qp.eml", import.meta.url));
+  const body = parseEmail(raw).text;
+  const parsed = parsePortalLead(parseEmail(`${body}\nseloger.com`));
+  assertEquals(parsed?.lead.email, "camille.durand@example.com");
+});
@@ -0,0 +1,34 @@
+/**
+ * SeLoger "Nouveau contact pour votre annonce" emails: one "Label : value"
+ * line per field, then the buyer's message until the SeLoger footer.
+ */
+
+import type { ParsedEmail } from "../email.ts";
+import { block, cleanName, compact, field, findEmail, findPhone, senderMatches, type PortalLeadParser } from "./common.ts";
+
+export const selogerParser: PortalLeadParser = {
+  portal: "seloger",
+  label: "SeLoger",
+
+  matches: (email: ParsedEmail) => senderMatches(email, ["seloger.com"]),
+
+  parse: (email: ParsedEmail) => {
+    const { text } = email;
+    const firstName = field(text, ["Prénom"]);
+    const lastName = field(text, ["Nom"]);
+    const fullName = field(text, ["Nom et prénom", "Nom complet"]) ?? compact([firstName, lastName]).join(" ");
+
+    return {
+      portal: "seloger",
+      full_name: cleanName(fullName),
+      email: findEmail(field(text, ["Email", "E-mail", "Adresse email"])),
+      phone: findPhone(field(text, ["Téléphone", "Tél", "Tel"])),
+      message: block(text, ["Message"], ["--", "L'équipe SeLoger", "Répondre", "Ce message", "Cet email"]),
+      references: compact([
+        field(text, ["Référence de l'annonce", "Référence annonce", "Votre référence", "Référence"]),
+        field(text, ["Référence SeLoger"]),
+      ]),
+      listing_title: field(text, ["Annonce", "Bien"]),
+    };
+  },
+};
@@ -97,6 +97,15 @@ serve(async (_req) => {
 
     console.log(`Processing ${enrollments.length} enrollment(s)`);
 
+    // Contacts who withdrew their email consent (GDPR)
+    const { data: refusals } = await supabase
+      .from('contact_consents')
+      .select('contact_id')
+      .eq('channel', 'email')
+      .eq('granted', false)
+      .in('contact_id', enrollments.map((e) => e.contact_id));
+    const emailRefused = new Set((refusals ?? []).map((r) => r.contact_id));
+
     let sent = 0;
     let failed = 0;
     let completed = 0;
@@ -113,6 +122,16 @@ serve(async (_req) => {
           continue;
         }
 
+        // Stop sequences for contacts who withdrew their email consent
+        if (emailRefused.has(enrollment.contact_id)) {
+          console.log(`Cancelling enrollment ${enrollment.id}: email consent withdrawn`);
+          await supabase
+            .from('sequence_enrollments')
+            .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+            .eq('id', enrollment.id);
+          continue;
+        }
+
         // Skip contacts without email
         if (!contact.email) {
           console.warn(`Skipping enrollment ${enrollment.id}: contact has no email address`);
@@ -198,6 +217,7 @@ serve(async (_req) => {
           priority: 'normale',
           date: new Date().toISOString(),
           contact_id: enrollment.contact_id,
+          sequence_enrollment_id: enrollment.id,
           ai_generated: true,
           completed_at: new Date().toISOString(),
         });
@@ -0,0 +1,216 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Image } from "https://deno.land/x/imagescript@1.3.0/mod.ts";
+
+// Generates the WebP variants of an uploaded property photo.
+//
+// The client uploads the photo to {org}/{property}/uploads/; this function
+// decodes it, writes {org}/{property}/{imageId}/{thumb,medium,large}.webp
+// and deletes the upload. Re-encoding from raw pixels drops every EXIF
+// block, including the GPS position of phone photos.
+//
+// The medium and large variants also get a JPEG rendition next to them:
+// several mail clients and the portals reading our Poliris exports do not
+// accept WebP. The app itself only displays the WebP files.
+
+const BUCKET = 'property-images';
+
+// Keep in sync with src/lib/property-images.ts
+const VARIANTS = {
+  thumb: 400,
+  medium: 960,
+  large: 1920,
+} as const;
+
+// Variants that also get a .jpg rendition (proposal emails, portal exports)
+const JPEG_VARIANTS = ['medium', 'large'];
+
+const WEBP_QUALITY = 80;
+const JPEG_QUALITY = 85;
+const WATERMARK_WIDTH_RATIO = 0.18;
+const WATERMARK_OPACITY = 0.6;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function loadWatermark(logoUrl: string): Promise<Image | null> {
+  try {
+    const response = await fetch(logoUrl);
+    if (!response.ok) return null;
+    return await Image.decode(new Uint8Array(await response.arrayBuffer()));
+  } catch (error) {
+    console.error('Watermark load failed:', error);
+    return null;
+  }
+}
+
+// Logo in the bottom-right corner, scaled to the variant width
+function applyWatermark(image: Image, logo: Image) {
+  const width = Math.max(1, Math.round(image.width * WATERMARK_WIDTH_RATIO));
+  const mark = logo.clone().resize(width, Image.RESIZE_AUTO).opacity(WATERMARK_OPACITY);
+  const margin = Math.round(image.width * 0.02);
+  image.composite(mark, image.width - mark.width - margin, image.height - mark.height - margin);
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+    // ========== JWT AUTHENTICATION ==========
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Non autorisé - Token manquant' }, 401);
+    }
+
+    const userSupabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: claimsError } = await userSupabase.auth.getUser(token);
+
+    if (claimsError || !claimsData?.user) {
+      console.error('JWT validation failed:', claimsError?.message);
+      return jsonResponse({ error: 'Non autorisé - Token invalide' }, 401);
+    }
+
+    // ========== PARSE REQUEST ==========
+    const { organization_id, property_id, path, watermark } = await req.json();
+
+    if (!organization_id || !property_id || !path) {
+      return jsonResponse({ error: 'organization_id, property_id et path requis' }, 400);
+    }
+
+    const uploadPrefix = `${organization_id}/${property_id}/uploads/`;
+    if (typeof path !== 'string' || !path.startsWith(uploadPrefix) || path.includes('..')) {
+      return jsonResponse({ error: 'Chemin de fichier invalide' }, 400);
+    }
+
+    // ========== ORGANIZATION CHECK ==========
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: userProfile, error: profileError } = await supabase
+      .from('profiles')
+      .select('organization_id')
+      .eq('user_id', claimsData.user.id)
+      .single();
+
+    if (profileError || !userProfile) {
+      console.error('Profile fetch failed:', profileError?.message);
+      return jsonResponse({ error: 'Profil utilisateur non trouvé' }, 403);
+    }
+
+    if (userProfile.organization_id !== organization_id) {
+      return jsonResponse({ error: 'Accès non autorisé à cette organisation' }, 403);
+    }
+
+    const { data: property } = await supabase
+      .from('properties')
+      .select('id')
+      .eq('id', property_id)
+      .eq('organization_id', organization_id)
+      .maybeSingle();
+
+    if (!property) {
+      return jsonResponse({ error: 'Bien non trouvé' }, 404);
+    }
+
+    // ========== DECODE ==========
+    const { data: file, error: downloadError } = await supabase.storage.from(BUCKET).download(path);
+    if (downloadError || !file) {
+      console.error('Download failed:', downloadError?.message);
+      return jsonResponse({ error: 'Fichier introuvable' }, 404);
+    }
+
+    let source: Image;
+    try {
+      source = await Image.decode(new Uint8Array(await file.arrayBuffer()));
+    } catch (decodeError) {
+      console.error('Decode failed:', decodeError);
+      await supabase.storage.from(BUCKET).remove([path]);
+      return jsonResponse({ error: 'Image illisible (JPG ou PNG attendu)' }, 400);
+    }
+
+    let logo: Image | null = null;
+    if (watermark) {
+      const { data: organization } = await supabase
+        .from('organizations')
+        .select('logo_url')
+        .eq('id', organization_id)
+        .single();
+      if (organization?.logo_url) logo = await loadWatermark(organization.logo_url);
+    }
+
+    // ========== VARIANTS ==========
+    const imageId = crypto.randomUUID();
+    const folder = `${organization_id}/${property_id}/${imageId}`;
+    const urls: Record<string, string> = {};
+
+    for (const [variant, maxWidth] of Object.entries(VARIANTS)) {
+      // Never upscale: small photos keep their size in the larger variants
+      const image = source.width > maxWidth ? source.clone().resize(maxWidth, Image.RESIZE_AUTO) : source.clone();
+      if (logo && variant !== 'thumb') applyWatermark(image, logo);
+
+      const renditions = [
+        { path: `${folder}/${variant}.webp`, contentType: 'image/webp', encode: () => image.encodeWEBP(WEBP_QUALITY) },
+      ];
+      if (JPEG_VARIANTS.includes(variant)) {
+        renditions.push({ path: `${folder}/${variant}.jpg`, contentType: 'image/jpeg', encode: () => image.encodeJPEG(JPEG_QUALITY) });
+      }
+
+      for (const rendition of renditions) {
+        const { error: uploadError } = await supabase.storage
+          .from(BUCKET)
+          .upload(rendition.path, await rendition.encode(), {
+            contentType: rendition.contentType,
+            cacheControl: '31536000',
+            upsert: false,
+          });
+
+        if (uploadError) {
+          console.error('Variant upload failed:', rendition.path, uploadError.message);
+          return jsonResponse({ error: "Erreur lors de l'enregistrement de la photo" }, 500);
+        }
+      }
+
+      urls[variant] = supabase.storage.from(BUCKET).getPublicUrl(`${folder}/${variant}.webp`).data.publicUrl;
+    }
+
+    // The upload still holds the original metadata: do not keep it
+    await supabase.storage.from(BUCKET).remove([path]);
+
+    console.log('Processed image', folder, { width: source.width, height: source.height, watermark: !!logo });
+
+    return jsonResponse({
+      id: imageId,
+      urls,
+      watermarked: !!logo,
+    });
+
+  } catch (error) {
+    console.error('Edge Function Error:', error);
+    return jsonResponse(
+      {
+        error: 'Erreur serveur',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+});
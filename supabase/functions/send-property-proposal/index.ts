@@ -0,0 +1,523 @@
+/**
+ * send-property-proposal — Sends a "Proposition de biens" email to one or more buyers
+ * and tracks opens / clicks on the resulting property_proposals rows.
+ *
+ * Three entry points share this function (verify_jwt = false, auth is checked manually):
+ *   POST                         → render + send (user JWT required)
+ *   GET ?t=open&id=<proposal>    → 1x1 tracking pixel, fills opened_at
+ *   GET ?t=click&id=...&u=...&s= → signed redirect, fills clicked_at (and opened_at)
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_RECIPIENTS = 10;
+
+// Transparent 1x1 GIF
+const PIXEL = Uint8Array.from(
+  atob("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7"),
+  (c) => c.charCodeAt(0),
+);
+
+const DEFAULT_SUBJECT = "Un bien qui pourrait vous intéresser : {bien_type} à {bien_ville}";
+const DEFAULT_CONTENT = `Bonjour {contact_prenom},
+
+Je pense avoir trouvé un bien qui correspond à votre recherche :
+
+{bien_type} à {bien_ville} — {bien_surface} — {bien_prix}
+
+N'hésitez pas à me contacter pour organiser une visite.
+
+Bien cordialement,
+
+{agent_prenom} {agent_nom}
+{agence_nom}`;
+
+// Used when the agent notifies buyers after lowering the price (no template selected)
+const PRICE_DROP_SUBJECT = "Baisse de prix : {bien_type} à {bien_ville}";
+const PRICE_DROP_CONTENT = `Bonjour {contact_prenom},
+
+Bonne nouvelle : le prix de ce bien vient de baisser et correspond désormais à votre budget.
+
+{bien_type} à {bien_ville} — {bien_surface}
+Ancien prix : {bien_ancien_prix}
+Nouveau prix : {bien_prix}
+
+N'hésitez pas à me contacter pour organiser une visite.
+
+Bien cordialement,
+
+{agent_prenom} {agent_nom}
+{agence_nom}`;
+
+const PROPERTY_TYPE_LABELS: Record<string, string> = {
+  appartement: "Appartement",
+  maison: "Maison",
+  terrain: "Terrain",
+  commerce: "Commerce",
+  bureau: "Bureau",
+  immeuble: "Immeuble",
+  parking: "Parking",
+  autre: "Bien",
+};
+
+interface ProposalRequest {
+  propertyId: string;
+  contactIds: string[];
+  templateId?: string | null;
+  logActivity?: boolean;
+  priceDrop?: { previousPrice: number } | null;
+}
+
+interface ProposalResult {
+  contactId: string;
+  contactName: string;
+  success: boolean;
+  proposalId?: string;
+  error?: string;
+}
+
+interface PropertyRow {
+  id: string;
+  title: string;
+  type: string | null;
+  address: string | null;
+  city: string | null;
+  price: number | null;
+  surface: number | null;
+  images: string[] | null;
+}
+
+interface ContactRow {
+  id: string;
+  full_name: string;
+  email: string | null;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function formatPrice(value: number): string {
+  return new Intl.NumberFormat("fr-FR", {
+    style: "currency",
+    currency: "EUR",
+    maximumFractionDigits: 0,
+  }).format(value);
+}
+
+// Same variable set as injectVariables() in src/components/emails/VariableInjector.tsx,
+// plus {bien_ancien_prix} for price drop notices
+function replaceVars(
+  text: string,
+  contact: ContactRow,
+  property: PropertyRow,
+  agentFullName: string,
+  agencyName: string,
+  previousPrice?: number,
+): string {
+  const contactNames = contact.full_name.split(" ");
+  const agentNames = agentFullName.split(" ");
+  const replacements: Record<string, string> = {
+    "{contact_prenom}": contactNames[0] || "Client",
+    "{contact_nom}": contactNames.slice(1).join(" "),
+    "{contact_civilite}": "Madame/Monsieur",
+    "{contact_email}": contact.email ?? "",
+    "{agent_prenom}": agentNames[0] || "Votre conseiller",
+    "{agent_nom}": agentNames.slice(1).join(" "),
+    "{agence_nom}": agencyName,
+    "{bien_type}": property.type ? PROPERTY_TYPE_LABELS[property.type] ?? property.type : "Bien",
+    "{bien_adresse}": property.address ?? "",
+    "{bien_ville}": property.city ?? "",
+    "{bien_prix}": property.price ? formatPrice(Number(property.price)) : "",
+    "{bien_surface}": property.surface ? `${property.surface} m²` : "",
+    "{bien_ancien_prix}": previousPrice ? formatPrice(previousPrice) : "",
+  };
+
+  let result = text;
+  for (const [key, value] of Object.entries(replacements)) {
+    result = result.split(key).join(value);
+  }
+  return result;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// ========== TRACKING HELPERS ==========
+
+async function sign(value: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("")
+    .slice(0, 32);
+}
+
+async function trackedLink(baseUrl: string, proposalId: string, target: string, secret: string) {
+  const signature = await sign(`${proposalId}:${target}`, secret);
+  const params = new URLSearchParams({ t: "click", id: proposalId, u: target, s: signature });
+  return `${baseUrl}?${params.toString()}`;
+}
+
+/** Converts the rendered text body to HTML, routing every link through the click tracker. */
+// Mail clients do not all render WebP: processed photos have a 960px JPEG
+// rendition, enough for a 560px email. Photos processed before it existed
+// keep their WebP file.
+async function emailImage(cover: string): Promise<string> {
+  const jpeg = cover.replace(/\/large\.webp$/, "/medium.jpg");
+  if (jpeg === cover) return cover;
+  try {
+    const res = await fetch(jpeg, { method: "HEAD" });
+    return res.ok ? jpeg : cover.replace(/\/large\.webp$/, "/medium.webp");
+  } catch {
+    return cover;
+  }
+}
+
+async function buildHtml(
+  text: string,
+  property: PropertyRow,
+  proposalId: string,
+  baseUrl: string,
+  secret: string,
+): Promise<string> {
+  const urlPattern = /https?:\/\/[^\s<>"]+/g;
+  const urls = Array.from(new Set(text.match(urlPattern) ?? []));
+  const links = new Map<string, string>();
+  for (const url of urls) {
+    links.set(url, await trackedLink(baseUrl, proposalId, url, secret));
+  }
+
+  let html = escapeHtml(text);
+  for (const [url, tracked] of links) {
+    html = html.split(escapeHtml(url)).join(`<a href="${escapeHtml(tracked)}">${escapeHtml(url)}</a>`);
+  }
+  html = html.replace(/\n/g, "<br>");
+
+  const cover = property.images?.[0];
+  if (cover) {
+    const coverLink = await trackedLink(baseUrl, proposalId, cover, secret);
+    const coverSrc = await emailImage(cover);
+    html = `<p><a href="${escapeHtml(coverLink)}"><img src="${escapeHtml(coverSrc)}" alt="${escapeHtml(property.title)}" style="max-width:560px;width:100%;border-radius:8px" /></a></p>${html}`;
+  }
+
+  const pixel = `${baseUrl}?${new URLSearchParams({ t: "open", id: proposalId }).toString()}`;
+  return `<div style="font-family:Arial,sans-serif;font-size:14px;line-height:1.5;color:#1f2937">${html}</div><img src="${escapeHtml(pixel)}" width="1" height="1" alt="" style="display:none" />`;
+}
+
+// ========== TRACKING ENDPOINTS (GET) ==========
+
+async function handleTracking(url: URL, supabaseUrl: string, serviceKey: string): Promise<Response> {
+  const kind = url.searchParams.get("t");
+  const proposalId = url.searchParams.get("id");
+  const supabase = createClient(supabaseUrl, serviceKey);
+  const now = new Date().toISOString();
+
+  if (kind === "open") {
+    if (proposalId) {
+      // Only the first open is recorded — later opens keep the original timestamp
+      const { error } = await supabase
+        .from("property_proposals")
+        .update({ opened_at: now })
+        .eq("id", proposalId)
+        .is("opened_at", null);
+      if (error) console.error("Open tracking failed:", error.message);
+    }
+    return new Response(PIXEL, {
+      status: 200,
+      headers: {
+        "Content-Type": "image/gif",
+        "Cache-Control": "no-store, no-cache, must-revalidate, private",
+      },
+    });
+  }
+
+  if (kind === "click") {
+    const target = url.searchParams.get("u");
+    const signature = url.searchParams.get("s");
+
+    if (!proposalId || !target || !signature || !/^https?:\/\//.test(target)) {
+      return new Response("Lien invalide", { status: 400 });
+    }
+
+    // Refuse to act as an open redirect: the target must have been signed by us
+    const expected = await sign(`${proposalId}:${target}`, serviceKey);
+    if (expected !== signature) {
+      return new Response("Lien invalide", { status: 400 });
+    }
+
+    const { error: clickError } = await supabase
+      .from("property_proposals")
+      .update({ clicked_at: now })
+      .eq("id", proposalId)
+      .is("clicked_at", null);
+    if (clickError) console.error("Click tracking failed:", clickError.message);
+
+    // A click implies the email was opened, even when images were blocked
+    await supabase
+      .from("property_proposals")
+      .update({ opened_at: now })
+      .eq("id", proposalId)
+      .is("opened_at", null);
+
+    return new Response(null, { status: 302, headers: { Location: target } });
+  }
+
+  return new Response("Not found", { status: 404 });
+}
+
+// ========== SEND (POST) ==========
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+  if (req.method === "GET") {
+    return handleTracking(new URL(req.url), supabaseUrl, supabaseServiceKey);
+  }
+
+  try {
+    const resendApiKey = Deno.env.get("RESEND_API_KEY");
+    if (!resendApiKey) {
+      console.error("RESEND_API_KEY not configured");
+      return json({ error: "RESEND_API_KEY non configurée" }, 500);
+    }
+
+    // ========== JWT AUTHENTICATION ==========
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return json({ error: "Non autorisé - Token manquant" }, 401);
+    }
+
+    const userSupabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await userSupabase.auth.getUser(token);
+    if (userError || !userData?.user) {
+      return json({ error: "Non autorisé - Token invalide" }, 401);
+    }
+
+    const userId = userData.user.id;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: profile, error: profileError } = await supabase
+      .from("profiles")
+      .select("organization_id, full_name, email")
+      .eq("user_id", userId)
+      .single();
+
+    if (profileError || !profile) {
+      console.error("Profile fetch failed:", profileError?.message);
+      return json({ error: "Profil utilisateur non trouvé" }, 403);
+    }
+
+    const organizationId = profile.organization_id as string;
+
+    // ========== PARSE REQUEST ==========
+    const { propertyId, contactIds, templateId, logActivity = true, priceDrop }: ProposalRequest = await req.json();
+    const previousPrice = priceDrop?.previousPrice ? Number(priceDrop.previousPrice) : undefined;
+
+    if (!propertyId || !Array.isArray(contactIds) || contactIds.length === 0) {
+      return json({ error: "Champs requis : propertyId, contactIds" }, 400);
+    }
+
+    if (contactIds.length > MAX_RECIPIENTS) {
+      return json({ error: `Maximum ${MAX_RECIPIENTS} destinataires par envoi` }, 400);
+    }
+
+    // ========== LOAD PROPERTY, TEMPLATE, ORGANIZATION ==========
+    const { data: property, error: propertyError } = await supabase
+      .from("properties")
+      .select("id, title, type, address, city, price, surface, images")
+      .eq("id", propertyId)
+      .eq("organization_id", organizationId)
+      .single();
+
+    if (propertyError || !property) {
+      return json({ error: "Bien introuvable" }, 404);
+    }
+
+    let templateQuery = supabase
+      .from("email_templates")
+      .select("id, subject, content, usage_count")
+      .eq("organization_id", organizationId)
+      .eq("category", "property_proposal");
+    templateQuery = templateId ? templateQuery.eq("id", templateId) : templateQuery.order("created_at");
+    // Price drop notices use their own wording unless a template is explicitly chosen
+    const { data: templates } = templateId || !previousPrice ? await templateQuery.limit(1) : { data: null };
+    const template = templates?.[0] ?? null;
+
+    if (templateId && !template) {
+      return json({ error: "Modèle d'email introuvable" }, 404);
+    }
+
+    const { data: org } = await supabase
+      .from("organizations")
+      .select("name")
+      .eq("id", organizationId)
+      .single();
+
+    const { data: contacts, error: contactsError } = await supabase
+      .from("contacts")
+      .select("id, full_name, email")
+      .in("id", contactIds)
+      .eq("organization_id", organizationId);
+
+    if (contactsError) {
+      return json({ error: contactsError.message }, 500);
+    }
+
+    const agentFullName = profile.full_name ?? "Votre conseiller";
+    const agencyName = org?.name ?? "";
+    const subjectSource = template?.subject ?? (previousPrice ? PRICE_DROP_SUBJECT : DEFAULT_SUBJECT);
+    const contentSource = template?.content ?? (previousPrice ? PRICE_DROP_CONTENT : DEFAULT_CONTENT);
+    const trackingBaseUrl = `${supabaseUrl}/functions/v1/send-property-proposal`;
+
+    // ========== SEND, ONE EMAIL PER BUYER ==========
+    const results: ProposalResult[] = [];
+
+    for (const contactId of contactIds) {
+      const contact = (contacts as ContactRow[] | null)?.find((c) => c.id === contactId);
+
+      if (!contact) {
+        results.push({ contactId, contactName: "Contact inconnu", success: false, error: "Contact introuvable" });
+        continue;
+      }
+
+      if (!contact.email) {
+        results.push({ contactId, contactName: contact.full_name, success: false, error: "Aucune adresse email" });
+        continue;
+      }
+
+      // The row is created before sending so the pixel and links already resolve
+      const { data: proposal, error: insertError } = await supabase
+        .from("property_proposals")
+        .insert({
+          organization_id: organizationId,
+          property_id: property.id,
+          contact_id: contact.id,
+          template_id: template?.id ?? null,
+        })
+        .select("id")
+        .single();
+
+      if (insertError || !proposal) {
+        console.error(`Proposal insert failed for contact ${contact.id}:`, insertError?.message);
+        results.push({ contactId, contactName: contact.full_name, success: false, error: "Enregistrement impossible" });
+        continue;
+      }
+
+      const proposalId = proposal.id as string;
+
+      try {
+        const subject = replaceVars(subjectSource, contact, property, agentFullName, agencyName, previousPrice);
+        const text = replaceVars(contentSource, contact, property, agentFullName, agencyName, previousPrice);
+        const html = await buildHtml(text, property, proposalId, trackingBaseUrl, supabaseServiceKey);
+
+        const resendResponse = await fetch("https://api.resend.com/emails", {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${resendApiKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            from: `${agencyName || "SynaPilot"} <noreply@synapilot.fr>`,
+            to: contact.email,
+            reply_to: profile.email ?? undefined,
+            subject,
+            html,
+            text,
+          }),
+        });
+
+        if (!resendResponse.ok) {
+          const errorText = await resendResponse.text();
+          console.error(`Resend error for contact ${contact.id}:`, errorText);
+          await supabase.from("property_proposals").delete().eq("id", proposalId);
+          results.push({ contactId, contactName: contact.full_name, success: false, error: "Échec de l'envoi" });
+          continue;
+        }
+
+        const sentAt = new Date().toISOString();
+        await supabase.from("property_proposals").update({ sent_at: sentAt }).eq("id", proposalId);
+
+        if (logActivity) {
+          await supabase.from("activities").insert({
+            organization_id: organizationId,
+            name: previousPrice
+              ? `\u{1F4E7} Baisse de prix : ${property.title}`
+              : `\u{1F4E7} Proposition : ${property.title}`,
+            description: `Proposition du bien "${property.title}" envoyée à ${contact.full_name}\nObjet : ${subject}`,
+            type: "email",
+            status: "termine",
+            priority: "normale",
+            date: sentAt,
+            completed_at: sentAt,
+            contact_id: contact.id,
+            property_id: property.id,
+            created_by: userId,
+          });
+        }
+
+        results.push({ contactId, contactName: contact.full_name, success: true, proposalId });
+      } catch (err) {
+        console.error(`Error sending proposal to ${contact.id}:`, err);
+        await supabase.from("property_proposals").delete().eq("id", proposalId);
+        results.push({
+          contactId,
+          contactName: contact.full_name,
+          success: false,
+          error: err instanceof Error ? err.message : "Erreur inconnue",
+        });
+      }
+    }
+
+    const success = results.filter((r) => r.success).length;
+
+    if (template && success > 0) {
+      await supabase
+        .from("email_templates")
+        .update({ usage_count: (template.usage_count ?? 0) + success })
+        .eq("id", template.id);
+    }
+
+    return json({
+      summary: { total: results.length, success, failed: results.length - success },
+      results,
+    });
+  } catch (error) {
+    console.error("Fatal error in send-property-proposal:", error);
+    return json(
+      { error: "Erreur serveur", message: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
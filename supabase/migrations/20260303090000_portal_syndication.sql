@@ -0,0 +1,22 @@
+-- =====================================================
+-- Migration: portal syndication (SeLoger / Poliris)
+-- =====================================================
+-- Adds a per-property opt-in flag read by the export-portal-feed
+-- Edge Function. Only properties with publish_to_portals = true
+-- and status = 'disponible' are included in the Poliris zip and
+-- in the public XML feed.
+--
+-- Feed settings live in organizations.settings:
+-- {
+--   "portals": {
+--     "agency_code": "AG12345",   -- Poliris agency identifier
+--     "feed_token":  "<random>"   -- secret required by the public XML feed
+--   }
+-- }
+
+ALTER TABLE public.properties
+  ADD COLUMN IF NOT EXISTS publish_to_portals BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_properties_publish_to_portals
+  ON public.properties(organization_id)
+  WHERE publish_to_portals = true;
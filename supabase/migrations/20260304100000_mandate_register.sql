@@ -0,0 +1,190 @@
+-- =====================================================
+-- Migration: legal mandate register (registre des mandats)
+-- =====================================================
+-- Loi Hoguet / décret du 20 juillet 1972 : every mandate must be
+-- entered in a chronological register, numbered without gaps.
+--
+-- - mandate_counters holds the last number issued per organization.
+-- - public.register_mandate() allocates the next number and inserts
+--   the register entry in the same transaction: the counter row lock
+--   serializes concurrent calls, and a failed insert rolls the counter
+--   back, so numbers are never skipped or reused.
+-- - Entries are never deleted: ending a mandate means setting its
+--   status to 'expire', 'resilie' or 'realise'.
+--
+-- To continue an existing paper register, seed the counter:
+--   INSERT INTO public.mandate_counters (organization_id, last_number)
+--   VALUES ('<org id>', <last paper number>);
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE public.mandate_counters (
+  organization_id UUID PRIMARY KEY REFERENCES public.organizations(id) ON DELETE CASCADE,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.mandates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  number INTEGER NOT NULL,
+  property_id UUID REFERENCES public.properties(id) ON DELETE SET NULL,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  -- Snapshots kept for the register even if the property / contact is removed
+  property_label TEXT NOT NULL,
+  mandator_name TEXT,
+  mandate_type TEXT NOT NULL CHECK (mandate_type IN ('simple', 'exclusif', 'semi_exclusif', 'recherche')),
+  status TEXT NOT NULL DEFAULT 'actif' CHECK (status IN ('actif', 'expire', 'resilie', 'realise')),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  tacit_renewal BOOLEAN NOT NULL DEFAULT false,
+  renewal_terms TEXT,
+  notice_period_days INTEGER,
+  price NUMERIC,
+  fees NUMERIC,
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, number),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX idx_mandates_organization_id ON public.mandates(organization_id);
+CREATE INDEX idx_mandates_property_id ON public.mandates(property_id);
+CREATE INDEX idx_mandates_end_date ON public.mandates(end_date) WHERE status = 'actif';
+
+-- =====================================================
+-- RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.mandate_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mandates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view mandate counter in their organization"
+  ON public.mandate_counters FOR SELECT
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can view mandates in their organization"
+  ON public.mandates FOR SELECT
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can update mandates in their organization"
+  ON public.mandates FOR UPDATE
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- No INSERT policy: entries are created through public.register_mandate()
+-- No DELETE policy: the register must stay gap-free
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_mandates_updated_at
+  BEFORE UPDATE ON public.mandates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Register identity (number, organization, start date) is immutable
+CREATE OR REPLACE FUNCTION public.protect_mandate_register()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.number <> OLD.number
+     OR NEW.organization_id <> OLD.organization_id
+     OR NEW.start_date <> OLD.start_date
+     OR NEW.created_at <> OLD.created_at THEN
+    RAISE EXCEPTION 'Le numéro, l''agence et la date de début d''un mandat enregistré ne peuvent pas être modifiés';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_mandate_register
+  BEFORE UPDATE ON public.mandates
+  FOR EACH ROW EXECUTE FUNCTION public.protect_mandate_register();
+
+-- =====================================================
+-- FUNCTION: register_mandate
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.register_mandate(
+  p_property_id UUID,
+  p_mandate_type TEXT,
+  p_start_date DATE,
+  p_end_date DATE DEFAULT NULL,
+  p_contact_id UUID DEFAULT NULL,
+  p_tacit_renewal BOOLEAN DEFAULT false,
+  p_renewal_terms TEXT DEFAULT NULL,
+  p_notice_period_days INTEGER DEFAULT NULL,
+  p_price NUMERIC DEFAULT NULL,
+  p_fees NUMERIC DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS public.mandates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org UUID;
+  v_profile_id UUID;
+  v_property public.properties%ROWTYPE;
+  v_mandator TEXT;
+  v_number INTEGER;
+  v_mandate public.mandates%ROWTYPE;
+BEGIN
+  SELECT id, organization_id INTO v_profile_id, v_org
+  FROM public.profiles
+  WHERE user_id = auth.uid()
+  LIMIT 1;
+
+  IF v_org IS NULL THEN
+    RAISE EXCEPTION 'Organisation non trouvée';
+  END IF;
+
+  SELECT * INTO v_property
+  FROM public.properties
+  WHERE id = p_property_id AND organization_id = v_org;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bien introuvable';
+  END IF;
+
+  IF p_contact_id IS NOT NULL THEN
+    SELECT full_name INTO v_mandator
+    FROM public.contacts
+    WHERE id = p_contact_id AND organization_id = v_org;
+  END IF;
+
+  -- Row lock on the counter serializes concurrent allocations
+  INSERT INTO public.mandate_counters (organization_id, last_number)
+  VALUES (v_org, 1)
+  ON CONFLICT (organization_id)
+  DO UPDATE SET last_number = public.mandate_counters.last_number + 1, updated_at = now()
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO public.mandates (
+    organization_id, number, property_id, contact_id, property_label, mandator_name,
+    mandate_type, start_date, end_date, tacit_renewal, renewal_terms,
+    notice_period_days, price, fees, notes, created_by
+  ) VALUES (
+    v_org, v_number, p_property_id, p_contact_id,
+    concat_ws(' — ', v_property.title, nullif(concat_ws(' ', v_property.address, v_property.postal_code, v_property.city), '')),
+    v_mandator, p_mandate_type, p_start_date, p_end_date, coalesce(p_tacit_renewal, false), p_renewal_terms,
+    p_notice_period_days, coalesce(p_price, v_property.price), p_fees, p_notes, v_profile_id
+  )
+  RETURNING * INTO v_mandate;
+
+  UPDATE public.properties
+  SET mandate_number = v_number::text,
+      mandate_type = p_mandate_type
+  WHERE id = p_property_id;
+
+  RETURN v_mandate;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.register_mandate(UUID, TEXT, DATE, DATE, UUID, BOOLEAN, TEXT, INTEGER, NUMERIC, NUMERIC, TEXT) TO authenticated;
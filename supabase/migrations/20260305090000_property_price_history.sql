@@ -0,0 +1,82 @@
+-- =====================================================
+-- Migration: property price history
+-- =====================================================
+-- Every change of properties.price is logged by a trigger, whatever
+-- screen or import made it, so the app can show a price timeline and
+-- flag recent price drops ("baisse de prix").
+--
+-- Rows are written by the trigger only (no insert/update/delete
+-- policies); they are removed with the property.
+
+-- =====================================================
+-- TABLE
+-- =====================================================
+
+CREATE TABLE public.property_price_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  property_id UUID NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  -- NULL for the initial price of the listing
+  old_price NUMERIC,
+  new_price NUMERIC,
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_property_price_history_property_id ON public.property_price_history(property_id, changed_at DESC);
+CREATE INDEX idx_property_price_history_org_changed_at ON public.property_price_history(organization_id, changed_at DESC);
+
+-- =====================================================
+-- RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.property_price_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view property price history in their organization"
+  ON public.property_price_history FOR SELECT
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- =====================================================
+-- TRIGGER: log price changes
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.log_property_price_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.price IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.price IS NOT DISTINCT FROM OLD.price THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.property_price_history (organization_id, property_id, old_price, new_price, changed_by)
+  VALUES (
+    NEW.organization_id,
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.price END,
+    NEW.price,
+    (SELECT id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_property_price_change
+  AFTER INSERT OR UPDATE OF price ON public.properties
+  FOR EACH ROW EXECUTE FUNCTION public.log_property_price_change();
+
+-- =====================================================
+-- BACKFILL: current price as the starting point
+-- =====================================================
+
+INSERT INTO public.property_price_history (organization_id, property_id, old_price, new_price, changed_at)
+SELECT organization_id, id, NULL, price, COALESCE(created_at, now())
+FROM public.properties
+WHERE price IS NOT NULL;
@@ -0,0 +1,32 @@
+-- =====================================================
+-- Migration: viager
+-- =====================================================
+-- Viager-specific fields on properties (transaction_type = 'viager')
+-- and the matching criteria buyers can set on their searches.
+--
+-- For a viager, properties.price holds the valeur vénale (market value
+-- of the free property); the buyer pays viager_bouquet upfront and
+-- viager_rente every month to the seller(s) (crédirentiers).
+
+-- =====================================================
+-- PROPERTIES
+-- =====================================================
+
+ALTER TABLE public.properties
+  ADD COLUMN viager_occupancy TEXT CHECK (viager_occupancy IN ('occupe', 'libre')),
+  ADD COLUMN viager_bouquet NUMERIC CHECK (viager_bouquet >= 0),
+  ADD COLUMN viager_rente NUMERIC CHECK (viager_rente >= 0),
+  -- One entry per crédirentier (one or two heads): [{"age": 78, "sex": "F"}]
+  ADD COLUMN viager_sellers JSONB;
+
+COMMENT ON COLUMN public.properties.viager_rente IS 'Monthly rente paid to the seller(s), in euros';
+
+-- =====================================================
+-- CONTACT SEARCHES
+-- =====================================================
+
+ALTER TABLE public.contact_searches
+  ADD COLUMN max_rente NUMERIC CHECK (max_rente >= 0),
+  ADD COLUMN viager_occupancy TEXT CHECK (viager_occupancy IN ('occupe', 'libre'));
+
+COMMENT ON COLUMN public.contact_searches.max_rente IS 'Highest monthly viager rente the buyer accepts; budget_max then applies to the bouquet';
@@ -0,0 +1,85 @@
+-- =====================================================
+-- Migration: rental management (gestion locative)
+-- =====================================================
+-- - Rental terms on properties (transaction_type = 'location'):
+--   properties.price holds the monthly rent excluding charges (loyer
+--   hors charges), the new columns hold the rest of the listing terms.
+-- - leases: one row per lease (bail) linking the property, the tenant
+--   (locataire) and the owner (bailleur), with its own copy of the
+--   terms, since the listing terms change between tenants.
+
+-- =====================================================
+-- PROPERTIES
+-- =====================================================
+
+ALTER TABLE public.properties
+  ADD COLUMN rent_charges NUMERIC CHECK (rent_charges >= 0),
+  ADD COLUMN security_deposit NUMERIC CHECK (security_deposit >= 0),
+  ADD COLUMN is_furnished BOOLEAN NOT NULL DEFAULT false,
+  -- Encadrement des loyers: loyer de référence majoré, in €/m²/month
+  ADD COLUMN reference_rent_m2 NUMERIC CHECK (reference_rent_m2 >= 0);
+
+COMMENT ON COLUMN public.properties.rent_charges IS 'Monthly charges (provision sur charges) for rentals, in euros';
+COMMENT ON COLUMN public.properties.reference_rent_m2 IS 'Rent control ceiling (loyer de référence majoré), in €/m²/month';
+
+-- =====================================================
+-- TABLE
+-- =====================================================
+
+CREATE TABLE public.leases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  property_id UUID NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  tenant_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  owner_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'actif' CHECK (status IN ('actif', 'termine', 'resilie')),
+  is_furnished BOOLEAN NOT NULL DEFAULT false,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  rent_amount NUMERIC NOT NULL CHECK (rent_amount >= 0),
+  charges_amount NUMERIC CHECK (charges_amount >= 0),
+  deposit_amount NUMERIC CHECK (deposit_amount >= 0),
+  -- Next annual rent revision (révision IRL) and its reference quarter, e.g. 'T2 2025'
+  indexation_date DATE,
+  irl_reference TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_date > start_date)
+);
+
+CREATE INDEX idx_leases_organization_id ON public.leases(organization_id);
+CREATE INDEX idx_leases_property_id ON public.leases(property_id, start_date DESC);
+CREATE INDEX idx_leases_tenant_id ON public.leases(tenant_id);
+CREATE INDEX idx_leases_end_date ON public.leases(organization_id, end_date) WHERE status = 'actif';
+
+-- =====================================================
+-- RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.leases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view leases in their organization"
+  ON public.leases FOR SELECT
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can create leases in their organization"
+  ON public.leases FOR INSERT
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can update leases in their organization"
+  ON public.leases FOR UPDATE
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can delete leases in their organization"
+  ON public.leases FOR DELETE
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_leases_updated_at
+  BEFORE UPDATE ON public.leases
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
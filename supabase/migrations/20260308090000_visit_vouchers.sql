@@ -0,0 +1,82 @@
+-- =====================================================
+-- Migration: bons de visite (visit vouchers)
+-- =====================================================
+-- A bon de visite records that a prospect visited a property through
+-- the agency, which protects the agency's fees if the sale is later
+-- concluded directly with the owner.
+--
+-- - One voucher per 'visite' activity (activity_id is unique). Deleting
+--   the activity only unlinks the voucher, it stays attached to the
+--   contact and the property.
+-- - The visitor, property, date and fee mention are snapshots taken
+--   when the voucher is drawn up, so the signed document never changes
+--   when the contact or listing is edited afterwards.
+-- - The on-screen signature is stored as a PNG data URL. Once signed
+--   (signed_at set), a voucher can no longer be updated or deleted.
+
+-- =====================================================
+-- TABLE
+-- =====================================================
+
+CREATE TABLE public.visit_vouchers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  activity_id UUID UNIQUE REFERENCES public.activities(id) ON DELETE SET NULL,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  property_id UUID REFERENCES public.properties(id) ON DELETE SET NULL,
+  -- Snapshots
+  visitor_name TEXT NOT NULL,
+  visitor_email TEXT,
+  visitor_phone TEXT,
+  property_label TEXT NOT NULL,
+  property_address TEXT,
+  property_price NUMERIC,
+  mandate_number INTEGER,
+  visit_date TIMESTAMPTZ NOT NULL,
+  fee_mention TEXT NOT NULL,
+  agent_name TEXT,
+  -- Signature
+  signature TEXT,
+  signed_by_name TEXT,
+  signed_at TIMESTAMPTZ,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (signed_at IS NULL OR signature IS NOT NULL)
+);
+
+CREATE INDEX idx_visit_vouchers_organization_id ON public.visit_vouchers(organization_id);
+CREATE INDEX idx_visit_vouchers_contact_id ON public.visit_vouchers(contact_id);
+CREATE INDEX idx_visit_vouchers_property_id ON public.visit_vouchers(property_id);
+
+-- =====================================================
+-- RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.visit_vouchers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view visit vouchers in their organization"
+  ON public.visit_vouchers FOR SELECT
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can create visit vouchers in their organization"
+  ON public.visit_vouchers FOR INSERT
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- Signing is the last allowed update: the row must still be unsigned before it
+CREATE POLICY "Users can update unsigned visit vouchers in their organization"
+  ON public.visit_vouchers FOR UPDATE
+  USING (organization_id = public.get_user_organization_id(auth.uid()) AND signed_at IS NULL)
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can delete unsigned visit vouchers in their organization"
+  ON public.visit_vouchers FOR DELETE
+  USING (organization_id = public.get_user_organization_id(auth.uid()) AND signed_at IS NULL);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_visit_vouchers_updated_at
+  BEFORE UPDATE ON public.visit_vouchers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
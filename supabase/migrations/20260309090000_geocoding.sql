@@ -0,0 +1,34 @@
+-- =====================================================
+-- Migration: geocoding and geographic buyer searches
+-- =====================================================
+-- - properties get WGS84 coordinates, filled by the app's geocoder
+--   (Base Adresse Nationale) when the address is saved.
+-- - contact_searches can define a search area, either a circle
+--   ("within radius_km of center") or a polygon drawn on the map,
+--   stored as [[lat, lng], ...].
+
+-- =====================================================
+-- PROPERTIES
+-- =====================================================
+
+ALTER TABLE public.properties
+  ADD COLUMN latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  ADD COLUMN geocoded_at TIMESTAMPTZ;
+
+CREATE INDEX idx_properties_coordinates ON public.properties(organization_id, latitude, longitude)
+  WHERE latitude IS NOT NULL;
+
+-- =====================================================
+-- CONTACT SEARCHES
+-- =====================================================
+
+ALTER TABLE public.contact_searches
+  ADD COLUMN center_lat DOUBLE PRECISION CHECK (center_lat BETWEEN -90 AND 90),
+  ADD COLUMN center_lng DOUBLE PRECISION CHECK (center_lng BETWEEN -180 AND 180),
+  ADD COLUMN center_label TEXT,
+  ADD COLUMN radius_km NUMERIC CHECK (radius_km > 0),
+  ADD COLUMN search_polygon JSONB;
+
+COMMENT ON COLUMN public.contact_searches.radius_km IS 'Search radius around (center_lat, center_lng), in kilometres';
+COMMENT ON COLUMN public.contact_searches.search_polygon IS 'Search area drawn on the map: [[lat, lng], ...], takes precedence over the radius';
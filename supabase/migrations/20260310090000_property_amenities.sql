@@ -0,0 +1,64 @@
+-- =====================================================
+-- Migration: structured property amenities
+-- =====================================================
+-- - properties.features is now an object following the amenity catalog
+--   of src/lib/amenities.ts (yes/no amenities, exposure, view).
+-- - contact_searches gets must-have and nice-to-have amenity criteria,
+--   scored by the property matching.
+
+-- =====================================================
+-- PROPERTIES
+-- =====================================================
+
+-- Rows written before the catalog may hold a list of amenities (keys or
+-- French labels, as an array or a comma-separated string) or another scalar.
+-- Recognized amenities become flags and the original value is kept under
+-- "legacy", which the app preserves on save.
+WITH legacy AS (
+  SELECT
+    id,
+    features,
+    CASE jsonb_typeof(features)
+      WHEN 'array' THEN ARRAY(SELECT jsonb_array_elements_text(features))
+      WHEN 'string' THEN regexp_split_to_array(features #>> '{}', '\s*[,;]\s*')
+      ELSE ARRAY[]::TEXT[]
+    END AS terms
+  FROM public.properties
+  WHERE features IS NOT NULL AND jsonb_typeof(features) <> 'object'
+),
+amenity_terms (term, amenity) AS (
+  VALUES
+    ('balcony', 'balcony'), ('balcon', 'balcony'),
+    ('terrace', 'terrace'), ('terrasse', 'terrace'),
+    ('garden', 'garden'), ('jardin', 'garden'),
+    ('elevator', 'elevator'), ('ascenseur', 'elevator'),
+    ('parking', 'parking'), ('garage', 'parking'), ('parking / garage', 'parking'),
+    ('cellar', 'cellar'), ('cave', 'cellar'),
+    ('pool', 'pool'), ('piscine', 'pool'),
+    ('accessibility', 'accessibility'), ('acces pmr', 'accessibility'), ('pmr', 'accessibility')
+)
+UPDATE public.properties p
+SET features = COALESCE((
+    SELECT jsonb_object_agg(a.amenity, true)
+    FROM unnest(l.terms) AS t(term)
+    JOIN amenity_terms a ON a.term = translate(lower(trim(t.term)), 'àâäéèêëîïôöùûüç', 'aaaeeeeiioouuuc')
+  ), '{}'::jsonb) || jsonb_build_object('legacy', l.features)
+FROM legacy l
+WHERE p.id = l.id;
+
+ALTER TABLE public.properties
+  ADD CONSTRAINT properties_features_object CHECK (features IS NULL OR jsonb_typeof(features) = 'object');
+
+COMMENT ON COLUMN public.properties.features IS
+  'Amenities: { balcony, terrace, garden, elevator, parking, cellar, pool, accessibility: boolean, exposure: nord|nord_est|est|sud_est|sud|sud_ouest|ouest|nord_ouest, view: degagee|mer|montagne|campagne|parc|monument, legacy: value stored before the catalog }';
+
+CREATE INDEX idx_properties_features ON public.properties USING GIN (features);
+
+-- =====================================================
+-- CONTACT SEARCHES
+-- =====================================================
+
+-- Criterion keys: an amenity ('garden'), 'exposure:<exposure>' or 'view:<view>'
+ALTER TABLE public.contact_searches
+  ADD COLUMN must_have_amenities TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN nice_to_have_amenities TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,66 @@
+-- =====================================================
+-- Migration: Dossier de Diagnostic Technique (DDT)
+-- =====================================================
+-- One row per property and diagnostic kind, holding the latest report:
+-- its date, its result (amiante / plomb only) and the uploaded file
+-- (private dpe-documents bucket, {org}/{property}/ddt/...).
+--
+-- Which diagnostics a property needs and how long each one stays valid
+-- is computed by the app (src/lib/diagnostics.ts) from year_built, type
+-- and heating_type. not_applicable lets the agent dismiss an item the
+-- rules cannot decide (termite zone, individual sanitation...).
+
+-- =====================================================
+-- TABLE
+-- =====================================================
+
+CREATE TABLE public.property_diagnostics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  property_id UUID NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('dpe', 'amiante', 'plomb', 'electricite', 'gaz', 'termites', 'erp', 'carrez', 'assainissement')),
+  performed_at DATE,
+  result TEXT CHECK (result IN ('negatif', 'positif')),
+  file_path TEXT,
+  file_name TEXT,
+  not_applicable BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (property_id, kind)
+);
+
+CREATE INDEX idx_property_diagnostics_organization_id ON public.property_diagnostics(organization_id);
+CREATE INDEX idx_property_diagnostics_property_id ON public.property_diagnostics(property_id);
+
+-- =====================================================
+-- RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.property_diagnostics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view property diagnostics in their organization"
+  ON public.property_diagnostics FOR SELECT
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can create property diagnostics in their organization"
+  ON public.property_diagnostics FOR INSERT
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can update property diagnostics in their organization"
+  ON public.property_diagnostics FOR UPDATE
+  USING (organization_id = public.get_user_organization_id(auth.uid()))
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can delete property diagnostics in their organization"
+  ON public.property_diagnostics FOR DELETE
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_property_diagnostics_updated_at
+  BEFORE UPDATE ON public.property_diagnostics
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,203 @@
+-- =====================================================
+-- Migration: Offers and counter-offers per deal
+-- =====================================================
+-- Each purchase offer made on a deal's property, with its conditions
+-- (loan condition, deadlines) and validity date. A counter-offer is a new
+-- row pointing at the offer it answers (parent_offer_id); the answered
+-- offer moves to 'countered'. direction tells who made it: the buyer or
+-- the seller (counter-offer).
+--
+-- accept_offer() accepts an offer atomically: the other pending offers of
+-- the deal are refused and the deal takes the accepted amount and moves
+-- to the compromis stage. counter_offer() records a counter-offer and marks
+-- the answered offer as countered in the same transaction.
+
+-- =====================================================
+-- TABLE
+-- =====================================================
+
+CREATE TABLE public.offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  property_id UUID REFERENCES public.properties(id) ON DELETE SET NULL,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  parent_offer_id UUID REFERENCES public.offers(id) ON DELETE SET NULL,
+  direction TEXT NOT NULL DEFAULT 'buyer' CHECK (direction IN ('buyer', 'seller')),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'refused', 'countered')),
+  offered_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  valid_until DATE,
+  loan_condition BOOLEAN NOT NULL DEFAULT false,
+  loan_amount NUMERIC,
+  loan_deadline DATE,
+  signing_deadline DATE,
+  conditions TEXT,
+  responded_at TIMESTAMPTZ,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_offers_organization_id ON public.offers(organization_id);
+CREATE INDEX idx_offers_deal_id ON public.offers(deal_id);
+CREATE INDEX idx_offers_property_id ON public.offers(property_id);
+CREATE INDEX idx_offers_parent_offer_id ON public.offers(parent_offer_id);
+
+-- =====================================================
+-- RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view offers in their organization"
+  ON public.offers FOR SELECT
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can create offers in their organization"
+  ON public.offers FOR INSERT
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can update offers in their organization"
+  ON public.offers FOR UPDATE
+  USING (organization_id = public.get_user_organization_id(auth.uid()))
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can delete offers in their organization"
+  ON public.offers FOR DELETE
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_offers_updated_at
+  BEFORE UPDATE ON public.offers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.accept_offer(p_offer_id UUID)
+RETURNS public.offers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org UUID;
+  v_offer public.offers%ROWTYPE;
+BEGIN
+  v_org := public.get_user_organization_id(auth.uid());
+
+  IF v_org IS NULL THEN
+    RAISE EXCEPTION 'Organisation non trouvée';
+  END IF;
+
+  SELECT * INTO v_offer
+  FROM public.offers
+  WHERE id = p_offer_id AND organization_id = v_org
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offre introuvable';
+  END IF;
+
+  IF v_offer.status <> 'pending' THEN
+    RAISE EXCEPTION 'Seule une offre en attente peut être acceptée';
+  END IF;
+
+  IF v_offer.valid_until < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Cette offre a expiré le %', to_char(v_offer.valid_until, 'DD/MM/YYYY');
+  END IF;
+
+  UPDATE public.offers
+  SET status = 'accepted', responded_at = now()
+  WHERE id = v_offer.id
+  RETURNING * INTO v_offer;
+
+  UPDATE public.offers
+  SET status = 'refused', responded_at = now()
+  WHERE deal_id = v_offer.deal_id AND id <> v_offer.id AND status = 'pending';
+
+  -- Deals already past the compromis keep their stage
+  UPDATE public.deals
+  SET amount = v_offer.amount,
+      stage = CASE WHEN stage IN ('financement', 'acte', 'vendu') THEN stage ELSE 'compromis' END,
+      probability = CASE WHEN stage IN ('financement', 'acte', 'vendu') THEN probability ELSE 90 END
+  WHERE id = v_offer.deal_id AND organization_id = v_org;
+
+  RETURN v_offer;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.accept_offer(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.counter_offer(p_offer_id UUID, p_values JSONB)
+RETURNS public.offers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org UUID;
+  v_parent public.offers%ROWTYPE;
+  v_values public.offers%ROWTYPE;
+  v_counter public.offers%ROWTYPE;
+BEGIN
+  v_org := public.get_user_organization_id(auth.uid());
+
+  IF v_org IS NULL THEN
+    RAISE EXCEPTION 'Organisation non trouvée';
+  END IF;
+
+  SELECT * INTO v_parent
+  FROM public.offers
+  WHERE id = p_offer_id AND organization_id = v_org
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offre introuvable';
+  END IF;
+
+  IF v_parent.status <> 'pending' THEN
+    RAISE EXCEPTION 'Seule une offre en attente peut recevoir une contre-offre';
+  END IF;
+
+  -- Only the terms come from p_values: the deal, direction and status follow the answered offer
+  v_values := jsonb_populate_record(NULL::public.offers, p_values);
+
+  INSERT INTO public.offers (
+    organization_id, deal_id, property_id, contact_id, parent_offer_id, direction,
+    amount, offered_at, valid_until, loan_condition, loan_amount, loan_deadline,
+    signing_deadline, conditions, created_by
+  )
+  VALUES (
+    v_org,
+    v_parent.deal_id,
+    COALESCE(v_values.property_id, v_parent.property_id),
+    COALESCE(v_values.contact_id, v_parent.contact_id),
+    v_parent.id,
+    CASE WHEN v_parent.direction = 'buyer' THEN 'seller' ELSE 'buyer' END,
+    v_values.amount,
+    COALESCE(v_values.offered_at, CURRENT_DATE),
+    v_values.valid_until,
+    COALESCE(v_values.loan_condition, false),
+    v_values.loan_amount,
+    v_values.loan_deadline,
+    v_values.signing_deadline,
+    v_values.conditions,
+    (SELECT id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1)
+  )
+  RETURNING * INTO v_counter;
+
+  UPDATE public.offers
+  SET status = 'countered', responded_at = now()
+  WHERE id = v_parent.id;
+
+  RETURN v_counter;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.counter_offer(UUID, JSONB) TO authenticated;
@@ -0,0 +1,153 @@
+-- =====================================================
+-- Migration: Contact duplicates and merge
+-- =====================================================
+-- Duplicates are detected in the app (src/lib/contact-duplicates.ts) from
+-- normalized phone, email and name. Pairs the agent marks as "not a
+-- duplicate" are stored in contact_duplicate_dismissals (contact_a < contact_b)
+-- so they are not suggested again.
+--
+-- merge_contacts() keeps one contact, applies the field values chosen in
+-- the review screen, combines tags and notes, re-points every row that
+-- referenced the merged contact and deletes it, in a single transaction.
+
+-- =====================================================
+-- TABLE
+-- =====================================================
+
+CREATE TABLE public.contact_duplicate_dismissals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  contact_a UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  contact_b UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (contact_a < contact_b),
+  UNIQUE (contact_a, contact_b)
+);
+
+CREATE INDEX idx_contact_duplicate_dismissals_organization_id ON public.contact_duplicate_dismissals(organization_id);
+
+-- =====================================================
+-- RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.contact_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view contact duplicate dismissals in their organization"
+  ON public.contact_duplicate_dismissals FOR SELECT
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can create contact duplicate dismissals in their organization"
+  ON public.contact_duplicate_dismissals FOR INSERT
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can delete contact duplicate dismissals in their organization"
+  ON public.contact_duplicate_dismissals FOR DELETE
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.merge_contacts(
+  p_keep_id UUID,
+  p_merge_id UUID,
+  p_values JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.contacts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org UUID;
+  v_keep public.contacts%ROWTYPE;
+  v_merge public.contacts%ROWTYPE;
+  v_values public.contacts%ROWTYPE;
+BEGIN
+  v_org := public.get_user_organization_id(auth.uid());
+
+  IF v_org IS NULL THEN
+    RAISE EXCEPTION 'Organisation non trouvée';
+  END IF;
+
+  -- The merged contact is deleted: same rule as deleting a contact
+  IF NOT (public.has_role(auth.uid(), 'Admin') OR public.has_role(auth.uid(), 'Manager')) THEN
+    RAISE EXCEPTION 'Seuls les administrateurs et managers peuvent fusionner des contacts';
+  END IF;
+
+  IF p_keep_id = p_merge_id THEN
+    RAISE EXCEPTION 'Impossible de fusionner un contact avec lui-même';
+  END IF;
+
+  SELECT * INTO v_keep FROM public.contacts WHERE id = p_keep_id AND organization_id = v_org FOR UPDATE;
+  SELECT * INTO v_merge FROM public.contacts WHERE id = p_merge_id AND organization_id = v_org FOR UPDATE;
+
+  IF v_keep.id IS NULL OR v_merge.id IS NULL THEN
+    RAISE EXCEPTION 'Contact introuvable';
+  END IF;
+
+  -- Chosen values over the surviving record (identity columns are never taken from p_values)
+  v_values := jsonb_populate_record(
+    v_keep,
+    p_values - 'id' - 'organization_id' - 'created_at' - 'tags' - 'notes'
+  );
+
+  -- Related rows
+  UPDATE public.activities SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.deals SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.contact_searches SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.property_proposals SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.properties SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.mandates SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.leases SET tenant_id = p_keep_id WHERE tenant_id = p_merge_id;
+  UPDATE public.leases SET owner_id = p_keep_id WHERE owner_id = p_merge_id;
+  UPDATE public.offers SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.visit_vouchers SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+
+  -- One enrollment per sequence: the surviving contact's wins
+  DELETE FROM public.sequence_enrollments e
+  WHERE e.contact_id = p_merge_id
+    AND EXISTS (
+      SELECT 1 FROM public.sequence_enrollments k
+      WHERE k.contact_id = p_keep_id AND k.sequence_id = e.sequence_id
+    );
+  UPDATE public.sequence_enrollments SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+
+  DELETE FROM public.contact_duplicate_dismissals
+  WHERE contact_a = p_merge_id OR contact_b = p_merge_id;
+
+  DELETE FROM public.contacts WHERE id = p_merge_id;
+
+  UPDATE public.contacts
+  SET full_name = v_values.full_name,
+      email = v_values.email,
+      phone = v_values.phone,
+      role = v_values.role,
+      pipeline_stage = v_values.pipeline_stage,
+      address = v_values.address,
+      postal_code = v_values.postal_code,
+      city = v_values.city,
+      source = v_values.source,
+      assigned_to = v_values.assigned_to,
+      next_followup_date = v_values.next_followup_date,
+      tags = (
+        SELECT array_agg(DISTINCT tag)
+        FROM unnest(coalesce(v_keep.tags, '{}') || coalesce(v_merge.tags, '{}')) AS tag
+      ),
+      notes = CASE
+        WHEN nullif(v_merge.notes, '') IS NULL OR v_merge.notes = v_keep.notes THEN v_keep.notes
+        WHEN nullif(v_keep.notes, '') IS NULL THEN v_merge.notes
+        ELSE v_keep.notes || E'\n\n' || v_merge.notes
+      END,
+      urgency_score = greatest(v_keep.urgency_score, v_merge.urgency_score),
+      last_contact_date = greatest(v_keep.last_contact_date, v_merge.last_contact_date),
+      created_at = least(v_keep.created_at, v_merge.created_at)
+  WHERE id = p_keep_id
+  RETURNING * INTO v_keep;
+
+  RETURN v_keep;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_contacts(UUID, UUID, JSONB) TO authenticated;
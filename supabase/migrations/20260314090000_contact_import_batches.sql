@@ -0,0 +1,163 @@
+-- =====================================================
+-- Migration: Contact import batches
+-- =====================================================
+-- Every run of the contact import (CSV, Google / Outlook exports, vCard)
+-- is recorded as a batch. contact_import_batch_items lists the contacts it
+-- created or updated; for updates, previous_values keeps the fields as they
+-- were before the import. A batch whose items could not all be recorded
+-- ends 'partial': the contacts missing from it are not touched by a revert.
+--
+-- revert_contact_import() undoes a batch in a single transaction: created
+-- contacts are deleted and updated contacts get their previous values back.
+
+-- =====================================================
+-- TABLE
+-- =====================================================
+
+CREATE TABLE public.contact_import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  file_format TEXT NOT NULL DEFAULT 'csv' CHECK (file_format IN ('csv', 'google', 'outlook', 'vcard')),
+  mode TEXT NOT NULL DEFAULT 'create' CHECK (mode IN ('create', 'update')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'partial', 'reverted')),
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reverted_at TIMESTAMPTZ,
+  reverted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_contact_import_batches_organization_id ON public.contact_import_batches(organization_id);
+
+CREATE TABLE public.contact_import_batch_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES public.contact_import_batches(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('created', 'updated')),
+  previous_values JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_contact_import_batch_items_batch_id ON public.contact_import_batch_items(batch_id);
+CREATE INDEX idx_contact_import_batch_items_contact_id ON public.contact_import_batch_items(contact_id);
+
+-- =====================================================
+-- RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.contact_import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view contact import batches in their organization"
+  ON public.contact_import_batches FOR SELECT
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can create contact import batches in their organization"
+  ON public.contact_import_batches FOR INSERT
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can update contact import batches in their organization"
+  ON public.contact_import_batches FOR UPDATE
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+ALTER TABLE public.contact_import_batch_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view contact import batch items in their organization"
+  ON public.contact_import_batch_items FOR SELECT
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can create contact import batch items in their organization"
+  ON public.contact_import_batch_items FOR INSERT
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.revert_contact_import(p_batch_id UUID)
+RETURNS public.contact_import_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org UUID;
+  v_batch public.contact_import_batches%ROWTYPE;
+  v_item RECORD;
+  v_contact public.contacts%ROWTYPE;
+BEGIN
+  v_org := public.get_user_organization_id(auth.uid());
+
+  IF v_org IS NULL THEN
+    RAISE EXCEPTION 'Organisation non trouvée';
+  END IF;
+
+  -- Created contacts are deleted: same rule as deleting a contact
+  IF NOT (public.has_role(auth.uid(), 'Admin') OR public.has_role(auth.uid(), 'Manager')) THEN
+    RAISE EXCEPTION 'Seuls les administrateurs et managers peuvent annuler un import';
+  END IF;
+
+  SELECT * INTO v_batch
+  FROM public.contact_import_batches
+  WHERE id = p_batch_id AND organization_id = v_org
+  FOR UPDATE;
+
+  IF v_batch.id IS NULL THEN
+    RAISE EXCEPTION 'Import introuvable';
+  END IF;
+
+  IF v_batch.status = 'reverted' THEN
+    RAISE EXCEPTION 'Cet import a déjà été annulé';
+  END IF;
+
+  -- Updated contacts get back the values they had before the import
+  FOR v_item IN
+    SELECT contact_id, previous_values
+    FROM public.contact_import_batch_items
+    WHERE batch_id = p_batch_id AND action = 'updated' AND contact_id IS NOT NULL
+  LOOP
+    SELECT * INTO v_contact FROM public.contacts WHERE id = v_item.contact_id FOR UPDATE;
+    CONTINUE WHEN v_contact.id IS NULL;
+
+    v_contact := jsonb_populate_record(
+      v_contact,
+      coalesce(v_item.previous_values, '{}'::jsonb) - 'id' - 'organization_id' - 'created_at'
+    );
+
+    UPDATE public.contacts
+    SET full_name = v_contact.full_name,
+        email = v_contact.email,
+        phone = v_contact.phone,
+        role = v_contact.role,
+        source = v_contact.source,
+        city = v_contact.city,
+        postal_code = v_contact.postal_code,
+        notes = v_contact.notes,
+        tags = v_contact.tags
+    WHERE id = v_contact.id;
+  END LOOP;
+
+  DELETE FROM public.contacts
+  WHERE organization_id = v_org
+    AND id IN (
+      SELECT contact_id
+      FROM public.contact_import_batch_items
+      WHERE batch_id = p_batch_id AND action = 'created' AND contact_id IS NOT NULL
+    );
+
+  UPDATE public.contact_import_batches
+  SET status = 'reverted',
+      reverted_at = now(),
+      reverted_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1)
+  WHERE id = p_batch_id
+  RETURNING * INTO v_batch;
+
+  RETURN v_batch;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.revert_contact_import(UUID) TO authenticated;
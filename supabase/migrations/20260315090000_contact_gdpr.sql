@@ -0,0 +1,266 @@
+-- =====================================================
+-- Migration: GDPR — consents, erasure and retention
+-- =====================================================
+-- contact_consents holds the current consent of a contact for each
+-- prospecting channel (email / SMS / phone): given or withdrawn, how it was
+-- collected and when. Email sequences skip contacts who withdrew their
+-- email consent.
+--
+-- anonymize_contact() implements the right to erasure: identity and
+-- free-text fields are wiped and personal rows (activities, searches,
+-- enrollments, proposals, consents) are deleted, while deals keep their
+-- amounts and commissions for the agency's accounts. Mandates are left
+-- untouched: the registre des mandats must be kept (loi Hoguet). Signed
+-- bons de visite keep their signature and signer for the same reason, only
+-- the visitor's email and phone are wiped.
+--
+-- Retention: organizations.settings.gdpr = { retention_years, retention_action }.
+-- get_inactive_contacts() lists contacts with no contact, activity or deal
+-- update for retention_years, and nothing in progress (open deal, active
+-- lease or mandate). With retention_action = 'purge', the scheduled
+-- apply-contact-retention Edge Function anonymizes them through
+-- purge_inactive_contacts().
+
+-- =====================================================
+-- TABLE
+-- =====================================================
+
+CREATE TABLE public.contact_consents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms', 'phone')),
+  granted BOOLEAN NOT NULL,
+  source TEXT NOT NULL,
+  consented_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  recorded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (contact_id, channel)
+);
+
+CREATE INDEX idx_contact_consents_organization_id ON public.contact_consents(organization_id);
+CREATE INDEX idx_contact_consents_contact_id ON public.contact_consents(contact_id);
+
+ALTER TABLE public.contacts
+  ADD COLUMN anonymized_at TIMESTAMPTZ;
+
+-- =====================================================
+-- RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.contact_consents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view contact consents in their organization"
+  ON public.contact_consents FOR SELECT
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can create contact consents in their organization"
+  ON public.contact_consents FOR INSERT
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can update contact consents in their organization"
+  ON public.contact_consents FOR UPDATE
+  USING (organization_id = public.get_user_organization_id(auth.uid()))
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can delete contact consents in their organization"
+  ON public.contact_consents FOR DELETE
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_contact_consents_updated_at
+  BEFORE UPDATE ON public.contact_consents
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Erasure itself, shared by anonymize_contact() and purge_inactive_contacts()
+CREATE OR REPLACE FUNCTION public.anonymize_contact_data(p_contact_id UUID)
+RETURNS public.contacts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contact public.contacts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_contact FROM public.contacts WHERE id = p_contact_id FOR UPDATE;
+
+  IF v_contact.id IS NULL THEN
+    RAISE EXCEPTION 'Contact introuvable';
+  END IF;
+
+  -- Activities backing a visit voucher are kept (proof of visit), without their notes
+  DELETE FROM public.activities a
+  WHERE a.contact_id = p_contact_id
+    AND NOT EXISTS (SELECT 1 FROM public.visit_vouchers v WHERE v.activity_id = a.id);
+  UPDATE public.activities SET description = NULL WHERE contact_id = p_contact_id;
+
+  -- A signed voucher is a legal record of the visit: name, signer and signature stay
+  UPDATE public.visit_vouchers
+  SET visitor_name = CASE WHEN signed_at IS NULL THEN 'Contact anonymisé' ELSE visitor_name END,
+      visitor_email = NULL,
+      visitor_phone = NULL
+  WHERE contact_id = p_contact_id;
+
+  -- Deals keep their amounts and commissions; the name no longer identifies the person
+  UPDATE public.deals
+  SET name = replace(name, v_contact.full_name, 'Contact anonymisé'),
+      notes = NULL
+  WHERE contact_id = p_contact_id;
+
+  DELETE FROM public.contact_searches WHERE contact_id = p_contact_id;
+  DELETE FROM public.sequence_enrollments WHERE contact_id = p_contact_id;
+  DELETE FROM public.property_proposals WHERE contact_id = p_contact_id;
+  DELETE FROM public.contact_consents WHERE contact_id = p_contact_id;
+  DELETE FROM public.contact_duplicate_dismissals
+  WHERE contact_a = p_contact_id OR contact_b = p_contact_id;
+  DELETE FROM public.contact_import_batch_items WHERE contact_id = p_contact_id;
+
+  UPDATE public.contacts
+  SET full_name = 'Contact anonymisé',
+      email = NULL,
+      phone = NULL,
+      address = NULL,
+      postal_code = NULL,
+      city = NULL,
+      notes = NULL,
+      source = NULL,
+      tags = '{}',
+      next_followup_date = NULL,
+      urgency_score = 0,
+      anonymized_at = now()
+  WHERE id = p_contact_id
+  RETURNING * INTO v_contact;
+
+  RETURN v_contact;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.anonymize_contact_data(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.anonymize_contact(p_contact_id UUID)
+RETURNS public.contacts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org UUID;
+BEGIN
+  v_org := public.get_user_organization_id(auth.uid());
+
+  IF v_org IS NULL THEN
+    RAISE EXCEPTION 'Organisation non trouvée';
+  END IF;
+
+  -- Same rule as deleting a contact
+  IF NOT (public.has_role(auth.uid(), 'Admin') OR public.has_role(auth.uid(), 'Manager')) THEN
+    RAISE EXCEPTION 'Seuls les administrateurs et managers peuvent anonymiser un contact';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.contacts WHERE id = p_contact_id AND organization_id = v_org) THEN
+    RAISE EXCEPTION 'Contact introuvable';
+  END IF;
+
+  RETURN public.anonymize_contact_data(p_contact_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.anonymize_contact(UUID) TO authenticated;
+
+-- Contacts of an organization with no sign of life for p_years
+CREATE OR REPLACE FUNCTION public.inactive_contact_ids(p_organization_id UUID, p_years INTEGER)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id
+  FROM public.contacts c
+  WHERE c.organization_id = p_organization_id
+    AND c.anonymized_at IS NULL
+    AND greatest(
+      c.created_at,
+      c.last_contact_date,
+      (SELECT max(a.date) FROM public.activities a WHERE a.contact_id = c.id),
+      (SELECT max(d.updated_at) FROM public.deals d WHERE d.contact_id = c.id)
+    ) < now() - make_interval(years => p_years)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.deals d
+      WHERE d.contact_id = c.id AND d.stage NOT IN ('vendu', 'perdu')
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.leases l
+      WHERE (l.tenant_id = c.id OR l.owner_id = c.id) AND l.status = 'actif'
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.mandates m
+      WHERE m.contact_id = c.id AND m.status = 'actif'
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.inactive_contact_ids(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_inactive_contacts(p_years INTEGER)
+RETURNS SETOF public.contacts
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org UUID;
+BEGIN
+  v_org := public.get_user_organization_id(auth.uid());
+
+  IF v_org IS NULL THEN
+    RAISE EXCEPTION 'Organisation non trouvée';
+  END IF;
+
+  IF p_years IS NULL OR p_years < 1 THEN
+    RAISE EXCEPTION 'Durée de conservation invalide';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.contacts
+  WHERE id IN (SELECT public.inactive_contact_ids(v_org, p_years))
+  ORDER BY coalesce(last_contact_date, created_at);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_inactive_contacts(INTEGER) TO authenticated;
+
+-- Scheduled purge (service role only), returns the number of anonymized contacts
+CREATE OR REPLACE FUNCTION public.purge_inactive_contacts(p_organization_id UUID, p_years INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF p_years IS NULL OR p_years < 1 THEN
+    RAISE EXCEPTION 'Durée de conservation invalide';
+  END IF;
+
+  FOR v_id IN SELECT public.inactive_contact_ids(p_organization_id, p_years) LOOP
+    PERFORM public.anonymize_contact_data(v_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_inactive_contacts(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_inactive_contacts(UUID, INTEGER) TO service_role;
@@ -0,0 +1,104 @@
+-- =====================================================
+-- Migration: Contact relationships and deal parties
+-- =====================================================
+-- contact_relationships links two contacts with a type. Each row reads
+-- "contact_id is <type> related_contact_id":
+--   spouse, co_buyer   symmetric (a household, two buyers)
+--   notary_of          contact_id is the notaire of related_contact_id
+--   banker_of          contact_id is the banker of related_contact_id
+--   referred_by        contact_id was referred by related_contact_id
+-- A pair of contacts holds at most one relationship of each type, whatever
+-- the direction, and a contact has at most one referrer.
+--
+-- deal_parties attaches extra contacts to a deal with their role (co-buyer,
+-- seller, notaire, banker, referrer…). deals.contact_id stays the main
+-- contact of the deal.
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+CREATE TABLE public.contact_relationships (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  related_contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('spouse', 'co_buyer', 'notary_of', 'banker_of', 'referred_by')),
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (contact_id <> related_contact_id)
+);
+
+CREATE INDEX idx_contact_relationships_organization_id ON public.contact_relationships(organization_id);
+CREATE INDEX idx_contact_relationships_contact_id ON public.contact_relationships(contact_id);
+CREATE INDEX idx_contact_relationships_related_contact_id ON public.contact_relationships(related_contact_id);
+CREATE UNIQUE INDEX idx_contact_relationships_pair
+  ON public.contact_relationships(least(contact_id, related_contact_id), greatest(contact_id, related_contact_id), type);
+CREATE UNIQUE INDEX idx_contact_relationships_single_referrer
+  ON public.contact_relationships(contact_id) WHERE type = 'referred_by';
+
+CREATE TABLE public.deal_parties (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('acquereur', 'co_acquereur', 'vendeur', 'co_vendeur', 'notaire', 'banquier', 'apporteur', 'autre')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (deal_id, contact_id, role)
+);
+
+CREATE INDEX idx_deal_parties_organization_id ON public.deal_parties(organization_id);
+CREATE INDEX idx_deal_parties_deal_id ON public.deal_parties(deal_id);
+CREATE INDEX idx_deal_parties_contact_id ON public.deal_parties(contact_id);
+
+-- =====================================================
+-- RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.contact_relationships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view contact relationships in their organization"
+  ON public.contact_relationships FOR SELECT
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can create contact relationships in their organization"
+  ON public.contact_relationships FOR INSERT
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can update contact relationships in their organization"
+  ON public.contact_relationships FOR UPDATE
+  USING (organization_id = public.get_user_organization_id(auth.uid()))
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can delete contact relationships in their organization"
+  ON public.contact_relationships FOR DELETE
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+ALTER TABLE public.deal_parties ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view deal parties in their organization"
+  ON public.deal_parties FOR SELECT
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can create deal parties in their organization"
+  ON public.deal_parties FOR INSERT
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can update deal parties in their organization"
+  ON public.deal_parties FOR UPDATE
+  USING (organization_id = public.get_user_organization_id(auth.uid()))
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can delete deal parties in their organization"
+  ON public.deal_parties FOR DELETE
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_contact_relationships_updated_at
+  BEFORE UPDATE ON public.contact_relationships
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,114 @@
+-- =====================================================
+-- Migration: pipeline stage history
+-- =====================================================
+-- Every change of contacts.pipeline_stage and deals.stage is logged by a
+-- trigger, whatever screen or automation made it, so the contact timeline
+-- can show when a lead or a deal moved forward.
+--
+-- A deal row is also stamped with the deal's main contact, so a contact's
+-- history is read with a single contact_id filter. deal_id is NULL for the
+-- contact's own pipeline.
+--
+-- Rows are written by the triggers only (no insert/update/delete
+-- policies); they are removed with the contact or the deal.
+--
+-- activities.sequence_enrollment_id links the activity logged for each
+-- email sent by process-email-sequences to its enrollment.
+
+-- =====================================================
+-- TABLE
+-- =====================================================
+
+CREATE TABLE public.pipeline_stage_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE CASCADE,
+  deal_id UUID REFERENCES public.deals(id) ON DELETE CASCADE,
+  -- NULL when the record had no stage before the change. Only changes are
+  -- logged: the stage a record is created with has no row (see created_at).
+  old_stage TEXT,
+  new_stage TEXT,
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (contact_id IS NOT NULL OR deal_id IS NOT NULL)
+);
+
+CREATE INDEX idx_pipeline_stage_history_contact_id ON public.pipeline_stage_history(contact_id, changed_at DESC);
+CREATE INDEX idx_pipeline_stage_history_deal_id ON public.pipeline_stage_history(deal_id, changed_at DESC);
+CREATE INDEX idx_pipeline_stage_history_org_changed_at ON public.pipeline_stage_history(organization_id, changed_at DESC);
+
+ALTER TABLE public.activities
+  ADD COLUMN sequence_enrollment_id UUID REFERENCES public.sequence_enrollments(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_activities_sequence_enrollment_id ON public.activities(sequence_enrollment_id);
+
+-- =====================================================
+-- RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.pipeline_stage_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view pipeline stage history in their organization"
+  ON public.pipeline_stage_history FOR SELECT
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- =====================================================
+-- TRIGGERS: log stage changes
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.log_contact_stage_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.pipeline_stage IS NOT DISTINCT FROM OLD.pipeline_stage THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.pipeline_stage_history (organization_id, contact_id, old_stage, new_stage, changed_by)
+  VALUES (
+    NEW.organization_id,
+    NEW.id,
+    OLD.pipeline_stage::TEXT,
+    NEW.pipeline_stage::TEXT,
+    (SELECT id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_contact_stage_change
+  AFTER UPDATE OF pipeline_stage ON public.contacts
+  FOR EACH ROW EXECUTE FUNCTION public.log_contact_stage_change();
+
+CREATE OR REPLACE FUNCTION public.log_deal_stage_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage IS NOT DISTINCT FROM OLD.stage THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.pipeline_stage_history (organization_id, contact_id, deal_id, old_stage, new_stage, changed_by)
+  VALUES (
+    NEW.organization_id,
+    NEW.contact_id,
+    NEW.id,
+    OLD.stage::TEXT,
+    NEW.stage::TEXT,
+    (SELECT id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_deal_stage_change
+  AFTER UPDATE OF stage ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.log_deal_stage_change();
@@ -0,0 +1,32 @@
+-- =====================================================
+-- Migration: website lead capture
+-- =====================================================
+-- The capture-lead Edge Function receives the embeddable contact form of
+-- an organization's website. It is public (the form token in
+-- organizations.settings.lead_capture.form_token identifies the agency),
+-- so every submission is logged here to rate-limit it per visitor and
+-- per organization.
+--
+-- The visitor IP is only stored hashed. Rows are written and read by the
+-- Edge Function with the service role (no policies) and are pruned by it
+-- after a day.
+
+-- =====================================================
+-- TABLE
+-- =====================================================
+
+CREATE TABLE public.lead_capture_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  ip_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_lead_capture_attempts_org_ip ON public.lead_capture_attempts(organization_id, ip_hash, created_at DESC);
+CREATE INDEX idx_lead_capture_attempts_created_at ON public.lead_capture_attempts(created_at);
+
+-- =====================================================
+-- RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.lead_capture_attempts ENABLE ROW LEVEL SECURITY;
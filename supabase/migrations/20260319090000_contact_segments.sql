@@ -0,0 +1,55 @@
+-- =====================================================
+-- Migration: Saved contact segments
+-- =====================================================
+-- A segment is a named set of rules over contacts (role, pipeline stage,
+-- tags, source, city, lead score temperature, last contact recency and
+-- buyer search criteria). Only the rules are stored: membership is
+-- evaluated live by the app (src/lib/contact-segments.ts), so a segment
+-- always reflects the current contacts.
+
+-- =====================================================
+-- TABLE
+-- =====================================================
+
+CREATE TABLE public.contact_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  rules JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_contact_segments_organization_id ON public.contact_segments(organization_id);
+
+-- =====================================================
+-- RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.contact_segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view contact segments in their organization"
+  ON public.contact_segments FOR SELECT
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can create contact segments in their organization"
+  ON public.contact_segments FOR INSERT
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can update contact segments in their organization"
+  ON public.contact_segments FOR UPDATE
+  USING (organization_id = public.get_user_organization_id(auth.uid()))
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can delete contact segments in their organization"
+  ON public.contact_segments FOR DELETE
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_contact_segments_updated_at
+  BEFORE UPDATE ON public.contact_segments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,160 @@
+-- =====================================================
+-- Migration: merge_contacts() and the newer contact tables
+-- =====================================================
+-- merge_contacts() predates contact_consents, contact_relationships,
+-- deal_parties and pipeline_stage_history: their rows were deleted along
+-- with the merged contact. They are now re-pointed to the surviving
+-- contact like the other related rows, dropping those that would break
+-- a unique index:
+--   contact_consents        one row per channel, the most recent consent wins
+--   contact_relationships   a relationship between the two merged contacts is
+--                           dropped, one per pair and type, a single referrer
+--   deal_parties            one row per deal, contact and role
+
+CREATE OR REPLACE FUNCTION public.merge_contacts(
+  p_keep_id UUID,
+  p_merge_id UUID,
+  p_values JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.contacts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org UUID;
+  v_keep public.contacts%ROWTYPE;
+  v_merge public.contacts%ROWTYPE;
+  v_values public.contacts%ROWTYPE;
+BEGIN
+  v_org := public.get_user_organization_id(auth.uid());
+
+  IF v_org IS NULL THEN
+    RAISE EXCEPTION 'Organisation non trouvée';
+  END IF;
+
+  -- The merged contact is deleted: same rule as deleting a contact
+  IF NOT (public.has_role(auth.uid(), 'Admin') OR public.has_role(auth.uid(), 'Manager')) THEN
+    RAISE EXCEPTION 'Seuls les administrateurs et managers peuvent fusionner des contacts';
+  END IF;
+
+  IF p_keep_id = p_merge_id THEN
+    RAISE EXCEPTION 'Impossible de fusionner un contact avec lui-même';
+  END IF;
+
+  SELECT * INTO v_keep FROM public.contacts WHERE id = p_keep_id AND organization_id = v_org FOR UPDATE;
+  SELECT * INTO v_merge FROM public.contacts WHERE id = p_merge_id AND organization_id = v_org FOR UPDATE;
+
+  IF v_keep.id IS NULL OR v_merge.id IS NULL THEN
+    RAISE EXCEPTION 'Contact introuvable';
+  END IF;
+
+  -- Chosen values over the surviving record (identity columns are never taken from p_values)
+  v_values := jsonb_populate_record(
+    v_keep,
+    p_values - 'id' - 'organization_id' - 'created_at' - 'tags' - 'notes'
+  );
+
+  -- Related rows
+  UPDATE public.activities SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.deals SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.contact_searches SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.property_proposals SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.properties SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.mandates SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.leases SET tenant_id = p_keep_id WHERE tenant_id = p_merge_id;
+  UPDATE public.leases SET owner_id = p_keep_id WHERE owner_id = p_merge_id;
+  UPDATE public.offers SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.visit_vouchers SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.pipeline_stage_history SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+
+  -- One enrollment per sequence: the surviving contact's wins
+  DELETE FROM public.sequence_enrollments e
+  WHERE e.contact_id = p_merge_id
+    AND EXISTS (
+      SELECT 1 FROM public.sequence_enrollments k
+      WHERE k.contact_id = p_keep_id AND k.sequence_id = e.sequence_id
+    );
+  UPDATE public.sequence_enrollments SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+
+  -- One consent per channel: the most recent one wins
+  DELETE FROM public.contact_consents c
+  WHERE c.contact_id IN (p_keep_id, p_merge_id)
+    AND EXISTS (
+      SELECT 1 FROM public.contact_consents o
+      WHERE o.contact_id IN (p_keep_id, p_merge_id)
+        AND o.id <> c.id
+        AND o.channel = c.channel
+        AND (o.consented_at > c.consented_at OR (o.consented_at = c.consented_at AND o.contact_id = p_keep_id))
+    );
+  UPDATE public.contact_consents SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+
+  -- Relationships: none between the two merged contacts, one per pair and type, one referrer
+  DELETE FROM public.contact_relationships
+  WHERE (contact_id = p_merge_id AND related_contact_id = p_keep_id)
+     OR (contact_id = p_keep_id AND related_contact_id = p_merge_id);
+  DELETE FROM public.contact_relationships r
+  WHERE p_merge_id IN (r.contact_id, r.related_contact_id)
+    AND EXISTS (
+      SELECT 1 FROM public.contact_relationships k
+      WHERE p_keep_id IN (k.contact_id, k.related_contact_id)
+        AND k.type = r.type
+        AND CASE WHEN k.contact_id = p_keep_id THEN k.related_contact_id ELSE k.contact_id END
+          = CASE WHEN r.contact_id = p_merge_id THEN r.related_contact_id ELSE r.contact_id END
+    );
+  DELETE FROM public.contact_relationships r
+  WHERE r.contact_id = p_merge_id
+    AND r.type = 'referred_by'
+    AND EXISTS (
+      SELECT 1 FROM public.contact_relationships k
+      WHERE k.contact_id = p_keep_id AND k.type = 'referred_by'
+    );
+  UPDATE public.contact_relationships SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+  UPDATE public.contact_relationships SET related_contact_id = p_keep_id WHERE related_contact_id = p_merge_id;
+
+  -- One row per deal and role: the surviving contact's wins
+  DELETE FROM public.deal_parties p
+  WHERE p.contact_id = p_merge_id
+    AND EXISTS (
+      SELECT 1 FROM public.deal_parties k
+      WHERE k.contact_id = p_keep_id AND k.deal_id = p.deal_id AND k.role = p.role
+    );
+  UPDATE public.deal_parties SET contact_id = p_keep_id WHERE contact_id = p_merge_id;
+
+  DELETE FROM public.contact_duplicate_dismissals
+  WHERE contact_a = p_merge_id OR contact_b = p_merge_id;
+
+  DELETE FROM public.contacts WHERE id = p_merge_id;
+
+  UPDATE public.contacts
+  SET full_name = v_values.full_name,
+      email = v_values.email,
+      phone = v_values.phone,
+      role = v_values.role,
+      pipeline_stage = v_values.pipeline_stage,
+      address = v_values.address,
+      postal_code = v_values.postal_code,
+      city = v_values.city,
+      source = v_values.source,
+      assigned_to = v_values.assigned_to,
+      next_followup_date = v_values.next_followup_date,
+      tags = (
+        SELECT array_agg(DISTINCT tag)
+        FROM unnest(coalesce(v_keep.tags, '{}') || coalesce(v_merge.tags, '{}')) AS tag
+      ),
+      notes = CASE
+        WHEN nullif(v_merge.notes, '') IS NULL OR v_merge.notes = v_keep.notes THEN v_keep.notes
+        WHEN nullif(v_keep.notes, '') IS NULL THEN v_merge.notes
+        ELSE v_keep.notes || E'\n\n' || v_merge.notes
+      END,
+      urgency_score = greatest(v_keep.urgency_score, v_merge.urgency_score),
+      last_contact_date = greatest(v_keep.last_contact_date, v_merge.last_contact_date),
+      created_at = least(v_keep.created_at, v_merge.created_at)
+  WHERE id = p_keep_id
+  RETURNING * INTO v_keep;
+
+  RETURN v_keep;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_contacts(UUID, UUID, JSONB) TO authenticated;
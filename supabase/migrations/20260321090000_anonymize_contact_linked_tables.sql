@@ -0,0 +1,77 @@
+-- =====================================================
+-- Migration: anonymize_contact_data() and the newer contact tables
+-- =====================================================
+-- anonymize_contact_data() predates contact_relationships and deal_parties:
+-- an anonymized contact stayed linked to its relatives, its referrer and
+-- the deals it took part in, which is enough to re-identify it. Both are
+-- now deleted with the rest of the contact's personal data; the deals
+-- themselves keep their amounts and commissions.
+
+CREATE OR REPLACE FUNCTION public.anonymize_contact_data(p_contact_id UUID)
+RETURNS public.contacts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contact public.contacts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_contact FROM public.contacts WHERE id = p_contact_id FOR UPDATE;
+
+  IF v_contact.id IS NULL THEN
+    RAISE EXCEPTION 'Contact introuvable';
+  END IF;
+
+  -- Activities backing a visit voucher are kept (proof of visit), without their notes
+  DELETE FROM public.activities a
+  WHERE a.contact_id = p_contact_id
+    AND NOT EXISTS (SELECT 1 FROM public.visit_vouchers v WHERE v.activity_id = a.id);
+  UPDATE public.activities SET description = NULL WHERE contact_id = p_contact_id;
+
+  -- A signed voucher is a legal record of the visit: name, signer and signature stay
+  UPDATE public.visit_vouchers
+  SET visitor_name = CASE WHEN signed_at IS NULL THEN 'Contact anonymisé' ELSE visitor_name END,
+      visitor_email = NULL,
+      visitor_phone = NULL
+  WHERE contact_id = p_contact_id;
+
+  -- Deals keep their amounts and commissions; the name no longer identifies the person
+  UPDATE public.deals
+  SET name = replace(name, v_contact.full_name, 'Contact anonymisé'),
+      notes = NULL
+  WHERE contact_id = p_contact_id;
+
+  DELETE FROM public.contact_searches WHERE contact_id = p_contact_id;
+  DELETE FROM public.sequence_enrollments WHERE contact_id = p_contact_id;
+  DELETE FROM public.property_proposals WHERE contact_id = p_contact_id;
+  DELETE FROM public.contact_consents WHERE contact_id = p_contact_id;
+  DELETE FROM public.contact_duplicate_dismissals
+  WHERE contact_a = p_contact_id OR contact_b = p_contact_id;
+  DELETE FROM public.contact_import_batch_items WHERE contact_id = p_contact_id;
+
+  -- Links to other people and to deals would still tell who the contact was
+  DELETE FROM public.contact_relationships
+  WHERE contact_id = p_contact_id OR related_contact_id = p_contact_id;
+  DELETE FROM public.deal_parties WHERE contact_id = p_contact_id;
+
+  UPDATE public.contacts
+  SET full_name = 'Contact anonymisé',
+      email = NULL,
+      phone = NULL,
+      address = NULL,
+      postal_code = NULL,
+      city = NULL,
+      notes = NULL,
+      source = NULL,
+      tags = '{}',
+      next_followup_date = NULL,
+      urgency_score = 0,
+      anonymized_at = now()
+  WHERE id = p_contact_id
+  RETURNING * INTO v_contact;
+
+  RETURN v_contact;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.anonymize_contact_data(UUID) FROM PUBLIC, anon, authenticated;